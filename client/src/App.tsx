@@ -5,21 +5,33 @@ import { AuthScreen } from './screens/AuthScreen';
 import type { AuthUser } from './screens/AuthScreen';
 import { MainMenu } from './screens/MainMenu';
 import { RoomSelect } from './screens/RoomSelect';
+import { TournamentLobby } from './screens/TournamentLobby';
 import { PrivateRoom } from './screens/PrivateRoom';
+import { HandReplayer } from './screens/HandReplayer';
 import { hasToken, apiGet, setToken, clearToken } from './api';
 import { CardPreferencesProvider } from './contexts/CardPreferencesContext';
+import type { Room } from './types/table';
 
-type ViewType = 'auth' | 'mainMenu' | 'roomSelect' | 'privateRoom' | 'table';
+type ViewType = 'auth' | 'mainMenu' | 'roomSelect' | 'tournamentLobby' | 'privateRoom' | 'table' | 'handReplayer';
+
+// 共有リンク（?hand=<id>）で開くハンド
+function getSharedHandId(): string | null {
+  return new URLSearchParams(window.location.search).get('hand');
+}
 
 function App() {
   const [currentView, setCurrentView] = useState<ViewType>('auth');
   const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
   const [initialRoomData, setInitialRoomData] = useState<any>(null);
   const [initialHand, setInitialHand] = useState<string[] | null>(null);
+  const [isSpectating, setIsSpectating] = useState(false);
   const [myId, setMyId] = useState('');
   const [user, setUser] = useState<AuthUser | null>(null);
+  const [replayHandId, setReplayHandId] = useState<string | null>(getSharedHandId);
 
   const socketRef = useRef<Socket | null>(null);
+  // 画面に渡す接続（レンダー中に ref を読まないよう state でも持つ）
+  const [socket, setSocket] = useState<Socket | null>(null);
 
   // トークン検証 + 自動ログイン
   useEffect(() => {
@@ -35,7 +47,7 @@ function App() {
           avatarIcon: data.user.avatarIcon,
           token,
         });
-        setCurrentView('mainMenu');
+        setCurrentView(getSharedHandId() ? 'handReplayer' : 'mainMenu');
       })
       .catch(() => {
         clearToken();
@@ -55,6 +67,7 @@ function App() {
       auth: { token },
     });
     socketRef.current = socket;
+    setSocket(socket);
 
     socket.on('connect', () => {
       console.log('Connected to server');
@@ -64,6 +77,21 @@ function App() {
     socket.on('disconnect', () => {
       console.log('Disconnected from server');
     });
+
+    // マルチテーブルトーナメントの開始・卓の移動（どの画面にいても卓へ）
+    // Table は作り直さない（アンマウントで leave-room が送られるため）
+    socket.on('table-moved', (data: { room: Room; yourSocketId: string }) => {
+      localStorage.setItem('mgp-last-room', data.room.id);
+      const me = data.room.players.find(p => p?.socketId === data.yourSocketId);
+      if (me?.resumeToken) {
+        localStorage.setItem('mgp-resume-token', me.resumeToken);
+      }
+      setCurrentRoomId(data.room.id);
+      setIsSpectating(false);
+      setInitialRoomData(data.room);
+      setInitialHand(null);
+      setCurrentView('table');
+    });
   }, []);
 
   // Cleanup
@@ -79,12 +107,13 @@ function App() {
   const handleAuthenticated = useCallback((authUser: AuthUser) => {
     setUser(authUser);
     connectSocket(authUser.token);
-    setCurrentView('mainMenu');
+    setCurrentView(getSharedHandId() ? 'handReplayer' : 'mainMenu');
   }, [connectSocket]);
 
   // ルーム参加
-  const handleJoinRoom = useCallback((roomId: string, roomData?: any, yourHand?: string[] | null) => {
+  const handleJoinRoom = useCallback((roomId: string, roomData?: any, yourHand?: string[] | null, asSpectator = false) => {
     setCurrentRoomId(roomId);
+    setIsSpectating(asSpectator);
     setInitialRoomData(roomData || null);
     setInitialHand(yourHand || null);
     setCurrentView('table');
@@ -107,6 +136,7 @@ function App() {
       socketRef.current.disconnect();
       socketRef.current = null;
     }
+    setSocket(null);
     setUser(null);
     setCurrentView('auth');
   }, []);
@@ -142,7 +172,15 @@ function App() {
 
       {currentView === 'roomSelect' && (
         <RoomSelect
-          socket={socketRef.current}
+          socket={socket}
+          onJoinRoom={handleJoinRoom}
+          onBack={() => setCurrentView('mainMenu')}
+        />
+      )}
+
+      {currentView === 'tournamentLobby' && (
+        <TournamentLobby
+          socket={socket}
           onJoinRoom={handleJoinRoom}
           onBack={() => setCurrentView('mainMenu')}
         />
@@ -150,19 +188,30 @@ function App() {
 
       {currentView === 'privateRoom' && (
         <PrivateRoom
-          socket={socketRef.current}
+          socket={socket}
           onJoinRoom={handleJoinRoom}
           onBack={() => setCurrentView('mainMenu')}
         />
       )}
 
+      {currentView === 'handReplayer' && (
+        <HandReplayer
+          initialHandId={replayHandId}
+          onBack={() => {
+            setReplayHandId(null);
+            setCurrentView('mainMenu');
+          }}
+        />
+      )}
+
       {currentView === 'table' && (
         <Table
-          socket={socketRef.current}
+          socket={socket}
           roomId={currentRoomId || ''}
           initialRoomData={initialRoomData}
           initialHand={initialHand}
           yourSocketId={myId}
+          isSpectator={isSpectating}
           onLeaveRoom={handleLeaveRoom}
         />
       )}
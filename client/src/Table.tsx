@@ -10,6 +10,7 @@ import { PokerTable } from './components/table/PokerTable';
 import { ActionPanel } from './components/action/ActionPanel';
 import { Card } from './components/cards/Card';
 import { GameLog } from './components/log/GameLog';
+import { ChatPanel } from './components/log/ChatPanel';
 import type { LogEntry } from './components/log/GameLog';
 import { evaluateHandRank } from './handEvaluator';
 import { useTableSocketEvents } from './hooks/useTableSocketEvents';
@@ -20,10 +21,16 @@ import { useOrientation } from './hooks/useOrientation';
 import { useSyncYourHand } from './hooks/useSyncYourHand';
 import { useGameActions } from './hooks/useGameActions';
 import { HostControlsPanel } from './components/HostControlsPanel';
+import { FairnessPanel } from './components/fairness/FairnessPanel';
+import { useClientSeed } from './hooks/useClientSeed';
+import { useTableChat } from './hooks/useTableChat';
 import { OFCTable } from './components/ofc/OFCTable';
+import { TournamentInfo } from './components/table/TournamentInfo';
+import { getSeatLayoutSize } from './constants/seatPositions';
 import type {
   Room,
   ActionType,
+  RunItVoteRequest,
   ShowdownResult,
 } from './types/table';
 
@@ -32,6 +39,16 @@ const GAME_VARIANT_NAMES: Record<string, string> = {
   NLH: "No Limit Hold'em",
   PLO: 'Pot Limit Omaha',
   PLO8: 'PLO Hi-Lo',
+  PLO_DB: 'PLO Double Board',
+  FL_DRAMAHA_HI: 'Dramaha Hi',
+  FL_DRAMAHA_27: 'Dramaha 2-7',
+  FL_DRAMAHA_BADUGI: 'Dramaha Badugi',
+  FL_DRAMAHA_HIDUGI: 'Dramaha Hidugi',
+  FL_DRAMAHA_49: 'Dramaha 49',
+  FL_DRAMAHA_0: 'Dramaha 0',
+  FL_DRAMAHA_PICKEM: "Dramaha Pick'em",
+  PL_CMRIVER1: 'Cry Me a River (1 Vanish)',
+  PL_CMRIVER2: 'Cry Me a River (2 Vanish)',
   '2-7_TD': '2-7 Triple Draw',
   '7CS': '7 Card Stud',
   '7CS8': '7 Card Stud Hi-Lo',
@@ -43,6 +60,11 @@ const DRAW_MAX_BY_VARIANT: Record<string, number> = {
   '2-7_TD': 5,
   BADUGI: 4,
 };
+// Cry Me a River: リバー後に消失させる枚数
+const VANISH_COUNT_BY_VARIANT: Record<string, number> = {
+  PL_CMRIVER1: 1,
+  PL_CMRIVER2: 2,
+};
 
 function getGameVariantFullName(variantId: string): string {
   return GAME_VARIANT_NAMES[variantId] || variantId;
@@ -54,6 +76,7 @@ interface TableProps {
   initialRoomData: Room | null;
   initialHand?: string[] | null;
   yourSocketId: string;
+  isSpectator?: boolean;  // 観戦モード（着席・アクション不可）
   onLeaveRoom: () => void;
 }
 
@@ -63,6 +86,7 @@ export function Table({
   initialRoomData,
   initialHand = null,
   yourSocketId,
+  isSpectator = false,
   onLeaveRoom
 }: TableProps) {
   const [room, setRoom] = useState<Room | null>(initialRoomData);
@@ -91,12 +115,24 @@ export function Table({
   const [isDrawPhase, setIsDrawPhase] = useState(false);
   const [selectedDrawCards, setSelectedDrawCards] = useState<number[]>([]);
   const [hasDrawnThisRound, setHasDrawnThisRound] = useState(false);
+  const [drawDeclaration, setDrawDeclaration] = useState<'high' | 'low'>('high'); // Dramaha Pick'em
+
+  // Run it Twice/3 Times 投票
+  const [runItVote, setRunItVote] = useState<RunItVoteRequest | null>(null);
+
+  // Provably Fair
+  const [showFairness, setShowFairness] = useState(false);
 
   // タイマー関連state
   const [timerSeconds, setTimerSeconds] = useState<number | undefined>(undefined);
   const [timeBankChips, setTimeBankChips] = useState(5);
   const maxTimerSeconds = 30;
-  const maxDrawCount = room ? (DRAW_MAX_BY_VARIANT[room.gameState.gameVariant] || 5) : 5;
+  const vanishCount = room ? (VANISH_COUNT_BY_VARIANT[room.gameState.gameVariant] || 0) : 0;
+  const isVanishPhase = vanishCount > 0 && room?.gameState.status === 'VANISH';
+  const maxDrawCount = isVanishPhase
+    ? vanishCount
+    : room ? (DRAW_MAX_BY_VARIANT[room.gameState.gameVariant] || 5) : 5;
+  const isPickem = room?.gameState.gameVariant === 'FL_DRAMAHA_PICKEM';
 
   // socketをrefで追跡（アンマウント時に最新のsocketを参照するため）
   const socketRef = useRef(socket);
@@ -109,6 +145,8 @@ export function Table({
     setGameLogs(prev => [...prev.slice(-49), entry]); // 最大50件保持
   }, []);
 
+  const { chatMessages, mutedPlayerIds, addChatMessage, sendChat, toggleMute, setHostMuted } = useTableChat(socket);
+
   useTableSocketEvents({
     socket,
     yourSocketId,
@@ -125,9 +163,12 @@ export function Table({
     setTimeBankChips,
     setHasDrawnThisRound,
     setSelectedDrawCards,
+    setRunItVote,
+    addChatMessage,
   });
 
   useLeaveRoomOnUnmount(socketRef);
+  const [clientSeed, setClientSeed] = useClientSeed(socket, room, yourSocketId);
   useTurnTimer(isYourTurn, timerSeconds, setTimerSeconds);
   useDrawPhaseState(room, isDrawPhase, setIsDrawPhase, setHasDrawnThisRound, setSelectedDrawCards);
   useSyncYourHand(room, yourSocketId, yourHand.length, setYourHand);
@@ -139,9 +180,12 @@ export function Table({
     handleUseTimeBank,
     toggleDrawCard,
     handleDraw,
+    handleVanish,
     handleLeaveRoom,
     handleRebuy,
     handleImBack,
+    handleToggleStraddle,
+    handleRunItVote,
   } = useGameActions({
     socket,
     actionToken,
@@ -149,6 +193,8 @@ export function Table({
     rebuyAmount,
     selectedDrawCards,
     maxDrawCount,
+    drawDeclaration: isPickem ? drawDeclaration : undefined,
+    keepResumeToken: room?.tournament?.status === 'RUNNING',
     onLeaveRoom,
     setIsYourTurn,
     setTimerSeconds,
@@ -180,6 +226,8 @@ export function Table({
   const yourPlayer = isSeated ? room.players[yourSeatIndex] : null;
   const isPendingJoin = yourPlayer?.status === 'SIT_OUT' && yourPlayer?.pendingJoin;
   const isSittingOut = (yourPlayer?.status === 'SIT_OUT' || yourPlayer?.pendingSitOut) && !yourPlayer?.pendingJoin;
+  const straddlePolicy = room.config.straddlePolicy ?? 'none';
+  const isStraddling = !!yourPlayer?.straddleNextHand;
 
   const currentRoundBets = room.players.reduce((sum, p) => sum + (p?.bet || 0), 0);
   const totalPotRaw = room.gameState.pot.main + room.gameState.pot.side.reduce((sum, s) => sum + s.amount, 0);
@@ -188,10 +236,24 @@ export function Table({
 
   const yourBet = isSeated ? (room.players[yourSeatIndex]?.bet || 0) : 0;
   const yourStack = isSeated ? (room.players[yourSeatIndex]?.stack || 0) : 0;
-  const maxPlayers = (room.config.maxPlayers as 6 | 8) || 6;
+  const maxPlayers = getSeatLayoutSize(room.config.maxPlayers || 6);
   const isHost = room.hostId === yourSocketId;
   const isPrivateRoom = !!room.hostId;
 
+  const chatPanel = (
+    <ChatPanel
+      messages={chatMessages}
+      yourSocketId={yourSocketId}
+      mutedPlayerIds={mutedPlayerIds}
+      hostMutedPlayerIds={room.chatMuted || []}
+      isHost={isHost}
+      canChat={!isSpectator}
+      onSend={sendChat}
+      onToggleMute={toggleMute}
+      onHostMute={setHostMuted}
+    />
+  );
+
   // OFCゲームの場合は専用テーブルをレンダリング
   if (room.gameState.gameVariant === 'OFC' && socket) {
     return (
@@ -200,6 +262,8 @@ export function Table({
         room={room}
         yourSocketId={yourSocketId}
         onLeaveRoom={onLeaveRoom}
+        chatPanel={chatPanel}
+        chatCount={chatMessages.length}
       />
     );
   }
@@ -240,6 +304,48 @@ export function Table({
           )}
         </div>
         <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+          {isSpectator && (
+            <span
+              title={room.config.spectatorHoleCardDelay
+                ? `Hole cards shown with a ${room.config.spectatorHoleCardDelay}s delay`
+                : 'Hole cards are hidden'}
+              style={{
+                background: 'rgba(59,130,246,0.2)', border: '1px solid rgba(59,130,246,0.4)',
+                color: '#93c5fd', fontSize: '12px', padding: '6px 12px', borderRadius: '8px',
+                fontWeight: 600,
+              }}
+            >
+              👁 Spectating
+            </span>
+          )}
+          {isSeated && straddlePolicy !== 'none' && (
+            <button
+              className="action-btn"
+              onClick={() => handleToggleStraddle(!isStraddling)}
+              title={`Straddle policy: ${straddlePolicy}`}
+              style={{
+                background: isStraddling ? 'rgba(34,197,94,0.25)' : 'rgba(255,255,255,0.08)',
+                border: `1px solid ${isStraddling ? 'rgba(34,197,94,0.5)' : 'rgba(255,255,255,0.2)'}`,
+                color: isStraddling ? '#86efac' : 'rgba(255,255,255,0.7)',
+                fontSize: '12px', padding: '6px 12px', borderRadius: '8px',
+                cursor: 'pointer', fontWeight: 600,
+              }}
+            >
+              Straddle {isStraddling ? 'ON' : 'OFF'}
+            </button>
+          )}
+          <button
+            className="action-btn"
+            onClick={() => setShowFairness(true)}
+            title="Provably fair shuffle"
+            style={{
+              background: 'rgba(255,255,255,0.08)', border: '1px solid rgba(255,255,255,0.2)',
+              color: 'rgba(255,255,255,0.7)', fontSize: '12px', padding: '6px 12px', borderRadius: '8px',
+              cursor: 'pointer', fontWeight: 600,
+            }}
+          >
+            Fair
+          </button>
           {isHost && (
             <button
               className="action-btn"
@@ -267,10 +373,19 @@ export function Table({
           borderRadius: '8px', padding: '6px 16px', zIndex: 50,
           color: '#fbbf24', fontSize: '12px', fontWeight: 600, whiteSpace: 'nowrap',
         }}>
-          Settings change pending after this hand
+          {room.tournament ? 'Blinds go up next hand' : 'Settings change pending after this hand'}
         </div>
       )}
 
+      {/* トーナメント情報 */}
+      {room.tournament && (
+        <TournamentInfo
+          tournament={room.tournament}
+          seatedCount={seatedPlayerCount}
+          maxPlayers={room.config.maxPlayers}
+        />
+      )}
+
       {/* ホストコントロールパネル */}
       {showHostControls && isHost && (
         <HostControlsPanel
@@ -280,6 +395,17 @@ export function Table({
         />
       )}
 
+      {/* Provably Fair パネル */}
+      {showFairness && (
+        <FairnessPanel
+          commitment={room.gameState.fairness}
+          nextCommitment={room.gameState.nextFairnessCommitment}
+          clientSeed={clientSeed}
+          onChangeClientSeed={setClientSeed}
+          onClose={() => setShowFairness(false)}
+        />
+      )}
+
       {/* ポーカーテーブル */}
       <PokerTable
         maxPlayers={maxPlayers}
@@ -299,7 +425,9 @@ export function Table({
         <div className="draw-panel">
           <div className="draw-header">
             <span className="draw-title">
-              {hasDrawnThisRound ? 'Draw complete - waiting for others...' : 'Select cards to discard'}
+              {hasDrawnThisRound
+                ? `${isVanishPhase ? 'Vanish' : 'Draw'} complete - waiting for others...`
+                : isVanishPhase ? `Select ${vanishCount} card${vanishCount > 1 ? 's' : ''} to vanish` : 'Select cards to discard'}
             </span>
             <span className="hand-rank-display">
               {evaluateHandRank(yourHand, room.gameState.board, room.gameState.gameVariant)}
@@ -324,7 +452,31 @@ export function Table({
               </div>
             ))}
           </div>
-          {!hasDrawnThisRound && (
+          {!hasDrawnThisRound && isPickem && (
+            <div className="draw-actions" style={{ marginBottom: 12 }}>
+              {(['high', 'low'] as const).map(decl => (
+                <button
+                  key={decl}
+                  className={`draw-button ${drawDeclaration === decl ? 'draw-selected' : 'stand-pat'}`}
+                  onClick={() => setDrawDeclaration(decl)}
+                >
+                  {decl === 'high' ? 'Declare High' : 'Declare Low (2-7)'}
+                </button>
+              ))}
+            </div>
+          )}
+          {!hasDrawnThisRound && isVanishPhase && (
+            <div className="draw-actions">
+              <button
+                className="draw-button draw-selected"
+                onClick={handleVanish}
+                disabled={selectedDrawCards.length !== vanishCount}
+              >
+                Vanish {selectedDrawCards.length}
+              </button>
+            </div>
+          )}
+          {!hasDrawnThisRound && !isVanishPhase && (
             <div className="draw-actions">
               <button className="draw-button stand-pat" onClick={() => handleDraw()}>
                 Stand Pat (0)
@@ -400,7 +552,7 @@ export function Table({
       )}
 
       {/* リバイダイアログ - チップが0の場合 */}
-      {isSeated && isWaiting && yourStack === 0 && (
+      {isSeated && isWaiting && yourStack === 0 && !room.tournament && (
         <div className="rebuy-panel">
           <div className="rebuy-header">
             <span className="rebuy-icon">💸</span>
@@ -433,6 +585,31 @@ export function Table({
         </div>
       )}
 
+      {/* Run it Twice/3 Times 投票パネル - オールインランアウト前 */}
+      {runItVote && !isSpectator && (
+        <div className="rebuy-panel">
+          <div className="rebuy-header">
+            <span className="rebuy-icon">🎲</span>
+            <h3 className="rebuy-title">Run It Multiple Times?</h3>
+          </div>
+          <p className="rebuy-message">All players must agree, otherwise the board runs once</p>
+          <div className="rebuy-controls">
+            {Array.from({ length: runItVote.maxRuns }, (_, i) => i + 1).map(runs => (
+              <button
+                key={runs}
+                className={`action-btn ${runs === 1 ? 'fold' : 'check'}`}
+                onClick={() => {
+                  handleRunItVote(runs);
+                  setRunItVote(null);
+                }}
+              >
+                {runs === 1 ? 'Once' : runs === 2 ? 'Twice' : `${runs} Times`}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* I'm Back パネル - SIT_OUT状態（チップあり） */}
       {isSeated && isSittingOut && yourStack > 0 && (
         <div className="rebuy-panel">
@@ -478,6 +655,8 @@ export function Table({
         entries={gameLogs}
         isCollapsed={isLogCollapsed}
         onToggle={() => setIsLogCollapsed(!isLogCollapsed)}
+        chatPanel={chatPanel}
+        chatCount={chatMessages.length}
       />
     </div>
   );
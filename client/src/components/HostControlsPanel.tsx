@@ -4,9 +4,17 @@
  */
 import { useState } from 'react';
 import type { Socket } from 'socket.io-client';
-import type { Room } from '../types/table';
+import type { Player, Room } from '../types/table';
 import { GAME_OPTIONS, BLIND_PRESETS } from '../constants/gameConfig';
 
+type BotStyle = NonNullable<Player['botStyle']>;
+
+const BOT_STYLE_OPTIONS: { id: BotStyle; label: string }[] = [
+  { id: 'tight', label: 'Tight' },
+  { id: 'loose', label: 'Loose' },
+  { id: 'calling-station', label: 'Calling Station' },
+];
+
 interface HostControlsPanelProps {
   room: Room;
   socket: Socket | null;
@@ -24,6 +32,14 @@ export function HostControlsPanel({ room, socket, onClose }: HostControlsPanelPr
     room.rotation?.gamesList || [room.gameState.gameVariant]
   );
   const [password, setPassword] = useState(room.config.password || '');
+  const [botStyle, setBotStyle] = useState<BotStyle>('tight');
+
+  // OFC は卓上の Add Bot ボタンを使う
+  const canUseBots = room.gameState.gameVariant !== 'OFC';
+  const seatedBots = room.players
+    .map((player, seatIndex) => ({ player, seatIndex }))
+    .filter(({ player }) => player?.botStyle);
+  const hasEmptySeat = room.players.some(p => p === null);
 
   const isGameInProgress = room.gameState.status !== 'WAITING';
 
@@ -203,6 +219,67 @@ export function HostControlsPanel({ room, socket, onClose }: HostControlsPanelPr
           )}
         </div>
 
+        {/* Bots */}
+        {canUseBots && (
+          <div style={{ marginBottom: '18px' }}>
+            <label style={sectionLabel}>Bots</label>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', marginBottom: '8px' }}>
+              {BOT_STYLE_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setBotStyle(option.id)}
+                  style={{
+                    padding: '6px 12px', borderRadius: '16px',
+                    border: botStyle === option.id ? '1px solid #8b5cf6' : '1px solid rgba(255,255,255,0.12)',
+                    background: botStyle === option.id ? 'rgba(139,92,246,0.2)' : 'transparent',
+                    color: botStyle === option.id ? '#c4b5fd' : 'rgba(255,255,255,0.4)',
+                    cursor: 'pointer', fontSize: '12px',
+                  }}
+                >
+                  {option.label}
+                </button>
+              ))}
+              <button
+                onClick={() => socket?.emit('add-bot', { style: botStyle })}
+                disabled={!hasEmptySeat}
+                style={{
+                  padding: '6px 14px', borderRadius: '16px', border: 'none',
+                  background: hasEmptySeat ? '#8b5cf6' : 'rgba(255,255,255,0.08)',
+                  color: hasEmptySeat ? '#fff' : 'rgba(255,255,255,0.3)',
+                  cursor: hasEmptySeat ? 'pointer' : 'not-allowed', fontWeight: 600, fontSize: '12px',
+                }}
+              >
+                Add Bot
+              </button>
+            </div>
+            {seatedBots.map(({ player, seatIndex }) => (
+              <div
+                key={seatIndex}
+                style={{
+                  display: 'flex', justifyContent: 'space-between', alignItems: 'center',
+                  padding: '6px 0', color: 'rgba(255,255,255,0.7)', fontSize: '13px',
+                }}
+              >
+                <span>
+                  {player?.name} <span style={{ color: 'rgba(255,255,255,0.4)' }}>({player?.botStyle})</span>
+                  {player?.pendingSitOut && <span style={{ color: '#fbbf24' }}> · leaving after this hand</span>}
+                </span>
+                <button
+                  onClick={() => socket?.emit('remove-bot', { seatIndex })}
+                  disabled={player?.pendingSitOut}
+                  style={{
+                    fontSize: '11px', padding: '3px 10px', borderRadius: '12px', border: 'none',
+                    background: 'rgba(239,68,68,0.2)', color: '#fca5a5',
+                    cursor: player?.pendingSitOut ? 'not-allowed' : 'pointer',
+                  }}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Password */}
         <div style={{ marginBottom: '20px' }}>
           <label style={sectionLabel}>Password</label>
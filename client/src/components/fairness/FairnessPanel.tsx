@@ -0,0 +1,118 @@
+/**
+ * FairnessPanel - Provably Fair パネル
+ * 自分のクライアントシードと現在・次のハンドのコミットメント
+ * シードの検証はハンドリプレイ画面で（卓を離れてから公開される）
+ */
+import { useState } from 'react';
+import type { FairnessCommitment } from '../../types/table';
+
+interface FairnessPanelProps {
+  commitment?: FairnessCommitment;
+  nextCommitment?: string;
+  clientSeed: string;
+  onChangeClientSeed: (seed: string) => void;
+  onClose: () => void;
+}
+
+const MAX_CLIENT_SEED_LENGTH = 64;
+
+const labelStyle: React.CSSProperties = {
+  color: 'rgba(255,255,255,0.5)', fontSize: '11px', marginBottom: '4px',
+};
+
+const valueStyle: React.CSSProperties = {
+  color: '#fff', fontSize: '11px', fontFamily: 'monospace', wordBreak: 'break-all',
+  background: 'rgba(255,255,255,0.05)', borderRadius: '6px', padding: '6px 8px', marginBottom: '12px',
+};
+
+export function FairnessPanel({ commitment, nextCommitment, clientSeed, onChangeClientSeed, onClose }: FairnessPanelProps) {
+  const [seedInput, setSeedInput] = useState(clientSeed);
+  const trimmedSeed = seedInput.trim();
+  const canSaveSeed = trimmedSeed.length > 0 && trimmedSeed.length <= MAX_CLIENT_SEED_LENGTH && trimmedSeed !== clientSeed;
+
+  return (
+    <div
+      style={{
+        position: 'fixed', inset: 0, zIndex: 100,
+        background: 'rgba(0,0,0,0.7)', display: 'flex',
+        alignItems: 'center', justifyContent: 'center',
+        padding: '20px',
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          background: 'linear-gradient(135deg, #1a1a2e, #16213e)',
+          borderRadius: '16px', padding: '24px', maxWidth: '480px',
+          width: '100%', maxHeight: '80vh', overflowY: 'auto',
+          border: '1px solid rgba(255,255,255,0.1)',
+        }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
+          <h3 style={{ margin: 0, color: '#fff', fontSize: '18px' }}>Provably Fair</h3>
+          <button
+            onClick={onClose}
+            style={{
+              background: 'none', border: 'none', color: 'rgba(255,255,255,0.5)',
+              fontSize: '20px', cursor: 'pointer',
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        {/* 自分のクライアントシード */}
+        <div style={labelStyle}>Your client seed (used from the next hand)</div>
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
+          <input
+            value={seedInput}
+            maxLength={MAX_CLIENT_SEED_LENGTH}
+            onChange={e => setSeedInput(e.target.value)}
+            style={{
+              flex: 1, background: 'rgba(255,255,255,0.08)', border: '1px solid rgba(255,255,255,0.2)',
+              borderRadius: '6px', color: '#fff', fontFamily: 'monospace', fontSize: '12px', padding: '6px 8px',
+            }}
+          />
+          <button
+            disabled={!canSaveSeed}
+            onClick={() => onChangeClientSeed(trimmedSeed)}
+            style={{
+              background: canSaveSeed ? 'rgba(139,92,246,0.3)' : 'rgba(255,255,255,0.05)',
+              border: '1px solid rgba(139,92,246,0.4)', color: canSaveSeed ? '#c4b5fd' : 'rgba(255,255,255,0.3)',
+              fontSize: '12px', padding: '6px 12px', borderRadius: '6px',
+              cursor: canSaveSeed ? 'pointer' : 'default',
+            }}
+          >
+            Save
+          </button>
+        </div>
+
+        {/* 現在のハンド */}
+        <div style={{ color: '#fff', fontSize: '14px', fontWeight: 600, marginBottom: '8px' }}>
+          Current hand {commitment ? `#${commitment.nonce}` : ''}
+        </div>
+        {commitment ? (
+          <>
+            <div style={labelStyle}>Server seed hash (commitment)</div>
+            <div style={valueStyle}>{commitment.commitment}</div>
+            <div style={labelStyle}>Client seeds</div>
+            <div style={valueStyle}>{commitment.clientSeed || '(none)'}</div>
+          </>
+        ) : (
+          <div style={{ ...labelStyle, marginBottom: '12px' }}>No hand in progress</div>
+        )}
+
+        {/* 次のハンド: シードはクライアントシードの確定前にコミット済み */}
+        {nextCommitment && (
+          <>
+            <div style={labelStyle}>Next hand server seed hash (committed before client seeds are fixed)</div>
+            <div style={valueStyle}>{nextCommitment}</div>
+          </>
+        )}
+
+        <div style={labelStyle}>Server seeds are revealed in your hand history after you leave the table</div>
+      </div>
+    </div>
+  );
+}
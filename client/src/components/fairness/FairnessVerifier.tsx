@@ -0,0 +1,85 @@
+/**
+ * FairnessVerifier - 公開されたシードの検証（ハンドリプレイ画面）
+ * サーバーシードは参加者が卓を離れてからハンド履歴で公開される
+ */
+import { useState } from 'react';
+import { verifyShuffle } from './verifyShuffle';
+import type { FairnessCommitment, FairnessReveal } from '../../types/table';
+
+interface FairnessVerifierProps {
+  fairness: FairnessCommitment | FairnessReveal;
+}
+
+const labelStyle: React.CSSProperties = {
+  color: 'rgba(255,255,255,0.5)', fontSize: '11px', marginBottom: '4px',
+};
+
+const valueStyle: React.CSSProperties = {
+  color: '#fff', fontSize: '11px', fontFamily: 'monospace', wordBreak: 'break-all',
+  background: 'rgba(255,255,255,0.05)', borderRadius: '6px', padding: '6px 8px', marginBottom: '12px',
+};
+
+export function FairnessVerifier({ fairness }: FairnessVerifierProps) {
+  const [result, setResult] = useState<{ commitment: string; commitmentMatches: boolean; deck: string[] } | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  const reveal = 'serverSeed' in fairness ? fairness : null;
+
+  const handleVerify = () => {
+    if (!reveal) return;
+    setVerifying(true);
+    verifyShuffle(reveal)
+      .then(verified => setResult({ commitment: reveal.commitment, ...verified }))
+      .finally(() => setVerifying(false));
+  };
+
+  const shownResult = result && result.commitment === fairness.commitment ? result : null;
+
+  return (
+    <div style={{
+      marginTop: '12px', background: 'rgba(255,255,255,0.05)', borderRadius: '12px',
+      border: '1px solid rgba(255,255,255,0.1)', padding: '12px',
+    }}>
+      <div style={{ color: '#fff', fontSize: '14px', fontWeight: 600, marginBottom: '8px' }}>Provably Fair</div>
+      <div style={labelStyle}>Commitment</div>
+      <div style={valueStyle}>{fairness.commitment}</div>
+      <div style={labelStyle}>Client seeds / nonce / deck</div>
+      <div style={valueStyle}>
+        {fairness.clientSeed || '(none)'} / {fairness.nonce} / {fairness.deckType}
+      </div>
+      {reveal ? (
+        <>
+          <div style={labelStyle}>Server seed (revealed)</div>
+          <div style={valueStyle}>{reveal.serverSeed}</div>
+          <button
+            onClick={handleVerify}
+            disabled={verifying}
+            style={{
+              width: '100%', background: 'rgba(34,197,94,0.2)', border: '1px solid rgba(34,197,94,0.4)',
+              color: '#86efac', fontSize: '13px', fontWeight: 600, padding: '8px', borderRadius: '8px',
+              cursor: 'pointer', marginBottom: '12px',
+            }}
+          >
+            {verifying ? 'Verifying...' : 'Verify shuffle'}
+          </button>
+          {shownResult && (
+            <>
+              <div style={{
+                color: shownResult.commitmentMatches ? '#22c55e' : '#ef4444',
+                fontSize: '13px', fontWeight: 600, marginBottom: '8px',
+              }}>
+                {shownResult.commitmentMatches
+                  ? '✓ Server seed matches the commitment'
+                  : '✗ Server seed does NOT match the commitment'}
+              </div>
+              <div style={labelStyle}>Deck order (dealt from the top)</div>
+              <div style={valueStyle}>{shownResult.deck.join(' ')}</div>
+            </>
+          )}
+        </>
+      ) : (
+        <div style={labelStyle}>The server seed is revealed to players of this hand after they leave the table</div>
+      )}
+    </div>
+  );
+}
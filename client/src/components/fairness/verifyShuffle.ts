@@ -0,0 +1,76 @@
+// ========================================
+// Mix Poker - Shuffle Verifier
+// 公開されたサーバーシードからデッキ順を再計算する（サーバーを信用せずブラウザ内で検証）
+// サーバー側 fairness/provablyFair.ts と同じアルゴリズム
+// ========================================
+
+import type { FairnessReveal } from '../../types/table';
+
+const SUITS = ['♠', '♥', '♦', '♣'];
+const STANDARD_RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
+const SHORT_RANKS = ['6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
+const UINT32_RANGE = 2 ** 32;
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+/** シャッフル前のデッキ（スートごとにランクの低い順、OFCは最後にジョーカー2枚） */
+function buildUnshuffledDeck(deckType: FairnessReveal['deckType']): string[] {
+  const ranks = deckType === 'short' ? SHORT_RANKS : STANDARD_RANKS;
+  const deck = SUITS.flatMap(suit => ranks.map(rank => rank + suit));
+  return deckType === 'ofc' ? [...deck, 'JK1', 'JK2'] : deck;
+}
+
+/** HMAC-SHA256(key=serverSeed, msg=`${clientSeed}:${nonce}:${counter}`) の出力を uint32 として順に取り出す */
+async function createUint32Stream(reveal: FairnessReveal): Promise<() => Promise<number>> {
+  const key = await crypto.subtle.importKey(
+    'raw', encoder.encode(reveal.serverSeed), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  let block = new DataView(new ArrayBuffer(0));
+  let offset = 0;
+  let counter = 0;
+  return async () => {
+    if (offset + 4 > block.byteLength) {
+      const message = encoder.encode(`${reveal.clientSeed}:${reveal.nonce}:${counter}`);
+      block = new DataView(await crypto.subtle.sign('HMAC', key, message));
+      counter++;
+      offset = 0;
+    }
+    const value = block.getUint32(offset);
+    offset += 4;
+    return value;
+  };
+}
+
+/** SHA-256 の16進 */
+export async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(text)));
+}
+
+/** 公開されたシードからハンド開始時のデッキ順を再計算（Fisher-Yates + リジェクションサンプリング） */
+export async function computeDeckOrder(reveal: FairnessReveal): Promise<string[]> {
+  const nextUint32 = await createUint32Stream(reveal);
+  const deck = buildUnshuffledDeck(reveal.deckType);
+  for (let i = deck.length - 1; i > 0; i--) {
+    const max = i + 1;
+    const limit = Math.floor(UINT32_RANGE / max) * max;
+    let value = await nextUint32();
+    while (value >= limit) value = await nextUint32();
+    const j = value % max;
+    [deck[i], deck[j]] = [deck[j], deck[i]];
+  }
+  return deck;
+}
+
+/** コミットメントの一致とデッキ順 */
+export async function verifyShuffle(reveal: FairnessReveal): Promise<{ commitmentMatches: boolean; deck: string[] }> {
+  const [hash, deck] = await Promise.all([sha256Hex(reveal.serverSeed), computeDeckOrder(reveal)]);
+  return { commitmentMatches: hash === reveal.commitment, deck };
+}
+
+/** ランダムなクライアントシード（16バイトの16進） */
+export function generateClientSeed(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+}
@@ -0,0 +1,161 @@
+// ========================================
+// Mix Poker - ChatPanel Component
+// テーブルチャット（GameLog のチャットタブ）
+// ========================================
+
+import { memo, useRef, useEffect, useState } from 'react';
+import type { ChatMessage } from '../../types/table';
+
+// サーバーの MAX_CHAT_LENGTH と同じ
+const MAX_CHAT_LENGTH = 200;
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  yourSocketId: string;
+  mutedPlayerIds: string[];      // 自分がミュートしたプレイヤー
+  hostMutedPlayerIds: string[];  // ホストがミュートしたプレイヤー
+  isHost: boolean;
+  canChat: boolean;              // 観戦者は読み取りのみ
+  onSend: (text: string) => void;
+  onToggleMute: (playerId: string) => void;
+  onHostMute: (playerId: string, muted: boolean) => void;
+}
+
+const smallButtonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: '#6b7280',
+  fontSize: 10,
+  cursor: 'pointer',
+  padding: '0 2px',
+};
+
+export const ChatPanel = memo(function ChatPanel({
+  messages,
+  yourSocketId,
+  mutedPlayerIds,
+  hostMutedPlayerIds,
+  isHost,
+  canChat,
+  onSend,
+  onToggleMute,
+  onHostMute,
+}: ChatPanelProps) {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [text, setText] = useState('');
+  const visibleMessages = messages.filter(m => !m.playerId || !mutedPlayerIds.includes(m.playerId));
+  const isHostMutedYou = hostMutedPlayerIds.includes(yourSocketId);
+
+  useEffect(() => {
+    if (contentRef.current) {
+      contentRef.current.scrollTop = contentRef.current.scrollHeight;
+    }
+  }, [visibleMessages.length]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    onSend(trimmed);
+    setText('');
+  };
+
+  return (
+    <div>
+      <div
+        ref={contentRef}
+        style={{
+          maxHeight: canChat ? 128 : 160,
+          overflowY: 'auto',
+          padding: '4px 0',
+        }}
+      >
+        {visibleMessages.length === 0 ? (
+          <div style={{ padding: '12px', textAlign: 'center', color: '#6b7280', fontSize: 11 }}>
+            メッセージはまだありません
+          </div>
+        ) : (
+          visibleMessages.map((m) => {
+            const isOther = m.kind === 'player' && m.playerId && m.playerId !== yourSocketId;
+            const isHostMuted = !!m.playerId && hostMutedPlayerIds.includes(m.playerId);
+            return (
+              <div
+                key={m.id}
+                style={{
+                  padding: '3px 12px',
+                  fontSize: 11,
+                  borderBottom: '1px solid rgba(55, 65, 81, 0.5)',
+                  background: m.kind === 'dealer' ? 'rgba(34, 197, 94, 0.08)' : 'transparent',
+                }}
+              >
+                <span style={{ color: m.kind === 'dealer' ? '#22c55e' : '#93c5fd', fontWeight: 'bold', marginRight: 6 }}>
+                  {m.playerName}
+                </span>
+                <span style={{ color: m.kind === 'dealer' ? '#86efac' : '#d1d5db', wordBreak: 'break-word' }}>
+                  {m.text}
+                </span>
+                {isOther && (
+                  <span style={{ marginLeft: 4 }}>
+                    <button
+                      style={smallButtonStyle}
+                      onClick={() => onToggleMute(m.playerId!)}
+                      title="このプレイヤーのチャットを非表示"
+                    >
+                      🔇
+                    </button>
+                    {isHost && (
+                      <button
+                        style={{ ...smallButtonStyle, color: isHostMuted ? '#f87171' : '#6b7280' }}
+                        onClick={() => onHostMute(m.playerId!, !isHostMuted)}
+                        title={isHostMuted ? 'ホストミュートを解除' : '部屋全体でミュート'}
+                      >
+                        {isHostMuted ? 'Unmute' : 'Mute'}
+                      </button>
+                    )}
+                  </span>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {mutedPlayerIds.length > 0 && (
+        <div style={{ padding: '2px 12px', fontSize: 10, color: '#6b7280' }}>
+          {mutedPlayerIds.length}人をミュート中
+          <button style={smallButtonStyle} onClick={() => mutedPlayerIds.forEach(onToggleMute)}>
+            解除
+          </button>
+        </div>
+      )}
+
+      {canChat && (
+        <form onSubmit={handleSubmit} style={{ display: 'flex', gap: 4, padding: '4px 8px', borderTop: '1px solid #374151' }}>
+          <input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={MAX_CHAT_LENGTH}
+            disabled={isHostMutedYou}
+            placeholder={isHostMutedYou ? 'ホストにミュートされています' : 'メッセージを入力'}
+            style={{
+              flex: 1, minWidth: 0, background: '#1f2937', border: '1px solid #374151',
+              borderRadius: 4, color: '#fff', fontSize: 11, padding: '4px 6px',
+            }}
+          />
+          <button
+            type="submit"
+            disabled={isHostMutedYou || !text.trim()}
+            style={{
+              background: '#3b82f6', border: 'none', borderRadius: 4, color: '#fff',
+              fontSize: 11, padding: '4px 8px', cursor: 'pointer',
+            }}
+          >
+            送信
+          </button>
+        </form>
+      )}
+    </div>
+  );
+});
+
+export default ChatPanel;
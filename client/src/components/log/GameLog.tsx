@@ -1,9 +1,9 @@
 // ========================================
 // Mix Poker - GameLog Component
-// ゲームアクション履歴ログ（インラインスタイル版）
+// ゲームアクション履歴ログ（インラインスタイル版）+ チャットタブ
 // ========================================
 
-import { memo, useRef, useEffect, useState } from 'react';
+import { memo, useRef, useEffect, useState, type ReactNode } from 'react';
 
 // ログエントリの型
 export interface LogEntry {
@@ -22,8 +22,23 @@ interface GameLogProps {
   entries: LogEntry[];
   isCollapsed?: boolean;
   onToggle?: () => void;
+  chatPanel?: ReactNode;   // 指定時はログ/チャットのタブを表示
+  chatCount?: number;      // 未読バッジ用のメッセージ数
 }
 
+type LogTab = 'log' | 'chat';
+
+const tabStyle = (active: boolean): React.CSSProperties => ({
+  background: 'transparent',
+  border: 'none',
+  borderBottom: active ? '2px solid #3b82f6' : '2px solid transparent',
+  color: active ? '#d1d5db' : '#6b7280',
+  fontSize: 12,
+  fontWeight: 'bold',
+  padding: '0 4px 2px',
+  cursor: 'pointer',
+});
+
 // タイムスタンプをフォーマット
 function formatTime(timestamp: number): string {
   const date = new Date(timestamp);
@@ -112,21 +127,37 @@ export const GameLog = memo(function GameLog({
   entries,
   isCollapsed = false,
   onToggle,
+  chatPanel,
+  chatCount = 0,
 }: GameLogProps) {
   const contentRef = useRef<HTMLDivElement>(null);
   const [isMinimized, setIsMinimized] = useState(isCollapsed);
+  const [activeTab, setActiveTab] = useState<LogTab>('log');
+  const [seenChatCount, setSeenChatCount] = useState(chatCount);
+  const isChatOpen = activeTab === 'chat' && !isMinimized;
+  // チャットを開いている間は既読にする
+  if (isChatOpen && seenChatCount !== chatCount) {
+    setSeenChatCount(chatCount);
+  }
+  const unreadChat = isChatOpen ? 0 : Math.max(0, chatCount - seenChatCount);
 
   useEffect(() => {
     if (contentRef.current && !isMinimized) {
       contentRef.current.scrollTop = contentRef.current.scrollHeight;
     }
-  }, [entries, isMinimized]);
+  }, [entries, isMinimized, activeTab]);
 
   const handleToggle = () => {
     setIsMinimized(!isMinimized);
     onToggle?.();
   };
 
+  const selectTab = (tab: LogTab) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setActiveTab(tab);
+    setIsMinimized(false);
+  };
+
   return (
     <div
       style={{
@@ -134,7 +165,7 @@ export const GameLog = memo(function GameLog({
         bottom: 80, // アクションバーの上に配置
         right: 16,
         width: 280,
-        maxHeight: isMinimized ? 36 : 200,
+        maxHeight: isMinimized ? 36 : activeTab === 'chat' ? 220 : 200,
         background: 'rgba(17, 24, 39, 0.95)',
         backdropFilter: 'blur(8px)',
         borderRadius: 8,
@@ -157,15 +188,36 @@ export const GameLog = memo(function GameLog({
           borderBottom: isMinimized ? 'none' : '1px solid #374151',
         }}
       >
-        <span style={{ fontSize: 12, fontWeight: 'bold', color: '#d1d5db' }}>
-          📋 ログ
-        </span>
+        {chatPanel ? (
+          <span style={{ display: 'flex', gap: 8 }}>
+            <button style={tabStyle(activeTab === 'log')} onClick={selectTab('log')}>
+              📋 ログ
+            </button>
+            <button style={tabStyle(activeTab === 'chat')} onClick={selectTab('chat')}>
+              💬 チャット
+              {unreadChat > 0 && (
+                <span style={{
+                  marginLeft: 4, background: '#ef4444', color: '#fff', borderRadius: 8,
+                  padding: '0 5px', fontSize: 10,
+                }}>
+                  {unreadChat}
+                </span>
+              )}
+            </button>
+          </span>
+        ) : (
+          <span style={{ fontSize: 12, fontWeight: 'bold', color: '#d1d5db' }}>
+            📋 ログ
+          </span>
+        )}
         <span style={{ fontSize: 10, color: '#6b7280' }}>
           {isMinimized ? '▲' : '▼'}
         </span>
       </div>
 
-      {!isMinimized && (
+      {!isMinimized && activeTab === 'chat' && chatPanel}
+
+      {!isMinimized && activeTab === 'log' && (
         <div
           ref={contentRef}
           style={{
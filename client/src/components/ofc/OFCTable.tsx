@@ -3,7 +3,7 @@
 // 最大3プレイヤー配置 + ボード表示 + カード配置
 // ========================================
 
-import { useState, useEffect, useCallback, memo } from 'react';
+import { useState, useEffect, useCallback, memo, type ReactNode } from 'react';
 import type { Socket } from 'socket.io-client';
 import type {
   Room, OFCPublicState, OFCRoundScore, OFCPlacement, OFCPlayerInfo,
@@ -20,6 +20,8 @@ interface OFCTableProps {
   room: Room;
   yourSocketId: string;
   onLeaveRoom: () => void;
+  chatPanel?: ReactNode;  // GameLog のチャットタブ（Table から渡す）
+  chatCount?: number;
 }
 
 // 3人用座席配置（landscape: テーブル上/左下/右下）
@@ -41,6 +43,8 @@ export const OFCTable = memo(function OFCTable({
   room,
   yourSocketId,
   onLeaveRoom,
+  chatPanel,
+  chatCount,
 }: OFCTableProps) {
   const [yourCards, setYourCards] = useState<string[]>([]);
   const [scoringResult, setScoringResult] = useState<OFCRoundScore[] | null>(null);
@@ -596,6 +600,8 @@ export const OFCTable = memo(function OFCTable({
         entries={gameLogs}
         isCollapsed={isLogCollapsed}
         onToggle={() => setIsLogCollapsed(!isLogCollapsed)}
+        chatPanel={chatPanel}
+        chatCount={chatCount}
       />
     </div>
   );
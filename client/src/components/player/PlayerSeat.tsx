@@ -17,6 +17,12 @@ import {
   getDealerButtonPositionPortrait,
 } from './seatPositionUtils';
 
+// Cry Me a River: 配られる手札の枚数（消失前）
+const CMRIVER_HOLE_CARDS: Record<string, number> = {
+  PL_CMRIVER1: 3,
+  PL_CMRIVER2: 4,
+};
+
 interface PlayerSeatProps {
   player: Player | null;
   seatIndex: number;
@@ -119,11 +125,12 @@ export const PlayerSeat = memo(function PlayerSeat({
 
   // ゲームタイプ判定
   const isStudGame = ['7CS', '7CS8', 'RAZZ'].includes(gameVariant);
-  const isDrawGame = ['2-7_TD', 'BADUGI'].includes(gameVariant);
-  const isPloGame = ['PLO', 'PLO8'].includes(gameVariant);
+  // Dramahaは手札5枚のためドローゲームと同じ並びで表示
+  const isDrawGame = ['2-7_TD', 'BADUGI'].includes(gameVariant) || gameVariant.startsWith('FL_DRAMAHA');
+  const isPloGame = ['PLO', 'PLO8', 'PLO_DB'].includes(gameVariant);
 
   // ゲームタイプ別のカード枚数
-  const holeCardCount = isDrawGame ? 5 : isPloGame ? 4 : 2;
+  const holeCardCount = isDrawGame ? 5 : isPloGame ? 4 : CMRIVER_HOLE_CARDS[gameVariant] ?? 2;
 
   // 空席
   if (!player) {
@@ -425,6 +432,7 @@ export const PlayerSeat = memo(function PlayerSeat({
           >
             {player.name}
             {isYou && <span style={{ color: '#10b981', fontSize: isPortrait ? 8 : 9 }}>(you)</span>}
+            {(player.botStyle || player.apiBot) && <span style={{ color: '#a78bfa', fontSize: isPortrait ? 8 : 9 }}>BOT</span>}
           </div>
           <div
             style={{
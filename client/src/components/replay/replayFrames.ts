@@ -0,0 +1,311 @@
+// ========================================
+// Mix Poker - Replay Frames
+// 保存済みハンドをアクション単位のテーブル状態（フレーム）に展開する
+// ========================================
+
+import type {
+  Player, ShowdownResult, HandHistory, HandHistoryPlayer, HandActionRecord, HandVariantInfo,
+} from '../../types/table';
+
+// リプレイの1コマ
+export interface ReplayFrame {
+  players: (Player | null)[];
+  board: string[];
+  board2?: string[];
+  runBoards?: string[][];
+  pot: number;                 // 今のストリートのベットを含む合計
+  activeSeat: number;          // このコマでアクションしたプレイヤーの席（なければ-1）
+  yourHand: string[] | null;   // 閲覧者の手札（不参加ならnull）
+  showdownResult: ShowdownResult | null;
+  street: string;
+  description: string;
+}
+
+const FLOP_STREETS = ['PREFLOP', 'FLOP', 'TURN', 'RIVER', 'OCEAN'];
+const STUD_STREETS = ['THIRD_STREET', 'FOURTH_STREET', 'FIFTH_STREET', 'SIXTH_STREET', 'SEVENTH_STREET'];
+const STREET_LABELS: Record<string, string> = {
+  PREFLOP: 'Preflop',
+  FLOP: 'Flop',
+  TURN: 'Turn',
+  RIVER: 'River',
+  OCEAN: 'Ocean',
+  THIRD_STREET: '3rd Street',
+  FOURTH_STREET: '4th Street',
+  FIFTH_STREET: '5th Street',
+  SIXTH_STREET: '6th Street',
+  SEVENTH_STREET: '7th Street',
+  PREDRAW: 'Predraw',
+  FIRST_DRAW: '1st Draw',
+  SECOND_DRAW: '2nd Draw',
+  THIRD_DRAW: '3rd Draw',
+  DRAMAHA_DRAW: 'Draw',
+  VANISH: 'Vanish',
+};
+
+// Stud: 最初に配る枚数（2ダウン + 1アップ）
+const STUD_INITIAL_CARDS = 3;
+
+/** 伏せカード（空文字）を除く */
+const visible = (cards: string[]) => cards.filter(card => card !== '');
+
+const formatCards = (cards: string[]) => cards.join(' ');
+
+/**
+ * ハンド開始時の手札を復元（ドロー・消失を巻き戻す）
+ * 保存されている holeCards はハンド終了時の手札
+ */
+function initialHoleCards(player: HandHistoryPlayer, actions: HandActionRecord[]): string[] {
+  let hand = [...player.holeCards];
+  const exchanges = actions.filter(a =>
+    a.playerId === player.playerId && (a.type === 'DRAW' || a.type === 'VANISH'));
+  for (const a of [...exchanges].reverse()) {
+    const received = a.received || [];
+    hand = hand.slice(0, hand.length - received.length);
+    hand = [...hand, ...(a.cards || [])];
+  }
+  return hand;
+}
+
+/**
+ * ハンド履歴をリプレイ用フレームに展開
+ * 先頭はブラインド前、末尾はショーダウン（分配後）
+ * @param viewerPlayerId 閲覧者のハンド時点のplayerId（手札を表向きにする）
+ * @param seatCount テーブルの座席数（PokerTableのレイアウト）
+ */
+export function buildReplayFrames(
+  hand: HandHistory,
+  variant: HandVariantInfo,
+  viewerPlayerId: string | null,
+  seatCount: number
+): ReplayFrame[] {
+  const isStud = variant.communityCardType === 'stud';
+  const isFlop = variant.communityCardType === 'flop';
+  const viewer = hand.players.find(p => p.playerId === viewerPlayerId) || null;
+
+  // 各プレイヤーの現在の手札（Studは配られた分だけ見せる）
+  const holeCards = new Map(hand.players.map(p => [p.playerId, initialHoleCards(p, hand.actions)]));
+  let studDealt = STUD_INITIAL_CARDS;
+
+  const players: (Player | null)[] = Array.from({ length: seatCount }, () => null);
+  for (const p of hand.players) {
+    players[p.seatIndex] = {
+      socketId: p.playerId,
+      name: p.name,
+      stack: p.startingStack,
+      bet: 0,
+      totalBet: 0,
+      status: 'ACTIVE',
+      hand: null,
+    };
+  }
+
+  const frames: ReplayFrame[] = [];
+  let board: string[] = [];
+  let board2: string[] | undefined;
+  let street = hand.actions[0]?.street ?? (isStud ? STUD_STREETS[0] : 'PREFLOP');
+  let level = 0;
+
+  const seatOf = (playerId: string) => players.findIndex(p => p?.socketId === playerId);
+  const playerAt = (playerId: string) => players[seatOf(playerId)]!;
+
+  // Stud: アップカードの位置（最終ストリートのカードはダウン）
+  const isStudUpCard = (i: number) => i >= 2 && i < variant.holeCardCount - 1;
+
+  const currentHand = (playerId: string): string[] => {
+    const cards = holeCards.get(playerId) || [];
+    return isStud ? cards.slice(0, studDealt) : cards;
+  };
+
+  const pushFrame = (description: string, activeSeat = -1, showdownResult: ShowdownResult | null = null) => {
+    const snapshot = players.map(p => {
+      if (!p) return null;
+      const cards = currentHand(p.socketId);
+      // 4th Streetのカードは本人以外にはショーダウンまで見せない（sanitizeRoomForViewer と同じ）
+      const isShownUpCard = (i: number) =>
+        isStudUpCard(i) && (i !== 3 || p.socketId === viewerPlayerId || !!showdownResult);
+      return {
+        ...p,
+        studUpCards: isStud ? visible(cards.filter((_, i) => isShownUpCard(i))) : undefined,
+      };
+    });
+    frames.push({
+      players: snapshot,
+      board: [...board],
+      board2: board2 ? [...board2] : undefined,
+      pot: snapshot.reduce((sum, p) => sum + (p?.totalBet || 0), 0),
+      activeSeat,
+      yourHand: viewer ? currentHand(viewer.playerId) : null,
+      showdownResult,
+      street,
+      description,
+    });
+  };
+
+  // ストリートが進んだ時: ベットをポットへ、ボード/Studのカードを配る
+  const advanceStreet = (next: string) => {
+    street = next;
+    level = 0;
+    for (const p of players) {
+      if (!p) continue;
+      p.bet = 0;
+      p.lastAction = undefined;
+    }
+
+    const flopIdx = FLOP_STREETS.indexOf(next);
+    if (isFlop && flopIdx > 0) {
+      const count = variant.boardPattern.slice(0, flopIdx).reduce((sum, n) => sum + n, 0);
+      board = hand.board.slice(0, count);
+      board2 = hand.board2?.slice(0, count);
+      pushFrame(`${STREET_LABELS[next]}: ${formatCards(board.slice(board.length - variant.boardPattern[flopIdx - 1]))}`);
+      return;
+    }
+
+    const studIdx = STUD_STREETS.indexOf(next);
+    if (isStud && studIdx > 0) {
+      studDealt = Math.min(STUD_INITIAL_CARDS + studIdx, variant.holeCardCount);
+    }
+    pushFrame(STREET_LABELS[next] ?? next);
+  };
+
+  const applyAction = (a: HandActionRecord) => {
+    const player = playerAt(a.playerId);
+    const amount = a.amount || 0;
+    player.stack -= amount;
+    player.totalBet += amount;
+    if (a.type !== 'ANTE') player.bet += amount;
+    if (amount > 0 && player.stack === 0) player.status = 'ALL_IN';
+    const allIn = amount > 0 && player.stack === 0 ? ' (all-in)' : '';
+
+    let text: string;
+    switch (a.type) {
+      case 'ANTE':
+        text = `posts ante ${amount}`;
+        break;
+      case 'POST_SB':
+        text = `posts small blind ${amount}`;
+        break;
+      case 'POST_BB':
+        text = `posts big blind ${amount}`;
+        break;
+      case 'STRADDLE':
+        text = `straddles ${amount}`;
+        break;
+      case 'BRING_IN':
+        text = `brings in for ${amount}`;
+        break;
+      case 'FOLD':
+        player.status = 'FOLDED';
+        text = 'folds';
+        break;
+      case 'CHECK':
+        player.lastAction = 'CHECK';
+        text = 'checks';
+        break;
+      case 'CALL':
+        player.lastAction = 'CALL';
+        text = `calls ${amount}`;
+        break;
+      case 'BET':
+      case 'RAISE':
+      case 'ALL_IN': {
+        const betTo = a.betTo ?? player.bet;
+        if (betTo <= level) {
+          player.lastAction = 'CALL';
+          text = `calls ${amount}`;
+        } else {
+          player.lastAction = level === 0 ? 'BET' : 'RAISE';
+          text = level === 0 ? `bets ${betTo}` : `raises to ${betTo}`;
+        }
+        break;
+      }
+      case 'DRAW':
+      case 'VANISH': {
+        const discarded = a.cards || [];
+        const received = a.received || [];
+        const kept = (holeCards.get(a.playerId) || []).filter((card, i) =>
+          // 伏せカードは並びでしか区別できないので先頭から枚数分を捨てたことにする
+          card === '' ? i >= discarded.filter(c => c === '').length : !discarded.includes(card));
+        holeCards.set(a.playerId, [...kept, ...received]);
+        const shown = visible(discarded);
+        if (a.type === 'VANISH') {
+          text = `vanishes ${discarded.length}${shown.length > 0 ? ` [${formatCards(shown)}]` : ''}`;
+        } else if (discarded.length === 0) {
+          player.lastAction = 'PAT';
+          text = 'stands pat';
+        } else {
+          player.lastAction = `DRAW ${discarded.length}`;
+          text = shown.length > 0
+            ? `discards [${formatCards(shown)}], draws [${formatCards(visible(received))}]`
+            : `draws ${discarded.length}`;
+        }
+        break;
+      }
+      default:
+        text = a.type;
+    }
+    if (a.type !== 'ANTE' && player.bet > level) level = player.bet;
+
+    pushFrame(`${player.name} ${text}${allIn}`, seatOf(a.playerId));
+  };
+
+  pushFrame(`Hand #${hand.handNumber} — ${variant.name} (${hand.smallBlind}/${hand.bigBlind})`);
+
+  for (const a of hand.actions) {
+    if (a.type === 'PLACE') continue;
+    if (a.street !== street) advanceStreet(a.street);
+    applyAction(a);
+  }
+
+  // オールイン後のランアウト（アクションなしで配られたストリート）
+  if (isFlop) {
+    for (let idx = 1; idx <= variant.boardPattern.length; idx++) {
+      const count = variant.boardPattern.slice(0, idx).reduce((sum, n) => sum + n, 0);
+      if (count <= board.length) continue;
+      if (hand.board.length < count) break;
+      advanceStreet(FLOP_STREETS[idx]);
+    }
+  }
+  if (isStud) {
+    const remaining = hand.players.filter(p => p.shownCards || p.playerId === viewerPlayerId);
+    const maxCards = Math.max(0, ...remaining.map(p => p.holeCards.length));
+    for (let idx = STUD_STREETS.indexOf(street) + 1; STUD_INITIAL_CARDS + idx <= maxCards; idx++) {
+      advanceStreet(STUD_STREETS[idx]);
+    }
+  }
+
+  // ショーダウン（分配後）
+  for (const p of hand.players) {
+    const player = playerAt(p.playerId);
+    player.stack = p.endingStack;
+    player.bet = 0;
+    player.totalBet = 0;
+    player.lastAction = undefined;
+  }
+  studDealt = variant.holeCardCount;
+  board = [...hand.board];
+  board2 = hand.board2 ? [...hand.board2] : undefined;
+
+  const nameOf = (playerId: string) => hand.players.find(p => p.playerId === playerId)?.name ?? playerId;
+  const showdownResult: ShowdownResult = {
+    winners: hand.winners.map(w => ({
+      playerId: w.playerId,
+      playerName: nameOf(w.playerId),
+      hand: hand.players.find(p => p.playerId === w.playerId)?.shownCards || [],
+      handRank: w.handRank,
+      amount: w.amount,
+    })),
+    allHands: hand.players
+      .filter(p => p.shownCards)
+      .map(p => ({ playerId: p.playerId, playerName: p.name, hand: p.shownCards!, handRank: p.handRank || '' })),
+    rake: hand.rake,
+  };
+  const summary = showdownResult.winners
+    .map(w => `${w.playerName} wins ${w.amount}${w.handRank ? ` (${w.handRank})` : ''}`)
+    .join(', ');
+
+  pushFrame(summary || 'Hand complete', -1, showdownResult);
+  frames[frames.length - 1].runBoards = hand.runBoards;
+  frames[frames.length - 1].pot = 0;
+
+  return frames;
+}
@@ -61,6 +61,7 @@ export function SettingsModal({ user, onUserUpdate, onLogout, onClose }: Setting
   const handleLogout = () => {
     clearToken();
     localStorage.removeItem('mgp-last-room');
+    localStorage.removeItem('mgp-resume-token');
     onLogout();
   };
 
@@ -23,6 +23,7 @@ interface PokerTableProps {
   yourHand?: string[] | null;
   timerSeconds?: number;
   maxTimerSeconds?: number;
+  blindIndexes?: { sb: number; bb: number };  // 指定時はボタン位置からの計算より優先（リプレイ用）
 }
 
 export const PokerTable = memo(function PokerTable({
@@ -36,6 +37,7 @@ export const PokerTable = memo(function PokerTable({
   yourHand,
   timerSeconds,
   maxTimerSeconds = 30,
+  blindIndexes,
 }: PokerTableProps) {
   const tableRef = useRef<HTMLDivElement>(null);
   const orientation = useOrientation();
@@ -69,14 +71,21 @@ export const PokerTable = memo(function PokerTable({
   }, [gameState.board.length, prevBoardLength]);
 
   // SB/BBのインデックス計算
-  const sbIndex = (dealerBtnIndex + 1) % maxPlayers;
-  const bbIndex = (dealerBtnIndex + 2) % maxPlayers;
+  const sbIndex = blindIndexes ? blindIndexes.sb : (dealerBtnIndex + 1) % maxPlayers;
+  const bbIndex = blindIndexes ? blindIndexes.bb : (dealerBtnIndex + 2) % maxPlayers;
 
   // ポット計算
   const totalPotRaw = gameState.pot.main + gameState.pot.side.reduce((sum, s) => sum + s.amount, 0);
   const currentRoundBets = players.reduce((sum, p) => sum + (p?.bet || 0), 0);
   const displayPot = Math.max(0, totalPotRaw - currentRoundBets);
 
+  // 複数ボード表示（Run it Twice/3 Times を優先、次にダブルボード）
+  const isMultiRun = (gameState.runBoards?.length || 0) > 1;
+  const stackedBoards = isMultiRun
+    ? gameState.runBoards!
+    : gameState.board2 ? [gameState.board, gameState.board2] : null;
+  const stackedResults = isMultiRun ? showdownResult?.runResults : showdownResult?.boardResults;
+
   return (
     <div
       style={{
@@ -181,14 +190,47 @@ export const PokerTable = memo(function PokerTable({
           />
         )}
 
-        {/* コミュニティカード */}
+        {/* コミュニティカード（ダブルボード/複数ランは縦に並べる） */}
         <div style={getCommunityCardsPosition(orientation)}>
-          <CommunityCards
-            cards={gameState.board}
-            animate={animateCards}
-            size={isPortrait ? 'small' : 'medium'}
-            highlightCards={showdownResult?.winners[0]?.qualifyingBoardCards || []}
-          />
+          {stackedBoards ? (
+            <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 6 }}>
+              {stackedBoards.map((boardCards, boardIdx) => {
+                const boardResult = stackedResults?.[boardIdx];
+                return (
+                  <div key={`board-${boardIdx}`} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <CommunityCards
+                      cards={boardCards}
+                      animate={animateCards}
+                      size="small"
+                      highlightCards={boardResult?.winners[0]?.qualifyingBoardCards || []}
+                    />
+                    {boardResult && boardResult.winners.length > 0 && (
+                      <span
+                        style={{
+                          color: '#22c55e',
+                          fontSize: 11,
+                          fontWeight: 'bold',
+                          whiteSpace: 'nowrap',
+                          background: 'rgba(0, 0, 0, 0.6)',
+                          padding: '2px 6px',
+                          borderRadius: 4,
+                        }}
+                      >
+                        {boardResult.winners.map(w => w.playerName).join(', ')}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <CommunityCards
+              cards={gameState.board}
+              animate={animateCards}
+              size={isPortrait ? 'small' : 'medium'}
+              highlightCards={showdownResult?.winners[0]?.qualifyingBoardCards || []}
+            />
+          )}
         </div>
 
         {/* プレイヤー席 */}
@@ -199,8 +241,9 @@ export const PokerTable = memo(function PokerTable({
           const isActive = index === activePlayerIndex && gameState.status === 'PLAYING';
           const isYou = player?.socketId === yourSocketId;
 
-          // ショーダウン時のハンド
+          // ショーダウン時のハンド（観戦のディレイ配信では他プレイヤーの手札も届く）
           const showdownHand = showdownResult?.allHands?.find(h => h.playerId === player?.socketId);
+          const revealedHand = !isYou && player?.hand && player.hand.length > 0 ? player.hand : undefined;
           const winnerData = showdownResult?.winners?.find(w => w.playerId === player?.socketId);
           const isWinner = !!winnerData;
           const seatStyle = getSeatStyle(index);
@@ -222,7 +265,7 @@ export const PokerTable = memo(function PokerTable({
               isBB={isBB}
               isYou={isYou}
               style={seatStyle}
-              showdownHand={showdownHand?.hand}
+              showdownHand={showdownHand?.hand ?? revealedHand}
               isWinner={isWinner}
               gameVariant={gameState.gameVariant}
               holeCards={isYou ? yourHand : null}
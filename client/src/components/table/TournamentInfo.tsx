@@ -0,0 +1,100 @@
+// ========================================
+// Mix Poker - TournamentInfo Component
+// トーナメントのレベル・次のレベルまでの残り時間・賞金プール・順位
+// マルチテーブルは残り人数・卓数・ハンド・フォー・ハンド / ファイナルテーブル
+// ========================================
+
+import { useEffect, useState } from 'react';
+import type { TournamentState } from '../../types/table';
+
+interface TournamentInfoProps {
+  tournament: TournamentState;
+  seatedCount: number;
+  maxPlayers: number;
+}
+
+const ORDINALS = ['1st', '2nd', '3rd'];
+const RESULTS_SHOWN = 10;
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function TournamentInfo({ tournament, seatedCount, maxPlayers }: TournamentInfoProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // 次のレベルまでのカウントダウン
+  useEffect(() => {
+    if (tournament.levelEndsAt === null) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [tournament.levelEndsAt]);
+
+  const levels = tournament.config.levels;
+  const level = levels[Math.min(tournament.levelIndex, levels.length - 1)];
+  const nextLevel = levels[tournament.levelIndex + 1];
+  const isMultiTable = tournament.tableIds !== undefined;
+  const playersLeft = isMultiTable ? tournament.entrants - tournament.placements.length : seatedCount;
+
+  return (
+    <div style={{
+      position: 'fixed', top: '60px', left: '12px', zIndex: 40,
+      background: 'rgba(10,22,40,0.85)', border: '1px solid rgba(250,204,21,0.35)',
+      borderRadius: '10px', padding: '10px 14px', minWidth: '180px',
+      color: '#fff', fontSize: '12px', lineHeight: 1.6,
+    }}>
+      {tournament.status === 'REGISTERING' && (
+        <>
+          <div style={{ color: '#facc15', fontWeight: 700 }}>🏆 Sit & Go · Registering</div>
+          <div>Players {seatedCount}/{maxPlayers}</div>
+          <div>Buy-in {tournament.config.buyIn.toLocaleString()} · Stack {tournament.config.startingStack.toLocaleString()}</div>
+          <div>Prize pool {tournament.prizePool.toLocaleString()}</div>
+          <div style={{ color: 'rgba(255,255,255,0.5)' }}>Starts when the table is full</div>
+        </>
+      )}
+
+      {tournament.status === 'RUNNING' && (
+        <>
+          <div style={{ color: '#facc15', fontWeight: 700 }}>
+            🏆 Level {tournament.levelIndex + 1} · {level.smallBlind}/{level.bigBlind}
+            {level.ante ? ` (ante ${level.ante})` : ''}
+          </div>
+          <div>
+            {tournament.levelEndsAt !== null && nextLevel
+              ? `Next ${nextLevel.smallBlind}/${nextLevel.bigBlind} in ${formatCountdown(tournament.levelEndsAt - now)}`
+              : 'Final level'}
+          </div>
+          <div>Prize pool {tournament.prizePool.toLocaleString()} · Players {playersLeft}/{tournament.entrants}</div>
+          {isMultiTable && (
+            <div style={{ color: tournament.handForHand || tournament.finalTable ? '#f87171' : 'rgba(255,255,255,0.6)' }}>
+              {tournament.name}
+              {tournament.finalTable
+                ? ' · Final table'
+                : ` · ${tournament.tableIds!.length} tables${tournament.handForHand ? ' · Hand-for-hand' : ''}`}
+            </div>
+          )}
+          <div style={{ color: 'rgba(255,255,255,0.6)' }}>
+            {tournament.payouts.map((amount, i) => `${ORDINALS[i] ?? `${i + 1}th`} ${amount.toLocaleString()}`).join(' · ')}
+          </div>
+        </>
+      )}
+
+      {tournament.status === 'FINISHED' && (
+        <>
+          <div style={{ color: '#facc15', fontWeight: 700 }}>🏆 Final results</div>
+          {[...tournament.placements].sort((a, b) => a.place - b.place).slice(0, RESULTS_SHOWN).map(p => (
+            <div key={p.place} style={{ display: 'flex', justifyContent: 'space-between', gap: '12px' }}>
+              <span>{p.place}. {p.name}</span>
+              <span style={{ color: p.prize > 0 ? '#34d399' : 'rgba(255,255,255,0.4)' }}>
+                {p.prize > 0 ? p.prize.toLocaleString() : '-'}
+              </span>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
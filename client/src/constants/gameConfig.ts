@@ -3,10 +3,23 @@
  * PrivateRoom, HostControlsPanel 等で共有
  */
 
+import type { BetStructure } from '../types/table';
+
 export const GAME_OPTIONS = [
   { id: 'NLH', name: "Hold'em" },
+  { id: 'SD_NLH', name: 'Short Deck (6+)' },
   { id: 'PLO', name: 'Omaha' },
   { id: 'PLO8', name: 'PLO Hi-Lo' },
+  { id: 'PLO_DB', name: 'PLO Double Board' },
+  { id: 'FL_DRAMAHA_HI', name: 'Dramaha Hi' },
+  { id: 'FL_DRAMAHA_27', name: 'Dramaha 2-7' },
+  { id: 'FL_DRAMAHA_BADUGI', name: 'Dramaha Badugi' },
+  { id: 'FL_DRAMAHA_HIDUGI', name: 'Dramaha Hidugi' },
+  { id: 'FL_DRAMAHA_49', name: 'Dramaha 49' },
+  { id: 'FL_DRAMAHA_0', name: 'Dramaha 0' },
+  { id: 'FL_DRAMAHA_PICKEM', name: "Dramaha Pick'em" },
+  { id: 'PL_CMRIVER1', name: 'Cry Me a River (1)' },
+  { id: 'PL_CMRIVER2', name: 'Cry Me a River (2)' },
   { id: '7CS', name: 'Stud' },
   { id: '7CS8', name: 'Stud Hi-Lo' },
   { id: 'RAZZ', name: 'Razz' },
@@ -15,6 +28,23 @@ export const GAME_OPTIONS = [
   { id: 'OFC', name: 'Pineapple OFC' },
 ] as const;
 
+// ベット構造の略称
+export const BET_STRUCTURE_LABELS: Record<BetStructure, string> = {
+  'no-limit': 'NL',
+  'pot-limit': 'PL',
+  'fixed': 'FL',
+};
+
+/**
+ * "バリアント@ベット構造" 形式のゲームID（例: "NLH@fixed"）を分解
+ */
+export function parseGameId(gameId: string): { variant: string; betStructure?: BetStructure } {
+  const [variant, structure] = gameId.split('@');
+  return structure && structure in BET_STRUCTURE_LABELS
+    ? { variant, betStructure: structure as BetStructure }
+    : { variant };
+}
+
 export const BLIND_PRESETS = [
   { sb: 1, bb: 2, label: '1/2' },
   { sb: 2, bb: 5, label: '2/5' },
@@ -5,6 +5,11 @@
 
 import type { SeatPosition } from '../types/table';
 
+// 座席レイアウトは6人用と8人用の2種類（7人卓は8人用レイアウトを使う）
+export function getSeatLayoutSize(maxPlayers: number): 6 | 8 {
+  return maxPlayers > 6 ? 8 : 6;
+}
+
 // 6人テーブル配置（楕円形）
 // 座席0が下中央（自分の位置）から時計回り
 // ネームタグはテーブル縁に配置、チップはテーブル内部
@@ -41,6 +41,20 @@ function parseCards(cards: string[]): Card[] {
   return cards.map(parseCard);
 }
 
+// 役の強さのルール（サーバーの HandRankingRules と同じ）
+interface RankingRules {
+  lowStraightRank: number;       // Aと組んで最小ストレートを作る最小ランク
+  flushBeatsFullHouse: boolean;
+  tripsBeatStraight: boolean;
+}
+
+const STANDARD_RULES: RankingRules = { lowStraightRank: 2, flushBeatsFullHouse: false, tripsBeatStraight: false };
+
+// デッキ構成が異なるバリアント（Short Deck: A-6-7-8-9、フラッシュ > フルハウス、スリーカード > ストレート）
+const VARIANT_RULES: Record<string, RankingRules> = {
+  SD_NLH: { lowStraightRank: 6, flushBeatsFullHouse: true, tripsBeatStraight: true },
+};
+
 interface HandResult {
   rank: number;       // 1-10 (high card to royal flush)
   name: string;       // Human readable name
@@ -82,13 +96,13 @@ function getFlushCards(cards: Card[]): Card[] {
 }
 
 // Check for straight and return high card
-function getStraightHigh(cards: Card[]): number | null {
+function getStraightHigh(cards: Card[], lowStraightRank: number = 2): number | null {
   const values = [...new Set(cards.map(c => c.value))].sort((a, b) => b - a);
 
-  // Check for A-2-3-4-5 (wheel)
-  if (values.includes(14) && values.includes(2) && values.includes(3) &&
-      values.includes(4) && values.includes(5)) {
-    return 5;
+  // Check for A-low straight (A-2-3-4-5, Short Deck: A-6-7-8-9)
+  const lowRanks = [0, 1, 2, 3].map(i => lowStraightRank + i);
+  if (values.includes(14) && lowRanks.every(v => values.includes(v))) {
+    return lowStraightRank + 3;
   }
 
   // Check for regular straight
@@ -101,12 +115,13 @@ function getStraightHigh(cards: Card[]): number | null {
 }
 
 // Evaluate a 5-card hand
-function evaluateFiveCards(cards: Card[]): HandResult {
+function evaluateFiveCards(cards: Card[], rules: RankingRules = STANDARD_RULES): HandResult {
   const counts = getRankCounts(cards);
   const values = cards.map(c => c.value).sort((a, b) => b - a);
   const isFlushHand = new Set(cards.map(c => c.suit)).size === 1;
-  const straightHigh = getStraightHigh(cards);
+  const straightHigh = getStraightHigh(cards, rules.lowStraightRank);
   const isStraight = straightHigh !== null;
+  const straightHighName = RANK_NAMES[Object.keys(RANK_VALUES).find(k => RANK_VALUES[k] === straightHigh) || ''];
 
   // Sort by count, then by value
   const sortedCounts = Array.from(counts.entries())
@@ -126,7 +141,7 @@ function evaluateFiveCards(cards: Card[]): HandResult {
 
   // Straight Flush
   if (isFlushHand && isStraight) {
-    return { rank: 9, name: `${highCard}-high Straight Flush`, highCards: [straightHigh!] };
+    return { rank: 9, name: `${straightHighName}-high Straight Flush`, highCards: [straightHigh!] };
   }
 
   // Four of a Kind
@@ -137,24 +152,22 @@ function evaluateFiveCards(cards: Card[]): HandResult {
   // Full House
   if (sortedCounts[0][1] === 3 && sortedCounts[1]?.[1] >= 2) {
     const pairRank = RANK_NAMES[cards.find(c => c.value === sortedCounts[1][0])?.rank || ''];
-    return { rank: 7, name: `${mostFrequentCard} Full of ${pairRank}`, highCards: values };
+    return { rank: rules.flushBeatsFullHouse ? 6 : 7, name: `${mostFrequentCard} Full of ${pairRank}`, highCards: values };
   }
 
   // Flush
   if (isFlushHand) {
-    return { rank: 6, name: `${highCard}-high Flush`, highCards: values };
+    return { rank: rules.flushBeatsFullHouse ? 7 : 6, name: `${highCard}-high Flush`, highCards: values };
   }
 
   // Straight
   if (isStraight) {
-    const straightHighName = straightHigh === 5 ? '5' :
-      RANK_NAMES[Object.keys(RANK_VALUES).find(k => RANK_VALUES[k] === straightHigh) || ''];
-    return { rank: 5, name: `${straightHighName}-high Straight`, highCards: [straightHigh!] };
+    return { rank: rules.tripsBeatStraight ? 4 : 5, name: `${straightHighName}-high Straight`, highCards: [straightHigh!] };
   }
 
   // Three of a Kind
   if (sortedCounts[0][1] === 3) {
-    return { rank: 4, name: `${mostFrequentCard} Trips`, highCards: values };
+    return { rank: rules.tripsBeatStraight ? 5 : 4, name: `${mostFrequentCard} Trips`, highCards: values };
   }
 
   // Two Pair
@@ -184,16 +197,16 @@ function getCombinations(cards: Card[], k: number): Card[][] {
 }
 
 // Find the best 5-card hand from n cards (NLH style)
-function getBestHand(cards: Card[]): HandResult {
+function getBestHand(cards: Card[], rules: RankingRules = STANDARD_RULES): HandResult {
   if (cards.length <= 5) {
-    return evaluateFiveCards(cards);
+    return evaluateFiveCards(cards, rules);
   }
 
   const combinations = getCombinations(cards, 5);
-  let best = evaluateFiveCards(combinations[0]);
+  let best = evaluateFiveCards(combinations[0], rules);
 
   for (const combo of combinations.slice(1)) {
-    const result = evaluateFiveCards(combo);
+    const result = evaluateFiveCards(combo, rules);
     if (result.rank > best.rank ||
         (result.rank === best.rank && result.highCards[0] > best.highCards[0])) {
       best = result;
@@ -572,7 +585,7 @@ export function evaluateHandRank(
   // Postflop evaluation
   let result: HandResult;
 
-  if (variant === 'PLO') {
+  if (variant === 'PLO' || variant === 'PLO_DB') {
     result = getBestPLOHand(hole, board);
   } else if (variant === 'PLO8') {
     result = getBestPLOHand(hole, board);
@@ -583,7 +596,7 @@ export function evaluateHandRank(
     return result.name;
   } else {
     // NLH and other variants: use any 5 from 7
-    result = getBestHand([...hole, ...board]);
+    result = getBestHand([...hole, ...board], VARIANT_RULES[variant]);
   }
 
   return result.name;
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+import { generateClientSeed } from '../components/fairness/verifyShuffle';
+import type { Room } from '../types/table';
+
+/**
+ * Provably Fair: クライアントシードを保持し、着席中はサーバーへ送る
+ * シードを変更すると次のハンドから反映される
+ */
+export function useClientSeed(socket: Socket | null, room: Room | null, yourSocketId: string) {
+  const [clientSeed, setClientSeed] = useState(generateClientSeed);
+  const isSeated = !!room?.players.some(p => p?.socketId === yourSocketId);
+
+  useEffect(() => {
+    if (!socket || !isSeated) return;
+    socket.emit('set-client-seed', { seed: clientSeed });
+  }, [socket, isSeated, clientSeed]);
+
+  return [clientSeed, setClientSeed] as const;
+}
@@ -13,6 +13,9 @@ interface GameActionsOptions {
   rebuyAmount: number;
   selectedDrawCards: number[];
   maxDrawCount: number;
+  drawDeclaration?: 'high' | 'low';
+  /** 進行中のトーナメントでは離れても席が残るので、復帰用の情報を残す */
+  keepResumeToken?: boolean;
   onLeaveRoom: () => void;
   setIsYourTurn: (value: boolean) => void;
   setTimerSeconds: Dispatch<SetStateAction<number | undefined>>;
@@ -27,6 +30,8 @@ export function useGameActions({
   rebuyAmount,
   selectedDrawCards,
   maxDrawCount,
+  drawDeclaration,
+  keepResumeToken,
   onLeaveRoom,
   setIsYourTurn,
   setTimerSeconds,
@@ -59,15 +64,23 @@ export function useGameActions({
 
   const handleDraw = useCallback(() => {
     if (!socket) return;
-    socket.emit('draw-exchange', { discardIndexes: selectedDrawCards });
+    socket.emit('draw-exchange', { discardIndexes: selectedDrawCards, declaration: drawDeclaration });
+  }, [socket, selectedDrawCards, drawDeclaration]);
+
+  const handleVanish = useCallback(() => {
+    if (!socket) return;
+    socket.emit('vanish-cards', { discardIndexes: selectedDrawCards });
   }, [socket, selectedDrawCards]);
 
   const handleLeaveRoom = useCallback(() => {
     if (!socket) return;
     socket.emit('leave-room');
-    localStorage.removeItem('mgp-last-room');
+    if (!keepResumeToken) {
+      localStorage.removeItem('mgp-last-room');
+      localStorage.removeItem('mgp-resume-token');
+    }
     onLeaveRoom();
-  }, [socket, onLeaveRoom]);
+  }, [socket, keepResumeToken, onLeaveRoom]);
 
   const handleRebuy = useCallback(() => {
     if (!socket || rebuyAmount <= 0) return;
@@ -79,13 +92,26 @@ export function useGameActions({
     socket.emit('im-back');
   }, [socket]);
 
+  const handleToggleStraddle = useCallback((enabled: boolean) => {
+    if (!socket) return;
+    socket.emit('toggle-straddle', { enabled });
+  }, [socket]);
+
+  const handleRunItVote = useCallback((runs: number) => {
+    if (!socket) return;
+    socket.emit('run-it-vote', { runs });
+  }, [socket]);
+
   return {
     handleAction,
     handleUseTimeBank,
     toggleDrawCard,
     handleDraw,
+    handleVanish,
     handleLeaveRoom,
     handleRebuy,
     handleImBack,
+    handleToggleStraddle,
+    handleRunItVote,
   };
 }
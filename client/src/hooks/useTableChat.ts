@@ -0,0 +1,37 @@
+import { useCallback, useState } from 'react';
+import type { Socket } from 'socket.io-client';
+import type { ChatMessage } from '../types/table';
+
+// 保持するメッセージ数
+const MAX_CHAT_MESSAGES = 100;
+
+/**
+ * テーブルチャット: 受信メッセージと個人ミュートを保持し、送信・ミュート操作を行う
+ * 受信は useTableSocketEvents の chat-message から addChatMessage で渡す
+ */
+export function useTableChat(socket: Socket | null) {
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [mutedPlayerIds, setMutedPlayerIds] = useState<string[]>([]);
+
+  const addChatMessage = useCallback((message: ChatMessage) => {
+    setChatMessages(prev => [...prev.slice(-(MAX_CHAT_MESSAGES - 1)), message]);
+  }, []);
+
+  const sendChat = useCallback((text: string) => {
+    socket?.emit('chat-message', { text });
+  }, [socket]);
+
+  // 個人ミュート（サーバー側でも配信を止める）
+  const toggleMute = useCallback((playerId: string) => {
+    const muted = !mutedPlayerIds.includes(playerId);
+    socket?.emit('mute-player', { playerId, muted });
+    setMutedPlayerIds(prev => muted ? [...prev, playerId] : prev.filter(id => id !== playerId));
+  }, [socket, mutedPlayerIds]);
+
+  // ホストミュート（Private卓のホストのみ）
+  const setHostMuted = useCallback((playerId: string, muted: boolean) => {
+    socket?.emit('host-mute-player', { playerId, muted });
+  }, [socket]);
+
+  return { chatMessages, mutedPlayerIds, addChatMessage, sendChat, toggleMute, setHostMuted };
+}
@@ -2,7 +2,10 @@ import { useEffect, type Dispatch, type SetStateAction } from 'react';
 import type { Socket } from 'socket.io-client';
 import { createEventLog } from '../components/log/GameLog';
 import type { LogEntry } from '../components/log/GameLog';
-import type { ActionType, Room, ShowdownResult } from '../types/table';
+import { BET_STRUCTURE_LABELS, parseGameId } from '../constants/gameConfig';
+import type {
+  ActionType, AllInEquity, BetStructure, ChatMessage, Room, RunItVoteRequest, ShowdownResult,
+} from '../types/table';
 
 interface TurnPayload {
   validActions: ActionType[];
@@ -40,6 +43,8 @@ interface TableSocketOptions {
   setTimeBankChips: Dispatch<SetStateAction<number>>;
   setHasDrawnThisRound: (value: boolean) => void;
   setSelectedDrawCards: (indexes: number[]) => void;
+  setRunItVote: (vote: RunItVoteRequest | null) => void;
+  addChatMessage: (message: ChatMessage) => void;
 }
 
 export function useTableSocketEvents({
@@ -58,6 +63,8 @@ export function useTableSocketEvents({
   setTimeBankChips,
   setHasDrawnThisRound,
   setSelectedDrawCards,
+  setRunItVote,
+  addChatMessage,
 }: TableSocketOptions) {
   useEffect(() => {
     if (!socket) return;
@@ -76,11 +83,31 @@ export function useTableSocketEvents({
       setRoom(data.room);
     };
 
+    // マルチテーブル: 卓のブレイク・人数調整で別の卓へ移動
+    const handleTableMoved = (data: { room: Room }) => {
+      setRoom(data.room);
+      setYourHand([]);
+      setShowdownResult(null);
+      setIsYourTurn(false);
+      addLog(createEventLog('info', `Moved to ${data.room.displayName || data.room.id}`));
+    };
+
+    const handleTournamentClosed = () => {
+      addLog(createEventLog('info', 'The tournament is over and this table is closed'));
+    };
+
     const handleGameStarted = (data: { room: Room; yourHand: string[] }) => {
       setRoom(data.room);
       setYourHand(data.yourHand || []);
       setShowdownResult(null);
       setIsYourTurn(false);
+
+      for (const ante of data.room.gameState.antes || []) {
+        addLog(createEventLog('info', `${ante.playerName} posts ante ${ante.amount.toLocaleString()}`));
+      }
+      for (const straddle of data.room.gameState.straddles || []) {
+        addLog(createEventLog('info', `${straddle.playerName} straddles ${straddle.amount.toLocaleString()}`));
+      }
     };
 
     const handleYourTurn = (data: TurnPayload) => {
@@ -127,6 +154,10 @@ export function useTableSocketEvents({
           w.hand && w.hand.length > 0 ? w.hand : undefined
         ));
       });
+
+      if (result.rake) {
+        addLog(createEventLog('info', `Rake: ${result.rake.toLocaleString()}`));
+      }
     };
 
     const handleActionInvalid = (data: { reason: string }) => {
@@ -166,33 +197,58 @@ export function useTableSocketEvents({
       addLog(createEventLog('info', `${data.playerName} drew ${data.cardCount} cards`));
     };
 
+    const handlePlayerVanished = (data: { playerId: string; playerName: string; cardCount: number }) => {
+      addLog(createEventLog('info', `${data.playerName} vanished ${data.cardCount} cards`));
+    };
+
     const handleRunoutStarted = (data: {
       runoutPhase: string;
       fullBoard: string[];
-      revealedHands?: Array<{ playerId: string; playerName: string; hand: string[] }>
+      revealedHands?: Array<{ playerId: string; playerName: string; hand: string[] }>;
+      equities?: AllInEquity[];
+      runCount?: number;
+      runBoards?: string[][];
     }) => {
-      addLog(createEventLog('info', 'All-in runout...'));
+      const runCount = data.runCount || 1;
+      addLog(createEventLog('info', runCount > 1 ? `All-in runout (${runCount} times)...` : 'All-in runout...'));
+      if (data.runBoards) {
+        const runBoards = data.runBoards;
+        setRoom(prev => prev ? { ...prev, gameState: { ...prev.gameState, runBoards } } : prev);
+      }
 
       // ハンド開示をログに追加
       if (data.revealedHands && data.revealedHands.length > 0) {
         data.revealedHands.forEach(reveal => {
-          addLog(createEventLog('info', `${reveal.playerName} shows: ${reveal.hand.join(' ')}`));
+          const equity = data.equities?.find(e => e.playerId === reveal.playerId);
+          const equityText = equity ? ` (${equity.equity.toFixed(1)}%)` : '';
+          addLog(createEventLog('info', `${reveal.playerName} shows: ${reveal.hand.join(' ')}${equityText}`));
         });
       }
     };
 
-    const handleRunoutBoard = (data: { board: string[]; phase: string }) => {
+    const handleRunoutBoard = (data: {
+      board: string[];
+      board2?: string[];
+      phase: string;
+      runIndex?: number;
+      runCount?: number;
+      runBoards?: string[][];
+    }) => {
       setRoom(prev => {
         if (!prev) return prev;
         return {
           ...prev,
           gameState: {
             ...prev.gameState,
-            board: data.board,
+            board: data.runBoards ? data.runBoards[0] : data.board,
+            ...(data.board2 ? { board2: data.board2 } : {}),
+            ...(data.runBoards ? { runBoards: data.runBoards } : {}),
           }
         };
       });
-      if (data.phase === 'FLOP') {
+      if ((data.runCount || 1) > 1) {
+        addLog(createEventLog('info', `Run ${(data.runIndex || 0) + 1} ${data.phase}: ${data.board.join(' ')}`));
+      } else if (data.phase === 'FLOP') {
         addLog(createEventLog('flop', data.board.slice(0, 3).join(' ')));
       } else if (data.phase === 'TURN') {
         addLog(createEventLog('turn', data.board[3]));
@@ -201,8 +257,20 @@ export function useTableSocketEvents({
       }
     };
 
-    const handleNextGame = (data: { nextGame: string; gamesList: string[] }) => {
-      addLog(createEventLog('info', `Next game: ${data.nextGame}`));
+    const handleRunItVoteRequest = (data: RunItVoteRequest) => {
+      setRunItVote(data.voters.includes(yourSocketId) ? data : null);
+      addLog(createEventLog('info', `Run it ${data.maxRuns > 2 ? 'twice or three times' : 'twice'}?`));
+    };
+
+    const handleRunItDecided = (data: { runs: number }) => {
+      setRunItVote(null);
+      addLog(createEventLog('info', data.runs > 1 ? `Running it ${data.runs} times` : 'Running it once'));
+    };
+
+    const handleNextGame = (data: { nextGame: string; betStructure?: BetStructure; gamesList: string[] }) => {
+      const { variant } = parseGameId(data.nextGame);
+      const structure = data.betStructure ? ` (${BET_STRUCTURE_LABELS[data.betStructure]})` : '';
+      addLog(createEventLog('info', `Next game: ${variant}${structure}`));
     };
 
     // プライベートルーム: 設定変更保留
@@ -231,8 +299,15 @@ export function useTableSocketEvents({
       addLog(createEventLog('info', 'Room host has changed'));
     };
 
+    // テーブルチャット（ディーラーメッセージ含む）
+    const handleChatMessage = (message: ChatMessage) => {
+      addChatMessage(message);
+    };
+
     socket.on('room-state-update', handleRoomState);
     socket.on('room-joined', handleRoomJoined);
+    socket.on('table-moved', handleTableMoved);
+    socket.on('tournament-closed', handleTournamentClosed);
     socket.on('game-started', handleGameStarted);
     socket.on('your-turn', handleYourTurn);
     socket.on('timer-update', handleTimerUpdate);
@@ -244,16 +319,22 @@ export function useTableSocketEvents({
     socket.on('im-back-success', handleImBackSuccess);
     socket.on('draw-complete', handleDrawComplete);
     socket.on('player-drew', handlePlayerDrew);
+    socket.on('player-vanished', handlePlayerVanished);
     socket.on('runout-started', handleRunoutStarted);
     socket.on('runout-board', handleRunoutBoard);
+    socket.on('run-it-vote-request', handleRunItVoteRequest);
+    socket.on('run-it-decided', handleRunItDecided);
     socket.on('next-game', handleNextGame);
     socket.on('config-pending', handleConfigPending);
     socket.on('config-applied', handleConfigApplied);
     socket.on('host-changed', handleHostChanged);
+    socket.on('chat-message', handleChatMessage);
 
     return () => {
       socket.off('room-state-update', handleRoomState);
       socket.off('room-joined', handleRoomJoined);
+      socket.off('table-moved', handleTableMoved);
+      socket.off('tournament-closed', handleTournamentClosed);
       socket.off('game-started', handleGameStarted);
       socket.off('your-turn', handleYourTurn);
       socket.off('timer-update', handleTimerUpdate);
@@ -265,12 +346,16 @@ export function useTableSocketEvents({
       socket.off('im-back-success', handleImBackSuccess);
       socket.off('draw-complete', handleDrawComplete);
       socket.off('player-drew', handlePlayerDrew);
+      socket.off('player-vanished', handlePlayerVanished);
       socket.off('runout-started', handleRunoutStarted);
       socket.off('runout-board', handleRunoutBoard);
+      socket.off('run-it-vote-request', handleRunItVoteRequest);
+      socket.off('run-it-decided', handleRunItDecided);
       socket.off('next-game', handleNextGame);
       socket.off('config-pending', handleConfigPending);
       socket.off('config-applied', handleConfigApplied);
       socket.off('host-changed', handleHostChanged);
+      socket.off('chat-message', handleChatMessage);
     };
   }, [
     socket,
@@ -288,5 +373,7 @@ export function useTableSocketEvents({
     setTimeBankChips,
     setHasDrawnThisRound,
     setSelectedDrawCards,
+    setRunItVote,
+    addChatMessage,
   ]);
 }
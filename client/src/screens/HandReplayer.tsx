@@ -0,0 +1,274 @@
+/**
+ * HandReplayer - ハンドリプレイ画面
+ * 保存済みハンドをアクション単位で再生（前後ステップ・自動再生・共有リンク）
+ */
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { apiGet } from '../api';
+import { PokerTable } from '../components/table/PokerTable';
+import { buildReplayFrames } from '../components/replay/replayFrames';
+import { FairnessVerifier } from '../components/fairness/FairnessVerifier';
+import { getSeatLayoutSize } from '../constants/seatPositions';
+import type { GameState, HandHistory, HandSummary, HandVariantInfo } from '../types/table';
+
+interface HandDetail {
+  hand: HandHistory;
+  viewerPlayerId: string | null;
+  variant: HandVariantInfo;
+}
+
+interface HandReplayerProps {
+  initialHandId: string | null;
+  onBack: () => void;
+}
+
+// 自動再生の間隔（1x）
+const BASE_STEP_MS = 1200;
+const SPEED_OPTIONS = [0.5, 1, 2, 4];
+
+/** 共有リンク（?hand=<id>） */
+function getHandShareUrl(handId: string): string {
+  return `${window.location.origin}${window.location.pathname}?hand=${encodeURIComponent(handId)}`;
+}
+
+function setHandQuery(handId: string | null) {
+  const url = handId ? `${window.location.pathname}?hand=${encodeURIComponent(handId)}` : window.location.pathname;
+  window.history.replaceState(null, '', url);
+}
+
+const controlButtonStyle: React.CSSProperties = {
+  background: 'rgba(255,255,255,0.1)', border: '1px solid rgba(255,255,255,0.2)',
+  color: '#fff', fontSize: '14px', padding: '6px 12px', borderRadius: '8px',
+  cursor: 'pointer', minWidth: '40px',
+};
+
+export function HandReplayer({ initialHandId, onBack }: HandReplayerProps) {
+  const [hands, setHands] = useState<HandSummary[]>([]);
+  const [detail, setDetail] = useState<HandDetail | null>(null);
+  const [loading, setLoading] = useState(!!initialHandId);
+  const [error, setError] = useState<string | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [copied, setCopied] = useState(false);
+
+  const fetchHand = useCallback((handId: string) => {
+    return apiGet<HandDetail>(`/api/hands/${encodeURIComponent(handId)}`)
+      .then((data) => {
+        setDetail(data);
+        setFrameIndex(0);
+        setIsPlaying(false);
+        setError(null);
+        setHandQuery(handId);
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // 自分のハンド一覧 + 共有リンクのハンド
+  useEffect(() => {
+    apiGet<{ hands: HandSummary[] }>('/api/hands')
+      .then((data) => setHands(data.hands))
+      .catch(() => { /* list unavailable */ });
+    if (initialHandId) fetchHand(initialHandId);
+  }, [initialHandId, fetchHand]);
+
+  const openHand = (handId: string) => {
+    setLoading(true);
+    fetchHand(handId);
+  };
+
+  const handleBack = () => {
+    setHandQuery(null);
+    onBack();
+  };
+
+  const maxPlayers = getSeatLayoutSize(detail?.hand.maxPlayers || 6);
+  const frames = useMemo(
+    () => detail ? buildReplayFrames(detail.hand, detail.variant, detail.viewerPlayerId, maxPlayers) : [],
+    [detail, maxPlayers]
+  );
+  const lastIndex = Math.max(0, frames.length - 1);
+  const frame = frames[Math.min(frameIndex, lastIndex)];
+
+  // 自動再生
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setTimeout(() => {
+      setFrameIndex(i => Math.min(i + 1, lastIndex));
+      if (frameIndex + 1 >= lastIndex) setIsPlaying(false);
+    }, BASE_STEP_MS / speed);
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, lastIndex, speed]);
+
+  // キーボード操作（← → でステップ、Spaceで再生/停止）
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') setFrameIndex(i => Math.max(0, i - 1));
+      if (e.key === 'ArrowRight') setFrameIndex(i => Math.min(lastIndex, i + 1));
+      if (e.key === ' ') {
+        e.preventDefault();
+        setIsPlaying(p => !p);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [lastIndex]);
+
+  const togglePlay = () => {
+    if (!isPlaying && frameIndex >= lastIndex) setFrameIndex(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  const copyShareLink = () => {
+    if (!detail) return;
+    navigator.clipboard.writeText(getHandShareUrl(detail.hand.id)).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    });
+  };
+
+  // PokerTable に渡すテーブル状態
+  const gameState: GameState | null = detail && frame ? {
+    status: 'PLAYING',
+    gameVariant: detail.hand.gameVariant,
+    betStructure: detail.hand.betStructure,
+    pot: { main: frame.pot, side: [] },
+    board: frame.board,
+    board2: frame.board2,
+    runBoards: frame.runBoards,
+    currentBet: 0,
+    minRaise: 0,
+    handNumber: detail.hand.handNumber,
+  } : null;
+
+  const blindSeat = (type: 'POST_SB' | 'POST_BB') =>
+    detail?.hand.actions.find(a => a.type === type)?.seatIndex ?? -1;
+
+  return (
+    <div className="table-page">
+      <header className="table-header">
+        <div className="header-left">
+          <h1 className="room-title">🎬 Hand Replayer</h1>
+          {detail && (
+            <div className="room-info-row">
+              <span className="blinds-info">{detail.hand.smallBlind}/{detail.hand.bigBlind}</span>
+              <span className="hand-info">Hand #{detail.hand.handNumber}</span>
+            </div>
+          )}
+        </div>
+        {detail && (
+          <div className="game-variant-display">
+            <span className="game-variant-label">Game</span>
+            <span className="game-variant-name">{detail.variant.name}</span>
+          </div>
+        )}
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+          {detail && (
+            <button className="action-btn" onClick={copyShareLink} style={controlButtonStyle}>
+              {copied ? 'Copied!' : 'Copy Link'}
+            </button>
+          )}
+          <button className="action-btn fold" onClick={handleBack}>
+            Back
+          </button>
+        </div>
+      </header>
+
+      <div style={{ display: 'flex', gap: '12px', padding: '12px', alignItems: 'flex-start', flexWrap: 'wrap' }}>
+        {/* ハンド一覧 */}
+        <div style={{
+          width: '220px', maxHeight: '70vh', overflowY: 'auto',
+          background: 'rgba(255,255,255,0.05)', borderRadius: '12px',
+          border: '1px solid rgba(255,255,255,0.1)', padding: '8px',
+        }}>
+          <div style={{ color: 'rgba(255,255,255,0.6)', fontSize: '12px', marginBottom: '6px' }}>
+            Recent Hands
+          </div>
+          {hands.length === 0 && (
+            <div style={{ color: 'rgba(255,255,255,0.3)', fontSize: '12px' }}>No hands yet</div>
+          )}
+          {hands.map(h => (
+            <button
+              key={h.id}
+              onClick={() => openHand(h.id)}
+              style={{
+                display: 'flex', justifyContent: 'space-between', width: '100%',
+                background: detail?.hand.id === h.id ? 'rgba(59,130,246,0.25)' : 'transparent',
+                border: 'none', borderRadius: '6px', padding: '6px 8px',
+                color: '#fff', fontSize: '12px', cursor: 'pointer', textAlign: 'left',
+              }}
+            >
+              <span>#{h.handNumber} {h.gameVariant}</span>
+              <span style={{ color: h.netResult >= 0 ? '#22c55e' : '#ef4444' }}>
+                {h.netResult >= 0 ? '+' : ''}{h.netResult}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {/* テーブル + 操作 */}
+        <div style={{ flex: 1, minWidth: '320px' }}>
+          {loading && <div style={{ color: 'rgba(255,255,255,0.6)', padding: '24px' }}>Loading...</div>}
+          {error && <div style={{ color: '#ef4444', padding: '24px' }}>{error}</div>}
+          {!loading && !detail && !error && (
+            <div style={{ color: 'rgba(255,255,255,0.4)', padding: '24px' }}>Select a hand to replay</div>
+          )}
+
+          {detail && frame && gameState && (
+            <>
+              <PokerTable
+                maxPlayers={maxPlayers}
+                players={frame.players}
+                gameState={gameState}
+                dealerBtnIndex={detail.hand.buttonSeat}
+                activePlayerIndex={frame.activeSeat}
+                yourSocketId={detail.viewerPlayerId || ''}
+                showdownResult={frame.showdownResult}
+                yourHand={frame.yourHand}
+                blindIndexes={{ sb: blindSeat('POST_SB'), bb: blindSeat('POST_BB') }}
+              />
+
+              <div style={{
+                textAlign: 'center', color: '#fff', fontSize: '15px', fontWeight: 600,
+                margin: '8px 0', minHeight: '22px',
+              }}>
+                {frame.description}
+              </div>
+
+              <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+                <button style={controlButtonStyle} onClick={() => setFrameIndex(0)} title="First">⏮</button>
+                <button style={controlButtonStyle} onClick={() => setFrameIndex(i => Math.max(0, i - 1))} title="Back">◀</button>
+                <button style={controlButtonStyle} onClick={togglePlay} title="Play/Pause">
+                  {isPlaying ? '⏸' : '▶'}
+                </button>
+                <button style={controlButtonStyle} onClick={() => setFrameIndex(i => Math.min(lastIndex, i + 1))} title="Forward">▶▶</button>
+                <button style={controlButtonStyle} onClick={() => setFrameIndex(lastIndex)} title="Last">⏭</button>
+                <select
+                  value={speed}
+                  onChange={(e) => setSpeed(Number(e.target.value))}
+                  style={{ ...controlButtonStyle, background: '#1f2937' }}
+                >
+                  {SPEED_OPTIONS.map(s => <option key={s} value={s}>{s}x</option>)}
+                </select>
+                <span style={{ color: 'rgba(255,255,255,0.5)', fontSize: '12px' }}>
+                  {Math.min(frameIndex, lastIndex) + 1} / {frames.length}
+                </span>
+              </div>
+
+              <input
+                type="range"
+                min={0}
+                max={lastIndex}
+                value={Math.min(frameIndex, lastIndex)}
+                onChange={(e) => setFrameIndex(Number(e.target.value))}
+                style={{ width: '100%', marginTop: '10px' }}
+              />
+
+              {detail.hand.fairness && <FairnessVerifier fairness={detail.hand.fairness} />}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
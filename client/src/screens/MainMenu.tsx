@@ -1,6 +1,6 @@
 /**
  * MainMenu - メインメニュー画面
- * アカウント設定、ゲームモード選択、プレイヤー統計表示
+ * アカウント設定、ゲームモード選択、プレイヤー統計・ウォレット残高表示
  */
 import { useState, useEffect } from 'react';
 import { apiGet } from '../api';
@@ -34,7 +34,7 @@ interface PlayerStats {
 
 interface MainMenuProps {
   user: AuthUser;
-  onNavigate: (view: 'roomSelect' | 'privateRoom') => void;
+  onNavigate: (view: 'roomSelect' | 'tournamentLobby' | 'privateRoom' | 'handReplayer') => void;
   onLogout: () => void;
   onUserUpdate: (user: AuthUser) => void;
 }
@@ -42,6 +42,7 @@ interface MainMenuProps {
 export function MainMenu({ user, onNavigate, onLogout, onUserUpdate }: MainMenuProps) {
   const [showSettings, setShowSettings] = useState(false);
   const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [balance, setBalance] = useState<number | null>(null);
   const [showHistory, setShowHistory] = useState(false);
 
   // 統計情報を取得
@@ -49,6 +50,9 @@ export function MainMenu({ user, onNavigate, onLogout, onUserUpdate }: MainMenuP
     apiGet<PlayerStats>('/api/stats/me')
       .then(setStats)
       .catch(() => { /* stats unavailable */ });
+    apiGet<{ balance: number }>('/api/wallet/me')
+      .then(wallet => setBalance(wallet.balance))
+      .catch(() => { /* wallet unavailable */ });
   }, []);
 
   const formatProfit = (value: number) => {
@@ -102,6 +106,11 @@ export function MainMenu({ user, onNavigate, onLogout, onUserUpdate }: MainMenuP
             <div style={{ color: 'rgba(255,255,255,0.4)', fontSize: '12px' }}>
               @{user.username}
             </div>
+            {balance !== null && (
+              <div style={{ color: '#fbbf24', fontSize: '12px', marginTop: '2px' }}>
+                {'\u{1F4B0}'} {balance.toLocaleString()}
+              </div>
+            )}
           </div>
         </div>
         <button
@@ -265,18 +274,17 @@ export function MainMenu({ user, onNavigate, onLogout, onUserUpdate }: MainMenuP
         </button>
 
         <button
-          disabled
+          onClick={() => onNavigate('tournamentLobby')}
           style={{
-            padding: '24px', background: 'rgba(255,255,255,0.03)',
-            border: '1px solid rgba(255,255,255,0.06)', borderRadius: '16px',
-            color: 'rgba(255,255,255,0.3)', cursor: 'not-allowed', textAlign: 'left',
-            opacity: 0.5,
+            padding: '24px', background: 'linear-gradient(135deg, rgba(250,204,21,0.18), rgba(217,119,6,0.18))',
+            border: '1px solid rgba(250,204,21,0.3)', borderRadius: '16px',
+            color: '#fff', cursor: 'pointer', textAlign: 'left',
           }}
         >
           <div style={{ fontSize: '24px', marginBottom: '8px' }}>🏆</div>
           <div style={{ fontSize: '18px', fontWeight: 700 }}>Tournament</div>
-          <div style={{ fontSize: '13px', color: 'rgba(255,255,255,0.3)', marginTop: '4px' }}>
-            Coming Soon
+          <div style={{ fontSize: '13px', color: 'rgba(255,255,255,0.5)', marginTop: '4px' }}>
+            Multi-table &amp; Sit &amp; Go · NLH, HORSE, 8-Game
           </div>
         </button>
 
@@ -296,6 +304,23 @@ export function MainMenu({ user, onNavigate, onLogout, onUserUpdate }: MainMenuP
             Create or join by room number
           </div>
         </button>
+
+        <button
+          onClick={() => onNavigate('handReplayer')}
+          style={{
+            padding: '24px',
+            background: 'linear-gradient(135deg, rgba(59,130,246,0.2), rgba(37,99,235,0.2))',
+            border: '1px solid rgba(59,130,246,0.3)', borderRadius: '16px',
+            color: '#fff', cursor: 'pointer', textAlign: 'left',
+            transition: 'all 0.2s',
+          }}
+        >
+          <div style={{ fontSize: '24px', marginBottom: '8px' }}>🎬</div>
+          <div style={{ fontSize: '18px', fontWeight: 700 }}>Hand Replayer</div>
+          <div style={{ fontSize: '13px', color: 'rgba(255,255,255,0.5)', marginTop: '4px' }}>
+            Rewatch your recent hands
+          </div>
+        </button>
       </div>
     </div>
   );
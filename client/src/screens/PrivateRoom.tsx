@@ -22,6 +22,7 @@ export function PrivateRoom({ socket, onJoinRoom, onBack }: PrivateRoomProps) {
   const [maxPlayers, setMaxPlayers] = useState<6 | 8>(6);
   const [selectedGames, setSelectedGames] = useState<string[]>(['NLH']);
   const [rotationEnabled, setRotationEnabled] = useState(false);
+  const [recordChat, setRecordChat] = useState(false);
   const [creating, setCreating] = useState(false);
 
   // === Join Room State ===
@@ -91,6 +92,7 @@ export function PrivateRoom({ socket, onJoinRoom, onBack }: PrivateRoomProps) {
         smallBlind: blind.sb,
         bigBlind: blind.bb,
         allowedGames: selectedGames,
+        recordChat,
       },
       password: password || undefined,
       customRoomId: roomNumber || undefined,
@@ -361,6 +363,29 @@ export function PrivateRoom({ socket, onJoinRoom, onBack }: PrivateRoomProps) {
               </div>
             )}
 
+            {/* Save chat with hand history */}
+            <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+              <label style={{ ...labelStyle, marginBottom: 0 }}>Save Chat</label>
+              <button
+                onClick={() => setRecordChat(!recordChat)}
+                style={{
+                  width: '48px', height: '26px', borderRadius: '13px', border: 'none',
+                  background: recordChat ? '#8b5cf6' : 'rgba(255,255,255,0.15)',
+                  cursor: 'pointer', position: 'relative', transition: 'background 0.2s',
+                }}
+              >
+                <div style={{
+                  width: '20px', height: '20px', borderRadius: '50%', background: '#fff',
+                  position: 'absolute', top: '3px',
+                  left: recordChat ? '25px' : '3px',
+                  transition: 'left 0.2s',
+                }} />
+              </button>
+              <span style={{ fontSize: '13px', color: 'rgba(255,255,255,0.5)' }}>
+                {recordChat ? 'Stored with hand history' : 'Off'}
+              </span>
+            </div>
+
             {/* Max Players */}
             <div>
               <label style={labelStyle}>Max Players</label>
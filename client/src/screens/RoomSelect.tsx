@@ -4,12 +4,19 @@
  */
 import { useState, useEffect } from 'react';
 import { Socket } from 'socket.io-client';
+import { BET_STRUCTURE_LABELS, parseGameId } from '../constants/gameConfig';
+import type { BetStructure, Player, Room } from '../types/table';
+
+// 前回着席した部屋と席に戻るためのトークン（退室時に削除）
+const LAST_ROOM_KEY = 'mgp-last-room';
+const RESUME_TOKEN_KEY = 'mgp-resume-token';
 
 interface RoomListItem {
   id: string;
   playerCount: number;
   maxPlayers: number;
   gameVariant: string;
+  betStructure?: BetStructure;  // 実際のベット構造（ルーム/ローテーションの上書き込み）
   blinds: string;
   isPrivate: boolean;
   buyInMin?: number;
@@ -17,17 +24,19 @@ interface RoomListItem {
   displayName?: string;
   category?: 'nlh' | 'mix';
   rotationGames?: string[];
+  spectatorCount: number;
 }
 
 interface RoomSelectProps {
   socket: Socket | null;
-  onJoinRoom: (roomId: string, roomData?: any, yourHand?: string[] | null) => void;
+  onJoinRoom: (roomId: string, roomData?: any, yourHand?: string[] | null, asSpectator?: boolean) => void;
   onBack: () => void;
 }
 
 // ゲームバリアントの表示名
 const GAME_SHORT_NAMES: Record<string, string> = {
   NLH: "Hold'em",
+  SD_NLH: 'Short Deck',
   PLO: 'Omaha',
   PLO8: 'Omaha Hi-Lo',
   '7CS': 'Stud',
@@ -68,6 +77,13 @@ const GAME_SHORT_NAMES: Record<string, string> = {
   PL_BADUGI: 'PL Badugi',
 };
 
+// ゲームIDの表示名（"NLH@fixed" → "Hold'em FL"）
+const formatGameName = (gameId: string): string => {
+  const { variant, betStructure } = parseGameId(gameId);
+  const name = GAME_SHORT_NAMES[variant] || variant;
+  return betStructure ? `${name} ${BET_STRUCTURE_LABELS[betStructure]}` : name;
+};
+
 // ルームカードの色テーマ
 const ROOM_THEMES: Record<string, { bg: string; border: string; accent: string }> = {
   'nlh-1-2': { bg: 'rgba(16,185,129,0.12)', border: 'rgba(16,185,129,0.3)', accent: '#10b981' },
@@ -91,6 +107,10 @@ export function RoomSelect({ socket, onJoinRoom, onBack }: RoomSelectProps) {
   } | null>(null);
   const [buyInAmount, setBuyInAmount] = useState(0);
   const [joining, setJoining] = useState(false);
+  const [resumeSeat] = useState(() => ({
+    roomId: localStorage.getItem(LAST_ROOM_KEY),
+    token: localStorage.getItem(RESUME_TOKEN_KEY),
+  }));
 
   useEffect(() => {
     if (!socket) return;
@@ -104,10 +124,20 @@ export function RoomSelect({ socket, onJoinRoom, onBack }: RoomSelectProps) {
     const handleRoomJoined = (data: { room: any; yourSocketId: string; yourHand?: string[] | null }) => {
       setJoining(false);
       setBuyInDialog(null);
-      localStorage.setItem('mgp-last-room', data.room.id);
+      localStorage.setItem(LAST_ROOM_KEY, data.room.id);
+      const me = (data.room.players as (Player | null)[]).find(p => p?.socketId === data.yourSocketId);
+      if (me?.resumeToken) {
+        localStorage.setItem(RESUME_TOKEN_KEY, me.resumeToken);
+      } else {
+        localStorage.removeItem(RESUME_TOKEN_KEY);
+      }
       onJoinRoom(data.room.id, data.room, data.yourHand || null);
     };
 
+    const handleSpectateJoined = (data: { room: Room }) => {
+      onJoinRoom(data.room.id, data.room, null, true);
+    };
+
     const handleError = (error: { message: string }) => {
       setJoining(false);
       alert(error.message);
@@ -115,11 +145,13 @@ export function RoomSelect({ socket, onJoinRoom, onBack }: RoomSelectProps) {
 
     socket.on('room-list-update', handleRoomList);
     socket.on('room-joined', handleRoomJoined);
+    socket.on('spectate-joined', handleSpectateJoined);
     socket.on('error', handleError);
 
     return () => {
       socket.off('room-list-update', handleRoomList);
       socket.off('room-joined', handleRoomJoined);
+      socket.off('spectate-joined', handleSpectateJoined);
       socket.off('error', handleError);
     };
   }, [socket, onJoinRoom]);
@@ -152,6 +184,24 @@ export function RoomSelect({ socket, onJoinRoom, onBack }: RoomSelectProps) {
     });
   };
 
+  // 前回の席に戻る（切断・サーバー再起動後）
+  const handleResume = () => {
+    if (!socket || !resumeSeat.roomId || !resumeSeat.token || joining) return;
+    setJoining(true);
+    socket.emit('join-room', {
+      roomId: resumeSeat.roomId,
+      playerName: '',
+      resumeToken: resumeSeat.token,
+    });
+  };
+
+  const resumeRoom = resumeSeat.token ? rooms.find(r => r.id === resumeSeat.roomId) : undefined;
+
+  const handleWatch = (room: RoomListItem) => {
+    if (!socket) return;
+    socket.emit('spectate-room', { roomId: room.id });
+  };
+
   const nlhRooms = rooms.filter(r => r.category === 'nlh');
   const mixRooms = rooms.filter(r => r.category === 'mix');
 
@@ -160,67 +210,93 @@ export function RoomSelect({ socket, onJoinRoom, onBack }: RoomSelectProps) {
     const isFull = room.playerCount >= room.maxPlayers;
 
     return (
-      <button
-        key={room.id}
-        onClick={() => handleRoomClick(room)}
-        disabled={isFull}
-        style={{
-          padding: '20px',
-          background: theme.bg,
-          border: `1px solid ${theme.border}`,
-          borderRadius: '14px',
-          color: '#fff',
-          cursor: isFull ? 'not-allowed' : 'pointer',
-          textAlign: 'left',
-          opacity: isFull ? 0.5 : 1,
-          transition: 'transform 0.15s, box-shadow 0.15s',
-          width: '100%',
-        }}
-      >
-        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
-          <div>
-            <div style={{ fontSize: '17px', fontWeight: 700 }}>
-              {room.displayName || room.id}
+      <div key={room.id} style={{ display: 'flex', gap: '8px', alignItems: 'stretch' }}>
+        <button
+          onClick={() => handleRoomClick(room)}
+          disabled={isFull}
+          style={{
+            padding: '20px',
+            background: theme.bg,
+            border: `1px solid ${theme.border}`,
+            borderRadius: '14px',
+            color: '#fff',
+            cursor: isFull ? 'not-allowed' : 'pointer',
+            textAlign: 'left',
+            opacity: isFull ? 0.5 : 1,
+            transition: 'transform 0.15s, box-shadow 0.15s',
+            width: '100%',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+            <div>
+              <div style={{ fontSize: '17px', fontWeight: 700 }}>
+                {room.displayName || room.id}
+              </div>
+              <div style={{ fontSize: '13px', color: 'rgba(255,255,255,0.5)', marginTop: '4px' }}>
+                {GAME_SHORT_NAMES[room.gameVariant] || room.gameVariant}
+                {room.betStructure && ` ${BET_STRUCTURE_LABELS[room.betStructure]}`} · Blinds {room.blinds}
+              </div>
             </div>
-            <div style={{ fontSize: '13px', color: 'rgba(255,255,255,0.5)', marginTop: '4px' }}>
-              Blinds {room.blinds}
+            <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '4px' }}>
+              <div style={{
+                padding: '4px 10px', borderRadius: '20px',
+                background: isFull ? 'rgba(239,68,68,0.2)' : 'rgba(16,185,129,0.2)',
+                color: isFull ? '#f87171' : '#34d399',
+                fontSize: '12px', fontWeight: 600,
+              }}>
+                {room.playerCount}/{room.maxPlayers}
+              </div>
+              {room.spectatorCount > 0 && (
+                <span style={{ color: 'rgba(255,255,255,0.5)', fontSize: '11px' }} title="Spectators">
+                  👁 {room.spectatorCount}
+                </span>
+              )}
             </div>
           </div>
-          <div style={{
-            padding: '4px 10px', borderRadius: '20px',
-            background: isFull ? 'rgba(239,68,68,0.2)' : 'rgba(16,185,129,0.2)',
-            color: isFull ? '#f87171' : '#34d399',
-            fontSize: '12px', fontWeight: 600,
-          }}>
-            {room.playerCount}/{room.maxPlayers}
-          </div>
-        </div>
 
-        {room.rotationGames && room.rotationGames.length > 0 && (
-          <div style={{
-            marginTop: '10px', display: 'flex', flexWrap: 'wrap', gap: '4px',
-          }}>
-            {room.rotationGames.slice(0, 6).map((g, i) => (
-              <span key={i} style={{
-                padding: '2px 6px', borderRadius: '4px',
-                background: 'rgba(255,255,255,0.08)',
-                color: 'rgba(255,255,255,0.6)', fontSize: '10px',
-              }}>
-                {GAME_SHORT_NAMES[g] || g}
-              </span>
-            ))}
-            {room.rotationGames.length > 6 && (
-              <span style={{
-                padding: '2px 6px', borderRadius: '4px',
-                background: 'rgba(255,255,255,0.08)',
-                color: 'rgba(255,255,255,0.4)', fontSize: '10px',
-              }}>
-                +{room.rotationGames.length - 6}
-              </span>
-            )}
-          </div>
-        )}
-      </button>
+          {room.rotationGames && room.rotationGames.length > 0 && (
+            <div style={{
+              marginTop: '10px', display: 'flex', flexWrap: 'wrap', gap: '4px',
+            }}>
+              {room.rotationGames.slice(0, 6).map((g, i) => (
+                <span key={i} style={{
+                  padding: '2px 6px', borderRadius: '4px',
+                  background: 'rgba(255,255,255,0.08)',
+                  color: 'rgba(255,255,255,0.6)', fontSize: '10px',
+                }}>
+                  {formatGameName(g)}
+                </span>
+              ))}
+              {room.rotationGames.length > 6 && (
+                <span style={{
+                  padding: '2px 6px', borderRadius: '4px',
+                  background: 'rgba(255,255,255,0.08)',
+                  color: 'rgba(255,255,255,0.4)', fontSize: '10px',
+                }}>
+                  +{room.rotationGames.length - 6}
+                </span>
+              )}
+            </div>
+          )}
+        </button>
+        <button
+          onClick={() => handleWatch(room)}
+          disabled={room.playerCount === 0}
+          title="Watch without taking a seat"
+          style={{
+            padding: '0 14px',
+            background: 'rgba(255,255,255,0.06)',
+            border: `1px solid ${theme.border}`,
+            borderRadius: '14px',
+            color: 'rgba(255,255,255,0.7)',
+            fontSize: '13px', fontWeight: 600,
+            cursor: room.playerCount === 0 ? 'not-allowed' : 'pointer',
+            opacity: room.playerCount === 0 ? 0.4 : 1,
+          }}
+        >
+          Watch
+        </button>
+      </div>
     );
   };
 
@@ -250,6 +326,22 @@ export function RoomSelect({ socket, onJoinRoom, onBack }: RoomSelectProps) {
       </div>
 
       <div style={{ maxWidth: '500px', margin: '0 auto' }}>
+        {/* Return to previous seat */}
+        {resumeRoom && (
+          <button
+            onClick={handleResume}
+            disabled={joining}
+            style={{
+              width: '100%', marginBottom: '20px', padding: '14px',
+              background: 'rgba(16,185,129,0.15)', border: '1px solid rgba(16,185,129,0.4)',
+              borderRadius: '14px', color: '#34d399', fontSize: '14px', fontWeight: 600,
+              cursor: 'pointer',
+            }}
+          >
+            Return to your seat · {resumeRoom.displayName || resumeRoom.id}
+          </button>
+        )}
+
         {/* NLH Section */}
         {nlhRooms.length > 0 && (
           <div style={{ marginBottom: '30px' }}>
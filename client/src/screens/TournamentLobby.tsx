@@ -0,0 +1,529 @@
+/**
+ * TournamentLobby - トーナメントロビー画面
+ * マルチテーブルトーナメント・Sit & Go の一覧 + 登録ダイアログ（定員・満席で開始）
+ */
+import { useState, useEffect } from 'react';
+import { Socket } from 'socket.io-client';
+import type { Room, TournamentStatus } from '../types/table';
+
+// 前回着席した部屋と席に戻るためのトークン（RoomSelect と共通）
+const LAST_ROOM_KEY = 'mgp-last-room';
+const RESUME_TOKEN_KEY = 'mgp-resume-token';
+
+interface TournamentListItem {
+  id: string;
+  playerCount: number;
+  maxPlayers: number;
+  blinds: string;
+  displayName?: string;
+  category?: 'nlh' | 'mix' | 'sng' | 'mtt';
+  rotationGames?: string[];
+  spectatorCount: number;
+  tournament?: {
+    status: TournamentStatus;
+    buyIn: number;
+    startingStack: number;
+    prizePool: number;
+    levelIndex: number;
+  };
+}
+
+// マルチテーブルトーナメント（卓は開始時に作られ、大会の開始・卓の移動は App の table-moved で卓へ）
+interface MultiTableTournament {
+  id: string;
+  name: string;
+  status: TournamentStatus;
+  buyIn: number;
+  startingStack: number;
+  prizePool: number;
+  entrants: number;
+  maxEntrants: number;
+  playersLeft: number;
+  levelIndex: number;
+  gamesList: string[];
+  tableIds: string[];
+  handForHand: boolean;
+  finalTable: boolean;
+}
+
+interface RegisterDialog {
+  title: string;
+  subtitle: string;
+  buyIn: number;
+  startingStack: number;
+  onConfirm: () => void;
+}
+
+interface TournamentLobbyProps {
+  socket: Socket | null;
+  onJoinRoom: (roomId: string, roomData?: Room, yourHand?: string[] | null, asSpectator?: boolean) => void;
+  onBack: () => void;
+}
+
+const STATUS_LABELS: Record<TournamentStatus, { label: string; color: string; bg: string }> = {
+  REGISTERING: { label: 'Registering', color: '#34d399', bg: 'rgba(16,185,129,0.2)' },
+  RUNNING: { label: 'Running', color: '#facc15', bg: 'rgba(250,204,21,0.2)' },
+  FINISHED: { label: 'Finished', color: 'rgba(255,255,255,0.6)', bg: 'rgba(255,255,255,0.1)' },
+};
+
+export function TournamentLobby({ socket, onJoinRoom, onBack }: TournamentLobbyProps) {
+  const [rooms, setRooms] = useState<TournamentListItem[]>([]);
+  const [tables, setTables] = useState<TournamentListItem[]>([]);
+  const [tournaments, setTournaments] = useState<MultiTableTournament[]>([]);
+  const [registeredIds, setRegisteredIds] = useState<string[]>([]);
+  const [registerDialog, setRegisterDialog] = useState<RegisterDialog | null>(null);
+  const [joining, setJoining] = useState(false);
+  const [resumeSeat] = useState(() => ({
+    roomId: localStorage.getItem(LAST_ROOM_KEY),
+    token: localStorage.getItem(RESUME_TOKEN_KEY),
+  }));
+
+  useEffect(() => {
+    if (!socket) return;
+
+    socket.emit('get-room-list');
+    socket.emit('get-tournament-list');
+
+    const handleRoomList = (roomList: TournamentListItem[]) => {
+      setRooms(roomList.filter(r => r.category === 'sng'));
+      setTables(roomList.filter(r => r.category === 'mtt'));
+    };
+
+    const handleTournamentList = (list: MultiTableTournament[]) => {
+      setTournaments(list);
+    };
+
+    const handleRegistrations = (data: { tournamentIds: string[] }) => {
+      setRegisteredIds(data.tournamentIds);
+    };
+
+    // 登録完了: 開始後に切断しても戻れるよう大会IDと resumeToken を保存
+    const handleRegistered = (data: { tournamentId: string; resumeToken: string }) => {
+      setJoining(false);
+      setRegisterDialog(null);
+      setRegisteredIds(prev => [...prev, data.tournamentId]);
+      localStorage.setItem(LAST_ROOM_KEY, data.tournamentId);
+      localStorage.setItem(RESUME_TOKEN_KEY, data.resumeToken);
+    };
+
+    const handleUnregistered = (data: { tournamentId: string }) => {
+      setRegisteredIds(prev => prev.filter(id => id !== data.tournamentId));
+    };
+
+    const handleRoomJoined = (data: { room: Room; yourSocketId: string; yourHand?: string[] | null }) => {
+      setJoining(false);
+      setRegisterDialog(null);
+      localStorage.setItem(LAST_ROOM_KEY, data.room.id);
+      const me = data.room.players.find(p => p?.socketId === data.yourSocketId);
+      if (me?.resumeToken) {
+        localStorage.setItem(RESUME_TOKEN_KEY, me.resumeToken);
+      } else {
+        localStorage.removeItem(RESUME_TOKEN_KEY);
+      }
+      onJoinRoom(data.room.id, data.room, data.yourHand || null);
+    };
+
+    const handleSpectateJoined = (data: { room: Room }) => {
+      onJoinRoom(data.room.id, data.room, null, true);
+    };
+
+    const handleError = (error: { message: string }) => {
+      setJoining(false);
+      alert(error.message);
+    };
+
+    socket.on('room-list-update', handleRoomList);
+    socket.on('tournament-list-update', handleTournamentList);
+    socket.on('mtt-registrations', handleRegistrations);
+    socket.on('mtt-registered', handleRegistered);
+    socket.on('mtt-unregistered', handleUnregistered);
+    socket.on('room-joined', handleRoomJoined);
+    socket.on('spectate-joined', handleSpectateJoined);
+    socket.on('error', handleError);
+
+    return () => {
+      socket.off('room-list-update', handleRoomList);
+      socket.off('tournament-list-update', handleTournamentList);
+      socket.off('mtt-registrations', handleRegistrations);
+      socket.off('mtt-registered', handleRegistered);
+      socket.off('mtt-unregistered', handleUnregistered);
+      socket.off('room-joined', handleRoomJoined);
+      socket.off('spectate-joined', handleSpectateJoined);
+      socket.off('error', handleError);
+    };
+  }, [socket, onJoinRoom]);
+
+  const openSitAndGoDialog = (room: TournamentListItem) => {
+    const t = room.tournament;
+    if (!t) return;
+    setRegisterDialog({
+      title: room.displayName || room.id,
+      subtitle: `Starts when ${room.maxPlayers} players have registered`,
+      buyIn: t.buyIn,
+      startingStack: t.startingStack,
+      onConfirm: () => socket?.emit('tournament-register', { roomId: room.id }),
+    });
+  };
+
+  const openMultiTableDialog = (tournament: MultiTableTournament) => {
+    setRegisterDialog({
+      title: tournament.name,
+      subtitle: `Starts when ${tournament.maxEntrants} players have registered`,
+      buyIn: tournament.buyIn,
+      startingStack: tournament.startingStack,
+      onConfirm: () => socket?.emit('mtt-register', { tournamentId: tournament.id }),
+    });
+  };
+
+  const handleRegister = () => {
+    if (!socket || !registerDialog || joining) return;
+    setJoining(true);
+    registerDialog.onConfirm();
+  };
+
+  const handleUnregister = (tournament: MultiTableTournament) => {
+    if (!socket) return;
+    socket.emit('mtt-unregister', { tournamentId: tournament.id });
+  };
+
+  // 進行中の大会の席に戻る（切断・サーバー再起動後）
+  const handleResume = () => {
+    if (!socket || !resumeSeat.roomId || !resumeSeat.token || joining) return;
+    setJoining(true);
+    socket.emit('join-room', {
+      roomId: resumeSeat.roomId,
+      playerName: '',
+      resumeToken: resumeSeat.token,
+    });
+  };
+
+  const resumeRoom = resumeSeat.token ? rooms.find(r => r.id === resumeSeat.roomId) : undefined;
+  // マルチテーブルは大会IDか（移動前の）卓のIDで、今の卓はサーバーが resumeToken から探す
+  const resumeTournament = resumeSeat.token && resumeSeat.roomId
+    ? tournaments.find(t => t.status === 'RUNNING'
+      && (t.id === resumeSeat.roomId || t.tableIds.includes(resumeSeat.roomId!)))
+    : undefined;
+  const resumeName = resumeRoom ? resumeRoom.displayName || resumeRoom.id : resumeTournament?.name;
+
+  const handleWatch = (roomId: string) => {
+    if (!socket) return;
+    socket.emit('spectate-room', { roomId });
+  };
+
+  const renderMultiTableCard = (tournament: MultiTableTournament) => {
+    const status = STATUS_LABELS[tournament.status];
+    const registered = registeredIds.includes(tournament.id);
+    const canRegister = tournament.status === 'REGISTERING' && !registered
+      && tournament.entrants < tournament.maxEntrants;
+    const tournamentTables = tables.filter(room => tournament.tableIds.includes(room.id));
+
+    return (
+      <div key={tournament.id} style={{
+        padding: '20px',
+        background: 'rgba(250,204,21,0.08)',
+        border: '1px solid rgba(250,204,21,0.25)',
+        borderRadius: '14px',
+        color: '#fff',
+      }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+          <div>
+            <div style={{ fontSize: '17px', fontWeight: 700 }}>{tournament.name}</div>
+            <div style={{ fontSize: '12px', color: 'rgba(255,255,255,0.5)', marginTop: '4px' }}>
+              {tournament.gamesList.join(' · ')}
+            </div>
+            <div style={{ fontSize: '13px', color: 'rgba(255,255,255,0.5)', marginTop: '4px' }}>
+              Buy-in {tournament.buyIn.toLocaleString()} · Stack {tournament.startingStack.toLocaleString()}
+            </div>
+            <div style={{ fontSize: '13px', color: 'rgba(255,255,255,0.5)', marginTop: '2px' }}>
+              Prize pool {tournament.prizePool.toLocaleString()}
+              {tournament.status === 'RUNNING' && ` · Level ${tournament.levelIndex + 1}`}
+              {tournament.finalTable ? ' · Final table' : tournament.handForHand ? ' · Hand-for-hand' : ''}
+            </div>
+          </div>
+          <div style={{
+            padding: '4px 10px', borderRadius: '20px',
+            background: status.bg, color: status.color,
+            fontSize: '12px', fontWeight: 600, whiteSpace: 'nowrap',
+          }}>
+            {status.label}{' '}
+            {tournament.status === 'REGISTERING'
+              ? `${tournament.entrants}/${tournament.maxEntrants}`
+              : `${tournament.playersLeft}/${tournament.entrants}`}
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', marginTop: '14px', flexWrap: 'wrap' }}>
+          {tournament.status === 'REGISTERING' && (registered ? (
+            <button
+              onClick={() => handleUnregister(tournament)}
+              style={{
+                padding: '8px 14px', background: 'rgba(255,255,255,0.1)',
+                border: '1px solid rgba(255,255,255,0.2)', borderRadius: '10px',
+                color: 'rgba(255,255,255,0.8)', fontSize: '13px', fontWeight: 600, cursor: 'pointer',
+              }}
+            >
+              Registered · Unregister
+            </button>
+          ) : (
+            <button
+              onClick={() => openMultiTableDialog(tournament)}
+              disabled={!canRegister}
+              style={{
+                padding: '8px 14px',
+                background: 'linear-gradient(135deg, #f59e0b, #d97706)',
+                border: 'none', borderRadius: '10px', color: '#fff',
+                fontSize: '13px', fontWeight: 600,
+                cursor: canRegister ? 'pointer' : 'not-allowed',
+                opacity: canRegister ? 1 : 0.5,
+              }}
+            >
+              Register
+            </button>
+          ))}
+          {tournamentTables.map(room => (
+            <button
+              key={room.id}
+              onClick={() => handleWatch(room.id)}
+              title="Watch this table"
+              style={{
+                padding: '8px 12px',
+                background: 'rgba(255,255,255,0.06)',
+                border: '1px solid rgba(250,204,21,0.25)',
+                borderRadius: '10px',
+                color: 'rgba(255,255,255,0.7)',
+                fontSize: '12px', fontWeight: 600, cursor: 'pointer',
+              }}
+            >
+              👁 {(room.displayName || room.id).replace(`${tournament.name} · `, '')} ({room.playerCount})
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTournamentCard = (room: TournamentListItem) => {
+    const t = room.tournament;
+    if (!t) return null;
+    const status = STATUS_LABELS[t.status];
+    const canRegister = t.status === 'REGISTERING' && room.playerCount < room.maxPlayers;
+
+    return (
+      <div key={room.id} style={{ display: 'flex', gap: '8px', alignItems: 'stretch' }}>
+        <button
+          onClick={() => openSitAndGoDialog(room)}
+          disabled={!canRegister}
+          style={{
+            padding: '20px',
+            background: 'rgba(250,204,21,0.08)',
+            border: '1px solid rgba(250,204,21,0.25)',
+            borderRadius: '14px',
+            color: '#fff',
+            cursor: canRegister ? 'pointer' : 'not-allowed',
+            textAlign: 'left',
+            opacity: canRegister ? 1 : 0.6,
+            width: '100%',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+            <div>
+              <div style={{ fontSize: '17px', fontWeight: 700 }}>
+                {room.displayName || room.id}
+              </div>
+              <div style={{ fontSize: '13px', color: 'rgba(255,255,255,0.5)', marginTop: '4px' }}>
+                Buy-in {t.buyIn.toLocaleString()} · Stack {t.startingStack.toLocaleString()}
+              </div>
+              <div style={{ fontSize: '13px', color: 'rgba(255,255,255,0.5)', marginTop: '2px' }}>
+                {t.status === 'RUNNING'
+                  ? `Level ${t.levelIndex + 1} · Blinds ${room.blinds}`
+                  : `Prize pool ${t.prizePool.toLocaleString()}`}
+              </div>
+            </div>
+            <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '4px' }}>
+              <div style={{
+                padding: '4px 10px', borderRadius: '20px',
+                background: status.bg, color: status.color,
+                fontSize: '12px', fontWeight: 600,
+              }}>
+                {status.label} {room.playerCount}/{room.maxPlayers}
+              </div>
+              {room.spectatorCount > 0 && (
+                <span style={{ color: 'rgba(255,255,255,0.5)', fontSize: '11px' }} title="Spectators">
+                  👁 {room.spectatorCount}
+                </span>
+              )}
+            </div>
+          </div>
+        </button>
+        <button
+          onClick={() => handleWatch(room.id)}
+          disabled={room.playerCount === 0}
+          title="Watch without registering"
+          style={{
+            padding: '0 14px',
+            background: 'rgba(255,255,255,0.06)',
+            border: '1px solid rgba(250,204,21,0.25)',
+            borderRadius: '14px',
+            color: 'rgba(255,255,255,0.7)',
+            fontSize: '13px', fontWeight: 600,
+            cursor: room.playerCount === 0 ? 'not-allowed' : 'pointer',
+            opacity: room.playerCount === 0 ? 0.4 : 1,
+          }}
+        >
+          Watch
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      background: 'linear-gradient(135deg, #0a1628 0%, #1a2a4a 50%, #0d1f3c 100%)',
+      padding: '20px',
+    }}>
+      {/* Header */}
+      <div style={{
+        display: 'flex', alignItems: 'center', gap: '12px',
+        marginBottom: '30px', maxWidth: '500px', margin: '0 auto 30px',
+      }}>
+        <button
+          onClick={onBack}
+          style={{
+            background: 'rgba(255,255,255,0.1)', border: 'none', borderRadius: '10px',
+            padding: '10px 14px', color: '#fff', fontSize: '14px', cursor: 'pointer',
+          }}
+        >
+          Back
+        </button>
+        <h1 style={{ color: '#fff', fontSize: '22px', fontWeight: 700, margin: 0 }}>
+          Tournaments
+        </h1>
+      </div>
+
+      <div style={{ maxWidth: '500px', margin: '0 auto' }}>
+        {/* Return to previous seat */}
+        {resumeName && (
+          <button
+            onClick={handleResume}
+            disabled={joining}
+            style={{
+              width: '100%', marginBottom: '20px', padding: '14px',
+              background: 'rgba(16,185,129,0.15)', border: '1px solid rgba(16,185,129,0.4)',
+              borderRadius: '14px', color: '#34d399', fontSize: '14px', fontWeight: 600,
+              cursor: 'pointer',
+            }}
+          >
+            Return to your seat · {resumeName}
+          </button>
+        )}
+
+        {/* Multi-table Section */}
+        {tournaments.length > 0 && (
+          <div style={{ marginBottom: '30px' }}>
+            <h2 style={{
+              color: 'rgba(255,255,255,0.6)', fontSize: '13px', fontWeight: 600,
+              textTransform: 'uppercase', letterSpacing: '1px', marginBottom: '12px',
+            }}>
+              Multi-Table
+            </h2>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+              {tournaments.map(renderMultiTableCard)}
+            </div>
+          </div>
+        )}
+
+        {/* Sit & Go Section */}
+        {rooms.length > 0 && (
+          <div style={{ marginBottom: '30px' }}>
+            <h2 style={{
+              color: 'rgba(255,255,255,0.6)', fontSize: '13px', fontWeight: 600,
+              textTransform: 'uppercase', letterSpacing: '1px', marginBottom: '12px',
+            }}>
+              Sit &amp; Go
+            </h2>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+              {rooms.map(renderTournamentCard)}
+            </div>
+          </div>
+        )}
+
+        {rooms.length === 0 && tournaments.length === 0 && (
+          <div style={{
+            textAlign: 'center', padding: '60px 20px',
+            color: 'rgba(255,255,255,0.4)',
+          }}>
+            <div style={{ fontSize: '40px', marginBottom: '12px' }}>🏆</div>
+            <p>No tournaments available</p>
+          </div>
+        )}
+      </div>
+
+      {/* Register Dialog */}
+      {registerDialog && (
+        <div style={{
+          position: 'fixed', inset: 0,
+          background: 'rgba(0,0,0,0.7)', backdropFilter: 'blur(4px)',
+          display: 'flex', alignItems: 'center', justifyContent: 'center',
+          zIndex: 1000, padding: '20px',
+        }}>
+          <div style={{
+            background: '#1a2a4a', borderRadius: '20px',
+            border: '1px solid rgba(255,255,255,0.1)',
+            padding: '30px', width: '100%', maxWidth: '360px',
+            boxShadow: '0 20px 60px rgba(0,0,0,0.5)',
+          }}>
+            <h3 style={{ color: '#fff', margin: '0 0 4px', fontSize: '18px' }}>
+              {registerDialog.title}
+            </h3>
+            <p style={{ color: 'rgba(255,255,255,0.4)', margin: '0 0 20px', fontSize: '13px' }}>
+              {registerDialog.subtitle}
+            </p>
+
+            <div style={{
+              display: 'flex', justifyContent: 'space-between',
+              color: 'rgba(255,255,255,0.6)', fontSize: '14px', marginBottom: '8px',
+            }}>
+              <span>Buy-in</span>
+              <span style={{ color: '#fff', fontWeight: 700 }}>{registerDialog.buyIn.toLocaleString()}</span>
+            </div>
+            <div style={{
+              display: 'flex', justifyContent: 'space-between',
+              color: 'rgba(255,255,255,0.6)', fontSize: '14px', marginBottom: '20px',
+            }}>
+              <span>Starting stack</span>
+              <span style={{ color: '#fff', fontWeight: 700 }}>{registerDialog.startingStack.toLocaleString()}</span>
+            </div>
+
+            {/* Actions */}
+            <div style={{ display: 'flex', gap: '10px' }}>
+              <button
+                onClick={() => setRegisterDialog(null)}
+                style={{
+                  flex: 1, padding: '14px', background: 'rgba(255,255,255,0.1)',
+                  border: 'none', borderRadius: '10px', color: 'rgba(255,255,255,0.7)',
+                  fontSize: '15px', cursor: 'pointer',
+                }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRegister}
+                disabled={joining}
+                style={{
+                  flex: 2, padding: '14px',
+                  background: 'linear-gradient(135deg, #f59e0b, #d97706)',
+                  border: 'none', borderRadius: '10px', color: '#fff',
+                  fontSize: '15px', fontWeight: 600, cursor: joining ? 'wait' : 'pointer',
+                  opacity: joining ? 0.6 : 1,
+                }}
+              >
+                {joining ? 'Registering...' : 'Register'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -17,17 +17,29 @@ export interface Player {
   pendingJoin?: boolean;
   pendingSitOut?: boolean;
   disconnected?: boolean;
+  straddleNextHand?: boolean;  // ストラドル希望トグル
+  clientSeed?: string;         // Provably Fair: 自分のクライアントシード（他人の分は送られない）
+  resumeToken?: string;        // 再接続・サーバー再起動後に席へ戻るためのトークン（自分の分のみ）
+  botStyle?: 'tight' | 'loose' | 'calling-station';  // ヒューリスティックBOT（OFC以外）のプレイスタイル
+  apiBot?: boolean;            // 外部BOT API で接続しているプログラム
 }
 
 // ゲーム状態
 export interface GameState {
-  status: 'WAITING' | 'PLAYING' | 'PAUSED' | 'OFC_INITIAL_PLACING' | 'OFC_PINEAPPLE_PLACING' | 'OFC_SCORING';
+  status: 'WAITING' | 'PLAYING' | 'PAUSED' | 'VANISH' | 'OFC_INITIAL_PLACING' | 'OFC_PINEAPPLE_PLACING' | 'OFC_SCORING';
   gameVariant: string;
+  betStructure?: BetStructure;  // ベット構造の上書き（"NLH@fixed" 等）
   pot: {
     main: number;
     side: { amount: number; eligible?: string[] }[];
   };
   board: string[];
+  board2?: string[];   // ダブルボード（PLO_DB）
+  runBoards?: string[][];  // Run it Twice/3 Times: ランごとのボード
+  antes?: { playerId: string; playerName: string; amount: number }[];  // このハンドのアンティ
+  straddles?: { playerId: string; playerName: string; amount: number }[];  // このハンドのストラドル
+  fairness?: FairnessCommitment;  // Provably Fair: このハンドのシードのコミットメント
+  nextFairnessCommitment?: string;  // Provably Fair: 次のハンドのシードのコミットメント（クライアントシードの確定前に公開）
   currentBet: number;
   minRaise: number;
   handNumber: number;
@@ -35,13 +47,27 @@ export interface GameState {
 
 // 部屋設定
 export interface RoomConfig {
-  maxPlayers: 6 | 8;
+  maxPlayers: number;  // 2〜8（座席レイアウトは getSeatLayoutSize で6人用/8人用に丸める）
   smallBlind: number;
   bigBlind: number;
   buyInMin: number;
   buyInMax: number;
   allowedGames?: string[];
   password?: string;
+  straddlePolicy?: 'none' | 'utg' | 'button' | 'mississippi';
+  maxStraddles?: number;
+  rake?: RakePolicy;
+  spectatorHoleCardDelay?: number;  // 観戦者に手札を公開するディレイ（秒）。未指定なら観戦者には見せない
+  recordChat?: boolean;             // チャットをハンド履歴に保存
+}
+
+// レーキ設定
+export interface RakePolicy {
+  percent: number;
+  cap?: number;
+  capsByPlayers?: { minPlayers: number; cap: number }[];
+  noFlopNoDrop?: boolean;
+  noDropOnFirstStreet?: boolean;  // Stud: 3rd Street / Draw: 最初のドロー前
 }
 
 // 保留設定変更
@@ -73,9 +99,53 @@ export interface MetaGameState {
   sevenDeuce: boolean;
 }
 
+// Sit & Go のブラインドレベル
+export interface BlindLevel {
+  smallBlind: number;
+  bigBlind: number;
+  ante?: number;
+  bringIn?: number;
+  durationSec: number;
+}
+
+// Sit & Go の確定順位（敗退順、優勝者が最後）
+export interface TournamentPlacement {
+  place: number;
+  name: string;
+  prize: number;
+  handNumber: number;
+  finishedAt: number;
+}
+
+export type TournamentStatus = 'REGISTERING' | 'RUNNING' | 'FINISHED';
+
+// トーナメントの進行状態（Sit & Go / マルチテーブル）
+export interface TournamentState {
+  id: string;
+  status: TournamentStatus;
+  config: {
+    buyIn: number;
+    startingStack: number;
+    levels: BlindLevel[];
+    payouts: number[];  // 順位別の配当率（%）
+  };
+  entrants: number;
+  prizePool: number;
+  payouts: number[];    // 順位別の賞金額（開始時に確定）
+  levelIndex: number;
+  levelEndsAt: number | null;  // 次のレベルに上がる時刻（最終レベルは null）
+  placements: TournamentPlacement[];
+  // マルチテーブルトーナメントのみ
+  name?: string;
+  tableIds?: string[];
+  handForHand?: boolean;
+  finalTable?: boolean;
+}
+
 // 部屋情報
 export interface Room {
   id: string;
+  displayName?: string;  // プリセット・トーナメント卓の表示名
   hostId?: string;
   config: RoomConfig;
   players: (Player | null)[];
@@ -87,6 +157,9 @@ export interface Room {
   metaGame: MetaGameState;
   pendingConfig?: PendingConfigChange;
   ofcState?: OFCPublicState;
+  rakeStats?: { total: number; hands: number };  // 部屋の累計レーキ
+  chatMuted?: string[];  // ホストにミュートされたプレイヤー（socketId）
+  tournament?: TournamentState;  // トーナメント卓のみ
 }
 
 // アクションタイプ
@@ -128,6 +201,47 @@ export interface ShowdownResult {
     hand: string[];
     handRank: string;
   }[];
+  // ダブルボード: ボードごとの勝者
+  boardResults?: {
+    board: string[];
+    winners: {
+      playerId: string;
+      playerName: string;
+      handRank: string;
+      amount: number;
+      qualifyingHoleCards?: string[];
+      qualifyingBoardCards?: string[];
+    }[];
+  }[];
+  // Run it Twice/3 Times: ランごとの勝者
+  runResults?: {
+    board: string[];
+    winners: {
+      playerId: string;
+      playerName: string;
+      handRank: string;
+      amount: number;
+      qualifyingHoleCards?: string[];
+      qualifyingBoardCards?: string[];
+    }[];
+  }[];
+  rake?: number;  // 分配前にポットから徴収したレーキ
+}
+
+// Run it Twice/3 Times 投票
+export interface RunItVoteRequest {
+  voters: string[];
+  maxRuns: number;
+  timeout: number;
+}
+
+// オールイン時のエクイティ（%）
+export interface AllInEquity {
+  playerId: string;
+  win: number;
+  tie: number;
+  scoop: number;
+  equity: number;
 }
 
 // TablePropsの型定義
@@ -231,3 +345,104 @@ export interface ActionPanelProps {
   raisesRemaining?: number;
   fixedBetSize?: number;
 }
+
+// ========================================
+// ハンド履歴（リプレイヤー用、サーバーの HandHistory と同じ形）
+// ========================================
+
+// ハンド履歴の参加者（閲覧者が見られないカードは空文字）
+export interface HandHistoryPlayer {
+  playerId: string;
+  userId?: string;
+  name: string;
+  seatIndex: number;
+  startingStack: number;
+  endingStack: number;
+  holeCards: string[];
+  shownCards: string[] | null;
+  handRank?: string;
+  totalBet: number;
+  amountWon: number;
+  rakePaid: number;
+}
+
+// ハンド履歴のアクション
+export interface HandActionRecord {
+  playerId: string;
+  playerName: string;
+  seatIndex: number;
+  street: string;
+  type: ActionType | 'POST_SB' | 'POST_BB' | 'ANTE' | 'STRADDLE' | 'BRING_IN' | 'DRAW' | 'VANISH' | 'PLACE';
+  amount?: number;
+  betTo?: number;
+  cards?: string[];     // DRAW: 捨て札 / VANISH: 消したカード
+  received?: string[];  // DRAW: 引いたカード
+  timestamp: number;
+}
+
+// 保存済みハンド
+export interface HandHistory {
+  id: string;
+  roomId: string;
+  handNumber: number;
+  gameVariant: string;
+  betStructure?: BetStructure;
+  smallBlind: number;
+  bigBlind: number;
+  maxPlayers: number;
+  buttonSeat: number;
+  startedAt: number;
+  endedAt: number;
+  players: HandHistoryPlayer[];
+  actions: HandActionRecord[];
+  board: string[];
+  board2?: string[];
+  runBoards?: string[][];
+  pots: { amount: number; eligiblePlayers: string[] }[];
+  rake: number;
+  winners: { playerId: string; amount: number; handRank: string }[];
+  fairness?: FairnessCommitment | FairnessReveal;  // サーバーシードは卓を離れた参加者にだけ含まれる
+  chat?: ChatMessage[];
+}
+
+// リプレイに必要なゲーム情報（GET /api/hands/:id の variant）
+export interface HandVariantInfo {
+  name: string;
+  communityCardType: 'flop' | 'stud' | 'none';
+  boardPattern: number[];
+  holeCardCount: number;
+}
+
+// ハンド一覧の1行（GET /api/hands）
+export interface HandSummary {
+  id: string;
+  roomId: string;
+  handNumber: number;
+  gameVariant: string;
+  bigBlind: number;
+  startedAt: number;
+  netResult: number;
+}
+
+// Provably Fair: ハンド開始時に公開されるコミットメント
+export interface FairnessCommitment {
+  commitment: string;   // SHA-256(serverSeed) の16進
+  clientSeed: string;   // 参加プレイヤーのクライアントシード（席順に '|' で連結）
+  nonce: number;        // ハンド番号
+  deckType: 'standard' | 'short' | 'ofc';
+}
+
+// Provably Fair: 参加者が卓を離れてからハンド履歴で公開されるシード
+export interface FairnessReveal extends FairnessCommitment {
+  serverSeed: string;
+}
+
+// テーブルチャット（ディーラーメッセージも同じストリーム）
+export interface ChatMessage {
+  id: string;
+  kind: 'player' | 'dealer';
+  playerId?: string;
+  playerName: string;
+  text: string;
+  timestamp: number;
+}
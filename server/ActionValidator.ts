@@ -107,7 +107,7 @@ export class ActionValidator {
         const currentBet = room.gameState.currentBet;
         const playerBet = player.bet;
         const stack = player.stack;
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
 
         const callAmount = Math.max(0, currentBet - playerBet);
 
@@ -147,7 +147,7 @@ export class ActionValidator {
      */
     getMinBet(room: Room, player: Player): number {
         const currentBet = room.gameState.currentBet;
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
         const minRaise = room.gameState.minRaise;
 
         if (variantConfig.betStructure === 'fixed') {
@@ -176,7 +176,7 @@ export class ActionValidator {
         const smallBet = room.config.bigBlind;
         const bigBet = smallBet * 2;
         const phase = room.gameState.status;
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
 
         if (variantConfig.communityCardType === 'stud') {
             if (phase === 'FIFTH_STREET' || phase === 'SIXTH_STREET' || phase === 'SEVENTH_STREET') {
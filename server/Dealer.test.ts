@@ -5,6 +5,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { Dealer } from './Dealer.js';
+import { DECK_COMPOSITIONS } from './gameVariants.js';
 import type { Room, Player, PlayerStatus } from './types.js';
 
 // Helper: テスト用プレイヤー作成
@@ -94,6 +95,13 @@ describe('Dealer - Deck Management (B-01)', () => {
         expect(suits.has('♣')).toBe(true);
     });
 
+    it('createDeck: ショートデッキは2〜5を除いた36枚', () => {
+        const deck = dealer.createDeck(DECK_COMPOSITIONS.short);
+        expect(deck.length).toBe(36);
+        expect(new Set(deck).size).toBe(36);
+        expect(deck.some(card => ['2', '3', '4', '5'].includes(card[0]))).toBe(false);
+    });
+
     it('createDeck: シャッフルされている（毎回異なる順序）', () => {
         const deck1 = dealer.createDeck();
         const deck2 = dealer.createDeck();
@@ -291,6 +299,66 @@ describe('Dealer - Button and Blinds (B-04)', () => {
     });
 });
 
+describe('Dealer - Antes', () => {
+    const dealer = new Dealer();
+
+    it('collectAntes: BBアンティはBBだけがデッドマネーとして支払う', () => {
+        const players = [
+            createPlayer('p0', 'Player0', 100),
+            createPlayer('p1', 'Player1', 100),
+            createPlayer('p2', 'Player2', 100)
+        ];
+        const room = createRoom(players);
+        room.dealerBtnIndex = 0;
+
+        const positions = dealer.getBlindPositions(room);
+        const antes = dealer.collectAntes(room, 'bb-ante', 10, positions.bbIndex);
+        dealer.collectBlinds(room, positions);
+
+        expect(antes).toEqual([{ playerId: 'p2', playerName: 'Player2', amount: 10 }]);
+        expect(players[2]!.stack).toBe(80);
+        expect(players[2]!.deadAnte).toBe(10);
+        expect(players[2]!.totalBet).toBe(10); // BBのみ（アンティは含まない）
+        expect(room.gameState.pot.main).toBe(25);
+    });
+
+    it('collectAntes: アンティだけでオールインでもブラインド位置は変わらない', () => {
+        const players = [
+            createPlayer('p0', 'Player0', 100),
+            createPlayer('p1', 'Player1', 100),
+            createPlayer('p2', 'Player2', 8)
+        ];
+        const room = createRoom(players);
+        room.dealerBtnIndex = 0;
+
+        const positions = dealer.getBlindPositions(room);
+        dealer.collectAntes(room, 'bb-ante', 10, positions.bbIndex);
+        const { sbIndex, bbIndex } = dealer.collectBlinds(room, positions);
+
+        expect(sbIndex).toBe(1);
+        expect(bbIndex).toBe(2);
+        expect(players[2]!.stack).toBe(0);
+        expect(players[2]!.status).toBe('ALL_IN');
+        expect(players[2]!.deadAnte).toBe(8);
+        expect(players[2]!.bet).toBe(0);
+    });
+
+    it('collectAntes: 通常のアンティは全員が支払いtotalBetに含める', () => {
+        const players = [
+            createPlayer('p0', 'Player0', 100),
+            createPlayer('p1', 'Player1', 100),
+            createPlayer('p2', 'Player2', 100)
+        ];
+        const room = createRoom(players);
+
+        const antes = dealer.collectAntes(room, 'ante', 2);
+
+        expect(antes).toHaveLength(3);
+        expect(players.every(p => p!.stack === 98 && p!.totalBet === 2)).toBe(true);
+        expect(room.gameState.pot.main).toBe(6);
+    });
+});
+
 describe('Dealer - Stud Bring-In (V-ST1)', () => {
     const dealer = new Dealer();
 
@@ -492,6 +560,19 @@ describe('Dealer - Draw Exchange (V-27, V-BAD)', () => {
         // 手札は変わらない
         expect(player.hand).toEqual(originalHand);
     });
+
+    it('exchangeDrawCards: 山札が足りなければ捨て札でリシャッフル（自分の捨て札は戻らない）', () => {
+        const deck = ['2♥'];
+        const discardPile = ['3♥', '4♥'];
+        const player = createPlayer('p0', 'Player0', 100, ['A♠', 'K♠', 'Q♠', 'J♠', 'T♠']);
+
+        dealer.exchangeDrawCards(deck, player, [0, 1, 2], discardPile);
+
+        expect(player.hand!.length).toBe(5);
+        expect([...player.hand!].sort()).toEqual(['2♥', '3♥', '4♥', 'J♠', 'T♠'].sort());
+        expect(deck.length).toBe(0);
+        expect([...discardPile].sort()).toEqual(['A♠', 'K♠', 'Q♠'].sort());
+    });
 });
 
 describe('Dealer - Utility Methods', () => {
@@ -4,19 +4,35 @@
  */
 
 import type { Room, Player } from './types.js';
+import { DECK_COMPOSITIONS, type DeckComposition } from './gameVariants.js';
+import { secureRandom, shuffleDeck, type RandomSource } from './fairness/random.js';
 
 export class Dealer {
-    // カードデッキ（スート×13ランク = 52枚）
-    private readonly SUITS = ['♠', '♥', '♦', '♣'];
-    private readonly RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
+    // シャッフル用の乱数ソース（ハンドごとに Provably Fair のシード由来のものに差し替える）
+    private random: RandomSource;
 
     /**
-     * 52枚のデッキを生成してシャッフル
+     * @param random シャッフル用の乱数ソース（テストでは固定シードのものを渡すと再現できる）
      */
-    createDeck(): string[] {
+    constructor(random: RandomSource = secureRandom) {
+        this.random = random;
+    }
+
+    /**
+     * シャッフルに使う乱数ソースを設定（ドローのリシャッフルも同じ乱数列を使う）
+     */
+    setRandom(random: RandomSource): void {
+        this.random = random;
+    }
+
+    /**
+     * デッキを生成してシャッフル
+     * @param composition デッキ構成（デフォルト: 52枚、ショートデッキは36枚）
+     */
+    createDeck(composition: DeckComposition = DECK_COMPOSITIONS.standard): string[] {
         const deck: string[] = [];
-        for (const suit of this.SUITS) {
-            for (const rank of this.RANKS) {
+        for (const suit of composition.suits) {
+            for (const rank of composition.ranks) {
                 deck.push(rank + suit);
             }
         }
@@ -27,12 +43,7 @@ export class Dealer {
      * Fisher-Yatesアルゴリズムでシャッフル
      */
     private shuffle(deck: string[]): string[] {
-        const shuffled = [...deck];
-        for (let i = shuffled.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-        }
-        return shuffled;
+        return shuffleDeck(deck, this.random);
     }
 
     /**
@@ -191,13 +202,13 @@ export class Dealer {
     }
 
     /**
-     * スモールブラインドとビッグブラインドを徴収
+     * このハンドのSB/BBの位置を決定（徴収はしない）
+     * アンティでオールインになったプレイヤーがいても位置がずれないよう、アンティ徴収前に呼ぶ
      * @param room 部屋
      * @returns {sbIndex, bbIndex} SBとBBのプレイヤーインデックス
      */
-    collectBlinds(room: Room): { sbIndex: number; bbIndex: number } {
+    getBlindPositions(room: Room): { sbIndex: number; bbIndex: number } {
         const dealerIndex = room.dealerBtnIndex;
-        const maxPlayers = room.config.maxPlayers;
 
         // アクティブなプレイヤー数を数える
         const activePlayers = room.players.filter(p =>
@@ -237,6 +248,21 @@ export class Dealer {
             bbIndex = this.getNextBlindPlayer(room, sbIndex, true);
         }
 
+        return { sbIndex, bbIndex };
+    }
+
+    /**
+     * スモールブラインドとビッグブラインドを徴収
+     * @param room 部屋
+     * @param positions SB/BBの位置（省略時はここで決定）
+     * @returns {sbIndex, bbIndex} SBとBBのプレイヤーインデックス
+     */
+    collectBlinds(
+        room: Room,
+        positions: { sbIndex: number; bbIndex: number } = this.getBlindPositions(room)
+    ): { sbIndex: number; bbIndex: number } {
+        const { sbIndex, bbIndex } = positions;
+
         // ブラインド徴収
         const sbPlayer = room.players[sbIndex];
         const bbPlayer = room.players[bbIndex];
@@ -252,14 +278,14 @@ export class Dealer {
         const sbAmount = Math.min(sbPlayer.stack, sb);
         sbPlayer.stack -= sbAmount;
         sbPlayer.bet = sbAmount;
-        sbPlayer.totalBet = sbAmount;
+        sbPlayer.totalBet += sbAmount;
         room.gameState.pot.main += sbAmount;
 
         // BB徴収
         const bbAmount = Math.min(bbPlayer.stack, bb);
         bbPlayer.stack -= bbAmount;
         bbPlayer.bet = bbAmount;
-        bbPlayer.totalBet = bbAmount;
+        bbPlayer.totalBet += bbAmount;
         room.gameState.pot.main += bbAmount;
 
         // BB待ちのプレイヤーはここで参加扱いにする
@@ -282,6 +308,77 @@ export class Dealer {
         return { sbIndex, bbIndex };
     }
 
+    /**
+     * アンティを徴収（ブラインドより先に徴収するデッドマネー）
+     * - ante: 参加者全員が anteAmount ずつ（サイドポットのレベル計算に含める）
+     * - bb-ante / button-ante: BB/ボタンが1人で anteAmount を支払う（全員が獲得可能なデッドマネー）
+     * @param room 部屋
+     * @param anteType アンティ方式
+     * @param anteAmount アンティ額
+     * @param payerIndex bb-ante / button-ante の支払いプレイヤーのインデックス
+     * @returns 徴収したアンティの一覧
+     */
+    collectAntes(
+        room: Room,
+        anteType: 'ante' | 'bb-ante' | 'button-ante',
+        anteAmount: number,
+        payerIndex: number = -1
+    ): { playerId: string; playerName: string; amount: number }[] {
+        const antes: { playerId: string; playerName: string; amount: number }[] = [];
+
+        const payers = anteType === 'ante'
+            ? room.players.filter(p => p !== null && p.stack > 0 && p.status === 'ACTIVE') as Player[]
+            : [room.players[payerIndex]].filter(p => p != null && p.stack > 0) as Player[];
+
+        for (const player of payers) {
+            const amount = Math.min(player.stack, anteAmount);
+            player.stack -= amount;
+            room.gameState.pot.main += amount;
+
+            if (anteType === 'ante') {
+                player.totalBet += amount;
+            } else {
+                player.deadAnte = amount;
+            }
+
+            if (player.stack === 0 && player.status === 'ACTIVE') {
+                player.status = 'ALL_IN';
+            }
+
+            antes.push({ playerId: player.socketId, playerName: player.name, amount });
+        }
+
+        if (antes.length > 0) {
+            console.log(`💰 Antes collected (${anteType}): ${antes.map(a => `${a.playerName}=${a.amount}`).join(', ')}`);
+        }
+
+        return antes;
+    }
+
+    /**
+     * ストラドルを投稿（ライブブラインドとしてbet/totalBetに計上）
+     * @returns 投稿された額
+     */
+    postStraddle(room: Room, playerIndex: number, amount: number): number {
+        const player = room.players[playerIndex];
+        if (!player) {
+            throw new Error('Straddle position not found');
+        }
+
+        const posted = Math.min(player.stack, amount);
+        player.stack -= posted;
+        player.bet += posted;
+        player.totalBet += posted;
+        room.gameState.pot.main += posted;
+
+        if (player.stack === 0) {
+            player.status = 'ALL_IN';
+        }
+
+        console.log(`💰 Straddle posted: ${player.name}=${posted} (seat ${playerIndex})`);
+        return posted;
+    }
+
     /**
      * アクティブプレイヤー数を取得
      */
@@ -511,16 +608,32 @@ export class Dealer {
         console.log(`🎴 Dealt Stud street: ${isLastStreet ? 'down card' : 'up card'}`);
     }
 
+    /**
+     * スタッド用コミュニティカード配布（山札切れ時の7th Street代替）
+     */
+    dealStudCommunityCard(deck: string[]): string {
+        if (deck.length === 0) throw new Error('Deck is empty');
+        return deck.shift()!;
+    }
+
     /**
      * ドロー交換処理
      * @param deck デッキ
      * @param player プレイヤー
      * @param discardIndexes 捨てるカードのインデックス配列
+     * @param discardPile これまでの捨て札（山札が足りない時にリシャッフル、省略時はリシャッフルなし）
      */
-    exchangeDrawCards(deck: string[], player: Player, discardIndexes: number[]): void {
+    exchangeDrawCards(deck: string[], player: Player, discardIndexes: number[], discardPile?: string[]): void {
         if (!player.hand) return;
 
         const discardCount = discardIndexes.length;
+
+        // 山札が足りなければ捨て札と合わせてリシャッフル（今回の自分の捨て札は含めない）
+        if (discardPile && deck.length < discardCount) {
+            const reshuffled = this.reshuffleIfNeeded(deck, discardPile, discardCount);
+            deck.splice(0, deck.length, ...reshuffled);
+        }
+
         if (deck.length < discardCount) {
             throw new Error('Not enough cards for draw exchange');
         }
@@ -531,7 +644,8 @@ export class Dealer {
         // Remove discarded cards
         for (const idx of sortedIndexes) {
             if (idx >= 0 && idx < player.hand.length) {
-                player.hand.splice(idx, 1);
+                const [discarded] = player.hand.splice(idx, 1);
+                discardPile?.push(discarded);
             }
         }
 
@@ -544,6 +658,20 @@ export class Dealer {
         console.log(`🔄 ${player.name} exchanged ${discardCount} cards`);
     }
 
+    /**
+     * Cry Me a River: 手札を消失させる（補充なし）
+     * @param player プレイヤー
+     * @param discardIndexes 消失させるカードのインデックス配列
+     */
+    vanishCards(player: Player, discardIndexes: number[]): void {
+        if (!player.hand) return;
+
+        const discardSet = new Set(discardIndexes);
+        player.hand = player.hand.filter((_, idx) => !discardSet.has(idx));
+
+        console.log(`💧 ${player.name} vanished ${discardSet.size} cards`);
+    }
+
     /**
      * リシャッフル（Pattern C: 高度なアルゴリズム）
      * デッキが不足した場合、ディスカードパイルとスタブを合わせてリシャッフル
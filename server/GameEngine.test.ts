@@ -5,6 +5,7 @@
 
 import { describe, it, expect } from 'vitest';
 import { GameEngine } from './GameEngine.js';
+import { applyGameId, isValidGameId } from './gameVariants.js';
 import type { Room, Player, PlayerStatus } from './types.js';
 
 function createPlayer(
@@ -121,6 +122,47 @@ describe('GameEngine - Fixed Limit Min Bet', () => {
     });
 });
 
+describe('GameEngine - Bet Structure Override', () => {
+    it('NLH@fixed はフィックスドリミットとしてベット額が決まる', () => {
+        const engine = new GameEngine();
+        const player0 = createPlayer('p0', 1000, 0, 'ACTIVE');
+        const room = createRoom([player0], 'NLH', 'TURN');
+        applyGameId(room.gameState, 'NLH@fixed');
+        room.gameState.currentBet = 0;
+
+        const info = engine.getBettingInfo(room, 'p0');
+        expect(info.betStructure).toBe('fixed');
+        expect(info.fixedBetSize).toBe(20);
+        expect(info.minBet).toBe(20);
+        expect(info.maxBet).toBe(20);
+    });
+
+    it('BADUGI@pot-limit はポットリミットで最大額を計算する', () => {
+        const engine = new GameEngine();
+        const player0 = createPlayer('p0', 1000, 0, 'ACTIVE');
+        const room = createRoom([player0], 'BADUGI', 'FIRST_DRAW');
+        applyGameId(room.gameState, 'BADUGI@pot-limit');
+        room.gameState.currentBet = 0;
+        room.gameState.minRaise = 10;
+        room.gameState.pot.main = 60;
+
+        const info = engine.getBettingInfo(room, 'p0');
+        expect(info.betStructure).toBe('pot-limit');
+        expect(info.maxBet).toBe(60);
+    });
+
+    it('構造指定なしのゲームIDに戻すと上書きは解除される', () => {
+        const room = createRoom([createPlayer('p0', 1000, 0, 'ACTIVE')], 'NLH', 'WAITING');
+        applyGameId(room.gameState, 'PLO@no-limit');
+        expect(room.gameState).toMatchObject({ gameVariant: 'PLO', betStructure: 'no-limit' });
+
+        applyGameId(room.gameState, 'NLH');
+        expect(room.gameState.gameVariant).toBe('NLH');
+        expect(room.gameState.betStructure).toBeUndefined();
+        expect(isValidGameId('NLH@spread-limit')).toBe(false);
+    });
+});
+
 describe('GameEngine - Join/Disconnect Flags', () => {
     function normalizePlayers(players: (Player | null)[]): (Player | null)[] {
         const padded = [...players];
@@ -243,3 +285,377 @@ describe('GameEngine - Join/Disconnect Flags', () => {
         expect(player.status).toBe('SIT_OUT');
     });
 });
+
+describe('GameEngine - Double Board', () => {
+    it('PLO_DB: フロップで2枚のボードにそれぞれ3枚配る', () => {
+        const engine = new GameEngine();
+        const players: (Player | null)[] = [
+            createPlayer('p0', 1000, 0, 'ACTIVE'),
+            createPlayer('p1', 1000, 0, 'ACTIVE'),
+            createPlayer('p2', 1000, 0, 'ACTIVE'),
+            null, null, null
+        ];
+        const room = createRoom(players, 'PLO_DB', 'WAITING');
+        room.gameState.handNumber = 0;
+
+        expect(engine.startHand(room)).toBe(true);
+        expect(room.gameState.board2).toEqual([]);
+        expect(players[0]!.hand).toHaveLength(4);
+
+        engine.nextStreet(room);
+
+        expect(room.gameState.status).toBe('FLOP');
+        expect(room.gameState.board).toHaveLength(3);
+        expect(room.gameState.board2).toHaveLength(3);
+        const allBoardCards = [...room.gameState.board, ...room.gameState.board2!];
+        expect(new Set(allBoardCards).size).toBe(6);
+    });
+});
+
+describe('GameEngine - Dramaha Draw', () => {
+    it('リバーのベッティング後にDRAMAHA_DRAW、ドロー後のベッティングでショーダウン', () => {
+        const engine = new GameEngine();
+        const players: (Player | null)[] = [
+            createPlayer('p0', 1000, 0, 'ACTIVE'),
+            createPlayer('p1', 1000, 0, 'ACTIVE'),
+            null, null, null, null
+        ];
+        const room = createRoom(players, 'FL_DRAMAHA_HI', 'RIVER');
+        room.gameState.board = ['A♠', 'K♠', '7♦', '4♣', '2♥'];
+
+        engine.nextStreet(room);
+
+        expect(room.gameState.status).toBe('DRAMAHA_DRAW');
+        expect(room.gameState.isDrawPhase).toBe(true);
+
+        engine.markDrawComplete(room, 'p0');
+        engine.markDrawComplete(room, 'p1');
+        expect(engine.checkDrawPhaseComplete(room)).toBe(true);
+        expect(room.gameState.isDrawPhase).toBe(false);
+
+        engine.nextStreet(room);
+
+        expect(room.gameState.status).toBe('SHOWDOWN');
+    });
+});
+
+describe('GameEngine - Cry Me a River Vanish', () => {
+    it('リバーのベッティング後にVANISH、全員の消失完了でショーダウン', () => {
+        const engine = new GameEngine();
+        const players: (Player | null)[] = [
+            createPlayer('p0', 1000, 0, 'ACTIVE'),
+            createPlayer('p1', 1000, 0, 'ACTIVE'),
+            null, null, null, null
+        ];
+        const room = createRoom(players, 'PL_CMRIVER1', 'RIVER');
+        room.gameState.board = ['A♠', 'K♠', '7♦', '4♣', '2♥'];
+
+        engine.nextStreet(room);
+
+        expect(room.gameState.status).toBe('VANISH');
+        expect(room.gameState.isDrawPhase).toBe(true);
+
+        engine.markDrawComplete(room, 'p0');
+        expect(engine.checkVanishPhaseComplete(room)).toBe(false);
+
+        engine.markDrawComplete(room, 'p1');
+        expect(engine.checkVanishPhaseComplete(room)).toBe(true);
+        expect(room.gameState.status).toBe('SHOWDOWN');
+        expect(room.gameState.isDrawPhase).toBe(false);
+    });
+});
+
+describe('GameEngine - Antes', () => {
+    it('ボタンアンティはブラインドより先にボタンから徴収される', () => {
+        const engine = new GameEngine();
+        const players: (Player | null)[] = [
+            createPlayer('p0', 1000, 0, 'ACTIVE'),
+            createPlayer('p1', 1000, 0, 'ACTIVE'),
+            createPlayer('p2', 1000, 0, 'ACTIVE'),
+            null, null, null
+        ];
+        const room = createRoom(players, 'NLH', 'WAITING');
+        room.config.anteType = 'button-ante';
+        room.dealerBtnIndex = 2;
+
+        engine.startHand(room);
+
+        const button = room.players[room.dealerBtnIndex]!;
+        expect(button.deadAnte).toBe(room.config.bigBlind);
+        expect(room.gameState.antes).toEqual([
+            { playerId: button.socketId, playerName: button.name, amount: room.config.bigBlind }
+        ]);
+        expect(room.gameState.pot.main).toBe(room.config.bigBlind * 2 + room.config.smallBlind);
+    });
+
+    it('ゲーム設定のアンティ方式がデフォルトになる', () => {
+        const engine = new GameEngine();
+        const players: (Player | null)[] = [
+            createPlayer('p0', 1000, 0, 'ACTIVE'),
+            createPlayer('p1', 1000, 0, 'ACTIVE'),
+            null, null, null, null
+        ];
+        const room = createRoom(players, 'NL_27_SD_15A', 'WAITING');
+        room.config.anteAmount = 3;
+
+        engine.startHand(room);
+
+        expect(room.gameState.antes).toHaveLength(2);
+        expect(room.gameState.pot.main).toBe(6 + room.config.smallBlind + room.config.bigBlind);
+    });
+});
+
+describe('GameEngine - Short Deck', () => {
+    it('アンティのみでブラインドはなく、ボタンの次から行動する', () => {
+        const engine = new GameEngine();
+        const players: (Player | null)[] = [
+            createPlayer('p0', 1000, 0, 'ACTIVE'),
+            createPlayer('p1', 1000, 0, 'ACTIVE'),
+            createPlayer('p2', 1000, 0, 'ACTIVE'),
+            null, null, null
+        ];
+        const room = createRoom(players, 'SD_NLH', 'WAITING');
+        room.config.anteAmount = 5;
+        room.dealerBtnIndex = 2;
+
+        engine.startHand(room);
+
+        expect(room.gameState.antes).toHaveLength(3);
+        expect(room.gameState.pot.main).toBe(15);
+        expect(room.players.every(p => !p || p.bet === 0)).toBe(true);
+        expect(room.gameState.currentBet).toBe(0);
+        expect(room.activePlayerIndex).toBe(1);
+        expect(room.players[room.dealerBtnIndex]!.socketId).toBe('p0');
+        expect(engine.getValidActions(room, 'p1')).toEqual(expect.arrayContaining(['CHECK', 'BET']));
+    });
+
+    it('36枚のデッキから配る', () => {
+        const engine = new GameEngine();
+        const players: (Player | null)[] = [
+            createPlayer('p0', 1000, 0, 'ACTIVE'),
+            createPlayer('p1', 1000, 0, 'ACTIVE'),
+            null, null, null, null
+        ];
+        const room = createRoom(players, 'SD_NLH', 'WAITING');
+
+        engine.startHand(room);
+
+        const dealt = room.players.flatMap(p => p?.hand ?? []);
+        expect(dealt).toHaveLength(4);
+        expect(dealt.some(card => ['2', '3', '4', '5'].includes(card[0]))).toBe(false);
+    });
+});
+
+describe('GameEngine - Straddles', () => {
+    // ボタン=0, SB=1, BB=2, UTG=3 になるよう前ハンドのボタンを3に置く
+    const createStraddleRoom = (policy: 'utg' | 'button' | 'mississippi', straddlers: number[]): Room => {
+        const players: (Player | null)[] = [
+            createPlayer('p0', 1000, 0, 'ACTIVE'),
+            createPlayer('p1', 1000, 0, 'ACTIVE'),
+            createPlayer('p2', 1000, 0, 'ACTIVE'),
+            createPlayer('p3', 1000, 0, 'ACTIVE'),
+            null, null
+        ];
+        for (const index of straddlers) players[index]!.straddleNextHand = true;
+        const room = createRoom(players, 'NLH', 'WAITING');
+        room.config.straddlePolicy = policy;
+        room.dealerBtnIndex = 3;
+        return room;
+    };
+
+    const act = (engine: GameEngine, room: Room, type: 'FOLD' | 'CHECK' | 'CALL') => {
+        const playerId = room.players[room.activePlayerIndex]!.socketId;
+        const result = engine.processAction(room, { playerId, type, timestamp: Date.now() });
+        expect(result.success).toBe(true);
+    };
+
+    it('UTGストラドルはライブブラインドとして扱われ、ストラドラーが最後にオプションを持つ', () => {
+        const engine = new GameEngine();
+        const room = createStraddleRoom('utg', [3]);
+
+        engine.startHand(room);
+
+        expect(room.players[3]!.bet).toBe(20);
+        expect(room.gameState.currentBet).toBe(20);
+        expect(room.gameState.minRaise).toBe(20);
+        expect(room.gameState.straddles).toEqual([{ playerId: 'p3', playerName: 'p3', amount: 20 }]);
+        expect(room.activePlayerIndex).toBe(0);
+
+        act(engine, room, 'CALL');
+        act(engine, room, 'CALL');
+        act(engine, room, 'CALL');
+        expect(room.gameState.status).toBe('PREFLOP');
+        expect(room.activePlayerIndex).toBe(3);
+        expect(engine.getValidActions(room, 'p3')).toEqual(expect.arrayContaining(['CHECK', 'RAISE']));
+
+        act(engine, room, 'CHECK');
+        expect(room.gameState.status).toBe('FLOP');
+    });
+
+    it('UTGが希望していなければストラドルしない', () => {
+        const engine = new GameEngine();
+        const room = createStraddleRoom('utg', [0]);
+
+        engine.startHand(room);
+
+        expect(room.gameState.straddles).toEqual([]);
+        expect(room.gameState.currentBet).toBe(10);
+        expect(room.activePlayerIndex).toBe(3);
+    });
+
+    it('ミシシッピストラドル（ボタン）ではSBから行動しボタンが最後', () => {
+        const engine = new GameEngine();
+        const room = createStraddleRoom('mississippi', [0]);
+
+        engine.startHand(room);
+
+        expect(room.players[0]!.bet).toBe(20);
+        expect(room.activePlayerIndex).toBe(1);
+
+        act(engine, room, 'CALL');
+        act(engine, room, 'CALL');
+        act(engine, room, 'CALL');
+        expect(room.activePlayerIndex).toBe(0);
+        act(engine, room, 'CHECK');
+        expect(room.gameState.status).toBe('FLOP');
+    });
+
+    it('ダブルストラドルは直前の2倍で上限まで', () => {
+        const engine = new GameEngine();
+        const room = createStraddleRoom('utg', [3, 0]);
+        room.config.maxStraddles = 2;
+
+        engine.startHand(room);
+
+        expect(room.gameState.straddles!.map(s => s.amount)).toEqual([20, 40]);
+        expect(room.gameState.currentBet).toBe(40);
+        expect(room.gameState.minRaise).toBe(40);
+        expect(room.activePlayerIndex).toBe(1);
+    });
+
+    it('最初の行動者がフォールドしてもストラドラーのオプションは残る', () => {
+        const engine = new GameEngine();
+        const room = createStraddleRoom('utg', [3]);
+
+        engine.startHand(room);
+
+        act(engine, room, 'FOLD');
+        act(engine, room, 'CALL');
+        act(engine, room, 'CALL');
+        expect(room.gameState.status).toBe('PREFLOP');
+        expect(room.activePlayerIndex).toBe(3);
+
+        act(engine, room, 'CHECK');
+        expect(room.gameState.status).toBe('FLOP');
+    });
+});
+
+describe('GameEngine - Run it Twice', () => {
+    const startAllInHand = (gameVariant: string) => {
+        const engine = new GameEngine();
+        const room = createRoom([
+            createPlayer('p0', 100, 0, 'ACTIVE'),
+            createPlayer('p1', 100, 0, 'ACTIVE'),
+            null, null, null, null
+        ], gameVariant, 'WAITING');
+        engine.startHand(room);
+
+        // ヘッズアップ: ボタン(SB)がオールイン、BBがコール
+        const first = room.players[room.activePlayerIndex]!;
+        engine.processAction(room, { playerId: first.socketId, type: 'ALL_IN', timestamp: Date.now() });
+        const second = room.players[room.activePlayerIndex]!;
+        engine.processAction(room, { playerId: second.socketId, type: 'CALL', timestamp: Date.now() });
+        return { engine, room };
+    };
+
+    it('プリフロップオールインでは残りの山札から別のボードを配る', () => {
+        const { engine, room } = startAllInHand('NLH');
+        expect(room.gameState.isRunout).toBe(true);
+        expect(room.gameState.runoutPhase).toBe('PREFLOP');
+        expect(engine.getMaxRunItTimes(room, 3)).toBe(3);
+
+        const deckBefore = engine.getDeck().length;
+        const boards = engine.dealAdditionalRunouts(room, [...room.gameState.board], 3);
+
+        expect(boards).toHaveLength(3);
+        expect(boards[0]).toEqual(room.gameState.board);
+        boards.forEach(board => expect(board).toHaveLength(5));
+        // 全ランで重複するカードはない
+        expect(new Set(boards.flat()).size).toBe(15);
+        // 1ランあたり5枚 + バーン3枚
+        expect(engine.getDeck().length).toBe(deckBefore - 16);
+    });
+
+    it('ダブルボードでは複数ランを行わない', () => {
+        const { engine, room } = startAllInHand('PLO_DB');
+        expect(engine.getMaxRunItTimes(room, 3)).toBe(1);
+    });
+});
+
+describe('GameEngine - 8-Max', () => {
+    const createEightPlayers = (): (Player | null)[] =>
+        Array.from({ length: 8 }, (_, i) => createPlayer(`p${i}`, 1000, 0, 'ACTIVE'));
+
+    it('8人トリプルドローではUTGがそのハンドだけシットアウトする', () => {
+        const engine = new GameEngine();
+        const room = createRoom(createEightPlayers(), '2-7_TD', 'WAITING');
+        room.config.maxPlayers = 8;
+        room.dealerBtnIndex = 7;
+
+        engine.startHand(room);
+
+        // ボタン=0, SB=1, BB=2, UTG=3
+        const utg = room.players[3]!;
+        expect(utg.status).toBe('SIT_OUT');
+        expect(utg.hand).toBeNull();
+        expect(room.players.filter(p => p?.hand?.length === 5)).toHaveLength(7);
+        expect(room.activePlayerIndex).toBe(4);
+
+        // 次のハンドでは復帰する
+        engine.startHand(room);
+        expect(utg.status).not.toBe('SIT_OUT');
+        expect(utg.hand).toHaveLength(5);
+    });
+
+    it('8人Dramahaでも山札切れを防ぐためUTGがシットアウトする', () => {
+        const engine = new GameEngine();
+        const room = createRoom(createEightPlayers(), 'FL_DRAMAHA_PICKEM', 'WAITING');
+        room.config.maxPlayers = 8;
+        room.dealerBtnIndex = 7;
+
+        engine.startHand(room);
+
+        expect(room.players[3]!.status).toBe('SIT_OUT');
+        expect(room.players.filter(p => p?.hand?.length === 5)).toHaveLength(7);
+    });
+
+    it('7人以下ではシットアウトしない', () => {
+        const engine = new GameEngine();
+        const players = createEightPlayers();
+        players[7] = null;
+        const room = createRoom(players, '2-7_TD', 'WAITING');
+        room.config.maxPlayers = 8;
+
+        engine.startHand(room);
+
+        expect(room.players.every(p => p === null || p.status !== 'SIT_OUT')).toBe(true);
+    });
+
+    it('8人Studで山札が足りない場合は7th Streetをコミュニティカードにする', () => {
+        const engine = new GameEngine();
+        const players = createEightPlayers();
+        for (const p of players) {
+            p!.hand = ['2♠', '3♠', '4♠', '5♠', '6♠', '7♠'];
+        }
+        const room = createRoom(players, '7CS', 'SIXTH_STREET');
+        room.config.maxPlayers = 8;
+        const deck = engine.getDeck();
+        deck.splice(0, deck.length, 'A♠', 'K♠', 'Q♠', 'J♠');
+
+        engine.nextStreet(room);
+
+        expect(room.gameState.status).toBe('SEVENTH_STREET');
+        expect(room.gameState.board).toEqual(['A♠']);
+        expect(room.players.every(p => p!.hand!.length === 6)).toBe(true);
+    });
+});
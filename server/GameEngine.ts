@@ -4,20 +4,51 @@
  * Phase 3-C: ローテーション対応を追加
  */
 
-import type { Room, Player, GamePhase, ActionType, PlayerAction } from './types.js';
+import type {
+    Room, Player, GamePhase, ActionType, PlayerAction, HandActionRecord, HandRecord, FairnessReveal, DeckSource
+} from './types.js';
 import { Dealer } from './Dealer.js';
 import { RotationManager } from './RotationManager.js';
 import { getVariantConfig } from './gameVariants.js';
+import { DeckProvider } from './fairness/DeckProvider.js';
+
+// この人数以上でUTG強制シットアウトを適用
+const FORCE_UTG_SITOUT_MIN_PLAYERS = 8;
+
+// ストラドルはこの人数以上のときのみ（ヘッズアップでは不可）
+const STRADDLE_MIN_PLAYERS = 3;
+
+// ハンド履歴用: 徴収したブラインド
+type PostedBlind = { index: number; type: 'POST_SB' | 'POST_BB'; amount: number };
 
 export class GameEngine {
     private dealer: Dealer;
     private rotationManager: RotationManager;
+    private deckProvider: DeckProvider;
     private deck: string[] = [];
+    private discardPile: string[] = []; // ドローの捨て札（リシャッフル用）
     private actionTimeout: number = 30000; // 30秒
+    // ハンド履歴用の記録（サーバー内部のみ、クライアントには送らない）
+    private handActions: HandActionRecord[] = [];
+    private startingStacks: Map<string, number> = new Map();
+    private handStartedAt: number = 0;
+    // Provably Fair: このハンドのシード（ハンド履歴に保存し、参加者が卓を離れてから公開）
+    private fairnessReveal: FairnessReveal | undefined;
 
-    constructor() {
+    /**
+     * @param options.deckSource 開発・テスト用のデッキ指定（シード固定/スクリプト）
+     */
+    constructor(options: { deckSource?: DeckSource } = {}) {
         this.dealer = new Dealer();
         this.rotationManager = new RotationManager();
+        this.deckProvider = new DeckProvider(options.deckSource);
+    }
+
+    /**
+     * デッキソースを差し替え（次のハンドから。null で通常のシャッフルに戻す）
+     */
+    setDeckSource(source: DeckSource | null): void {
+        this.deckProvider.setSource(source);
     }
 
     /**
@@ -42,12 +73,19 @@ export class GameEngine {
         room.gameState.handNumber = (room.gameState.handNumber || 0) + 1;
 
         this.resetHandState(room);
-        this.deck = this.dealer.createDeck();
+        this.beginHandRecord(room);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
+        this.prepareDeck(room, variantConfig.deckType ?? 'standard');
 
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
-        const { bbIndex } = this.setupButtonAndBlinds(room, variantConfig);
+        const { bbIndex, straddleIndex, postedBlinds } = this.setupButtonAndBlinds(room, variantConfig);
         const { bringInIndex } = this.initializeVariantHand(room, variantConfig);
-        this.setInitialActivePlayer(room, variantConfig, bbIndex, bringInIndex);
+        // ストラドルがあれば最後のストラドラーを最終ブラインドとして扱う（その次から行動、ストラドラーが最後）
+        // アンティのみの構造はボタンを最終ブラインド扱いにする（ボタンの次から行動）
+        const lastBlindIndex = straddleIndex !== -1
+            ? straddleIndex
+            : variantConfig.blindStructure === 'ante-only' ? room.dealerBtnIndex : bbIndex;
+        this.setInitialActivePlayer(room, variantConfig, lastBlindIndex, bringInIndex);
+        this.recordForcedBets(room, postedBlinds, bringInIndex);
 
         // このストリートの開始プレイヤーを記録
         room.streetStarterIndex = room.activePlayerIndex;
@@ -61,12 +99,19 @@ export class GameEngine {
         for (const player of room.players) {
             if (!player || player.stack <= 0) continue;
 
+            // 前のハンドでUTG強制シットアウトになったプレイヤーは復帰
+            if (player.utgSitOut) {
+                player.utgSitOut = false;
+                if (player.status === 'SIT_OUT') player.status = 'ACTIVE';
+            }
+
             if (player.pendingSitOut) {
                 player.status = 'SIT_OUT';
                 player.pendingSitOut = false;
                 player.pendingJoin = false;
                 player.waitingForBB = false;
-            } else if (player.disconnected) {
+            } else if (player.disconnected && !room.tournament) {
+                // 切断中は配らない（Sit & Go は配り続け、手番はタイムアウトでフォールド）
                 player.status = 'SIT_OUT';
             } else if (player.status === 'SIT_OUT') {
                 if (player.pendingJoin && !player.waitingForBB) {
@@ -80,7 +125,9 @@ export class GameEngine {
             player.hand = null;
             player.bet = 0;
             player.totalBet = 0;
+            player.deadAnte = undefined;
             player.lastAction = undefined;
+            player.dramahaDeclaration = undefined;
             if (player.studUpCards) player.studUpCards = [];
         }
     }
@@ -88,21 +135,263 @@ export class GameEngine {
     private resetHandState(room: Room): void {
         room.gameState.pot = { main: 0, side: [] };
         room.gameState.board = [];
+        room.gameState.board2 = undefined;
+        room.gameState.runBoards = undefined;
+        room.gameState.antes = [];
+        room.gameState.straddles = [];
         room.gameState.currentBet = 0;
         room.gameState.minRaise = room.config.bigBlind;
         room.gameState.raisesThisRound = 0;
         room.lastAggressorIndex = -1;
     }
 
-    private setupButtonAndBlinds(room: Room, variantConfig: any): { sbIndex: number; bbIndex: number } {
+    private setupButtonAndBlinds(
+        room: Room,
+        variantConfig: any
+    ): { sbIndex: number; bbIndex: number; straddleIndex: number; postedBlinds: PostedBlind[] } {
         if (!variantConfig.hasButton) {
-            return { sbIndex: -1, bbIndex: -1 };
+            return { sbIndex: -1, bbIndex: -1, straddleIndex: -1, postedBlinds: [] };
         }
 
         this.dealer.moveButton(room);
-        const blinds = this.dealer.collectBlinds(room);
+        if (variantConfig.blindStructure === 'ante-only') {
+            this.admitWaitingPlayers(room);
+            this.collectAntes(room, variantConfig, -1);
+            return { sbIndex: -1, bbIndex: -1, straddleIndex: -1, postedBlinds: [] };
+        }
+
+        const positions = this.dealer.getBlindPositions(room);
+        this.applyForcedUtgSitOut(room, variantConfig, positions.bbIndex);
+        this.collectAntes(room, variantConfig, positions.bbIndex);
+        const blinds = this.dealer.collectBlinds(room, positions);
+        // ストラドルで bet が上書きされる前にブラインド額を控える（履歴用）
+        const postedBlinds: PostedBlind[] = [
+            { index: blinds.sbIndex, type: 'POST_SB', amount: room.players[blinds.sbIndex]!.bet },
+            { index: blinds.bbIndex, type: 'POST_BB', amount: room.players[blinds.bbIndex]!.bet }
+        ];
         room.gameState.currentBet = room.config.bigBlind;
-        return { sbIndex: blinds.sbIndex, bbIndex: blinds.bbIndex };
+        const straddleIndex = this.collectStraddles(room, variantConfig, blinds);
+        return { sbIndex: blinds.sbIndex, bbIndex: blinds.bbIndex, straddleIndex, postedBlinds };
+    }
+
+    /**
+     * ハンド履歴の記録を開始（ブラインド徴収前のスタックを控える）
+     */
+    private beginHandRecord(room: Room): void {
+        this.handActions = [];
+        this.handStartedAt = Date.now();
+        this.startingStacks = new Map(
+            room.players
+                .filter((p): p is Player => p !== null)
+                .map(p => [p.socketId, p.stack])
+        );
+    }
+
+    /**
+     * 強制ベット（アンティ・ブラインド・ストラドル・ブリングイン）を履歴に記録
+     */
+    private recordForcedBets(
+        room: Room,
+        postedBlinds: PostedBlind[],
+        bringInIndex: number
+    ): void {
+        const findPlayer = (playerId: string) => room.players.find(p => p?.socketId === playerId);
+
+        for (const ante of room.gameState.antes || []) {
+            const player = findPlayer(ante.playerId);
+            if (player) this.recordAction(room, player, 'ANTE', { amount: ante.amount });
+        }
+        for (const blind of postedBlinds) {
+            const player = room.players[blind.index];
+            if (player) this.recordAction(room, player, blind.type, { amount: blind.amount, betTo: blind.amount });
+        }
+        for (const straddle of room.gameState.straddles || []) {
+            const player = findPlayer(straddle.playerId);
+            if (player) this.recordAction(room, player, 'STRADDLE', { amount: straddle.amount, betTo: straddle.amount });
+        }
+        const bringInPlayer = bringInIndex !== -1 ? room.players[bringInIndex] : null;
+        if (bringInPlayer) {
+            this.recordAction(room, bringInPlayer, 'BRING_IN', { amount: bringInPlayer.bet, betTo: bringInPlayer.bet });
+        }
+    }
+
+    /**
+     * ハンド履歴にアクションを記録（フェーズは現在の gameState.status）
+     */
+    recordAction(
+        room: Room,
+        player: Player,
+        type: HandActionRecord['type'],
+        detail: Partial<Pick<HandActionRecord, 'amount' | 'betTo' | 'cards' | 'received'>> = {}
+    ): void {
+        this.handActions.push({
+            playerId: player.socketId,
+            playerName: player.name,
+            seatIndex: room.players.indexOf(player),
+            street: String(room.gameState.status),
+            type,
+            ...detail,
+            timestamp: Date.now()
+        });
+    }
+
+    /**
+     * 現在（直前）のハンドの記録を取得（ハンド履歴の保存用）
+     */
+    getHandRecord(): HandRecord {
+        return {
+            startedAt: this.handStartedAt,
+            startingStacks: Object.fromEntries(this.startingStacks),
+            actions: [...this.handActions],
+            fairness: this.fairnessReveal
+        };
+    }
+
+    /**
+     * ハンドのデッキを用意し、ディーラーの乱数ソースをハンドの乱数列に設定
+     * Provably Fair: コミットメントは gameState に載せて公開し、シードはハンド履歴にだけ残す
+     * クライアントシードは参加プレイヤーのものを席順に連結（nonce = ハンド番号）
+     */
+    private prepareDeck(room: Room, deckType: 'standard' | 'short'): void {
+        const clientSeed = room.players
+            .filter((p): p is Player => p !== null && p.status === 'ACTIVE')
+            .map(p => p.clientSeed || '')
+            .join('|');
+        const handDeck = this.deckProvider.nextHand(deckType, room.gameState.handNumber, clientSeed);
+        this.deck = handDeck.deck;
+        this.discardPile = [];
+        this.dealer.setRandom(handDeck.random);
+        this.fairnessReveal = handDeck.reveal;
+        room.gameState.fairness = handDeck.commitment;
+        this.publishNextCommitment(room);
+    }
+
+    /**
+     * Provably Fair: 次のハンドのサーバーシードのコミットメントを公開
+     * ハンド中と、最初のハンドの前（着席時のルーム状態）に載せる
+     */
+    publishNextCommitment(room: Room): void {
+        room.gameState.nextFairnessCommitment = this.deckProvider.nextCommitment();
+    }
+
+    /**
+     * アンティのみの構造: BBが回ってこないのでBB待ちのプレイヤーをすぐ参加させる
+     */
+    private admitWaitingPlayers(room: Room): void {
+        for (const player of room.players) {
+            if (!player || !player.waitingForBB || player.stack <= 0 || player.disconnected) continue;
+            player.waitingForBB = false;
+            player.pendingJoin = false;
+            player.status = 'ACTIVE';
+        }
+    }
+
+    /**
+     * ストラドル徴収（ライブブラインド）
+     * 最初のストラドル席はポリシーで決まり、以降は時計回りに希望者が続く限り2倍ずつ上乗せ（SB/BBで打ち切り）
+     * - utg: BBの次（UTG）が希望している場合のみ
+     * - button: ボタンが希望している場合のみ
+     * - mississippi: UTGからボタンまでで最初に希望しているプレイヤー
+     * @returns 最後にストラドルしたプレイヤーのインデックス（なしは-1）
+     */
+    private collectStraddles(
+        room: Room,
+        variantConfig: any,
+        blinds: { sbIndex: number; bbIndex: number }
+    ): number {
+        const policy = room.config.straddlePolicy ?? 'none';
+        if (policy === 'none' || variantConfig.betStructure === 'fixed') return -1;
+
+        const dealtIn = room.players.filter(p => p !== null && p.stack > 0 && p.status === 'ACTIVE');
+        if (dealtIn.length < STRADDLE_MIN_PLAYERS) return -1;
+
+        const isBlind = (index: number) => index === blinds.sbIndex || index === blinds.bbIndex;
+        const wantsStraddle = (index: number, amount: number) => {
+            const player = room.players[index];
+            // ストラドル額を払ってもスタックが残る場合のみ（オールインストラドルは不可）
+            return !!player && player.status === 'ACTIVE' && !!player.straddleNextHand && player.stack > amount;
+        };
+
+        let amount = room.config.bigBlind * 2;
+        let straddlerIndex = -1;
+        if (policy === 'utg') {
+            const utgIndex = this.dealer.getNextActivePlayer(room, blinds.bbIndex);
+            if (!isBlind(utgIndex) && wantsStraddle(utgIndex, amount)) straddlerIndex = utgIndex;
+        } else if (policy === 'button') {
+            if (!isBlind(room.dealerBtnIndex) && wantsStraddle(room.dealerBtnIndex, amount)) {
+                straddlerIndex = room.dealerBtnIndex;
+            }
+        } else {
+            for (let i = this.dealer.getNextActivePlayer(room, blinds.bbIndex);
+                i !== -1 && !isBlind(i);
+                i = this.dealer.getNextActivePlayer(room, i)) {
+                if (wantsStraddle(i, amount)) {
+                    straddlerIndex = i;
+                    break;
+                }
+            }
+        }
+        if (straddlerIndex === -1) return -1;
+
+        const maxStraddles = Math.max(1, room.config.maxStraddles ?? 1);
+        const straddles: { playerId: string; playerName: string; amount: number }[] = [];
+        let lastIndex = -1;
+        while (straddlerIndex !== -1 && straddles.length < maxStraddles) {
+            const player = room.players[straddlerIndex]!;
+            this.dealer.postStraddle(room, straddlerIndex, amount);
+            straddles.push({ playerId: player.socketId, playerName: player.name, amount });
+            lastIndex = straddlerIndex;
+
+            const nextAmount = amount * 2;
+            const nextIndex = this.dealer.getNextActivePlayer(room, straddlerIndex);
+            straddlerIndex = nextIndex !== -1 && !isBlind(nextIndex) && wantsStraddle(nextIndex, nextAmount)
+                ? nextIndex
+                : -1;
+            if (straddlerIndex !== -1) amount = nextAmount;
+        }
+
+        // 最後のストラドルがこのハンドのビッグブラインド相当（最小レイズ幅もその額）
+        room.gameState.straddles = straddles;
+        room.gameState.currentBet = amount;
+        room.gameState.minRaise = amount;
+        return lastIndex;
+    }
+
+    /**
+     * 8人トリプルドロー・Dramaha: UTGをこのハンドだけシットアウトさせる
+     * 5枚×8人で山札が足りなくなるのを防ぐ（次のハンドで自動復帰）
+     */
+    private applyForcedUtgSitOut(room: Room, variantConfig: any, bbIndex: number): void {
+        if (!variantConfig.forceUtgSitOut) return;
+
+        const dealtIn = room.players.filter(p => p !== null && p.stack > 0 && p.status === 'ACTIVE');
+        if (dealtIn.length < FORCE_UTG_SITOUT_MIN_PLAYERS) return;
+
+        const utgIndex = this.dealer.getNextActivePlayer(room, bbIndex);
+        const utg = room.players[utgIndex];
+        if (!utg) return;
+
+        utg.status = 'SIT_OUT';
+        utg.utgSitOut = true;
+        console.log(`🪑 ${utg.name} (UTG) sits out this hand (${dealtIn.length}-handed ${room.gameState.gameVariant})`);
+    }
+
+    /**
+     * アンティ徴収（ルーム設定 > ゲーム設定の順で方式を決定）
+     * ブラインドより先に徴収する
+     */
+    private collectAntes(room: Room, variantConfig: any, bbIndex: number): void {
+        const anteType = room.config.anteType ?? variantConfig.anteType ?? 'blind';
+        if (anteType === 'blind') return;
+
+        const defaultAmount = anteType === 'ante'
+            ? Math.max(1, Math.floor(room.config.bigBlind / 5))
+            : room.config.bigBlind;
+        const anteAmount = room.config.anteAmount ?? defaultAmount;
+        if (anteAmount <= 0) return;
+
+        const payerIndex = anteType === 'button-ante' ? room.dealerBtnIndex : bbIndex;
+        room.gameState.antes = this.dealer.collectAntes(room, anteType, anteAmount, payerIndex);
     }
 
     private initializeVariantHand(room: Room, variantConfig: any): { bringInIndex: number } {
@@ -145,16 +434,19 @@ export class GameEngine {
         this.dealer.dealHoleCards(this.deck, room.players, variantConfig.holeCardCount);
         room.gameState.status = 'PREFLOP' as any;
         room.gameState.street = 0;
+        if ((variantConfig.boardCount || 1) > 1) {
+            room.gameState.board2 = [];
+        }
     }
 
     private setInitialActivePlayer(
         room: Room,
         variantConfig: any,
-        bbIndex: number,
+        lastBlindIndex: number,
         bringInIndex: number
     ): void {
-        if (variantConfig.hasButton && bbIndex !== -1) {
-            room.activePlayerIndex = this.dealer.getNextActivePlayer(room, bbIndex);
+        if (variantConfig.hasButton && lastBlindIndex !== -1) {
+            room.activePlayerIndex = this.dealer.getNextActivePlayer(room, lastBlindIndex);
             return;
         }
         if (bringInIndex !== -1) {
@@ -183,6 +475,7 @@ export class GameEngine {
 
         console.log(`🎯 ${player.name} -> ${action.type}${action.amount ? ` ${action.amount}` : ''}`);
 
+        const totalBetBefore = player.totalBet;
         const actionError = this.applyAction(room, player, action);
         if (actionError) {
             return { success: false, error: actionError };
@@ -191,6 +484,9 @@ export class GameEngine {
         // アクション表示を設定
         player.lastAction = action.type;
 
+        const added = player.totalBet - totalBetBefore;
+        this.recordAction(room, player, action.type, added > 0 ? { amount: added, betTo: player.bet } : {});
+
         // 次のプレイヤーに移動
         this.advanceAction(room);
 
@@ -241,7 +537,7 @@ export class GameEngine {
 
     private processBetOrRaise(room: Room, player: Player, action: PlayerAction): string | null {
         const betAmount = action.amount || 0;
-        const variantConfigBet = getVariantConfig(room.gameState.gameVariant);
+        const variantConfigBet = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
 
         if (variantConfigBet.betStructure === 'fixed') {
             return this.processBetOrRaiseFixed(room, player, betAmount);
@@ -359,7 +655,7 @@ export class GameEngine {
                 room.streetStarterIndex = room.activePlayerIndex;
             }
             room.lastAggressorIndex = room.activePlayerIndex;
-            const variantConfig = getVariantConfig(room.gameState.gameVariant);
+            const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
             if (variantConfig.betStructure === 'fixed' && reopensAllIn) {
                 room.gameState.raisesThisRound++;
             } else if (variantConfig.betStructure !== 'fixed') {
@@ -375,6 +671,14 @@ export class GameEngine {
     private advanceAction(room: Room): void {
         const playerCounts = this.getPlayerCounts(room);
 
+        // streetStarterが自分のアクションでフォールド/オールインした場合は次のプレイヤーに引き継ぐ
+        // （BBやストラドラーが最後にオプションを持つよう、ラウンド終了の基準席を維持する）
+        if (room.streetStarterIndex === room.activePlayerIndex &&
+            room.players[room.activePlayerIndex]?.status !== 'ACTIVE') {
+            const nextStarter = this.dealer.getNextActivePlayer(room, room.activePlayerIndex);
+            if (nextStarter !== -1) room.streetStarterIndex = nextStarter;
+        }
+
         // 早期終了判定
         const earlyEndResult = this.checkEarlyHandEnd(room, playerCounts);
         if (earlyEndResult.shouldEnd) {
@@ -510,7 +814,7 @@ export class GameEngine {
         this.resetBetsForNewStreet(room);
 
         const phase = room.gameState.status;
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
 
         // ゲームタイプに応じたストリート進行
         if (variantConfig.communityCardType === 'stud') {
@@ -590,7 +894,7 @@ export class GameEngine {
      * boardPatternに基づいてボードカードを配布
      */
     private nextFlopStreet(room: Room, phase: any): void {
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
         const boardPattern = variantConfig.boardPattern || [3, 1, 1];
         // フェーズ名の配列（street indexに対応）
         const FLOP_PHASES = ['PREFLOP', 'FLOP', 'TURN', 'RIVER', 'OCEAN'];
@@ -598,6 +902,29 @@ export class GameEngine {
         const currentStreet = room.gameState.street;
         const nextStreet = currentStreet + 1;
 
+        // Dramaha: 全ボードカード配布後のベッティング終了 → ドロー交換フェーズ
+        if (variantConfig.isDramaha && nextStreet === boardPattern.length + 1) {
+            room.gameState.status = 'DRAMAHA_DRAW' as any;
+            room.gameState.street = nextStreet;
+            room.gameState.isDrawPhase = true;
+            room.gameState.playersCompletedDraw = [];
+            this.autoCompleteAllInDraws(room);
+            console.log(`🔄 DRAMAHA_DRAW exchange phase - waiting for players to draw`);
+            return;
+        }
+
+        // Cry Me a River: リバーのベッティング終了 → カード消失フェーズ（完了後そのままショーダウン）
+        if (variantConfig.vanishCards && nextStreet === boardPattern.length + 1) {
+            room.gameState.status = 'VANISH' as any;
+            room.gameState.street = nextStreet;
+            room.gameState.isDrawPhase = true;
+            room.gameState.playersCompletedDraw = [];
+            this.autoCompleteAllInDraws(room);
+            console.log(`💧 VANISH phase - waiting for players to discard ${variantConfig.vanishCards} card(s)`);
+            this.checkVanishPhaseComplete(room);
+            return;
+        }
+
         // 全ボードカードが配布済み → ショーダウン
         if (nextStreet > boardPattern.length) {
             room.gameState.status = 'SHOWDOWN' as any;
@@ -613,10 +940,29 @@ export class GameEngine {
 
         // ボードカードを配布
         const cardCount = boardPattern[nextStreet - 1]; // boardPattern[0]=flop, [1]=turn, [2]=river, [3]=ocean
+        const newCards = this.dealBoardStreet(room, variantConfig, cardCount);
+
+        console.log(`🃏 ${nextPhase}: ${newCards.join(' ')} (board: ${room.gameState.board.join(' ')})`);
+        if (room.gameState.board2) {
+            console.log(`🃏 ${nextPhase} (board 2): ${room.gameState.board2.join(' ')}`);
+        }
+    }
+
+    /**
+     * 1ストリート分のボードカードを配布
+     * ダブルボードの場合は同じ枚数をセカンドボードにも配る（それぞれバーンあり）
+     * @returns 1枚目のボードに追加されたカード
+     */
+    private dealBoardStreet(room: Room, variantConfig: any, cardCount: number): string[] {
         const newCards = this.dealer.dealBoardCards(this.deck, cardCount);
         room.gameState.board.push(...newCards);
 
-        console.log(`🃏 ${nextPhase}: ${newCards.join(' ')} (board: ${room.gameState.board.join(' ')})`);
+        if ((variantConfig.boardCount || 1) > 1) {
+            if (!room.gameState.board2) room.gameState.board2 = [];
+            room.gameState.board2.push(...this.dealer.dealBoardCards(this.deck, cardCount));
+        }
+
+        return newCards;
     }
 
     /**
@@ -648,7 +994,7 @@ export class GameEngine {
 
             case 'SIXTH_STREET':
                 room.gameState.status = 'SEVENTH_STREET' as any;
-                this.dealer.dealStudStreet(this.deck, room.players, true); // 最後はダウンカード
+                this.dealStudSeventhStreet(room); // 最後はダウンカード
                 room.gameState.street = 4;
                 console.log(`🎴 7th Street dealt (down card)`);
                 break;
@@ -666,7 +1012,7 @@ export class GameEngine {
      * ベッティング完了後、ドロー交換フェーズに入る
      */
     private nextDrawStreet(room: Room, phase: any): void {
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
         const drawRounds = variantConfig.drawRounds || 3; // デフォルト: トリプルドロー
         const DRAW_PHASES = ['PREDRAW', 'FIRST_DRAW', 'SECOND_DRAW', 'THIRD_DRAW'];
 
@@ -724,7 +1070,7 @@ export class GameEngine {
                 }
             }
             room.gameState.currentBet = 0;
-            const variantConfig = getVariantConfig(room.gameState.gameVariant);
+            const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
             room.gameState.minRaise = variantConfig.betStructure === 'fixed'
                 ? this.getFixedBetSize(room)
                 : room.config.bigBlind;
@@ -741,6 +1087,28 @@ export class GameEngine {
         return false;
     }
 
+    /**
+     * Cry Me a River: 全員がカード消失を完了したかチェック
+     * 完了したらベッティングを挟まずにショーダウンへ
+     */
+    checkVanishPhaseComplete(room: Room): boolean {
+        if (!room.gameState.isDrawPhase || room.gameState.status !== 'VANISH') return false;
+
+        const activePlayers = room.players.filter(p =>
+            p !== null && (p.status === 'ACTIVE' || p.status === 'ALL_IN')
+        );
+        const completedDraw = room.gameState.playersCompletedDraw || [];
+
+        if (!activePlayers.every(p => completedDraw.includes(p!.socketId))) {
+            return false;
+        }
+
+        room.gameState.playersCompletedDraw = [];
+        console.log(`✅ Vanish complete - going to showdown`);
+        this.endHand(room);
+        return true;
+    }
+
     /**
      * ドローフェーズ開始時にALL_INプレイヤーを自動的に完了としてマーク
      * （ALL_INプレイヤーはカードを交換できないため、0枚交換として扱う）
@@ -781,6 +1149,7 @@ export class GameEngine {
 
         // 状態をSHOWDOWNに設定（クライアント通知用）
         room.gameState.status = 'SHOWDOWN' as any;
+        room.gameState.isDrawPhase = false;
         room.activePlayerIndex = -1;
     }
 
@@ -807,7 +1176,7 @@ export class GameEngine {
         if (!player) return [];
 
         const actions: ActionType[] = [];
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
 
         // 他のアクティブなプレイヤー（ACTIVE状態のみ）を取得
         const otherActivePlayers = room.players.filter(p =>
@@ -888,7 +1257,7 @@ export class GameEngine {
         fixedBetSize?: number;
     } {
         const player = room.players.find(p => p?.socketId === playerId);
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
 
         if (!player) {
             return {
@@ -947,7 +1316,7 @@ export class GameEngine {
      * 最小ベット/レイズの「TO」値を取得
      */
     private getMinBetTo(room: Room, player: Player): number {
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
         if (variantConfig.betStructure === 'fixed') {
             const fixedBetSize = this.getFixedBetSize(room);
             return room.gameState.currentBet === 0
@@ -997,7 +1366,7 @@ export class GameEngine {
         const bigBet = smallBet * 2;           // Big Bet = 2x Small Bet
 
         const phase = room.gameState.status;
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
 
         if (variantConfig.communityCardType === 'stud') {
             return this.getFixedBetSizeStud(phase as any, smallBet, bigBet);
@@ -1073,6 +1442,13 @@ export class GameEngine {
         return 4; // 5-bet cap (1 bet + 4 raises)
     }
 
+    /**
+     * ディーラーを取得（ドロー交換のリシャッフルでハンドの乱数列を引き継ぐため）
+     */
+    getDealer(): Dealer {
+        return this.dealer;
+    }
+
     /**
      * デッキへの参照を取得（テスト用）
      */
@@ -1080,12 +1456,71 @@ export class GameEngine {
         return this.deck;
     }
 
+    /**
+     * ドローの捨て札を取得（山札が足りない時のリシャッフル用）
+     */
+    getDiscardPile(): string[] {
+        return this.discardPile;
+    }
+
+    /**
+     * Run it Twice/3 Times: このランアウトで配れる最大ラン数
+     * シングルボードのFlop系ゲームで、未配布のストリートが残っている場合のみ2以上になる
+     */
+    getMaxRunItTimes(room: Room, limit: number): number {
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
+        if (variantConfig.communityCardType !== 'flop' || variantConfig.hasDrawPhase) return 1;
+        if ((variantConfig.boardCount || 1) > 1 || variantConfig.isDramaha || variantConfig.vanishCards) return 1;
+
+        const remainingStreets = this.getRunoutRemainingStreets(room, variantConfig);
+        if (remainingStreets.length === 0) return 1;
+
+        // 1ランあたりの必要枚数（各ストリートのバーン含む）
+        const cardsPerRun = remainingStreets.reduce((sum, count) => sum + count + 1, 0);
+        return Math.max(1, Math.min(limit, 1 + Math.floor(this.deck.length / cardsPerRun)));
+    }
+
+    /**
+     * Run it Twice/3 Times: ランアウト開始時点の共有ボードに続けて、残りの山札から追加のボードを配る
+     * @param firstBoard 既に配布済みの1本目のボード
+     * @returns 各ランのボード（1本目はfirstBoard）
+     */
+    dealAdditionalRunouts(room: Room, firstBoard: string[], runCount: number): string[][] {
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
+        const runCountLimit = this.getMaxRunItTimes(room, runCount);
+        const remainingStreets = this.getRunoutRemainingStreets(room, variantConfig);
+        const remainingCardCount = remainingStreets.reduce((sum, count) => sum + count, 0);
+        const sharedBoard = firstBoard.slice(0, firstBoard.length - remainingCardCount);
+
+        const runs = [firstBoard];
+        while (runs.length < runCountLimit) {
+            const board = [...sharedBoard];
+            for (const count of remainingStreets) {
+                board.push(...this.dealer.dealBoardCards(this.deck, count));
+            }
+            console.log(`🃏 Run ${runs.length + 1}: ${board.join(' ')}`);
+            runs.push(board);
+        }
+        return runs;
+    }
+
+    /**
+     * ランアウト開始フェーズ以降に配られたストリートの枚数リスト
+     */
+    private getRunoutRemainingStreets(room: Room, variantConfig: any): number[] {
+        const boardPattern: number[] = variantConfig.boardPattern || [3, 1, 1];
+        const FLOP_PHASES = ['PREFLOP', 'FLOP', 'TURN', 'RIVER', 'OCEAN'];
+        const startStreet = FLOP_PHASES.indexOf(room.gameState.runoutPhase || 'PREFLOP');
+        if (startStreet === -1) return [];
+        return boardPattern.slice(startStreet);
+    }
+
     /**
      * ALL IN時に残りのストリートを自動で配る
      */
     private dealToShowdown(room: Room): void {
         const phase = room.gameState.status;
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
 
         if (variantConfig.communityCardType === 'stud') {
             // Stud: 残りのストリートを配る
@@ -1105,7 +1540,7 @@ export class GameEngine {
      * boardPatternに基づいてデータ駆動
      */
     private dealFlopToShowdown(room: Room, phase: any): void {
-        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
         const boardPattern = variantConfig.boardPattern || [3, 1, 1];
         const FLOP_PHASES = ['PREFLOP', 'FLOP', 'TURN', 'RIVER', 'OCEAN'];
 
@@ -1114,8 +1549,7 @@ export class GameEngine {
         // 残りのストリートを全て配布
         for (let streetIdx = currentStreet + 1; streetIdx <= boardPattern.length; streetIdx++) {
             const cardCount = boardPattern[streetIdx - 1];
-            const newCards = this.dealer.dealBoardCards(this.deck, cardCount);
-            room.gameState.board.push(...newCards);
+            const newCards = this.dealBoardStreet(room, variantConfig, cardCount);
             const phaseName = FLOP_PHASES[streetIdx] || `Street${streetIdx}`;
             console.log(`🃏 Auto-${phaseName}: ${newCards.join(' ')}`);
         }
@@ -1150,7 +1584,7 @@ export class GameEngine {
                 console.log(`🎴 Auto-${phases[currentIdx]}`);
             } else if (currentIdx === 4) {
                 // 7th Street: down card
-                this.dealer.dealStudStreet(this.deck, room.players, true);
+                this.dealStudSeventhStreet(room);
                 console.log(`🎴 Auto-7th Street (down)`);
             }
         }
@@ -1158,6 +1592,25 @@ export class GameEngine {
         room.gameState.status = 'SEVENTH_STREET' as any;
     }
 
+    /**
+     * Stud 7th Street配布
+     * 山札が残りプレイヤー数より少ない場合（8人Stud）は、全員共通のコミュニティカードを1枚配る
+     */
+    private dealStudSeventhStreet(room: Room): void {
+        const remainingPlayers = room.players.filter(p =>
+            p !== null && (p.status === 'ACTIVE' || p.status === 'ALL_IN')
+        );
+
+        if (this.deck.length >= remainingPlayers.length) {
+            this.dealer.dealStudStreet(this.deck, room.players, true);
+            return;
+        }
+
+        const communityCard = this.dealer.dealStudCommunityCard(this.deck);
+        room.gameState.board.push(communityCard);
+        console.log(`🃏 Deck exhausted (${remainingPlayers.length} players) - 7th Street community card: ${communityCard}`);
+    }
+
     /**
      * テスト用: privateメソッドへのアクセス
      */
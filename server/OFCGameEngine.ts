@@ -5,34 +5,17 @@
 
 import type {
     Room, OFCGameState, OFCPlayerState, OFCPlacement, OFCRow,
-    OFCPhase, OFCRoundScore,
+    OFCPhase, OFCRoundScore, HandActionRecord, FairnessReveal, DeckSource,
 } from './types.js';
 import { calculateOFCScores, checkFoul, checkFantasylandEntry, checkFantasylandContinuation } from './OFCScoring.js';
+import { buildOFCHandHistory } from './history/handHistoryBuilder.js';
+import { DeckProvider } from './fairness/DeckProvider.js';
 
 // ========================================
 // Deck Management
 // ========================================
 
-const SUITS = ['♠', '♥', '♦', '♣'];
-const RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'];
-
-function createDeck(): string[] {
-    const deck: string[] = [];
-    for (const suit of SUITS) {
-        for (const rank of RANKS) {
-            deck.push(rank + suit);
-        }
-    }
-    // Add 2 Jokers (fully wild)
-    deck.push('JK1');
-    deck.push('JK2');
-    // Fisher-Yates shuffle
-    for (let i = deck.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [deck[i], deck[j]] = [deck[j], deck[i]];
-    }
-    return deck;
-}
+// デッキは52枚 + ジョーカー2枚（完全ワイルド）。生成とシャッフルは DeckProvider（deckType 'ofc'）
 
 function dealCards(deck: string[], count: number): string[] {
     const cards: string[] = [];
@@ -49,11 +32,38 @@ function dealCards(deck: string[], count: number): string[] {
 
 /** Callback events emitted by the engine */
 export interface OFCEngineEvent {
-    type: 'deal' | 'placement-accepted' | 'round-complete' | 'scoring' | 'hand-complete' | 'error';
+    type: 'deal' | 'placement-accepted' | 'round-complete' | 'scoring' | 'hand-history' | 'hand-complete' | 'error';
     data: any;
 }
 
 export class OFCGameEngine {
+    // ハンド履歴用の記録
+    private handActions: HandActionRecord[] = [];
+    private startingStacks: Record<string, number> = {};
+    private handStartedAt: number = 0;
+    private fairnessReveal: FairnessReveal | undefined;
+    private deckProvider: DeckProvider;
+
+    /**
+     * @param options.deckSource 開発・テスト用のデッキ指定（シード固定/スクリプト）
+     */
+    constructor(options: { deckSource?: DeckSource } = {}) {
+        this.deckProvider = new DeckProvider(options.deckSource);
+    }
+
+    /**
+     * デッキソースを差し替え（次のハンドから。null で通常のシャッフルに戻す）
+     */
+    setDeckSource(source: DeckSource | null): void {
+        this.deckProvider.setSource(source);
+    }
+
+    /**
+     * Provably Fair: 次のハンドのサーバーシードのコミットメントを公開（GameEngine と同じ）
+     */
+    publishNextCommitment(room: Room): void {
+        room.gameState.nextFairnessCommitment = this.deckProvider.nextCommitment();
+    }
 
     /**
      * OFCハンドを開始
@@ -69,10 +79,17 @@ export class OFCGameEngine {
             return [{ type: 'error', data: { reason: 'Need at least 2 players' } }];
         }
 
-        const deck = createDeck();
-
         // Determine which players are in fantasyland from previous hand
         const prevOfc = room.ofcState;
+        const handNumber = (prevOfc?.handNumber || 0) + 1;
+
+        // Provably Fair: コミットメントを公開し、シードはハンド履歴にだけ残す
+        const clientSeed = players.map(p => p!.clientSeed || '').join('|');
+        const { deck, reveal, commitment } = this.deckProvider.nextHand('ofc', handNumber, clientSeed);
+        this.fairnessReveal = reveal;
+        room.gameState.fairness = commitment;
+        this.publishNextCommitment(room);
+
         const flQueue = prevOfc?.fantasylandQueue || [];
 
         const ofcPlayers: OFCPlayerState[] = players.map(p => {
@@ -94,8 +111,6 @@ export class OFCGameEngine {
             };
         });
 
-        const handNumber = (prevOfc?.handNumber || 0) + 1;
-
         // ボタン位置: FL突入者がいる場合はボタン固定（JOPTルール）
         let buttonIndex: number;
         if (prevOfc) {
@@ -121,6 +136,9 @@ export class OFCGameEngine {
         };
 
         room.ofcState = ofcState;
+        this.handActions = [];
+        this.handStartedAt = Date.now();
+        this.startingStacks = Object.fromEntries(ofcPlayers.map(p => [p.socketId, p.stack]));
         room.gameState.status = 'OFC_INITIAL_PLACING';
         room.gameState.gameVariant = 'OFC';
         room.gameState.handNumber = handNumber;
@@ -203,6 +221,7 @@ export class OFCGameEngine {
 
         // Apply placements
         this.applyPlacements(player, placements);
+        this.recordPlacement(room, player, placements);
         player.currentCards = [];
         player.hasPlaced = true;
 
@@ -278,6 +297,7 @@ export class OFCGameEngine {
 
         // Apply placements
         this.applyPlacements(player, placements);
+        this.recordPlacement(room, player, placements, discardCard);
         player.fantasyCandidateCards = undefined;
         player.currentCards = [];
         player.hasPlaced = true;
@@ -377,6 +397,7 @@ export class OFCGameEngine {
 
         // Apply
         this.applyPlacements(player, placements);
+        this.recordPlacement(room, player, placements, discardCard);
         player.currentCards = [];
         player.hasPlaced = true;
 
@@ -405,6 +426,28 @@ export class OFCGameEngine {
         return events;
     }
 
+    /**
+     * 配置をハンド履歴に記録
+     */
+    private recordPlacement(
+        room: Room,
+        player: OFCPlayerState,
+        placements: OFCPlacement[],
+        discardCard?: string,
+    ): void {
+        const ofc = room.ofcState!;
+        this.handActions.push({
+            playerId: player.socketId,
+            playerName: player.name,
+            seatIndex: room.players.findIndex(p => p?.socketId === player.socketId),
+            street: `OFC_R${ofc.round}`,
+            type: 'PLACE',
+            cards: discardCard ? [discardCard] : undefined,
+            placements: placements.map(p => ({ ...p })),
+            timestamp: Date.now(),
+        });
+    }
+
     /**
      * 配置情報をまとめる（ログ表示用）
      */
@@ -561,6 +604,22 @@ export class OFCGameEngine {
             },
         });
 
+        // ハンド履歴（保存は呼び出し側で行う）
+        events.push({
+            type: 'hand-history',
+            data: buildOFCHandHistory(
+                room,
+                {
+                    startedAt: this.handStartedAt,
+                    startingStacks: this.startingStacks,
+                    actions: [...this.handActions],
+                    fairness: this.fairnessReveal,
+                },
+                ofc,
+                scores,
+            ),
+        });
+
         // Mark hand as complete
         ofc.phase = 'OFC_DONE';
         room.gameState.status = 'WAITING';
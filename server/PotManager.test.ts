@@ -233,6 +233,33 @@ describe('PotManager - Side Pot Calculation (SP-01~SP-05)', () => {
             expect(pots.side.length).toBe(0);
         });
     });
+
+    describe('BB/ボタンアンティ（デッドマネー）', () => {
+        it('デッドマネーはメインポットに入る', () => {
+            const players = [
+                createPlayer('A', 900, 100, 'ACTIVE'),
+                { ...createPlayer('B', 800, 100, 'ACTIVE'), deadAnte: 100 }
+            ];
+
+            const pots = potManager.calculatePots(players);
+
+            expect(pots.main).toBe(300);
+            expect(pots.side.length).toBe(0);
+        });
+
+        it('アンティだけでオールインのプレイヤーはデッドマネーのみ獲得可能', () => {
+            const players = [
+                createPlayer('A', 900, 100, 'ACTIVE'),
+                createPlayer('B', 900, 100, 'ACTIVE'),
+                { ...createPlayer('C', 0, 0, 'ALL_IN'), deadAnte: 50 }
+            ];
+
+            const pots = potManager.calculatePots(players);
+
+            expect(pots.main).toBe(50);
+            expect(pots.side).toEqual([{ amount: 200, eligiblePlayers: ['A', 'B'] }]);
+        });
+    });
 });
 
 describe('PotManager - Utility Methods', () => {
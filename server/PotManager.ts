@@ -9,6 +9,7 @@ export class PotManager {
     /**
      * サイドポットを計算
      * オールインプレイヤーがいる場合に必要
+     * BB/ボタンアンティ（deadAnte）はレベル計算に含めず、残っている全員が獲得できるメインポットに入れる
      * @param players プレイヤー配列
      * @returns PotState
      */
@@ -25,12 +26,18 @@ export class PotManager {
             p.totalBet > 0
         ) as Player[];
 
+        // BB/ボタンアンティのデッドマネー
+        const deadMoney = players.reduce((sum, p) => sum + (p?.deadAnte || 0), 0);
+
         console.log('💰 PotManager.calculatePots:');
         console.log(`  Contributors: ${allContributors.map(p => `${p.name}(${p.totalBet})`).join(', ')}`);
         console.log(`  Eligible (not folded): ${eligiblePlayers.map(p => `${p.name}(${p.totalBet})`).join(', ')}`);
+        if (deadMoney > 0) {
+            console.log(`  Dead money (ante): ${deadMoney}`);
+        }
 
         if (allContributors.length === 0) {
-            return { main: 0, side: [] };
+            return { main: deadMoney, side: [] };
         }
 
         // 全ての異なるベットレベルを取得（昇順）
@@ -39,6 +46,16 @@ export class PotManager {
         const pots: { amount: number; eligible: string[] }[] = [];
         let prevBet = 0;
 
+        // デッドマネーはアンティだけでオールインになったプレイヤーも含め、残っている全員が獲得可能
+        if (deadMoney > 0) {
+            const deadEligible = players
+                .filter(p => p !== null && p.status !== 'FOLDED' && (p.totalBet > 0 || (p.deadAnte || 0) > 0))
+                .map(p => p!.socketId);
+            if (deadEligible.length > 0) {
+                pots.push({ amount: deadMoney, eligible: deadEligible });
+            }
+        }
+
         for (const betLevel of betLevels) {
             if (betLevel > prevBet) {
                 // このレベルに貢献したプレイヤーの数
@@ -76,7 +93,7 @@ export class PotManager {
         if (pots.length === 0) {
             // 全員フォールドした場合、残りのベット額を合算
             const totalBets = allContributors.reduce((sum, p) => sum + p.totalBet, 0);
-            return { main: totalBets, side: [] };
+            return { main: totalBets + deadMoney, side: [] };
         }
 
         const main = pots[0].amount;
@@ -0,0 +1,252 @@
+/**
+ * Rake Manager Tests
+ * レーキ率・人数別キャップ・ノーフロップノードロップ・サイドポット按分
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RakeManager } from './RakeManager.js';
+import { ShowdownManager } from './ShowdownManager.js';
+import type { Room, Player, PlayerStatus, RakePolicy } from './types.js';
+
+// Helper: テスト用プレイヤー作成
+function createPlayer(
+    socketId: string,
+    stack: number,
+    totalBet: number,
+    status: PlayerStatus = 'ACTIVE',
+    hand: string[] | null = null
+): Player {
+    return {
+        socketId,
+        name: socketId,
+        stack,
+        bet: 0,
+        totalBet,
+        status,
+        hand
+    };
+}
+
+// Helper: テスト用Room作成
+function createRoom(
+    players: (Player | null)[],
+    rake: RakePolicy | undefined,
+    options: {
+        variant?: string;
+        board?: string[];
+        street?: number;
+        mainPot?: number;
+        sidePots?: { amount: number; eligiblePlayers: string[] }[];
+    } = {}
+): Room {
+    return {
+        id: 'test-room',
+        config: {
+            maxPlayers: 6,
+            smallBlind: 5,
+            bigBlind: 10,
+            rake
+        },
+        players,
+        dealerBtnIndex: 0,
+        activePlayerIndex: -1,
+        streetStarterIndex: 0,
+        gameState: {
+            status: 'SHOWDOWN' as any,
+            street: options.street ?? 3,
+            board: options.board ?? ['2♣', '7♦', '9♥', 'J♠', 'K♣'],
+            pot: { main: options.mainPot ?? 0, side: options.sidePots ?? [] },
+            deckStatus: { stubCount: 0, burnCount: 0 },
+            currentBet: 0,
+            minRaise: 10,
+            raisesThisRound: 0,
+            deck: [],
+            handNumber: 1,
+            gameVariant: options.variant ?? 'NLH'
+        },
+        rotation: {
+            enabled: false,
+            gamesList: ['NLH'],
+            currentGameIndex: 0,
+            handsPerGame: 8
+        },
+        metaGame: {
+            standUp: { isActive: false, remainingPlayers: [] },
+            sevenDeuce: false
+        },
+        lastAggressorIndex: -1,
+        createdAt: Date.now()
+    };
+}
+
+describe('RakeManager', () => {
+    const rakeManager = new RakeManager();
+
+    it('レーキ設定がなければ徴収しない', () => {
+        const room = createRoom([createPlayer('A', 0, 100), createPlayer('B', 0, 100)], undefined, { mainPot: 200 });
+        expect(rakeManager.collectRake(room)).toBeNull();
+        expect(room.gameState.pot.main).toBe(200);
+        expect(room.rakeStats).toBeUndefined();
+    });
+
+    it('率で計算しキャップで頭打ちにする', () => {
+        const room = createRoom(
+            [createPlayer('A', 0, 500), createPlayer('B', 0, 500)],
+            { percent: 5, cap: 30 },
+            { mainPot: 1000 }
+        );
+        const result = rakeManager.collectRake(room);
+        expect(result?.amount).toBe(30);
+        expect(room.gameState.pot.main).toBe(970);
+        expect(room.rakeStats).toEqual({ total: 30, hands: 1 });
+    });
+
+    it('レーキはポット額を超えない', () => {
+        const room = createRoom(
+            [createPlayer('A', 0, 100), createPlayer('B', 0, 100)],
+            { percent: 150 },
+            { mainPot: 200 }
+        );
+        expect(rakeManager.collectRake(room)?.amount).toBe(200);
+        expect(room.gameState.pot.main).toBe(0);
+    });
+
+    it('参加人数に応じたキャップを選ぶ', () => {
+        const policy: RakePolicy = {
+            percent: 10,
+            cap: 5,
+            capsByPlayers: [
+                { minPlayers: 3, cap: 20 },
+                { minPlayers: 5, cap: 40 }
+            ]
+        };
+        expect(rakeManager.getCap(policy, 2)).toBe(5);
+        expect(rakeManager.getCap(policy, 4)).toBe(20);
+        expect(rakeManager.getCap(policy, 6)).toBe(40);
+        expect(rakeManager.calculateRake(policy, 1000, 3)).toBe(20);
+    });
+
+    it('no-flop-no-drop: プリフロップで終わったハンドは徴収しない', () => {
+        const room = createRoom(
+            [createPlayer('A', 0, 30), createPlayer('B', 0, 10, 'FOLDED')],
+            { percent: 5, noFlopNoDrop: true },
+            { board: [], street: 0, mainPot: 40 }
+        );
+        expect(rakeManager.collectRake(room, true)).toBeNull();
+        expect(room.gameState.pot.main).toBe(40);
+    });
+
+    it('不戦勝ではコールされなかったベットをレーキ対象から除く', () => {
+        // A: 300ベット、B: 100でフォールド → 対象額は200
+        const room = createRoom(
+            [createPlayer('A', 0, 300), createPlayer('B', 0, 100, 'FOLDED')],
+            { percent: 10, noFlopNoDrop: true },
+            { board: ['2♣', '7♦', '9♥'], street: 1, mainPot: 400 }
+        );
+        const result = rakeManager.collectRake(room, true);
+        expect(result?.amount).toBe(20);
+        expect(room.gameState.pot.main).toBe(380);
+    });
+
+    it('Stud: 3rd Streetで終わったハンドは徴収しない', () => {
+        const room = createRoom(
+            [createPlayer('A', 0, 20), createPlayer('B', 0, 20, 'FOLDED')],
+            { percent: 5, noDropOnFirstStreet: true },
+            { variant: '7CS', board: [], street: 0, mainPot: 40 }
+        );
+        expect(rakeManager.collectRake(room, true)).toBeNull();
+
+        room.gameState.street = 1;
+        expect(rakeManager.collectRake(room, true)?.amount).toBe(2);
+    });
+
+    it('Draw: 最初のドロー前に終わったハンドは徴収しない（no-flop-no-dropは適用されない）', () => {
+        const room = createRoom(
+            [createPlayer('A', 0, 100), createPlayer('B', 0, 100)],
+            { percent: 5, noFlopNoDrop: true, noDropOnFirstStreet: true },
+            { variant: '2-7_TD', board: [], street: 0, mainPot: 200 }
+        );
+        expect(rakeManager.collectRake(room)).toBeNull();
+
+        room.gameState.street = 1;
+        expect(rakeManager.collectRake(room)?.amount).toBe(10);
+    });
+
+    it('メイン/サイドポットから額に比例して徴収し、返還用サイドポットは対象外', () => {
+        const players = [
+            createPlayer('A', 0, 100, 'ALL_IN'),
+            createPlayer('B', 0, 300, 'ALL_IN'),
+            createPlayer('C', 0, 500, 'ACTIVE')
+        ];
+        const room = createRoom(players, { percent: 10 }, {
+            mainPot: 300,
+            sidePots: [
+                { amount: 400, eligiblePlayers: ['B', 'C'] },
+                { amount: 200, eligiblePlayers: ['C'] }
+            ]
+        });
+
+        const result = rakeManager.collectRake(room);
+        expect(result?.amount).toBe(70);
+        expect(room.gameState.pot.main).toBe(270);
+        expect(room.gameState.pot.side[0].amount).toBe(360);
+        expect(room.gameState.pot.side[1].amount).toBe(200);
+
+        // 負担額はポット貢献額に比例
+        const total = result!.contributions.reduce((sum, c) => sum + c.amount, 0);
+        expect(total).toBe(70);
+        expect(result!.contributions.find(c => c.playerId === 'C')?.amount).toBeGreaterThan(
+            result!.contributions.find(c => c.playerId === 'A')!.amount
+        );
+    });
+});
+
+describe('ShowdownManager - Rake', () => {
+    const showdownManager = new ShowdownManager();
+
+    it('分配前にレーキを差し引き、結果と部屋累計に反映する', () => {
+        const players = [
+            createPlayer('A', 0, 100, 'ACTIVE', ['A♠', 'A♥']),
+            createPlayer('B', 0, 100, 'ACTIVE', ['3♦', '4♦'])
+        ];
+        const room = createRoom(players, { percent: 5, cap: 8 }, { mainPot: 200 });
+
+        const result = showdownManager.executeShowdown(room);
+
+        expect(result.rake).toBe(8);
+        expect(result.winners[0].playerId).toBe('A');
+        expect(result.winners[0].amount).toBe(192);
+        expect(players[0].stack).toBe(192);
+        expect(room.rakeStats).toEqual({ total: 8, hands: 1 });
+    });
+
+    it('Run it Twice ではラン分割前に1回だけ徴収する', () => {
+        const players = [
+            createPlayer('A', 0, 100, 'ALL_IN', ['A♠', 'A♥']),
+            createPlayer('B', 0, 100, 'ALL_IN', ['3♦', '4♦'])
+        ];
+        const room = createRoom(players, { percent: 10 }, { mainPot: 200 });
+
+        const result = showdownManager.executeMultiRunShowdown(room, [
+            ['2♣', '7♦', '9♥', 'J♠', 'K♣'],
+            ['2♥', '8♦', '9♣', 'Q♠', 'K♦']
+        ]);
+
+        expect(result.rake).toBe(20);
+        expect(result.winners.reduce((sum, w) => sum + w.amount, 0)).toBe(180);
+        expect(room.rakeStats).toEqual({ total: 20, hands: 1 });
+    });
+
+    it('不戦勝の結果にもレーキを含める', () => {
+        const players = [
+            createPlayer('A', 0, 50, 'ACTIVE', ['A♠', 'A♥']),
+            createPlayer('B', 0, 50, 'FOLDED', null)
+        ];
+        const room = createRoom(players, { percent: 10 }, { mainPot: 100 });
+
+        const result = showdownManager.awardToLastPlayer(room);
+
+        expect(result.rake).toBe(10);
+        expect(result.winners[0].amount).toBe(90);
+    });
+});
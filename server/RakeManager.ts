@@ -0,0 +1,127 @@
+/**
+ * Rake Manager
+ * 部屋のレーキ設定（率・人数別キャップ・ノーフロップノードロップ）に従い、
+ * ポット分配前にメイン/サイドポットからレーキを徴収する
+ */
+
+import type { Room, Player, RakePolicy } from './types.js';
+import { getVariantConfig } from './gameVariants.js';
+
+export interface RakeResult {
+    amount: number;                                        // 徴収額
+    contributions: { playerId: string; amount: number }[]; // プレイヤー別負担額（ポット貢献額に比例）
+}
+
+export class RakeManager {
+    /**
+     * ポットからレーキを徴収し、部屋の累計に加算
+     * 呼び出し時点の room.gameState.pot を直接減額する
+     * @param uncontested 全員フォールドで決着した場合 true（コールされなかったベットは対象外）
+     * @returns 徴収しなかった場合は null
+     */
+    collectRake(room: Room, uncontested: boolean = false): RakeResult | null {
+        const policy = room.config.rake;
+        if (!policy || policy.percent <= 0) return null;
+        if (this.isNoDrop(room, policy)) return null;
+
+        const dealtPlayers = room.players.filter(p =>
+            p !== null && (p.status === 'ACTIVE' || p.status === 'ALL_IN' || p.status === 'FOLDED')
+        ) as Player[];
+
+        // レーキ対象のポット（勝者候補が1人だけのサイドポット = 返還分は除外）
+        const pot = room.gameState.pot;
+        const rakeablePots: { amount: number; take: (n: number) => void }[] = [
+            { amount: pot.main - (uncontested ? this.getUncalledAmount(dealtPlayers) : 0), take: n => { pot.main -= n; } },
+            ...pot.side
+                .filter(s => s.eligiblePlayers.length > 1)
+                .map(s => ({ amount: s.amount, take: (n: number) => { s.amount -= n; } }))
+        ];
+        const rakeablePot = rakeablePots.reduce((sum, p) => sum + Math.max(0, p.amount), 0);
+
+        const amount = this.calculateRake(policy, rakeablePot, dealtPlayers.length);
+        if (amount <= 0) return null;
+
+        // 各ポットから額に比例して徴収（端数は前のポットから1チップずつ）
+        const cuts = rakeablePots.map(p => Math.floor(Math.max(0, p.amount) * amount / rakeablePot));
+        let remainder = amount - cuts.reduce((sum, c) => sum + c, 0);
+        for (let i = 0; remainder > 0 && i < cuts.length; i++) {
+            if (rakeablePots[i].amount - cuts[i] > 0) {
+                cuts[i]++;
+                remainder--;
+            }
+        }
+        rakeablePots.forEach((p, i) => p.take(cuts[i]));
+
+        room.rakeStats = {
+            total: (room.rakeStats?.total || 0) + amount,
+            hands: (room.rakeStats?.hands || 0) + 1
+        };
+
+        console.log(`🏦 Rake: ${amount} from ${rakeablePot} (room total: ${room.rakeStats.total})`);
+
+        return { amount, contributions: this.splitByContribution(dealtPlayers, amount) };
+    }
+
+    /**
+     * レーキ額を計算（率 → キャップ → ポット額）
+     */
+    calculateRake(policy: RakePolicy, pot: number, playerCount: number): number {
+        const raw = Math.floor(pot * policy.percent / 100);
+        const cap = this.getCap(policy, playerCount);
+        return Math.max(0, Math.min(raw, cap ?? raw, pot));
+    }
+
+    /**
+     * 参加人数に応じたキャップを取得
+     */
+    getCap(policy: RakePolicy, playerCount: number): number | undefined {
+        const tier = (policy.capsByPlayers || [])
+            .filter(t => playerCount >= t.minPlayers)
+            .sort((a, b) => b.minPlayers - a.minPlayers)[0];
+        return tier ? tier.cap : policy.cap;
+    }
+
+    /**
+     * ノードロップ判定
+     * - Flop: ボードが1枚も開いていない
+     * - Stud: 3rd Street で終了 / Draw: 最初のドロー前に終了（street 0）
+     */
+    private isNoDrop(room: Room, policy: RakePolicy): boolean {
+        const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
+        if (variantConfig.communityCardType === 'flop' && !variantConfig.hasDrawPhase) {
+            return !!policy.noFlopNoDrop && room.gameState.board.length === 0;
+        }
+        return !!policy.noDropOnFirstStreet && room.gameState.street === 0;
+    }
+
+    /**
+     * コールされなかったベット額（最大ベッターと2番目の差）
+     */
+    private getUncalledAmount(players: Player[]): number {
+        const bets = players.map(p => p.totalBet).sort((a, b) => b - a);
+        if (bets.length < 2) return 0;
+        return bets[0] - bets[1];
+    }
+
+    /**
+     * レーキをポット貢献額（totalBet）に比例して各プレイヤーに割り当てる
+     * 端数は貢献額の大きい順に1チップずつ
+     */
+    private splitByContribution(players: Player[], amount: number): RakeResult['contributions'] {
+        const contributors = players
+            .filter(p => p.totalBet > 0)
+            .sort((a, b) => b.totalBet - a.totalBet);
+        const totalContributed = contributors.reduce((sum, p) => sum + p.totalBet, 0);
+        if (totalContributed === 0) return [];
+
+        const shares = contributors.map(p => ({
+            playerId: p.socketId,
+            amount: Math.floor(p.totalBet * amount / totalContributed)
+        }));
+        let remainder = amount - shares.reduce((sum, s) => sum + s.amount, 0);
+        for (let i = 0; remainder > 0; i = (i + 1) % shares.length, remainder--) {
+            shares[i].amount++;
+        }
+        return shares.filter(s => s.amount > 0);
+    }
+}
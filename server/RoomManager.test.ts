@@ -0,0 +1,78 @@
+/**
+ * Room Manager Tests
+ * 観戦者の管理（部屋ごとの人数・プレイヤーとの分離）
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RoomManager } from './RoomManager.js';
+import type { Player, RoomConfig } from './types.js';
+
+function createPlayer(socketId: string, stack: number): Player {
+    return {
+        socketId,
+        name: socketId,
+        stack,
+        bet: 0,
+        totalBet: 0,
+        status: 'ACTIVE',
+        hand: null
+    };
+}
+
+const config: RoomConfig = {
+    maxPlayers: 6,
+    smallBlind: 1,
+    bigBlind: 2,
+    buyInMin: 100,
+    buyInMax: 400,
+    allowedGames: ['NLH']
+};
+
+describe('RoomManager spectators', () => {
+    it('観戦者は部屋ごとに数え、部屋リストに人数を載せる', () => {
+        const manager = new RoomManager();
+        const room = manager.createRoom(undefined, config, 'open-1');
+
+        expect(manager.addSpectator(room.id, 's1', 'Alice')).toBe(true);
+        expect(manager.addSpectator(room.id, 's2', 'Bob')).toBe(true);
+
+        expect(manager.getSpectatorCount(room.id)).toBe(2);
+        expect(manager.getSpectators(room.id).map(s => s.name)).toEqual(['Alice', 'Bob']);
+        expect(manager.getAllRooms().find(r => r.id === room.id)?.spectatorCount).toBe(2);
+    });
+
+    it('存在しない部屋は観戦できない', () => {
+        const manager = new RoomManager();
+        expect(manager.addSpectator('missing', 's1', 'Alice')).toBe(false);
+        expect(manager.getSpectatingRoomId('s1')).toBeNull();
+    });
+
+    it('別の部屋を観戦すると前の部屋の観戦をやめる', () => {
+        const manager = new RoomManager();
+        const a = manager.createRoom(undefined, config, 'open-a');
+        const b = manager.createRoom(undefined, config, 'open-b');
+
+        manager.addSpectator(a.id, 's1', 'Alice');
+        manager.addSpectator(b.id, 's1', 'Alice');
+
+        expect(manager.getSpectatorCount(a.id)).toBe(0);
+        expect(manager.getSpectatingRoomId('s1')).toBe(b.id);
+        expect(manager.removeSpectator('s1')).toBe(b.id);
+        expect(manager.removeSpectator('s1')).toBeNull();
+    });
+
+    it('観戦者は座席に含まれず、最後のプレイヤーが離席すると観戦者ごと部屋が削除される', () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const manager = new RoomManager();
+        const room = manager.createRoom('host', config, '1234');
+        manager.sitDown(room.id, 0, createPlayer('host', 200));
+        manager.addSpectator(room.id, 's1', 'Alice');
+
+        expect(room.players.filter(p => p !== null).map(p => p!.socketId)).toEqual(['host']);
+
+        manager.standUp(room.id, 'host');
+        expect(manager.getRoomById(room.id)).toBeNull();
+        expect(manager.getSpectatingRoomId('s1')).toBeNull();
+        vi.restoreAllMocks();
+    });
+});
@@ -15,9 +15,22 @@ import {
     RoomListItem
 } from './types.js';
 import { PRESET_ROOMS, type PresetRoomConfig } from './roomDefinitions.js';
+import { applyGameId, getVariantConfig } from './gameVariants.js';
+import { createTournament } from './tournament/sitAndGo.js';
+
+// 1卓あたりの座席数の上限（8-max）
+export const MAX_SEATS = 8;
+
+// 観戦者（着席せず、プレイヤーとは別の Socket.IO ルームで状態を受け取る）
+export interface Spectator {
+    socketId: string;
+    name: string;
+    joinedAt: number;
+}
 
 export class RoomManager {
     private rooms: Map<string, Room> = new Map();
+    private spectators: Map<string, Map<string, Spectator>> = new Map(); // roomId -> socketId -> 観戦者
 
     /**
      * 新しい部屋を作成する
@@ -27,6 +40,10 @@ export class RoomManager {
      * @returns 作成されたRoom
      */
     createRoom(hostId: string | undefined, config: RoomConfig, customRoomId?: string): Room {
+        if (!Number.isInteger(config.maxPlayers) || config.maxPlayers < 2 || config.maxPlayers > MAX_SEATS) {
+            throw new Error(`maxPlayers must be between 2 and ${MAX_SEATS}`);
+        }
+
         let roomId: string;
 
         if (customRoomId) {
@@ -67,6 +84,24 @@ export class RoomManager {
         return room;
     }
 
+    /**
+     * スナップショットから復元した部屋を登録（起動時、プリセット初期化より前に呼ぶ）
+     */
+    restoreRoom(room: Room): void {
+        if (this.rooms.has(room.id)) {
+            throw new Error('Room ID already exists');
+        }
+        this.rooms.set(room.id, room);
+        console.log(`♻️  Room restored: ${room.id}`);
+    }
+
+    /**
+     * 全部屋（スナップショット保存用）
+     */
+    listRooms(): Room[] {
+        return Array.from(this.rooms.values());
+    }
+
     /**
      * 部屋IDから部屋を取得
      * @param roomId 6桁の部屋ID
@@ -83,6 +118,7 @@ export class RoomManager {
      */
     deleteRoom(roomId: string): boolean {
         const deleted = this.rooms.delete(roomId);
+        this.spectators.delete(roomId);
         if (deleted) {
             console.log(`🗑️  Room deleted: ${roomId}`);
         }
@@ -100,6 +136,7 @@ export class RoomManager {
             const playerCount = room.players.filter(p => p !== null).length;
             if (playerCount === 0) {
                 this.rooms.delete(roomId);
+                this.spectators.delete(roomId);
                 console.log(`🧹 Empty room cleaned up: ${roomId}`);
                 deletedCount++;
             }
@@ -119,8 +156,10 @@ export class RoomManager {
             .map(room => ({
                 id: room.id,
                 playerCount: room.players.filter(p => p !== null).length,
+                spectatorCount: this.getSpectatorCount(room.id),
                 maxPlayers: room.config.maxPlayers,
                 gameVariant: room.gameState.gameVariant,
+                betStructure: getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure).betStructure,
                 blinds: `${room.config.smallBlind}/${room.config.bigBlind}`,
                 isPrivate: false,
                 buyInMin: room.config.buyInMin,
@@ -128,9 +167,65 @@ export class RoomManager {
                 displayName: room.displayName,
                 category: room.category,
                 rotationGames: room.rotation.enabled ? room.rotation.gamesList : undefined,
+                tournament: room.tournament && {
+                    status: room.tournament.status,
+                    buyIn: room.tournament.config.buyIn,
+                    startingStack: room.tournament.config.startingStack,
+                    prizePool: room.tournament.prizePool,
+                    levelIndex: room.tournament.levelIndex,
+                },
             }));
     }
 
+    /**
+     * 観戦者を追加（1つのsocketは1部屋だけ観戦できる。他の部屋の観戦はやめる）
+     * @returns 部屋が存在しなければfalse
+     */
+    addSpectator(roomId: string, socketId: string, name: string): boolean {
+        if (!this.rooms.has(roomId)) return false;
+        this.removeSpectator(socketId);
+
+        let roomSpectators = this.spectators.get(roomId);
+        if (!roomSpectators) {
+            roomSpectators = new Map();
+            this.spectators.set(roomId, roomSpectators);
+        }
+        roomSpectators.set(socketId, { socketId, name, joinedAt: Date.now() });
+        return true;
+    }
+
+    /**
+     * 観戦をやめる
+     * @returns 観戦していた部屋ID（観戦していなければnull）
+     */
+    removeSpectator(socketId: string): string | null {
+        for (const [roomId, roomSpectators] of this.spectators) {
+            if (roomSpectators.delete(socketId)) {
+                if (roomSpectators.size === 0) this.spectators.delete(roomId);
+                return roomId;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * socketが観戦中の部屋ID
+     */
+    getSpectatingRoomId(socketId: string): string | null {
+        for (const [roomId, roomSpectators] of this.spectators) {
+            if (roomSpectators.has(socketId)) return roomId;
+        }
+        return null;
+    }
+
+    getSpectators(roomId: string): Spectator[] {
+        return Array.from(this.spectators.get(roomId)?.values() ?? []);
+    }
+
+    getSpectatorCount(roomId: string): number {
+        return this.spectators.get(roomId)?.size ?? 0;
+    }
+
     /**
      * 部屋がプライベートかどうかを確認
      * @param roomId 部屋ID
@@ -253,7 +348,7 @@ export class RoomManager {
 
         // ゲームバリアント変更を適用
         if (pending.gameVariant) {
-            room.gameState.gameVariant = pending.gameVariant;
+            applyGameId(room.gameState, pending.gameVariant);
         }
 
         // 保留設定をクリア
@@ -266,9 +361,9 @@ export class RoomManager {
      * デフォルトのゲーム状態を作成
      */
     private createInitialGameState(config: RoomConfig): GameState {
-        return {
+        const gameState: GameState = {
             status: 'WAITING',
-            gameVariant: config.allowedGames?.[0] || 'NLH',
+            gameVariant: 'NLH',
             street: 0,
             pot: { main: 0, side: [] },
             board: [],
@@ -282,6 +377,9 @@ export class RoomManager {
             raisesThisRound: 0,
             deck: []
         };
+        // 許可ゲームの先頭（"NLH@fixed" 形式ならベット構造も上書き）
+        applyGameId(gameState, config.allowedGames?.[0] || 'NLH');
+        return gameState;
     }
 
     /**
@@ -345,7 +443,12 @@ export class RoomManager {
                 room.rotation.enabled = preset.rotationConfig.enabled;
                 room.rotation.gamesList = preset.rotationConfig.gamesList;
                 room.rotation.handsPerGame = preset.rotationConfig.handsPerGame;
-                room.gameState.gameVariant = preset.rotationConfig.gamesList[0];
+                applyGameId(room.gameState, preset.rotationConfig.gamesList[0]);
+            }
+
+            // Sit & Go: 登録受付から
+            if (preset.tournament) {
+                room.tournament = createTournament(preset.tournament);
             }
 
             console.log(`🏠 Preset room initialized: ${preset.id} (${preset.displayName})`);
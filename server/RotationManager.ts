@@ -4,7 +4,7 @@
  */
 
 import type { Room } from './types.js';
-import { getVariantConfig, ROTATION_PRESETS } from './gameVariants.js';
+import { getVariantConfig, ROTATION_PRESETS, applyGameId, formatGameId } from './gameVariants.js';
 
 export class RotationManager {
     private handsPerGame: number = 6; // デフォルト: 6ハンドごとに切り替え
@@ -16,10 +16,17 @@ export class RotationManager {
         this.handsPerGame = count;
     }
 
+    /**
+     * 現在のゲームID（ベット構造の上書きがあれば "NLH@fixed" 形式）
+     */
+    getCurrentGame(room: Room): string {
+        return formatGameId(room.gameState.gameVariant, room.gameState.betStructure);
+    }
+
     /**
      * ハンド終了時にローテーションをチェック
      * @param room 部屋
-     * @returns 次のゲームバリアントID（変更がない場合は現在のまま）
+     * @returns 次のゲームID（変更がない場合は現在のまま）
      */
     checkRotation(room: Room): { changed: boolean; nextGame: string } {
         const handNumber = room.gameState.handNumber;
@@ -27,7 +34,7 @@ export class RotationManager {
 
         if (gamesList.length <= 1) {
             // ローテーションなし
-            return { changed: false, nextGame: room.gameState.gameVariant };
+            return { changed: false, nextGame: this.getCurrentGame(room) };
         }
 
         // ハンド数でローテーションをチェック
@@ -37,7 +44,7 @@ export class RotationManager {
 
             // ローテーションを更新
             room.rotation.currentGameIndex = nextIndex;
-            room.gameState.gameVariant = nextGame;
+            applyGameId(room.gameState, nextGame);
 
             // 周回数を更新（全ゲームを回った場合）
             if (nextIndex === 0) {
@@ -49,7 +56,7 @@ export class RotationManager {
             return { changed: true, nextGame };
         }
 
-        return { changed: false, nextGame: room.gameState.gameVariant };
+        return { changed: false, nextGame: this.getCurrentGame(room) };
     }
 
     /**
@@ -58,7 +65,7 @@ export class RotationManager {
     getNextGame(room: Room): string {
         const gamesList = room.rotation.gamesList;
         if (gamesList.length <= 1) {
-            return room.gameState.gameVariant;
+            return this.getCurrentGame(room);
         }
 
         const nextIndex = (room.rotation.currentGameIndex + 1) % gamesList.length;
@@ -85,7 +92,7 @@ export class RotationManager {
         room.rotation.gamesList = [...preset];
         room.rotation.currentGameIndex = 0;
         room.rotation.orbitCount = 0;
-        room.gameState.gameVariant = preset[0];
+        applyGameId(room.gameState, preset[0]);
 
         console.log(`📋 Applied rotation preset: ${presetName} (${preset.join(' -> ')})`);
         return true;
@@ -98,7 +105,7 @@ export class RotationManager {
         room.rotation.gamesList = [...gamesList];
         room.rotation.currentGameIndex = 0;
         room.rotation.orbitCount = 0;
-        room.gameState.gameVariant = gamesList[0] || 'NLH';
+        applyGameId(room.gameState, gamesList[0] || 'NLH');
 
         console.log(`🎮 Set custom rotation: ${gamesList.join(' -> ')}`);
     }
@@ -115,7 +122,7 @@ export class RotationManager {
         orbitCount: number;
     } {
         return {
-            currentGame: room.gameState.gameVariant,
+            currentGame: this.getCurrentGame(room),
             currentIndex: room.rotation.currentGameIndex,
             totalGames: room.rotation.gamesList.length,
             remainingHands: this.getRemainingHands(room),
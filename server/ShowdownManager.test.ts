@@ -396,3 +396,190 @@ describe('ShowdownManager - 2-7 Triple Draw (V-27)', () => {
         expect(winner?.handRank).toBe('7-High');
     });
 });
+
+describe('ShowdownManager - PLO Double Board (V-PLODB)', () => {
+    const showdownManager = new ShowdownManager();
+    const board1 = ['A♠', 'K♠', '7♦', '4♣', '2♥'];
+    const board2 = ['Q♥', 'J♥', '8♣', '5♦', '3♠'];
+
+    it('PLO_DB: ボードごとに勝者が分かれ、端数は1枚目のボードへ', () => {
+        // Player1: ボード1でAのスリーカード / Player2: ボード2でQのスリーカード
+        const player1 = createPlayer('p1', 'Player1', 100, ['A♦', 'A♣', '9♠', '6♠'], 'ACTIVE', 50);
+        const player2 = createPlayer('p2', 'Player2', 100, ['Q♦', 'Q♣', '9♥', '6♥'], 'ACTIVE', 51);
+
+        const room = createRoom([player1, player2], board1, 'PLO_DB', 101);
+        room.gameState.board2 = board2;
+
+        const result = showdownManager.executeShowdown(room);
+
+        expect(player1.stack).toBe(151);
+        expect(player2.stack).toBe(150);
+        expect(result.boardResults).toHaveLength(2);
+        expect(result.boardResults![0].winners.map(w => w.playerId)).toEqual(['p1']);
+        expect(result.boardResults![1].winners.map(w => w.playerId)).toEqual(['p2']);
+        expect(result.winners.find(w => w.playerId === 'p1')?.handRank).toContain('Board 1');
+    });
+
+    it('PLO_DB: 両ボードで勝てばスクープ', () => {
+        const player1 = createPlayer('p1', 'Player1', 100, ['A♦', 'A♣', 'Q♦', 'Q♣'], 'ACTIVE', 50);
+        const player2 = createPlayer('p2', 'Player2', 100, ['9♥', '6♥', '7♥', '7♣'], 'ACTIVE', 50);
+
+        const room = createRoom([player1, player2], board1, 'PLO_DB', 100);
+        room.gameState.board2 = board2;
+
+        const result = showdownManager.executeShowdown(room);
+
+        expect(player1.stack).toBe(200);
+        expect(result.winners).toHaveLength(1);
+        expect(result.winners[0].amount).toBe(100);
+    });
+
+    it('PLO_DB: サイドポットもボードごとに半分ずつ分配', () => {
+        // Player3（オールイン）はボード1でホイール、ボード2はPlayer2のQスリーカード
+        const player1 = createPlayer('p1', 'Player1', 0, ['A♦', 'A♣', '9♠', '6♠'], 'ACTIVE', 50);
+        const player2 = createPlayer('p2', 'Player2', 0, ['Q♦', 'Q♣', '9♥', '6♥'], 'ACTIVE', 51);
+        const player3 = createPlayer('p3', 'Player3', 0, ['5♥', '3♥', 'T♦', 'T♣'], 'ALL_IN', 30);
+
+        const room = createRoom(
+            [player1, player2, player3],
+            board1,
+            'PLO_DB',
+            90,
+            [{ amount: 41, eligiblePlayers: ['p1', 'p2'] }]
+        );
+        room.gameState.board2 = board2;
+
+        showdownManager.executeShowdown(room);
+
+        // メイン90: ボード1→p3(45), ボード2→p2(45)
+        // サイド41: ボード1→p1(21), ボード2→p2(20)
+        expect(player3.stack).toBe(45);
+        expect(player2.stack).toBe(65);
+        expect(player1.stack).toBe(21);
+        expect(room.gameState.pot.main).toBe(0);
+    });
+});
+
+describe('ShowdownManager - Dramaha (V-DRAMAHA)', () => {
+    const showdownManager = new ShowdownManager();
+    const board = ['A♠', 'K♠', '7♦', '4♣', '9♥'];
+
+    it('Dramaha 2-7: ボードハンドとドローハンドでポットを半分ずつ', () => {
+        // Player1: ボードでAのスリーカード / Player2: ドローで8-7-6-5-3
+        const player1 = createPlayer('p1', 'Player1', 0, ['A♦', 'A♣', 'Q♥', 'J♥', '9♠'], 'ACTIVE', 50);
+        const player2 = createPlayer('p2', 'Player2', 0, ['7♠', '5♥', '3♦', '8♣', '6♥'], 'ACTIVE', 51);
+
+        const room = createRoom([player1, player2], board, 'FL_DRAMAHA_27', 101);
+
+        const result = showdownManager.executeShowdown(room);
+
+        // 端数はドロー側
+        expect(player1.stack).toBe(50);
+        expect(player2.stack).toBe(51);
+        expect(result.winners.find(w => w.playerId === 'p1')?.handRank).toBe('Board: Three of a Kind');
+        expect(result.winners.find(w => w.playerId === 'p2')?.handRank).toBe('Draw 2-7: 8-High');
+    });
+
+    it('Dramaha Pick\'em: ドロー側は宣言ごとにさらに半分', () => {
+        const player1 = createPlayer('p1', 'Player1', 0, ['A♦', 'A♣', 'Q♥', 'J♥', '9♠'], 'ACTIVE', 50);
+        const player2 = createPlayer('p2', 'Player2', 0, ['7♠', '5♥', '3♦', '8♣', '6♥'], 'ACTIVE', 50);
+        player1.dramahaDeclaration = 'high';
+        player2.dramahaDeclaration = 'low';
+
+        const room = createRoom([player1, player2], board, 'FL_DRAMAHA_PICKEM', 100);
+
+        showdownManager.executeShowdown(room);
+
+        // ボード50→p1, ドローHigh25→p1, ドローLow25→p2
+        expect(player1.stack).toBe(75);
+        expect(player2.stack).toBe(25);
+    });
+
+    it('Dramaha Pick\'em: 全員同じ宣言ならドロー側は全額その評価で', () => {
+        const player1 = createPlayer('p1', 'Player1', 0, ['A♦', 'A♣', 'Q♥', 'J♥', '9♠'], 'ACTIVE', 50);
+        const player2 = createPlayer('p2', 'Player2', 0, ['7♠', '5♥', '3♦', '8♣', '6♥'], 'ACTIVE', 50);
+
+        const room = createRoom([player1, player2], board, 'FL_DRAMAHA_PICKEM', 100);
+
+        showdownManager.executeShowdown(room);
+
+        expect(player1.stack).toBe(100);
+        expect(player2.stack).toBe(0);
+    });
+});
+
+describe('ShowdownManager - Cry Me a River (V-CMRIVER)', () => {
+    const showdownManager = new ShowdownManager();
+    const board = ['A♠', 'K♠', '7♦', '4♣', '9♥'];
+
+    it('消失後の残り2枚とボードで評価する', () => {
+        // Player1は消失済み: 残りK♥ 2♦ → Kのペア
+        const player1 = createPlayer('p1', 'Player1', 0, ['K♥', '2♦'], 'ACTIVE', 50);
+        // Player2は消失済み: 残りQ♥ 3♦ → Aハイ
+        const player2 = createPlayer('p2', 'Player2', 0, ['Q♥', '3♦'], 'ACTIVE', 50);
+
+        const room = createRoom([player1, player2], board, 'PL_CMRIVER1', 100);
+
+        showdownManager.executeShowdown(room);
+
+        expect(player1.stack).toBe(100);
+        expect(player2.stack).toBe(0);
+    });
+
+    it('消失していない手札（オールイン）は最強の2枚を自動で残す', () => {
+        // 4枚から2枚残し: A♦ A♣ を残せばスリーカード
+        const player1 = createPlayer('p1', 'Player1', 0, ['2♦', 'A♦', '3♣', 'A♣'], 'ALL_IN', 50);
+        const player2 = createPlayer('p2', 'Player2', 0, ['K♥', 'K♦'], 'ACTIVE', 50);
+
+        const room = createRoom([player1, player2], board, 'PL_CMRIVER2', 100);
+
+        const result = showdownManager.executeShowdown(room);
+
+        expect(player1.hand).toEqual(['A♦', 'A♣']);
+        expect(player1.stack).toBe(100);
+        expect(result.allHands.find(h => h.playerId === 'p1')?.hand).toEqual(['A♦', 'A♣']);
+    });
+});
+
+describe('ShowdownManager - Run it Twice (RIT)', () => {
+    const showdownManager = new ShowdownManager();
+
+    it('メインポットとサイドポットをランごとに分割して評価する', () => {
+        const player1 = createPlayer('p1', 'Player1', 0, ['A♥', 'A♦'], 'ALL_IN', 50);
+        const player2 = createPlayer('p2', 'Player2', 0, ['K♥', 'K♦'], 'ALL_IN', 200);
+        const player3 = createPlayer('p3', 'Player3', 0, ['Q♥', 'Q♦'], 'ALL_IN', 200);
+
+        const room = createRoom([player1, player2, player3], [], 'NLH', 151, [
+            { amount: 300, eligiblePlayers: ['p2', 'p3'] }
+        ]);
+        const boards = [
+            ['2♣', '7♠', '9♦', 'J♣', '3♥'],  // Run 1: AAが勝ち、サイドはKK
+            ['K♣', '7♠', '9♦', 'J♣', '3♥']   // Run 2: KKKが全部
+        ];
+
+        const result = showdownManager.executeMultiRunShowdown(room, boards);
+
+        // メイン151 → 76/75（端数は1本目）、サイド300 → 150/150
+        expect(player1.stack).toBe(76);
+        expect(player2.stack).toBe(150 + 75 + 150);
+        expect(player3.stack).toBe(0);
+        expect(room.gameState.pot).toEqual({ main: 0, side: [] });
+        expect(room.gameState.board).toEqual(boards[0]);
+
+        expect(result.runResults).toHaveLength(2);
+        expect(result.runResults![0].winners.map(w => w.playerId).sort()).toEqual(['p1', 'p2']);
+        expect(result.runResults![1].winners.map(w => w.playerId)).toEqual(['p2']);
+        expect(result.winners.find(w => w.playerId === 'p2')?.amount).toBe(375);
+    });
+
+    it('1ランの場合は通常のショーダウンと同じ', () => {
+        const player1 = createPlayer('p1', 'Player1', 0, ['A♥', 'A♦'], 'ALL_IN', 50);
+        const player2 = createPlayer('p2', 'Player2', 0, ['K♥', 'K♦'], 'ALL_IN', 50);
+        const room = createRoom([player1, player2], [], 'NLH', 100);
+
+        const result = showdownManager.executeMultiRunShowdown(room, [['2♣', '7♠', '9♦', 'J♣', '3♥']]);
+
+        expect(player1.stack).toBe(100);
+        expect(result.runResults).toBeUndefined();
+    });
+});
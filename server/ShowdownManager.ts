@@ -15,13 +15,18 @@ import {
     compareLowHands,
     compareBadugiHands,
     compareDeuceSeven,
-    compareHidugiHands
+    compareHidugiHands,
+    evaluatePointsHand,
+    comparePointsHands,
+    STANDARD_HAND_RANKING,
+    type HandRankingRules
 } from './handEvaluator.js';
 import { PotManager } from './PotManager.js';
-import { getVariantConfig } from './gameVariants.js';
+import { RakeManager, type RakeResult } from './RakeManager.js';
+import { getVariantConfig, getHandRankingRules } from './gameVariants.js';
 
 // カード文字列をCardオブジェクトに変換
-interface Card {
+export interface Card {
     rank: string;
     suit: string;
 }
@@ -34,7 +39,7 @@ function parseCard(cardStr: string): Card {
     return { rank, suit };
 }
 
-function parseCards(cards: string[]): Card[] {
+export function parseCards(cards: string[]): Card[] {
     return cards.map(parseCard);
 }
 
@@ -44,7 +49,7 @@ function parseCards(cards: string[]): Card[] {
  * @param n 選択する要素数
  * @returns n個の要素の組み合わせの配列
  */
-function combinations<T>(arr: T[], n: number): T[][] {
+export function combinations<T>(arr: T[], n: number): T[][] {
     if (n === 0) return [[]];
     if (n > arr.length) return [];
 
@@ -67,22 +72,22 @@ function combinations<T>(arr: T[], n: number): T[][] {
     return result;
 }
 
-// 7枚から最強の5枚を選ぶ
-function getBestFiveCards(cards: Card[]): Card[] {
+// 7枚から最強の5枚を選ぶ（rules: デッキ構成に応じた役の強さ）
+export function getBestFiveCards(cards: Card[], rules: HandRankingRules = STANDARD_HAND_RANKING): Card[] {
     if (cards.length <= 5) return cards;
 
     // すべての5枚の組み合わせを試す
     let bestHand = cards.slice(0, 5);
-    let bestRank = evaluateHand(bestHand);
+    let bestRank = evaluateHand(bestHand, rules);
 
     for (const hand of combinations(cards, 5)) {
-        const rank = evaluateHand(hand);
+        const rank = evaluateHand(hand, rules);
         if (rank.rank > bestRank.rank) {
             bestHand = hand;
             bestRank = rank;
         } else if (rank.rank === bestRank.rank) {
             // 同じ役の場合、高位カードで比較
-            const comparison = compareHands(hand, bestHand);
+            const comparison = compareHands(hand, bestHand, rules);
             if (comparison > 0) {
                 bestHand = hand;
                 bestRank = rank;
@@ -94,14 +99,18 @@ function getBestFiveCards(cards: Card[]): Card[] {
 }
 
 // PLO用: 手札から2枚、ボードから3枚を使用して最強の5枚を選ぶ
-function getBestPLOFiveCards(holeCards: Card[], boardCards: Card[]): Card[] {
+export function getBestPLOFiveCards(
+    holeCards: Card[],
+    boardCards: Card[],
+    rules: HandRankingRules = STANDARD_HAND_RANKING
+): Card[] {
     if (holeCards.length < 2 || boardCards.length < 3) {
         // フォールバック: 通常の評価
-        return getBestFiveCards([...holeCards, ...boardCards]);
+        return getBestFiveCards([...holeCards, ...boardCards], rules);
     }
 
     let bestHand = [...holeCards.slice(0, 2), ...boardCards.slice(0, 3)];
-    let bestRank = evaluateHand(bestHand);
+    let bestRank = evaluateHand(bestHand, rules);
 
     // 手札から2枚選ぶ組み合わせ (C(4,2) = 6通り、または C(n,2))
     const holeCombos = combinations(holeCards, 2);
@@ -111,12 +120,12 @@ function getBestPLOFiveCards(holeCards: Card[], boardCards: Card[]): Card[] {
     for (const holeCombo of holeCombos) {
         for (const boardCombo of boardCombos) {
             const hand = [...holeCombo, ...boardCombo];
-            const rank = evaluateHand(hand);
+            const rank = evaluateHand(hand, rules);
             if (rank.rank > bestRank.rank) {
                 bestHand = hand;
                 bestRank = rank;
             } else if (rank.rank === bestRank.rank) {
-                const comparison = compareHands(hand, bestHand);
+                const comparison = compareHands(hand, bestHand, rules);
                 if (comparison > 0) {
                     bestHand = hand;
                     bestRank = rank;
@@ -129,7 +138,7 @@ function getBestPLOFiveCards(holeCards: Card[], boardCards: Card[]): Card[] {
 }
 
 // PLO8用: 手札から2枚、ボードから3枚を使用して最強のローハンド5枚を選ぶ
-function getBestPLOLowFiveCards(holeCards: Card[], boardCards: Card[]): Card[] | null {
+export function getBestPLOLowFiveCards(holeCards: Card[], boardCards: Card[]): Card[] | null {
     if (holeCards.length < 2 || boardCards.length < 3) {
         return null;
     }
@@ -159,7 +168,7 @@ function getBestPLOLowFiveCards(holeCards: Card[], boardCards: Card[]): Card[] |
 }
 
 // 7枚から最強のローハンド5枚を選ぶ（8-or-better）
-function getBestLowFiveCards(cards: Card[]): Card[] | null {
+export function getBestLowFiveCards(cards: Card[]): Card[] | null {
     if (cards.length < 5) return null;
 
     let bestHand: Card[] | null = null;
@@ -180,7 +189,7 @@ function getBestLowFiveCards(cards: Card[]): Card[] | null {
 }
 
 // Stud 2-7用: 7枚から最強の2-7ローハンド5枚を選ぶ
-function getBestDeuce7FiveCards(cards: Card[]): Card[] {
+export function getBestDeuce7FiveCards(cards: Card[]): Card[] {
     if (cards.length <= 5) return cards;
 
     let bestHand = cards.slice(0, 5);
@@ -198,7 +207,7 @@ function getBestDeuce7FiveCards(cards: Card[]): Card[] {
 }
 
 // スプリットゲーム用: N枚からバドゥーギ最強の4枚を選ぶ
-function getBestBadugiFourCards(cards: Card[]): Card[] {
+export function getBestBadugiFourCards(cards: Card[]): Card[] {
     if (cards.length <= 4) return cards;
 
     let bestHand = cards.slice(0, 4);
@@ -215,8 +224,26 @@ function getBestBadugiFourCards(cards: Card[]): Card[] {
     return bestHand;
 }
 
+// Dramaha Hidugi用: 5枚からハイドゥーギ最強の4枚を選ぶ
+export function getBestHidugiFourCards(cards: Card[]): Card[] {
+    if (cards.length <= 4) return cards;
+
+    let bestHand = cards.slice(0, 4);
+    let bestResult = evaluateHidugiHand(bestHand);
+
+    for (const hand of combinations(cards, 4)) {
+        const result = evaluateHidugiHand(hand);
+        if (compareHidugiHands(result, bestResult) > 0) {
+            bestHand = hand;
+            bestResult = result;
+        }
+    }
+
+    return bestHand;
+}
+
 // Razz用: 7枚から最強のローハンド5枚を選ぶ
-function getBestRazzFiveCards(cards: Card[]): Card[] {
+export function getBestRazzFiveCards(cards: Card[]): Card[] {
     if (cards.length <= 5) return cards;
 
     let bestHand = cards.slice(0, 5);
@@ -250,13 +277,50 @@ export interface ShowdownResult {
         handRank: string;
         isMucked?: boolean;     // マックされたかどうか
     }[];
+    // ダブルボード: ボードごとの勝者（PLO_DB等）
+    boardResults?: {
+        board: string[];
+        winners: {
+            playerId: string;
+            playerName: string;
+            handRank: string;
+            amount: number;
+            qualifyingHoleCards?: string[];
+            qualifyingBoardCards?: string[];
+        }[];
+    }[];
+    // Run it Twice/3 Times: ランごとの勝者
+    runResults?: {
+        board: string[];
+        winners: {
+            playerId: string;
+            playerName: string;
+            handRank: string;
+            amount: number;
+            qualifyingHoleCards?: string[];
+            qualifyingBoardCards?: string[];
+        }[];
+    }[];
+    // レーキ（分配前にポットから徴収した額、徴収なしの場合は省略）
+    rake?: number;
+    rakeContributions?: RakeResult['contributions'];
 }
 
 export class ShowdownManager {
     private potManager: PotManager;
+    private rakeManager: RakeManager;
 
     constructor() {
         this.potManager = new PotManager();
+        this.rakeManager = new RakeManager();
+    }
+
+    /**
+     * ショーダウン結果にレーキ情報を付与
+     */
+    private withRake(result: ShowdownResult, rake: RakeResult | null): ShowdownResult {
+        if (!rake) return result;
+        return { ...result, rake: rake.amount, rakeContributions: rake.contributions };
     }
 
     /**
@@ -333,9 +397,18 @@ export class ShowdownManager {
 
     /**
      * ショーダウンを実行し、勝者を決定してポットを分配
-     * ゲームバリアントに応じた評価を行う
+     * 部屋にレーキ設定があれば分配前にポットから徴収する
      */
     executeShowdown(room: Room): ShowdownResult {
+        const rake = this.rakeManager.collectRake(room);
+        return this.withRake(this.resolveShowdown(room), rake);
+    }
+
+    /**
+     * 勝者を決定してポットを分配（レーキ徴収済みのポットを対象）
+     * ゲームバリアントに応じた評価を行う
+     */
+    private resolveShowdown(room: Room): ShowdownResult {
         const board = room.gameState.board;
         const variant = room.gameState.gameVariant;
         const variantConfig = getVariantConfig(variant);
@@ -351,6 +424,21 @@ export class ShowdownManager {
             return { winners: [], allHands: [] };
         }
 
+        // Cry Me a River: 消失を済ませていない手札（オールイン等）は最強の残し方を自動選択
+        if (variantConfig.vanishCards) {
+            this.applyAutoVanish(showdownPlayers, board, variantConfig.holeCardCount - variantConfig.vanishCards);
+        }
+
+        // Dramaha: ボードハンドとドローハンドで半分ずつ
+        if (variantConfig.isDramaha) {
+            return this.executeDramahaShowdown(room, showdownPlayers, board);
+        }
+
+        // ダブルボード: ポットをボードごとに半分ずつ評価
+        if ((variantConfig.boardCount || 1) > 1 && room.gameState.board2) {
+            return this.executeDoubleBoardShowdown(room, showdownPlayers, [board, room.gameState.board2]);
+        }
+
         // ゲームバリアントに応じた評価
         switch (variantConfig.handEvaluation) {
             case 'highlow':
@@ -376,6 +464,107 @@ export class ShowdownManager {
         }
     }
 
+    /**
+     * Run it Twice/3 Times: 各ポット（サイドポット含む）をラン数で分割し、ランごとにショーダウンを行う
+     * 端数は1本目のランへ
+     * @param boards ランごとのボード
+     */
+    executeMultiRunShowdown(room: Room, boards: string[][]): ShowdownResult {
+        if (boards.length <= 1) {
+            if (boards.length === 1) room.gameState.board = boards[0];
+            return this.executeShowdown(room);
+        }
+
+        // レーキは分割前のポット全体から1回だけ徴収
+        const rake = this.rakeManager.collectRake(room);
+        const { main, side } = room.gameState.pot;
+        const splitAmount = (amount: number, runIdx: number) =>
+            Math.floor(amount / boards.length) + (runIdx < amount % boards.length ? 1 : 0);
+
+        const runShowdowns = boards.map((board, runIdx) => {
+            room.gameState.board = board;
+            room.gameState.pot = {
+                main: splitAmount(main, runIdx),
+                side: side.map(pot => ({ ...pot, amount: splitAmount(pot.amount, runIdx) }))
+            };
+            return this.resolveShowdown(room);
+        });
+
+        room.gameState.board = boards[0];
+        room.gameState.pot = { main: 0, side: [] };
+
+        const runResults: ShowdownResult['runResults'] = runShowdowns.map((result, runIdx) => ({
+            board: [...boards[runIdx]],
+            winners: result.winners.map(w => ({
+                playerId: w.playerId,
+                playerName: w.playerName,
+                handRank: w.handRank,
+                amount: w.amount,
+                qualifyingHoleCards: w.qualifyingHoleCards,
+                qualifyingBoardCards: w.qualifyingBoardCards
+            }))
+        }));
+
+        // プレイヤー単位に集計
+        const winnersMap = new Map<string, ShowdownResult['winners'][number] & { rankParts: string[] }>();
+        runShowdowns.forEach((result, runIdx) => {
+            for (const w of result.winners) {
+                const rankPart = `Run ${runIdx + 1}: ${w.handRank}`;
+                const existing = winnersMap.get(w.playerId);
+                if (existing) {
+                    existing.amount += w.amount;
+                    existing.rankParts.push(rankPart);
+                } else {
+                    winnersMap.set(w.playerId, { ...w, rankParts: [rankPart] });
+                }
+            }
+        });
+
+        const winners: ShowdownResult['winners'] = Array.from(winnersMap.values()).map(({ rankParts, ...w }) => ({
+            ...w,
+            handRank: rankParts.join(' / ')
+        }));
+
+        // どれかのランで開示されていれば開示扱い
+        const allHands = runShowdowns[0].allHands.map(hand => {
+            const perRun = runShowdowns.map(result => result.allHands.find(h => h.playerId === hand.playerId));
+            const shown = perRun.find(h => h && !h.isMucked && h.hand);
+            return {
+                ...hand,
+                hand: shown ? shown.hand : hand.hand,
+                handRank: perRun.map((h, runIdx) => `Run ${runIdx + 1}: ${h?.handRank || '?'}`).join(' / '),
+                isMucked: !shown
+            };
+        });
+
+        return this.withRake({ winners, allHands, runResults }, rake);
+    }
+
+    /**
+     * Cry Me a River: 手札が残すべき枚数より多いプレイヤーについて、
+     * ボードと合わせて最も強くなる組み合わせだけを残す
+     */
+    private applyAutoVanish(players: Player[], board: string[], keepCount: number): void {
+        const boardCards = parseCards(board);
+
+        for (const player of players) {
+            if (!player.hand || player.hand.length <= keepCount) continue;
+
+            let bestKeep: string[] = player.hand.slice(0, keepCount);
+            let bestFive: Card[] | null = null;
+            for (const keep of combinations(player.hand, keepCount)) {
+                const five = getBestFiveCards([...parseCards(keep), ...boardCards]);
+                if (!bestFive || compareHands(five, bestFive) > 0) {
+                    bestFive = five;
+                    bestKeep = keep;
+                }
+            }
+
+            console.log(`💧 ${player.name} auto-vanished to ${bestKeep.join(' ')}`);
+            player.hand = bestKeep;
+        }
+    }
+
     /**
      * ハイハンドのみの評価（NLH, PLO等）
      */
@@ -384,6 +573,9 @@ export class ShowdownManager {
         const variantConfig = getVariantConfig(variant);
         const useOmahaSelection = variantConfig.holeCardsForSelection !== undefined;
         const isAllInShowdown = this.hasAllInPlayer(room);
+        // ショートデッキ等: デッキ構成に応じた役の強さ
+        const rules = getHandRankingRules(variantConfig);
+        const compareFunc = (a: Card[], b: Card[]) => compareHands(a, b, rules);
 
         // ショーダウン順序を決定
         const orderedPlayers = this.getShowdownOrder(room, players);
@@ -396,10 +588,10 @@ export class ShowdownManager {
             // Omaha系: 手札から必ずN枚使用 + ボード3枚の組み合わせ
             // Hold'em系: 全カードから最強の5枚
             const bestFive = useOmahaSelection
-                ? getBestPLOFiveCards(holeCards, boardCards)
-                : getBestFiveCards([...holeCards, ...boardCards]);
+                ? getBestPLOFiveCards(holeCards, boardCards, rules)
+                : getBestFiveCards([...holeCards, ...boardCards], rules);
 
-            const handResult = evaluateHand(bestFive);
+            const handResult = evaluateHand(bestFive, rules);
 
             return {
                 player,
@@ -410,7 +602,7 @@ export class ShowdownManager {
         });
 
         // サイドポット対応のポット分配（勝者の決定）
-        const winners = this.distributeToWinnersWithSidePots(room, evaluations, compareHands, board);
+        const winners = this.distributeToWinnersWithSidePots(room, evaluations, compareFunc, board);
         const winnerIds = new Set(winners.map(w => w.playerId));
 
         // 手札の表示/マック判定
@@ -429,7 +621,7 @@ export class ShowdownManager {
             console.log(`🏆 All-In Showdown: All hands revealed`);
         } else {
             // 通常ショーダウン: 順序に従ってShow/Muck判定
-            allHands = this.determineShowMuck(evaluations, winnerIds, compareHands);
+            allHands = this.determineShowMuck(evaluations, winnerIds, compareFunc);
         }
 
         console.log(`🏆 Showdown: ${winners.map(w => `${w.playerName} wins ${w.amount} (${w.handRank})`).join(', ')}`);
@@ -1103,7 +1295,8 @@ export class ShowdownManager {
         const orderedPlayers = this.getShowdownOrder(room, players);
 
         const evaluations = orderedPlayers.map(player => {
-            const cards = parseCards(player.hand!);
+            // 8人Studの山札切れ時はコミュニティカードも使う
+            const cards = parseCards([...player.hand!, ...room.gameState.board]);
             const bestFive = getBestDeuce7FiveCards(cards);
             const handResult = evaluateDeuceSeven(bestFive);
             return { player, handResult, handRank: handResult.name };
@@ -1176,7 +1369,8 @@ export class ShowdownManager {
         const buildSideEvals = (sideType: string) => {
             const ev = SIDE_EVALUATORS[sideType];
             const evals: SideEval[] = orderedPlayers.map(player => {
-                const cards = parseCards(player.hand!);
+                // Stud系は山札切れ時のコミュニティカードも含める
+                const cards = parseCards(isStud ? [...player.hand!, ...room.gameState.board] : player.hand!);
                 const handResult = ev.evaluate(cards, isStud);
                 return { player, handResult, handRank: handResult.name };
             });
@@ -1281,6 +1475,289 @@ export class ShowdownManager {
         return { winners, allHands };
     }
 
+    /**
+     * ダブルボード評価（PLO_DB）
+     * 各ポット（メイン・サイド）をボードごとに半分ずつ分け、それぞれOmahaハイで勝者を決定
+     * 端数チップは1枚目のボードに付ける
+     */
+    private executeDoubleBoardShowdown(room: Room, players: Player[], boards: string[][]): ShowdownResult {
+        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const useOmahaSelection = variantConfig.holeCardsForSelection !== undefined;
+        const isAllInShowdown = this.hasAllInPlayer(room);
+        const orderedPlayers = this.getShowdownOrder(room, players);
+
+        // ボードごとの評価
+        const boardEvaluations = boards.map(board => {
+            const boardCards = parseCards(board);
+            return orderedPlayers.map(player => {
+                const holeCards = parseCards(player.hand!);
+                const bestFive = useOmahaSelection
+                    ? getBestPLOFiveCards(holeCards, boardCards)
+                    : getBestFiveCards([...holeCards, ...boardCards]);
+                const handResult = evaluateHand(bestFive);
+                return { player, bestFive, handResult, handRank: handResult.name };
+            });
+        });
+
+        // ボードごとの勝者マップ（distributePotで加算）
+        const boardWinnersMaps = boards.map(() =>
+            new Map<string, { player: Player; handRank: string; amount: number; bestFive: Card[] }>()
+        );
+
+        const allEligibleIds = orderedPlayers.map(p => p.socketId);
+        const potSlices = [
+            { amount: room.gameState.pot.main, eligiblePlayers: allEligibleIds },
+            ...room.gameState.pot.side.map(p => ({ amount: p.amount, eligiblePlayers: p.eligiblePlayers }))
+        ];
+
+        for (const pot of potSlices) {
+            if (pot.amount <= 0) continue;
+
+            // 端数は1枚目のボードへ
+            const boardShare = Math.floor(pot.amount / boards.length);
+            const boardRemainder = pot.amount % boards.length;
+
+            boards.forEach((_, boardIdx) => {
+                const amount = boardShare + (boardIdx < boardRemainder ? 1 : 0);
+                const eligible = boardEvaluations[boardIdx].filter(e =>
+                    pot.eligiblePlayers.includes(e.player.socketId)
+                );
+                this.distributePot(amount, `Board ${boardIdx + 1}`, eligible, compareHands, boardWinnersMaps[boardIdx]);
+            });
+        }
+
+        room.gameState.pot = { main: 0, side: [] };
+
+        const boardResults: ShowdownResult['boardResults'] = boards.map((board, boardIdx) => {
+            const boardCards = parseCards(board);
+            return {
+                board: [...board],
+                winners: Array.from(boardWinnersMaps[boardIdx].values()).map(w => {
+                    const { qualifyingHoleCards, qualifyingBoardCards } = this.identifyQualifyingCards(
+                        w.bestFive,
+                        parseCards(w.player.hand!),
+                        boardCards
+                    );
+                    return {
+                        playerId: w.player.socketId,
+                        playerName: w.player.name,
+                        handRank: w.handRank,
+                        amount: w.amount,
+                        qualifyingHoleCards,
+                        qualifyingBoardCards
+                    };
+                })
+            };
+        });
+
+        // プレイヤー単位に集計
+        const winnersMap = new Map<string, { player: Player; amount: number; rankParts: string[]; qualifyingHoleCards: string[] }>();
+        boardResults.forEach((result, boardIdx) => {
+            for (const w of result.winners) {
+                const player = orderedPlayers.find(p => p.socketId === w.playerId)!;
+                const existing = winnersMap.get(w.playerId);
+                const rankPart = `Board ${boardIdx + 1}: ${w.handRank}`;
+                if (existing) {
+                    existing.amount += w.amount;
+                    existing.rankParts.push(rankPart);
+                } else {
+                    winnersMap.set(w.playerId, {
+                        player,
+                        amount: w.amount,
+                        rankParts: [rankPart],
+                        qualifyingHoleCards: w.qualifyingHoleCards || []
+                    });
+                }
+            }
+        });
+
+        const winners: ShowdownResult['winners'] = Array.from(winnersMap.values()).map(w => ({
+            playerId: w.player.socketId,
+            playerName: w.player.name,
+            hand: [...w.player.hand!],
+            handRank: w.rankParts.join(' / '),
+            amount: w.amount,
+            qualifyingHoleCards: w.qualifyingHoleCards
+        }));
+
+        const winnerIds = new Set(winners.map(w => w.playerId));
+
+        // どちらかのボードで勝っていればShow、両方負けならMuck（オールイン時は全員オープン）
+        const allHands = orderedPlayers.map(player => {
+            const show = winnerIds.has(player.socketId) || isAllInShowdown;
+            const rankStr = boardEvaluations
+                .map((evals, boardIdx) => {
+                    const e = evals.find(ev => ev.player.socketId === player.socketId);
+                    return `Board ${boardIdx + 1}: ${e?.handRank || '?'}`;
+                })
+                .join(' / ');
+            return {
+                playerId: player.socketId,
+                playerName: player.name,
+                hand: show ? [...player.hand!] : null,
+                handRank: show ? rankStr : 'Mucked',
+                isMucked: !show
+            };
+        });
+
+        console.log(`🏆 Double Board Showdown: ${winners.map(w => `${w.playerName} wins ${w.amount} (${w.handRank})`).join(', ')}`);
+
+        return { winners, allHands, boardResults };
+    }
+
+    /**
+     * Dramaha評価
+     * 各ポットを半分に分け、ボードハンド（Omahaハイ: 手札2枚+ボード3枚）とドローハンド（手札5枚）で分配
+     * Pick'em: ドローハンドは各プレイヤーの宣言（high=ハイ / low=2-7ロー）ごとにさらに半分
+     */
+    private executeDramahaShowdown(room: Room, players: Player[], board: string[]): ShowdownResult {
+        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const isAllInShowdown = this.hasAllInPlayer(room);
+        const orderedPlayers = this.getShowdownOrder(room, players);
+        const boardCards = parseCards(board);
+
+        // ドローハンドの評価タイプ別のevaluator/comparator/名称
+        type DramahaEval = { player: Player; handResult: any; handRank: string };
+        const DRAW_EVALUATORS: Record<string, {
+            name: string;
+            evaluate: (cards: Card[]) => any;
+            compare: (a: any, b: any) => number;
+        }> = {
+            'high':      { name: 'High',   evaluate: c => ({ ...evaluateHand(c), cards: c }),           compare: (a, b) => compareHands(a.cards, b.cards) },
+            '2-7':       { name: '2-7',    evaluate: c => evaluateDeuceSeven(c),                        compare: compareDeuceSeven },
+            'badugi':    { name: 'Badugi', evaluate: c => evaluateBadugiHand(getBestBadugiFourCards(c)), compare: compareBadugiHands },
+            'hidugi':    { name: 'Hidugi', evaluate: c => evaluateHidugiHand(getBestHidugiFourCards(c)), compare: compareHidugiHands },
+            'dramaha49': { name: '49',     evaluate: c => evaluatePointsHand(c),                        compare: (a, b) => comparePointsHands(a, b) },
+            'dramaha0':  { name: '0',      evaluate: c => evaluatePointsHand(c),                        compare: (a, b) => comparePointsHands(a, b, true) },
+        };
+
+        // ボードハンド（Omahaハイ）
+        const boardEvals: DramahaEval[] = orderedPlayers.map(player => {
+            const handResult = DRAW_EVALUATORS['high'].evaluate(getBestPLOFiveCards(parseCards(player.hand!), boardCards));
+            return { player, handResult, handRank: handResult.name };
+        });
+        const boardSide = {
+            name: 'Board',
+            evals: boardEvals,
+            compare: (a: DramahaEval, b: DramahaEval) => DRAW_EVALUATORS['high'].compare(a.handResult, b.handResult)
+        };
+
+        const buildDrawSide = (evalType: string, candidates: Player[]) => {
+            const ev = DRAW_EVALUATORS[evalType] || DRAW_EVALUATORS['high'];
+            const evals: DramahaEval[] = candidates.map(player => {
+                const handResult = ev.evaluate(parseCards(player.hand!));
+                return { player, handResult, handRank: handResult.name };
+            });
+            return {
+                name: `Draw ${ev.name}`,
+                evals,
+                compare: (a: DramahaEval, b: DramahaEval) => ev.compare(a.handResult, b.handResult)
+            };
+        };
+
+        // ドロー側: Pick'emは宣言ごと（未宣言はhigh扱い）、それ以外は設定の評価タイプ
+        const drawSides = variantConfig.dramahaPickem
+            ? [
+                buildDrawSide('high', orderedPlayers.filter(p => p.dramahaDeclaration !== 'low')),
+                buildDrawSide('2-7', orderedPlayers.filter(p => p.dramahaDeclaration === 'low')),
+            ]
+            : [buildDrawSide(variantConfig.dramahaDrawEval || 'high', orderedPlayers)];
+
+        // ポット分配
+        const winnersMap = new Map<string, { player: Player; amount: number; rankParts: Map<string, string> }>();
+
+        const awardSide = (
+            side: { name: string; evals: DramahaEval[]; compare: (a: DramahaEval, b: DramahaEval) => number },
+            eligibleIds: string[],
+            potAmount: number
+        ) => {
+            const eligible = side.evals.filter(e => eligibleIds.includes(e.player.socketId));
+            if (eligible.length === 0 || potAmount <= 0) return;
+            let best = eligible[0];
+            for (const e of eligible) {
+                if (side.compare(e, best) > 0) best = e;
+            }
+            const sideWinners = eligible.filter(e => side.compare(e, best) === 0);
+            const share = Math.floor(potAmount / sideWinners.length);
+            const rem = potAmount % sideWinners.length;
+            sideWinners.forEach((w, i) => {
+                const amount = share + (i < rem ? 1 : 0);
+                w.player.stack += amount;
+                const existing = winnersMap.get(w.player.socketId);
+                if (existing) {
+                    existing.amount += amount;
+                    existing.rankParts.set(side.name, w.handRank);
+                } else {
+                    winnersMap.set(w.player.socketId, {
+                        player: w.player,
+                        amount,
+                        rankParts: new Map([[side.name, w.handRank]])
+                    });
+                }
+            });
+        };
+
+        const allEligibleIds = orderedPlayers.map(p => p.socketId);
+        const potSlices = [
+            { amount: room.gameState.pot.main, eligiblePlayers: allEligibleIds },
+            ...room.gameState.pot.side.map(p => ({ amount: p.amount, eligiblePlayers: p.eligiblePlayers }))
+        ];
+
+        for (const pot of potSlices) {
+            if (pot.amount <= 0) continue;
+            const boardHalf = Math.floor(pot.amount / 2);
+            const drawHalf = pot.amount - boardHalf;
+
+            awardSide(boardSide, pot.eligiblePlayers, boardHalf);
+
+            // 資格者がいるドロー側だけで分ける（Pick'emで片方の宣言のみなら全額）
+            const activeDrawSides = drawSides.filter(side =>
+                side.evals.some(e => pot.eligiblePlayers.includes(e.player.socketId))
+            );
+            const drawShare = Math.floor(drawHalf / activeDrawSides.length);
+            activeDrawSides.forEach((side, i) => {
+                const amount = i === activeDrawSides.length - 1
+                    ? drawHalf - drawShare * (activeDrawSides.length - 1)
+                    : drawShare;
+                awardSide(side, pot.eligiblePlayers, amount);
+            });
+        }
+
+        room.gameState.pot = { main: 0, side: [] };
+
+        const winners: ShowdownResult['winners'] = Array.from(winnersMap.values()).map(w => ({
+            playerId: w.player.socketId,
+            playerName: w.player.name,
+            hand: [...w.player.hand!],
+            handRank: Array.from(w.rankParts.entries()).map(([name, rank]) => `${name}: ${rank}`).join(' / '),
+            amount: w.amount
+        }));
+
+        const winnerIds = new Set(winners.map(w => w.playerId));
+
+        const allHands = orderedPlayers.map(player => {
+            const show = winnerIds.has(player.socketId) || isAllInShowdown;
+            const rankStr = [boardSide, ...drawSides]
+                .map(side => {
+                    const e = side.evals.find(ev => ev.player.socketId === player.socketId);
+                    return e ? `${side.name}: ${e.handRank}` : null;
+                })
+                .filter(Boolean)
+                .join(' / ');
+            return {
+                playerId: player.socketId,
+                playerName: player.name,
+                hand: show ? [...player.hand!] : null,
+                handRank: show ? rankStr : 'Mucked',
+                isMucked: !show
+            };
+        });
+
+        console.log(`🏆 Dramaha Showdown: ${winners.map(w => `${w.playerName} wins ${w.amount} (${w.handRank})`).join(', ')}`);
+
+        return { winners, allHands };
+    }
+
     /**
      * 1人を除いて全員フォールドした場合の処理
      * 不戦勝のため、勝者のハンドは表示しない（Muck扱い）
@@ -1295,6 +1772,7 @@ export class ShowdownManager {
             return { winners: [], allHands: [] };
         }
 
+        const rake = this.rakeManager.collectRake(room, true);
         const totalPot = room.gameState.pot.main +
             room.gameState.pot.side.reduce((sum, s) => sum + s.amount, 0);
 
@@ -1305,7 +1783,7 @@ export class ShowdownManager {
 
         // 不戦勝: 勝者のハンドは表示しない（hand: null）
         // ポーカールール: ショーダウンに進んでいないため、ハンドを見せる義務はない
-        return {
+        return this.withRake({
             winners: [{
                 playerId: lastPlayer.socketId,
                 playerName: lastPlayer.name,
@@ -1314,6 +1792,6 @@ export class ShowdownManager {
                 amount: totalPot
             }],
             allHands: []
-        };
+        }, rake);
     }
 }
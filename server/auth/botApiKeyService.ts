@@ -0,0 +1,128 @@
+/**
+ * 外部BOT API のAPIキー
+ * ユーザーが自分のBOT用に発行し、BOTは Socket.IO 接続時に auth.botKey で送る
+ * キー本体は発行時に一度だけ返し、DBには SHA-256 ハッシュだけを保存する
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import type { JwtPayload } from './authService.js';
+
+const prisma = new PrismaClient();
+
+const BOT_KEY_PREFIX = 'mpb_';
+const MAX_BOT_KEYS_PER_USER = 5;
+
+export interface BotApiKeySummary {
+    id: string;
+    name: string;
+    prefix: string;            // 一覧で見分けるためのキーの先頭
+    createdAt: string;
+    lastUsedAt: string | null;
+}
+
+export interface BotApiKeyResult {
+    success: boolean;
+    key?: string;              // 発行時のみ
+    apiKey?: BotApiKeySummary;
+    error?: string;
+}
+
+/** 接続したBOT（チップは発行したユーザーのウォレットから出す） */
+export interface BotIdentity {
+    keyId: string;
+    name: string;
+    user: JwtPayload;          // displayName はBOTの名前
+}
+
+export function generateBotApiKey(): string {
+    return BOT_KEY_PREFIX + randomBytes(24).toString('base64url');
+}
+
+export function hashBotApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * APIキー発行
+ */
+export async function createBotApiKey(userId: string, name: string): Promise<BotApiKeyResult> {
+    if (!name || name.length < 1 || name.length > 20) {
+        return { success: false, error: 'BOT名は1〜20文字で入力してください' };
+    }
+
+    const activeKeys = await prisma.botApiKey.count({ where: { userId, revokedAt: null } });
+    if (activeKeys >= MAX_BOT_KEYS_PER_USER) {
+        return { success: false, error: `APIキーは${MAX_BOT_KEYS_PER_USER}個まで発行できます` };
+    }
+
+    const key = generateBotApiKey();
+    const apiKey = await prisma.botApiKey.create({
+        data: {
+            userId,
+            name,
+            keyHash: hashBotApiKey(key),
+            prefix: key.slice(0, BOT_KEY_PREFIX.length + 6),
+        },
+    });
+
+    return { success: true, key, apiKey: toSummary(apiKey) };
+}
+
+/**
+ * 自分のAPIキー一覧（無効化したものは除く）
+ */
+export async function listBotApiKeys(userId: string): Promise<BotApiKeySummary[]> {
+    const keys = await prisma.botApiKey.findMany({
+        where: { userId, revokedAt: null },
+        orderBy: { createdAt: 'asc' },
+    });
+    return keys.map(toSummary);
+}
+
+/**
+ * APIキー無効化（接続中のBOTはそのまま、次の接続から拒否）
+ */
+export async function revokeBotApiKey(userId: string, keyId: string): Promise<boolean> {
+    const result = await prisma.botApiKey.updateMany({
+        where: { id: keyId, userId, revokedAt: null },
+        data: { revokedAt: new Date() },
+    });
+    return result.count > 0;
+}
+
+/**
+ * APIキーの検証（無効なキーは null）
+ */
+export async function verifyBotApiKey(key: string): Promise<BotIdentity | null> {
+    if (typeof key !== 'string' || !key.startsWith(BOT_KEY_PREFIX)) return null;
+
+    const apiKey = await prisma.botApiKey.findUnique({
+        where: { keyHash: hashBotApiKey(key) },
+        include: { user: true },
+    });
+    if (!apiKey || apiKey.revokedAt) return null;
+
+    await prisma.botApiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } });
+
+    return {
+        keyId: apiKey.id,
+        name: apiKey.name,
+        user: {
+            userId: apiKey.user.id,
+            username: apiKey.user.username,
+            displayName: apiKey.name,
+            avatarIcon: 'robot',
+        },
+    };
+}
+
+function toSummary(apiKey: any): BotApiKeySummary {
+    return {
+        id: apiKey.id,
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        createdAt: apiKey.createdAt.toISOString(),
+        lastUsedAt: apiKey.lastUsedAt ? apiKey.lastUsedAt.toISOString() : null,
+    };
+}
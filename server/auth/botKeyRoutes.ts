@@ -0,0 +1,64 @@
+/**
+ * 外部BOT API のAPIキー REST API
+ * GET    /api/bot-keys     - 自分のAPIキー一覧
+ * POST   /api/bot-keys     - APIキー発行（キー本体はこのレスポンスでのみ返す）
+ * DELETE /api/bot-keys/:id - APIキー無効化
+ */
+
+import { Router } from 'express';
+import { authMiddleware } from './authMiddleware.js';
+import { createBotApiKey, listBotApiKeys, revokeBotApiKey } from './botApiKeyService.js';
+
+const router = Router();
+
+/**
+ * GET /api/bot-keys
+ */
+router.get('/', authMiddleware, async (req, res) => {
+    try {
+        const keys = await listBotApiKeys(req.user!.userId);
+        res.json({ keys });
+    } catch (error) {
+        console.error('List bot keys error:', error);
+        res.status(500).json({ message: 'サーバーエラーが発生しました' });
+    }
+});
+
+/**
+ * POST /api/bot-keys
+ */
+router.post('/', authMiddleware, async (req, res) => {
+    try {
+        const { name } = req.body;
+        const result = await createBotApiKey(req.user!.userId, name);
+
+        if (!result.success) {
+            res.status(400).json({ message: result.error });
+            return;
+        }
+
+        res.json({ key: result.key, apiKey: result.apiKey });
+    } catch (error) {
+        console.error('Create bot key error:', error);
+        res.status(500).json({ message: 'サーバーエラーが発生しました' });
+    }
+});
+
+/**
+ * DELETE /api/bot-keys/:id
+ */
+router.delete('/:id', authMiddleware, async (req, res) => {
+    try {
+        const revoked = await revokeBotApiKey(req.user!.userId, String(req.params.id));
+        if (!revoked) {
+            res.status(404).json({ message: 'APIキーが見つかりません' });
+            return;
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Revoke bot key error:', error);
+        res.status(500).json({ message: 'サーバーエラーが発生しました' });
+    }
+});
+
+export default router;
@@ -0,0 +1,119 @@
+/**
+ * 外部BOT API のリファレンスクライアント（テスト・自作BOTの出発点用）
+ * APIキーで接続し、キャッシュ卓に着席して bot-decision-request に strategy の答えを返す
+ *
+ * 使い方:
+ *   const client = new BotApiClient({ serverUrl: 'http://localhost:3000', botKey: 'mpb_...', strategy: myStrategy });
+ *   await client.connect();
+ *   await client.joinTable('nlh-1-2', 200);
+ *
+ * 切断時の自動再接続はしない（再接続後に席へ戻るには join-room の resumeToken が要る）
+ */
+
+import { io, type Socket } from 'socket.io-client';
+import { BOT_PROTOCOL_VERSION, type BotDecision, type BotDecisionRequest, type BotHello } from './botProtocol.js';
+
+/** 依頼への答え（protocolVersion / decisionId はクライアントが付ける） */
+export type BotAnswer = Omit<BotDecision, 'protocolVersion' | 'decisionId'>;
+
+export type BotStrategy = (request: BotDecisionRequest) => BotAnswer | Promise<BotAnswer>;
+
+export interface BotApiClientOptions {
+    serverUrl: string;
+    botKey: string;
+    strategy?: BotStrategy;
+}
+
+/**
+ * 何もしない戦略: チェック > コール > フォールド、ドローはスタンドパット、カード消失は先頭から
+ */
+export const passiveStrategy: BotStrategy = (request) => {
+    switch (request.kind) {
+        case 'draw':
+            return { discardIndexes: [], ...(request.draw?.declare ? { declaration: 'high' as const } : {}) };
+        case 'vanish':
+            return { discardIndexes: Array.from({ length: request.vanish?.count ?? 0 }, (_, i) => i) };
+        default: {
+            const validActions = request.legal?.validActions ?? [];
+            if (validActions.includes('CHECK')) return { action: { type: 'CHECK' } };
+            if (validActions.includes('CALL')) return { action: { type: 'CALL' } };
+            return { action: { type: 'FOLD' } };
+        }
+    }
+};
+
+export class BotApiClient {
+    private socket: Socket | null = null;
+    private strategy: BotStrategy;
+
+    constructor(private options: BotApiClientOptions) {
+        this.strategy = options.strategy ?? passiveStrategy;
+    }
+
+    /**
+     * 接続して bot-hello を待つ（APIキーやバージョンが違えば Error）
+     */
+    connect(): Promise<BotHello> {
+        const socket = io(this.options.serverUrl, {
+            auth: { botKey: this.options.botKey, protocolVersion: BOT_PROTOCOL_VERSION },
+            transports: ['websocket'],
+            reconnection: false,
+        });
+        this.socket = socket;
+        socket.on('bot-decision-request', (request: BotDecisionRequest) => {
+            void this.answer(request);
+        });
+
+        return new Promise((resolve, reject) => {
+            socket.once('bot-hello', (hello: BotHello) => resolve(hello));
+            socket.once('connect_error', (error: Error) => reject(error));
+        });
+    }
+
+    /**
+     * キャッシュ卓に着席（quick-join）。着席した席番号を返す
+     */
+    joinTable(roomId: string, buyIn: number): Promise<number> {
+        const socket = this.requireSocket();
+        return new Promise((resolve, reject) => {
+            const onSeated = (data: { seatIndex: number }) => {
+                socket.off('error', onError);
+                resolve(data.seatIndex);
+            };
+            const onError = (data: { message: string }) => {
+                socket.off('sit-down-success', onSeated);
+                reject(new Error(data.message));
+            };
+            socket.once('sit-down-success', onSeated);
+            socket.once('error', onError);
+            socket.emit('quick-join', { roomId, buyIn });
+        });
+    }
+
+    disconnect() {
+        this.socket?.disconnect();
+        this.socket = null;
+    }
+
+    private async answer(request: BotDecisionRequest) {
+        try {
+            const answer = await this.strategy(request);
+            const decision: BotDecision = {
+                ...answer,
+                protocolVersion: BOT_PROTOCOL_VERSION,
+                decisionId: request.decisionId,
+            };
+            this.socket?.emit('bot-decision', decision);
+        } catch (error) {
+            // 答えなければサーバー側の持ち時間切れでチェック/フォールドになる
+            console.error(`❌ Bot strategy failed for ${request.kind} decision:`, error);
+        }
+    }
+
+    private requireSocket(): Socket {
+        if (!this.socket) {
+            throw new Error('Not connected');
+        }
+        return this.socket;
+    }
+}
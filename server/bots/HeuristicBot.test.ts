@@ -0,0 +1,185 @@
+/**
+ * Heuristic Bot Tests
+ * 手の強さ・ドロー/カード消失の選択・スタイル別のアクション
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HeuristicBot, drawsRemaining, isBotStyle } from './HeuristicBot.js';
+import { chooseDiscards, chooseVanish, estimateHandStrength } from './handStrength.js';
+import { getVariantConfig } from '../gameVariants.js';
+import type { ActionType, Player, Room } from '../types.js';
+
+const NEVER_BLUFF = () => 0.99;
+
+function createPlayer(socketId: string, hand: string[], stack = 1000, bet = 0): Player {
+    return { socketId, name: socketId, stack, bet, totalBet: bet, status: 'ACTIVE', hand };
+}
+
+function createRoom(gameVariant: string, player: Player, options: { board?: string[]; currentBet?: number; pot?: number; street?: number } = {}): Room {
+    return {
+        id: 'bot-test',
+        config: { maxPlayers: 6, smallBlind: 5, bigBlind: 10 },
+        players: [player, createPlayer('villain', [])],
+        dealerBtnIndex: 1,
+        activePlayerIndex: 0,
+        streetStarterIndex: 0,
+        lastAggressorIndex: -1,
+        rotation: { enabled: false, gamesList: [gameVariant], currentGameIndex: 0, handsPerGame: 8 },
+        metaGame: { standUp: { isActive: false, remainingPlayers: [] }, sevenDeuce: false },
+        createdAt: Date.now(),
+        gameState: {
+            status: 'PLAYING' as any,
+            street: options.street ?? 0,
+            gameVariant,
+            board: options.board ?? [],
+            pot: { main: options.pot ?? 15, side: [] },
+            deckStatus: { stubCount: 0, burnCount: 0 },
+            currentBet: options.currentBet ?? 0,
+            minRaise: 10,
+            handNumber: 1,
+            raisesThisRound: 0,
+            deck: [],
+        },
+    };
+}
+
+function turn(validActions: ActionType[], minBetTo = 20, maxBetTo = 1000) {
+    return { validActions, minBetTo, maxBetTo };
+}
+
+describe('estimateHandStrength', () => {
+    const nlh = getVariantConfig('NLH');
+
+    it('ホールデム: プリフロップはペア・高いカードほど強く、フロップ後は完成役で評価する', () => {
+        const aces = estimateHandStrength(['A♠', 'A♥'], [], nlh);
+        const sevenDeuce = estimateHandStrength(['7♠', '2♥'], [], nlh);
+        expect(aces).toBeGreaterThan(0.8);
+        expect(sevenDeuce).toBeLessThan(0.2);
+
+        const set = estimateHandStrength(['9♠', '9♥'], ['9♦', 'K♣', '4♠'], nlh);
+        const air = estimateHandStrength(['7♠', '2♥'], ['9♦', 'K♣', '4♠'], nlh);
+        expect(set).toBeGreaterThan(0.7);
+        expect(air).toBeLessThan(0.3);
+    });
+
+    it('ボードだけでできている役は弱く見る', () => {
+        const board = ['Q♠', 'Q♥', '8♦', '8♣', '3♠'];
+        expect(estimateHandStrength(['4♠', '2♥'], board, nlh))
+            .toBeLessThan(estimateHandStrength(['Q♦', '2♥'], board, nlh));
+    });
+
+    it('Omaha は手札から2枚の組み合わせで見る（4枚のうちペアがあれば強い）', () => {
+        const plo = getVariantConfig('PLO');
+        expect(estimateHandStrength(['A♠', 'A♥', 'K♠', 'Q♥'], [], plo))
+            .toBeGreaterThan(estimateHandStrength(['9♠', '6♥', '4♦', '2♣'], [], plo));
+    });
+
+    it('ローボール: 完成した良いローは強く、ペアやストレートは弱い', () => {
+        const td = getVariantConfig('2-7_TD');
+        expect(estimateHandStrength(['7♠', '5♥', '4♦', '3♣', '2♠'], [], td)).toBeGreaterThan(0.9);
+        expect(estimateHandStrength(['6♠', '5♥', '4♦', '3♣', '2♠'], [], td)).toBeLessThan(0.2);
+        // ドローが残っていれば、低いカードが4枚ある手は作れそうな手として評価する
+        const draw = ['7♠', '5♥', '3♣', '2♠', 'K♦'];
+        expect(estimateHandStrength(draw, [], td, 3)).toBeGreaterThan(estimateHandStrength(draw, [], td, 0));
+    });
+
+    it('Razz の3rdストリートは低いカードの数で見る', () => {
+        const razz = getVariantConfig('RAZZ');
+        expect(estimateHandStrength(['A♠', '2♥', '3♦'], [], razz))
+            .toBeGreaterThan(estimateHandStrength(['K♠', 'Q♥', 'J♦'], [], razz));
+    });
+});
+
+describe('chooseDiscards', () => {
+    it('2-7: ペアと高いカードを捨て、完成した良いローはスタンドパット', () => {
+        const td = getVariantConfig('2-7_TD');
+        expect(chooseDiscards(['2♠', '3♥', '4♦', 'K♣', 'K♠'], td)).toEqual([3, 4]);
+        expect(chooseDiscards(['2♠', '2♥', '4♦', '7♣', '8♠'], td)).toEqual([1]);
+        expect(chooseDiscards(['7♠', '5♥', '4♦', '3♣', '2♠'], td)).toEqual([]);
+    });
+
+    it('Badugi: スートが重なるカードと高いカードを捨てる', () => {
+        expect(chooseDiscards(['A♠', '2♥', '3♠', 'K♦'], getVariantConfig('BADUGI'))).toEqual([2, 3]);
+    });
+
+    it('ハイのドロー: ペアを残し、何もなければ一番高いカードだけ残す', () => {
+        const fiveCard = getVariantConfig('NL_5HI_SD');
+        expect(chooseDiscards(['Q♠', 'Q♥', '7♦', '4♣', '2♠'], fiveCard)).toEqual([2, 3, 4]);
+        expect(chooseDiscards(['A♠', 'J♥', '7♦', '4♣', '2♠'], fiveCard).length)
+            .toBe(Math.min(4, fiveCard.maxDrawCount ?? 5));
+    });
+});
+
+describe('chooseVanish', () => {
+    it('残りの手札が一番強くなるカードを消す', () => {
+        const cmr = getVariantConfig('PL_CMRIVER1');
+        expect(chooseVanish(['A♠', 'A♥', '2♣'], ['K♦', 'K♣', '7♠', '4♥', '9♦'], cmr, 1)).toEqual([2]);
+    });
+});
+
+describe('HeuristicBot.decideAction', () => {
+    it('tight は弱い手でベットに降り、calling-station は同じ手でコールする', () => {
+        const hand = ['7♠', '2♥'];
+        const room = createRoom('NLH', createPlayer('bot-1', hand), { currentBet: 40, pot: 55 });
+        const player = room.players[0]!;
+
+        expect(new HeuristicBot('tight', NEVER_BLUFF).decideAction(room, player, turn(['FOLD', 'CALL', 'RAISE', 'ALL_IN'])))
+            .toEqual({ type: 'FOLD' });
+        expect(new HeuristicBot('calling-station', NEVER_BLUFF).decideAction(room, player, turn(['FOLD', 'CALL', 'RAISE', 'ALL_IN'])))
+            .toEqual({ type: 'CALL' });
+    });
+
+    it('ベットがなければ弱い手はチェックする', () => {
+        const room = createRoom('NLH', createPlayer('bot-1', ['7♠', '2♥'], 1000, 10), { currentBet: 10, pot: 20 });
+        expect(new HeuristicBot('loose', NEVER_BLUFF).decideAction(room, room.players[0]!, turn(['CHECK', 'RAISE', 'ALL_IN'])))
+            .toEqual({ type: 'CHECK' });
+    });
+
+    it('強い手はポットに合わせてレイズし、最小〜最大の範囲に収める', () => {
+        const room = createRoom('NLH', createPlayer('bot-1', ['A♠', 'A♥']), { currentBet: 10, pot: 15 });
+        const decision = new HeuristicBot('tight', NEVER_BLUFF).decideAction(room, room.players[0]!, turn(['FOLD', 'CALL', 'RAISE', 'ALL_IN'], 20, 1000));
+        expect(decision.type).toBe('RAISE');
+        expect(decision.amount).toBeGreaterThanOrEqual(20);
+
+        // 固定リミットは最小＝最大なのでその額
+        const limit = new HeuristicBot('tight', NEVER_BLUFF).decideAction(room, room.players[0]!, turn(['FOLD', 'CALL', 'RAISE'], 20, 20));
+        expect(limit).toEqual({ type: 'RAISE', amount: 20 });
+    });
+
+    it('このラウンドのレイズが4回に達したら強い手でもコールに留める', () => {
+        const room = createRoom('FL_DRAMAHA_HI', createPlayer('bot-1', ['A♠', 'A♥', 'A♦', 'K♠', 'K♥']), { currentBet: 40, pot: 200 });
+        room.gameState.raisesThisRound = 4;
+        expect(new HeuristicBot('loose', () => 0).decideAction(room, room.players[0]!, turn(['FOLD', 'CALL', 'RAISE'], 48, 48)))
+            .toEqual({ type: 'CALL' });
+    });
+
+    it('レイズ額がスタックを超えるならオールイン', () => {
+        const room = createRoom('NLH', createPlayer('bot-1', ['A♠', 'A♥'], 30), { currentBet: 10, pot: 200 });
+        expect(new HeuristicBot('loose', NEVER_BLUFF).decideAction(room, room.players[0]!, turn(['FOLD', 'CALL', 'RAISE', 'ALL_IN'], 20, 30)))
+            .toEqual({ type: 'ALL_IN' });
+    });
+
+    it('ブラフ率に当たれば弱い手でもベットする', () => {
+        const room = createRoom('NLH', createPlayer('bot-1', ['7♠', '2♥']), { board: ['K♦', 'Q♣', '9♠'], pot: 40 });
+        const decision = new HeuristicBot('loose', () => 0).decideAction(room, room.players[0]!, turn(['CHECK', 'BET', 'ALL_IN'], 10, 1000));
+        expect(decision.type).toBe('BET');
+    });
+});
+
+describe('HeuristicBot.chooseDraw', () => {
+    it('Dramaha Pick\'em は作りやすい方を宣言して、その基準で引く', () => {
+        const room = createRoom('FL_DRAMAHA_PICKEM', createPlayer('bot-1', ['2♠', '3♥', '4♦', '7♣', 'K♠']), { street: 4 });
+        expect(new HeuristicBot('tight').chooseDraw(room, room.players[0]!)).toEqual({ discardIndexes: [4], declaration: 'low' });
+    });
+});
+
+describe('drawsRemaining / isBotStyle', () => {
+    it('残りのドロー回数とスタイル名の判定', () => {
+        const td = getVariantConfig('2-7_TD');
+        expect(drawsRemaining(createRoom('2-7_TD', createPlayer('b', []), { street: 1 }), td)).toBe(2);
+        expect(drawsRemaining(createRoom('NLH', createPlayer('b', [])), getVariantConfig('NLH'))).toBe(0);
+        expect(isBotStyle('calling-station')).toBe(true);
+        expect(isBotStyle('maniac')).toBe(false);
+        expect(isBotStyle('toString')).toBe(false);
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * ヒューリスティックBOT（NLH/PLO/Stud/Draw 用、OFC は OFCBot.ts）
+ * 手の強さ（handStrength.ts）とプレイスタイルから、人間と同じアクション・ドローを選ぶ
+ *
+ * 部屋の状態を読むだけで変更しない。選んだアクションは呼び出し側が
+ * GameEngine.processAction / ドロー交換の共通処理に渡す
+ */
+
+import { getVariantConfig, type GameVariantConfig } from '../gameVariants.js';
+import type { ActionType, BotStyle, Player, Room } from '../types.js';
+import { chooseDeclaration, chooseDiscards, chooseVanish, estimateHandStrength } from './handStrength.js';
+
+export interface BotStyleProfile {
+    foldBelow: number;         // ベットに直面したとき、これ未満の強さは降りる（タダで見られるならチェック）
+    priceSensitivity: number;  // ポットオッズが悪いほど降りる基準を上げる度合い
+    raiseAbove: number;        // この強さ以上はベット/レイズ
+    bluffRate: number;         // 強さに関係なくベット/レイズする確率
+    betSizing: number;         // ベット額（コール後のポットに対する割合。リミットは固定額）
+}
+
+export const BOT_STYLES: Record<BotStyle, BotStyleProfile> = {
+    'tight': { foldBelow: 0.42, priceSensitivity: 0.5, raiseAbove: 0.72, bluffRate: 0.03, betSizing: 0.6 },
+    'loose': { foldBelow: 0.22, priceSensitivity: 0.4, raiseAbove: 0.55, bluffRate: 0.12, betSizing: 0.8 },
+    'calling-station': { foldBelow: 0.08, priceSensitivity: 0.1, raiseAbove: 0.9, bluffRate: 0, betSizing: 0.5 },
+};
+
+// リミットのヘッズアップはキャップなしなので、BOT同士のレイズ合戦はここで止める（以降はコール）
+const BOT_MAX_RAISES = 4;
+
+export function isBotStyle(value: unknown): value is BotStyle {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BOT_STYLES, value);
+}
+
+/** 手番で選べる範囲（GameEngine.getValidActions / getBettingInfo の値） */
+export interface BotTurn {
+    validActions: ActionType[];
+    minBetTo: number;
+    maxBetTo: number;
+}
+
+export interface BotDecision {
+    type: ActionType;
+    amount?: number;           // BET/RAISE: 追加で出すチップ（processAction と同じ）
+}
+
+export interface BotDraw {
+    discardIndexes: number[];
+    declaration?: 'high' | 'low';  // Dramaha Pick'em のみ
+}
+
+/**
+ * 残りのドロー回数（ドローのないゲームは 0）
+ */
+export function drawsRemaining(room: Room, variant: GameVariantConfig): number {
+    if (variant.isDramaha) {
+        // ボードを配り終えてベッティングが終わるまでは、ドローハンドはまだ変えられる
+        return room.gameState.street <= (variant.boardPattern?.length ?? 3) ? 1 : 0;
+    }
+    if (!variant.hasDrawPhase) return 0;
+    return Math.max(0, (variant.drawRounds ?? 3) - room.gameState.street);
+}
+
+export class HeuristicBot {
+    private profile: BotStyleProfile;
+    private random: () => number;
+
+    constructor(style: BotStyle, random: () => number = Math.random) {
+        this.profile = BOT_STYLES[style];
+        this.random = random;
+    }
+
+    /**
+     * 今の手の強さ（0〜1）
+     */
+    handStrength(room: Room, player: Player): number {
+        const variant = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
+        return estimateHandStrength(player.hand ?? [], room.gameState.board, variant, drawsRemaining(room, variant));
+    }
+
+    /**
+     * ベッティングのアクションを選ぶ
+     */
+    decideAction(room: Room, player: Player, turn: BotTurn): BotDecision {
+        const strength = this.handStrength(room, player);
+        const callAmount = Math.max(0, room.gameState.currentBet - player.bet);
+        const pot = room.gameState.pot.main + room.gameState.pot.side.reduce((sum, s) => sum + s.amount, 0);
+        const canRaise = (turn.validActions.includes('BET') || turn.validActions.includes('RAISE')) &&
+            (room.gameState.raisesThisRound ?? 0) < BOT_MAX_RAISES;
+
+        if (canRaise && (strength >= this.profile.raiseAbove || this.random() < this.profile.bluffRate)) {
+            return this.raise(room, player, turn, pot + callAmount);
+        }
+        if (callAmount === 0) {
+            return { type: 'CHECK' };
+        }
+
+        // 値段が高いほど続けるのに強い手が要る
+        const potOdds = callAmount / (pot + callAmount);
+        const callAbove = this.profile.foldBelow + potOdds * this.profile.priceSensitivity;
+        return { type: strength >= callAbove ? 'CALL' : 'FOLD' };
+    }
+
+    /**
+     * ベット/レイズ額: コール後のポットの betSizing 分を上乗せし、最小〜最大レイズに収める
+     */
+    private raise(room: Room, player: Player, turn: BotTurn, potAfterCall: number): BotDecision {
+        const target = Math.round(room.gameState.currentBet + potAfterCall * this.profile.betSizing);
+        const raiseTo = Math.min(turn.maxBetTo, Math.max(turn.minBetTo, target));
+        const amount = raiseTo - player.bet;
+
+        if (amount >= player.stack && turn.validActions.includes('ALL_IN')) {
+            return { type: 'ALL_IN' };
+        }
+        return {
+            type: turn.validActions.includes('BET') ? 'BET' : 'RAISE',
+            amount: Math.min(amount, player.stack),
+        };
+    }
+
+    /**
+     * ドロー交換で捨てるカード（Dramaha Pick'em はハイ/ローの宣言も）
+     */
+    chooseDraw(room: Room, player: Player): BotDraw {
+        const variant = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
+        const hand = player.hand ?? [];
+        if (variant.dramahaPickem) {
+            const declaration = chooseDeclaration(hand);
+            return { discardIndexes: chooseDiscards(hand, variant, declaration === 'low' ? '2-7' : 'high'), declaration };
+        }
+        return { discardIndexes: chooseDiscards(hand, variant) };
+    }
+
+    /**
+     * Cry Me a River: 消失させるカード
+     */
+    chooseVanish(room: Room, player: Player, count: number): number[] {
+        const variant = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
+        return chooseVanish(player.hand ?? [], room.gameState.board, variant, count);
+    }
+}
@@ -0,0 +1,177 @@
+/**
+ * Bot API Protocol Tests
+ * 判断の依頼の組み立て・回答の検証・リファレンスクライアントの往復
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, type Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Server } from 'socket.io';
+import {
+    BOT_PROTOCOL_VERSION, buildActionRequest, buildDrawRequest, buildTableView, parseBotDecision,
+    isSupportedProtocolVersion, type BotDecision, type BotDecisionRequest,
+} from './botProtocol.js';
+import { BotApiClient, passiveStrategy } from './BotApiClient.js';
+import type { Player, Room } from '../types.js';
+
+function createPlayer(socketId: string, hand: string[] | null, stack = 1000, bet = 0): Player {
+    return { socketId, name: socketId, stack, bet, totalBet: bet, status: 'ACTIVE', hand };
+}
+
+function createRoom(gameVariant: string, players: (Player | null)[]): Room {
+    return {
+        id: 'bot-api-test',
+        config: { maxPlayers: 6, smallBlind: 5, bigBlind: 10 },
+        players,
+        dealerBtnIndex: 2,
+        activePlayerIndex: 0,
+        streetStarterIndex: 0,
+        lastAggressorIndex: -1,
+        rotation: { enabled: false, gamesList: [gameVariant], currentGameIndex: 0, handsPerGame: 8 },
+        metaGame: { standUp: { isActive: false, remainingPlayers: [] }, sevenDeuce: false },
+        createdAt: Date.now(),
+        gameState: {
+            status: 'FLOP' as any,
+            street: 1,
+            gameVariant,
+            board: ['K♦', 'Q♣', '9♠'],
+            pot: { main: 60, side: [] },
+            deckStatus: { stubCount: 0, burnCount: 0 },
+            currentBet: 20,
+            minRaise: 20,
+            handNumber: 7,
+            raisesThisRound: 1,
+            deck: ['2♠', '3♠'],
+        },
+    };
+}
+
+const BETTING_INFO = { minBet: 40, maxBet: 1000, betStructure: 'no-limit', isCapped: false, raisesRemaining: 99 };
+
+describe('buildTableView / buildActionRequest', () => {
+    it('卓の状態と合法手を組み立てる（デッキや他人の resumeToken は含めない）', () => {
+        const bot = { ...createPlayer('bot', ['A♠', 'A♥'], 980, 0), apiBot: true };
+        const villain = { ...createPlayer('villain', null, 500, 20), resumeToken: 'secret', botStyle: 'tight' as const };
+        const room = createRoom('NLH', [bot, null, villain]);
+
+        const request = buildActionRequest('decision-1', 5000, buildTableView(room, 'bot'), ['FOLD', 'CALL', 'RAISE', 'ALL_IN'], BETTING_INFO);
+
+        expect(request.protocolVersion).toBe(BOT_PROTOCOL_VERSION);
+        expect(request.kind).toBe('action');
+        expect(request.deadline).toBeGreaterThan(Date.now());
+        expect(request.table).toMatchObject({
+            handNumber: 7, gameVariant: 'NLH', betStructure: 'no-limit', phase: 'FLOP',
+            board: ['K♦', 'Q♣', '9♠'], dealerSeat: 2, yourSeat: 0, yourHand: ['A♠', 'A♥'],
+        });
+        expect(request.table.players[1]).toBeNull();
+        expect(request.table.players[2]).toEqual({
+            seatIndex: 2, name: 'villain', stack: 500, bet: 20, totalBet: 20, status: 'ACTIVE', upCards: [], isBot: true,
+        });
+        expect(request.legal).toEqual({
+            validActions: ['FOLD', 'CALL', 'RAISE', 'ALL_IN'],
+            toCall: 20, minBetTo: 40, maxBetTo: 1000, betStructure: 'no-limit', isCapped: false, raisesRemaining: 99,
+        });
+        expect(JSON.stringify(request)).not.toContain('secret');
+        expect(JSON.stringify(request)).not.toContain('3♠');
+    });
+
+    it('ドローの依頼には最大交換枚数と Pick\'em の宣言の要否が入る', () => {
+        const room = createRoom('2-7_TD', [createPlayer('bot', ['2♠', '3♥', '4♦', '7♣', 'K♠']), createPlayer('villain', null)]);
+        expect(buildDrawRequest('d', 5000, buildTableView(room, 'bot')).draw).toEqual({ maxDiscards: 5, declare: false });
+    });
+});
+
+describe('parseBotDecision', () => {
+    const expected = { decisionId: 'decision-1', kind: 'action' as const };
+    const decide = (fields: Partial<BotDecision>) => ({ protocolVersion: BOT_PROTOCOL_VERSION, decisionId: 'decision-1', ...fields });
+
+    it('アクションの回答を取り出す（BET/RAISE は betTo が必須）', () => {
+        expect(parseBotDecision(decide({ action: { type: 'CALL' } }), expected)).toEqual({ kind: 'action', type: 'CALL' });
+        expect(parseBotDecision(decide({ action: { type: 'RAISE', betTo: 60 } }), expected))
+            .toEqual({ kind: 'action', type: 'RAISE', betTo: 60 });
+        expect(() => parseBotDecision(decide({ action: { type: 'RAISE' } }), expected)).toThrow('betTo');
+        expect(() => parseBotDecision(decide({ action: { type: 'SHOVE' as any } }), expected)).toThrow('Invalid action type');
+    });
+
+    it('バージョン違い・別の判断への回答は受け付けない', () => {
+        expect(() => parseBotDecision({ ...decide({ action: { type: 'FOLD' } }), protocolVersion: 2 }, expected)).toThrow('protocol version');
+        expect(() => parseBotDecision(decide({ decisionId: 'old', action: { type: 'FOLD' } }), expected)).toThrow('expired');
+        expect(() => parseBotDecision(null, expected)).toThrow();
+        expect(isSupportedProtocolVersion('1')).toBe(false);
+    });
+
+    it('ドロー・カード消失は discardIndexes、宣言は high/low のみ', () => {
+        expect(parseBotDecision(decide({ discardIndexes: [4], declaration: 'low' }), { decisionId: 'decision-1', kind: 'draw' }))
+            .toEqual({ kind: 'draw', discardIndexes: [4], declaration: 'low' });
+        expect(parseBotDecision(decide({ discardIndexes: [0] }), { decisionId: 'decision-1', kind: 'vanish' }))
+            .toEqual({ kind: 'vanish', discardIndexes: [0] });
+        expect(() => parseBotDecision(decide({ discardIndexes: [], declaration: 'both' as any }), { decisionId: 'decision-1', kind: 'draw' }))
+            .toThrow('declaration');
+        expect(() => parseBotDecision(decide({}), { decisionId: 'decision-1', kind: 'draw' })).toThrow('discardIndexes');
+    });
+});
+
+describe('passiveStrategy', () => {
+    const request = (fields: Partial<BotDecisionRequest>): BotDecisionRequest =>
+        ({ protocolVersion: 1, decisionId: 'd', kind: 'action', timeoutMs: 5000, deadline: 0, table: {} as any, ...fields });
+
+    it('チェック > コール > フォールド、ドローはスタンドパット', () => {
+        const legal = { toCall: 0, minBetTo: 20, maxBetTo: 100, betStructure: 'no-limit', isCapped: false, raisesRemaining: 9 };
+        expect(passiveStrategy(request({ legal: { ...legal, validActions: ['CHECK', 'BET'] } }))).toEqual({ action: { type: 'CHECK' } });
+        expect(passiveStrategy(request({ legal: { ...legal, validActions: ['FOLD', 'CALL', 'RAISE'] } }))).toEqual({ action: { type: 'CALL' } });
+        expect(passiveStrategy(request({ legal: { ...legal, validActions: ['FOLD', 'ALL_IN'] } }))).toEqual({ action: { type: 'FOLD' } });
+        expect(passiveStrategy(request({ kind: 'draw', draw: { maxDiscards: 5, declare: true } })))
+            .toEqual({ discardIndexes: [], declaration: 'high' });
+        expect(passiveStrategy(request({ kind: 'vanish', vanish: { count: 2 } }))).toEqual({ discardIndexes: [0, 1] });
+    });
+});
+
+describe('BotApiClient', () => {
+    let httpServer: HttpServer | null = null;
+    let client: BotApiClient | null = null;
+
+    afterEach(async () => {
+        client?.disconnect();
+        await new Promise<void>(resolve => (httpServer ? httpServer.close(() => resolve()) : resolve()));
+        httpServer = null;
+    });
+
+    /** サーバー側のAPIキー検証と依頼の送信だけを真似る */
+    async function startServer(onDecision: (decision: BotDecision) => void): Promise<string> {
+        httpServer = createServer();
+        const io = new Server(httpServer);
+        io.use((socket, next) => {
+            const { botKey, protocolVersion } = socket.handshake.auth ?? {};
+            if (botKey !== 'mpb_test' || !isSupportedProtocolVersion(protocolVersion)) {
+                return next(new Error('Invalid bot API key'));
+            }
+            next();
+        });
+        io.on('connection', socket => {
+            socket.emit('bot-hello', { protocolVersion: BOT_PROTOCOL_VERSION, name: 'TestBot', decisionTimeoutMs: 5000 });
+            socket.on('quick-join', () => socket.emit('sit-down-success', { seatIndex: 3 }));
+            socket.on('bot-decision', onDecision);
+            const room = createRoom('NLH', [createPlayer(socket.id, ['A♠', 'A♥'])]);
+            socket.emit('bot-decision-request', buildActionRequest('decision-1', 5000, buildTableView(room, socket.id), ['CHECK', 'BET'], BETTING_INFO));
+        });
+        await new Promise<void>(resolve => httpServer!.listen(0, '127.0.0.1', () => resolve()));
+        return `http://127.0.0.1:${(httpServer!.address() as AddressInfo).port}`;
+    }
+
+    it('接続して着席し、依頼に決定IDとバージョンを付けて答える', async () => {
+        let resolveDecision: (decision: BotDecision) => void = () => {};
+        const received = new Promise<BotDecision>(resolve => { resolveDecision = resolve; });
+        const serverUrl = await startServer(decision => resolveDecision(decision));
+
+        client = new BotApiClient({ serverUrl, botKey: 'mpb_test' });
+        expect(await client.connect()).toEqual({ protocolVersion: BOT_PROTOCOL_VERSION, name: 'TestBot', decisionTimeoutMs: 5000 });
+        expect(await client.joinTable('nlh', 200)).toBe(3);
+        expect(await received).toEqual({ protocolVersion: BOT_PROTOCOL_VERSION, decisionId: 'decision-1', action: { type: 'CHECK' } });
+    });
+
+    it('APIキーが違えば接続を拒否される', async () => {
+        const serverUrl = await startServer(() => {});
+        client = new BotApiClient({ serverUrl, botKey: 'mpb_wrong' });
+        await expect(client.connect()).rejects.toThrow('Invalid bot API key');
+    });
+});
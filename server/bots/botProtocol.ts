@@ -0,0 +1,225 @@
+/**
+ * 外部BOT API のプロトコル（バージョン付き JSON、Socket.IO で送受信）
+ * 仕様は doc/specs/BOT_API.md
+ *
+ * サーバー → BOT: bot-hello（接続直後）/ bot-decision-request（判断の依頼）
+ * BOT → サーバー: bot-decision（依頼への回答）
+ *
+ * 卓の状態は sanitizeRoomForViewer 済みの部屋から取り出す（見えてはいけないカードはここに来る前に伏せる）
+ */
+
+import { getVariantConfig, type BetStructure } from '../gameVariants.js';
+import type { ActionType } from '../types.js';
+
+export const BOT_PROTOCOL_VERSION = 1;
+
+const ACTION_TYPES: ActionType[] = ['FOLD', 'CHECK', 'CALL', 'BET', 'RAISE', 'ALL_IN'];
+
+export type BotDecisionKind = 'action' | 'draw' | 'vanish';
+
+/** 接続直後に送る */
+export interface BotHello {
+    protocolVersion: number;
+    name: string;                 // 卓に表示される名前（APIキーの名前）
+    decisionTimeoutMs: number;    // 1回の判断の持ち時間
+}
+
+export interface BotPlayerView {
+    seatIndex: number;
+    name: string;
+    stack: number;
+    bet: number;                  // このストリートのベット額
+    totalBet: number;             // このハンドの合計
+    status: string;
+    upCards: string[];            // スタッドの公開カード
+    isBot: boolean;
+}
+
+/** 判断に使う卓の状態（BOT本人から見える分だけ） */
+export interface BotTableView {
+    roomId: string;
+    handNumber: number;
+    gameVariant: string;
+    betStructure: BetStructure;
+    phase: string;                // PREFLOP / FLOP / THIRD_STREET / FIRST_DRAW / VANISH ...
+    street: number;
+    board: string[];
+    board2?: string[];
+    pot: { main: number; side: { amount: number }[] };
+    currentBet: number;
+    dealerSeat: number;
+    yourSeat: number;
+    yourHand: string[];
+    players: (BotPlayerView | null)[];
+}
+
+/** ベッティングの合法手（GameEngine.getValidActions / getBettingInfo） */
+export interface BotLegalActions {
+    validActions: ActionType[];
+    toCall: number;               // コールに必要な額
+    minBetTo: number;             // BET/RAISE 後のこのストリートの合計ベットの最小
+    maxBetTo: number;             // 同・最大（リミットは最小と同じ）
+    betStructure: string;
+    isCapped: boolean;
+    raisesRemaining: number;
+    fixedBetSize?: number;
+}
+
+export interface BotDecisionRequest {
+    protocolVersion: number;
+    decisionId: string;           // 回答に付けて返す（1回限り）
+    kind: BotDecisionKind;
+    timeoutMs: number;
+    deadline: number;             // この時刻（epoch ms）を過ぎた回答は無効
+    table: BotTableView;
+    legal?: BotLegalActions;                        // kind === 'action'
+    draw?: { maxDiscards: number; declare: boolean }; // kind === 'draw'（declare: Dramaha Pick'em の宣言が要る）
+    vanish?: { count: number };                     // kind === 'vanish'（ちょうどこの枚数を消す）
+}
+
+/** BOT からの回答（kind に応じて action か discardIndexes を入れる） */
+export interface BotDecision {
+    protocolVersion: number;
+    decisionId: string;
+    action?: { type: ActionType; betTo?: number };  // betTo は BET/RAISE のみ
+    discardIndexes?: number[];
+    declaration?: 'high' | 'low';
+}
+
+/** 回答を検証した結果 */
+export type ParsedBotDecision =
+    | { kind: 'action'; type: ActionType; betTo?: number }
+    | { kind: 'draw'; discardIndexes: number[]; declaration?: 'high' | 'low' }
+    | { kind: 'vanish'; discardIndexes: number[] };
+
+export function isSupportedProtocolVersion(version: unknown): boolean {
+    return version === BOT_PROTOCOL_VERSION;
+}
+
+/**
+ * 卓の状態を BOT 向けに組み立てる
+ * @param room sanitizeRoomForViewer(room, botId) 済みの部屋
+ */
+export function buildTableView(room: any, botId: string): BotTableView {
+    const variant = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
+    const yourSeat = room.players.findIndex((p: any) => p?.socketId === botId);
+    return {
+        roomId: room.id,
+        handNumber: room.gameState.handNumber,
+        gameVariant: room.gameState.gameVariant,
+        betStructure: variant.betStructure,
+        phase: room.gameState.status,
+        street: room.gameState.street,
+        board: [...room.gameState.board],
+        ...(room.gameState.board2 ? { board2: [...room.gameState.board2] } : {}),
+        pot: {
+            main: room.gameState.pot.main,
+            side: room.gameState.pot.side.map((s: { amount: number }) => ({ amount: s.amount })),
+        },
+        currentBet: room.gameState.currentBet,
+        dealerSeat: room.dealerBtnIndex,
+        yourSeat,
+        yourHand: [...(room.players[yourSeat]?.hand ?? [])],
+        players: room.players.map((p: any, seatIndex: number): BotPlayerView | null => p && {
+            seatIndex,
+            name: p.name,
+            stack: p.stack,
+            bet: p.bet,
+            totalBet: p.totalBet,
+            status: p.status,
+            upCards: [...(p.studUpCards ?? [])],
+            isBot: !!(p.botStyle || p.apiBot),
+        }),
+    };
+}
+
+export function buildActionRequest(
+    decisionId: string,
+    timeoutMs: number,
+    table: BotTableView,
+    validActions: ActionType[],
+    bettingInfo: { minBet: number; maxBet: number; betStructure: string; isCapped: boolean; raisesRemaining: number; fixedBetSize?: number }
+): BotDecisionRequest {
+    const you = table.players[table.yourSeat];
+    return {
+        ...requestHeader(decisionId, 'action', timeoutMs, table),
+        legal: {
+            validActions,
+            toCall: Math.max(0, Math.min(table.currentBet - (you?.bet ?? 0), you?.stack ?? 0)),
+            minBetTo: bettingInfo.minBet,
+            maxBetTo: bettingInfo.maxBet,
+            betStructure: bettingInfo.betStructure,
+            isCapped: bettingInfo.isCapped,
+            raisesRemaining: bettingInfo.raisesRemaining,
+            ...(bettingInfo.fixedBetSize !== undefined ? { fixedBetSize: bettingInfo.fixedBetSize } : {}),
+        },
+    };
+}
+
+export function buildDrawRequest(decisionId: string, timeoutMs: number, table: BotTableView): BotDecisionRequest {
+    const variant = getVariantConfig(table.gameVariant, table.betStructure);
+    return {
+        ...requestHeader(decisionId, 'draw', timeoutMs, table),
+        draw: {
+            maxDiscards: variant.maxDrawCount ?? table.yourHand.length,
+            declare: !!variant.dramahaPickem,
+        },
+    };
+}
+
+export function buildVanishRequest(decisionId: string, timeoutMs: number, table: BotTableView, count: number): BotDecisionRequest {
+    return { ...requestHeader(decisionId, 'vanish', timeoutMs, table), vanish: { count } };
+}
+
+function requestHeader(decisionId: string, kind: BotDecisionKind, timeoutMs: number, table: BotTableView) {
+    return {
+        protocolVersion: BOT_PROTOCOL_VERSION,
+        decisionId,
+        kind,
+        timeoutMs,
+        deadline: Date.now() + timeoutMs,
+        table,
+    };
+}
+
+/**
+ * 回答の形を検証する（合法かどうかは GameEngine / ドロー交換の検証に任せる）
+ * 不正な回答は Error
+ */
+export function parseBotDecision(message: unknown, expected: { decisionId: string; kind: BotDecisionKind }): ParsedBotDecision {
+    if (!message || typeof message !== 'object') {
+        throw new Error('Decision must be an object');
+    }
+    const decision = message as Partial<BotDecision>;
+    if (!isSupportedProtocolVersion(decision.protocolVersion)) {
+        throw new Error(`Unsupported protocol version (expected ${BOT_PROTOCOL_VERSION})`);
+    }
+    if (decision.decisionId !== expected.decisionId) {
+        throw new Error('Unknown or expired decision');
+    }
+
+    if (expected.kind === 'action') {
+        const action = decision.action;
+        if (!action || !ACTION_TYPES.includes(action.type)) {
+            throw new Error('Invalid action type');
+        }
+        if (action.type === 'BET' || action.type === 'RAISE') {
+            if (!Number.isInteger(action.betTo)) {
+                throw new Error('betTo is required for BET and RAISE');
+            }
+            return { kind: 'action', type: action.type, betTo: action.betTo };
+        }
+        return { kind: 'action', type: action.type };
+    }
+
+    if (!Array.isArray(decision.discardIndexes)) {
+        throw new Error('discardIndexes must be an array');
+    }
+    if (expected.kind === 'vanish') {
+        return { kind: 'vanish', discardIndexes: decision.discardIndexes };
+    }
+    if (decision.declaration !== undefined && decision.declaration !== 'high' && decision.declaration !== 'low') {
+        throw new Error('declaration must be high or low');
+    }
+    return { kind: 'draw', discardIndexes: decision.discardIndexes, declaration: decision.declaration };
+}
@@ -0,0 +1,379 @@
+/**
+ * BOT用の手の強さ（0〜1）とドロー・カード消失の選択
+ * handEvaluator.ts の評価をそのまま使い、ハイ/ロー/バドゥーギ等のどの基準でも同じ物差しに揃える
+ *
+ * 勝率の計算ではなく「この手でどこまで戦えるか」の目安。
+ * まだカードが来る（ドローが残る・スタッドの途中）場合は完成役の代わりに作れそうな度合いで見る
+ */
+
+import {
+    evaluateHand,
+    evaluateBadugiHand,
+    evaluateDeuceSeven,
+    evaluateHidugiHand,
+    evaluateLowHand8OrBetter,
+    evaluatePointsHand,
+    evaluateRazzHand,
+    type HandRank,
+    type HandRankingRules,
+} from '../handEvaluator.js';
+import {
+    combinations,
+    getBestBadugiFourCards,
+    getBestDeuce7FiveCards,
+    getBestFiveCards,
+    getBestHidugiFourCards,
+    getBestLowFiveCards,
+    getBestPLOFiveCards,
+    getBestPLOLowFiveCards,
+    getBestRazzFiveCards,
+    parseCards,
+    type Card,
+} from '../ShowdownManager.js';
+import { getHandRankingRules, type GameVariantConfig, type HandEvaluation } from '../gameVariants.js';
+
+/** 評価の基準（スプリットゲームは2つを組み合わせる） */
+type StrengthSide = 'high' | 'low8' | 'a5' | '2-7' | 'badugi' | 'hidugi' | 'points-high' | 'points-low';
+
+const SIDES: Record<HandEvaluation, StrengthSide[]> = {
+    'high': ['high'],
+    'highlow': ['high', 'low8'],
+    'razz': ['a5'],
+    'a5': ['a5'],
+    '2-7': ['2-7'],
+    'stud27': ['2-7'],
+    'badugi': ['badugi'],
+    'hidugi': ['hidugi'],
+    'baduecey': ['badugi', '2-7'],
+    'badacey': ['badugi', 'a5'],
+    'archie': ['a5', '2-7'],
+    'razzdugi': ['a5', 'badugi'],
+    'dramaha49': ['points-high'],
+    'dramaha0': ['points-low'],
+    'ofc': ['high'],
+};
+
+// 完成役の目安（evaluateHand の rank 順: ハイカード〜ストレートフラッシュ）
+const MADE_HIGH_STRENGTH = [0.15, 0.4, 0.62, 0.72, 0.8, 0.86, 0.92, 0.97, 0.99];
+
+// ローの完成形: ナッツのトップカード（A-5 は 5、2-7 は 7、バドゥーギは 4）から1ランクごとに下げる
+const LOW_STEP = 0.12;
+
+/** ローの役作りに使えるカードの上限（これより上は交換・評価で悪いカード扱い） */
+const LOW_CARD_LIMIT = 8;
+const HIDUGI_CARD_FLOOR = 10;
+
+/** このトップカード以下のローが完成していればスタンドパット */
+const STAND_PAT_TOP_CARD = 9;
+
+const clamp = (value: number): number => Math.max(0, Math.min(1, value));
+
+/** A=1 のローランク */
+const lowValue = (card: Card): number => card.rank === 'A' ? 1 : highValue(card);
+
+/** A=14 のハイランク（T は parseCards で '10' になる） */
+function highValue(card: Card): number {
+    const faces: Record<string, number> = { J: 11, Q: 12, K: 13, A: 14 };
+    return faces[card.rank] ?? Number(card.rank);
+}
+
+/** ドロー評価の基準（Dramaha はドローハンド側の評価） */
+function drawEvaluation(variant: GameVariantConfig): HandEvaluation {
+    return variant.isDramaha ? (variant.dramahaDrawEval ?? 'high') : variant.handEvaluation;
+}
+
+// ========================================
+// 手の強さ
+// ========================================
+
+/**
+ * 手の強さ（0〜1）
+ * @param hole 自分の手札（スタッドはアップカードを含む全カード）
+ * @param board コミュニティカード
+ * @param drawsRemaining 残りのドロー回数（0 なら手札は完成形として評価）
+ */
+export function estimateHandStrength(
+    hole: string[],
+    board: string[],
+    variant: GameVariantConfig,
+    drawsRemaining = 0
+): number {
+    const holeCards = parseCards(hole);
+    const boardCards = parseCards(board);
+    const rules = getHandRankingRules(variant);
+
+    // Dramaha: ボード側（ハイ）とドローハンド側の半分ずつ
+    if (variant.isDramaha) {
+        return combineSides([
+            highStrength(holeCards, boardCards, variant, rules),
+            sideStrength(SIDES[drawEvaluation(variant)][0], holeCards, [], variant, rules, drawsRemaining),
+        ]);
+    }
+
+    return combineSides(SIDES[variant.handEvaluation].map(side =>
+        sideStrength(side, holeCards, boardCards, variant, rules, drawsRemaining)
+    ));
+}
+
+/** スプリットは強い方を基準に、両方取れそうなら上乗せ */
+function combineSides(strengths: number[]): number {
+    const best = Math.max(...strengths);
+    const worst = Math.min(...strengths);
+    return strengths.length > 1 ? clamp(best + worst * 0.15) : best;
+}
+
+function sideStrength(
+    side: StrengthSide,
+    hole: Card[],
+    board: Card[],
+    variant: GameVariantConfig,
+    rules: HandRankingRules,
+    drawsRemaining: number
+): number {
+    if (side === 'high') return highStrength(hole, board, variant, rules);
+    if (side === 'points-high' || side === 'points-low') return pointsStrength(hole, side === 'points-low');
+    if (side === 'low8') return low8Strength(hole, board, variant);
+
+    const made = madeLowStrength(side, [...hole, ...board]);
+    const stillComing = drawsRemaining > 0 || (variant.communityCardType === 'stud' && hole.length < variant.holeCardCount);
+    return stillComing ? Math.max(made, lowDrawStrength(side, [...hole, ...board])) : made;
+}
+
+/**
+ * ハイの強さ: 5枚揃えば完成役、揃わなければ（フロップ系のプリフロップも）スターティングハンドの目安
+ */
+function highStrength(hole: Card[], board: Card[], variant: GameVariantConfig, rules: HandRankingRules): number {
+    const isPreflop = variant.communityCardType === 'flop' && board.length === 0;
+    if (isPreflop || hole.length + board.length < 5) {
+        return startingHighStrength(hole, variant.holeCardsForSelection);
+    }
+
+    const five = variant.holeCardsForSelection && board.length >= 3
+        ? getBestPLOFiveCards(hole, board, rules)
+        : getBestFiveCards([...hole, ...board], rules);
+    const rank = evaluateHand(five, rules);
+    const made = madeHighStrength(rank);
+
+    // ボードだけで同じ役ができているなら自分の手はほとんど関係ない
+    if (board.length >= 5 && evaluateHand(getBestFiveCards(board, rules), rules).rank >= rank.rank) {
+        return made * 0.5;
+    }
+    return made;
+}
+
+function madeHighStrength(rank: HandRank): number {
+    const base = MADE_HIGH_STRENGTH[rank.rank] ?? 1;
+    // ハイカード・ワンペアは高さで差をつける
+    if (rank.rank <= 1 && rank.highCards.length > 0) {
+        return base + (rank.highCards[0] - 2) / 12 * 0.15;
+    }
+    return base;
+}
+
+/**
+ * 5枚に満たない手（プリフロップ、スタッドの序盤）
+ * Omaha 系は手札から使える枚数（selectCount）の組み合わせで一番良いもの
+ */
+function startingHighStrength(cards: Card[], selectCount?: number): number {
+    if (selectCount && cards.length > selectCount) {
+        return Math.max(...combinations(cards, selectCount).map(selected => startingHighStrength(selected)));
+    }
+
+    const values = cards.map(highValue).sort((a, b) => b - a);
+    const counts = new Map<number, number>();
+    for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+    const groups = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0]);
+
+    if (groups[0][1] >= 3) return 0.92;
+    if (groups[0][1] === 2 && groups[1]?.[1] === 2) return 0.72;
+    if (groups[0][1] === 2) return 0.5 + (groups[0][0] - 2) / 12 * 0.35;
+
+    const top = values[0] + (values[1] ?? values[0]);
+    let strength = 0.1 + (top - 4) / 24 * 0.4;
+    if (cards.length >= 2 && new Set(cards.map(c => c.suit)).size < cards.length) strength += 0.05;
+    if (values.length >= 2 && values[0] - values[1] === 1) strength += 0.03;
+    return clamp(strength);
+}
+
+/** PLO8/Stud8 のロー側: 8 以下のローができているか */
+function low8Strength(hole: Card[], board: Card[], variant: GameVariantConfig): number {
+    const five = variant.communityCardType === 'flop'
+        ? getBestPLOLowFiveCards(hole, board)
+        : getBestLowFiveCards(hole);
+    if (five) {
+        const low = evaluateLowHand8OrBetter(five);
+        if (low.valid) return lowTopStrength(Math.max(...low.cards), nutTopCard('a5'));
+    }
+    // まだローが完成していない: 手札の低いカードの数で見る
+    if (board.length >= 5 || (variant.communityCardType === 'stud' && hole.length >= variant.holeCardCount)) {
+        return 0;
+    }
+    return lowDrawStrength('a5', hole) * 0.8;
+}
+
+/** 完成したローの強さ */
+function madeLowStrength(side: StrengthSide, cards: Card[]): number {
+    switch (side) {
+        case 'a5': {
+            if (cards.length < 5) return 0;
+            const low = evaluateRazzHand(getBestRazzFiveCards(cards));
+            if (new Set(low.cards).size < 5) return 0.1;
+            return lowTopStrength(low.cards[4], nutTopCard('a5'));
+        }
+        case '2-7': {
+            if (cards.length < 5) return 0;
+            const low = evaluateDeuceSeven(getBestDeuce7FiveCards(cards));
+            if (low.hasHand) return 0.1;
+            return lowTopStrength(low.cards[0], nutTopCard('2-7'));
+        }
+        case 'badugi': {
+            if (cards.length < 4) return 0;
+            const badugi = evaluateBadugiHand(getBestBadugiFourCards(cards));
+            if (badugi.cardCount < 4) return badugi.cardCount === 3 ? 0.25 : 0.05;
+            return lowTopStrength(Math.max(...badugi.cards), nutTopCard('badugi'));
+        }
+        case 'hidugi': {
+            if (cards.length < 4) return 0;
+            const hidugi = evaluateHidugiHand(getBestHidugiFourCards(cards));
+            if (hidugi.cardCount < 4) return hidugi.cardCount === 3 ? 0.25 : 0.05;
+            return clamp(0.6 + (Math.min(...hidugi.cards) - 2) / 12 * 0.4);
+        }
+        default:
+            return 0;
+    }
+}
+
+/** ローの完成形でナッツになるトップカード */
+function nutTopCard(side: StrengthSide): number {
+    if (side === '2-7') return 7;
+    return side === 'badugi' ? 4 : 5;
+}
+
+function lowTopStrength(topCard: number, nutTopCard: number): number {
+    return Math.max(0.2, 0.95 - (topCard - nutTopCard) * LOW_STEP);
+}
+
+/** まだカードが来るときのロー: 役作りに使えるカードの割合 */
+function lowDrawStrength(side: StrengthSide, cards: Card[]): number {
+    if (cards.length === 0) return 0;
+    const needed = side === 'badugi' || side === 'hidugi' ? 4 : 5;
+    const useful = usefulLowCards(side, cards).length;
+    return 0.1 + 0.6 * useful / Math.min(needed, cards.length);
+}
+
+/** Dramaha 49/0 のポイント（49 は合計が高いほど、0 は低いほど強い） */
+function pointsStrength(cards: Card[], lowWins: boolean): number {
+    if (cards.length < 5) return 0.3;
+    const points = evaluatePointsHand(cards).points;
+    return clamp(lowWins ? 1 - points / 25 : points / 49);
+}
+
+// ========================================
+// ドロー・カード消失の選択
+// ========================================
+
+/**
+ * ロー系で残したいカード（ランク・スートが重ならない低いカード）
+ * バドゥーギ系はスートも重ならないように選ぶ
+ * @returns 元の配列でのインデックス
+ */
+function usefulLowCards(side: StrengthSide, cards: Card[]): number[] {
+    const isDugi = side === 'badugi' || side === 'hidugi';
+    const value = (card: Card): number => side === '2-7' || side === 'hidugi' ? highValue(card) : lowValue(card);
+    const isUseful = (card: Card): boolean =>
+        side === 'hidugi' ? value(card) >= HIDUGI_CARD_FLOOR : value(card) <= LOW_CARD_LIMIT;
+
+    const order = cards.map((card, index) => ({ card, index }))
+        .sort((a, b) => side === 'hidugi' ? value(b.card) - value(a.card) : value(a.card) - value(b.card));
+
+    const ranks = new Set<number>();
+    const suits = new Set<string>();
+    const kept: number[] = [];
+    for (const { card, index } of order) {
+        if (!isUseful(card) || ranks.has(value(card))) continue;
+        if (isDugi && suits.has(card.suit)) continue;
+        ranks.add(value(card));
+        suits.add(card.suit);
+        kept.push(index);
+    }
+    return kept;
+}
+
+/**
+ * ドローで捨てるカードを選ぶ
+ * 完成した良い手ならスタンドパット、そうでなければ役作りに使えないカードを捨てる
+ * @returns 捨てるカードのインデックス（maxDrawCount 以下）
+ */
+export function chooseDiscards(hand: string[], variant: GameVariantConfig, evaluation = drawEvaluation(variant)): number[] {
+    const cards = parseCards(hand);
+    // Badeucey は5枚使う 2-7 側に合わせて引く（低いカードはバドゥーギ側にも使える）
+    const side = SIDES[evaluation][evaluation === 'baduecey' ? 1 : 0];
+    const maxDraw = variant.maxDrawCount ?? cards.length;
+
+    let keep: number[];
+    if (side === 'high') {
+        keep = highKeepers(cards, getHandRankingRules(variant));
+    } else if (side === 'points-high' || side === 'points-low') {
+        // 49 は 8〜T、0 は絵札（0点）を残す
+        const [min, max] = side === 'points-high' ? [8, 10] : [11, 13];
+        keep = cards.map((card, index) => ({ value: highValue(card), index }))
+            .filter(({ value }) => value >= min && value <= max)
+            .map(({ index }) => index);
+    } else if (madeLowStrength(side, cards) >= lowTopStrength(STAND_PAT_TOP_CARD, nutTopCard(side))) {
+        keep = cards.map((_, index) => index);
+    } else {
+        keep = usefulLowCards(side, cards);
+    }
+
+    // 交換できる枚数を超える分は、捨てる予定の中で一番マシなカードを残す
+    const discards = cards.map((_, index) => index).filter(index => !keep.includes(index));
+    return discards.length <= maxDraw ? discards : discards.slice(discards.length - maxDraw);
+}
+
+/**
+ * ハイのドローで残すカード: ストレート以上は全部、それ以外はペア系と4枚フラッシュ、何もなければ一番高いカード
+ */
+function highKeepers(cards: Card[], rules: HandRankingRules): number[] {
+    const all = cards.map((_, index) => index);
+    if (cards.length === 5 && evaluateHand(cards, rules).rank >= 4) return all;
+
+    const paired = all.filter(i => cards.filter(c => c.rank === cards[i].rank).length >= 2);
+    if (paired.length > 0) return paired;
+
+    for (const suit of new Set(cards.map(c => c.suit))) {
+        const suited = all.filter(i => cards[i].suit === suit);
+        if (suited.length >= 4) return suited;
+    }
+
+    const highest = all.reduce((best, i) => highValue(cards[i]) > highValue(cards[best]) ? i : best, 0);
+    return [highest];
+}
+
+/**
+ * Dramaha Pick'em の宣言: ハイと 2-7 で作りやすい方
+ */
+export function chooseDeclaration(hand: string[]): 'high' | 'low' {
+    const cards = parseCards(hand);
+    const high = startingHighStrength(cards);
+    const low = Math.max(madeLowStrength('2-7', cards), lowDrawStrength('2-7', cards));
+    return low > high ? 'low' : 'high';
+}
+
+/**
+ * Cry Me a River: 消失させるカードを選ぶ（残りの手札で一番強くなる組み合わせ）
+ * @returns 消すカードのインデックス（ちょうど count 枚）
+ */
+export function chooseVanish(hole: string[], board: string[], variant: GameVariantConfig, count: number): number[] {
+    const indexes = hole.map((_, index) => index);
+    let best: number[] = indexes.slice(0, count);
+    let bestStrength = -1;
+    for (const vanish of combinations(indexes, count)) {
+        const kept = hole.filter((_, index) => !vanish.includes(index));
+        const strength = estimateHandStrength(kept, board, variant);
+        if (strength > bestStrength) {
+            best = vanish;
+            bestStrength = strength;
+        }
+    }
+    return best;
+}
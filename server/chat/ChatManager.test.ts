@@ -0,0 +1,175 @@
+/**
+ * Chat Manager Tests
+ * 文字数制限・禁止語フィルター・ミュート・ハンド履歴用のメッセージ
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChatManager, MAX_CHAT_LENGTH, createWordFilter } from './ChatManager.js';
+import {
+    describeFinalTable, describeHandForHand, describeNextGame, describePlacement, describePlayerMoved, describeWinners,
+} from './dealerMessages.js';
+import type { Room } from '../types.js';
+
+function createRoom(hostId?: string): Room {
+    return {
+        id: 'test-room',
+        hostId,
+        config: {
+            maxPlayers: 6,
+            smallBlind: 5,
+            bigBlind: 10
+        },
+        players: [null, null, null, null, null, null],
+        dealerBtnIndex: 0,
+        activePlayerIndex: -1,
+        streetStarterIndex: 0,
+        lastAggressorIndex: -1,
+        rotation: {
+            enabled: false,
+            gamesList: ['NLH'],
+            currentGameIndex: 0,
+            handsPerGame: 8
+        },
+        metaGame: {
+            standUp: { isActive: false, remainingPlayers: [] },
+            sevenDeuce: false
+        },
+        createdAt: Date.now(),
+        gameState: {
+            status: 'WAITING' as any,
+            street: 0,
+            gameVariant: 'NLH',
+            board: [],
+            pot: { main: 0, side: [] },
+            deckStatus: { stubCount: 0, burnCount: 0 },
+            currentBet: 0,
+            minRaise: 10,
+            handNumber: 0,
+            raisesThisRound: 0,
+            deck: []
+        }
+    };
+}
+
+const alice = { socketId: 'p0', name: 'Alice' };
+
+describe('ChatManager', () => {
+    it('前後の空白を除いて記録し、空・長すぎるメッセージは拒否する', () => {
+        const chat = new ChatManager();
+        const room = createRoom();
+
+        const message = chat.postPlayerMessage(room, alice, '  nice hand  ');
+        expect(message).toMatchObject({ kind: 'player', playerId: 'p0', playerName: 'Alice', text: 'nice hand' });
+
+        expect(() => chat.postPlayerMessage(room, alice, '   ')).toThrow('Message is empty');
+        expect(() => chat.postPlayerMessage(room, alice, 123)).toThrow('Message is empty');
+        expect(() => chat.postPlayerMessage(room, alice, 'x'.repeat(MAX_CHAT_LENGTH + 1))).toThrow();
+        expect(chat.postPlayerMessage(room, alice, 'x'.repeat(MAX_CHAT_LENGTH)).text).toHaveLength(MAX_CHAT_LENGTH);
+    });
+
+    it('禁止語フィルターで伏せる・拒否する', () => {
+        const chat = new ChatManager({ filter: createWordFilter(['darn', ' ']) });
+        const room = createRoom();
+        expect(chat.postPlayerMessage(room, alice, 'Darn river').text).toBe('**** river');
+
+        chat.setFilter(text => text.includes('http') ? null : text);
+        expect(() => chat.postPlayerMessage(room, alice, 'visit http://spam')).toThrow('Message was blocked');
+    });
+
+    it('個人ミュートは閲覧者ごと', () => {
+        const chat = new ChatManager();
+        chat.setMuted('p1', 'p0', true);
+
+        expect(chat.isMutedBy('p1', 'p0')).toBe(true);
+        expect(chat.isMutedBy('p2', 'p0')).toBe(false);
+
+        chat.setMuted('p1', 'p0', false);
+        expect(chat.isMutedBy('p1', 'p0')).toBe(false);
+
+        chat.setMuted('p1', 'p0', true);
+        chat.clearSocket('p1');
+        expect(chat.isMutedBy('p1', 'p0')).toBe(false);
+    });
+
+    it('ホストミュートはPrivate卓のみで、発言を拒否する', () => {
+        const chat = new ChatManager();
+        expect(() => chat.setHostMuted(createRoom(), 'p0', true)).toThrow();
+
+        const room = createRoom('host');
+        chat.setHostMuted(room, alice, true);
+        expect(room.chatMuted).toEqual(['socket:p0']);
+        expect(() => chat.postPlayerMessage(room, alice, 'hello')).toThrow('You have been muted by the host');
+
+        chat.setHostMuted(room, alice, false);
+        expect(room.chatMuted).toBeUndefined();
+        expect(chat.postPlayerMessage(room, alice, 'hello').text).toBe('hello');
+    });
+
+    it('ホストミュートは再接続・再着席しても外れない', () => {
+        const chat = new ChatManager();
+        const room = createRoom('host');
+        const guest = { socketId: 'p1', resumeToken: 'token-1', name: 'Guest' };
+        const bob = { socketId: 'p2', userId: 'u2', name: 'Bob' };
+        room.players[0] = { socketId: 'p1', resumeToken: 'token-1', name: 'Guest' } as any;
+        chat.setHostMuted(room, guest, true);
+        chat.setHostMuted(room, bob, true);
+
+        // ゲストは resumeToken で再接続、ログインユーザーは退出して別のsocketで再着席
+        room.players[0]!.socketId = 'p1-resumed';
+        room.players[1] = { socketId: 'p2-rejoined', userId: 'u2', name: 'Bob' } as any;
+        expect(() => chat.postPlayerMessage(room, { ...guest, socketId: 'p1-resumed' }, 'hi')).toThrow('muted by the host');
+        expect(() => chat.postPlayerMessage(room, { ...bob, socketId: 'p2-rejoined' }, 'hi')).toThrow('muted by the host');
+        // クライアントには今のsocketIdで見せる（resumeToken は送らない）
+        expect(chat.hostMutedSocketIds(room)).toEqual(['p1-resumed', 'p2-rejoined']);
+    });
+
+    it('再接続で個人ミュートを新しいsocketへ引き継ぐ', () => {
+        const chat = new ChatManager();
+        chat.setMuted('viewer', 'p0', true);
+
+        chat.migrateSocket('p0', 'p0-resumed');
+        chat.migrateSocket('viewer', 'viewer-resumed');
+
+        expect(chat.isMutedBy('viewer-resumed', 'p0-resumed')).toBe(true);
+        expect(chat.isMutedBy('viewer', 'p0')).toBe(false);
+    });
+
+    it('ディーラーメッセージも同じストリームに入り、ハンドごとに取り出せる', () => {
+        const chat = new ChatManager();
+        const room = createRoom();
+
+        chat.postPlayerMessage(room, alice, 'gl');
+        chat.postDealerMessage(room.id, 'Alice wins 20');
+
+        const messages = chat.takeHandMessages(room.id);
+        expect(messages.map(m => `${m.kind}:${m.playerName}:${m.text}`)).toEqual([
+            'player:Alice:gl',
+            'dealer:Dealer:Alice wins 20'
+        ]);
+        expect(chat.takeHandMessages(room.id)).toEqual([]);
+    });
+});
+
+describe('dealerMessages', () => {
+    it('勝者とローテーションの文面', () => {
+        expect(describeWinners([
+            { playerName: 'Alice', amount: 120, handRank: 'Two Pair' },
+            { playerName: 'Bob', amount: 15, handRank: 'Uncontested' }
+        ])).toEqual(['Alice wins 120 with Two Pair', 'Bob wins 15']);
+        expect(describeNextGame('PLO')).toBe('Next game: Pot-Limit Omaha');
+    });
+
+    it('トーナメントの順位の文面', () => {
+        const placement = { name: 'Alice', prize: 0, handNumber: 12, finishedAt: 0 };
+        expect(describePlacement({ ...placement, place: 12 })).toBe('Alice finishes 12th');
+        expect(describePlacement({ ...placement, place: 3 })).toBe('Alice finishes 3rd');
+        expect(describePlacement({ ...placement, place: 2, prize: 350 })).toBe('Alice finishes 2nd (wins 350)');
+        expect(describePlacement({ ...placement, place: 1, prize: 650 })).toBe('Alice wins the tournament (650)');
+    });
+
+    it('マルチテーブルの卓移動・ハンド・フォー・ハンド・ファイナルテーブル', () => {
+        expect(describePlayerMoved('Alice', 'HORSE 20 · Table 2')).toBe('Alice moves to HORSE 20 · Table 2');
+        expect(describeHandForHand(4)).toBe('Hand-for-hand: 4 players left on the bubble');
+        expect(describeFinalTable(6)).toBe('Final table: 6 players left');
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * テーブルチャット
+ * プレイヤーの発言とディーラー（システム）メッセージを同じストリームで扱う
+ * 文字数制限・禁止語フィルター・ミュート（個人/ホスト）を管理
+ */
+
+import { randomUUID } from 'crypto';
+import type { ChatMessage, Room } from '../types.js';
+
+export const MAX_CHAT_LENGTH = 200;       // 1メッセージの最大文字数
+const MAX_HAND_MESSAGES = 200;            // ハンド履歴に残す1ハンドあたりの最大件数
+export const DEALER_NAME = 'Dealer';
+
+/**
+ * 禁止語フィルター
+ * 変換後の本文を返す。null を返すと送信を拒否する
+ */
+export type ChatFilter = (text: string) => string | null;
+
+// 送信者
+export interface ChatSender {
+    socketId: string;
+    userId?: string;
+    resumeToken?: string;
+    name: string;
+}
+
+// ホストミュートの対象（着席プレイヤー）
+export type HostMuteTarget = Pick<ChatSender, 'socketId' | 'userId' | 'resumeToken'>;
+
+/**
+ * ホストミュートのキー
+ * 再接続・離席後の再着席で外れないようアカウント単位（ゲストは再接続用トークン）
+ */
+function hostMuteKey(target: HostMuteTarget): string {
+    if (target.userId) return `user:${target.userId}`;
+    return target.resumeToken ? `resume:${target.resumeToken}` : `socket:${target.socketId}`;
+}
+
+/** 何もしないフィルター（デフォルト） */
+export const passThroughFilter: ChatFilter = text => text;
+
+/**
+ * 禁止語を * で伏せるフィルター（大文字小文字を区別しない）
+ */
+export function createWordFilter(words: string[]): ChatFilter {
+    const escaped = words
+        .map(w => w.trim())
+        .filter(w => w.length > 0)
+        .map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (escaped.length === 0) return passThroughFilter;
+    const pattern = new RegExp(escaped.join('|'), 'gi');
+    return text => text.replace(pattern, match => '*'.repeat(match.length));
+}
+
+export class ChatManager {
+    private filter: ChatFilter;
+    private mutes: Map<string, Set<string>> = new Map();           // 閲覧者socketId -> ミュートした送信者socketId
+    private handMessages: Map<string, ChatMessage[]> = new Map();  // roomId -> 直近ハンド中のメッセージ
+
+    constructor(options: { filter?: ChatFilter } = {}) {
+        this.filter = options.filter ?? passThroughFilter;
+    }
+
+    /** 禁止語フィルターを差し替える */
+    setFilter(filter: ChatFilter): void {
+        this.filter = filter;
+    }
+
+    /**
+     * プレイヤーの発言
+     * 空文字・長すぎる・ホストにミュートされている・フィルターで拒否された場合は Error
+     */
+    postPlayerMessage(room: Room, sender: ChatSender, rawText: unknown): ChatMessage {
+        const text = typeof rawText === 'string' ? rawText.trim() : '';
+        if (text.length === 0) {
+            throw new Error('Message is empty');
+        }
+        if (text.length > MAX_CHAT_LENGTH) {
+            throw new Error(`Message must be ${MAX_CHAT_LENGTH} characters or less`);
+        }
+        if (this.isHostMuted(room, sender)) {
+            throw new Error('You have been muted by the host');
+        }
+        const filtered = this.filter(text);
+        if (filtered === null) {
+            throw new Error('Message was blocked');
+        }
+
+        return this.record(room.id, {
+            id: randomUUID(),
+            kind: 'player',
+            playerId: sender.socketId,
+            userId: sender.userId,
+            playerName: sender.name,
+            text: filtered,
+            timestamp: Date.now(),
+        });
+    }
+
+    /** ディーラー（システム）メッセージ */
+    postDealerMessage(roomId: string, text: string): ChatMessage {
+        return this.record(roomId, {
+            id: randomUUID(),
+            kind: 'dealer',
+            playerName: DEALER_NAME,
+            text,
+            timestamp: Date.now(),
+        });
+    }
+
+    /**
+     * 前回の取得以降のメッセージを取り出す（ハンド履歴への保存用）
+     */
+    takeHandMessages(roomId: string): ChatMessage[] {
+        const messages = this.handMessages.get(roomId) ?? [];
+        this.handMessages.delete(roomId);
+        return messages;
+    }
+
+    /** 個人ミュート: viewerId が targetId の発言を受け取らない */
+    setMuted(viewerId: string, targetId: string, muted: boolean): void {
+        let targets = this.mutes.get(viewerId);
+        if (muted) {
+            if (!targets) {
+                targets = new Set();
+                this.mutes.set(viewerId, targets);
+            }
+            targets.add(targetId);
+        } else if (targets) {
+            targets.delete(targetId);
+            if (targets.size === 0) this.mutes.delete(viewerId);
+        }
+    }
+
+    isMutedBy(viewerId: string, senderId: string): boolean {
+        return this.mutes.get(viewerId)?.has(senderId) ?? false;
+    }
+
+    /**
+     * ホストミュート（Private卓のみ）: 部屋全体で発言できなくする
+     */
+    setHostMuted(room: Room, target: HostMuteTarget, muted: boolean): void {
+        if (!room.hostId) {
+            throw new Error('Host mute is only available in private rooms');
+        }
+        const current = new Set(room.chatMuted ?? []);
+        if (muted) current.add(hostMuteKey(target));
+        else current.delete(hostMuteKey(target));
+        room.chatMuted = current.size > 0 ? Array.from(current) : undefined;
+    }
+
+    isHostMuted(room: Room, target: HostMuteTarget): boolean {
+        return room.chatMuted?.includes(hostMuteKey(target)) ?? false;
+    }
+
+    /** クライアントに見せるホストミュート中の着席プレイヤー（socketId。キーには再接続用トークンが含まれるため） */
+    hostMutedSocketIds(room: Room): string[] | undefined {
+        if (!room.chatMuted) return undefined;
+        return room.players
+            .filter((p): p is NonNullable<typeof p> => p !== null && this.isHostMuted(room, p))
+            .map(p => p.socketId);
+    }
+
+    /** 再接続時: 個人ミュートを新しいsocketへ引き継ぐ（ミュートした側・された側とも） */
+    migrateSocket(previousId: string, nextId: string): void {
+        const targets = this.mutes.get(previousId);
+        if (targets) {
+            this.mutes.delete(previousId);
+            this.mutes.set(nextId, targets);
+        }
+        for (const set of this.mutes.values()) {
+            if (set.delete(previousId)) set.add(nextId);
+        }
+    }
+
+    /** 切断時: そのsocketの個人ミュート設定を破棄 */
+    clearSocket(socketId: string): void {
+        this.mutes.delete(socketId);
+    }
+
+    private record(roomId: string, message: ChatMessage): ChatMessage {
+        const messages = this.handMessages.get(roomId) ?? [];
+        messages.push(message);
+        if (messages.length > MAX_HAND_MESSAGES) messages.shift();
+        this.handMessages.set(roomId, messages);
+        return message;
+    }
+}
+
+export const chatManager = new ChatManager();
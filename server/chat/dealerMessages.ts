@@ -0,0 +1,77 @@
+/**
+ * ディーラーメッセージの文面
+ * 勝者・ローテーション・設定変更・トーナメントの進行をチャットストリームに流す
+ */
+
+import { getVariantConfig, parseGameId } from '../gameVariants.js';
+import type { ShowdownResult } from '../ShowdownManager.js';
+import type { BlindLevel, RoomConfig, TournamentPlacement } from '../types.js';
+
+/** 勝者ごとに1行（"Alice wins 120 with Two Pair"） */
+export function describeWinners(winners: { playerName: string; amount: number; handRank?: string }[]): string[] {
+    return winners.map(w => {
+        const rank = w.handRank && w.handRank !== 'Uncontested' ? ` with ${w.handRank}` : '';
+        return `${w.playerName} wins ${w.amount}${rank}`;
+    });
+}
+
+export function describeShowdown(result: ShowdownResult): string[] {
+    return describeWinners(result.winners);
+}
+
+/** ローテーションで次のゲームへ */
+export function describeNextGame(gameId: string): string {
+    const { variant, betStructure } = parseGameId(gameId);
+    return `Next game: ${getVariantConfig(variant, betStructure).name}`;
+}
+
+/** 設定変更の適用 */
+export function describeConfigApplied(config: RoomConfig): string {
+    return `Table settings updated (blinds ${config.smallBlind}/${config.bigBlind})`;
+}
+
+/** Sit & Go の開始 */
+export function describeTournamentStart(entrants: number, prizePool: number): string {
+    return `Tournament started: ${entrants} players, prize pool ${prizePool}`;
+}
+
+/** ブラインドレベルの上昇（次のハンドから） */
+export function describeBlindLevel(levelNumber: number, level: BlindLevel): string {
+    const ante = level.ante ? `, ante ${level.ante}` : '';
+    return `Level ${levelNumber}: blinds ${level.smallBlind}/${level.bigBlind}${ante} from next hand`;
+}
+
+/** 敗退・優勝（"Alice finishes 2nd (wins 350)" / "Bob wins the tournament (650)"） */
+export function describePlacement(placement: TournamentPlacement): string {
+    if (placement.place === 1) {
+        return `${placement.name} wins the tournament (${placement.prize})`;
+    }
+    const prize = placement.prize > 0 ? ` (wins ${placement.prize})` : '';
+    return `${placement.name} finishes ${ordinal(placement.place)}${prize}`;
+}
+
+/** マルチテーブル: 卓の移動（移動元・移動先の両方に流す） */
+export function describePlayerMoved(playerName: string, toTableName: string): string {
+    return `${playerName} moves to ${toTableName}`;
+}
+
+/** マルチテーブル: 卓のブレイク */
+export function describeTableBroken(tableName: string): string {
+    return `${tableName} is broken, players are moved to other tables`;
+}
+
+/** マルチテーブル: バブルのハンド・フォー・ハンド */
+export function describeHandForHand(playersLeft: number): string {
+    return `Hand-for-hand: ${playersLeft} players left on the bubble`;
+}
+
+/** マルチテーブル: ファイナルテーブル */
+export function describeFinalTable(playersLeft: number): string {
+    return `Final table: ${playersLeft} players left`;
+}
+
+function ordinal(n: number): string {
+    const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+    const teen = n % 100 >= 11 && n % 100 <= 13;
+    return `${n}${teen ? 'th' : suffixes[n % 10] ?? 'th'}`;
+}
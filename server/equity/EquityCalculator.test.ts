@@ -0,0 +1,110 @@
+/**
+ * EquityCalculator Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EquityCalculator } from './EquityCalculator.js';
+
+describe('EquityCalculator', () => {
+    const calculator = new EquityCalculator();
+
+    it('AA vs KK プリフロップはモンテカルロで約81%', () => {
+        const result = calculator.calculate({
+            gameVariant: 'NLH',
+            hands: [['A♠', 'A♥'], ['K♠', 'K♥']],
+            iterations: 5000
+        });
+
+        expect(result.method).toBe('monte-carlo');
+        expect(result.trials).toBe(5000);
+        expect(result.players[0].equity).toBeGreaterThan(76);
+        expect(result.players[0].equity).toBeLessThan(87);
+        expect(result.players[0].equity + result.players[1].equity).toBeCloseTo(100, 0);
+    });
+
+    it('ターンからは残りのリバーを全列挙する', () => {
+        // KKはリバーのK2枚のみで逆転（44枚中2枚）
+        const result = calculator.calculate({
+            gameVariant: 'NLH',
+            hands: [['A♠', 'A♥'], ['K♠', 'K♥']],
+            board: ['2♦', '7♣', '9♠', 'J♦']
+        });
+
+        expect(result.method).toBe('exact');
+        expect(result.trials).toBe(44);
+        expect(result.players[1].win).toBeCloseTo((2 / 44) * 100, 1);
+        expect(result.players[0].scoop).toBeCloseTo((42 / 44) * 100, 1);
+    });
+
+    it('リバーまで出ていれば結果は確定（引き分けはtie）', () => {
+        const result = calculator.calculate({
+            gameVariant: 'NLH',
+            hands: [['A♠', '2♥'], ['A♦', '3♥']],
+            board: ['K♠', 'Q♦', 'J♣', 'T♥', '5♦']
+        });
+
+        expect(result.trials).toBe(1);
+        expect(result.players[0]).toMatchObject({ win: 0, tie: 100, scoop: 0, equity: 50 });
+        expect(result.players[1]).toMatchObject({ win: 0, tie: 100, scoop: 0, equity: 50 });
+    });
+
+    it('Hi/Loでハイとローを両取りすればスクープ', () => {
+        const result = calculator.calculate({
+            gameVariant: 'PLO8',
+            hands: [['A♠', '2♠', 'K♦', 'K♣'], ['Q♥', 'Q♦', 'J♥', 'J♦']],
+            board: ['3♠', '4♠', '5♦', '9♣', 'T♣']
+        });
+
+        // A-2で5ハイストレート（ハイ）と5-4-3-2-Aロー
+        expect(result.players[0].scoop).toBe(100);
+        expect(result.players[0].equity).toBe(100);
+        expect(result.players[1].equity).toBe(0);
+    });
+
+    it('ロー不成立ならハイがポット全体を獲得', () => {
+        const result = calculator.calculate({
+            gameVariant: 'PLO8',
+            hands: [['A♠', '2♠', '3♦', '4♣'], ['Q♥', 'Q♦', 'J♥', 'J♦']],
+            board: ['Q♠', '9♠', 'T♦', '9♣', 'K♥']
+        });
+
+        expect(result.players[1].scoop).toBe(100);
+        expect(result.players[0].equity).toBe(0);
+    });
+
+    it('ドローゲームは配り終えたハンドをそのまま評価する', () => {
+        const result = calculator.calculate({
+            gameVariant: '2-7_TD',
+            hands: [['7♠', '5♥', '4♦', '3♣', '2♠'], ['8♠', '6♥', '4♣', '3♦', '2♥']]
+        });
+
+        expect(result.method).toBe('exact');
+        expect(result.players[0].scoop).toBe(100);
+    });
+
+    it('Studは各プレイヤーの残りカードを配って評価する', () => {
+        const result = calculator.calculate({
+            gameVariant: 'RAZZ',
+            hands: [['A♠', '2♥', '3♦'], ['K♠', 'K♥', 'Q♦']],
+            iterations: 500
+        });
+
+        expect(result.method).toBe('monte-carlo');
+        expect(result.players[0].equity).toBeGreaterThan(80);
+    });
+
+    it('重複カード・不明なバリアントはエラー', () => {
+        expect(() => calculator.calculate({
+            gameVariant: 'NLH',
+            hands: [['A♠', 'A♥'], ['A♠', 'K♥']]
+        })).toThrow('Duplicate card: A♠');
+        expect(() => calculator.calculate({
+            gameVariant: 'UNKNOWN',
+            hands: [['A♠', 'A♥'], ['K♠', 'K♥']]
+        })).toThrow('Unknown game variant');
+        expect(() => calculator.calculate({
+            gameVariant: 'NLH',
+            hands: [['A♠', 'A♥']]
+        })).toThrow('At least 2 hands are required');
+    });
+});
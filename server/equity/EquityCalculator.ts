@@ -0,0 +1,397 @@
+/**
+ * オールインエクイティ計算
+ * 既知のホールカード・ボード・デッドカードから勝率/引き分け率/スクープ率を求める
+ * 残りの組み合わせが少なければ全列挙、多ければモンテカルロで近似する
+ */
+
+import {
+    evaluateHand,
+    compareHandRanks,
+    evaluateLowHand8OrBetter,
+    evaluateRazzHand,
+    evaluateBadugiHand,
+    evaluateDeuceSeven,
+    evaluateHidugiHand,
+    compareLowHands,
+    compareBadugiHands,
+    compareDeuceSeven,
+    compareHidugiHands,
+    evaluatePointsHand,
+    comparePointsHands,
+    type HandRank,
+    type HandRankingRules
+} from '../handEvaluator.js';
+import {
+    type Card,
+    parseCards,
+    combinations,
+    getBestPLOLowFiveCards,
+    getBestLowFiveCards,
+    getBestDeuce7FiveCards,
+    getBestBadugiFourCards,
+    getBestHidugiFourCards,
+    getBestRazzFiveCards
+} from '../ShowdownManager.js';
+import {
+    GAME_VARIANTS,
+    getDeckComposition,
+    getHandRankingRules,
+    type GameVariantConfig
+} from '../gameVariants.js';
+
+// 残りの組み合わせがこの数以下なら全列挙
+const EXACT_ENUMERATION_LIMIT = 5000;
+const DEFAULT_ITERATIONS = 2000;
+export const MAX_ITERATIONS = 20000;
+
+export interface EquityRequest {
+    gameVariant: string;
+    hands: string[][];        // 各プレイヤーの既知のホールカード（Studは配られた順）
+    board?: string[];
+    board2?: string[];        // ダブルボード
+    deadCards?: string[];     // フォールドされた等で山札にないカード
+    iterations?: number;      // モンテカルロの試行回数
+}
+
+export interface PlayerEquity {
+    hand: string[];
+    win: number;     // 1つ以上のポット（ハイ/ロー等）を単独で獲得した割合（%）
+    tie: number;     // 引き分けでのみ獲得した割合（%）
+    scoop: number;   // ポット全体を単独で獲得した割合（%）
+    equity: number;  // ポットの期待取り分（%）
+}
+
+export interface EquityResult {
+    gameVariant: string;
+    method: 'exact' | 'monte-carlo';
+    trials: number;
+    players: PlayerEquity[];
+}
+
+// ポットの分割単位（ハイ/ロー、ボード1/ボード2 等）
+interface PotSide {
+    // 資格なし（8-or-betterのロー不成立など）はnull
+    evaluate: (hand: Card[], board: Card[][]) => any | null;
+    compare: (a: any, b: any) => number;
+}
+
+// 5枚の候補から最強のハイ役（試行回数が多いので候補ごとに1回だけ評価する）
+const bestHighOf = (candidates: Card[][], rules: HandRankingRules): HandRank => candidates
+    .map(cards => evaluateHand(cards, rules))
+    .reduce((best, rank) => (compareHandRanks(rank, best) > 0 ? rank : best));
+
+const fiveCardCandidates = (cards: Card[]): Card[][] =>
+    cards.length <= 5 ? [cards] : combinations(cards, 5);
+
+// Omaha: ホールから2枚・ボードから3枚（getBestPLOFiveCardsと同じ）
+const omahaCandidates = (hand: Card[], board: Card[]): Card[][] => {
+    if (hand.length < 2 || board.length < 3) return fiveCardCandidates([...hand, ...board]);
+    const boardCombos = combinations(board, 3);
+    return combinations(hand, 2).flatMap(holeCombo => boardCombos.map(boardCombo => [...holeCombo, ...boardCombo]));
+};
+
+// ドロー/スタッド系の評価モード（ShowdownManagerの評価と同じ）
+const MODE_SIDES: Record<string, PotSide> = {
+    'razz': {
+        evaluate: (hand, boards) => evaluateRazzHand(getBestRazzFiveCards([...hand, ...(boards[0] || [])])),
+        compare: compareLowHands
+    },
+    'a5': {
+        evaluate: hand => evaluateRazzHand(getBestRazzFiveCards(hand)),
+        compare: compareLowHands
+    },
+    'badugi': {
+        evaluate: hand => evaluateBadugiHand(getBestBadugiFourCards(hand)),
+        compare: compareBadugiHands
+    },
+    'hidugi': {
+        evaluate: hand => evaluateHidugiHand(getBestHidugiFourCards(hand)),
+        compare: compareHidugiHands
+    },
+    '2-7': {
+        evaluate: hand => evaluateDeuceSeven(getBestDeuce7FiveCards(hand)),
+        compare: compareDeuceSeven
+    },
+    'stud27': {
+        evaluate: (hand, boards) => evaluateDeuceSeven(getBestDeuce7FiveCards([...hand, ...(boards[0] || [])])),
+        compare: compareDeuceSeven
+    },
+    'dramaha49': {
+        evaluate: hand => evaluatePointsHand(hand),
+        compare: (a, b) => comparePointsHands(a, b)
+    },
+    'dramaha0': {
+        evaluate: hand => evaluatePointsHand(hand),
+        compare: (a, b) => comparePointsHands(a, b, true)
+    },
+};
+
+// スプリットゲームの評価（ShowdownManager.executeSplitShowdown と同じ組み合わせ）
+const SPLIT_MODES: Record<string, [string, string]> = {
+    'baduecey': ['2-7', 'badugi'],
+    'badacey': ['a5', 'badugi'],
+    'archie': ['a5', '2-7'],
+    'razzdugi': ['razz', 'badugi'],
+};
+
+export class EquityCalculator {
+    /**
+     * エクイティを計算
+     * @throws 不正なカード・重複・枚数超過などの入力エラー
+     */
+    calculate(request: EquityRequest): EquityResult {
+        const variantConfig = GAME_VARIANTS[request.gameVariant];
+        if (!variantConfig) {
+            throw new Error(`Unknown game variant: ${request.gameVariant}`);
+        }
+        if (variantConfig.handEvaluation === 'ofc') {
+            throw new Error(`Equity is not supported for ${request.gameVariant}`);
+        }
+
+        const hands = request.hands || [];
+        if (hands.length < 2) {
+            throw new Error('At least 2 hands are required');
+        }
+
+        const boards = [request.board || []];
+        if ((variantConfig.boardCount || 1) > 1) boards.push(request.board2 || []);
+        const { ranks, suits } = getDeckComposition(variantConfig);
+        const fullDeck = suits.flatMap(suit => ranks.map(rank => rank + suit));
+        this.validateCards(variantConfig, fullDeck, hands, boards, request.deadCards || []);
+
+        const sides = this.buildSides(variantConfig);
+        const used = new Set([...hands.flat(), ...boards.flat(), ...(request.deadCards || [])]);
+        const deck = fullDeck.filter(card => !used.has(card));
+        const boardSize = variantConfig.communityCardType === 'flop'
+            ? (variantConfig.boardPattern || [3, 1, 1]).reduce((sum, n) => sum + n, 0)
+            : 0;
+        const handSize = variantConfig.communityCardType === 'stud' ? variantConfig.holeCardCount : 0;
+
+        // 配る必要のある枠（ボードごと、Studはプレイヤーごと）
+        const slots = [
+            ...boards.map(board => Math.max(0, boardSize - board.length)),
+            ...hands.map(hand => Math.max(0, handSize - hand.length)),
+        ];
+        const needed = slots.reduce((sum, n) => sum + n, 0);
+        if (needed > deck.length) {
+            throw new Error('Not enough cards left in the deck');
+        }
+
+        const tally = hands.map(() => ({ win: 0, tie: 0, scoop: 0, equity: 0 }));
+        const runTrial = (dealt: string[]) => {
+            let offset = 0;
+            const fill = (known: string[], count: number) => {
+                const cards = [...known, ...dealt.slice(offset, offset + count)];
+                offset += count;
+                return cards;
+            };
+            const fullBoards = boards.map((board, i) => fill(board, slots[i]));
+            const fullHands = hands.map((hand, i) => fill(hand, slots[boards.length + i]));
+            this.scoreTrial(sides, fullHands, fullBoards, tally);
+        };
+
+        // 1つの枠だけが未確定で組み合わせが少なければ全列挙
+        const openSlots = slots.filter(n => n > 0).length;
+        const exactCount = openSlots <= 1 ? this.countCombinations(deck.length, needed) : Infinity;
+        let method: EquityResult['method'];
+        let trials: number;
+        if (exactCount <= EXACT_ENUMERATION_LIMIT) {
+            method = 'exact';
+            const runouts = needed === 0 ? [[]] : combinations(deck, needed);
+            runouts.forEach(runTrial);
+            trials = runouts.length;
+        } else {
+            method = 'monte-carlo';
+            trials = Math.min(MAX_ITERATIONS, Math.max(1, Math.floor(request.iterations ?? DEFAULT_ITERATIONS)));
+            for (let i = 0; i < trials; i++) {
+                runTrial(this.sample(deck, needed));
+            }
+        }
+
+        const toPercent = (value: number) => Math.round((value / trials) * 10000) / 100;
+        return {
+            gameVariant: request.gameVariant,
+            method,
+            trials,
+            players: hands.map((hand, i) => ({
+                hand: [...hand],
+                win: toPercent(tally[i].win),
+                tie: toPercent(tally[i].tie),
+                scoop: toPercent(tally[i].scoop),
+                equity: toPercent(tally[i].equity),
+            })),
+        };
+    }
+
+    /**
+     * バリアントのポット分割（評価モード）を組み立てる
+     */
+    private buildSides(variantConfig: GameVariantConfig): PotSide[] {
+        const useOmahaSelection = variantConfig.holeCardsForSelection !== undefined;
+        const rules = getHandRankingRules(variantConfig);
+        const highOf = (candidates: Card[][]) => bestHighOf(candidates, rules);
+        const bestHigh = (hand: Card[], board: Card[]) => highOf(useOmahaSelection
+            ? omahaCandidates(hand, board)
+            : fiveCardCandidates([...hand, ...board]));
+
+        // Cry Me a River: 残す枚数の組み合わせから最強の手を選ぶ（自動消失と同じ）
+        if (variantConfig.vanishCards) {
+            const keepCount = variantConfig.holeCardCount - variantConfig.vanishCards;
+            return [{
+                evaluate: (hand, boards) => highOf(combinations(hand, Math.min(keepCount, hand.length))
+                    .flatMap(keep => fiveCardCandidates([...keep, ...boards[0]]))),
+                compare: compareHandRanks
+            }];
+        }
+
+        // Dramaha: ボードハンド（Omahaハイ）とドローハンド
+        if (variantConfig.isDramaha) {
+            const drawSide = MODE_SIDES[variantConfig.dramahaDrawEval || 'high']
+                ?? { evaluate: (hand: Card[]) => highOf(fiveCardCandidates(hand)), compare: compareHandRanks };
+            return [
+                { evaluate: (hand, boards) => highOf(omahaCandidates(hand, boards[0])), compare: compareHandRanks },
+                drawSide,
+            ];
+        }
+
+        // ダブルボード: ボードごとにハイ
+        if ((variantConfig.boardCount || 1) > 1) {
+            return [0, 1].map(boardIdx => ({
+                evaluate: (hand: Card[], boards: Card[][]) => bestHigh(hand, boards[boardIdx]),
+                compare: compareHandRanks
+            }));
+        }
+
+        const mode = variantConfig.handEvaluation;
+        if (mode === 'high') {
+            return [{ evaluate: (hand, boards) => bestHigh(hand, boards[0] || []), compare: compareHandRanks }];
+        }
+        if (mode === 'highlow') {
+            return [
+                { evaluate: (hand, boards) => bestHigh(hand, boards[0] || []), compare: compareHandRanks },
+                {
+                    evaluate: (hand, boards) => {
+                        const lowFive = useOmahaSelection
+                            ? getBestPLOLowFiveCards(hand, boards[0] || [])
+                            : getBestLowFiveCards([...hand, ...(boards[0] || [])]);
+                        const low = lowFive ? evaluateLowHand8OrBetter(lowFive) : null;
+                        return low && low.valid ? low : null;
+                    },
+                    compare: compareLowHands
+                },
+            ];
+        }
+        if (SPLIT_MODES[mode]) {
+            return SPLIT_MODES[mode].map(sideMode => MODE_SIDES[sideMode]);
+        }
+        if (MODE_SIDES[mode]) {
+            return [MODE_SIDES[mode]];
+        }
+        throw new Error(`Equity is not supported for ${variantConfig.id}`);
+    }
+
+    /**
+     * 1回分のランアウトを評価して集計に加える
+     * 資格者のいない分割（ローなし等）は他の分割に回す
+     */
+    private scoreTrial(
+        sides: PotSide[],
+        hands: string[][],
+        boards: string[][],
+        tally: { win: number; tie: number; scoop: number; equity: number }[]
+    ): void {
+        const handCards = hands.map(parseCards);
+        const boardCards = boards.map(parseCards);
+
+        const sideWinners = sides
+            .map(side => {
+                const results = handCards.map(hand => side.evaluate(hand, boardCards));
+                let best: any = null;
+                for (const result of results) {
+                    if (result !== null && (best === null || side.compare(result, best) > 0)) best = result;
+                }
+                if (best === null) return [];
+                return results
+                    .map((result, i) => (result !== null && side.compare(result, best) === 0 ? i : -1))
+                    .filter(i => i !== -1);
+            })
+            .filter(winners => winners.length > 0);
+
+        const sideShare = 1 / sideWinners.length;
+        const shares = hands.map(() => ({ amount: 0, outright: false }));
+        for (const winners of sideWinners) {
+            for (const i of winners) {
+                shares[i].amount += sideShare / winners.length;
+                if (winners.length === 1) shares[i].outright = true;
+            }
+        }
+
+        shares.forEach((share, i) => {
+            if (share.amount <= 0) return;
+            tally[i].equity += share.amount;
+            if (share.outright) tally[i].win++;
+            else tally[i].tie++;
+            if (share.amount >= 1 - 1e-9) tally[i].scoop++;
+        });
+    }
+
+    private validateCards(
+        variantConfig: GameVariantConfig,
+        fullDeck: string[],
+        hands: string[][],
+        boards: string[][],
+        deadCards: string[]
+    ): void {
+        const seen = new Set<string>();
+        for (const card of [...hands.flat(), ...boards.flat(), ...deadCards]) {
+            if (!fullDeck.includes(card)) {
+                throw new Error(`Invalid card: ${card}`);
+            }
+            if (seen.has(card)) {
+                throw new Error(`Duplicate card: ${card}`);
+            }
+            seen.add(card);
+        }
+
+        for (const hand of hands) {
+            if (hand.length === 0 || hand.length > variantConfig.holeCardCount) {
+                throw new Error(`Each hand must have 1-${variantConfig.holeCardCount} cards`);
+            }
+            // Stud以外は全てのホールカードが必要
+            if (variantConfig.communityCardType !== 'stud' && hand.length !== variantConfig.holeCardCount) {
+                throw new Error(`Each hand must have ${variantConfig.holeCardCount} cards`);
+            }
+        }
+
+        const boardSize = variantConfig.communityCardType === 'flop'
+            ? (variantConfig.boardPattern || [3, 1, 1]).reduce((sum, n) => sum + n, 0)
+            : 1; // Stud: 山札切れ時のコミュニティカード1枚まで
+        const maxBoardSize = variantConfig.communityCardType === 'none' ? 0 : boardSize;
+        for (const board of boards) {
+            if (board.length > maxBoardSize) {
+                throw new Error(`Board must have at most ${maxBoardSize} cards`);
+            }
+        }
+    }
+
+    /**
+     * 山札からcount枚をランダムに選ぶ（部分Fisher-Yates）
+     */
+    private sample(deck: string[], count: number): string[] {
+        const pool = [...deck];
+        for (let i = 0; i < count; i++) {
+            const j = i + Math.floor(Math.random() * (pool.length - i));
+            [pool[i], pool[j]] = [pool[j], pool[i]];
+        }
+        return pool.slice(0, count);
+    }
+
+    private countCombinations(n: number, k: number): number {
+        let result = 1;
+        for (let i = 0; i < k; i++) {
+            result = (result * (n - i)) / (i + 1);
+            if (result > EXACT_ENUMERATION_LIMIT) return Infinity;
+        }
+        return result;
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * エクイティ計算 REST API（スタディ用）
+ * POST /api/equity - 既知のハンド・ボードからエクイティを計算
+ */
+
+import { Router } from 'express';
+import { EquityCalculator } from './EquityCalculator.js';
+
+const router = Router();
+const calculator = new EquityCalculator();
+
+/**
+ * POST /api/equity
+ * body: { gameVariant, hands, board?, board2?, deadCards?, iterations? }
+ */
+router.post('/', (req, res) => {
+  const { gameVariant, hands, board, board2, deadCards, iterations } = req.body ?? {};
+
+  const isCardList = (value: unknown) => Array.isArray(value) && value.every(card => typeof card === 'string');
+  if (typeof gameVariant !== 'string' || !Array.isArray(hands) || !hands.every(isCardList)) {
+    return res.status(400).json({ message: 'gameVariant and hands are required' });
+  }
+  if ([board, board2, deadCards].some(cards => cards !== undefined && !isCardList(cards))) {
+    return res.status(400).json({ message: 'board, board2 and deadCards must be card lists' });
+  }
+  if (iterations !== undefined && (typeof iterations !== 'number' || !Number.isFinite(iterations))) {
+    return res.status(400).json({ message: 'iterations must be a number' });
+  }
+
+  try {
+    res.json(calculator.calculate({ gameVariant, hands, board, board2, deadCards, iterations }));
+  } catch (error) {
+    res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to calculate equity' });
+  }
+});
+
+export default router;
@@ -0,0 +1,173 @@
+/**
+ * DeckProvider Tests
+ * シード固定・スクリプトデッキによる再現可能なハンド
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DeckProvider, buildScriptedDeck, parseDeckSource } from './DeckProvider.js';
+import { verifyFairness } from './provablyFair.js';
+import { GameEngine } from '../GameEngine.js';
+import { OFCGameEngine } from '../OFCGameEngine.js';
+import { ShowdownManager } from '../ShowdownManager.js';
+import { PotManager } from '../PotManager.js';
+import type { Room, Player } from '../types.js';
+
+function createPlayer(socketId: string): Player {
+    return {
+        socketId,
+        name: socketId,
+        stack: 1000,
+        bet: 0,
+        totalBet: 0,
+        status: 'ACTIVE',
+        hand: null
+    };
+}
+
+function createRoom(players: (Player | null)[], gameVariant: string): Room {
+    return {
+        id: 'test-room',
+        config: { maxPlayers: 6, smallBlind: 5, bigBlind: 10 },
+        players,
+        dealerBtnIndex: 1,
+        activePlayerIndex: -1,
+        streetStarterIndex: 0,
+        lastAggressorIndex: -1,
+        rotation: { enabled: false, gamesList: [gameVariant], currentGameIndex: 0, handsPerGame: 8 },
+        metaGame: { standUp: { isActive: false, remainingPlayers: [] }, sevenDeuce: false },
+        createdAt: Date.now(),
+        gameState: {
+            status: 'WAITING' as any,
+            street: 0,
+            gameVariant,
+            board: [],
+            pot: { main: 0, side: [] },
+            deckStatus: { stubCount: 0, burnCount: 0 },
+            currentBet: 0,
+            minRaise: 10,
+            handNumber: 0,
+            raisesThisRound: 0,
+            deck: []
+        }
+    };
+}
+
+describe('DeckProvider', () => {
+    it('シードを固定すると同じハンド番号で同じデッキになる', () => {
+        const a = new DeckProvider({ type: 'seed', seed: 'bug-report' });
+        const b = new DeckProvider({ type: 'seed', seed: 'bug-report' });
+
+        const handA = a.nextHand('standard', 42, 'ignored');
+        const handB = b.nextHand('standard', 42, 'other');
+        expect(handA.deck).toEqual(handB.deck);
+        expect(b.nextHand('standard', 43, '').deck).not.toEqual(handA.deck);
+
+        // シード固定でもコミットメントは検証できる
+        expect(handA.reveal!.serverSeed).toBe('bug-report');
+        expect(verifyFairness(handA.reveal!).deck).toEqual(handA.deck);
+    });
+
+    it('次のハンドのコミットメントは配る前に決まっていて、クライアントシードで変わらない', () => {
+        const provider = new DeckProvider();
+        const published = provider.nextCommitment();
+
+        const hand = provider.nextHand('standard', 1, 'chosen-after-commitment');
+        expect(hand.commitment!.commitment).toBe(published);
+        expect(verifyFairness(hand.reveal!).commitmentMatches).toBe(true);
+        // 使ったら次のハンド用の新しいシード
+        expect(provider.nextCommitment()).not.toBe(published);
+
+        provider.setSource({ type: 'scripted', decks: [['A♠']] });
+        expect(provider.nextCommitment()).toBeUndefined();
+    });
+
+    it('スクリプトデッキは1ハンドずつ使い、使い切ったら通常のシャッフルに戻る', () => {
+        const provider = new DeckProvider({ type: 'scripted', decks: [['A♠', 'K♠'], ['2♣']] });
+
+        const first = provider.nextHand('standard', 1, '');
+        expect(first.deck.slice(0, 3)).toEqual(['A♠', 'K♠', '2♠']);
+        expect(first.deck).toHaveLength(52);
+        expect(first.commitment).toBeUndefined();
+
+        expect(provider.nextHand('standard', 2, '').deck[0]).toBe('2♣');
+        expect(provider.nextHand('standard', 3, '').commitment).toBeDefined();
+    });
+
+    it('今のデッキタイプに合わないスクリプトは破棄して通常のシャッフルで配る', () => {
+        // standard で設定した後にショートデッキへローテーションした場合
+        const provider = new DeckProvider({ type: 'scripted', decks: [['2♠', 'A♠'], ['A♥']] });
+
+        const hand = provider.nextHand('short', 1, '');
+        expect(hand.deck).toHaveLength(36);
+        expect(hand.commitment).toBeDefined();
+        // 残りのスクリプトも使わない
+        expect(provider.nextHand('short', 2, '').commitment).toBeDefined();
+    });
+
+    it('デッキにないカード・重複はエラー', () => {
+        expect(() => buildScriptedDeck('short', ['2♠'])).toThrow('not in the short deck');
+        expect(() => buildScriptedDeck('standard', ['A♠', 'A♠'])).toThrow('Duplicate');
+        expect(buildScriptedDeck('ofc', ['JK1'])).toHaveLength(54);
+    });
+
+    it('parseDeckSource: 形式を検証する', () => {
+        expect(parseDeckSource(null, 'standard')).toBeNull();
+        expect(parseDeckSource({ type: 'seed', seed: 'x' }, 'standard')).toEqual({ type: 'seed', seed: 'x' });
+        expect(() => parseDeckSource({ type: 'seed', seed: '' }, 'standard')).toThrow();
+        expect(() => parseDeckSource({ type: 'scripted', decks: [['JK1']] }, 'standard')).toThrow();
+        expect(() => parseDeckSource({ type: 'shuffle' }, 'standard')).toThrow();
+    });
+});
+
+describe('GameEngine: スクリプトデッキ', () => {
+    it('指定した順に配られ、シナリオ通りのショーダウンになる', () => {
+        // 席順のラウンドロビン: p0, p1, p0, p1 → バーン → フロップ3枚 → バーン → ターン → バーン → リバー
+        const engine = new GameEngine({
+            deckSource: {
+                type: 'scripted',
+                decks: [['A♠', '7♦', 'A♥', '2♣', '3♠', 'K♦', 'K♣', '9♥', '4♠', '5♥', '6♠', 'J♣', 'Q♦']]
+            }
+        });
+        const room = createRoom([createPlayer('p0'), createPlayer('p1'), null, null, null, null], 'NLH');
+
+        engine.startHand(room);
+        expect(room.players[0]!.hand).toEqual(['A♠', 'A♥']);
+        expect(room.players[1]!.hand).toEqual(['7♦', '2♣']);
+        expect(room.gameState.fairness).toBeUndefined();
+
+        while (room.gameState.status !== 'SHOWDOWN') {
+            const player = room.players[room.activePlayerIndex]!;
+            const type = player.bet < room.gameState.currentBet ? 'CALL' : 'CHECK';
+            expect(engine.processAction(room, { playerId: player.socketId, type, timestamp: Date.now() }).success).toBe(true);
+        }
+        expect(room.gameState.board).toEqual(['K♦', 'K♣', '9♥', '5♥', 'J♣']);
+
+        room.gameState.pot = new PotManager().calculatePots(room.players);
+        const result = new ShowdownManager().executeShowdown(room);
+        expect(result.winners.map(w => w.playerId)).toEqual(['p0']);
+    });
+
+    it('同じシードのルームは同じハンドを再現する', () => {
+        const deal = () => {
+            const engine = new GameEngine({ deckSource: { type: 'seed', seed: 'seed-x' } });
+            const room = createRoom([createPlayer('p0'), createPlayer('p1'), createPlayer('p2'), null, null, null], '7CS');
+            engine.startHand(room);
+            return room.players.map(p => p?.hand ?? null);
+        };
+        expect(deal()).toEqual(deal());
+    });
+});
+
+describe('OFCGameEngine: スクリプトデッキ', () => {
+    it('ジョーカーを含むカード順で配られる', () => {
+        const engine = new OFCGameEngine({
+            deckSource: { type: 'scripted', decks: [['JK1', 'A♠', 'A♥', 'A♦', 'A♣', 'JK2', 'K♠', 'K♥', 'K♦', 'K♣']] }
+        });
+        const room = createRoom([createPlayer('p0'), createPlayer('p1'), null, null, null, null], 'OFC');
+
+        engine.startHand(room);
+        expect(room.ofcState!.players[0].currentCards).toEqual(['JK1', 'A♠', 'A♥', 'A♦', 'A♣']);
+        expect(room.ofcState!.players[1].currentCards).toEqual(['JK2', 'K♠', 'K♥', 'K♦', 'K♣']);
+        expect(room.ofcState!.deck).toHaveLength(44);
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * DeckProvider - ハンドごとのデッキを用意する
+ * 既定は Provably Fair のシャッフル。開発・テスト用にシード固定やカード順の指定（スクリプト）に差し替えられる
+ */
+
+import { HmacRandom, buildUnshuffledDeck, createFairHand, generateServerSeed, hashServerSeed } from './provablyFair.js';
+import { shuffleDeck, type RandomSource } from './random.js';
+import type { DeckSource, FairDeckType, FairnessCommitment, FairnessReveal } from '../types.js';
+
+// スクリプトデッキのリシャッフル（ドロー）用の固定シード
+const SCRIPTED_RESHUFFLE_SEED = 'scripted-deck';
+
+export interface HandDeck {
+    deck: string[];                    // 先頭から配る
+    random: RandomSource;              // ドローのリシャッフル用（同じハンドの乱数列の続き）
+    commitment?: FairnessCommitment;   // スクリプトデッキにはなし
+    reveal?: FairnessReveal;
+}
+
+/**
+ * スクリプトのカード順からデッキを組み立てる
+ * 指定したカードを先頭に、残りはシャッフル前の並びで後ろに続ける
+ */
+export function buildScriptedDeck(deckType: FairDeckType, order: string[]): string[] {
+    const fullDeck = buildUnshuffledDeck(deckType);
+    const seen = new Set<string>();
+    for (const card of order) {
+        if (!fullDeck.includes(card)) {
+            throw new Error(`Card ${card} is not in the ${deckType} deck`);
+        }
+        if (seen.has(card)) {
+            throw new Error(`Duplicate card in scripted deck: ${card}`);
+        }
+        seen.add(card);
+    }
+    return [...order, ...fullDeck.filter(card => !seen.has(card))];
+}
+
+export class DeckProvider {
+    private seed: string | null = null;
+    private scriptedDecks: string[][] = [];
+    // 次のハンドのサーバーシード（コミットメントをクライアントシードの確定前に公開するため先に生成）
+    private nextServerSeed: string = generateServerSeed();
+
+    constructor(source: DeckSource | null = null) {
+        this.setSource(source);
+    }
+
+    /**
+     * デッキソースを設定（null で通常のランダムシャッフルに戻す）
+     * スクリプトは次のハンドから1ハンドずつ使う
+     */
+    setSource(source: DeckSource | null): void {
+        this.seed = source?.type === 'seed' ? source.seed : null;
+        this.scriptedDecks = source?.type === 'scripted' ? source.decks.map(deck => [...deck]) : [];
+    }
+
+    /**
+     * 次のハンドのコミットメント（前のハンドのうちに公開し、サーバーがクライアントシードを見てからシードを選べないようにする）
+     * 次がスクリプトデッキならなし
+     */
+    nextCommitment(): string | undefined {
+        if (this.scriptedDecks.length > 0) return undefined;
+        return hashServerSeed(this.seed ?? this.nextServerSeed);
+    }
+
+    /**
+     * 次のハンドのデッキ
+     * スクリプトは設定時と今のデッキタイプが違う場合がある（ローテーションでショートデッキに変わった等）ので毎ハンド検証し、
+     * 合わなければ残りのスクリプトを破棄して通常のシャッフルで配る
+     * @param clientSeed 参加プレイヤーのクライアントシード（シード固定時は再現性のため使わない）
+     * @param nonce ハンド番号
+     */
+    nextHand(deckType: FairDeckType, nonce: number, clientSeed: string): HandDeck {
+        const scripted = this.scriptedDecks.shift();
+        if (scripted) {
+            try {
+                return {
+                    deck: buildScriptedDeck(deckType, scripted),
+                    random: new HmacRandom(SCRIPTED_RESHUFFLE_SEED, '', nonce),
+                };
+            } catch (error) {
+                console.warn(`⚠️ Scripted deck discarded: ${(error as Error).message}`);
+                this.scriptedDecks = [];
+            }
+        }
+
+        const fairHand = this.seed !== null
+            ? createFairHand('', nonce, deckType, this.seed)
+            : createFairHand(clientSeed, nonce, deckType, this.takeNextServerSeed());
+        return {
+            deck: shuffleDeck(buildUnshuffledDeck(deckType), fairHand.random),
+            random: fairHand.random,
+            commitment: fairHand.commitment,
+            reveal: fairHand.reveal,
+        };
+    }
+
+    /** 公開済みのシードを使い、その次のハンドのシードを用意する */
+    private takeNextServerSeed(): string {
+        const serverSeed = this.nextServerSeed;
+        this.nextServerSeed = generateServerSeed();
+        return serverSeed;
+    }
+}
+
+/**
+ * クライアントから受け取ったデッキソースを検証（開発用の socket イベント）
+ * スクリプトのカードは指定したデッキタイプで検証する
+ * @throws 形式が不正・デッキにないカード・重複
+ */
+export function parseDeckSource(value: unknown, deckType: FairDeckType): DeckSource | null {
+    if (value === null || value === undefined) return null;
+    const source = value as Partial<{ type: string; seed: unknown; decks: unknown }>;
+
+    if (source.type === 'seed') {
+        if (typeof source.seed !== 'string' || source.seed.length === 0) {
+            throw new Error('seed must be a non-empty string');
+        }
+        return { type: 'seed', seed: source.seed };
+    }
+
+    if (source.type === 'scripted') {
+        const decks = source.decks;
+        if (!Array.isArray(decks) || decks.length === 0 ||
+            !decks.every(deck => Array.isArray(deck) && deck.every(card => typeof card === 'string'))) {
+            throw new Error('decks must be a non-empty list of card lists');
+        }
+        for (const deck of decks as string[][]) {
+            buildScriptedDeck(deckType, deck);
+        }
+        return { type: 'scripted', decks: decks as string[][] };
+    }
+
+    throw new Error("Deck source type must be 'seed' or 'scripted'");
+}
@@ -0,0 +1,35 @@
+/**
+ * Provably Fair 検証 REST API
+ * POST /api/fairness/verify - 公開されたシードからコミットメントとデッキ順を検証
+ */
+
+import { Router } from 'express';
+import { verifyFairness } from './provablyFair.js';
+import type { FairDeckType } from '../types.js';
+
+const router = Router();
+
+const DECK_TYPES: FairDeckType[] = ['standard', 'short', 'ofc'];
+
+/**
+ * POST /api/fairness/verify
+ * body: { serverSeed, commitment, clientSeed, nonce, deckType }
+ * → { commitmentMatches, deck }
+ */
+router.post('/verify', (req, res) => {
+  const { serverSeed, commitment, clientSeed, nonce, deckType } = req.body ?? {};
+
+  if (typeof serverSeed !== 'string' || typeof commitment !== 'string' || typeof clientSeed !== 'string') {
+    return res.status(400).json({ message: 'serverSeed, commitment and clientSeed are required' });
+  }
+  if (!Number.isInteger(nonce) || nonce < 0) {
+    return res.status(400).json({ message: 'nonce must be a non-negative integer' });
+  }
+  if (!DECK_TYPES.includes(deckType)) {
+    return res.status(400).json({ message: `deckType must be one of ${DECK_TYPES.join(', ')}` });
+  }
+
+  res.json(verifyFairness({ serverSeed, commitment, clientSeed, nonce, deckType }));
+});
+
+export default router;
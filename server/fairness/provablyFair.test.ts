@@ -0,0 +1,141 @@
+/**
+ * Provably Fair Tests
+ * シードのコミットメント・決定的なシャッフル・デッキ順の再計算
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    HmacRandom, hashServerSeed, buildUnshuffledDeck, createFairHand, computeDeckOrder, verifyFairness,
+} from './provablyFair.js';
+import { Dealer } from '../Dealer.js';
+import { GameEngine } from '../GameEngine.js';
+import { DECK_COMPOSITIONS } from '../gameVariants.js';
+import type { Room, Player } from '../types.js';
+
+function createPlayer(socketId: string, clientSeed?: string): Player {
+    return {
+        socketId,
+        name: socketId,
+        stack: 1000,
+        bet: 0,
+        totalBet: 0,
+        status: 'ACTIVE',
+        hand: null,
+        clientSeed
+    };
+}
+
+function createRoom(players: (Player | null)[]): Room {
+    return {
+        id: 'test-room',
+        config: { maxPlayers: 6, smallBlind: 5, bigBlind: 10 },
+        players,
+        dealerBtnIndex: 1,
+        activePlayerIndex: -1,
+        streetStarterIndex: 0,
+        lastAggressorIndex: -1,
+        rotation: { enabled: false, gamesList: ['NLH'], currentGameIndex: 0, handsPerGame: 8 },
+        metaGame: { standUp: { isActive: false, remainingPlayers: [] }, sevenDeuce: false },
+        createdAt: Date.now(),
+        gameState: {
+            status: 'WAITING' as any,
+            street: 0,
+            gameVariant: 'NLH',
+            board: [],
+            pot: { main: 0, side: [] },
+            deckStatus: { stubCount: 0, burnCount: 0 },
+            currentBet: 0,
+            minRaise: 10,
+            handNumber: 0,
+            raisesThisRound: 0,
+            deck: []
+        }
+    };
+}
+
+describe('HmacRandom', () => {
+    it('同じシードからは同じ乱数列が得られる', () => {
+        const a = new HmacRandom('server', 'client', 1);
+        const b = new HmacRandom('server', 'client', 1);
+        const seqA = Array.from({ length: 50 }, () => a.nextInt(52));
+        const seqB = Array.from({ length: 50 }, () => b.nextInt(52));
+        expect(seqA).toEqual(seqB);
+        expect(seqA.every(n => n >= 0 && n < 52)).toBe(true);
+    });
+
+    it('クライアントシードやnonceが変わると乱数列も変わる', () => {
+        const base = computeDeckOrder({ serverSeed: 's', clientSeed: 'c', nonce: 1, deckType: 'standard' });
+        expect(computeDeckOrder({ serverSeed: 's', clientSeed: 'c2', nonce: 1, deckType: 'standard' })).not.toEqual(base);
+        expect(computeDeckOrder({ serverSeed: 's', clientSeed: 'c', nonce: 2, deckType: 'standard' })).not.toEqual(base);
+    });
+});
+
+describe('buildUnshuffledDeck', () => {
+    it('デッキタイプごとの枚数（OFCはジョーカー2枚入り）', () => {
+        expect(buildUnshuffledDeck('standard')).toHaveLength(52);
+        expect(buildUnshuffledDeck('short')).toHaveLength(36);
+        const ofc = buildUnshuffledDeck('ofc');
+        expect(ofc).toHaveLength(54);
+        expect(ofc.slice(-2)).toEqual(['JK1', 'JK2']);
+    });
+});
+
+describe('createFairHand / verifyFairness', () => {
+    it('公開したシードのハッシュがコミットメントと一致し、同じデッキ順を再計算できる', () => {
+        const fairHand = createFairHand('alice|bob', 7, 'standard');
+        expect(fairHand.commitment.commitment).toBe(hashServerSeed(fairHand.reveal.serverSeed));
+        expect(fairHand.commitment).not.toHaveProperty('serverSeed');
+
+        // ディーラーが配るデッキ = 公開シードから再計算したデッキ
+        const dealer = new Dealer();
+        dealer.setRandom(fairHand.random);
+        const dealt = dealer.createDeck(DECK_COMPOSITIONS.standard);
+
+        const result = verifyFairness(fairHand.reveal);
+        expect(result.commitmentMatches).toBe(true);
+        expect(result.deck).toEqual(dealt);
+        expect(new Set(result.deck).size).toBe(52);
+    });
+
+    it('シードが改ざんされていればコミットメントと一致しない', () => {
+        const { reveal } = createFairHand('', 1, 'ofc');
+        const result = verifyFairness({ ...reveal, serverSeed: reveal.serverSeed.replace(/^./, c => c === '0' ? '1' : '0') });
+        expect(result.commitmentMatches).toBe(false);
+    });
+});
+
+describe('GameEngine: Provably Fair', () => {
+    it('ハンド開始時にコミットメントを公開し、配られたカードが公開シードのデッキ順と一致する', () => {
+        const engine = new GameEngine();
+        const room = createRoom([createPlayer('p0', 'seed-a'), createPlayer('p1', 'seed-b'), null, null, null, null]);
+
+        engine.startHand(room);
+
+        const commitment = room.gameState.fairness!;
+        expect(commitment.clientSeed).toBe('seed-a|seed-b');
+        expect(commitment.nonce).toBe(1);
+        expect(commitment).not.toHaveProperty('serverSeed');
+
+        const reveal = engine.getHandRecord().fairness!;
+        const { commitmentMatches, deck } = verifyFairness(reveal);
+        expect(commitmentMatches).toBe(true);
+        expect(reveal.commitment).toBe(commitment.commitment);
+        // 席順のラウンドロビンで2枚ずつ
+        expect(room.players[0]!.hand).toEqual([deck[0], deck[2]]);
+        expect(room.players[1]!.hand).toEqual([deck[1], deck[3]]);
+    });
+
+    it('次のハンドのコミットメントを前のハンドのうちに公開する', () => {
+        const engine = new GameEngine();
+        const room = createRoom([createPlayer('p0', 'seed-a'), createPlayer('p1', 'seed-b'), null, null, null, null]);
+
+        engine.publishNextCommitment(room);
+        const beforeFirstHand = room.gameState.nextFairnessCommitment;
+        engine.startHand(room);
+        expect(room.gameState.fairness!.commitment).toBe(beforeFirstHand);
+
+        const forNextHand = room.gameState.nextFairnessCommitment;
+        expect(forNextHand).toBeDefined();
+        expect(forNextHand).not.toBe(beforeFirstHand);
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * Provably Fair シャッフル
+ *
+ * 1. 前のハンドのうちに次のハンドのサーバーシードを生成し、SHA-256 ハッシュ（コミットメント）だけを公開
+ *    （クライアントシードが確定する前にシードを固定する）
+ * 2. シャッフルの乱数は HMAC-SHA256(key=serverSeed, msg=`${clientSeed}:${nonce}:${counter}`) から取り出す
+ * 3. 参加者が卓を離れた後、ハンド履歴でサーバーシードを公開 → ハッシュの一致とデッキ順を再計算できる
+ *    （卓にいる間に公開するとマックした相手の手札まで分かるため）
+ */
+
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { DECK_COMPOSITIONS } from '../gameVariants.js';
+import { shuffleDeck, type RandomSource } from './random.js';
+import type { FairDeckType, FairnessCommitment, FairnessReveal } from '../types.js';
+
+const UINT32_RANGE = 2 ** 32;
+const OFC_JOKERS = ['JK1', 'JK2'];
+
+/**
+ * シードから決定的に整数を取り出す乱数ソース
+ * HMACの出力（32バイト）をビッグエンディアンのuint32として順に使い、
+ * 偏りを避けるため範囲外の値は捨てる（リジェクションサンプリング）
+ */
+export class HmacRandom implements RandomSource {
+    private block: Buffer = Buffer.alloc(0);
+    private offset = 0;
+    private counter = 0;
+
+    constructor(
+        private readonly serverSeed: string,
+        private readonly clientSeed: string,
+        private readonly nonce: number
+    ) {}
+
+    nextInt(max: number): number {
+        if (!Number.isInteger(max) || max <= 0 || max > UINT32_RANGE) {
+            throw new Error(`Invalid range: ${max}`);
+        }
+        const limit = Math.floor(UINT32_RANGE / max) * max;
+        for (;;) {
+            const value = this.nextUint32();
+            if (value < limit) return value % max;
+        }
+    }
+
+    private nextUint32(): number {
+        if (this.offset + 4 > this.block.length) {
+            this.block = createHmac('sha256', this.serverSeed)
+                .update(`${this.clientSeed}:${this.nonce}:${this.counter}`)
+                .digest();
+            this.counter++;
+            this.offset = 0;
+        }
+        const value = this.block.readUInt32BE(this.offset);
+        this.offset += 4;
+        return value;
+    }
+}
+
+/** 新しいサーバーシード（32バイトの16進） */
+export function generateServerSeed(): string {
+    return randomBytes(32).toString('hex');
+}
+
+/** コミットメント = SHA-256(serverSeed) の16進 */
+export function hashServerSeed(serverSeed: string): string {
+    return createHash('sha256').update(serverSeed).digest('hex');
+}
+
+/**
+ * シャッフル前のデッキ（Dealer.createDeck / OFCのcreateDeck と同じ並び）
+ * スートごとにランクの低い順、OFCは最後にジョーカー2枚
+ */
+export function buildUnshuffledDeck(deckType: FairDeckType): string[] {
+    const composition = DECK_COMPOSITIONS[deckType === 'ofc' ? 'standard' : deckType];
+    const deck: string[] = [];
+    for (const suit of composition.suits) {
+        for (const rank of composition.ranks) {
+            deck.push(rank + suit);
+        }
+    }
+    return deckType === 'ofc' ? [...deck, ...OFC_JOKERS] : deck;
+}
+
+/**
+ * 1ハンド分のシードを用意する
+ * @param serverSeed 省略時は新しく生成（固定すると同じハンド番号で同じデッキになる。開発・テスト用）
+ * @returns 公開するコミットメント、ハンド履歴に残すシード、シャッフル用の乱数ソース
+ */
+export function createFairHand(
+    clientSeed: string,
+    nonce: number,
+    deckType: FairDeckType,
+    serverSeed: string = generateServerSeed()
+): {
+    commitment: FairnessCommitment;
+    reveal: FairnessReveal;
+    random: RandomSource;
+} {
+    const commitment: FairnessCommitment = {
+        commitment: hashServerSeed(serverSeed),
+        clientSeed,
+        nonce,
+        deckType,
+    };
+    return {
+        commitment,
+        reveal: { ...commitment, serverSeed },
+        random: new HmacRandom(serverSeed, clientSeed, nonce),
+    };
+}
+
+/**
+ * 公開されたシードからハンド開始時のデッキ順を再計算
+ * （先頭から配られる。ドローのリシャッフルは同じ乱数列の続きを使う）
+ */
+export function computeDeckOrder(reveal: Omit<FairnessReveal, 'commitment'>): string[] {
+    const random = new HmacRandom(reveal.serverSeed, reveal.clientSeed, reveal.nonce);
+    return shuffleDeck(buildUnshuffledDeck(reveal.deckType), random);
+}
+
+/**
+ * シードを検証: ハッシュがコミットメントと一致するか + デッキ順
+ */
+export function verifyFairness(reveal: FairnessReveal): { commitmentMatches: boolean; deck: string[] } {
+    return {
+        commitmentMatches: hashServerSeed(reveal.serverSeed) === reveal.commitment,
+        deck: computeDeckOrder(reveal),
+    };
+}
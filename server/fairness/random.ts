@@ -0,0 +1,28 @@
+/**
+ * 乱数ソース
+ * デッキのシャッフルはすべてこのインターフェース経由で行う（Math.random は使わない）
+ */
+
+import { randomInt } from 'crypto';
+
+export interface RandomSource {
+    /** 0 以上 max 未満の一様な整数 */
+    nextInt(max: number): number;
+}
+
+/** OSのCSPRNGを使う既定の乱数ソース */
+export const secureRandom: RandomSource = {
+    nextInt: (max: number) => randomInt(max),
+};
+
+/**
+ * Fisher-Yatesアルゴリズムでシャッフル（元の配列は変更しない）
+ */
+export function shuffleDeck(deck: string[], random: RandomSource): string[] {
+    const shuffled = [...deck];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = random.nextInt(i + 1);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+}
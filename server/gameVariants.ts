@@ -3,6 +3,8 @@
  * ゲームごとの設定を定義
  */
 
+import { createHandRankingRules, type HandRankingRules } from './handEvaluator.js';
+
 export type HandEvaluation =
     | 'high'        // 通常ハイハンド (NLH, PLO, 7CS)
     | 'highlow'     // ハイロースプリット (PLO8, 7CS8)
@@ -16,14 +18,35 @@ export type HandEvaluation =
     | 'archie'      // アーチー (A-5 + 2-7 スプリット)
     | 'razzdugi'    // ラズドゥーギ (Razz + Badugi スプリット)
     | 'stud27'      // スタッド2-7 (7枚からベスト2-7)
+    | 'dramaha49'   // Dramaha 49 (ポイント制、合計が高い方が勝ち)
+    | 'dramaha0'    // Dramaha 0 (ポイント制、合計が低い方が勝ち)
     | 'ofc';        // OFC (Open Face Chinese)
 
+export type BetStructure = 'no-limit' | 'pot-limit' | 'fixed';
+
+export const BET_STRUCTURES: BetStructure[] = ['no-limit', 'pot-limit', 'fixed'];
+
+// デッキタイプ (standard=52枚, short=6〜Aの36枚)
+export type DeckType = 'standard' | 'short';
+
+export interface DeckComposition {
+    ranks: string[];   // 使用するランク（低い順）
+    suits: string[];
+}
+
+const SUITS = ['♠', '♥', '♦', '♣'];
+
+export const DECK_COMPOSITIONS: Record<DeckType, DeckComposition> = {
+    standard: { ranks: ['2', '3', '4', '5', '6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'], suits: SUITS },
+    short: { ranks: ['6', '7', '8', '9', 'T', 'J', 'Q', 'K', 'A'], suits: SUITS },
+};
+
 export interface GameVariantConfig {
     id: string;                    // "NLH", "PLO", "2-7_TD", "7CS"
     name: string;                  // 表示名
     holeCardCount: number;         // ホールカードの枚数
     communityCardType: 'flop' | 'stud' | 'none';
-    betStructure: 'no-limit' | 'pot-limit' | 'fixed';
+    betStructure: BetStructure;
     hasButton: boolean;            // スタッドはボタンなし
     hasDrawPhase: boolean;         // ドローポーカーの交換フェーズ
     handEvaluatorType: 'high' | 'low' | 'high-low' | 'razz';
@@ -57,14 +80,23 @@ export interface GameVariantConfig {
     // Cry Me a River: リバー後にカード消失
     vanishCards?: number;
 
-    // アンティタイプ
-    anteType?: 'blind' | 'ante' | 'button-ante';
+    // アンティタイプ (blind=アンティなし, ante=全員, bb-ante=BBが全員分, button-ante=ボタンが全員分)
+    anteType?: 'blind' | 'ante' | 'bb-ante' | 'button-ante';
 
     // スタッド: ブリングイン決定 (true=最高ドアカード, false=最低=デフォルト)
     isBringInHigh?: boolean;
 
-    // 8人トリプルドロー: UTG強制シットアウト
+    // 8人トリプルドロー・Dramaha: UTG強制シットアウト（8人着席時はUTGを1ハンド休ませて山札切れを防ぐ）
     forceUtgSitOut?: boolean;
+
+    // デッキ構成 (デフォルト: standard)
+    deckType?: DeckType;
+
+    // ショートデッキ: スリーカードがストレートより強い
+    tripsBeatStraight?: boolean;
+
+    // ブラインド構造 (blinds=SB/BB, ante-only=全員アンティのみでボタンの次から行動)
+    blindStructure?: 'blinds' | 'ante-only';
 }
 
 // デフォルトのゲーム設定
@@ -83,6 +115,24 @@ export const GAME_VARIANTS: Record<string, GameVariantConfig> = {
         streets: ['Preflop', 'Flop', 'Turn', 'River']
     },
 
+    // Short Deck (6+) Hold'em: 36枚、アンティのみ
+    SD_NLH: {
+        id: 'SD_NLH',
+        name: 'Short Deck Hold\'em (6+)',
+        holeCardCount: 2,
+        communityCardType: 'flop',
+        betStructure: 'no-limit',
+        hasButton: true,
+        hasDrawPhase: false,
+        handEvaluatorType: 'high',
+        handEvaluation: 'high',
+        deckType: 'short',
+        tripsBeatStraight: true,
+        blindStructure: 'ante-only',
+        anteType: 'ante',
+        streets: ['Preflop', 'Flop', 'Turn', 'River']
+    },
+
     // Pot-Limit Omaha
     PLO: {
         id: 'PLO',
@@ -126,6 +176,7 @@ export const GAME_VARIANTS: Record<string, GameVariantConfig> = {
         handEvaluation: '2-7',
         maxDrawCount: 5,
         drawRounds: 3,
+        forceUtgSitOut: true,
         streets: ['Pre-Draw', 'First Draw', 'Second Draw', 'Third Draw']
     },
 
@@ -184,6 +235,7 @@ export const GAME_VARIANTS: Record<string, GameVariantConfig> = {
         handEvaluation: 'badugi',
         maxDrawCount: 4,
         drawRounds: 3,
+        forceUtgSitOut: true,
         streets: ['Pre-Draw', 'First Draw', 'Second Draw', 'Third Draw']
     },
 
@@ -285,6 +337,209 @@ export const GAME_VARIANTS: Record<string, GameVariantConfig> = {
         streets: ['Preflop', 'Flop', 'Turn', 'River', 'Ocean'],
     },
 
+    // PLO Double Board (2枚のボードでポットを半分ずつ)
+    'PLO_DB': {
+        id: 'PLO_DB',
+        name: 'PLO Double Board',
+        holeCardCount: 4,
+        communityCardType: 'flop',
+        betStructure: 'pot-limit',
+        hasButton: true,
+        hasDrawPhase: false,
+        handEvaluatorType: 'high',
+        handEvaluation: 'high',
+        holeCardsForSelection: 2,
+        boardPattern: [3, 1, 1],
+        boardCount: 2,
+        streets: ['Preflop', 'Flop', 'Turn', 'River'],
+    },
+
+    // ========== Dramaha (β版追加) ==========
+    // 5枚Omaha + リバー後に1回ドロー。ポットはボードハンド(Omahaハイ)とドローハンドで半分ずつ
+
+    // Dramaha Hi
+    'FL_DRAMAHA_HI': {
+        id: 'FL_DRAMAHA_HI',
+        name: 'Dramaha Hi',
+        holeCardCount: 5,
+        communityCardType: 'flop',
+        betStructure: 'fixed',
+        hasButton: true,
+        hasDrawPhase: false,
+        handEvaluatorType: 'high',
+        handEvaluation: 'high',
+        holeCardsForSelection: 2,
+        boardPattern: [3, 1, 1],
+        maxDrawCount: 5,
+        drawRounds: 1,
+        forceUtgSitOut: true,
+        isDramaha: true,
+        dramahaDrawEval: 'high',
+        streets: ['Preflop', 'Flop', 'Turn', 'River', 'Draw'],
+    },
+
+    // Dramaha 2-7
+    'FL_DRAMAHA_27': {
+        id: 'FL_DRAMAHA_27',
+        name: 'Dramaha 2-7',
+        holeCardCount: 5,
+        communityCardType: 'flop',
+        betStructure: 'fixed',
+        hasButton: true,
+        hasDrawPhase: false,
+        handEvaluatorType: 'high-low',
+        handEvaluation: 'high',
+        holeCardsForSelection: 2,
+        boardPattern: [3, 1, 1],
+        maxDrawCount: 5,
+        drawRounds: 1,
+        forceUtgSitOut: true,
+        isDramaha: true,
+        dramahaDrawEval: '2-7',
+        streets: ['Preflop', 'Flop', 'Turn', 'River', 'Draw'],
+    },
+
+    // Dramaha Badugi
+    'FL_DRAMAHA_BADUGI': {
+        id: 'FL_DRAMAHA_BADUGI',
+        name: 'Dramaha Badugi',
+        holeCardCount: 5,
+        communityCardType: 'flop',
+        betStructure: 'fixed',
+        hasButton: true,
+        hasDrawPhase: false,
+        handEvaluatorType: 'high-low',
+        handEvaluation: 'high',
+        holeCardsForSelection: 2,
+        boardPattern: [3, 1, 1],
+        maxDrawCount: 5,
+        drawRounds: 1,
+        forceUtgSitOut: true,
+        isDramaha: true,
+        dramahaDrawEval: 'badugi',
+        streets: ['Preflop', 'Flop', 'Turn', 'River', 'Draw'],
+    },
+
+    // Dramaha Hidugi
+    'FL_DRAMAHA_HIDUGI': {
+        id: 'FL_DRAMAHA_HIDUGI',
+        name: 'Dramaha Hidugi',
+        holeCardCount: 5,
+        communityCardType: 'flop',
+        betStructure: 'fixed',
+        hasButton: true,
+        hasDrawPhase: false,
+        handEvaluatorType: 'high',
+        handEvaluation: 'high',
+        holeCardsForSelection: 2,
+        boardPattern: [3, 1, 1],
+        maxDrawCount: 5,
+        drawRounds: 1,
+        forceUtgSitOut: true,
+        isDramaha: true,
+        dramahaDrawEval: 'hidugi',
+        streets: ['Preflop', 'Flop', 'Turn', 'River', 'Draw'],
+    },
+
+    // Dramaha 49
+    'FL_DRAMAHA_49': {
+        id: 'FL_DRAMAHA_49',
+        name: 'Dramaha 49',
+        holeCardCount: 5,
+        communityCardType: 'flop',
+        betStructure: 'fixed',
+        hasButton: true,
+        hasDrawPhase: false,
+        handEvaluatorType: 'high',
+        handEvaluation: 'high',
+        holeCardsForSelection: 2,
+        boardPattern: [3, 1, 1],
+        maxDrawCount: 5,
+        drawRounds: 1,
+        forceUtgSitOut: true,
+        isDramaha: true,
+        dramahaDrawEval: 'dramaha49',
+        streets: ['Preflop', 'Flop', 'Turn', 'River', 'Draw'],
+    },
+
+    // Dramaha 0
+    'FL_DRAMAHA_0': {
+        id: 'FL_DRAMAHA_0',
+        name: 'Dramaha 0',
+        holeCardCount: 5,
+        communityCardType: 'flop',
+        betStructure: 'fixed',
+        hasButton: true,
+        hasDrawPhase: false,
+        handEvaluatorType: 'high-low',
+        handEvaluation: 'high',
+        holeCardsForSelection: 2,
+        boardPattern: [3, 1, 1],
+        maxDrawCount: 5,
+        drawRounds: 1,
+        forceUtgSitOut: true,
+        isDramaha: true,
+        dramahaDrawEval: 'dramaha0',
+        streets: ['Preflop', 'Flop', 'Turn', 'River', 'Draw'],
+    },
+
+    // Dramaha Pick'em
+    'FL_DRAMAHA_PICKEM': {
+        id: 'FL_DRAMAHA_PICKEM',
+        name: 'Dramaha Pick\'em',
+        holeCardCount: 5,
+        communityCardType: 'flop',
+        betStructure: 'fixed',
+        hasButton: true,
+        hasDrawPhase: false,
+        handEvaluatorType: 'high-low',
+        handEvaluation: 'high',
+        holeCardsForSelection: 2,
+        boardPattern: [3, 1, 1],
+        maxDrawCount: 5,
+        drawRounds: 1,
+        forceUtgSitOut: true,
+        isDramaha: true,
+        dramahaDrawEval: 'high',
+        dramahaPickem: true,
+        streets: ['Preflop', 'Flop', 'Turn', 'River', 'Draw'],
+    },
+
+    // ========== Cry Me a River (β版追加) ==========
+    // リバーのベッティング後に手札を消失させ、残った2枚とボードでHold'em評価（消失後のベッティングなし）
+
+    // Cry Me a River (1枚消失)
+    'PL_CMRIVER1': {
+        id: 'PL_CMRIVER1',
+        name: 'Cry Me a River (1 Vanish)',
+        holeCardCount: 3,
+        communityCardType: 'flop',
+        betStructure: 'pot-limit',
+        hasButton: true,
+        hasDrawPhase: false,
+        handEvaluatorType: 'high',
+        handEvaluation: 'high',
+        boardPattern: [3, 1, 1],
+        vanishCards: 1,
+        streets: ['Preflop', 'Flop', 'Turn', 'River', 'Vanish'],
+    },
+
+    // Cry Me a River (2枚消失)
+    'PL_CMRIVER2': {
+        id: 'PL_CMRIVER2',
+        name: 'Cry Me a River (2 Vanish)',
+        holeCardCount: 4,
+        communityCardType: 'flop',
+        betStructure: 'pot-limit',
+        hasButton: true,
+        hasDrawPhase: false,
+        handEvaluatorType: 'high',
+        handEvaluation: 'high',
+        boardPattern: [3, 1, 1],
+        vanishCards: 2,
+        streets: ['Preflop', 'Flop', 'Turn', 'River', 'Vanish'],
+    },
+
     // ========== Draw Games (β版追加) ==========
 
     // NL 2-7 Single Draw (No Ante)
@@ -333,6 +588,7 @@ export const GAME_VARIANTS: Record<string, GameVariantConfig> = {
         handEvaluation: 'a5',
         maxDrawCount: 5,
         drawRounds: 3,
+        forceUtgSitOut: true,
         streets: ['Pre-Draw', 'First Draw', 'Second Draw', 'Third Draw'],
     },
 
@@ -365,6 +621,7 @@ export const GAME_VARIANTS: Record<string, GameVariantConfig> = {
         handEvaluation: 'badugi',
         maxDrawCount: 4,
         drawRounds: 3,
+        forceUtgSitOut: true,
         streets: ['Pre-Draw', 'First Draw', 'Second Draw', 'Third Draw'],
     },
 
@@ -381,6 +638,7 @@ export const GAME_VARIANTS: Record<string, GameVariantConfig> = {
         handEvaluation: 'hidugi',
         maxDrawCount: 4,
         drawRounds: 3,
+        forceUtgSitOut: true,
         streets: ['Pre-Draw', 'First Draw', 'Second Draw', 'Third Draw'],
     },
 
@@ -397,6 +655,7 @@ export const GAME_VARIANTS: Record<string, GameVariantConfig> = {
         handEvaluation: 'baduecey',
         maxDrawCount: 5,
         drawRounds: 3,
+        forceUtgSitOut: true,
         streets: ['Pre-Draw', 'First Draw', 'Second Draw', 'Third Draw'],
     },
 
@@ -413,6 +672,7 @@ export const GAME_VARIANTS: Record<string, GameVariantConfig> = {
         handEvaluation: 'badacey',
         maxDrawCount: 5,
         drawRounds: 3,
+        forceUtgSitOut: true,
         streets: ['Pre-Draw', 'First Draw', 'Second Draw', 'Third Draw'],
     },
 
@@ -429,6 +689,7 @@ export const GAME_VARIANTS: Record<string, GameVariantConfig> = {
         handEvaluation: 'archie',
         maxDrawCount: 5,
         drawRounds: 3,
+        forceUtgSitOut: true,
         streets: ['Pre-Draw', 'First Draw', 'Second Draw', 'Third Draw'],
     },
 
@@ -551,9 +812,62 @@ export const GAME_VARIANTS: Record<string, GameVariantConfig> = {
 
 /**
  * ゲームバリアントを取得
+ * @param betStructure ルーム/ローテーションによるベット構造の上書き（"NLH@fixed" 等）
+ */
+export function getVariantConfig(variantId: string, betStructure?: BetStructure): GameVariantConfig {
+    const config = GAME_VARIANTS[variantId] || GAME_VARIANTS['NLH'];
+    return betStructure && betStructure !== config.betStructure ? { ...config, betStructure } : config;
+}
+
+/**
+ * "バリアント@ベット構造" 形式のゲームIDを分解（例: "NLH@fixed", "BADUGI@pot-limit"）
+ * 構造の指定がなければバリアント既定のベット構造
+ */
+export function parseGameId(gameId: string): { variant: string; betStructure?: BetStructure } {
+    const [variant, structure] = gameId.split('@');
+    const betStructure = BET_STRUCTURES.find(s => s === structure);
+    return betStructure ? { variant, betStructure } : { variant };
+}
+
+/**
+ * ゲームIDが既知のバリアント・ベット構造か
+ */
+export function isValidGameId(gameId: string): boolean {
+    const [variant, structure] = gameId.split('@');
+    return GAME_VARIANTS[variant] !== undefined
+        && (structure === undefined || BET_STRUCTURES.some(s => s === structure));
+}
+
+/**
+ * バリアントとベット構造の上書きからゲームIDを作る（上書きなしはバリアントIDのまま）
+ */
+export function formatGameId(variant: string, betStructure?: BetStructure): string {
+    return betStructure ? `${variant}@${betStructure}` : variant;
+}
+
+/**
+ * ゲームIDをゲーム状態に適用（バリアントとベット構造の上書きを設定）
+ */
+export function applyGameId(gameState: { gameVariant: string; betStructure?: BetStructure }, gameId: string): void {
+    const { variant, betStructure } = parseGameId(gameId);
+    gameState.gameVariant = variant;
+    gameState.betStructure = betStructure;
+}
+
+/**
+ * バリアントのデッキ構成を取得
+ */
+export function getDeckComposition(variantConfig: GameVariantConfig): DeckComposition {
+    return DECK_COMPOSITIONS[variantConfig.deckType ?? 'standard'];
+}
+
+/**
+ * バリアントのデッキ構成に応じた役の強さのルールを取得
  */
-export function getVariantConfig(variantId: string): GameVariantConfig {
-    return GAME_VARIANTS[variantId] || GAME_VARIANTS['NLH'];
+export function getHandRankingRules(variantConfig: GameVariantConfig): HandRankingRules {
+    return createHandRankingRules(getDeckComposition(variantConfig), {
+        tripsBeatStraight: variantConfig.tripsBeatStraight
+    });
 }
 
 /**
@@ -13,8 +13,12 @@ import {
     evaluateBadugiHand,
     compareBadugiHands,
     evaluateDeuceSeven,
-    compareDeuceSeven
+    compareDeuceSeven,
+    evaluatePointsHand,
+    comparePointsHands,
+    createHandRankingRules
 } from './handEvaluator.js';
+import { DECK_COMPOSITIONS } from './gameVariants.js';
 
 // Helper: カード文字列をCardオブジェクトに変換
 function parseCard(str: string): { suit: string; rank: string } {
@@ -291,6 +295,62 @@ describe('Badugi Evaluation (V-BAD)', () => {
     });
 });
 
+describe('Dramaha Points Evaluation (V-DRAMAHA)', () => {
+    it('A=1, T=10, 絵札=0 で合計する', () => {
+        expect(evaluatePointsHand(parseCards(['T♠', 'T♥', 'T♦', 'T♣', '9♠'])).points).toBe(49);
+        expect(evaluatePointsHand(parseCards(['K♠', 'Q♥', 'J♦', 'K♣', 'Q♠'])).points).toBe(0);
+        expect(evaluatePointsHand(parseCards(['A♠', '2♥', '3♦', 'K♣', '5♠'])).points).toBe(11);
+    });
+
+    it('49は高い方、0は低い方が勝ち', () => {
+        const high = evaluatePointsHand(parseCards(['T♠', 'T♥', '9♦', '8♣', '7♠']));
+        const low = evaluatePointsHand(parseCards(['K♠', 'Q♥', 'A♦', '2♣', 'J♠']));
+        expect(comparePointsHands(high, low)).toBe(1);
+        expect(comparePointsHands(high, low, true)).toBe(-1);
+        expect(comparePointsHands(low, low, true)).toBe(0);
+    });
+});
+
+describe('Short Deck Evaluation (V-SD)', () => {
+    const shortDeck = createHandRankingRules(DECK_COMPOSITIONS.short, { tripsBeatStraight: true });
+
+    it('デッキ構成からルールを導出する', () => {
+        expect(createHandRankingRules(DECK_COMPOSITIONS.standard)).toEqual({
+            lowStraightRank: 2, flushBeatsFullHouse: false, tripsBeatStraight: false
+        });
+        expect(shortDeck).toEqual({ lowStraightRank: 6, flushBeatsFullHouse: true, tripsBeatStraight: true });
+    });
+
+    it('A-6-7-8-9は最小のストレート', () => {
+        const lowStraight = parseCards(['A♠', '6♥', '7♦', '8♣', '9♠']);
+        const sixHigh = parseCards(['T♠', '6♥', '7♦', '8♣', '9♠']);
+        expect(evaluateHand(lowStraight, shortDeck).name).toBe('Straight');
+        expect(evaluateHand(lowStraight).name).toBe('High Card');
+        expect(compareHands(sixHigh, lowStraight, shortDeck)).toBe(1);
+    });
+
+    it('フラッシュはフルハウスより強い', () => {
+        const flush = parseCards(['A♦', 'J♦', '8♦', '7♦', '6♦']);
+        const fullHouse = parseCards(['Q♠', 'Q♥', 'Q♦', '7♣', '7♠']);
+        expect(compareHands(flush, fullHouse, shortDeck)).toBe(1);
+        expect(compareHands(flush, fullHouse)).toBe(-1);
+    });
+
+    it('オプションでスリーカードはストレートより強い', () => {
+        const trips = parseCards(['8♠', '8♥', '8♦', 'K♣', '6♠']);
+        const straight = parseCards(['T♠', '9♥', '8♣', '7♣', '6♥']);
+        expect(compareHands(trips, straight, shortDeck)).toBe(1);
+        const straightBeatsTrips = createHandRankingRules(DECK_COMPOSITIONS.short);
+        expect(compareHands(trips, straight, straightBeatsTrips)).toBe(-1);
+    });
+
+    it('ホイールは6ハイストレートに負ける', () => {
+        const wheel = parseCards(['5♠', '4♥', '3♦', '2♣', 'A♠']);
+        const sixHigh = parseCards(['6♠', '5♥', '4♦', '3♣', '2♠']);
+        expect(compareHands(sixHigh, wheel)).toBe(1);
+    });
+});
+
 describe('Edge Cases (E-01, E-02)', () => {
     it('Invalid hand length returns Invalid Hand', () => {
         const hand = parseCards(['A♠', 'K♠', 'Q♠']);
@@ -5,7 +5,7 @@ interface Card {
     rank: string;
 }
 
-interface HandRank {
+export interface HandRank {
     rank: number; // 役の強さ（数値が大きいほど強い）
     name: string; // 役の名前
     highCards: number[]; // タイブレーク用の高位カード
@@ -36,25 +36,68 @@ const isFlush = (hand: Card[]): boolean => {
     return hand.every(card => card.suit === suit);
 };
 
-// ストレート判定
-const isStraight = (hand: Card[]): boolean => {
-    const values = hand.map(c => rankValue(c.rank)).sort((a, b) => a - b);
+/**
+ * 役の強さのルール（デッキ構成によって変わる）
+ * 52枚は標準ルール、ショートデッキ(6+)はA-6-7-8-9が最小ストレートで、フラッシュがフルハウスより上
+ */
+export interface HandRankingRules {
+    lowStraightRank: number;        // Aと組んで最小ストレートを作る最小ランク（52枚=2, 36枚=6）
+    flushBeatsFullHouse: boolean;   // フラッシュ > フルハウス
+    tripsBeatStraight: boolean;     // スリーカード > ストレート（ショートデッキのオプションルール）
+}
+
+export const STANDARD_HAND_RANKING: HandRankingRules = {
+    lowStraightRank: 2,
+    flushBeatsFullHouse: false,
+    tripsBeatStraight: false
+};
+
+const choose = (n: number, k: number): number => {
+    let result = 1;
+    for (let i = 0; i < k; i++) result = (result * (n - i)) / (i + 1);
+    return result;
+};
+
+/**
+ * デッキ構成から役の強さのルールを作る
+ * フラッシュとフルハウスはそのデッキで出にくい方を上位にする（52枚はフルハウス、36枚はフラッシュが出にくい）
+ * @param deck デッキのランクとスート
+ * @param options tripsBeatStraight: スリーカードをストレートより上にするか
+ */
+export const createHandRankingRules = (
+    deck: { ranks: string[]; suits: string[] },
+    options: { tripsBeatStraight?: boolean } = {}
+): HandRankingRules => {
+    const rankCount = deck.ranks.length;
+    const suitCount = deck.suits.length;
+    const flushCount = suitCount * choose(rankCount, 5);
+    const fullHouseCount = rankCount * (rankCount - 1) * choose(suitCount, 3) * choose(suitCount, 2);
+
+    return {
+        lowStraightRank: Math.min(...deck.ranks.filter(rank => rank !== 'A').map(rankValue)),
+        flushBeatsFullHouse: flushCount < fullHouseCount,
+        tripsBeatStraight: options.tripsBeatStraight ?? false
+    };
+};
+
+// ストレート判定（Aを最小として使うストレートの最高位カードも返す）
+const getStraightValues = (hand: Card[], lowStraightRank: number): number[] | null => {
+    const values = hand.map(c => rankValue(c.rank)).sort((a, b) => b - a);
+    if (new Set(values).size !== 5) return null;
 
     // 通常のストレート
-    for (let i = 0; i < values.length - 1; i++) {
-        if (values[i + 1] - values[i] !== 1) {
-            // A-2-3-4-5のストレート（ホイール）も考慮
-            if (!(values[0] === 2 && values[4] === 14 &&
-                values[1] === 3 && values[2] === 4 && values[3] === 5)) {
-                return false;
-            }
-        }
+    if (values[0] - values[4] === 4) return values;
+
+    // Aを最小として使うストレート（A-2-3-4-5、ショートデッキはA-6-7-8-9）
+    // タイブレークではAを最下位として扱う
+    if (values[0] === 14 && values[4] === lowStraightRank && values[1] - values[4] === 3) {
+        return [...values.slice(1), 1];
     }
-    return true;
+    return null;
 };
 
 // 手札の評価
-export const evaluateHand = (hand: Card[]): HandRank => {
+export const evaluateHand = (hand: Card[], rules: HandRankingRules = STANDARD_HAND_RANKING): HandRank => {
     if (hand.length !== 5) {
         return { rank: 0, name: 'Invalid Hand', highCards: [] };
     }
@@ -67,11 +110,17 @@ export const evaluateHand = (hand: Card[]): HandRank => {
     const countArray = sortedEntries.map(([, count]) => count);
 
     const flush = isFlush(hand);
-    const straight = isStraight(hand);
+    const straightValues = getStraightValues(hand, rules.lowStraightRank);
+
+    // ルールによって入れ替わる役の順位
+    const fullHouseRank = rules.flushBeatsFullHouse ? 5 : 6;
+    const flushRank = rules.flushBeatsFullHouse ? 6 : 5;
+    const straightRank = rules.tripsBeatStraight ? 3 : 4;
+    const tripsRank = rules.tripsBeatStraight ? 4 : 3;
 
     // ストレートフラッシュ
-    if (straight && flush) {
-        return { rank: 8, name: 'Straight Flush', highCards: values };
+    if (straightValues && flush) {
+        return { rank: 8, name: 'Straight Flush', highCards: straightValues };
     }
 
     // フォーカード
@@ -81,22 +130,22 @@ export const evaluateHand = (hand: Card[]): HandRank => {
 
     // フルハウス
     if (countArray[0] === 3 && countArray[1] === 2) {
-        return { rank: 6, name: 'Full House', highCards: values };
+        return { rank: fullHouseRank, name: 'Full House', highCards: values };
     }
 
     // フラッシュ
     if (flush) {
-        return { rank: 5, name: 'Flush', highCards: values };
+        return { rank: flushRank, name: 'Flush', highCards: values };
     }
 
     // ストレート
-    if (straight) {
-        return { rank: 4, name: 'Straight', highCards: values };
+    if (straightValues) {
+        return { rank: straightRank, name: 'Straight', highCards: straightValues };
     }
 
     // スリーカード
     if (countArray[0] === 3) {
-        return { rank: 3, name: 'Three of a Kind', highCards: values };
+        return { rank: tripsRank, name: 'Three of a Kind', highCards: values };
     }
 
     // ツーペア
@@ -113,11 +162,8 @@ export const evaluateHand = (hand: Card[]): HandRank => {
     return { rank: 0, name: 'High Card', highCards: values };
 };
 
-// 2つの手札を比較（プレイヤー1が勝ちなら1、プレイヤー2が勝ちなら-1、引き分けなら0）
-export const compareHands = (hand1: Card[], hand2: Card[]): number => {
-    const rank1 = evaluateHand(hand1);
-    const rank2 = evaluateHand(hand2);
-
+// 評価済みの役を比較（1=rank1勝ち, -1=rank2勝ち, 0=引き分け）
+export const compareHandRanks = (rank1: HandRank, rank2: HandRank): number => {
     // 役のランクで比較
     if (rank1.rank > rank2.rank) return 1;
     if (rank1.rank < rank2.rank) return -1;
@@ -131,6 +177,11 @@ export const compareHands = (hand1: Card[], hand2: Card[]): number => {
     return 0; // 完全に引き分け
 };
 
+// 2つの手札を比較（プレイヤー1が勝ちなら1、プレイヤー2が勝ちなら-1、引き分けなら0）
+export const compareHands = (hand1: Card[], hand2: Card[], rules: HandRankingRules = STANDARD_HAND_RANKING): number => {
+    return compareHandRanks(evaluateHand(hand1, rules), evaluateHand(hand2, rules));
+};
+
 // ========================================
 // LOW HAND EVALUATION - ローハンド評価
 // ========================================
@@ -513,3 +564,39 @@ export const compareHidugiHands = (hand1: BadugiHandRank, hand2: BadugiHandRank)
 
     return 0;
 };
+
+// ========================================
+// DRAMAHA POINTS EVALUATION - ポイント評価 (Dramaha 49 / Dramaha 0)
+// ========================================
+
+interface PointsHandRank {
+    points: number;      // カードポイントの合計
+    name: string;        // 表示名
+}
+
+// ポイント換算: A=1, 2-9=数字通り, T=10, J/Q/K=0
+const pointValue = (rank: string): number => {
+    if (rank === 'A') return 1;
+    if (rank === 'T' || rank === '10') return 10;
+    if (rank === 'J' || rank === 'Q' || rank === 'K') return 0;
+    return rankValue(rank);
+};
+
+/**
+ * ポイント評価（5枚の合計）
+ * Dramaha 49: 最高は T-T-T-T-9 = 49 / Dramaha 0: 最高は絵札5枚 = 0
+ */
+export const evaluatePointsHand = (hand: Card[]): PointsHandRank => {
+    const points = hand.reduce((sum, card) => sum + pointValue(card.rank), 0);
+    return { points, name: `${points} Points` };
+};
+
+/**
+ * 2つのポイントハンドを比較
+ * @param lowWins true=合計が低い方が勝ち (Dramaha 0)
+ */
+export const comparePointsHands = (hand1: PointsHandRank, hand2: PointsHandRank, lowWins: boolean = false): number => {
+    if (hand1.points === hand2.points) return 0;
+    const firstIsHigher = hand1.points > hand2.points;
+    return (firstIsHigher !== lowWins) ? 1 : -1;
+};
@@ -0,0 +1,189 @@
+/**
+ * Hand History Builder Tests
+ * エンジンの記録 + ショーダウン結果 → HandHistory
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../GameEngine.js';
+import { ShowdownManager } from '../ShowdownManager.js';
+import { PotManager } from '../PotManager.js';
+import { buildHandHistory, buildOFCHandHistory } from './handHistoryBuilder.js';
+import type { Room, Player, OFCGameState, OFCRoundScore } from '../types.js';
+
+function createPlayer(socketId: string, stack: number): Player {
+    return {
+        socketId,
+        name: socketId,
+        stack,
+        bet: 0,
+        totalBet: 0,
+        status: 'ACTIVE',
+        hand: null
+    };
+}
+
+function createRoom(players: (Player | null)[], gameVariant: string): Room {
+    return {
+        id: 'test-room',
+        config: {
+            maxPlayers: 6,
+            smallBlind: 5,
+            bigBlind: 10
+        },
+        players,
+        // ボタン=0, SB=1, BB=2 になるよう前ハンドのボタンを2に置く
+        dealerBtnIndex: 2,
+        activePlayerIndex: -1,
+        streetStarterIndex: 0,
+        lastAggressorIndex: -1,
+        rotation: {
+            enabled: false,
+            gamesList: [gameVariant],
+            currentGameIndex: 0,
+            handsPerGame: 8
+        },
+        metaGame: {
+            standUp: { isActive: false, remainingPlayers: [] },
+            sevenDeuce: false
+        },
+        createdAt: Date.now(),
+        gameState: {
+            status: 'WAITING' as any,
+            street: 0,
+            gameVariant,
+            board: [],
+            pot: { main: 0, side: [] },
+            deckStatus: { stubCount: 0, burnCount: 0 },
+            currentBet: 0,
+            minRaise: 10,
+            handNumber: 0,
+            raisesThisRound: 0,
+            deck: []
+        }
+    };
+}
+
+describe('buildHandHistory', () => {
+    const act = (engine: GameEngine, room: Room, type: 'FOLD' | 'CHECK' | 'CALL' | 'RAISE', amount?: number) => {
+        const playerId = room.players[room.activePlayerIndex]!.socketId;
+        const result = engine.processAction(room, { playerId, type, amount, timestamp: Date.now() });
+        expect(result.success).toBe(true);
+    };
+
+    it('ブラインド・アクション・ストリート・スタック増減を記録する', () => {
+        const engine = new GameEngine();
+        const room = createRoom([createPlayer('p0', 1000), createPlayer('p1', 1000), createPlayer('p2', 1000), null, null, null], 'NLH');
+
+        engine.startHand(room);
+        act(engine, room, 'RAISE', 30);  // p0 (BTN)
+        act(engine, room, 'FOLD');       // p1 (SB)
+        act(engine, room, 'CALL');       // p2 (BB)
+        expect(room.gameState.status).toBe('FLOP');
+        act(engine, room, 'CHECK');      // p2
+        act(engine, room, 'RAISE', 40);  // p0 bet
+        act(engine, room, 'FOLD');       // p2
+
+        const result = new ShowdownManager().awardToLastPlayer(room);
+        const history = buildHandHistory(room, engine.getHandRecord(), result, new PotManager().calculatePots(room.players));
+
+        expect(history.handNumber).toBe(1);
+        expect(history.buttonSeat).toBe(0);
+        expect(history.board).toHaveLength(3);
+        expect(history.actions.map(a => `${a.street}:${a.playerId}:${a.type}:${a.amount ?? ''}`)).toEqual([
+            'PREFLOP:p1:POST_SB:5',
+            'PREFLOP:p2:POST_BB:10',
+            'PREFLOP:p0:RAISE:30',
+            'PREFLOP:p1:FOLD:',
+            'PREFLOP:p2:CALL:20',
+            'FLOP:p2:CHECK:',
+            'FLOP:p0:RAISE:40',
+            'FLOP:p2:FOLD:'
+        ]);
+        expect(history.actions[2].betTo).toBe(30);
+
+        const p0 = history.players.find(p => p.playerId === 'p0')!;
+        expect(p0.startingStack).toBe(1000);
+        expect(p0.endingStack).toBe(1035);
+        expect(p0.amountWon).toBe(105);
+        expect(p0.shownCards).toBeNull();
+        expect(p0.holeCards).toHaveLength(2);
+        expect(history.players.find(p => p.playerId === 'p1')!.endingStack).toBe(995);
+        expect(history.pots.reduce((sum, p) => sum + p.amount, 0)).toBe(105);
+        expect(history.winners).toEqual([{ playerId: 'p0', amount: 105, handRank: 'Uncontested' }]);
+    });
+
+    it('ショーダウンで公開したカードとレーキを記録する', () => {
+        const engine = new GameEngine();
+        const room = createRoom([createPlayer('p0', 100), createPlayer('p1', 100), null, null, null, null], 'NLH');
+        room.config.rake = { percent: 10 };
+
+        engine.startHand(room);
+        while (room.gameState.status !== 'SHOWDOWN') {
+            const player = room.players[room.activePlayerIndex]!;
+            act(engine, room, player.bet < room.gameState.currentBet ? 'CALL' : 'CHECK');
+        }
+
+        const potManager = new PotManager();
+        room.gameState.pot = potManager.calculatePots(room.players);
+        const result = new ShowdownManager().executeShowdown(room);
+        // 分配後もtotalBetからレーキ前のポットを再計算できる
+        const history = buildHandHistory(room, engine.getHandRecord(), result, potManager.calculatePots(room.players));
+
+        expect(history.board).toHaveLength(5);
+        expect(history.rake).toBe(2);
+        expect(history.pots).toEqual([{ amount: 20, eligiblePlayers: ['p0', 'p1'] }]);
+        const shown = history.players.filter(p => p.shownCards !== null);
+        expect(shown.length).toBeGreaterThan(0);
+        expect(history.players.reduce((sum, p) => sum + p.rakePaid, 0)).toBe(2);
+    });
+});
+
+describe('buildOFCHandHistory', () => {
+    it('最終ボード・ポイント・チップ増減を記録する', () => {
+        const room = createRoom([createPlayer('p0', 990), createPlayer('p1', 1010), null, null, null, null], 'OFC');
+        const ofc: OFCGameState = {
+            phase: 'OFC_DONE',
+            round: 5,
+            players: [
+                {
+                    socketId: 'p0', name: 'p0', stack: 990,
+                    board: { top: ['2♠', '3♠', '4♠'], middle: ['5♥', '6♥', '7♥', '8♥', '9♦'], bottom: ['T♣', 'J♣', 'Q♣', 'K♣', 'A♦'] },
+                    currentCards: [], isFantasyland: false, hasPlaced: true, isBot: false, isFouled: false
+                },
+                {
+                    socketId: 'p1', name: 'p1', stack: 1010,
+                    board: { top: ['Q♠', 'Q♥', '4♦'], middle: ['5♠', '5♦', '7♠', '7♦', '9♠'], bottom: ['T♠', 'T♥', 'T♦', 'K♠', 'K♦'] },
+                    currentCards: [], isFantasyland: false, hasPlaced: true, isBot: false, isFouled: false
+                }
+            ],
+            deck: [],
+            handNumber: 3,
+            fantasylandQueue: ['p1'],
+            scores: {},
+            bigBlind: 10,
+            buttonIndex: 1,
+            currentTurnIndex: -1
+        };
+        const scores = [
+            { playerId: 'p0', playerName: 'p0', topHand: 'High Card', middleHand: 'High Card', bottomHand: 'Straight', totalPoints: -1, chipChange: -10, isFouled: false },
+            { playerId: 'p1', playerName: 'p1', topHand: 'Pair of Queens', middleHand: 'Two Pair', bottomHand: 'Full House', totalPoints: 1, chipChange: 10, isFouled: false }
+        ] as OFCRoundScore[];
+        const record = {
+            startedAt: 1,
+            startingStacks: { p0: 1000, p1: 1000 },
+            actions: []
+        };
+
+        const history = buildOFCHandHistory(room, record, ofc, scores);
+
+        expect(history.gameVariant).toBe('OFC');
+        expect(history.handNumber).toBe(3);
+        expect(history.buttonSeat).toBe(1);
+        expect(history.players[0].ofcBoard?.bottom).toEqual(['T♣', 'J♣', 'Q♣', 'K♣', 'A♦']);
+        expect(history.players[0].holeCards).toHaveLength(13);
+        expect(history.players[1].ofcPoints).toBe(1);
+        expect(history.players[1].startingStack).toBe(1000);
+        expect(history.players[1].endingStack).toBe(1010);
+        expect(history.winners).toEqual([{ playerId: 'p1', amount: 10, handRank: 'Pair of Queens / Two Pair / Full House' }]);
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * ハンド履歴ビルダー
+ * ハンド終了時の部屋の状態・エンジンの記録・ショーダウン結果から HandHistory を組み立てる
+ */
+
+import type {
+  Room, Player, PotState, HandHistory, HandHistoryPlayer, HandRecord, OFCGameState, OFCRoundScore,
+} from '../types.js';
+import type { ShowdownResult } from '../ShowdownManager.js';
+import { getVariantConfig } from '../gameVariants.js';
+
+/**
+ * 通常ハンド（Flop/Stud/Draw）の履歴を組み立てる
+ * ショーダウン（または不戦勝）の分配直後、次のハンドの開始前に呼ぶ
+ * @param pots レーキ徴収前のポット（PotManager.calculatePots の結果）
+ */
+export function buildHandHistory(
+  room: Room,
+  record: HandRecord,
+  showdownResult: ShowdownResult,
+  pots: PotState
+): HandHistory {
+  const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
+
+  const participants = room.players.filter((p): p is Player =>
+    p !== null &&
+    record.startingStacks[p.socketId] !== undefined &&
+    (p.status === 'ACTIVE' || p.status === 'ALL_IN' || p.status === 'FOLDED')
+  );
+
+  const players: HandHistoryPlayer[] = participants.map(p => {
+    const shown = showdownResult.allHands.find(h => h.playerId === p.socketId);
+    const wins = showdownResult.winners.filter(w => w.playerId === p.socketId);
+    const isShown = !!shown && !shown.isMucked && !!shown.hand && shown.hand.length > 0;
+    return {
+      playerId: p.socketId,
+      userId: p.userId,
+      name: p.name,
+      seatIndex: room.players.indexOf(p),
+      startingStack: record.startingStacks[p.socketId],
+      endingStack: p.stack,
+      holeCards: [...(p.hand || [])],
+      shownCards: isShown ? [...shown!.hand!] : null,
+      handRank: shown?.handRank ?? wins[0]?.handRank,
+      totalBet: p.totalBet + (p.deadAnte || 0),
+      amountWon: wins.reduce((sum, w) => sum + w.amount, 0),
+      rakePaid: showdownResult.rakeContributions?.find(c => c.playerId === p.socketId)?.amount ?? 0,
+    };
+  });
+
+  // メインポットはフォールドしていない全員が対象
+  const mainEligible = participants.filter(p => p.status !== 'FOLDED').map(p => p.socketId);
+
+  return {
+    roomId: room.id,
+    handNumber: room.gameState.handNumber,
+    gameVariant: room.gameState.gameVariant,
+    betStructure: variantConfig.betStructure,
+    smallBlind: room.config.smallBlind,
+    bigBlind: room.config.bigBlind,
+    maxPlayers: room.config.maxPlayers,
+    buttonSeat: variantConfig.hasButton ? room.dealerBtnIndex : -1,
+    startedAt: record.startedAt,
+    endedAt: Date.now(),
+    players,
+    actions: record.actions,
+    board: [...room.gameState.board],
+    board2: room.gameState.board2 ? [...room.gameState.board2] : undefined,
+    runBoards: room.gameState.runBoards?.map(board => [...board]),
+    pots: [
+      { amount: pots.main, eligiblePlayers: mainEligible },
+      ...pots.side.map(s => ({ amount: s.amount, eligiblePlayers: [...s.eligiblePlayers] })),
+    ].filter(pot => pot.amount > 0),
+    rake: showdownResult.rake ?? 0,
+    winners: showdownResult.winners.map(w => ({ playerId: w.playerId, amount: w.amount, handRank: w.handRank })),
+    fairness: record.fairness,
+  };
+}
+
+/**
+ * OFCハンドの履歴を組み立てる（スコアリング直後に呼ぶ）
+ * OFCはポット・レーキなし、ボードは全員公開
+ */
+export function buildOFCHandHistory(
+  room: Room,
+  record: HandRecord,
+  ofc: OFCGameState,
+  scores: OFCRoundScore[]
+): HandHistory {
+  const seatOf = (socketId: string) => room.players.findIndex(p => p?.socketId === socketId);
+
+  const players: HandHistoryPlayer[] = ofc.players.map(p => {
+    const score = scores.find(s => s.playerId === p.socketId);
+    const cards = [...p.board.top, ...p.board.middle, ...p.board.bottom];
+    return {
+      playerId: p.socketId,
+      userId: room.players.find(rp => rp?.socketId === p.socketId)?.userId,
+      name: p.name,
+      seatIndex: seatOf(p.socketId),
+      startingStack: record.startingStacks[p.socketId] ?? p.stack,
+      endingStack: p.stack,
+      holeCards: cards,
+      shownCards: cards,
+      handRank: score
+        ? (score.isFouled ? 'Foul' : `${score.topHand} / ${score.middleHand} / ${score.bottomHand}`)
+        : undefined,
+      totalBet: 0,
+      amountWon: Math.max(0, score?.chipChange ?? 0),
+      rakePaid: 0,
+      ofcBoard: {
+        top: [...p.board.top],
+        middle: [...p.board.middle],
+        bottom: [...p.board.bottom],
+      },
+      ofcPoints: score?.totalPoints ?? 0,
+    };
+  });
+
+  const buttonPlayer = ofc.players[ofc.buttonIndex];
+
+  return {
+    roomId: room.id,
+    handNumber: ofc.handNumber,
+    gameVariant: 'OFC',
+    smallBlind: room.config.smallBlind,
+    bigBlind: room.config.bigBlind,
+    maxPlayers: room.config.maxPlayers,
+    buttonSeat: buttonPlayer ? seatOf(buttonPlayer.socketId) : -1,
+    startedAt: record.startedAt,
+    endedAt: Date.now(),
+    players,
+    actions: record.actions,
+    board: [],
+    pots: [],
+    rake: 0,
+    winners: scores
+      .filter(s => s.chipChange > 0)
+      .map(s => ({
+        playerId: s.playerId,
+        amount: s.chipChange,
+        handRank: players.find(p => p.playerId === s.playerId)?.handRank ?? '',
+      })),
+    fairness: record.fairness,
+  };
+}
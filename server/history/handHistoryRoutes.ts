@@ -0,0 +1,166 @@
+/**
+ * ハンド履歴 REST API
+ * GET /api/hands                                     - 自分の直近のハンド一覧
+ * GET /api/hands/export?format=pokerstars&from=&to= - 期間内の自分のハンドを一括エクスポート
+ * GET /api/hands/:id                                 - リプレイ用のハンド詳細（共有リンク用に参加者以外も閲覧可）
+ * GET /api/hands/:id/export?format=pokerstars        - 1ハンドをエクスポート
+ */
+
+import { Router } from 'express';
+import { authMiddleware } from '../auth/authMiddleware.js';
+import { loadHandHistory, findUserHandHistories, listUserHands } from './handHistoryStore.js';
+import { formatPokerStarsHand, formatPokerStarsHands } from './pokerStarsFormatter.js';
+import { sanitizeHandHistoryForViewer } from './handHistoryVisibility.js';
+import { getVariantConfig } from '../gameVariants.js';
+import { roomManager } from '../RoomManager.js';
+import type { HandHistory } from '../types.js';
+
+const router = Router();
+
+const SUPPORTED_FORMATS = ['pokerstars'];
+const MAX_EXPORT_HANDS = 5000;
+const DEFAULT_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+/** 出力するユーザーのハンド時点のplayerId（不参加ならundefined） */
+function viewerPlayerId(history: HandHistory, userId: string): string | undefined {
+  return history.players.find(p => p.userId === userId)?.playerId;
+}
+
+/** ユーザーがハンドの卓に今も着席しているか（着席中はサーバーシードを返さない） */
+function isSeatedAt(roomId: string, userId: string): boolean {
+  return roomManager.getRoomById(roomId)?.players.some(p => p?.userId === userId) ?? false;
+}
+
+function parseFormat(value: unknown): string | null {
+  const format = typeof value === 'string' ? value : 'pokerstars';
+  return SUPPORTED_FORMATS.includes(format) ? format : null;
+}
+
+function parseDate(value: unknown, fallback: Date): Date | null {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET /api/hands?limit=
+ */
+router.get('/', authMiddleware, async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+    const hands = await listUserHands(req.user!.userId, limit);
+    res.json({ hands });
+  } catch (error) {
+    console.error('Hand list error:', error);
+    res.status(500).json({ message: 'サーバーエラーが発生しました' });
+  }
+});
+
+/**
+ * GET /api/hands/export
+ * /:id/export より先に定義する（"export" をIDと解釈させない）
+ */
+router.get('/export', authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    if (!parseFormat(req.query.format)) {
+      res.status(400).json({ message: 'Unsupported export format' });
+      return;
+    }
+
+    const to = parseDate(req.query.to, new Date());
+    const from = to ? parseDate(req.query.from, new Date(to.getTime() - DEFAULT_RANGE_MS)) : null;
+    if (!from || !to || from > to) {
+      res.status(400).json({ message: 'Invalid date range' });
+      return;
+    }
+
+    const hands = await findUserHandHistories(userId, from, to, MAX_EXPORT_HANDS);
+    const text = formatPokerStarsHands(
+      hands.map(({ id, history }) => ({ id, history, viewerPlayerId: viewerPlayerId(history, userId) }))
+    );
+
+    res.type('text/plain');
+    res.attachment(`hands_${from.toISOString().slice(0, 10)}_${to.toISOString().slice(0, 10)}.txt`);
+    res.send(text);
+  } catch (error) {
+    console.error('Hand export error:', error);
+    res.status(500).json({ message: 'サーバーエラーが発生しました' });
+  }
+});
+
+/**
+ * GET /api/hands/:id
+ * 閲覧者が見られないカードは伏せて返す（参加者以外はショーダウンで公開されたカードのみ）
+ * Provably Fair のサーバーシードは参加者が卓を離れてから返す
+ */
+router.get('/:id', authMiddleware, async (req, res) => {
+  try {
+    const handId = String(req.params.id);
+    const history = await loadHandHistory(handId);
+    if (!history) {
+      res.status(404).json({ message: 'Hand not found' });
+      return;
+    }
+
+    const viewer = viewerPlayerId(history, req.user!.userId);
+    const variantConfig = getVariantConfig(history.gameVariant, history.betStructure);
+
+    res.json({
+      hand: { id: handId, ...sanitizeHandHistoryForViewer(history, viewer, !isSeatedAt(history.roomId, req.user!.userId)) },
+      viewerPlayerId: viewer ?? null,
+      variant: {
+        name: variantConfig.name,
+        communityCardType: variantConfig.communityCardType,
+        boardPattern: variantConfig.boardPattern ?? [3, 1, 1],
+        holeCardCount: variantConfig.holeCardCount,
+      },
+    });
+  } catch (error) {
+    console.error('Hand load error:', error);
+    res.status(500).json({ message: 'サーバーエラーが発生しました' });
+  }
+});
+
+/**
+ * GET /api/hands/:id/export
+ * 参加したハンドのみエクスポート可能
+ */
+router.get('/:id/export', authMiddleware, async (req, res) => {
+  try {
+    const userId = req.user!.userId;
+    if (!parseFormat(req.query.format)) {
+      res.status(400).json({ message: 'Unsupported export format' });
+      return;
+    }
+
+    const handId = String(req.params.id);
+    const history = await loadHandHistory(handId);
+    if (!history) {
+      res.status(404).json({ message: 'Hand not found' });
+      return;
+    }
+
+    const viewer = viewerPlayerId(history, userId);
+    if (!viewer) {
+      res.status(403).json({ message: 'You did not play this hand' });
+      return;
+    }
+    if (history.gameVariant === 'OFC') {
+      res.status(400).json({ message: 'OFC hands cannot be exported in this format' });
+      return;
+    }
+
+    res.type('text/plain');
+    res.attachment(`hand_${handId}.txt`);
+    res.send(formatPokerStarsHand(history, handId, viewer) + '\n');
+  } catch (error) {
+    console.error('Hand export error:', error);
+    res.status(500).json({ message: 'サーバーエラーが発生しました' });
+  }
+});
+
+export default router;
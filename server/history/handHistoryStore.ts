@@ -0,0 +1,215 @@
+/**
+ * ハンド履歴ストア
+ * 終了したハンドを Hand / HandParticipant / HandAction としてDBに保存
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { HandHistory, HandHistoryPlayer, HandActionRecord } from '../types.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * ハンド履歴を保存
+ * 失敗してもゲーム進行は止めない（ログのみ）
+ * @returns 保存したHandのID（失敗時はnull）
+ */
+export async function saveHandHistory(history: HandHistory): Promise<string | null> {
+  try {
+    const hand = await prisma.hand.create({
+      data: {
+        roomId: history.roomId,
+        handNumber: history.handNumber,
+        gameVariant: history.gameVariant,
+        betStructure: history.betStructure ?? null,
+        smallBlind: history.smallBlind,
+        bigBlind: history.bigBlind,
+        maxPlayers: history.maxPlayers,
+        buttonSeat: history.buttonSeat,
+        board: history.board,
+        board2: history.board2 ?? [],
+        runBoards: history.runBoards ?? undefined,
+        pots: history.pots,
+        rake: history.rake,
+        fairness: history.fairness ? { ...history.fairness } : undefined,
+        chat: history.chat ? history.chat.map(m => ({ ...m })) : undefined,
+        startedAt: new Date(history.startedAt),
+        endedAt: new Date(history.endedAt),
+        participants: {
+          create: history.players.map(p => ({
+            userId: p.userId ?? null,
+            playerId: p.playerId,
+            playerName: p.name,
+            seatIndex: p.seatIndex,
+            startingStack: p.startingStack,
+            endingStack: p.endingStack,
+            holeCards: p.holeCards,
+            shownCards: p.shownCards ?? [],
+            shown: p.shownCards !== null,
+            handRank: p.handRank ?? null,
+            totalBet: p.totalBet,
+            amountWon: p.amountWon,
+            rakePaid: p.rakePaid,
+            ofcBoard: p.ofcBoard ?? undefined,
+            ofcPoints: p.ofcPoints ?? null,
+          })),
+        },
+        actions: {
+          create: history.actions.map((a, sequence) => ({
+            sequence,
+            street: a.street,
+            playerId: a.playerId,
+            playerName: a.playerName,
+            seatIndex: a.seatIndex,
+            type: a.type,
+            amount: a.amount ?? null,
+            betTo: a.betTo ?? null,
+            cards: a.cards ?? [],
+            received: a.received ?? [],
+            placements: a.placements ?? undefined,
+            createdAt: new Date(a.timestamp),
+          })),
+        },
+      },
+    });
+    return hand.id;
+  } catch (error) {
+    console.error('Failed to save hand history:', error);
+    return null;
+  }
+}
+
+const HAND_INCLUDE = {
+  participants: true,
+  actions: { orderBy: { sequence: 'asc' as const } },
+};
+
+/** DBの行を HandHistory に戻す */
+function toHandHistory(hand: any): HandHistory {
+  const players: HandHistoryPlayer[] = hand.participants
+    .map((p: any) => ({
+      playerId: p.playerId,
+      userId: p.userId ?? undefined,
+      name: p.playerName,
+      seatIndex: p.seatIndex,
+      startingStack: p.startingStack,
+      endingStack: p.endingStack,
+      holeCards: p.holeCards,
+      shownCards: p.shown ? p.shownCards : null,
+      handRank: p.handRank ?? undefined,
+      totalBet: p.totalBet,
+      amountWon: p.amountWon,
+      rakePaid: p.rakePaid,
+      ofcBoard: p.ofcBoard ?? undefined,
+      ofcPoints: p.ofcPoints ?? undefined,
+    }))
+    .sort((a: HandHistoryPlayer, b: HandHistoryPlayer) => a.seatIndex - b.seatIndex);
+
+  const actions: HandActionRecord[] = hand.actions.map((a: any) => ({
+    playerId: a.playerId,
+    playerName: a.playerName,
+    seatIndex: a.seatIndex,
+    street: a.street,
+    type: a.type,
+    amount: a.amount ?? undefined,
+    betTo: a.betTo ?? undefined,
+    cards: a.cards.length > 0 ? a.cards : undefined,
+    received: a.received.length > 0 ? a.received : undefined,
+    placements: a.placements ?? undefined,
+    timestamp: a.createdAt.getTime(),
+  }));
+
+  // ドローは捨て札0枚（スタンドパット）でも cards を空配列で持つ
+  for (const a of actions) {
+    if ((a.type === 'DRAW' || a.type === 'VANISH') && !a.cards) a.cards = [];
+  }
+
+  const winners = players
+    .filter(p => p.amountWon > 0)
+    .map(p => ({ playerId: p.playerId, amount: p.amountWon, handRank: p.handRank ?? '' }));
+
+  return {
+    roomId: hand.roomId,
+    handNumber: hand.handNumber,
+    gameVariant: hand.gameVariant,
+    betStructure: hand.betStructure ?? undefined,
+    smallBlind: hand.smallBlind,
+    bigBlind: hand.bigBlind,
+    maxPlayers: hand.maxPlayers,
+    buttonSeat: hand.buttonSeat,
+    startedAt: hand.startedAt.getTime(),
+    endedAt: hand.endedAt.getTime(),
+    players,
+    actions,
+    board: hand.board,
+    board2: hand.board2.length > 0 ? hand.board2 : undefined,
+    runBoards: hand.runBoards ?? undefined,
+    pots: hand.pots,
+    rake: hand.rake,
+    winners,
+    fairness: hand.fairness ?? undefined,
+    chat: hand.chat ?? undefined,
+  };
+}
+
+/**
+ * IDでハンド履歴を取得
+ * @returns 見つからなければnull
+ */
+export async function loadHandHistory(handId: string): Promise<HandHistory | null> {
+  const hand = await prisma.hand.findUnique({ where: { id: handId }, include: HAND_INCLUDE });
+  return hand ? toHandHistory(hand) : null;
+}
+
+/**
+ * ユーザーが参加したハンドを期間で取得（古い順、エクスポートのハンド番号用にIDも返す）
+ * @param limit 取得上限
+ */
+export async function findUserHandHistories(
+  userId: string,
+  from: Date,
+  to: Date,
+  limit: number
+): Promise<{ id: string; history: HandHistory }[]> {
+  const hands = await prisma.hand.findMany({
+    where: {
+      endedAt: { gte: from, lte: to },
+      participants: { some: { userId } },
+    },
+    include: HAND_INCLUDE,
+    orderBy: { startedAt: 'asc' },
+    take: limit,
+  });
+  return hands.map((hand: any) => ({ id: hand.id, history: toHandHistory(hand) }));
+}
+
+// ハンド一覧の1行
+export interface HandSummary {
+  id: string;
+  roomId: string;
+  handNumber: number;
+  gameVariant: string;
+  bigBlind: number;
+  startedAt: number;
+  netResult: number;   // このユーザーの収支（終了スタック - 開始スタック）
+}
+
+/**
+ * ユーザーが参加した直近のハンド一覧（新しい順）
+ */
+export async function listUserHands(userId: string, limit: number): Promise<HandSummary[]> {
+  const participants = await prisma.handParticipant.findMany({
+    where: { userId },
+    include: { hand: true },
+    orderBy: { hand: { startedAt: 'desc' } },
+    take: limit,
+  });
+  return participants.map((p: any) => ({
+    id: p.hand.id,
+    roomId: p.hand.roomId,
+    handNumber: p.hand.handNumber,
+    gameVariant: p.hand.gameVariant,
+    bigBlind: p.hand.bigBlind,
+    startedAt: p.hand.startedAt.getTime(),
+    netResult: p.endingStack - p.startingStack,
+  }));
+}
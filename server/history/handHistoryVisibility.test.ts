@@ -0,0 +1,144 @@
+/**
+ * Hand History Visibility Tests
+ * リプレイ用に返すハンド履歴のカード可視性
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sanitizeHandHistoryForViewer, HIDDEN_CARD } from './handHistoryVisibility.js';
+import { computeDeckOrder, createFairHand } from '../fairness/provablyFair.js';
+import type { HandHistory, HandHistoryPlayer } from '../types.js';
+
+// Helper: テスト用参加者作成
+function createPlayer(playerId: string, seatIndex: number, holeCards: string[], shownCards: string[] | null = null): HandHistoryPlayer {
+    return {
+        playerId,
+        name: playerId,
+        seatIndex,
+        startingStack: 1000,
+        endingStack: 1000,
+        holeCards,
+        shownCards,
+        totalBet: 0,
+        amountWon: 0,
+        rakePaid: 0
+    };
+}
+
+// Helper: テスト用ハンド履歴作成
+function createHistory(gameVariant: string, overrides: Partial<HandHistory>): HandHistory {
+    return {
+        roomId: 'table-1',
+        handNumber: 1,
+        gameVariant,
+        smallBlind: 5,
+        bigBlind: 10,
+        maxPlayers: 6,
+        buttonSeat: 0,
+        startedAt: 0,
+        endedAt: 0,
+        players: [],
+        actions: [],
+        board: [],
+        pots: [],
+        rake: 0,
+        winners: [],
+        ...overrides
+    };
+}
+
+describe('sanitizeHandHistoryForViewer', () => {
+    it('自分の手札とショーダウンで公開した手札だけを残す', () => {
+        const history = createHistory('NLH', {
+            players: [
+                createPlayer('me', 0, ['A♠', 'K♠']),
+                createPlayer('shown', 1, ['Q♥', 'Q♦'], ['Q♥', 'Q♦']),
+                createPlayer('mucked', 2, ['7♦', '2♣'])
+            ]
+        });
+
+        const result = sanitizeHandHistoryForViewer(history, 'me');
+
+        expect(result.players[0].holeCards).toEqual(['A♠', 'K♠']);
+        expect(result.players[1].holeCards).toEqual(['Q♥', 'Q♦']);
+        expect(result.players[2].holeCards).toEqual([HIDDEN_CARD, HIDDEN_CARD]);
+        // 元の履歴は変更しない
+        expect(history.players[2].holeCards).toEqual(['7♦', '2♣']);
+    });
+
+    it('Stud: 他プレイヤーは4th Streetと最後のダウンカードを伏せる', () => {
+        const history = createHistory('7CS', {
+            players: [
+                createPlayer('me', 0, ['2♠', '3♠', '4♠', '5♠', '6♠', '7♠', '8♠']),
+                createPlayer('other', 1, ['9♦', 'T♦', 'J♦', 'Q♦', 'K♦', 'A♦', '2♦'])
+            ]
+        });
+
+        const result = sanitizeHandHistoryForViewer(history, 'me');
+
+        expect(result.players[1].holeCards).toEqual(['', '', 'J♦', '', 'K♦', 'A♦', '']);
+    });
+
+    it('他プレイヤーのドローは枚数だけを残す', () => {
+        const history = createHistory('2-7_TD', {
+            players: [createPlayer('me', 0, []), createPlayer('other', 1, [])],
+            actions: [
+                { playerId: 'other', playerName: 'other', seatIndex: 1, street: 'FIRST_DRAW', type: 'DRAW', cards: ['K♠', 'K♦'], received: ['6♣', '9♥'], timestamp: 0 },
+                { playerId: 'me', playerName: 'me', seatIndex: 0, street: 'FIRST_DRAW', type: 'DRAW', cards: ['A♠'], received: ['8♠'], timestamp: 0 }
+            ]
+        });
+
+        const result = sanitizeHandHistoryForViewer(history, 'me');
+
+        expect(result.actions[0].cards).toEqual([HIDDEN_CARD, HIDDEN_CARD]);
+        expect(result.actions[0].received).toEqual([HIDDEN_CARD, HIDDEN_CARD]);
+        expect(result.actions[1].cards).toEqual(['A♠']);
+    });
+
+    it('参加者以外にはショーダウンで公開したカードだけを見せる', () => {
+        const history = createHistory('NLH', {
+            players: [createPlayer('a', 0, ['A♠', 'K♠'], ['A♠', 'K♠']), createPlayer('b', 1, ['7♦', '2♣'])]
+        });
+
+        const result = sanitizeHandHistoryForViewer(history);
+
+        expect(result.players[0].holeCards).toEqual(['A♠', 'K♠']);
+        expect(result.players[1].holeCards).toEqual([HIDDEN_CARD, HIDDEN_CARD]);
+    });
+
+    it('サーバーシードは卓を離れた参加者にだけ返し、それ以外にはコミットメントのみ返す', () => {
+        const fairness = { commitment: 'abc', clientSeed: 'client', nonce: 1, deckType: 'standard' as const, serverSeed: 'secret' };
+        const history = createHistory('NLH', {
+            players: [createPlayer('a', 0, ['A♠', 'K♠']), createPlayer('b', 1, ['7♦', '2♣'])],
+            fairness
+        });
+
+        expect(sanitizeHandHistoryForViewer(history, 'a', true).fairness).toEqual(fairness);
+
+        const commitment = { commitment: 'abc', clientSeed: 'client', nonce: 1, deckType: 'standard' };
+        expect(sanitizeHandHistoryForViewer(history, 'a').fairness).toEqual(commitment);
+        expect(sanitizeHandHistoryForViewer(history).fairness).toEqual(commitment);
+        expect(sanitizeHandHistoryForViewer(history, undefined, true).fairness).toEqual(commitment);
+        // OFCでも同様
+        expect(sanitizeHandHistoryForViewer({ ...history, gameVariant: 'OFC' }, 'a').fairness).not.toHaveProperty('serverSeed');
+    });
+
+    it('着席中の参加者は返された履歴から相手のマックした手札を再計算できない', () => {
+        const { reveal } = createFairHand('seed-a|seed-b', 1, 'standard');
+        const deck = computeDeckOrder(reveal);
+        const mucked = [deck[1], deck[3]];
+        const history = createHistory('NLH', {
+            players: [createPlayer('a', 0, [deck[0], deck[2]]), createPlayer('b', 1, mucked)],
+            fairness: reveal
+        });
+
+        const result = sanitizeHandHistoryForViewer(history, 'a');
+
+        expect(result.players[1].holeCards).toEqual([HIDDEN_CARD, HIDDEN_CARD]);
+        // デッキ順を再計算できるシードも、マックした手札そのものも含まれない
+        const json = JSON.stringify(result);
+        expect(json).not.toContain(reveal.serverSeed);
+        for (const card of mucked) {
+            expect(json).not.toContain(card);
+        }
+    });
+});
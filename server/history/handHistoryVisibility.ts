@@ -0,0 +1,67 @@
+/**
+ * ハンド履歴の可視性
+ * 保存済みハンドをクライアントに返す前に、閲覧者が見られないカードを伏せる
+ * ルールは sanitizeRoomForViewer と同じ:
+ * - 他プレイヤーの手札はショーダウンで公開したものだけ
+ * - Stud のアップカードは 4th Street 以外を公開
+ * - 他プレイヤーのドローの捨て札・引いたカードは枚数のみ
+ * - Provably Fair のサーバーシードは卓を離れた参加者のみ（シードからデッキ順＝マックした手札も分かるため、卓にいる間は伏せる）
+ */
+
+import type { FairnessCommitment, HandHistory } from '../types.js';
+import { getVariantConfig } from '../gameVariants.js';
+
+// 伏せたカード（枚数だけ分かるよう空文字で残す）
+export const HIDDEN_CARD = '';
+
+// Stud: hand の並び（2ダウン, 3rd〜6thアップ, 7thダウン）のうち他プレイヤーに見える位置
+const STUD_VISIBLE_INDEXES = [2, 4, 5];
+
+// 閲覧者向けのハンド履歴（サーバーシードを公開しない閲覧者にはコミットメントだけを返す）
+export type ViewerHandHistory = Omit<HandHistory, 'fairness'> & { fairness?: FairnessCommitment };
+
+/**
+ * 閲覧者向けにハンド履歴のカードを伏せる
+ * @param viewerPlayerId 閲覧者のハンド時点のplayerId（不参加ならundefined）
+ * @param leftTable 閲覧者がその卓を離れているか（参加者でも着席中はサーバーシードを返さない）
+ */
+export function sanitizeHandHistoryForViewer(
+  history: HandHistory,
+  viewerPlayerId?: string,
+  leftTable: boolean = false
+): ViewerHandHistory {
+  const fairness = viewerPlayerId !== undefined && leftTable ? history.fairness : withoutServerSeed(history.fairness);
+
+  // OFCはボードが全員公開
+  if (history.gameVariant === 'OFC') return { ...history, fairness };
+
+  const variantConfig = getVariantConfig(history.gameVariant, history.betStructure);
+  const isStud = variantConfig.communityCardType === 'stud';
+  // 最終ストリートのカードはダウンカード
+  const isStudUpCard = (i: number) => STUD_VISIBLE_INDEXES.includes(i) && i < variantConfig.holeCardCount - 1;
+  const hide = (cards: string[] | undefined) => cards?.map(() => HIDDEN_CARD);
+
+  return {
+    ...history,
+    fairness,
+    players: history.players.map(p => {
+      if (p.playerId === viewerPlayerId || p.shownCards) return p;
+      return {
+        ...p,
+        holeCards: p.holeCards.map((card, i) =>
+          isStud && isStudUpCard(i) ? card : HIDDEN_CARD
+        ),
+      };
+    }),
+    actions: history.actions.map(a => {
+      if (a.playerId === viewerPlayerId || (a.type !== 'DRAW' && a.type !== 'VANISH')) return a;
+      return { ...a, cards: hide(a.cards), received: hide(a.received) };
+    }),
+  };
+}
+
+function withoutServerSeed(fairness: HandHistory['fairness']): FairnessCommitment | undefined {
+  if (!fairness) return undefined;
+  const { serverSeed: _serverSeed, ...commitment } = fairness;
+  return commitment;
+}
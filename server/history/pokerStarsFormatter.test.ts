@@ -0,0 +1,244 @@
+/**
+ * PokerStars Formatter Tests
+ * Flop / Stud / Draw のテキスト化と他プレイヤーのカード可視性
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatPokerStarsHand, formatPokerStarsHands, pokerStarsHandNumber } from './pokerStarsFormatter.js';
+import type { HandHistory, HandHistoryPlayer, HandActionRecord } from '../types.js';
+
+const HAND_ID = 'abcdef01-2345-6789-abcd-ef0123456789';
+
+// Helper: テスト用参加者作成
+function createPlayer(
+    playerId: string,
+    seatIndex: number,
+    holeCards: string[],
+    overrides: Partial<HandHistoryPlayer> = {}
+): HandHistoryPlayer {
+    return {
+        playerId,
+        name: playerId,
+        seatIndex,
+        startingStack: 1000,
+        endingStack: 1000,
+        holeCards,
+        shownCards: null,
+        totalBet: 0,
+        amountWon: 0,
+        rakePaid: 0,
+        ...overrides
+    };
+}
+
+// Helper: テスト用アクション作成
+function act(
+    playerId: string,
+    street: string,
+    type: HandActionRecord['type'],
+    detail: Partial<HandActionRecord> = {}
+): HandActionRecord {
+    return { playerId, playerName: playerId, seatIndex: 0, street, type, timestamp: 0, ...detail };
+}
+
+// Helper: テスト用ハンド履歴作成
+function createHistory(gameVariant: string, overrides: Partial<HandHistory>): HandHistory {
+    return {
+        roomId: 'table-1',
+        handNumber: 1,
+        gameVariant,
+        smallBlind: 5,
+        bigBlind: 10,
+        maxPlayers: 6,
+        buttonSeat: 0,
+        startedAt: Date.UTC(2026, 9, 19, 9, 5, 7),
+        endedAt: Date.UTC(2026, 9, 19, 9, 6, 0),
+        players: [],
+        actions: [],
+        board: [],
+        pots: [],
+        rake: 0,
+        winners: [],
+        ...overrides
+    };
+}
+
+describe('formatPokerStarsHand', () => {
+    it('NLH: ヘッダー・ボード・返還ベット・サマリーを出力する', () => {
+        const history = createHistory('NLH', {
+            betStructure: 'no-limit',
+            players: [
+                createPlayer('Alice', 0, ['A♠', 'K♠'], { amountWon: 105, endingStack: 1035 }),
+                createPlayer('Bob', 1, ['7♦', '2♣'], { endingStack: 995 }),
+                createPlayer('Carol', 2, ['Q♥', 'Q♦'], { endingStack: 970 })
+            ],
+            actions: [
+                act('Bob', 'PREFLOP', 'POST_SB', { amount: 5, betTo: 5 }),
+                act('Carol', 'PREFLOP', 'POST_BB', { amount: 10, betTo: 10 }),
+                act('Alice', 'PREFLOP', 'RAISE', { amount: 30, betTo: 30 }),
+                act('Bob', 'PREFLOP', 'FOLD'),
+                act('Carol', 'PREFLOP', 'CALL', { amount: 20, betTo: 30 }),
+                act('Carol', 'FLOP', 'CHECK'),
+                act('Alice', 'FLOP', 'RAISE', { amount: 40, betTo: 40 }),
+                act('Carol', 'FLOP', 'FOLD')
+            ],
+            board: ['T♣', '10♥', '2♦'],
+            pots: [{ amount: 105, eligiblePlayers: ['Alice'] }]
+        });
+
+        const text = formatPokerStarsHand(history, HAND_ID, 'Carol');
+
+        expect(text).toContain("PokerStars Hand #3022415463593046: Hold'em No Limit (5/10) - 2026/10/19 9:05:07 UTC");
+        expect(text).toContain("Table 'table-1' 6-max Seat #1 is the button");
+        expect(text).toContain('Seat 2: Bob (1000 in chips)');
+        expect(text).toContain('Dealt to Carol [Qh Qd]');
+        expect(text).not.toContain('As Ks');
+        expect(text).toContain('Alice: raises 20 to 30');
+        expect(text).toContain('*** FLOP *** [Tc Th 2d]');
+        expect(text).toContain('Alice: bets 40');
+        expect(text).toContain('Uncalled bet (40) returned to Alice');
+        expect(text).toContain('Alice collected 65 from pot');
+        expect(text).not.toContain('SHOW DOWN');
+        expect(text).toContain('Total pot 65 | Rake 0');
+        expect(text).toContain('Seat 1: Alice (button) collected (65)');
+        expect(text).toContain("Seat 2: Bob (small blind) folded before Flop");
+        expect(text).toContain('Seat 3: Carol (big blind) folded on the Flop');
+    });
+
+    it('オールイン後のボードとショーダウンで公開したカードだけを出力する', () => {
+        const history = createHistory('PLO', {
+            betStructure: 'pot-limit',
+            players: [
+                createPlayer('Alice', 0, ['A♠', 'A♥', 'K♠', 'K♥'], {
+                    shownCards: ['A♠', 'A♥', 'K♠', 'K♥'], handRank: 'a pair of Aces', amountWon: 200
+                }),
+                createPlayer('Bob', 1, ['7♦', '8♦', '9♣', 'J♣'], { shownCards: null })
+            ],
+            actions: [
+                act('Alice', 'PREFLOP', 'POST_SB', { amount: 5, betTo: 5 }),
+                act('Bob', 'PREFLOP', 'POST_BB', { amount: 10, betTo: 10 }),
+                act('Alice', 'PREFLOP', 'RAISE', { amount: 25, betTo: 30 }),
+                act('Bob', 'PREFLOP', 'RAISE', { amount: 90, betTo: 100 }),
+                act('Alice', 'PREFLOP', 'CALL', { amount: 70, betTo: 100 })
+            ],
+            board: ['2♣', '5♦', '9♥', 'J♠', 'A♣'],
+            pots: [{ amount: 200, eligiblePlayers: ['Alice', 'Bob'] }]
+        });
+
+        const text = formatPokerStarsHand(history, HAND_ID, 'Alice');
+
+        expect(text).toContain('Omaha Pot Limit (5/10)');
+        expect(text).toContain('Bob: raises 70 to 100');
+        expect(text).toContain('*** TURN *** [2c 5d 9h] [Js]');
+        expect(text).toContain('*** RIVER *** [2c 5d 9h Js] [Ac]');
+        expect(text).toContain('*** SHOW DOWN ***');
+        expect(text).toContain('Alice: shows [As Ah Ks Kh] (a pair of Aces)');
+        expect(text).toContain('Bob: mucks hand');
+        expect(text).not.toContain('7d');
+        expect(text).toContain('Seat 1: Alice (button) (small blind) showed [As Ah Ks Kh] and won (200) with a pair of Aces');
+        expect(text).toContain('Board [2c 5d 9h Js Ac]');
+    });
+
+    it('Stud: 他プレイヤーは3rd/5th/6thのアップカードだけを出力する', () => {
+        const history = createHistory('7CS', {
+            betStructure: 'fixed',
+            buttonSeat: -1,
+            players: [
+                createPlayer('Alice', 0, ['2♠', '3♠', '4♠', '5♠', '6♠', '7♠', '8♠'], { shownCards: null }),
+                createPlayer('Bob', 1, ['9♦', 'T♦', 'J♦', 'Q♦', 'K♦', 'A♦', '2♦'], {
+                    shownCards: null, amountWon: 22
+                })
+            ],
+            actions: [
+                act('Alice', 'THIRD_STREET', 'ANTE', { amount: 1 }),
+                act('Bob', 'THIRD_STREET', 'ANTE', { amount: 1 }),
+                act('Alice', 'THIRD_STREET', 'BRING_IN', { amount: 2, betTo: 2 }),
+                act('Bob', 'THIRD_STREET', 'RAISE', { amount: 5, betTo: 5 }),
+                act('Alice', 'THIRD_STREET', 'CALL', { amount: 3, betTo: 5 }),
+                act('Alice', 'FOURTH_STREET', 'CHECK'),
+                act('Bob', 'FOURTH_STREET', 'CHECK'),
+                act('Alice', 'FIFTH_STREET', 'CHECK'),
+                act('Bob', 'FIFTH_STREET', 'RAISE', { amount: 10, betTo: 10 }),
+                act('Alice', 'FIFTH_STREET', 'FOLD')
+            ],
+            pots: [{ amount: 12, eligiblePlayers: ['Bob'] }]
+        });
+
+        const text = formatPokerStarsHand(history, HAND_ID, 'Alice');
+
+        expect(text).toContain('7 Card Stud Limit (5/10)');
+        expect(text).toContain("Table 'table-1' 6-max\n");
+        expect(text.indexOf('Alice: posts the ante 1')).toBeLessThan(text.indexOf('*** 3rd STREET ***'));
+        expect(text).toContain('Dealt to Alice [2s 3s 4s]');
+        expect(text).toContain('Dealt to Bob [Jd]');
+        expect(text).toContain('Alice: brings in for 2');
+        expect(text).toContain('Bob: completes it to 5');
+        expect(text).toContain('Dealt to Alice [2s 3s 4s] [5s]');
+        // 4th Streetのカードは本人以外に非公開
+        expect(text).not.toContain('Qd');
+        expect(text).toContain('Dealt to Bob [Jd] [Kd]');
+        expect(text).not.toContain('*** 6th STREET ***');
+        expect(text).not.toContain('9d');
+        expect(text).toContain('Uncalled bet (10) returned to Bob');
+        expect(text).toContain('Bob collected 12 from pot');
+        expect(text).toContain('Total pot 12 | Rake 0');
+        expect(text).toContain('Seat 1: Alice folded on the 5th Street');
+    });
+
+    it('Draw: 本人の捨て札と引いたカードだけを出力する', () => {
+        const history = createHistory('2-7_TD', {
+            betStructure: 'fixed',
+            players: [
+                // 最終手札（ドロー後）。引いたカードは末尾に並ぶ
+                createPlayer('Alice', 0, ['2♠', '3♦', '4♣', '7♥', '8♠'], {
+                    shownCards: ['2♠', '3♦', '4♣', '7♥', '8♠'], handRank: '8-7 low', amountWon: 40
+                }),
+                createPlayer('Bob', 1, ['2♦', '5♦', '6♣', '9♥', 'Q♠'], { shownCards: null })
+            ],
+            actions: [
+                act('Alice', 'PREDRAW', 'POST_SB', { amount: 5, betTo: 5 }),
+                act('Bob', 'PREDRAW', 'POST_BB', { amount: 10, betTo: 10 }),
+                act('Alice', 'PREDRAW', 'CALL', { amount: 5, betTo: 10 }),
+                act('Bob', 'PREDRAW', 'CHECK'),
+                act('Bob', 'FIRST_DRAW', 'DRAW', { cards: ['K♠', 'K♦'], received: ['6♣', '9♥'] }),
+                act('Alice', 'FIRST_DRAW', 'DRAW', { cards: ['A♠'], received: ['8♠'] }),
+                act('Bob', 'FIRST_DRAW', 'CHECK'),
+                act('Alice', 'FIRST_DRAW', 'RAISE', { amount: 10, betTo: 10 }),
+                act('Bob', 'FIRST_DRAW', 'CALL', { amount: 10, betTo: 10 }),
+                act('Bob', 'SECOND_DRAW', 'DRAW', { cards: [], received: [] }),
+                act('Alice', 'SECOND_DRAW', 'DRAW', { cards: [], received: [] })
+            ],
+            pots: [{ amount: 40, eligiblePlayers: ['Alice', 'Bob'] }]
+        });
+
+        const text = formatPokerStarsHand(history, HAND_ID, 'Alice');
+
+        expect(text).toContain('Triple Draw 2-7 Lowball Limit (5/10)');
+        expect(text).toContain('*** DEALING HANDS ***\nDealt to Alice [2s 3d 4c 7h As]');
+        expect(text).toContain('*** FIRST DRAW ***');
+        expect(text).toContain('Bob: discards 2 cards\n');
+        expect(text).not.toContain('Kd');
+        expect(text).toContain('Alice: discards 1 card [As]');
+        expect(text).toContain('Dealt to Alice [2s 3d 4c 7h] [8s]');
+        expect(text).toContain('Alice: stands pat');
+        expect(text).toContain('Alice: shows [2s 3d 4c 7h 8s] (8-7 low)');
+        expect(text).toContain('Bob: mucks hand');
+        expect(text).toContain('Seat 2: Bob (big blind) mucked');
+    });
+
+    it('ハンド番号は保存済みハンドのIDから作り、同時刻に始まった別の卓のハンドと重ならない', () => {
+        const history = createHistory('NLH', { betStructure: 'no-limit' });
+        const first = formatPokerStarsHand(history, HAND_ID);
+        const second = formatPokerStarsHand({ ...history, roomId: 'table-2' }, '0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0');
+
+        expect(first).toMatch(/^PokerStars Hand #3022415463593046: /);
+        expect(second).toMatch(new RegExp(`^PokerStars Hand #${pokerStarsHandNumber('0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0')}: `));
+        expect(pokerStarsHandNumber('0f1e2d3c-4b5a-6978-8796-a5b4c3d2e1f0')).not.toBe('3022415463593046');
+        expect(() => pokerStarsHandNumber('not-a-uuid')).toThrow();
+    });
+
+    it('OFCは対象外', () => {
+        expect(() => formatPokerStarsHand(createHistory('OFC', {}), HAND_ID)).toThrow();
+        expect(formatPokerStarsHands([{ id: HAND_ID, history: createHistory('OFC', {}) }])).toBe('\n');
+    });
+});
@@ -0,0 +1,412 @@
+/**
+ * PokerStars 互換ハンド履歴フォーマッター
+ * HandHistory をトラッカー（HM3, PT4 等）が取り込めるテキスト形式に変換する
+ *
+ * 他プレイヤーの伏せ札は sanitizeRoomForViewer と同じ可視性:
+ * - 手札はショーダウンで公開したものだけ
+ * - Stud のアップカードは 3rd / 5th / 6th のみ（4th は本人以外に非公開）
+ */
+
+import type { HandHistory, HandHistoryPlayer, HandActionRecord } from '../types.js';
+import { getVariantConfig, type BetStructure } from '../gameVariants.js';
+
+type GameFamily = 'flop' | 'stud' | 'draw';
+
+const STRUCTURE_LABELS: Record<BetStructure, string> = {
+  'no-limit': 'No Limit',
+  'pot-limit': 'Pot Limit',
+  'fixed': 'Limit',
+};
+
+// PokerStars のゲーム名（未登録のバリアントはゲーム設定の name を使う）
+const GAME_NAMES: Record<string, string> = {
+  NLH: "Hold'em",
+  SD_NLH: "6+ Hold'em",
+  PLO: 'Omaha',
+  PLO8: 'Omaha Hi/Lo',
+  FLO8: 'Omaha Hi/Lo',
+  PLO5: '5 Card Omaha',
+  BIG_O: '5 Card Omaha Hi/Lo',
+  '7CS': '7 Card Stud',
+  '7CS8': '7 Card Stud Hi/Lo',
+  RAZZ: 'Razz',
+  '2-7_TD': 'Triple Draw 2-7 Lowball',
+  FL_A5_TD: 'Triple Draw A-5 Lowball',
+  BADUGI: 'Badugi',
+  PL_BADUGI: 'Badugi',
+  NL_27_SD_NA: 'Single Draw 2-7 Lowball',
+  NL_27_SD_15A: 'Single Draw 2-7 Lowball',
+  NL_5HI_SD: '5 Card Draw',
+};
+
+const FLOP_STREETS = ['PREFLOP', 'FLOP', 'TURN', 'RIVER', 'OCEAN'];
+const STUD_STREETS = ['THIRD_STREET', 'FOURTH_STREET', 'FIFTH_STREET', 'SIXTH_STREET', 'SEVENTH_STREET'];
+const DRAW_STREETS = ['PREDRAW', 'FIRST_DRAW', 'SECOND_DRAW', 'THIRD_DRAW'];
+
+const STREET_HEADERS: Record<string, string> = {
+  PREFLOP: 'HOLE CARDS',
+  FLOP: 'FLOP',
+  TURN: 'TURN',
+  RIVER: 'RIVER',
+  OCEAN: 'OCEAN',
+  THIRD_STREET: '3rd STREET',
+  FOURTH_STREET: '4th STREET',
+  FIFTH_STREET: '5th STREET',
+  SIXTH_STREET: '6th STREET',
+  SEVENTH_STREET: 'RIVER',
+  PREDRAW: 'DEALING HANDS',
+  FIRST_DRAW: 'FIRST DRAW',
+  SECOND_DRAW: 'SECOND DRAW',
+  THIRD_DRAW: 'THIRD DRAW',
+  DRAMAHA_DRAW: 'DRAW',
+  VANISH: 'VANISH',
+};
+
+const FOLD_LABELS: Record<string, string> = {
+  PREFLOP: 'before Flop',
+  FLOP: 'on the Flop',
+  TURN: 'on the Turn',
+  RIVER: 'on the River',
+  OCEAN: 'on the Ocean',
+  THIRD_STREET: 'on the 3rd Street',
+  FOURTH_STREET: 'on the 4th Street',
+  FIFTH_STREET: 'on the 5th Street',
+  SIXTH_STREET: 'on the 6th Street',
+  SEVENTH_STREET: 'on the 7th Street',
+  PREDRAW: 'before the Draw',
+  FIRST_DRAW: 'after the 1st Draw',
+  SECOND_DRAW: 'after the 2nd Draw',
+  THIRD_DRAW: 'after the 3rd Draw',
+  DRAMAHA_DRAW: 'after the Draw',
+};
+
+// Stud: 本人以外に見えるカードの位置（hand の並び: 2ダウン, 3rd〜6thアップ, 7thダウン）
+const STUD_VISIBLE_INDEXES = [2, 4, 5];
+
+const FORCED_BET_TYPES: HandActionRecord['type'][] = ['ANTE', 'POST_SB', 'POST_BB', 'STRADDLE'];
+const RUN_LABELS = ['FIRST', 'SECOND', 'THIRD'];
+
+const SUIT_LETTERS: Record<string, string> = { '♠': 's', '♥': 'h', '♦': 'd', '♣': 'c' };
+
+function toCard(card: string): string {
+  const suit = card.slice(-1);
+  const rank = card.slice(0, -1);
+  return `${rank === '10' ? 'T' : rank}${SUIT_LETTERS[suit] ?? suit}`;
+}
+
+function cardList(cards: string[]): string {
+  return `[${cards.map(toCard).join(' ')}]`;
+}
+
+function formatDate(timestamp: number): string {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getUTCFullYear()}/${pad(d.getUTCMonth() + 1)}/${pad(d.getUTCDate())} ` +
+    `${d.getUTCHours()}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())} UTC`;
+}
+
+/**
+ * 保存済みハンドのID（UUID）から PokerStars のハンド番号を作る
+ * 先頭13桁の16進（52bit）を10進にする。開始時刻と違って卓をまたいでも重複しない
+ */
+export function pokerStarsHandNumber(handId: string): string {
+  const hex = handId.replace(/-/g, '').slice(0, 13);
+  if (!/^[0-9a-f]+$/i.test(hex)) {
+    throw new Error(`Invalid hand id: ${handId}`);
+  }
+  return String(parseInt(hex, 16));
+}
+
+/**
+ * 1ハンドを PokerStars 形式のテキストに変換
+ * @param handId 保存済みハンドのID（ハンド番号に使う。トラッカーはこの番号で重複を判定する）
+ * @param viewerPlayerId 出力するユーザーのハンド時点のplayerId（本人の手札だけ "Dealt to" に出す）
+ */
+export function formatPokerStarsHand(history: HandHistory, handId: string, viewerPlayerId?: string): string {
+  if (history.gameVariant === 'OFC') {
+    throw new Error('PokerStars export is not supported for OFC');
+  }
+
+  const variantConfig = getVariantConfig(history.gameVariant, history.betStructure);
+  const family: GameFamily = variantConfig.communityCardType === 'stud'
+    ? 'stud'
+    : variantConfig.communityCardType === 'none' ? 'draw' : 'flop';
+  const boardPattern = variantConfig.boardPattern || [3, 1, 1];
+
+  const lines: string[] = [];
+  const players = [...history.players].sort((a, b) => a.seatIndex - b.seatIndex);
+  const byId = new Map(players.map(p => [p.playerId, p]));
+  const viewer = viewerPlayerId ? byId.get(viewerPlayerId) : undefined;
+  const nameOf = (playerId: string) => byId.get(playerId)?.name ?? playerId;
+
+  // ---- ヘッダー ----
+  const gameName = GAME_NAMES[history.gameVariant] ?? variantConfig.name;
+  const structure = STRUCTURE_LABELS[history.betStructure ?? variantConfig.betStructure];
+  lines.push(`PokerStars Hand #${pokerStarsHandNumber(handId)}: ${gameName} ${structure} (${history.smallBlind}/${history.bigBlind}) - ${formatDate(history.startedAt)}`);
+  lines.push(`Table '${history.roomId}' ${history.maxPlayers}-max` +
+    (history.buttonSeat >= 0 ? ` Seat #${history.buttonSeat + 1} is the button` : ''));
+  for (const p of players) {
+    lines.push(`Seat ${p.seatIndex + 1}: ${p.name} (${p.startingStack} in chips)`);
+  }
+
+  // ---- 事前集計 ----
+  const foldStreet = new Map<string, string>();
+  const positions = new Map<string, string>();
+  const liveContrib = new Map<string, number>();
+  const totalContrib = new Map<string, number>();
+  for (const a of history.actions) {
+    if (a.type === 'FOLD') foldStreet.set(a.playerId, a.street);
+    if (a.type === 'POST_SB') positions.set(a.playerId, 'small blind');
+    if (a.type === 'POST_BB') positions.set(a.playerId, 'big blind');
+    totalContrib.set(a.playerId, (totalContrib.get(a.playerId) || 0) + (a.amount || 0));
+    if (a.type !== 'ANTE') liveContrib.set(a.playerId, (liveContrib.get(a.playerId) || 0) + (a.amount || 0));
+  }
+
+  // 本人の配られた手札（ドロー/消失を巻き戻す）
+  let viewerHand = viewer ? [...viewer.holeCards] : [];
+  if (viewer) {
+    const ownDraws = history.actions.filter(a =>
+      a.playerId === viewer.playerId && (a.type === 'DRAW' || a.type === 'VANISH'));
+    for (const a of [...ownDraws].reverse()) {
+      viewerHand = viewerHand.filter(card => !(a.received || []).includes(card));
+      viewerHand = [...viewerHand, ...(a.cards || [])];
+    }
+  }
+
+  // ---- ストリート順 ----
+  const knownStreets = family === 'stud'
+    ? STUD_STREETS
+    : family === 'draw'
+      ? DRAW_STREETS.slice(0, (variantConfig.drawRounds || 3) + 1)
+      : FLOP_STREETS.slice(0, boardPattern.length + 1);
+  const streets = [...knownStreets];
+  for (const a of history.actions) {
+    if (!streets.includes(a.street)) streets.push(a.street);
+  }
+
+  // 最終ストリートのカードはダウンカード（Super Stud は 5th）
+  const isStudUpCard = (i: number) => STUD_VISIBLE_INDEXES.includes(i) && i < variantConfig.holeCardCount - 1;
+  const boardCountAt = (streetIdx: number) => boardPattern.slice(0, streetIdx).reduce((sum, n) => sum + n, 0);
+  const isInHandAt = (p: HandHistoryPlayer, street: string) => {
+    const folded = foldStreet.get(p.playerId);
+    return !folded || streets.indexOf(folded) >= streets.indexOf(street);
+  };
+
+  const boardHeader = (board: string[], streetIdx: number, label: string): string | null => {
+    const count = boardCountAt(streetIdx);
+    if (board.length < count) return null;
+    const prev = boardCountAt(streetIdx - 1);
+    return streetIdx === 1
+      ? `*** ${label} *** ${cardList(board.slice(0, count))}`
+      : `*** ${label} *** ${cardList(board.slice(0, prev))} ${cardList(board.slice(prev, count))}`;
+  };
+
+  // ストリートのヘッダーと配布行（出力しないストリートは空配列）
+  const streetHeader = (street: string, hasActions: boolean): string[] => {
+    const header = STREET_HEADERS[street] ?? street;
+
+    if (family === 'flop' && FLOP_STREETS.includes(street)) {
+      const streetIdx = FLOP_STREETS.indexOf(street);
+      if (streetIdx === 0) {
+        return [`*** ${header} ***`, ...(viewer ? [`Dealt to ${viewer.name} ${cardList(viewerHand)}`] : [])];
+      }
+      if (history.board2) {
+        return [
+          boardHeader(history.board, streetIdx, `FIRST ${header}`),
+          boardHeader(history.board2, streetIdx, `SECOND ${header}`),
+        ].filter((line): line is string => line !== null);
+      }
+      const line = boardHeader(history.board, streetIdx, header);
+      return line ? [line] : [];
+    }
+
+    if (family === 'stud' && STUD_STREETS.includes(street)) {
+      const k = STUD_STREETS.indexOf(street);
+      // 1人を残して終わったハンドではそれ以降のカードは配られていない
+      if (!hasActions && players.filter(p => isInHandAt(p, street)).length < 2) return [];
+      const dealt: string[] = [];
+      for (const p of players) {
+        if (!isInHandAt(p, street) || p.holeCards.length < k + 3) continue;
+        if (p === viewer) {
+          dealt.push(k === 0
+            ? `Dealt to ${p.name} ${cardList(p.holeCards.slice(0, 3))}`
+            : `Dealt to ${p.name} ${cardList(p.holeCards.slice(0, k + 2))} ${cardList([p.holeCards[k + 2]])}`);
+          continue;
+        }
+        const newIndex = k + 2;
+        if (!isStudUpCard(newIndex)) continue;
+        const previous = STUD_VISIBLE_INDEXES.filter(i => i < newIndex && isStudUpCard(i)).map(i => p.holeCards[i]);
+        dealt.push(previous.length === 0
+          ? `Dealt to ${p.name} ${cardList([p.holeCards[newIndex]])}`
+          : `Dealt to ${p.name} ${cardList(previous)} ${cardList([p.holeCards[newIndex]])}`);
+      }
+      return dealt.length > 0 || hasActions ? [`*** ${header} ***`, ...dealt] : [];
+    }
+
+    if (street === 'PREDRAW') {
+      return [`*** ${header} ***`, ...(viewer ? [`Dealt to ${viewer.name} ${cardList(viewerHand)}`] : [])];
+    }
+
+    return hasActions ? [`*** ${header} ***`] : [];
+  };
+
+  // ---- アクション ----
+  const stacks = new Map(players.map(p => [p.playerId, p.startingStack]));
+  let level = 0;
+  let bringInOpen = false;
+
+  const actionLine = (a: HandActionRecord): string[] => {
+    const name = nameOf(a.playerId);
+    const amount = a.amount || 0;
+    stacks.set(a.playerId, (stacks.get(a.playerId) || 0) - amount);
+    const allIn = amount > 0 && stacks.get(a.playerId) === 0 ? ' and is all-in' : '';
+
+    switch (a.type) {
+      case 'ANTE':
+        return [`${name}: posts the ante ${amount}${allIn}`];
+      case 'POST_SB':
+        return [`${name}: posts small blind ${amount}${allIn}`];
+      case 'POST_BB':
+        level = Math.max(level, a.betTo ?? amount);
+        return [`${name}: posts big blind ${amount}${allIn}`];
+      case 'STRADDLE':
+        level = Math.max(level, a.betTo ?? amount);
+        return [`${name}: posts straddle ${amount}${allIn}`];
+      case 'BRING_IN':
+        level = Math.max(level, a.betTo ?? amount);
+        bringInOpen = true;
+        return [`${name}: brings in for ${amount}${allIn}`];
+      case 'FOLD':
+        return [`${name}: folds`];
+      case 'CHECK':
+        return [`${name}: checks`];
+      case 'CALL':
+        return [`${name}: calls ${amount}${allIn}`];
+      case 'BET':
+      case 'RAISE':
+      case 'ALL_IN': {
+        const betTo = a.betTo ?? amount;
+        if (betTo <= level) return [`${name}: calls ${amount}${allIn}`];
+        const previous = level;
+        level = betTo;
+        if (previous === 0) return [`${name}: bets ${betTo}${allIn}`];
+        if (bringInOpen) {
+          bringInOpen = false;
+          return [`${name}: completes it to ${betTo}${allIn}`];
+        }
+        return [`${name}: raises ${betTo - previous} to ${betTo}${allIn}`];
+      }
+      case 'DRAW':
+      case 'VANISH': {
+        const discarded = a.cards || [];
+        if (discarded.length === 0) return [`${name}: stands pat`];
+        const isViewer = a.playerId === viewer?.playerId;
+        const result = [`${name}: discards ${discarded.length} card${discarded.length > 1 ? 's' : ''}` +
+          (isViewer ? ` ${cardList(discarded)}` : '')];
+        if (isViewer) {
+          const kept = viewerHand.filter(card => !discarded.includes(card));
+          viewerHand = [...kept, ...(a.received || [])];
+          if (a.type === 'DRAW') result.push(`Dealt to ${name} ${cardList(kept)} ${cardList(a.received || [])}`);
+        }
+        return result;
+      }
+      default:
+        return [];
+    }
+  };
+
+  for (const [streetIdx, street] of streets.entries()) {
+    const streetActions = history.actions.filter(a => a.street === street);
+    const forced = streetIdx === 0 ? streetActions.filter(a => FORCED_BET_TYPES.includes(a.type)) : [];
+    const regular = streetActions.filter(a => !forced.includes(a));
+
+    if (streetIdx > 0) {
+      level = 0;
+      bringInOpen = false;
+    }
+    for (const a of forced) lines.push(...actionLine(a));
+    lines.push(...streetHeader(street, regular.length > 0));
+    for (const a of regular) lines.push(...actionLine(a));
+  }
+
+  // ---- 返還・ショーダウン・回収 ----
+  const contributions = [...liveContrib.entries()].sort((a, b) => b[1] - a[1]);
+  let uncalled: { playerId: string; amount: number } | null = null;
+  if (contributions.length > 0 && contributions[0][1] > (contributions[1]?.[1] ?? 0)) {
+    uncalled = { playerId: contributions[0][0], amount: contributions[0][1] - (contributions[1]?.[1] ?? 0) };
+    lines.push(`Uncalled bet (${uncalled.amount}) returned to ${nameOf(uncalled.playerId)}`);
+  }
+
+  const wonAmount = (p: HandHistoryPlayer) =>
+    Math.max(0, p.amountWon - (uncalled?.playerId === p.playerId ? uncalled.amount : 0));
+
+  const remaining = players.filter(p => !foldStreet.has(p.playerId));
+  if (remaining.length >= 2) {
+    lines.push('*** SHOW DOWN ***');
+    for (const p of remaining) {
+      lines.push(p.shownCards
+        ? `${p.name}: shows ${cardList(p.shownCards)}${p.handRank ? ` (${p.handRank})` : ''}`
+        : `${p.name}: mucks hand`);
+    }
+  }
+  for (const p of players) {
+    const won = wonAmount(p);
+    if (won > 0) lines.push(`${p.name} collected ${won} from pot`);
+  }
+
+  // ---- サマリー ----
+  const totalPot = [...totalContrib.values()].reduce((sum, n) => sum + n, 0) - (uncalled?.amount ?? 0);
+  const contestedPots = history.pots.filter(pot => pot.eligiblePlayers.length > 1);
+  const potBreakdown = contestedPots.length > 1
+    ? ` Main pot ${contestedPots[0].amount}.` + contestedPots.slice(1).map((pot, i) => ` Side pot-${i + 1} ${pot.amount}.`).join('')
+    : '';
+
+  lines.push('*** SUMMARY ***');
+  lines.push(`Total pot ${totalPot}${potBreakdown} | Rake ${history.rake}`);
+  if (family === 'flop') {
+    if (history.runBoards && history.runBoards.length > 1) {
+      lines.push(`Hand was run ${history.runBoards.length === 2 ? 'twice' : `${history.runBoards.length} times`}`);
+      history.runBoards.forEach((board, i) => lines.push(`${RUN_LABELS[i] ?? `RUN ${i + 1}`} Board ${cardList(board)}`));
+    } else if (history.board.length > 0) {
+      lines.push(history.board2 ? `FIRST Board ${cardList(history.board)}` : `Board ${cardList(history.board)}`);
+      if (history.board2) lines.push(`SECOND Board ${cardList(history.board2)}`);
+    }
+  }
+
+  for (const p of players) {
+    const tags = [
+      history.buttonSeat === p.seatIndex ? 'button' : null,
+      positions.get(p.playerId) ?? null,
+    ].filter(Boolean);
+    const label = `Seat ${p.seatIndex + 1}: ${p.name}${tags.length > 0 ? ` (${tags.join(') (')})` : ''}`;
+    const won = wonAmount(p);
+    const folded = foldStreet.get(p.playerId);
+
+    if (folded) {
+      const didntBet = (liveContrib.get(p.playerId) || 0) === 0 ? " (didn't bet)" : '';
+      lines.push(`${label} folded ${FOLD_LABELS[folded] ?? `on ${folded}`}${didntBet}`);
+    } else if (p.shownCards) {
+      const rank = p.handRank ? ` with ${p.handRank}` : '';
+      lines.push(won > 0
+        ? `${label} showed ${cardList(p.shownCards)} and won (${won})${rank}`
+        : `${label} showed ${cardList(p.shownCards)} and lost${rank}`);
+    } else if (won > 0) {
+      lines.push(`${label} collected (${won})`);
+    } else {
+      lines.push(`${label} mucked`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 複数ハンドを1ファイルにまとめる（PokerStars と同じく空行3つで区切る）
+ * OFC等エクスポート非対応のハンドは除外する
+ */
+export function formatPokerStarsHands(hands: { id: string; history: HandHistory; viewerPlayerId?: string }[]): string {
+  return hands
+    .filter(h => h.history.gameVariant !== 'OFC')
+    .map(h => formatPokerStarsHand(h.history, h.id, h.viewerPlayerId))
+    .join('\n\n\n\n') + '\n';
+}
@@ -16,38 +16,80 @@ const __dirname = path.dirname(__filename);
 import { evaluateHand, compareHands } from './handEvaluator.js';
 import { roomManager } from './RoomManager.js';
 import { GameEngine } from './GameEngine.js';
-import { ShowdownManager } from './ShowdownManager.js';
+import { ShowdownManager, type ShowdownResult } from './ShowdownManager.js';
 import { ActionValidator } from './ActionValidator.js';
-import { Dealer } from './Dealer.js';
 import type {
   JoinRoomRequest,
   SitDownRequest,
   Player as RoomPlayer,
   PlayerStatus,
   ActionType,
-  RoomConfig
+  RoomConfig,
+  RakePolicy,
+  HandHistory,
+  ChatMessage,
+  Room,
+  BlindLevel,
+  MultiTableTournamentState,
+  BotStyle
 } from './types.js';
+import { parseDeckSource } from './fairness/DeckProvider.js';
 import { RotationManager } from './RotationManager.js';
 import { MetaGameManager } from './MetaGameManager.js';
 import { PotManager } from './PotManager.js';
-import { getVariantConfig } from './gameVariants.js';
+import { getVariantConfig, applyGameId, parseGameId, isValidGameId } from './gameVariants.js';
 import { logEvent, incrementMetric } from './logger.js';
 import authRoutes from './auth/authRoutes.js';
+import botKeyRoutes from './auth/botKeyRoutes.js';
 import statsRoutes from './stats/statsRoutes.js';
+import walletRoutes from './wallet/walletRoutes.js';
+import equityRoutes from './equity/equityRoutes.js';
+import handHistoryRoutes from './history/handHistoryRoutes.js';
+import fairnessRoutes from './fairness/fairnessRoutes.js';
+import { EquityCalculator } from './equity/EquityCalculator.js';
 import { verifyToken } from './auth/authService.js';
+import { verifyBotApiKey } from './auth/botApiKeyService.js';
 import { findRandomEmptySeat } from './autoSeating.js';
 import {
   startSession, recordAddOn, endSession,
-  recordHandResult, migrateSession, hasActiveSession
+  recordHandResult, recordRake, migrateSession, hasActiveSession
 } from './stats/sessionTracker.js';
+import { accountForPlayer, chipsOnTable } from './wallet/ledger.js';
+import { createRoomSnapshot, restoreRoomFromSnapshot } from './persistence/roomSnapshot.js';
+import { saveRoomSnapshots, loadRoomSnapshots } from './persistence/roomSnapshotStore.js';
+import {
+  buyIn, houseBuyIn, cashOut, collectRake, adjustTable, payPrize,
+  reconcileTable, findUnsettledTables, settleTable
+} from './wallet/walletService.js';
+import {
+  advanceLevel, canStart, eliminateBustedPlayers, levelConfig,
+  registerEntry, resetTournament, startTournament, unregisterEntry
+} from './tournament/sitAndGo.js';
+import { saveTournamentResult } from './tournament/tournamentStore.js';
+import { isMultiTableTournament, mttCoordinator, type SeatMove } from './tournament/MttCoordinator.js';
 import { OFCGameEngine } from './OFCGameEngine.js';
+import { buildHandHistory } from './history/handHistoryBuilder.js';
+import { saveHandHistory } from './history/handHistoryStore.js';
+import { chatManager, createWordFilter } from './chat/ChatManager.js';
+import {
+  describeShowdown, describeWinners, describeNextGame, describeConfigApplied,
+  describeTournamentStart, describeBlindLevel, describePlacement,
+  describePlayerMoved, describeTableBroken, describeHandForHand, describeFinalTable
+} from './chat/dealerMessages.js';
 import type { OFCPlacement } from './types.js';
 import { botPlaceInitial, botPlacePineapple, botPlaceFantasyland, getOFCBotStatus, OFC_BOT_VERSION, OFC_MODEL_VERSION } from './OFCBot.js';
+import { HeuristicBot, isBotStyle } from './bots/HeuristicBot.js';
+import {
+  BOT_PROTOCOL_VERSION, isSupportedProtocolVersion, buildTableView, buildActionRequest,
+  buildDrawRequest, buildVanishRequest, parseBotDecision,
+  type BotDecision, type BotDecisionKind, type BotHello
+} from './bots/botProtocol.js';
 
 // Phase 3-B: ゲームエンジンインスタンス（部屋ごとに管理）
 const gameEngines: Map<string, GameEngine> = new Map();
 const ofcEngines: Map<string, OFCGameEngine> = new Map();
 const showdownManager = new ShowdownManager();
+const equityCalculator = new EquityCalculator();
 const actionValidator = new ActionValidator();
 const metaGameManager = new MetaGameManager();
 const rotationManager = new RotationManager();
@@ -57,6 +99,7 @@ const actionInFlight: Set<string> = new Set(); // playerId in progress
 const roomActionInFlight: Set<string> = new Set(); // roomId in progress
 const invalidActionCounts: Map<string, { count: number; lastAt: number }> = new Map();
 const actionRateLimit: Map<string, { count: number; windowStart: number }> = new Map();
+const chatRateLimit: Map<string, { count: number; windowStart: number }> = new Map();
 
 // タイマー管理
 interface PlayerTimer {
@@ -79,17 +122,112 @@ const AUTO_START_DELAY_MS = 2000;
 const ACTION_TOKEN_TTL_MS = 35000;
 const ACTION_RATE_LIMIT_WINDOW_MS = 2000;
 const ACTION_RATE_LIMIT_MAX = 6;
+const MAX_CLIENT_SEED_LENGTH = 64; // Provably Fair: クライアントシードの最大長
+const MAX_SPECTATOR_HOLE_CARD_DELAY = 600; // 観戦者への手札公開ディレイの上限（秒）
+const STRADDLE_POLICIES = ['none', 'utg', 'button', 'mississippi'];
+const ANTE_TYPES = ['blind', 'ante', 'bb-ante', 'button-ante'];
+const MAX_STRADDLES_LIMIT = 7; // 連続ストラドルの上限設定の最大値（8人卓でBB以外の全員）
+const CHAT_RATE_LIMIT_WINDOW_MS = 10000;
+const CHAT_RATE_LIMIT_MAX = 5;
+
+// チャットの禁止語（カンマ区切り）
+chatManager.setFilter(createWordFilter((process.env.CHAT_BLOCKED_WORDS || '').split(',')));
 
 // 自動ゲーム開始管理
 const pendingStarts: Map<string, NodeJS.Timeout> = new Map();
 
+// Run it Twice/3 Times 投票管理
+interface RunItVote {
+  voters: string[];
+  maxRuns: number;
+  votes: Map<string, number>;
+  finish: () => void;
+}
+const runItVotes: Map<string, RunItVote> = new Map(); // roomId -> vote
+const RUN_IT_MAX_RUNS = 3;
+const RUN_IT_VOTE_TIMEOUT_MS = 8000;
+// ランアウト表示用エクイティの試行回数（イベントループを長く止めないよう控えめに）
+const RUNOUT_EQUITY_ITERATIONS = 500;
+// ルームスナップショット: 変更後にまとめて保存する遅延と定期保存の間隔
+const ROOM_SNAPSHOT_DEBOUNCE_MS = 1000;
+const ROOM_SNAPSHOT_INTERVAL_MS = 30000;
+// 復元した席を resumeToken で取り戻せる猶予（過ぎたらキャッシュアウトして席を空ける）
+const RESTORED_SEAT_GRACE_MS = 5 * 60 * 1000;
+
+// 復元が終わるまでは保存しない（空の部屋一覧で既存のスナップショットを消さないため）
+let roomSnapshotsEnabled = false;
+let roomSnapshotTimer: ReturnType<typeof setTimeout> | null = null;
+let roomSnapshotWrite: Promise<void> = Promise.resolve();
+// roomId → 復元時の（まだ戻っていない）プレイヤーのsocketId
+const restoredSeats: Map<string, Set<string>> = new Map();
+
+// Sit & Go: 終了後、結果を見せてから次の大会の登録受付に戻すまで
+const TOURNAMENT_RESET_DELAY_MS = 30000;
+const tournamentLevelTimers: Map<string, ReturnType<typeof setTimeout>> = new Map(); // roomId（マルチテーブルは大会ID） -> 次のレベルへのタイマー
+
+// ヒューリスティックBOT（OFC以外）: 考える時間（最小 + ランダム幅）
+const BOT_THINK_MIN_MS = 800;
+const BOT_THINK_JITTER_MS = 1200;
+const botTimers: Map<string, ReturnType<typeof setTimeout>> = new Map(); // botId -> 次のアクション/ドロー
+
+// 外部BOT API: 1回の判断の持ち時間（タイムバンクなし、過ぎたらチェック/フォールド・スタンドパット）
+const BOT_DECISION_TIMEOUT_MS = Number(process.env.BOT_DECISION_TIMEOUT_MS) || 5000;
+interface PendingBotDecision {
+  decisionId: string;
+  kind: BotDecisionKind;
+  roomId: string;
+  timer: ReturnType<typeof setTimeout>;
+}
+const botDecisions: Map<string, PendingBotDecision> = new Map(); // socketId -> 回答待ちの判断
+
 function cleanupSocketSession(socketId: string) {
   clearPlayerTimer(socketId);
   actionTokens.delete(socketId);
   actionInFlight.delete(socketId);
   invalidActionCounts.delete(socketId);
   actionRateLimit.delete(socketId);
+  chatRateLimit.delete(socketId);
   playerTimeBanks.delete(socketId);
+  clearBotDecision(socketId);
+}
+
+/**
+ * 卓からプレイヤーを外す直前に呼ぶ: セッション終了と台帳へのキャッシュアウト
+ * ハンド中に退出したプレイヤーは、実際に外す時点（cleanupPendingLeavers）の最終スタックで精算する
+ * Sit & Go の賞金は順位の確定時（advanceTournament）に支払う
+ */
+function settlePlayer(roomId: string, player: RoomPlayer) {
+  const tournament = roomManager.getRoomById(roomId)?.tournament;
+  if (tournament) {
+    // Sit & Go: 開始前の取り消しは参加費を返金（開始後のチップはトーナメントチップなので精算しない）
+    if (tournament.status === 'REGISTERING') {
+      unregisterEntry(tournament);
+      cashOut(accountForPlayer(player), roomId, tournament.config.buyIn);
+    }
+    return;
+  }
+  if (hasActiveSession(player.socketId)) {
+    endSession(player.socketId, player.stack);
+  }
+  cashOut(accountForPlayer(player), roomId, player.stack);
+}
+
+/**
+ * 卓上のチップと台帳の table 口座を突き合わせる（部屋が無ければ0であるべき）
+ * マルチテーブルの卓は大会IDの口座（全卓で1つの賞金プール）と突き合わせる
+ */
+function reconcileChips(roomId: string) {
+  const tournament = roomManager.getRoomById(roomId)?.tournament;
+  const ledgerRoomId = isMultiTableTournament(tournament) ? tournament.id : roomId;
+  void reconcileTable(ledgerRoomId, () => {
+    const room = roomManager.getRoomById(roomId);
+    return room ? chipsOnTable(room) : 0;
+  }).then(diff => {
+    if (diff !== 0) {
+      logEvent('ledger_mismatch', { roomId: ledgerRoomId, diff });
+      incrementMetric('ledger_mismatch');
+    }
+  });
 }
 
 function cleanupPendingLeavers(roomId: string, io: Server): boolean {
@@ -100,12 +238,14 @@ function cleanupPendingLeavers(roomId: string, io: Server): boolean {
   room.players.forEach((player, index) => {
     if (player?.pendingLeave) {
       cleanupSocketSession(player.socketId);
+      settlePlayer(roomId, player);
       room.players[index] = null;
       removed = true;
     }
   });
 
   if (removed) {
+    releaseBotsWithoutHumans(roomId, room);
     const allEmpty = room.players.every(p => p === null);
     if (allEmpty && !room.isPreset) {
       roomManager.deleteRoom(roomId);
@@ -195,8 +335,8 @@ function handleTimerTimeout(roomId: string, playerId: string, io: Server) {
 
   console.log(`⏰ Timer timeout for ${player.name} - Count: ${timeoutCount}/${MAX_CONSECUTIVE_TIMEOUTS}`);
 
-  // 3回連続タイムアウトでSIT_OUTに設定
-  if (timeoutCount >= MAX_CONSECUTIVE_TIMEOUTS) {
+  // 3回連続タイムアウトでSIT_OUTに設定（Sit & Go は席に残してブラインドを払い続ける）
+  if (timeoutCount >= MAX_CONSECUTIVE_TIMEOUTS && !room.tournament) {
     console.log(`🚫 ${player.name} auto sit-out due to ${timeoutCount} consecutive timeouts`);
     player.pendingSitOut = true;
     // ハンド後にSIT_OUTになる（現在のハンドは最後まで処理する）
@@ -245,6 +385,26 @@ function issueActionToken(playerId: string): string {
 }
 
 function emitYourTurn(roomId: string, room: any, engine: GameEngine, io: Server, player: any) {
+  // ドロー・カード消失フェーズの開始: BOTは手番に関係なく全員交換する
+  if (room.gameState.isDrawPhase) {
+    scheduleBotDraws(roomId, room, io);
+    requestApiBotDraws(roomId, room, io);
+  }
+  // BOTにはソケットもタイマーもない（ドロー中の手番はドロー完了後にもう一度回ってくる）
+  if (player.botStyle) {
+    if (!room.gameState.isDrawPhase) {
+      scheduleBotAction(roomId, player.socketId, io);
+    }
+    return;
+  }
+  // 外部BOTには your-turn の代わりに判断を依頼する（持ち時間は BOT_DECISION_TIMEOUT_MS）
+  if (player.apiBot) {
+    if (!room.gameState.isDrawPhase) {
+      requestApiBotAction(roomId, room, engine, io, player);
+    }
+    return;
+  }
+
   const validActions = engine.getValidActions(room, player.socketId);
   const bettingInfo = engine.getBettingInfo(room, player.socketId);
   const actionToken = issueActionToken(player.socketId);
@@ -267,6 +427,25 @@ function emitYourTurn(roomId: string, room: any, engine: GameEngine, io: Server,
   io.to(player.socketId).emit('timebank-update', { chips: timeBankChips });
 }
 
+// ハンド履歴を保存（分配直後、次のハンド開始前に呼ぶ）
+function recordHandHistory(roomId: string, room: any, showdownResult: ShowdownResult, io: Server) {
+  const engine = gameEngines.get(roomId);
+  if (!engine) return;
+  try {
+    const pots = potManager.calculatePots(room.players);
+    const history = attachHandChat(room, buildHandHistory(room, engine.getHandRecord(), showdownResult, pots));
+    void saveHandHistory(history);
+  } catch (error) {
+    console.error('❌ Failed to build hand history:', error);
+  }
+}
+
+// ハンド中のチャットを履歴に含める（recordChat が無効な部屋では破棄）
+function attachHandChat(room: any, history: HandHistory): HandHistory {
+  const chat = chatManager.takeHandMessages(room.id);
+  return room.config.recordChat && chat.length > 0 ? { ...history, chat } : history;
+}
+
 // アクション後の共通処理
 function processPostAction(roomId: string, room: any, engine: GameEngine, io: Server) {
   // ショーダウンチェック
@@ -289,14 +468,23 @@ function processPostAction(roomId: string, room: any, engine: GameEngine, io: Se
       showdownResult = showdownManager.executeShowdown(room);
     }
 
-    io.to(`room:${roomId}`).emit('showdown-result', showdownResult);
+    emitToTable(roomId, io, 'showdown-result', showdownResult);
+
+    announceShowdown(roomId, io, showdownResult);
+
+    // セッション追跡: レーキ負担額
+    if (showdownResult.rakeContributions) {
+      recordRake(showdownResult.rakeContributions);
+    }
+    collectRake(roomId, showdownResult.rake ?? 0);
+    recordHandHistory(roomId, room, showdownResult, io);
 
     // 7-2ボーナスチェック
     if (showdownResult.winners.length > 0) {
       for (const winner of showdownResult.winners) {
         const bonus = metaGameManager.checkSevenDeuce(room, winner.playerId, winner.hand);
         if (bonus) {
-          io.to(`room:${roomId}`).emit('seven-deuce-bonus', bonus);
+          emitToTable(roomId, io, 'seven-deuce-bonus', bonus);
         }
       }
     }
@@ -304,8 +492,10 @@ function processPostAction(roomId: string, room: any, engine: GameEngine, io: Se
     // ローテーションチェック
     const rotation = rotationManager.checkRotation(room);
     if (rotation.changed) {
-      io.to(`room:${roomId}`).emit('next-game', {
+      emitDealerMessage(roomId, io, describeNextGame(rotation.nextGame));
+      emitToTable(roomId, io, 'next-game', {
         nextGame: rotation.nextGame,
+        betStructure: getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure).betStructure,
         gamesList: room.rotation.gamesList
       });
     }
@@ -359,6 +549,14 @@ function scheduleNextHand(roomId: string, io: Server) {
     return;
   }
 
+  // ハンド間に卓上のチップと台帳を突き合わせる
+  reconcileChips(roomId);
+
+  // Sit & Go: 飛んだプレイヤーを敗退させる（登録中・終了後はハンドを始めない）
+  if (room.tournament && !advanceTournament(roomId, room, io)) {
+    return;
+  }
+
   // OFC初回は手動開始（Add Bot / Start Game ボタン）
   // 2ハンド目以降（ofcState存在時）は自動開始
   if (room.gameState.gameVariant === 'OFC' && !room.ofcState) {
@@ -391,6 +589,12 @@ function scheduleNextHand(roomId: string, io: Server) {
     return;
   }
 
+  // BOTは人間の相手をするだけ（人間が全員シットアウト中ならBOT同士では配らない）
+  if (activePlayers.every(p => p!.botStyle)) {
+    console.log('⚠️  scheduleNextHand: only bots are ready - waiting for a human player');
+    return;
+  }
+
   console.log(`✅ scheduleNextHand: ${activePlayers.length} players ready, scheduling game start in 2 seconds...`);
 
   const timeout = setTimeout(() => {
@@ -407,18 +611,15 @@ function scheduleNextHand(roomId: string, io: Server) {
     if (readyPlayers.length < 2) return;
 
     // GameEngineを取得または作成
-    let engine = gameEngines.get(roomId);
-    if (!engine) {
-      engine = new GameEngine();
-      gameEngines.set(roomId, engine);
-    }
+    const engine = getGameEngine(roomId);
 
     // 保留設定を適用（次ハンド開始前）
     if (currentRoom.pendingConfig) {
       const applied = roomManager.applyPendingConfig(roomId);
       if (applied) {
         currentRoom.gameState.minRaise = currentRoom.config.bigBlind;
-        io.to(`room:${roomId}`).emit('config-applied', {
+        emitDealerMessage(roomId, io, describeConfigApplied(currentRoom.config));
+        emitToTable(roomId, io, 'config-applied', {
           config: currentRoom.config,
           rotation: currentRoom.rotation,
           gameVariant: currentRoom.gameState.gameVariant,
@@ -453,6 +654,7 @@ function scheduleNextHand(roomId: string, io: Server) {
         });
       }
     }
+    broadcastSpectatorState(roomId, currentRoom, io);
 
     // アクティブプレイヤーに行動を促す
     const activePlayer = currentRoom.players[currentRoom.activePlayerIndex];
@@ -468,6 +670,370 @@ function scheduleNextHand(roomId: string, io: Server) {
   pendingStarts.set(roomId, timeout);
 }
 
+// ========================================
+// Sit & Go
+// ========================================
+
+/**
+ * 満席になったら開始: 賞金を確定して最初のレベルから
+ */
+function startSitAndGo(roomId: string, room: Room, io: Server) {
+  const tournament = room.tournament!;
+  startTournament(room, Date.now());
+  console.log(`🏁 Sit & Go started in room ${roomId} (${tournament.entrants} players, prize pool ${tournament.prizePool})`);
+  logEvent('tournament_started', { roomId, tournamentId: tournament.id, entrants: tournament.entrants });
+  incrementMetric('tournament_started');
+
+  emitDealerMessage(roomId, io, describeTournamentStart(tournament.entrants, tournament.prizePool));
+  broadcastRoomState(roomId, room, io);
+  io.to('lobby').emit('room-list-update', roomManager.getAllRooms());
+  scheduleTournamentLevel(roomId, io);
+  scheduleNextHand(roomId, io);
+}
+
+/**
+ * レベルの終了時刻にブラインドを上げる（次のハンド開始時に保留設定として適用）
+ */
+function scheduleTournamentLevel(roomId: string, io: Server) {
+  clearTournamentLevelTimer(roomId);
+  const tournament = roomManager.getRoomById(roomId)?.tournament;
+  if (tournament?.status !== 'RUNNING' || tournament.levelEndsAt === null) return;
+
+  const timer = setTimeout(() => {
+    tournamentLevelTimers.delete(roomId);
+    const room = roomManager.getRoomById(roomId);
+    if (room?.tournament?.status !== 'RUNNING') return;
+
+    const level = advanceLevel(room.tournament, Date.now());
+    console.log(`⏫ Sit & Go ${roomId}: level ${room.tournament.levelIndex + 1} (${level.smallBlind}/${level.bigBlind})`);
+    raiseTableBlinds(roomId, room, level, io);
+    scheduleTournamentLevel(roomId, io);
+  }, Math.max(0, tournament.levelEndsAt - Date.now()));
+  tournamentLevelTimers.set(roomId, timer);
+}
+
+/**
+ * 卓のブラインドを次のハンドから上げる（保留設定）
+ */
+function raiseTableBlinds(roomId: string, room: Room, level: BlindLevel, io: Server) {
+  room.pendingConfig = {
+    ...room.pendingConfig,
+    config: { ...room.pendingConfig?.config, ...levelConfig(level) },
+    requestedBy: 'tournament',
+    requestedAt: Date.now()
+  };
+  emitDealerMessage(roomId, io, describeBlindLevel(room.tournament!.levelIndex + 1, level));
+  broadcastRoomState(roomId, room, io);
+}
+
+function clearTournamentLevelTimer(roomId: string) {
+  const timer = tournamentLevelTimers.get(roomId);
+  if (timer) {
+    clearTimeout(timer);
+    tournamentLevelTimers.delete(roomId);
+  }
+}
+
+/**
+ * ハンド間に呼ぶ: 飛んだプレイヤーの順位を確定して賞金を支払う
+ * @returns 次のハンドを始めてよければ true（登録中・終了時は false）
+ */
+function advanceTournament(roomId: string, room: Room, io: Server): boolean {
+  const tournament = room.tournament!;
+  if (tournament.status !== 'RUNNING') return false;
+  if (isMultiTableTournament(tournament)) {
+    return advanceMultiTable(roomId, io);
+  }
+
+  const placements = eliminateBustedPlayers(room, Date.now());
+  for (const placement of placements) {
+    payPrize(accountForPlayer(placement), roomId, placement.prize);
+    emitDealerMessage(roomId, io, describePlacement(placement));
+    console.log(`🎖️  ${placement.name} finished ${placement.place} in room ${roomId} (prize ${placement.prize})`);
+  }
+  if (placements.length > 0) {
+    broadcastRoomState(roomId, room, io);
+    io.to('lobby').emit('room-list-update', roomManager.getAllRooms());
+  }
+
+  // 優勝が確定したら終了
+  if (placements.some(p => p.place === 1)) {
+    finishTournament(roomId, room);
+    setTimeout(() => resetSitAndGo(roomId, io), TOURNAMENT_RESET_DELAY_MS);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 終了: 結果をDBに保存
+ */
+function finishTournament(roomId: string, room: Room) {
+  const tournament = room.tournament!;
+  clearTournamentLevelTimer(roomId);
+  const gamesList = room.rotation.enabled ? room.rotation.gamesList : [room.gameState.gameVariant];
+  void saveTournamentResult(roomId, room.displayName ?? roomId, gamesList, tournament);
+  console.log(`🏆 Sit & Go ${tournament.id} finished in room ${roomId}`);
+  logEvent('tournament_finished', { roomId, tournamentId: tournament.id, entrants: tournament.entrants });
+  incrementMetric('tournament_finished');
+}
+
+/**
+ * 終了した卓を次の大会の登録受付に戻す
+ */
+function resetSitAndGo(roomId: string, io: Server) {
+  const room = roomManager.getRoomById(roomId);
+  if (room?.tournament?.status !== 'FINISHED') return;
+
+  for (const player of room.players) {
+    if (player) cleanupSocketSession(player.socketId);
+  }
+  resetTournament(room);
+  console.log(`🔁 Sit & Go ${roomId} is open for registration`);
+  broadcastRoomState(roomId, room, io);
+  io.to('lobby').emit('room-list-update', roomManager.getAllRooms());
+}
+
+/**
+ * 起動時: 復元した Sit & Go を再開（終了済みなら次の大会へ）
+ */
+function resumeSitAndGo(roomId: string, io: Server) {
+  const tournament = roomManager.getRoomById(roomId)?.tournament;
+  if (isMultiTableTournament(tournament)) return;
+  if (tournament?.status === 'RUNNING') {
+    scheduleTournamentLevel(roomId, io);
+    scheduleNextHand(roomId, io);
+  } else if (tournament?.status === 'FINISHED') {
+    resetSitAndGo(roomId, io);
+  }
+}
+
+// ========================================
+// Multi-table tournaments
+// ========================================
+
+function broadcastTournamentList(io: Server) {
+  io.to('lobby').emit('tournament-list-update', mttCoordinator.getListItems());
+  io.to('lobby').emit('room-list-update', roomManager.getAllRooms());
+}
+
+/**
+ * 定員に達したら開始: 卓を作って登録者を座らせ、ソケットを各卓へ移す
+ * 切断中の登録者は切断中として着席（戻らなければブラインドで削られて敗退する）
+ */
+function startMultiTable(tournamentId: string, io: Server) {
+  const tables = mttCoordinator.start(tournamentId, Date.now());
+  const tournament = mttCoordinator.getTournament(tournamentId)!;
+  logEvent('tournament_started', { tournamentId, entrants: tournament.entrants, tables: tables.length });
+  incrementMetric('tournament_started');
+
+  for (const room of tables) {
+    for (const player of room.players) {
+      if (!player) continue;
+      const socket = io.sockets.sockets.get(player.socketId);
+      if (!socket) {
+        player.disconnected = true;
+        continue;
+      }
+      stopSpectating(socket, io);
+      const existingRoomId = getRoomIdFromSocket(socket);
+      if (existingRoomId) {
+        handleRoomExit(socket, existingRoomId, io);
+      }
+      seatSocketAtTable(socket, room);
+    }
+    emitDealerMessage(room.id, io, describeTournamentStart(tournament.entrants, tournament.prizePool));
+    broadcastRoomState(room.id, room, io);
+  }
+
+  broadcastTournamentList(io);
+  scheduleMultiTableLevel(tournamentId, io);
+  for (const room of tables) {
+    scheduleNextHand(room.id, io);
+  }
+}
+
+/**
+ * ソケットを卓の Socket.IO ルームに入れて、クライアントに卓の切り替えを伝える
+ */
+function seatSocketAtTable(socket: any, room: Room) {
+  socket.join(`room:${room.id}`);
+  (socket.data as any).roomId = room.id;
+  socket.leave('lobby');
+  socket.emit('table-moved', {
+    room: sanitizeRoomForViewer(room, socket.id),
+    yourSocketId: socket.id
+  });
+}
+
+/**
+ * 卓の移動: プレイヤーのソケットを移動先の卓へ（resumeToken はそのまま）
+ */
+function moveTournamentPlayer(move: SeatMove, io: Server) {
+  const toRoom = roomManager.getRoomById(move.toRoomId)!;
+  const text = describePlayerMoved(move.player.name, toRoom.displayName ?? toRoom.id);
+  if (roomManager.getRoomById(move.fromRoomId)) {
+    emitDealerMessage(move.fromRoomId, io, text);
+  }
+  emitDealerMessage(move.toRoomId, io, text);
+
+  const socket = io.sockets.sockets.get(move.player.socketId);
+  if (!socket || move.player.disconnected) return;
+  socket.leave(`room:${move.fromRoomId}`);
+  seatSocketAtTable(socket, toRoom);
+}
+
+/**
+ * マルチテーブルの卓のハンド間: 順位の確定と賞金の支払い・卓の移動・他の卓の再開
+ * @returns この卓の次のハンドを始めてよければ true
+ */
+function advanceMultiTable(roomId: string, io: Server): boolean {
+  const step = mttCoordinator.handFinished(roomId, Date.now());
+  const tournament = step.tournament;
+  if (!tournament) return false;
+
+  for (const { roomId: tableId, placement } of step.eliminations) {
+    payPrize(accountForPlayer(placement), tournament.id, placement.prize);
+    emitDealerMessage(tableId, io, describePlacement(placement));
+    console.log(`🎖️  ${placement.name} finished ${placement.place} in ${tournament.name} (prize ${placement.prize})`);
+  }
+
+  for (const { roomId: tableId } of step.brokenTables) {
+    const pending = pendingStarts.get(tableId);
+    if (pending) {
+      clearTimeout(pending);
+      pendingStarts.delete(tableId);
+    }
+    gameEngines.delete(tableId);
+    roomActionInFlight.delete(tableId);
+  }
+  for (const move of step.moves) {
+    moveTournamentPlayer(move, io);
+  }
+  for (const broken of step.brokenTables) {
+    const destinations = new Set(step.moves.filter(m => m.fromRoomId === broken.roomId).map(m => m.toRoomId));
+    destinations.forEach(id => emitDealerMessage(id, io, describeTableBroken(broken.displayName)));
+  }
+
+  const playersLeft = mttCoordinator.playersLeft(tournament);
+  if (step.handForHandStarted) {
+    console.log(`⏸️  ${tournament.name}: hand-for-hand (${playersLeft} left)`);
+    tournament.tableIds.forEach(id => emitDealerMessage(id, io, describeHandForHand(playersLeft)));
+  }
+  if (step.finalTableId) {
+    console.log(`🏁 ${tournament.name}: final table ${step.finalTableId}`);
+    emitDealerMessage(step.finalTableId, io, describeFinalTable(playersLeft));
+  }
+
+  const changed = step.eliminations.length > 0 || step.moves.length > 0 || step.handForHandStarted;
+  if (changed) {
+    for (const id of tournament.tableIds) {
+      broadcastRoomState(id, roomManager.getRoomById(id), io);
+    }
+    broadcastTournamentList(io);
+  }
+
+  if (step.finished) {
+    finishMultiTable(tournament, io);
+    return false;
+  }
+  for (const id of step.startTableIds) {
+    if (id !== roomId) scheduleNextHand(id, io);
+  }
+  return step.startTableIds.includes(roomId);
+}
+
+/**
+ * 大会のレベルの終了時刻に全卓のブラインドを上げる
+ */
+function scheduleMultiTableLevel(tournamentId: string, io: Server) {
+  clearTournamentLevelTimer(tournamentId);
+  const tournament = mttCoordinator.getTournament(tournamentId);
+  if (tournament?.status !== 'RUNNING' || tournament.levelEndsAt === null) return;
+
+  const timer = setTimeout(() => {
+    tournamentLevelTimers.delete(tournamentId);
+    if (tournament.status !== 'RUNNING') return;
+
+    const level = advanceLevel(tournament, Date.now());
+    console.log(`⏫ ${tournament.name}: level ${tournament.levelIndex + 1} (${level.smallBlind}/${level.bigBlind})`);
+    for (const id of tournament.tableIds) {
+      const room = roomManager.getRoomById(id);
+      if (room) raiseTableBlinds(id, room, level, io);
+    }
+    io.to('lobby').emit('tournament-list-update', mttCoordinator.getListItems());
+    scheduleMultiTableLevel(tournamentId, io);
+  }, Math.max(0, tournament.levelEndsAt - Date.now()));
+  tournamentLevelTimers.set(tournamentId, timer);
+}
+
+/**
+ * 終了: 結果をDBに保存し、結果を見せてから卓を閉じて次の大会の登録を開く
+ */
+function finishMultiTable(tournament: MultiTableTournamentState, io: Server) {
+  clearTournamentLevelTimer(tournament.id);
+  void saveTournamentResult(tournament.presetId, tournament.name, tournament.config.gamesList, tournament);
+  console.log(`🏆 ${tournament.name} (${tournament.id}) finished`);
+  logEvent('tournament_finished', { tournamentId: tournament.id, entrants: tournament.entrants });
+  incrementMetric('tournament_finished');
+  broadcastTournamentList(io);
+  setTimeout(() => closeMultiTable(tournament.id, io), TOURNAMENT_RESET_DELAY_MS);
+}
+
+function closeMultiTable(tournamentId: string, io: Server) {
+  const tournament = mttCoordinator.getTournament(tournamentId);
+  if (tournament?.status !== 'FINISHED') return;
+
+  for (const id of tournament.tableIds) {
+    emitToTable(id, io, 'tournament-closed', { tournamentId });
+    for (const player of roomManager.getRoomById(id)?.players ?? []) {
+      if (!player) continue;
+      cleanupSocketSession(player.socketId);
+      const socket = io.sockets.sockets.get(player.socketId);
+      if (socket) {
+        socket.leave(`room:${id}`);
+        delete (socket.data as any).roomId;
+      }
+    }
+  }
+  for (const id of mttCoordinator.close(tournamentId)) {
+    gameEngines.delete(id);
+    roomActionInFlight.delete(id);
+  }
+  mttCoordinator.openPresets();
+  broadcastTournamentList(io);
+}
+
+/**
+ * 切断時: 開始前の登録を取り消して参加費を返金（Sit & Go の卓を離れた場合と同じ）
+ */
+function cancelTournamentRegistrations(socketId: string, io: Server) {
+  let cancelled = false;
+  for (const tournament of mttCoordinator.list()) {
+    if (tournament.status !== 'REGISTERING') continue;
+    const player = mttCoordinator.unregister(tournament.id, socketId);
+    if (player) {
+      cashOut(accountForPlayer(player), tournament.id, tournament.config.buyIn);
+      cancelled = true;
+    }
+  }
+  if (cancelled) broadcastTournamentList(io);
+}
+
+/**
+ * 起動時: 復元したマルチテーブルの大会を再開（終了済みなら次の大会へ）
+ */
+function resumeMultiTable(tournament: MultiTableTournamentState, io: Server) {
+  if (tournament.status === 'RUNNING') {
+    scheduleMultiTableLevel(tournament.id, io);
+    for (const id of tournament.tableIds) {
+      scheduleNextHand(id, io);
+    }
+  } else if (tournament.status === 'FINISHED') {
+    closeMultiTable(tournament.id, io);
+  }
+}
+
 /**
  * ルームデータをサニタイズ（他プレイヤーのhandを隠す）
  * @param room ルームオブジェクト
@@ -493,6 +1059,7 @@ function sanitizeRoomForViewer(room: any, viewerSocketId?: string): any {
     ...room,
     config: sanitizedConfig,
     ofcState: ofcPublicState,
+    chatMuted: chatManager.hostMutedSocketIds(room),
     players: room.players.map((p: any) => {
       if (!p) return null;
       const isOwnPlayer = viewerSocketId && p.socketId === viewerSocketId;
@@ -509,6 +1076,12 @@ function sanitizeRoomForViewer(room: any, viewerSocketId?: string): any {
         ...p,
         // 自分以外のhandは隠す
         hand: isOwnPlayer ? p.hand : null,
+        // Pick'em宣言はショーダウンまで本人のみ
+        dramahaDeclaration: isOwnPlayer ? p.dramahaDeclaration : undefined,
+        // クライアントシードは本人のみ（全員分の連結はコミットメントに含まれる）
+        clientSeed: isOwnPlayer ? p.clientSeed : undefined,
+        // 再接続用トークンは本人のみ
+        resumeToken: isOwnPlayer ? p.resumeToken : undefined,
         // studUpCardsは4thストリート以外を他者に公開
         studUpCards: visibleUpCards
       };
@@ -517,6 +1090,11 @@ function sanitizeRoomForViewer(room: any, viewerSocketId?: string): any {
 }
 
 function broadcastRoomState(roomId: string, room: any, io: Server) {
+  // Provably Fair: 最初のハンドの前にも次のハンドのコミットメントを載せる（ハンド中はエンジンが更新）
+  if (room.gameState.status === 'WAITING') {
+    const engine = room.gameState.gameVariant === 'OFC' ? getOFCEngine(roomId) : getGameEngine(roomId);
+    engine.publishNextCommitment(room);
+  }
   void io.in(`room:${roomId}`).fetchSockets()
     .then(sockets => {
       for (const sock of sockets) {
@@ -529,6 +1107,241 @@ function broadcastRoomState(roomId: string, room: any, io: Server) {
         error: error instanceof Error ? error.message : error
       });
     });
+  broadcastSpectatorState(roomId, room, io);
+  scheduleRoomSnapshot();
+}
+
+/**
+ * 部屋の変更後、短い遅延でまとめてスナップショットを保存
+ */
+function scheduleRoomSnapshot() {
+  if (!roomSnapshotsEnabled || roomSnapshotTimer) return;
+  roomSnapshotTimer = setTimeout(() => {
+    roomSnapshotTimer = null;
+    void persistRooms();
+  }, ROOM_SNAPSHOT_DEBOUNCE_MS);
+}
+
+/**
+ * 全部屋のスナップショットを保存（書き込みは直列、内容は実行時点の状態）
+ */
+function persistRooms(): Promise<void> {
+  roomSnapshotWrite = roomSnapshotWrite.then(() =>
+    saveRoomSnapshots(roomManager.listRooms().map(createRoomSnapshot))
+  );
+  return roomSnapshotWrite;
+}
+
+/**
+ * 起動時: スナップショットから部屋を復元
+ * 進行中だったハンドは無効にして返金済み。ハンド中に退出していたプレイヤーはここで精算する
+ * @returns 復元した部屋のID
+ */
+async function restoreRooms(): Promise<string[]> {
+  const restored: string[] = [];
+  for (const snapshot of await loadRoomSnapshots()) {
+    try {
+      const room = restoreRoomFromSnapshot(snapshot);
+      room.players.forEach((player, index) => {
+        if (player?.pendingLeave) {
+          settlePlayer(room.id, player);
+          room.players[index] = null;
+        }
+      });
+      roomManager.restoreRoom(room);
+      restoredSeats.set(room.id, new Set(
+        room.players.filter(p => p?.disconnected).map(p => p!.socketId)
+      ));
+      reconcileChips(room.id);
+      restored.push(room.id);
+    } catch (error: any) {
+      console.error(`❌ Failed to restore room ${snapshot?.room?.id}: ${error.message}`);
+    }
+  }
+  if (restored.length > 0) {
+    console.log(`♻️  ${restored.length} rooms restored from snapshots`);
+  }
+  return restored;
+}
+
+/**
+ * 猶予が過ぎても戻らなかった復元プレイヤーをキャッシュアウトして席を空ける
+ * （戻ったプレイヤーは socketId が変わっているので対象外）
+ */
+function releaseUnclaimedSeats(io: Server) {
+  for (const [roomId, socketIds] of restoredSeats) {
+    const room = roomManager.getRoomById(roomId);
+    if (!room) continue;
+    // 進行中の Sit & Go は席を残す（戻らなければブラインドで削られて敗退する）
+    if (room.tournament?.status === 'RUNNING') continue;
+
+    const isWaiting = room.gameState.status === 'WAITING';
+    room.players.forEach((player, index) => {
+      if (!player || !socketIds.has(player.socketId)) return;
+      if (isWaiting) {
+        settlePlayer(roomId, player);
+        room.players[index] = null;
+      } else {
+        // ハンド中は終了後に cleanupPendingLeavers で精算
+        player.pendingLeave = true;
+      }
+    });
+
+    const hasHuman = room.players.some(p => p && !p.socketId.startsWith('bot-'));
+    if (isWaiting && room.gameState.gameVariant === 'OFC' && !hasHuman) {
+      cleanupOFCRoom(room);
+    }
+    if (isWaiting) {
+      releaseBotsWithoutHumans(roomId, room);
+    }
+    if (room.players.every(p => p === null) && !room.isPreset) {
+      roomManager.deleteRoom(roomId);
+      gameEngines.delete(roomId);
+      roomActionInFlight.delete(roomId);
+    } else {
+      broadcastRoomState(roomId, room, io);
+    }
+    reconcileChips(roomId);
+  }
+  restoredSeats.clear();
+  io.to('lobby').emit('room-list-update', roomManager.getAllRooms());
+}
+
+// ========================================
+// Spectators
+// ========================================
+
+// 観戦者用の Socket.IO ルーム（プレイヤーの room:<id> とは別）
+function spectatorChannel(roomId: string): string {
+  return `spectate:${roomId}`;
+}
+
+// 観戦者への手札公開ディレイ（0 = 手札を公開しない）
+function getSpectatorDelayMs(room: any): number {
+  return Math.max(0, room?.config.spectatorHoleCardDelay ?? 0) * 1000;
+}
+
+/**
+ * 観戦者向けのルーム状態
+ * 手札は常に伏せる。revealHoleCards のときだけ全員の手札と Stud のアップカードを含める（ディレイ配信用）
+ * OFC は山札を含むため公開状態のまま
+ */
+function sanitizeRoomForSpectator(room: any, revealHoleCards: boolean): any {
+  const view = sanitizeRoomForViewer(room);
+  if (!revealHoleCards || room.ofcState) return view;
+  return {
+    ...view,
+    players: view.players.map((p: any, i: number) => p && {
+      ...p,
+      hand: room.players[i]?.hand ? [...room.players[i].hand] : null,
+      studUpCards: room.players[i]?.studUpCards ? [...room.players[i].studUpCards] : p.studUpCards,
+    }),
+  };
+}
+
+/**
+ * 観戦者へ送信
+ * 手札公開ディレイがあれば全イベントを同じだけ遅らせて順序を保つ（送信時点のスナップショットを送る）
+ */
+function emitToSpectators(roomId: string, io: Server, event: string, data: any) {
+  const delayMs = getSpectatorDelayMs(roomManager.getRoomById(roomId));
+  if (delayMs === 0) {
+    io.to(spectatorChannel(roomId)).emit(event, data);
+    return;
+  }
+  const snapshot = structuredClone(data);
+  setTimeout(() => io.to(spectatorChannel(roomId)).emit(event, snapshot), delayMs);
+}
+
+// テーブル全体（部屋のプレイヤー + 観戦者）への公開イベント
+function emitToTable(roomId: string, io: Server, event: string, data: any) {
+  io.to(`room:${roomId}`).emit(event, data);
+  emitToSpectators(roomId, io, event, data);
+}
+
+// ========================================
+// Chat
+// ========================================
+
+/**
+ * チャットメッセージを配信
+ * 個人ミュートしている相手の発言はそのsocketには送らない。観戦者は読み取りのみ
+ */
+function deliverChatMessage(roomId: string, io: Server, message: ChatMessage) {
+  void io.in(`room:${roomId}`).fetchSockets()
+    .then(sockets => {
+      for (const sock of sockets) {
+        if (message.playerId && chatManager.isMutedBy(sock.id, message.playerId)) continue;
+        sock.emit('chat-message', message);
+      }
+    })
+    .catch(error => {
+      console.error('❌ Failed to deliver chat-message', {
+        roomId,
+        error: error instanceof Error ? error.message : error
+      });
+    });
+  emitToSpectators(roomId, io, 'chat-message', message);
+}
+
+// ディーラー（システム）メッセージ
+function emitDealerMessage(roomId: string, io: Server, text: string) {
+  deliverChatMessage(roomId, io, chatManager.postDealerMessage(roomId, text));
+}
+
+function announceShowdown(roomId: string, io: Server, showdownResult: ShowdownResult) {
+  for (const text of describeShowdown(showdownResult)) {
+    emitDealerMessage(roomId, io, text);
+  }
+}
+
+function checkChatRateLimit(socket: any, roomId: string, now: number): boolean {
+  const rate = chatRateLimit.get(socket.id);
+  if (!rate || now - rate.windowStart > CHAT_RATE_LIMIT_WINDOW_MS) {
+    chatRateLimit.set(socket.id, { count: 1, windowStart: now });
+    return true;
+  }
+
+  rate.count += 1;
+  if (rate.count > CHAT_RATE_LIMIT_MAX) {
+    socket.emit('error', { message: 'You are sending messages too quickly' });
+    logEvent('chat_rate_limited', { roomId, playerId: socket.id, count: rate.count });
+    incrementMetric('chat_rate_limited');
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * 観戦者へルーム状態を送信
+ * ディレイ配信で手札を含めるのは、送信時点で終わっているハンドだけ（ディレイがハンドより短くても進行中の手札は見せない）
+ */
+function broadcastSpectatorState(roomId: string, room: any, io: Server) {
+  if (roomManager.getSpectatorCount(roomId) === 0) return;
+  const delayMs = getSpectatorDelayMs(room);
+  if (delayMs === 0) {
+    io.to(spectatorChannel(roomId)).emit('room-state-update', sanitizeRoomForSpectator(room, false));
+    return;
+  }
+  const handNumber = room.gameState.handNumber;
+  const hidden = structuredClone(sanitizeRoomForSpectator(room, false));
+  const revealed = structuredClone(sanitizeRoomForSpectator(room, true));
+  // emitToSpectators と同じディレイなので他のイベントとの順序は保たれる
+  setTimeout(() => {
+    const live = roomManager.getRoomById(roomId);
+    const handEnded = !live || live.gameState.handNumber !== handNumber || live.gameState.status === 'WAITING';
+    io.to(spectatorChannel(roomId)).emit('room-state-update', handEnded ? revealed : hidden);
+  }, delayMs);
+}
+
+// 観戦をやめる（観戦していなければ何もしない）
+function stopSpectating(socket: any, io: Server): void {
+  const roomId = roomManager.removeSpectator(socket.id);
+  if (!roomId) return;
+  socket.leave(spectatorChannel(roomId));
+  console.log(`👁️ ${socket.id} stopped spectating room ${roomId}`);
+  io.to('lobby').emit('room-list-update', roomManager.getAllRooms());
 }
 
 // ヘルパー関数: socketからroomIdを取得
@@ -542,6 +1355,15 @@ function getRoomIdFromSocket(socket: any): string | null {
 // OFC (Open Face Chinese) Helper Functions
 // ========================================
 
+function getGameEngine(roomId: string): GameEngine {
+  let engine = gameEngines.get(roomId);
+  if (!engine) {
+    engine = new GameEngine();
+    gameEngines.set(roomId, engine);
+  }
+  return engine;
+}
+
 function getOFCEngine(roomId: string): OFCGameEngine {
   let engine = ofcEngines.get(roomId);
   if (!engine) {
@@ -621,6 +1443,7 @@ function fillOFCBots(room: any) {
         hand: null,
         disconnected: false,
       };
+      houseBuyIn(room.id, room.players[i].stack);
       botIndex++;
     }
   }
@@ -707,6 +1530,7 @@ function scheduleCurrentTurnBot(roomId: string, room: any, io: Server, engine: O
 function cleanupOFCRoom(room: any) {
   for (let i = 0; i < room.players.length; i++) {
     if (room.players[i]?.socketId.startsWith('bot-')) {
+      settlePlayer(room.id, room.players[i]);
       room.players[i] = null;
     }
   }
@@ -714,6 +1538,229 @@ function cleanupOFCRoom(room: any) {
   room.gameState.status = 'WAITING';
 }
 
+// ========================================
+// Heuristic bots (OFC以外)
+// ========================================
+
+/**
+ * 手番のBOTに少し考える時間を置いてから行動させる（人間と同じ processAction の経路）
+ */
+function scheduleBotAction(roomId: string, botId: string, io: Server) {
+  scheduleBotTimer(botId, () => {
+    const room = roomManager.getRoomById(roomId);
+    const engine = gameEngines.get(roomId);
+    if (!room || !engine || room.gameState.isDrawPhase) return;
+    const bot = room.players[room.activePlayerIndex];
+    if (!bot || bot.socketId !== botId || !bot.botStyle) return;
+
+    const bettingInfo = engine.getBettingInfo(room, botId);
+    const decision = new HeuristicBot(bot.botStyle).decideAction(room, bot, {
+      validActions: engine.getValidActions(room, botId),
+      minBetTo: bettingInfo.minBet,
+      maxBetTo: bettingInfo.maxBet,
+    });
+
+    let result = engine.processAction(room, { playerId: botId, ...decision, timestamp: Date.now() });
+    if (!result.success) {
+      // 選んだアクションが通らなければタイムアウトと同じくチェック/フォールド
+      console.error(`❌ Bot action failed for ${bot.name}: ${result.error}`);
+      const fallback: ActionType = engine.getValidActions(room, botId).includes('CHECK') ? 'CHECK' : 'FOLD';
+      result = engine.processAction(room, { playerId: botId, type: fallback, timestamp: Date.now() });
+    }
+    if (!result.success) {
+      broadcastRoomState(roomId, room, io);
+      return;
+    }
+
+    // player-actionハンドラーと同じフローを使用
+    broadcastRoomState(roomId, room, io);
+    if (maybeHandleShowdown(roomId, room, io)) {
+      return;
+    }
+    if (room.activePlayerIndex !== -1) {
+      const nextPlayer = room.players[room.activePlayerIndex];
+      if (nextPlayer) {
+        emitYourTurn(roomId, room, engine, io, nextPlayer);
+      }
+    }
+  });
+}
+
+/**
+ * ドロー/カード消失フェーズでまだ交換していないBOTに交換させる（draw-exchange / vanish-cards と同じ処理）
+ */
+function scheduleBotDraws(roomId: string, room: any, io: Server) {
+  const completed: string[] = room.gameState.playersCompletedDraw || [];
+  for (const player of room.players) {
+    if (!player?.botStyle || !canBotDraw(player) || completed.includes(player.socketId)) continue;
+    const botId = player.socketId;
+
+    scheduleBotTimer(botId, () => {
+      const currentRoom = roomManager.getRoomById(roomId);
+      const engine = gameEngines.get(roomId);
+      if (!currentRoom || !engine || !currentRoom.gameState.isDrawPhase) return;
+      const bot = currentRoom.players.find(p => p?.socketId === botId);
+      if (!bot?.botStyle || !canBotDraw(bot)) return;
+      if ((currentRoom.gameState.playersCompletedDraw || []).includes(botId)) return;
+
+      const strategy = new HeuristicBot(bot.botStyle);
+      if (currentRoom.gameState.status === 'VANISH') {
+        const vanishCount = getVariantConfig(currentRoom.gameState.gameVariant).vanishCards ?? 0;
+        performVanish(roomId, currentRoom, engine, bot, strategy.chooseVanish(currentRoom, bot, vanishCount), io);
+        return;
+      }
+      const { discardIndexes, declaration } = strategy.chooseDraw(currentRoom, bot);
+      performDrawExchange(roomId, currentRoom, engine, bot, discardIndexes, declaration, io);
+    });
+  }
+}
+
+/** オールインでもドロー/カード消失はする（checkDrawPhaseComplete は ALL_IN も待つ） */
+function canBotDraw(player: RoomPlayer): boolean {
+  return player.status === 'ACTIVE' || player.status === 'ALL_IN';
+}
+
+/** BOTごとに次の行動を1つだけ予約する（同じ手番で二重に動かない） */
+function scheduleBotTimer(botId: string, act: () => void) {
+  const existing = botTimers.get(botId);
+  if (existing) clearTimeout(existing);
+  botTimers.set(botId, setTimeout(() => {
+    botTimers.delete(botId);
+    try {
+      act();
+    } catch (error) {
+      console.error(`❌ Bot ${botId} failed to act:`, error);
+    }
+  }, BOT_THINK_MIN_MS + Math.random() * BOT_THINK_JITTER_MS));
+}
+
+/**
+ * 人間がいなくなった卓のBOTを精算して席を空ける（BOTだけでは遊ばせない）
+ * @param leavingSocketId これから退出する人間（まだ席にいる）
+ */
+function releaseBotsWithoutHumans(roomId: string, room: any, leavingSocketId?: string) {
+  const hasHuman = room.players.some((p: any) =>
+    p && !p.socketId.startsWith('bot-') && p.socketId !== leavingSocketId
+  );
+  if (hasHuman) return;
+  room.players.forEach((player: any, index: number) => {
+    if (!player?.botStyle) return;
+    clearBotTimer(player.socketId);
+    settlePlayer(roomId, player);
+    room.players[index] = null;
+  });
+}
+
+function clearBotTimer(botId: string) {
+  const timer = botTimers.get(botId);
+  if (timer) {
+    clearTimeout(timer);
+    botTimers.delete(botId);
+  }
+}
+
+// ========================================
+// External bot API（bots/botProtocol.ts）
+// ========================================
+
+/**
+ * 外部BOTに手番のアクションを依頼する（決定IDはアクショントークンを兼ねる）
+ */
+function requestApiBotAction(roomId: string, room: any, engine: GameEngine, io: Server, player: RoomPlayer) {
+  const botId = player.socketId;
+  const decisionId = issueActionToken(botId);
+  const request = buildActionRequest(
+    decisionId,
+    BOT_DECISION_TIMEOUT_MS,
+    buildTableView(sanitizeRoomForViewer(room, botId), botId),
+    engine.getValidActions(room, botId),
+    engine.getBettingInfo(room, botId)
+  );
+
+  startBotDecision(roomId, botId, decisionId, 'action', () => {
+    // 時間切れ: 人間のタイムアウトと同じくチェック/フォールド（連続タイムアウトで離席）
+    const currentRoom = roomManager.getRoomById(roomId);
+    if (currentRoom?.players[currentRoom.activePlayerIndex]?.socketId !== botId) return;
+    handleTimerTimeout(roomId, botId, io);
+  });
+  io.to(botId).emit('bot-decision-request', request);
+}
+
+/**
+ * ドロー/カード消失フェーズで、まだ交換していない外部BOTに判断を依頼する
+ */
+function requestApiBotDraws(roomId: string, room: any, io: Server) {
+  const completed: string[] = room.gameState.playersCompletedDraw || [];
+  const isVanish = room.gameState.status === 'VANISH';
+  const vanishCount = getVariantConfig(room.gameState.gameVariant).vanishCards ?? 0;
+
+  for (const player of room.players) {
+    if (!player?.apiBot || !canBotDraw(player) || completed.includes(player.socketId)) continue;
+    const botId = player.socketId;
+    if (botDecisions.has(botId)) continue;
+
+    const decisionId = randomUUID();
+    const table = buildTableView(sanitizeRoomForViewer(room, botId), botId);
+    const request = isVanish
+      ? buildVanishRequest(decisionId, BOT_DECISION_TIMEOUT_MS, table, vanishCount)
+      : buildDrawRequest(decisionId, BOT_DECISION_TIMEOUT_MS, table);
+
+    startBotDecision(roomId, botId, decisionId, request.kind, () => {
+      // 時間切れ: ドローはスタンドパット、カード消失は先頭から消す
+      const currentRoom = roomManager.getRoomById(roomId);
+      const engine = gameEngines.get(roomId);
+      if (!currentRoom || !engine || !currentRoom.gameState.isDrawPhase) return;
+      if ((currentRoom.gameState.playersCompletedDraw || []).includes(botId)) return;
+      const bot = currentRoom.players.find(p => p?.socketId === botId);
+      if (!bot || !canBotDraw(bot)) return;
+
+      if (currentRoom.gameState.status === 'VANISH') {
+        performVanish(roomId, currentRoom, engine, bot, Array.from({ length: vanishCount }, (_, i) => i), io);
+      } else {
+        performDrawExchange(roomId, currentRoom, engine, bot, [], undefined, io);
+      }
+    });
+    io.to(botId).emit('bot-decision-request', request);
+  }
+}
+
+/** 判断の回答を待つ（BOTごとに1つ。持ち時間を過ぎたら onTimeout） */
+function startBotDecision(roomId: string, botId: string, decisionId: string, kind: BotDecisionKind, onTimeout: () => void) {
+  clearBotDecision(botId);
+  const timer = setTimeout(() => {
+    botDecisions.delete(botId);
+    console.log(`⏰ Bot decision timeout for ${botId} (${kind})`);
+    try {
+      onTimeout();
+    } catch (error) {
+      console.error(`❌ Bot ${botId} timeout handling failed:`, error);
+    }
+  }, BOT_DECISION_TIMEOUT_MS);
+  botDecisions.set(botId, { decisionId, kind, roomId, timer });
+}
+
+function clearBotDecision(botId: string) {
+  const pending = botDecisions.get(botId);
+  if (pending) {
+    clearTimeout(pending.timer);
+    botDecisions.delete(botId);
+  }
+}
+
+/**
+ * 外部BOTとその持ち主（同じアカウントの他のBOTも）を同じ卓に座らせない
+ */
+function assertNoSameAccountBot(room: any, socket: any) {
+  const userId: string | undefined = socket.data?.user?.userId;
+  const isBot = !!socket.data?.bot;
+  const conflict = userId && room.players.some((p: any) =>
+    p && p.socketId !== socket.id && p.userId === userId && (isBot || p.apiBot)
+  );
+  if (conflict) {
+    throw new Error('This account already has a player or bot at this table');
+  }
+}
+
 /**
  * OFCエンジンイベントを処理してソケットに送信
  */
@@ -722,7 +1769,7 @@ function processOFCEvents(roomId: string, room: any, io: Server, engine: OFCGame
     switch (event.type) {
       case 'placement-accepted':
         // 配置ログをブロードキャスト
-        io.to(`room:${roomId}`).emit('ofc-placed', {
+        emitToTable(roomId, io, 'ofc-placed', {
           socketId: event.data.socketId,
           playerName: event.data.playerName,
           placements: event.data.placements || [],
@@ -738,7 +1785,7 @@ function processOFCEvents(roomId: string, room: any, io: Server, engine: OFCGame
 
       case 'round-complete':
         // 各プレイヤーにボード状態を送信
-        io.to(`room:${roomId}`).emit('ofc-round-complete', event.data);
+        emitToTable(roomId, io, 'ofc-round-complete', event.data);
         break;
 
       case 'deal': {
@@ -763,9 +1810,22 @@ function processOFCEvents(roomId: string, room: any, io: Server, engine: OFCGame
       }
 
       case 'scoring':
-        io.to(`room:${roomId}`).emit('ofc-scoring', event.data);
+        emitToTable(roomId, io, 'ofc-scoring', event.data);
         break;
 
+      case 'hand-history': {
+        const winnerNames = event.data.winners.map((w: any) => ({
+          ...w,
+          playerName: event.data.players.find((p: any) => p.playerId === w.playerId)?.name ?? w.playerId,
+        }));
+        for (const text of describeWinners(winnerNames)) emitDealerMessage(roomId, io, text);
+        // 負け額がスタックを超えて切り捨てられた分はハウスが補填
+        adjustTable(roomId, event.data.players.reduce(
+          (total: number, p: any) => total + p.endingStack - p.startingStack, 0));
+        void saveHandHistory(attachHandChat(room, event.data));
+        break;
+      }
+
       case 'hand-complete':
         broadcastRoomState(roomId, room, io);
         // 次のハンドをスケジュール
@@ -799,13 +1859,9 @@ function handleInGameExit(
 ) {
   const player = room.players[seatIndex]!;
 
-  // セッション追跡: キャッシュアウト記録（ハンド中退出は現在のスタックで記録）
-  if (hasActiveSession(socket.id)) {
-    endSession(socket.id, player.stack);
-  }
-
   // OFCゲーム中の退出: BOT全削除・即座にリセット
   if (room.gameState.gameVariant === 'OFC') {
+    settlePlayer(roomId, player);
     room.players[seatIndex] = null;
     cleanupOFCRoom(room);
     if (leaveRoom) socket.leave(`room:${roomId}`);
@@ -851,18 +1907,42 @@ function handleInGameExit(
   }
 }
 
+/**
+ * 進行中の Sit & Go からの退出・切断: 席は残して配り続け、resumeToken で戻れる
+ */
+function handleTournamentExit(
+  socket: any,
+  roomId: string,
+  room: Room,
+  seatIndex: number,
+  leaveRoom: boolean,
+  io: Server
+) {
+  const player = room.players[seatIndex]!;
+  player.disconnected = true;
+  if (leaveRoom) {
+    socket.leave(`room:${roomId}`);
+  }
+
+  // 手番中ならタイマーを動かし直す（cleanupSocketSession で止まっている）
+  if (room.gameState.status !== 'WAITING' && room.activePlayerIndex === seatIndex) {
+    startPlayerTimer(roomId, player.socketId, io);
+  }
+  broadcastRoomState(roomId, room, io);
+}
+
 function handleWaitingExit(
   socket: any,
   roomId: string,
   leaveRoom: boolean,
   io: Server
 ) {
-  // セッション追跡: キャッシュアウト記録
+  // セッション追跡・台帳: キャッシュアウト
   const exitRoom = roomManager.getRoomById(roomId);
   if (exitRoom) {
     const exitPlayer = exitRoom.players.find(p => p?.socketId === socket.id);
-    if (exitPlayer && hasActiveSession(socket.id)) {
-      endSession(socket.id, exitPlayer.stack);
+    if (exitPlayer) {
+      settlePlayer(roomId, exitPlayer);
     }
   }
 
@@ -870,8 +1950,13 @@ function handleWaitingExit(
   if (exitRoom && exitRoom.gameState.gameVariant === 'OFC') {
     cleanupOFCRoom(exitRoom);
   }
+  // 最後の人間が抜けるならBOTも精算する
+  if (exitRoom) {
+    releaseBotsWithoutHumans(roomId, exitRoom, socket.id);
+  }
 
   roomManager.standUp(roomId, socket.id);
+  reconcileChips(roomId);
   if (leaveRoom) {
     socket.leave(`room:${roomId}`);
   }
@@ -917,10 +2002,10 @@ function handleRoomExit(
 
   // ホスト離脱時: 次のプレイヤーにホスト権限を移譲
   if (room.hostId && room.hostId === socket.id) {
-    const nextHost = room.players.find((p: any) => p !== null && p.socketId !== socket.id);
+    const nextHost = room.players.find((p: any) => p !== null && p.socketId !== socket.id && !p.botStyle);
     if (nextHost) {
       room.hostId = nextHost.socketId;
-      io.to(`room:${roomId}`).emit('host-changed', { newHostId: nextHost.socketId });
+      emitToTable(roomId, io, 'host-changed', { newHostId: nextHost.socketId });
       console.log(`👑 Host transferred to ${nextHost.name} in room ${roomId}`);
     } else {
       // 最後のプレイヤー → ルームは削除される
@@ -928,6 +2013,11 @@ function handleRoomExit(
     }
   }
 
+  if (room.tournament?.status === 'RUNNING') {
+    handleTournamentExit(socket, roomId, room, seatIndex, leaveRoom, io);
+    return;
+  }
+
   const isInHand = room.gameState.status !== 'WAITING';
 
   if (isInHand) {
@@ -1056,6 +2146,146 @@ function validatePlayerActionRequest(
   return { roomId, room, engine };
 }
 
+/**
+ * ベットアクションを処理して次の手番へ（player-action と外部BOTの bot-decision 共通）
+ */
+function handlePlayerAction(
+  socket: any,
+  data: { type: ActionType; amount?: number; actionToken?: string },
+  io: Server
+) {
+  try {
+    const context = validatePlayerActionRequest(socket, data);
+    if (!context) return;
+    const { roomId, room, engine } = context;
+
+    // タイマーをクリア
+    clearPlayerTimer(socket.id);
+
+    actionInFlight.add(socket.id);
+    roomActionInFlight.add(roomId);
+    let result;
+    try {
+      // アクションを処理
+      result = engine.processAction(room, {
+        playerId: socket.id,
+        type: data.type,
+        amount: data.amount,
+        timestamp: Date.now()
+      });
+    } finally {
+      actionInFlight.delete(socket.id);
+      roomActionInFlight.delete(roomId);
+    }
+
+    if (!result.success) {
+      socket.emit('action-invalid', { reason: result.error });
+      logEvent('action_invalid', { roomId, playerId: socket.id, reason: result.error });
+      incrementMetric('action_invalid', { reason: 'engine_reject' });
+      // 外部BOTは同じ持ち時間のうちに出し直す（人間のタイマーは使わない）
+      if (!botDecisions.has(socket.id)) {
+        startPlayerTimer(roomId, socket.id, io);
+      }
+      return;
+    }
+    actionTokens.delete(socket.id);
+    clearBotDecision(socket.id);
+
+    // アクション成功時は連続タイムアウトカウンターをリセット
+    consecutiveTimeouts.delete(socket.id);
+
+    // 全員に更新を送信（ショーダウン前に必ず送信してチップを表示）
+    broadcastRoomState(roomId, room, io);
+
+    // ショーダウンチェック
+    if (maybeHandleShowdown(roomId, room, io)) {
+      return;
+    }
+
+    // 次のアクティブプレイヤーに行動を促す
+    if (room.activePlayerIndex !== -1) {
+      const nextPlayer = room.players[room.activePlayerIndex];
+      if (nextPlayer) {
+        emitYourTurn(roomId, room, engine, io, nextPlayer);
+      }
+    }
+
+  } catch (error: any) {
+    socket.emit('error', { message: error.message });
+  }
+}
+
+/**
+ * Run it Twice/3 Times の投票を集める
+ * 全員が同意したラン数の最小値を採用（未投票のままタイムアウトした場合は1回）
+ */
+function collectRunItVotes(roomId: string, voters: string[], maxRuns: number, io: Server): Promise<number> {
+  return new Promise(resolve => {
+    const votes = new Map<string, number>();
+
+    const finish = () => {
+      clearTimeout(timeout);
+      runItVotes.delete(roomId);
+      const runs = voters.every(id => votes.has(id))
+        ? Math.min(...voters.map(id => votes.get(id)!))
+        : 1;
+      console.log(`🗳️ Run it vote finished: ${runs} run(s)`);
+      emitToTable(roomId, io, 'run-it-decided', { runs });
+      resolve(runs);
+    };
+    const timeout = setTimeout(finish, RUN_IT_VOTE_TIMEOUT_MS);
+
+    runItVotes.set(roomId, { voters, maxRuns, votes, finish });
+    emitToTable(roomId, io, 'run-it-vote-request', {
+      voters,
+      maxRuns,
+      timeout: RUN_IT_VOTE_TIMEOUT_MS
+    });
+
+    // BOTは1回を選ぶ（1回を選んだ人がいればその場で確定）
+    const room = roomManager.getRoomById(roomId);
+    const botVoter = voters.find(id => room?.players.some(p => p?.socketId === id && p.botStyle));
+    if (botVoter) {
+      votes.set(botVoter, 1);
+      emitToTable(roomId, io, 'run-it-voted', { playerId: botVoter, runs: 1 });
+      finish();
+    }
+  });
+}
+
+/**
+ * ランアウト開始時点（公開前のボード）でのオールインエクイティを計算
+ * 計算できない場合はundefined（ランアウト自体は続行）
+ */
+function calculateRunoutEquities(
+  room: any,
+  revealedHands: { playerId: string; hand: string[] }[],
+  runoutPhase: string,
+  fullBoard: string[],
+  fullBoard2: string[] | null
+) {
+  const knownCount = runoutPhase === 'TURN' ? 4 : runoutPhase === 'FLOP' ? 3 : 0;
+  try {
+    const result = equityCalculator.calculate({
+      gameVariant: room.gameState.gameVariant,
+      hands: revealedHands.map(r => r.hand),
+      board: fullBoard.slice(0, knownCount),
+      ...(fullBoard2 ? { board2: fullBoard2.slice(0, knownCount) } : {}),
+      iterations: RUNOUT_EQUITY_ITERATIONS
+    });
+    return result.players.map((p, i) => ({
+      playerId: revealedHands[i].playerId,
+      win: p.win,
+      tie: p.tie,
+      scoop: p.scoop,
+      equity: p.equity
+    }));
+  } catch (error) {
+    console.error('❌ Equity calculation failed:', error);
+    return undefined;
+  }
+}
+
 function handleAllInRunout(roomId: string, room: any, io: Server) {
   const runoutPhase = room.gameState.runoutPhase || 'PREFLOP';
   const board = room.gameState.board;
@@ -1077,46 +2307,74 @@ function handleAllInRunout(roomId: string, room: any, io: Server) {
 
   // ランアウト開始前にボードをクリアして、段階的に表示する
   const fullBoard = [...board]; // 完全なボードを保存
+  const fullBoard2 = room.gameState.board2 ? [...room.gameState.board2] : null; // ダブルボード
   room.gameState.board = []; // ボードをクリア
+  if (fullBoard2) room.gameState.board2 = [];
 
   // ランアウト開始前に状態を送信（チップをポットに集める）
   broadcastRoomState(roomId, room, io);
 
-  // ハンド開示を送信
-  io.to(`room:${roomId}`).emit('runout-started', {
-    runoutPhase,
-    fullBoard: [], // 空配列を送信（段階的に表示するため）
-    revealedHands  // 全プレイヤーのハンドを開示
-  });
+  // Run it Twice/3 Times: 投票で決まったラン数に応じて追加のボードを配る
+  const engine = gameEngines.get(roomId);
+  const maxRuns = engine ? engine.getMaxRunItTimes(room, RUN_IT_MAX_RUNS) : 1;
+  const decideRunBoards = async (): Promise<string[][]> => {
+    if (!engine || maxRuns <= 1) return [fullBoard];
+    const runs = await collectRunItVotes(roomId, revealedHands.map(r => r.playerId), maxRuns, io);
+    return runs > 1 ? engine.dealAdditionalRunouts(room, fullBoard, runs) : [fullBoard];
+  };
+
+  // 指定枚数までボードを公開（ダブルボードは両方同時に、複数ランは該当ランのみ）
+  const revealBoard = async (runBoards: string[][], runIndex: number, cardCount: number, phase: string) => {
+    await new Promise(r => setTimeout(r, DELAY));
+    const board = runBoards[runIndex].slice(0, cardCount);
+    if (runBoards.length > 1) {
+      room.gameState.runBoards[runIndex] = board;
+      room.gameState.board = room.gameState.runBoards[0];
+    } else {
+      room.gameState.board = board;
+    }
+    if (fullBoard2) room.gameState.board2 = fullBoard2.slice(0, cardCount);
+    emitToTable(roomId, io, 'runout-board', {
+      board,
+      ...(fullBoard2 ? { board2: room.gameState.board2 } : {}),
+      phase,
+      runIndex,
+      runCount: runBoards.length,
+      ...(runBoards.length > 1 ? { runBoards: room.gameState.runBoards } : {})
+    });
+  };
 
   const scheduleRunout = async () => {
     try {
-      if (runoutPhase === 'PREFLOP') {
-        await new Promise(r => setTimeout(r, DELAY));
-        room.gameState.board = fullBoard.slice(0, 3);
-        io.to(`room:${roomId}`).emit('runout-board', { board: fullBoard.slice(0, 3), phase: 'FLOP' });
-
-        await new Promise(r => setTimeout(r, DELAY));
-        room.gameState.board = fullBoard.slice(0, 4);
-        io.to(`room:${roomId}`).emit('runout-board', { board: fullBoard.slice(0, 4), phase: 'TURN' });
-
-        await new Promise(r => setTimeout(r, DELAY));
-        room.gameState.board = fullBoard.slice(0, 5);
-        io.to(`room:${roomId}`).emit('runout-board', { board: fullBoard.slice(0, 5), phase: 'RIVER' });
-
-      } else if (runoutPhase === 'FLOP') {
-        await new Promise(r => setTimeout(r, DELAY));
-        room.gameState.board = fullBoard.slice(0, 4);
-        io.to(`room:${roomId}`).emit('runout-board', { board: fullBoard.slice(0, 4), phase: 'TURN' });
+      const runBoards = await decideRunBoards();
+      const runCount = runBoards.length;
+      if (runCount > 1) {
+        // 共有済みのカードは全ランで同じ
+        const sharedCount = runBoards[0].findIndex((card, i) => runBoards.some(b => b[i] !== card));
+        room.gameState.runBoards = runBoards.map(b => b.slice(0, sharedCount));
+      }
 
-        await new Promise(r => setTimeout(r, DELAY));
-        room.gameState.board = fullBoard.slice(0, 5);
-        io.to(`room:${roomId}`).emit('runout-board', { board: fullBoard.slice(0, 5), phase: 'RIVER' });
+      // ハンド開示を送信
+      emitToTable(roomId, io, 'runout-started', {
+        runoutPhase,
+        fullBoard: [], // 空配列を送信（段階的に表示するため）
+        revealedHands, // 全プレイヤーのハンドを開示
+        equities: calculateRunoutEquities(room, revealedHands, runoutPhase, fullBoard, fullBoard2),
+        runCount,
+        ...(runCount > 1 ? { runBoards: room.gameState.runBoards } : {})
+      });
 
-      } else if (runoutPhase === 'TURN') {
-        await new Promise(r => setTimeout(r, DELAY));
-        room.gameState.board = fullBoard.slice(0, 5);
-        io.to(`room:${roomId}`).emit('runout-board', { board: fullBoard.slice(0, 5), phase: 'RIVER' });
+      for (let runIndex = 0; runIndex < runCount; runIndex++) {
+        if (runoutPhase === 'PREFLOP') {
+          await revealBoard(runBoards, runIndex, 3, 'FLOP');
+          await revealBoard(runBoards, runIndex, 4, 'TURN');
+          await revealBoard(runBoards, runIndex, 5, 'RIVER');
+        } else if (runoutPhase === 'FLOP') {
+          await revealBoard(runBoards, runIndex, 4, 'TURN');
+          await revealBoard(runBoards, runIndex, 5, 'RIVER');
+        } else if (runoutPhase === 'TURN') {
+          await revealBoard(runBoards, runIndex, 5, 'RIVER');
+        }
       }
 
       await new Promise(r => setTimeout(r, DELAY));
@@ -1125,10 +2383,12 @@ function handleAllInRunout(roomId: string, room: any, io: Server) {
       room.gameState.pot = calculatedPots;
       console.log(`💰 Pots calculated: Main=${calculatedPots.main}, Sides=${calculatedPots.side.map(s => s.amount).join(',')}`);
 
-      console.log('🎯 Executing showdown...');
+      console.log(`🎯 Executing showdown${runCount > 1 ? ` (${runCount} runs)` : ''}...`);
       console.log(`   Pot before showdown: Main=${room.gameState.pot.main}, Sides=${room.gameState.pot.side.map((s: any) => s.amount).join(',')}`);
 
-      const showdownResult = showdownManager.executeShowdown(room);
+      const showdownResult = runCount > 1
+        ? showdownManager.executeMultiRunShowdown(room, runBoards)
+        : showdownManager.executeShowdown(room);
 
       console.log(`🏆 Showdown complete. Winners: ${showdownResult.winners.map(w => w.playerName).join(', ')}`);
       if (showdownResult.winners && showdownResult.winners.length > 0) {
@@ -1139,7 +2399,9 @@ function handleAllInRunout(roomId: string, room: any, io: Server) {
         });
       }
 
-      io.to(`room:${roomId}`).emit('showdown-result', showdownResult);
+      emitToTable(roomId, io, 'showdown-result', showdownResult);
+
+      announceShowdown(roomId, io, showdownResult);
 
       // セッション追跡: ハンド結果記録（オールインランアウト）
       {
@@ -1148,13 +2410,18 @@ function handleAllInRunout(roomId: string, room: any, io: Server) {
           .map((p: any) => p.socketId);
         const winnerIds = showdownResult.winners.map((w: any) => w.playerId);
         recordHandResult(winnerIds, allPlayerIds);
+        if (showdownResult.rakeContributions) {
+          recordRake(showdownResult.rakeContributions);
+        }
+        collectRake(roomId, showdownResult.rake ?? 0);
       }
+      recordHandHistory(roomId, room, showdownResult, io);
 
       if (showdownResult.winners.length > 0) {
         for (const winner of showdownResult.winners) {
           const bonus = metaGameManager.checkSevenDeuce(room, winner.playerId, winner.hand);
           if (bonus) {
-            io.to(`room:${roomId}`).emit('seven-deuce-bonus', bonus);
+            emitToTable(roomId, io, 'seven-deuce-bonus', bonus);
             console.log(`🎲 7-2 BONUS: ${winner.playerName} wins ${bonus.amount}`);
           }
         }
@@ -1163,8 +2430,10 @@ function handleAllInRunout(roomId: string, room: any, io: Server) {
       const rotation = rotationManager.checkRotation(room);
       if (rotation.changed) {
         console.log(`🔄 Next game: ${rotation.nextGame}`);
-        io.to(`room:${roomId}`).emit('next-game', {
+        emitDealerMessage(roomId, io, describeNextGame(rotation.nextGame));
+        emitToTable(roomId, io, 'next-game', {
           nextGame: rotation.nextGame,
+          betStructure: getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure).betStructure,
           gamesList: room.rotation.gamesList
         });
       }
@@ -1235,7 +2504,9 @@ function handleNormalShowdown(roomId: string, room: any, io: Server) {
     showdownResult = showdownManager.executeShowdown(room);
   }
 
-  io.to(`room:${roomId}`).emit('showdown-result', showdownResult);
+  emitToTable(roomId, io, 'showdown-result', showdownResult);
+
+  announceShowdown(roomId, io, showdownResult);
 
   // セッション追跡: ハンド結果記録
   {
@@ -1244,13 +2515,18 @@ function handleNormalShowdown(roomId: string, room: any, io: Server) {
       .map((p: any) => p.socketId);
     const winnerIds = showdownResult.winners.map((w: any) => w.playerId);
     recordHandResult(winnerIds, allPlayerIds);
+    if (showdownResult.rakeContributions) {
+      recordRake(showdownResult.rakeContributions);
+    }
+    collectRake(roomId, showdownResult.rake ?? 0);
   }
+  recordHandHistory(roomId, room, showdownResult, io);
 
   if (showdownResult.winners.length > 0) {
     for (const winner of showdownResult.winners) {
       const bonus = metaGameManager.checkSevenDeuce(room, winner.playerId, winner.hand);
       if (bonus) {
-        io.to(`room:${roomId}`).emit('seven-deuce-bonus', bonus);
+        emitToTable(roomId, io, 'seven-deuce-bonus', bonus);
         console.log(`🎲 7-2 BONUS: ${winner.playerName} wins ${bonus.amount}`);
       }
     }
@@ -1259,8 +2535,10 @@ function handleNormalShowdown(roomId: string, room: any, io: Server) {
   const rotation = rotationManager.checkRotation(room);
   if (rotation.changed) {
     console.log(`🔄 Next game: ${rotation.nextGame}`);
-    io.to(`room:${roomId}`).emit('next-game', {
+    emitDealerMessage(roomId, io, describeNextGame(rotation.nextGame));
+    emitToTable(roomId, io, 'next-game', {
       nextGame: rotation.nextGame,
+      betStructure: getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure).betStructure,
       gamesList: room.rotation.gamesList
     });
   }
@@ -1319,9 +2597,113 @@ function maybeHandleShowdown(roomId: string, room: any, io: Server): boolean {
   return false;
 }
 
+/**
+ * ドロー交換を実行し、全員そろったらベッティングへ（draw-exchange と BOT 共通）
+ */
+function performDrawExchange(
+  roomId: string,
+  room: any,
+  engine: GameEngine,
+  player: RoomPlayer,
+  discardIndexes: number[],
+  declaration: 'high' | 'low' | undefined,
+  io: Server
+) {
+  // Dramaha Pick'em: ドローハンドのハイ/ロー宣言（未指定はhigh）
+  if (getVariantConfig(room.gameState.gameVariant).dramahaPickem) {
+    player.dramahaDeclaration = declaration || 'high';
+  }
+
+  // カード交換を実行
+  const deck = engine.getDeck();
+  const dealer = engine.getDealer();
+  const handBefore = [...(player.hand || [])];
+  dealer.exchangeDrawCards(deck, player, discardIndexes, engine.getDiscardPile());
+
+  // 交換枚数を記録
+  player.drawDiscards = discardIndexes.length;
+  engine.recordAction(room, player, 'DRAW', {
+    cards: discardIndexes.map(i => handBefore[i]),
+    received: (player.hand || []).slice(handBefore.length - discardIndexes.length)
+  });
+
+  // ドロー完了をマーク
+  engine.markDrawComplete(room, player.socketId);
+
+  console.log(`🔄 ${player.name} drew ${discardIndexes.length} cards`);
+
+  // プレイヤーに新しい手札を送信
+  io.to(player.socketId).emit('draw-complete', {
+    newHand: player.hand
+  });
+
+  // 全プレイヤーに交換枚数を通知（手札は見せない）
+  emitToTable(roomId, io, 'player-drew', {
+    playerId: player.socketId,
+    playerName: player.name,
+    cardCount: discardIndexes.length
+  });
+
+  // 全員完了したかチェック
+  if (engine.checkDrawPhaseComplete(room)) {
+    // ベッティングフェーズに移行
+    console.log(`✅ All players completed draw - starting betting for ${room.gameState.status}`);
+
+    // 全員に更新を送信
+    broadcastRoomState(roomId, room, io);
+
+    // アクティブプレイヤーに行動を促す
+    if (room.activePlayerIndex !== -1) {
+      const nextPlayer = room.players[room.activePlayerIndex];
+      if (nextPlayer) {
+        emitYourTurn(roomId, room, engine, io, nextPlayer);
+      }
+    }
+  } else {
+    // まだ全員完了していない場合のみ状態送信
+    broadcastRoomState(roomId, room, io);
+  }
+}
+
+/**
+ * Cry Me a River のカード消失を実行し、全員そろったらショーダウンへ（vanish-cards と BOT 共通）
+ */
+function performVanish(
+  roomId: string,
+  room: any,
+  engine: GameEngine,
+  player: RoomPlayer,
+  discardIndexes: number[],
+  io: Server
+) {
+  const dealer = engine.getDealer();
+  const vanished = discardIndexes.map(i => player.hand![i]);
+  dealer.vanishCards(player, discardIndexes);
+  engine.recordAction(room, player, 'VANISH', { cards: vanished });
+  engine.markDrawComplete(room, player.socketId);
+
+  // プレイヤーに残った手札を送信（ドローと同じイベントで手札を更新）
+  io.to(player.socketId).emit('draw-complete', {
+    newHand: player.hand
+  });
+
+  emitToTable(roomId, io, 'player-vanished', {
+    playerId: player.socketId,
+    playerName: player.name,
+    cardCount: discardIndexes.length
+  });
+
+  // 全員完了したらショーダウン
+  if (engine.checkVanishPhaseComplete(room)) {
+    processPostAction(roomId, room, engine, io);
+  } else {
+    broadcastRoomState(roomId, room, io);
+  }
+}
+
 function validateDrawExchangeRequest(
   socket: any,
-  data: { discardIndexes: number[] }
+  data: { discardIndexes: number[]; declaration?: 'high' | 'low' }
 ): { roomId: string; room: any; engine: GameEngine; player: RoomPlayer; discardIndexes: number[] } | null {
   const roomId = getRoomIdOrError(socket);
   if (!roomId) return null;
@@ -1342,6 +2724,44 @@ function validateDrawExchangeRequest(
   const discardIndexes = parseDiscardIndexes(data, player, maxDrawCount, socket);
   if (!discardIndexes) return null;
 
+  if (variantConfig.dramahaPickem && data.declaration !== undefined &&
+      data.declaration !== 'high' && data.declaration !== 'low') {
+    socket.emit('error', { message: 'Invalid declaration' });
+    return null;
+  }
+
+  return { roomId, room, engine, player, discardIndexes };
+}
+
+function validateVanishRequest(
+  socket: any,
+  data: { discardIndexes: number[] }
+): { roomId: string; room: any; engine: GameEngine; player: RoomPlayer; discardIndexes: number[] } | null {
+  const roomId = getRoomIdOrError(socket);
+  if (!roomId) return null;
+  const room = getRoomOrError(roomId, socket);
+  if (!room) return null;
+  const engine = getEngineOrError(roomId, socket);
+  if (!engine) return null;
+
+  const player = getDrawPlayer(room, socket);
+  if (!player) return null;
+
+  if (!room.gameState.isDrawPhase || room.gameState.status !== 'VANISH') {
+    socket.emit('error', { message: 'Not in vanish phase' });
+    return null;
+  }
+  if (!validateDrawEligibility(player, socket)) return null;
+  if (!validateDrawNotCompleted(room, socket)) return null;
+
+  const vanishCount = getVariantConfig(room.gameState.gameVariant).vanishCards ?? 0;
+  const discardIndexes = parseDiscardIndexes(data, player, vanishCount, socket);
+  if (!discardIndexes) return null;
+  if (discardIndexes.length !== vanishCount) {
+    socket.emit('error', { message: `You must vanish exactly ${vanishCount} cards` });
+    return null;
+  }
+
   return { roomId, room, engine, player, discardIndexes };
 }
 
@@ -1357,7 +2777,8 @@ function getDrawPlayer(room: any, socket: any): RoomPlayer | null {
 function validateDrawPhase(room: any, socket: any): boolean {
   const status = room.gameState.status;
   const isDrawPhase = room.gameState.isDrawPhase;
-  if (!isDrawPhase || (status !== 'FIRST_DRAW' && status !== 'SECOND_DRAW' && status !== 'THIRD_DRAW')) {
+  const drawStatuses = ['FIRST_DRAW', 'SECOND_DRAW', 'THIRD_DRAW', 'DRAMAHA_DRAW'];
+  if (!isDrawPhase || !drawStatuses.includes(status)) {
     socket.emit('error', { message: 'Not in draw exchange phase' });
     return false;
   }
@@ -1421,11 +2842,66 @@ function validateQuickJoinBuyIn(room: any, buyIn: number, socket: any): boolean
   return true;
 }
 
+/**
+ * ストラドル設定を検証（未知の方式は GameEngine で mississippi 扱いになるため受け付けない）
+ */
+function validateStraddleConfig(config: { straddlePolicy?: unknown; maxStraddles?: unknown }, socket: any): boolean {
+  if (config.straddlePolicy !== undefined && !STRADDLE_POLICIES.includes(config.straddlePolicy as string)) {
+    socket.emit('error', { message: `straddlePolicy must be one of: ${STRADDLE_POLICIES.join(', ')}` });
+    return false;
+  }
+  const maxStraddles = config.maxStraddles;
+  if (maxStraddles !== undefined &&
+      (!Number.isInteger(maxStraddles) || (maxStraddles as number) < 0 || (maxStraddles as number) > MAX_STRADDLES_LIMIT)) {
+    socket.emit('error', { message: `maxStraddles must be an integer between 0 and ${MAX_STRADDLES_LIMIT}` });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * アンティ設定を検証（未知の方式は Dealer.collectAntes で1人払い扱いになるため受け付けない）
+ */
+function validateAnteConfig(config: { anteType?: unknown; anteAmount?: unknown }, socket: any): boolean {
+  if (config.anteType !== undefined && !ANTE_TYPES.includes(config.anteType as string)) {
+    socket.emit('error', { message: `anteType must be one of: ${ANTE_TYPES.join(', ')}` });
+    return false;
+  }
+  const anteAmount = config.anteAmount;
+  if (anteAmount !== undefined && (!Number.isInteger(anteAmount) || (anteAmount as number) < 0)) {
+    socket.emit('error', { message: 'anteAmount must be a non-negative integer' });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * レーキ設定を検証（率が100%を超えるとポットがマイナスになる）
+ */
+function validateRakeConfig(config: { rake?: unknown }, socket: any): boolean {
+  if (config.rake === undefined) return true;
+  const rake = config.rake as Partial<RakePolicy> | null;
+  const isChipAmount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+  if (typeof rake !== 'object' || rake === null ||
+      typeof rake.percent !== 'number' || !(rake.percent >= 0 && rake.percent <= 100)) {
+    socket.emit('error', { message: 'rake.percent must be between 0 and 100' });
+    return false;
+  }
+  if ((rake.cap !== undefined && !isChipAmount(rake.cap)) ||
+      (rake.capsByPlayers !== undefined && (!Array.isArray(rake.capsByPlayers) ||
+        !rake.capsByPlayers.every(t => isChipAmount(t?.minPlayers) && isChipAmount(t?.cap))))) {
+    socket.emit('error', { message: 'Rake caps and player thresholds must be non-negative integers' });
+    return false;
+  }
+  return true;
+}
+
 function removeExistingPlayerSession(room: any, socket: any, user: any, roomId: string) {
   const existingPlayerIndex = room.players.findIndex(p => {
     if (!p) return false;
     if (p.socketId === socket.id) return true;
-    if (user?.userId && p.userId === user.userId) return true;
+    // 同じアカウントの別セッションを置き換える（外部BOTはAPIキーごとに別の参加者）
+    if (user?.userId && p.userId === user.userId && !p.apiBot && !socket.data?.bot) return true;
     return false;
   });
 
@@ -1445,6 +2921,7 @@ function removeExistingPlayerSession(room: any, socket: any, user: any, roomId:
     }
   }
 
+  settlePlayer(roomId, oldPlayer);
   room.players[existingPlayerIndex] = null;
 }
 
@@ -1462,11 +2939,45 @@ function createQuickJoinPlayer(socket: any, user: any, room: any, buyIn: number)
     pendingJoin: !isWaiting,
     waitingForBB: !isWaiting && variantConfig.hasButton,
     disconnected: false,
+    resumeToken: randomUUID(),
     userId: user?.userId,
-    avatarIcon: user?.avatarIcon
+    avatarIcon: user?.avatarIcon,
+    ...(socket.data?.bot ? { apiBot: true } : {})
   };
 }
 
+/**
+ * 着席処理中に切断した場合は着席させない（台帳は返金される）
+ */
+function assertStillConnected(socket: any) {
+  if (!socket.connected) {
+    throw new Error('Disconnected before being seated');
+  }
+}
+
+/**
+ * バイインを台帳に記帳してから空席に着席させる（quick-join / join-private-room。ゲストはハウス資金なので記帳を待たない）
+ * 残高不足・記帳中に満席になった場合は Error（記帳済みなら返金）
+ * @returns 着席した席番号
+ */
+async function seatWithBuyIn(socket: any, user: any, room: any, amount: number): Promise<number> {
+  let seatIndex = -1;
+  await buyIn(accountForPlayer({ userId: user?.userId }), room.id, amount, 'BUY_IN', () => {
+    assertStillConnected(socket);
+    assertNoSameAccountBot(room, socket);
+    if (!roomManager.getRoomById(room.id)) {
+      throw new Error('Room not found');
+    }
+    const seat = findRandomEmptySeat(room.players);
+    if (seat === null) {
+      throw new Error('Room is full');
+    }
+    roomManager.sitDown(room.id, seat, createQuickJoinPlayer(socket, user, room, amount));
+    seatIndex = seat;
+  });
+  return seatIndex;
+}
+
 const app = express();
 const isProduction = process.env.NODE_ENV === 'production';
 
@@ -1498,9 +3009,24 @@ app.use(express.json());
 // 認証APIルート
 app.use('/api/auth', authRoutes);
 
+// 外部BOT API のAPIキー
+app.use('/api/bot-keys', botKeyRoutes);
+
 // 統計APIルート
 app.use('/api/stats', statsRoutes);
 
+// ウォレットAPIルート
+app.use('/api/wallet', walletRoutes);
+
+// エクイティ計算APIルート
+app.use('/api/equity', equityRoutes);
+
+// ハンド履歴エクスポートAPIルート
+app.use('/api/hands', handHistoryRoutes);
+
+// Provably Fair 検証APIルート
+app.use('/api/fairness', fairnessRoutes);
+
 // ヘルスチェック用エンドポイント（全環境共通）
 app.get('/api/health', (_req, res) => {
   res.json({ status: 'ok', message: 'Mix Poker Game Server is running' });
@@ -1546,7 +3072,27 @@ const io = new Server(httpServer, {
 });
 
 // Socket.IO認証ミドルウェア
-io.use((socket, next) => {
+io.use(async (socket, next) => {
+  // 外部BOT: APIキーかプロトコルのバージョンが合わなければ接続を拒否（ゲスト扱いにはしない）
+  const botKey = socket.handshake.auth?.botKey;
+  if (botKey) {
+    if (!isSupportedProtocolVersion(socket.handshake.auth?.protocolVersion)) {
+      return next(new Error(`Unsupported bot protocol version (server: ${BOT_PROTOCOL_VERSION})`));
+    }
+    try {
+      const bot = await verifyBotApiKey(botKey);
+      if (!bot) {
+        return next(new Error('Invalid bot API key'));
+      }
+      socket.data.bot = bot;
+      socket.data.user = bot.user;
+      return next();
+    } catch (error) {
+      console.error('❌ Bot API key verification failed:', error);
+      return next(new Error('Bot authentication failed'));
+    }
+  }
+
   const token = socket.handshake.auth?.token;
   if (token) {
     const user = verifyToken(token);
@@ -1563,13 +3109,28 @@ io.use((socket, next) => {
 
 io.on('connection', (socket) => {
   const user = socket.data.user;
-  console.log(`🔥 Player connected! ID: ${socket.id}, User: ${user?.displayName || 'Guest'}`);
+  console.log(`🔥 Player connected! ID: ${socket.id}, User: ${user?.displayName || 'Guest'}${socket.data.bot ? ' (bot)' : ''}`);
+
+  if (socket.data.bot) {
+    const hello: BotHello = {
+      protocolVersion: BOT_PROTOCOL_VERSION,
+      name: socket.data.bot.name,
+      decisionTimeoutMs: BOT_DECISION_TIMEOUT_MS
+    };
+    socket.emit('bot-hello', hello);
+  }
 
   // ========== Room Management Events ==========
 
   // 部屋参加
   socket.on('join-room', (data: JoinRoomRequest) => {
     try {
+      stopSpectating(socket, io);
+      // マルチテーブル: 卓を移動していても今の卓に戻す（roomId は大会IDか前の卓）
+      const tournamentTableId = data.resumeToken && mttCoordinator.findTableByResumeToken(data.resumeToken);
+      if (tournamentTableId) {
+        data = { ...data, roomId: tournamentTableId };
+      }
       const existingRoomId = getRoomIdFromSocket(socket);
       if (existingRoomId && existingRoomId !== data.roomId) {
         handleRoomExit(socket, existingRoomId, io);
@@ -1598,9 +3159,13 @@ io.on('connection', (socket) => {
 
           // セッション追跡: socketId移行
           migrateSession(previousSocketId, socket.id);
+          chatManager.migrateSocket(previousSocketId, socket.id);
 
           existingPlayer.socketId = socket.id;
           existingPlayer.disconnected = false;
+          if (room.hostId === previousSocketId) {
+            room.hostId = socket.id;
+          }
           (socket.data as any).playerName = existingPlayer.name;
           if (room.gameState.status === 'WAITING' && existingPlayer.status === 'SIT_OUT' && !existingPlayer.pendingSitOut) {
             existingPlayer.status = 'ACTIVE';
@@ -1618,6 +3183,8 @@ io.on('connection', (socket) => {
           logEvent('room_resumed', { roomId: data.roomId, playerName: existingPlayer.name });
           incrementMetric('room_resumed');
           broadcastRoomState(data.roomId, room, io);
+          // 再起動で復元した卓は、戻ったプレイヤーで再開
+          scheduleNextHand(data.roomId, io);
           return;
         }
       }
@@ -1630,15 +3197,217 @@ io.on('connection', (socket) => {
       (socket.data as any).roomId = data.roomId;
       (socket.data as any).roomId = data.roomId;
 
-      socket.emit('room-joined', {
-        room: sanitizeRoomForViewer(room, socket.id),
-        yourSocketId: socket.id,
-        yourHand: null
-      });
+      socket.emit('room-joined', {
+        room: sanitizeRoomForViewer(room, socket.id),
+        yourSocketId: socket.id,
+        yourHand: null
+      });
+
+      console.log(`🚪 ${data.playerName} joined room ${data.roomId}`);
+      logEvent('room_joined', { roomId: data.roomId, playerName: data.playerName });
+      incrementMetric('room_joined');
+    } catch (error: any) {
+      socket.emit('error', { message: error.message });
+    }
+  });
+
+  // 観戦（着席せずに観る。プレイヤーとは別の Socket.IO ルームで、手札は伏せた状態を受け取る）
+  socket.on('spectate-room', (data: { roomId: string }) => {
+    try {
+      const room = roomManager.getRoomById(data?.roomId);
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
+      // パスワード付きの部屋は観戦不可（パスワードなしで中を覗けてしまうため）
+      if (room.config.password) {
+        socket.emit('error', { message: 'This room cannot be spectated' });
+        return;
+      }
+      // 着席中の卓は観戦不可（別タブ・同じアカウントでもディレイ配信の手札を見られないように）
+      const userId = socket.data.user?.userId;
+      if (room.players.some(p => p && (p.socketId === socket.id || (userId && p.userId === userId)))) {
+        socket.emit('error', { message: 'You cannot spectate a table you are seated at' });
+        return;
+      }
+
+      // プレイヤーとして部屋にいれば退出してから観戦
+      const existingRoomId = getRoomIdFromSocket(socket);
+      if (existingRoomId) {
+        handleRoomExit(socket, existingRoomId, io, { leaveRoom: true });
+        delete (socket.data as any).roomId;
+      }
+      stopSpectating(socket, io);
+
+      const name = socket.data.user?.displayName || 'Spectator';
+      roomManager.addSpectator(room.id, socket.id, name);
+      socket.join(spectatorChannel(room.id));
+      // 参加時点の状態は手札なし（ディレイ配信は次の更新から）
+      socket.emit('spectate-joined', {
+        room: sanitizeRoomForSpectator(room, false),
+        spectatorCount: roomManager.getSpectatorCount(room.id),
+      });
+
+      console.log(`👁️ ${name} is spectating room ${room.id}`);
+      logEvent('spectate_joined', { roomId: room.id, playerName: name });
+      io.to('lobby').emit('room-list-update', roomManager.getAllRooms());
+    } catch (error: any) {
+      socket.emit('error', { message: error.message });
+    }
+  });
+
+  // テーブルチャット
+  socket.on('chat-message', (data: { text: string }) => {
+    try {
+      const roomId = getRoomIdFromSocket(socket);
+      if (!roomId) {
+        socket.emit('error', { message: 'You are not in any room' });
+        return;
+      }
+      const room = roomManager.getRoomById(roomId);
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
+      if (!checkChatRateLimit(socket, roomId, Date.now())) return;
+
+      const player = room.players.find(p => p?.socketId === socket.id);
+      const message = chatManager.postPlayerMessage(room, {
+        socketId: socket.id,
+        userId: player?.userId ?? socket.data.user?.userId,
+        resumeToken: player?.resumeToken,
+        name: player?.name || socket.data.user?.displayName || (socket.data as any).playerName || 'Guest',
+      }, data?.text);
+      deliverChatMessage(roomId, io, message);
+    } catch (error: any) {
+      socket.emit('error', { message: error.message });
+    }
+  });
+
+  // 個人ミュート（自分にだけ相手の発言を表示しない）
+  socket.on('mute-player', (data: { playerId: string; muted: boolean }) => {
+    if (typeof data?.playerId !== 'string' || data.playerId === socket.id) return;
+    chatManager.setMuted(socket.id, data.playerId, !!data.muted);
+    socket.emit('mute-updated', { playerId: data.playerId, muted: !!data.muted });
+  });
+
+  // ホストミュート（Private卓: 部屋全体で発言不可にする）
+  socket.on('host-mute-player', (data: { playerId: string; muted: boolean }) => {
+    try {
+      const roomId = getRoomIdFromSocket(socket);
+      const room = roomId ? roomManager.getRoomById(roomId) : null;
+      if (!roomId || !room) {
+        socket.emit('error', { message: 'You are not in any room' });
+        return;
+      }
+      if (room.hostId !== socket.id) {
+        socket.emit('error', { message: 'Only the room host can mute players' });
+        return;
+      }
+      const target = room.players.find(p => p?.socketId === data?.playerId);
+      if (!target || target.socketId === socket.id) {
+        socket.emit('error', { message: 'Player not found' });
+        return;
+      }
+
+      chatManager.setHostMuted(room, target, !!data.muted);
+      emitDealerMessage(roomId, io, `${target.name} was ${data.muted ? 'muted' : 'unmuted'} by the host`);
+      broadcastRoomState(roomId, room, io);
+    } catch (error: any) {
+      socket.emit('error', { message: error.message });
+    }
+  });
+
+  // BOT追加（ホストのみ、OFC以外。OFC は ofc-add-bot）
+  socket.on('add-bot', (data: { style?: BotStyle }) => {
+    try {
+      const roomId = getRoomIdFromSocket(socket);
+      const room = roomId ? roomManager.getRoomById(roomId) : null;
+      if (!roomId || !room) {
+        socket.emit('error', { message: 'You are not in any room' });
+        return;
+      }
+      if (room.hostId !== socket.id) {
+        socket.emit('error', { message: 'Only the room host can add bots' });
+        return;
+      }
+      if (room.gameState.gameVariant === 'OFC' || room.tournament) {
+        socket.emit('error', { message: 'Bots are not available at this table' });
+        return;
+      }
+      const style = data?.style ?? 'tight';
+      if (!isBotStyle(style)) {
+        socket.emit('error', { message: 'Unknown bot style' });
+        return;
+      }
+      const seatIndex = findRandomEmptySeat(room.players);
+      if (seatIndex === null) {
+        socket.emit('error', { message: 'No empty seats' });
+        return;
+      }
+
+      // 途中参加は人間の着席と同じく次のハンドから（ボタンのあるゲームはBB待ち）
+      const isWaiting = room.gameState.status === 'WAITING';
+      const bot: RoomPlayer = {
+        socketId: `bot-${roomId}-${seatIndex}`,
+        name: `Bot ${seatIndex + 1}`,
+        stack: room.config.buyInMax || room.config.bigBlind * 100,
+        bet: 0,
+        totalBet: 0,
+        status: (isWaiting ? 'ACTIVE' : 'SIT_OUT') as PlayerStatus,
+        hand: null,
+        pendingJoin: !isWaiting,
+        waitingForBB: !isWaiting && getVariantConfig(room.gameState.gameVariant).hasButton,
+        disconnected: false,
+        botStyle: style
+      };
+      houseBuyIn(roomId, bot.stack);
+      roomManager.sitDown(roomId, seatIndex, bot);
+
+      console.log(`🤖 ${bot.name} (${style}) added at seat ${seatIndex}`);
+      emitDealerMessage(roomId, io, `${bot.name} (${style}) was added by the host`);
+      broadcastRoomState(roomId, room, io);
+      io.to('lobby').emit('room-list-update', roomManager.getAllRooms());
+      if (isWaiting) {
+        scheduleNextHand(roomId, io);
+      }
+    } catch (error: any) {
+      socket.emit('error', { message: error.message });
+    }
+  });
+
+  // BOT削除（ホストのみ。ハンド中なら終わってから席を空ける）
+  socket.on('remove-bot', (data: { seatIndex: number }) => {
+    try {
+      const roomId = getRoomIdFromSocket(socket);
+      const room = roomId ? roomManager.getRoomById(roomId) : null;
+      if (!roomId || !room) {
+        socket.emit('error', { message: 'You are not in any room' });
+        return;
+      }
+      if (room.hostId !== socket.id) {
+        socket.emit('error', { message: 'Only the room host can remove bots' });
+        return;
+      }
+      const bot = room.players[data?.seatIndex];
+      if (!bot?.botStyle) {
+        socket.emit('error', { message: 'Bot not found' });
+        return;
+      }
+
+      if (room.gameState.status === 'WAITING') {
+        clearBotTimer(bot.socketId);
+        settlePlayer(roomId, bot);
+        room.players[data.seatIndex] = null;
+      } else {
+        bot.pendingLeave = true;
+        bot.pendingSitOut = true;
+      }
 
-      console.log(`🚪 ${data.playerName} joined room ${data.roomId}`);
-      logEvent('room_joined', { roomId: data.roomId, playerName: data.playerName });
-      incrementMetric('room_joined');
+      console.log(`🤖 ${bot.name} removed from seat ${data.seatIndex}`);
+      emitDealerMessage(roomId, io, `${bot.name} was removed by the host`);
+      broadcastRoomState(roomId, room, io);
+      io.to('lobby').emit('room-list-update', roomManager.getAllRooms());
     } catch (error: any) {
       socket.emit('error', { message: error.message });
     }
@@ -1653,6 +3422,7 @@ io.on('connection', (socket) => {
 
   // 部屋退出
   socket.on('leave-room', () => {
+    stopSpectating(socket, io);
     const roomId = getRoomIdFromSocket(socket);
     if (!roomId) return;
     try {
@@ -1666,7 +3436,7 @@ io.on('connection', (socket) => {
   });
 
   // 着席
-  socket.on('sit-down', (data: SitDownRequest) => {
+  socket.on('sit-down', async (data: SitDownRequest) => {
     try {
       const roomId = getRoomIdFromSocket(socket);
       if (!roomId) {
@@ -1680,27 +3450,41 @@ io.on('connection', (socket) => {
         return;
       }
 
-      // socket.dataにplayerNameを保存しておく（join-room時に設定することを想定）
-      const playerName = (socket.data as any).playerName || 'Anonymous';
-      const variantConfig = getVariantConfig(room.gameState.gameVariant);
-      const isWaiting = room.gameState.status === 'WAITING';
+      if (room.tournament) {
+        socket.emit('error', { message: 'Register for the tournament to take a seat' });
+        return;
+      }
 
-      // 着席するプレイヤー情報を作成
-      const player: RoomPlayer = {
-        socketId: socket.id,
-        name: playerName,
-        stack: data.buyIn,
-        bet: 0,
-        totalBet: 0,
-        status: (isWaiting ? 'ACTIVE' : 'SIT_OUT') as PlayerStatus,
-        hand: null,
-        resumeToken: data.resumeToken,
-        pendingJoin: !isWaiting,
-        waitingForBB: !isWaiting && variantConfig.hasButton,
-        disconnected: false
-      };
+      // socket.dataにplayerNameを保存しておく（join-room時に設定することを想定）。外部BOTはAPIキーの名前
+      const playerName = socket.data?.bot?.name || (socket.data as any).playerName || 'Anonymous';
+      const userId: string | undefined = socket.data?.user?.userId;
+
+      // バイインを台帳に記帳してから着席（残高不足ならエラー。ゲストは記帳を待たない）
+      await buyIn(accountForPlayer({ userId }), roomId, data.buyIn, 'BUY_IN', () => {
+        assertStillConnected(socket);
+        assertNoSameAccountBot(room, socket);
+        const variantConfig = getVariantConfig(room.gameState.gameVariant);
+        const isWaiting = room.gameState.status === 'WAITING';
+
+        // 着席するプレイヤー情報を作成
+        const player: RoomPlayer = {
+          socketId: socket.id,
+          name: playerName,
+          stack: data.buyIn,
+          bet: 0,
+          totalBet: 0,
+          status: (isWaiting ? 'ACTIVE' : 'SIT_OUT') as PlayerStatus,
+          hand: null,
+          resumeToken: data.resumeToken,
+          pendingJoin: !isWaiting,
+          waitingForBB: !isWaiting && variantConfig.hasButton,
+          disconnected: false,
+          userId,
+          ...(socket.data?.bot ? { apiBot: true } : {})
+        };
 
-      roomManager.sitDown(roomId, data.seatIndex, player);
+        roomManager.sitDown(roomId, data.seatIndex, player);
+      });
 
       console.log(`✅ ${playerName} sat down at seat ${data.seatIndex}`);
       logEvent('sit_down', { roomId, playerName, seatIndex: data.seatIndex });
@@ -1722,8 +3506,9 @@ io.on('connection', (socket) => {
   });
 
   // クイック参加（join-room + 自動着席を1アクションで）
-  socket.on('quick-join', (data: { roomId: string; buyIn: number }) => {
+  socket.on('quick-join', async (data: { roomId: string; buyIn: number }) => {
     try {
+      stopSpectating(socket, io);
       // 既に別の部屋にいる場合は退出
       const existingRoomId = getRoomIdFromSocket(socket);
       if (existingRoomId && existingRoomId !== data.roomId) {
@@ -1736,6 +3521,11 @@ io.on('connection', (socket) => {
         return;
       }
 
+      if (room.tournament) {
+        socket.emit('error', { message: 'Register for the tournament to take a seat' });
+        return;
+      }
+
       // バイイン額チェック
       if (!validateQuickJoinBuyIn(room, data.buyIn, socket)) {
         return;
@@ -1748,12 +3538,14 @@ io.on('connection', (socket) => {
       removeExistingPlayerSession(room, socket, user, data.roomId);
 
       // 空席を探す
-      const seatIndex = findRandomEmptySeat(room.players);
-      if (seatIndex === null) {
+      if (findRandomEmptySeat(room.players) === null) {
         socket.emit('error', { message: 'Room is full' });
         return;
       }
 
+      // バイインを台帳に記帳してから着席（記帳中に満席になった場合は返金）
+      const seatIndex = await seatWithBuyIn(socket, user, room, data.buyIn);
+
       // socket.dataにplayerNameを保存
       (socket.data as any).playerName = playerName;
 
@@ -1763,10 +3555,6 @@ io.on('connection', (socket) => {
       // ロビーから離脱
       socket.leave('lobby');
 
-      const player = createQuickJoinPlayer(socket, user, room, data.buyIn);
-
-      roomManager.sitDown(data.roomId, seatIndex, player);
-
       console.log(`⚡ ${playerName} quick-joined room ${data.roomId} at seat ${seatIndex}`);
       logEvent('quick_join', { roomId: data.roomId, playerName, seatIndex, buyIn: data.buyIn });
       incrementMetric('quick_join');
@@ -1799,8 +3587,152 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Sit & Go 登録（参加費を賞金プールに入れて着席、満席で開始。取り消しは leave-room）
+  socket.on('tournament-register', async (data: { roomId: string }) => {
+    try {
+      stopSpectating(socket, io);
+      const existingRoomId = getRoomIdFromSocket(socket);
+      if (existingRoomId && existingRoomId !== data.roomId) {
+        handleRoomExit(socket, existingRoomId, io);
+      }
+
+      const room = roomManager.getRoomById(data.roomId);
+      if (!room?.tournament || isMultiTableTournament(room.tournament)) {
+        socket.emit('error', { message: 'Tournament not found' });
+        return;
+      }
+      if (socket.data?.bot) {
+        socket.emit('error', { message: 'Bots can only play cash tables' });
+        return;
+      }
+
+      const user = socket.data?.user;
+      const alreadyRegistered = room.players.some(p =>
+        p && (p.socketId === socket.id || (user?.userId && p.userId === user.userId))
+      );
+      if (alreadyRegistered) {
+        socket.emit('error', { message: 'Already registered' });
+        return;
+      }
+
+      // 参加費を台帳に記帳してから着席（記帳中に締め切り・満席になった場合は返金）
+      let seatIndex = -1;
+      await buyIn(accountForPlayer({ userId: user?.userId }), room.id, room.tournament.config.buyIn, 'BUY_IN', () => {
+        assertStillConnected(socket);
+        const tournament = room.tournament!;
+        if (tournament.status !== 'REGISTERING') {
+          throw new Error('Registration is closed');
+        }
+        const seat = findRandomEmptySeat(room.players);
+        if (seat === null) {
+          throw new Error('Tournament is full');
+        }
+        roomManager.sitDown(room.id, seat, createQuickJoinPlayer(socket, user, room, tournament.config.startingStack));
+        registerEntry(tournament);
+        seatIndex = seat;
+      });
+
+      const playerName = user?.displayName || 'Guest';
+      (socket.data as any).playerName = playerName;
+      socket.join(`room:${data.roomId}`);
+      (socket.data as any).roomId = data.roomId;
+      socket.leave('lobby');
+
+      console.log(`📝 ${playerName} registered for Sit & Go ${data.roomId} at seat ${seatIndex}`);
+      logEvent('tournament_register', { roomId: data.roomId, playerName, seatIndex });
+      incrementMetric('tournament_register');
+
+      socket.emit('room-joined', {
+        room: sanitizeRoomForViewer(room, socket.id),
+        yourSocketId: socket.id,
+        yourHand: null
+      });
+      socket.emit('sit-down-success', { seatIndex });
+      broadcastRoomState(data.roomId, room, io);
+      io.to('lobby').emit('room-list-update', roomManager.getAllRooms());
+
+      if (canStart(room)) {
+        startSitAndGo(data.roomId, room, io);
+      }
+    } catch (error: any) {
+      console.error(`❌ Tournament registration failed: ${error.message}`);
+      socket.emit('error', { message: error.message });
+    }
+  });
+
+  // マルチテーブルトーナメント一覧（ロビー）
+  socket.on('get-tournament-list', () => {
+    socket.join('lobby');
+    const user = socket.data?.user;
+    socket.emit('tournament-list-update', mttCoordinator.getListItems());
+    socket.emit('mtt-registrations', {
+      tournamentIds: mttCoordinator.list()
+        .filter(t => mttCoordinator.findRegistration(t.id, socket.id, user?.userId))
+        .map(t => t.id)
+    });
+  });
+
+  // マルチテーブルトーナメント登録（参加費を大会の賞金プールに入れる。定員に達したら開始して卓へ移す）
+  socket.on('mtt-register', async (data: { tournamentId: string }) => {
+    try {
+      const tournament = mttCoordinator.getTournament(data.tournamentId);
+      if (!tournament) {
+        socket.emit('error', { message: 'Tournament not found' });
+        return;
+      }
+      if (socket.data?.bot) {
+        socket.emit('error', { message: 'Bots can only play cash tables' });
+        return;
+      }
+
+      const user = socket.data?.user;
+      let player: RoomPlayer | null = null;
+      await buyIn(accountForPlayer({ userId: user?.userId }), tournament.id, tournament.config.buyIn, 'BUY_IN', () => {
+        assertStillConnected(socket);
+        player = mttCoordinator.register(tournament.id, {
+          socketId: socket.id,
+          name: user?.displayName || 'Guest',
+          userId: user?.userId,
+          avatarIcon: user?.avatarIcon
+        });
+      });
+
+      console.log(`📝 ${player!.name} registered for ${tournament.name} (${tournament.entrants}/${tournament.config.maxEntrants})`);
+      logEvent('tournament_register', { tournamentId: tournament.id, playerName: player!.name });
+      incrementMetric('tournament_register');
+
+      socket.emit('mtt-registered', { tournamentId: tournament.id, resumeToken: player!.resumeToken });
+      broadcastTournamentList(io);
+
+      if (mttCoordinator.canStart(tournament.id)) {
+        startMultiTable(tournament.id, io);
+      }
+    } catch (error: any) {
+      console.error(`❌ Tournament registration failed: ${error.message}`);
+      socket.emit('error', { message: error.message });
+    }
+  });
+
+  // マルチテーブルトーナメントの登録取り消し（開始前のみ、参加費は返金）
+  socket.on('mtt-unregister', (data: { tournamentId: string }) => {
+    try {
+      const user = socket.data?.user;
+      const player = mttCoordinator.unregister(data.tournamentId, socket.id, user?.userId);
+      if (!player) {
+        socket.emit('error', { message: 'Not registered' });
+        return;
+      }
+      cashOut(accountForPlayer(player), data.tournamentId, mttCoordinator.getTournament(data.tournamentId)!.config.buyIn);
+      socket.emit('mtt-unregistered', { tournamentId: data.tournamentId });
+      broadcastTournamentList(io);
+    } catch (error: any) {
+      console.error(`❌ Tournament unregistration failed: ${error.message}`);
+      socket.emit('error', { message: error.message });
+    }
+  });
+
   // リバイ（チップ追加）
-  socket.on('rebuy', (data: { amount: number }) => {
+  socket.on('rebuy', async (data: { amount: number }) => {
     try {
       const roomId = getRoomIdFromSocket(socket);
       if (!roomId) {
@@ -1821,6 +3753,11 @@ io.on('connection', (socket) => {
         return;
       }
 
+      if (room.tournament) {
+        socket.emit('error', { message: 'Rebuys are not available in tournaments' });
+        return;
+      }
+
       // ゲーム中はリバイ不可
       if (room.gameState.status !== 'WAITING') {
         socket.emit('error', { message: 'Cannot rebuy during a hand' });
@@ -1840,9 +3777,21 @@ io.on('connection', (socket) => {
         return;
       }
 
-      // リバイ実行
-      player.stack = newStack;
-      console.log(`💰 ${player.name} rebought for ${data.amount} (new stack: ${newStack})`);
+      // リバイ実行（台帳に記帳してからスタックへ反映）
+      await buyIn(accountForPlayer(player), roomId, data.amount, 'REBUY', () => {
+        // 記帳中に離席・ハンド開始した場合は返金
+        if (!room.players.includes(player) || player.pendingLeave) {
+          throw new Error('You are not seated');
+        }
+        if (room.gameState.status !== 'WAITING') {
+          throw new Error('Cannot rebuy during a hand');
+        }
+        if (player.stack + data.amount > buyInMax) {
+          throw new Error(`Maximum buy-in is ${buyInMax}`);
+        }
+        player.stack += data.amount;
+      });
+      console.log(`💰 ${player.name} rebought for ${data.amount} (new stack: ${player.stack})`);
 
       // セッション追跡: アドオン記録
       recordAddOn(socket.id, data.amount);
@@ -1854,7 +3803,7 @@ io.on('connection', (socket) => {
       }
 
       // リバイ成功を通知
-      socket.emit('rebuy-success', { amount: data.amount, newStack });
+      socket.emit('rebuy-success', { amount: data.amount, newStack: player.stack });
 
       // 部屋内の全員に更新を通知
       broadcastRoomState(roomId, room, io);
@@ -1927,6 +3876,99 @@ io.on('connection', (socket) => {
     }
   });
 
+  // ストラドル希望トグル（次のハンドから、ストラドル可能な席の時に投稿される）
+  socket.on('toggle-straddle', (data: { enabled: boolean }) => {
+    try {
+      const roomId = getRoomIdFromSocket(socket);
+      if (!roomId) {
+        socket.emit('error', { message: 'You are not in any room' });
+        return;
+      }
+
+      const room = roomManager.getRoomById(roomId);
+      if (!room) {
+        socket.emit('error', { message: 'Room not found' });
+        return;
+      }
+
+      const player = room.players.find(p => p?.socketId === socket.id);
+      if (!player) {
+        socket.emit('error', { message: 'You are not seated' });
+        return;
+      }
+
+      if ((room.config.straddlePolicy ?? 'none') === 'none') {
+        socket.emit('error', { message: 'Straddles are not enabled in this room' });
+        return;
+      }
+
+      player.straddleNextHand = !!data.enabled;
+      console.log(`🎲 ${player.name} ${player.straddleNextHand ? 'will straddle' : 'stopped straddling'} (policy: ${room.config.straddlePolicy})`);
+      broadcastRoomState(roomId, room, io);
+
+    } catch (error: any) {
+      socket.emit('error', { message: error.message });
+    }
+  });
+
+  // Provably Fair: クライアントシードを設定（次のハンドのシャッフルから使われる）
+  socket.on('set-client-seed', (data: { seed: string }) => {
+    try {
+      const roomId = getRoomIdFromSocket(socket);
+      if (!roomId) {
+        socket.emit('error', { message: 'You are not in any room' });
+        return;
+      }
+
+      const room = roomManager.getRoomById(roomId);
+      const player = room?.players.find(p => p?.socketId === socket.id);
+      if (!player) {
+        socket.emit('error', { message: 'You are not seated' });
+        return;
+      }
+
+      const seed = typeof data?.seed === 'string' ? data.seed.trim() : '';
+      if (seed.length === 0 || seed.length > MAX_CLIENT_SEED_LENGTH) {
+        socket.emit('error', { message: `Client seed must be 1-${MAX_CLIENT_SEED_LENGTH} characters` });
+        return;
+      }
+
+      player.clientSeed = seed;
+      console.log(`🔐 ${player.name} set client seed`);
+
+    } catch (error: any) {
+      socket.emit('error', { message: error.message });
+    }
+  });
+
+  // 開発用: ルームのデッキソースを指定（シード固定/スクリプト、null で通常のシャッフル）。本番では無効
+  socket.on('dev-set-deck-source', (data: { source: unknown }) => {
+    try {
+      if (isProduction) {
+        socket.emit('error', { message: 'Deck sources are disabled in production' });
+        return;
+      }
+
+      const roomId = getRoomIdFromSocket(socket);
+      const room = roomId ? roomManager.getRoomById(roomId) : undefined;
+      if (!roomId || !room) {
+        socket.emit('error', { message: 'You are not in any room' });
+        return;
+      }
+
+      const variantConfig = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
+      const deckType = room.gameState.gameVariant === 'OFC' ? 'ofc' : variantConfig.deckType ?? 'standard';
+      const source = parseDeckSource(data?.source, deckType);
+
+      getGameEngine(roomId).setDeckSource(source);
+      getOFCEngine(roomId).setDeckSource(source);
+      console.log(`🧪 Room ${roomId} deck source: ${source ? source.type : 'random'}`);
+
+    } catch (error: any) {
+      socket.emit('error', { message: error.message });
+    }
+  });
+
   // ========== Phase 3-B: Game Engine Events ==========
 
   // タイムバンク使用
@@ -1961,113 +4003,98 @@ io.on('connection', (socket) => {
 
   // プレイヤーアクション
   socket.on('player-action', (data: { type: ActionType; amount?: number; actionToken?: string }) => {
-    try {
-      const context = validatePlayerActionRequest(socket, data);
-      if (!context) return;
-      const { roomId, room, engine } = context;
-
-      // タイマーをクリア
-      clearPlayerTimer(socket.id);
-
-      actionInFlight.add(socket.id);
-      roomActionInFlight.add(roomId);
-      let result;
-      try {
-        // アクションを処理
-        result = engine.processAction(room, {
-          playerId: socket.id,
-          type: data.type,
-          amount: data.amount,
-          timestamp: Date.now()
-        });
-      } finally {
-        actionInFlight.delete(socket.id);
-        roomActionInFlight.delete(roomId);
-      }
+    handlePlayerAction(socket, data, io);
+  });
 
-      if (!result.success) {
-        socket.emit('action-invalid', { reason: result.error });
-        logEvent('action_invalid', { roomId, playerId: socket.id, reason: result.error });
-        incrementMetric('action_invalid', { reason: 'engine_reject' });
-        startPlayerTimer(roomId, socket.id, io);
+  // 外部BOT API: bot-decision-request への回答（アクションは player-action、ドローは draw-exchange と同じ処理）
+  socket.on('bot-decision', (data: BotDecision) => {
+    try {
+      const pending = botDecisions.get(socket.id);
+      if (!pending) {
+        socket.emit('error', { message: 'Unknown or expired decision' });
         return;
       }
-      actionTokens.delete(socket.id);
-
-      // アクション成功時は連続タイムアウトカウンターをリセット
-      consecutiveTimeouts.delete(socket.id);
-
-      // 全員に更新を送信（ショーダウン前に必ず送信してチップを表示）
-      broadcastRoomState(roomId, room, io);
-
-      // ショーダウンチェック
-      if (maybeHandleShowdown(roomId, room, io)) {
+      const decision = parseBotDecision(data, pending);
+
+      if (decision.kind === 'action') {
+        // betTo（このストリートの合計）を processAction の追加額に直す
+        const room = roomManager.getRoomById(pending.roomId);
+        const player = room?.players.find(p => p?.socketId === socket.id);
+        const amount = decision.betTo !== undefined && player ? decision.betTo - player.bet : undefined;
+        handlePlayerAction(socket, { type: decision.type, amount, actionToken: pending.decisionId }, io);
         return;
       }
 
-      // 次のアクティブプレイヤーに行動を促す
-      if (room.activePlayerIndex !== -1) {
-        const nextPlayer = room.players[room.activePlayerIndex];
-        if (nextPlayer) {
-          emitYourTurn(roomId, room, engine, io, nextPlayer);
-        }
+      if (decision.kind === 'vanish') {
+        const context = validateVanishRequest(socket, decision);
+        if (!context) return;
+        clearBotDecision(socket.id);
+        const { roomId, room, engine, player, discardIndexes } = context;
+        performVanish(roomId, room, engine, player, discardIndexes, io);
+        return;
       }
 
+      const context = validateDrawExchangeRequest(socket, decision);
+      if (!context) return;
+      clearBotDecision(socket.id);
+      const { roomId, room, engine, player, discardIndexes } = context;
+      performDrawExchange(roomId, room, engine, player, discardIndexes, decision.declaration, io);
     } catch (error: any) {
       socket.emit('error', { message: error.message });
     }
   });
 
   // ドロー交換（2-7 Triple Draw, Badugi用）
-  socket.on('draw-exchange', (data: { discardIndexes: number[] }) => {
+  socket.on('draw-exchange', (data: { discardIndexes: number[]; declaration?: 'high' | 'low' }) => {
     try {
       const context = validateDrawExchangeRequest(socket, data);
       if (!context) return;
       const { roomId, room, engine, player, discardIndexes } = context;
+      performDrawExchange(roomId, room, engine, player, discardIndexes, data.declaration, io);
+    } catch (error: any) {
+      socket.emit('error', { message: error.message });
+    }
+  });
 
-      // カード交換を実行
-      const deck = engine.getDeck();
-      const dealer = new Dealer();
-      dealer.exchangeDrawCards(deck, player, discardIndexes);
-
-      // 交換枚数を記録
-      player.drawDiscards = discardIndexes.length;
-
-      // ドロー完了をマーク
-      engine.markDrawComplete(room, socket.id);
-
-      console.log(`🔄 ${player.name} drew ${discardIndexes.length} cards`);
+  // Cry Me a River: リバー後のカード消失
+  socket.on('vanish-cards', (data: { discardIndexes: number[] }) => {
+    try {
+      const context = validateVanishRequest(socket, data);
+      if (!context) return;
+      const { roomId, room, engine, player, discardIndexes } = context;
+      performVanish(roomId, room, engine, player, discardIndexes, io);
+    } catch (error: any) {
+      socket.emit('error', { message: error.message });
+    }
+  });
 
-      // プレイヤーに新しい手札を送信
-      io.to(socket.id).emit('draw-complete', {
-        newHand: player.hand
-      });
+  // Run it Twice/3 Times 投票
+  socket.on('run-it-vote', (data: { runs: number }) => {
+    try {
+      const roomId = getRoomIdFromSocket(socket);
+      if (!roomId) {
+        socket.emit('error', { message: 'You are not in any room' });
+        return;
+      }
 
-      // 全プレイヤーに交換枚数を通知（手札は見せない）
-      io.to(`room:${roomId}`).emit('player-drew', {
-        playerId: socket.id,
-        playerName: player.name,
-        cardCount: discardIndexes.length
-      });
+      const vote = runItVotes.get(roomId);
+      if (!vote || !vote.voters.includes(socket.id)) {
+        socket.emit('error', { message: 'No run it vote in progress' });
+        return;
+      }
 
-      // 全員完了したかチェック
-      if (engine.checkDrawPhaseComplete(room)) {
-        // ベッティングフェーズに移行
-        console.log(`✅ All players completed draw - starting betting for ${room.gameState.status}`);
+      const runs = Number(data?.runs);
+      if (!Number.isInteger(runs) || runs < 1 || runs > vote.maxRuns) {
+        socket.emit('error', { message: `Runs must be between 1 and ${vote.maxRuns}` });
+        return;
+      }
 
-        // 全員に更新を送信
-        broadcastRoomState(roomId, room, io);
+      vote.votes.set(socket.id, runs);
+      emitToTable(roomId, io, 'run-it-voted', { playerId: socket.id, runs });
 
-        // アクティブプレイヤーに行動を促す
-        if (room.activePlayerIndex !== -1) {
-          const nextPlayer = room.players[room.activePlayerIndex];
-          if (nextPlayer) {
-            emitYourTurn(roomId, room, engine, io, nextPlayer);
-          }
-        }
-      } else {
-        // まだ全員完了していない場合のみ状態送信
-        broadcastRoomState(roomId, room, io);
+      // 1回を選んだ人がいれば確定、全員投票済みでも確定
+      if (runs === 1 || vote.voters.every(id => vote.votes.has(id))) {
+        vote.finish();
       }
 
     } catch (error: any) {
@@ -2164,6 +4191,7 @@ io.on('connection', (socket) => {
             hand: null,
             disconnected: false,
           };
+          houseBuyIn(room.id, room.players[i]!.stack);
           added = true;
           break;
         }
@@ -2194,6 +4222,7 @@ io.on('connection', (socket) => {
       const seat = data.seatIndex;
       if (seat >= 0 && seat < room.players.length &&
           room.players[seat]?.socketId.startsWith('bot-')) {
+        settlePlayer(roomId, room.players[seat]!);
         room.players[seat] = null;
         broadcastRoomState(roomId, room, io);
       }
@@ -2239,6 +4268,11 @@ io.on('connection', (socket) => {
     buyInMax?: number;
     timeLimit?: number;
     studAnte?: number;
+    anteType?: RoomConfig['anteType'];
+    anteAmount?: number;
+    straddlePolicy?: RoomConfig['straddlePolicy'];
+    maxStraddles?: number;
+    rake?: RoomConfig['rake'];
   }) => {
     try {
       const roomId = getRoomIdFromSocket(socket);
@@ -2258,6 +4292,9 @@ io.on('connection', (socket) => {
         socket.emit('error', { message: 'Cannot change config while game is in progress' });
         return;
       }
+      if (!validateStraddleConfig(data, socket)) return;
+      if (!validateRakeConfig(data, socket)) return;
+      if (!validateAnteConfig(data, socket)) return;
 
       // 設定を更新
       if (data.smallBlind !== undefined) {
@@ -2278,12 +4315,27 @@ io.on('connection', (socket) => {
       if (data.studAnte !== undefined) {
         room.config.studAnte = data.studAnte;
       }
+      if (data.anteType !== undefined) {
+        room.config.anteType = data.anteType;
+      }
+      if (data.anteAmount !== undefined) {
+        room.config.anteAmount = data.anteAmount;
+      }
+      if (data.straddlePolicy !== undefined) {
+        room.config.straddlePolicy = data.straddlePolicy;
+      }
+      if (data.maxStraddles !== undefined) {
+        room.config.maxStraddles = data.maxStraddles;
+      }
+      if (data.rake !== undefined) {
+        room.config.rake = data.rake;
+      }
 
-      console.log(`⚙️ Room ${roomId} config updated: SB=${room.config.smallBlind}, BB=${room.config.bigBlind}, Ante=${room.config.studAnte}`);
+      console.log(`⚙️ Room ${roomId} config updated: SB=${room.config.smallBlind}, BB=${room.config.bigBlind}, Ante=${room.config.studAnte}, AnteType=${room.config.anteType ?? 'default'}`);
 
       // 全員に更新を通知
       broadcastRoomState(roomId, room, io);
-      io.to(`room:${roomId}`).emit('config-updated', { config: room.config });
+      emitToTable(roomId, io, 'config-updated', { config: room.config });
 
     } catch (error: any) {
       socket.emit('error', { message: error.message });
@@ -2329,7 +4381,7 @@ io.on('connection', (socket) => {
 
       // 全員に更新を通知
       broadcastRoomState(roomId, room, io);
-      io.to(`room:${roomId}`).emit('meta-game-updated', { metaGame: room.metaGame });
+      emitToTable(roomId, io, 'meta-game-updated', { metaGame: room.metaGame });
 
     } catch (error: any) {
       socket.emit('error', { message: error.message });
@@ -2355,6 +4407,12 @@ io.on('connection', (socket) => {
         return;
       }
 
+      const invalidGame = data.gamesList?.find(game => !isValidGameId(game));
+      if (invalidGame) {
+        socket.emit('error', { message: `Invalid variant: ${invalidGame}` });
+        return;
+      }
+
       // ローテーション設定を更新
       room.rotation.enabled = data.enabled;
 
@@ -2362,7 +4420,7 @@ io.on('connection', (socket) => {
         room.rotation.gamesList = data.gamesList;
         room.rotation.currentGameIndex = 0;
         // 最初のゲームを設定
-        room.gameState.gameVariant = data.gamesList[0];
+        applyGameId(room.gameState, data.gamesList[0]);
       }
 
       if (data.handsPerGame !== undefined) {
@@ -2375,7 +4433,7 @@ io.on('connection', (socket) => {
 
       // 全員に更新を通知
       broadcastRoomState(roomId, room, io);
-      io.to(`room:${roomId}`).emit('rotation-updated', { rotation: room.rotation });
+      emitToTable(roomId, io, 'rotation-updated', { rotation: room.rotation });
 
     } catch (error: any) {
       socket.emit('error', { message: error.message });
@@ -2401,17 +4459,24 @@ io.on('connection', (socket) => {
       return;
     }
 
-    const validVariants = ['NLH', 'PLO', 'PLO8', '7CS', '7CS8', 'RAZZ', '2-7_TD', 'BADUGI'];
-    if (!validVariants.includes(variant)) {
+    const validVariants = [
+      'NLH', 'SD_NLH', 'PLO', 'PLO8', 'PLO_DB',
+      'FL_DRAMAHA_HI', 'FL_DRAMAHA_27', 'FL_DRAMAHA_BADUGI', 'FL_DRAMAHA_HIDUGI',
+      'FL_DRAMAHA_49', 'FL_DRAMAHA_0', 'FL_DRAMAHA_PICKEM',
+      'PL_CMRIVER1', 'PL_CMRIVER2',
+      '7CS', '7CS8', 'RAZZ', '2-7_TD', 'BADUGI'
+    ];
+    // "NLH@fixed" のようにベット構造を上書き可能
+    if (!isValidGameId(variant) || !validVariants.includes(parseGameId(variant).variant)) {
       socket.emit('error', { message: `Invalid variant: ${variant}` });
       return;
     }
 
-    room.gameState.gameVariant = variant;
+    applyGameId(room.gameState, variant);
     console.log(`🎮 Room ${roomId}: Game variant changed to ${variant}`);
 
     broadcastRoomState(roomId, room, io);
-    io.to(`room:${roomId}`).emit('game-variant-changed', { variant });
+    emitToTable(roomId, io, 'game-variant-changed', { variant });
   };
 
   socket.on('set-game-variant', (data: { variant: string }) => {
@@ -2458,14 +4523,16 @@ io.on('connection', (socket) => {
       const nextIndex = (room.rotation.currentGameIndex + 1) % room.rotation.gamesList.length;
       const nextGame = room.rotation.gamesList[nextIndex];
       room.rotation.currentGameIndex = nextIndex;
-      room.gameState.gameVariant = nextGame;
+      applyGameId(room.gameState, nextGame);
 
       if (nextIndex === 0) {
         room.rotation.orbitCount = (room.rotation.orbitCount || 0) + 1;
       }
 
-      io.to(`room:${roomId}`).emit('next-game', {
+      emitDealerMessage(roomId, io, describeNextGame(nextGame));
+      emitToTable(roomId, io, 'next-game', {
         nextGame,
+        betStructure: getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure).betStructure,
         gamesList: room.rotation.gamesList
       });
       broadcastRoomState(roomId, room, io);
@@ -2487,6 +4554,13 @@ io.on('connection', (socket) => {
       allowedGames?: string[];
       timeLimit?: number;
       studAnte?: number;
+      anteType?: RoomConfig['anteType'];
+      anteAmount?: number;
+      straddlePolicy?: RoomConfig['straddlePolicy'];
+      maxStraddles?: number;
+      rake?: RoomConfig['rake'];
+      spectatorHoleCardDelay?: number;
+      recordChat?: boolean;
     };
     password?: string;
     customRoomId?: string;
@@ -2507,6 +4581,16 @@ io.on('connection', (socket) => {
       const sb = data.config.smallBlind || 1;
       const bb = data.config.bigBlind || 2;
 
+      const spectatorDelay = data.config.spectatorHoleCardDelay;
+      if (spectatorDelay !== undefined &&
+          (!Number.isInteger(spectatorDelay) || spectatorDelay < 0 || spectatorDelay > MAX_SPECTATOR_HOLE_CARD_DELAY)) {
+        socket.emit('error', { message: `spectatorHoleCardDelay must be 0-${MAX_SPECTATOR_HOLE_CARD_DELAY} seconds` });
+        return;
+      }
+      if (!validateStraddleConfig(data.config, socket)) return;
+      if (!validateRakeConfig(data.config, socket)) return;
+      if (!validateAnteConfig(data.config, socket)) return;
+
       const config: RoomConfig = {
         maxPlayers: data.config.maxPlayers || 6,
         smallBlind: sb,
@@ -2516,6 +4600,13 @@ io.on('connection', (socket) => {
         allowedGames: data.config.allowedGames || ['NLH'],
         timeLimit: data.config.timeLimit,
         studAnte: data.config.studAnte,
+        anteType: data.config.anteType,
+        anteAmount: data.config.anteAmount,
+        straddlePolicy: data.config.straddlePolicy,
+        maxStraddles: data.config.maxStraddles,
+        rake: data.config.rake,
+        spectatorHoleCardDelay: spectatorDelay || undefined,
+        recordChat: data.config.recordChat === true || undefined,
         password: data.password || undefined,
       };
 
@@ -2543,7 +4634,7 @@ io.on('connection', (socket) => {
   });
 
   // プライベートルーム参加
-  socket.on('join-private-room', (data: {
+  socket.on('join-private-room', async (data: {
     roomId: string;
     password?: string;
     buyIn: number;
@@ -2578,20 +4669,18 @@ io.on('connection', (socket) => {
       removeExistingPlayerSession(room, socket, user, data.roomId);
 
       // 空席を探す
-      const seatIndex = findRandomEmptySeat(room.players);
-      if (seatIndex === null) {
+      if (findRandomEmptySeat(room.players) === null) {
         socket.emit('error', { message: 'Room is full' });
         return;
       }
 
+      const seatIndex = await seatWithBuyIn(socket, user, room, data.buyIn);
+
       (socket.data as any).playerName = playerName;
       socket.join(`room:${data.roomId}`);
       (socket.data as any).roomId = data.roomId;
       socket.leave('lobby');
 
-      const player = createQuickJoinPlayer(socket, user, room, data.buyIn);
-      roomManager.sitDown(data.roomId, seatIndex, player);
-
       console.log(`🔒 ${playerName} joined private room ${data.roomId} at seat ${seatIndex}`);
       logEvent('private_room_join', { roomId: data.roomId, playerName, seatIndex, buyIn: data.buyIn });
 
@@ -2624,6 +4713,11 @@ io.on('connection', (socket) => {
     buyInMax?: number;
     timeLimit?: number;
     studAnte?: number;
+    anteType?: RoomConfig['anteType'];
+    anteAmount?: number;
+    straddlePolicy?: RoomConfig['straddlePolicy'];
+    maxStraddles?: number;
+    rake?: RoomConfig['rake'];
     gameVariant?: string;
     rotation?: {
       enabled?: boolean;
@@ -2650,6 +4744,9 @@ io.on('connection', (socket) => {
         socket.emit('error', { message: 'Only the room host can change settings' });
         return;
       }
+      if (!validateStraddleConfig(data, socket)) return;
+      if (!validateRakeConfig(data, socket)) return;
+      if (!validateAnteConfig(data, socket)) return;
 
       // パスワード変更は即座に適用（ゲームプレイに影響しない）
       if (data.password !== undefined) {
@@ -2664,8 +4761,13 @@ io.on('connection', (socket) => {
         if (data.buyInMax !== undefined) room.config.buyInMax = data.buyInMax;
         if (data.timeLimit !== undefined) room.config.timeLimit = data.timeLimit;
         if (data.studAnte !== undefined) room.config.studAnte = data.studAnte;
+        if (data.anteType !== undefined) room.config.anteType = data.anteType;
+        if (data.anteAmount !== undefined) room.config.anteAmount = data.anteAmount;
+        if (data.straddlePolicy !== undefined) room.config.straddlePolicy = data.straddlePolicy;
+        if (data.maxStraddles !== undefined) room.config.maxStraddles = data.maxStraddles;
+        if (data.rake !== undefined) room.config.rake = data.rake;
         if (data.gameVariant) {
-          room.gameState.gameVariant = data.gameVariant;
+          applyGameId(room.gameState, data.gameVariant);
           room.gameState.minRaise = room.config.bigBlind;
         }
         if (data.rotation) {
@@ -2673,7 +4775,7 @@ io.on('connection', (socket) => {
           if (data.rotation.gamesList) {
             room.rotation.gamesList = data.rotation.gamesList;
             room.rotation.currentGameIndex = 0;
-            room.gameState.gameVariant = data.rotation.gamesList[0];
+            applyGameId(room.gameState, data.rotation.gamesList[0]);
           }
           if (data.rotation.handsPerGame !== undefined) {
             room.rotation.handsPerGame = data.rotation.handsPerGame;
@@ -2682,7 +4784,8 @@ io.on('connection', (socket) => {
         room.pendingConfig = undefined;
 
         broadcastRoomState(roomId, room, io);
-        io.to(`room:${roomId}`).emit('config-applied', {
+        emitDealerMessage(roomId, io, describeConfigApplied(room.config));
+        emitToTable(roomId, io, 'config-applied', {
           config: room.config,
           rotation: room.rotation,
           gameVariant: room.gameState.gameVariant,
@@ -2699,6 +4802,11 @@ io.on('connection', (socket) => {
       if (data.buyInMax !== undefined) pendingConfigChanges.buyInMax = data.buyInMax;
       if (data.timeLimit !== undefined) pendingConfigChanges.timeLimit = data.timeLimit;
       if (data.studAnte !== undefined) pendingConfigChanges.studAnte = data.studAnte;
+      if (data.anteType !== undefined) pendingConfigChanges.anteType = data.anteType;
+      if (data.anteAmount !== undefined) pendingConfigChanges.anteAmount = data.anteAmount;
+      if (data.straddlePolicy !== undefined) pendingConfigChanges.straddlePolicy = data.straddlePolicy;
+      if (data.maxStraddles !== undefined) pendingConfigChanges.maxStraddles = data.maxStraddles;
+      if (data.rake !== undefined) pendingConfigChanges.rake = data.rake;
 
       room.pendingConfig = {
         config: Object.keys(pendingConfigChanges).length > 0 ? pendingConfigChanges : undefined,
@@ -2708,7 +4816,7 @@ io.on('connection', (socket) => {
         requestedAt: Date.now(),
       };
 
-      io.to(`room:${roomId}`).emit('config-pending', {
+      emitToTable(roomId, io, 'config-pending', {
         pendingConfig: room.pendingConfig,
         message: 'Settings will change after this hand',
       });
@@ -2739,6 +4847,9 @@ io.on('connection', (socket) => {
 
   // 切断した時
   socket.on('disconnect', () => {
+    stopSpectating(socket, io);
+    chatManager.clearSocket(socket.id);
+    cancelTournamentRegistrations(socket.id, io);
     const roomId = (socket.data as any).roomId || getRoomIdFromSocket(socket);
     if (!roomId) {
       console.log('👋 Player disconnected (not in any room):', socket.id);
@@ -2813,7 +4924,40 @@ if (process.env.NODE_ENV !== 'test' && !process.env.VITEST) {
     console.log(`   Model: ${botStatus.modelVersion}`);
     console.log(`   AI Enabled: ${botStatus.aiEnabled ? '✅' : '❌'}`);
 
-    // プリセットルームを初期化
-    roomManager.initializePresetRooms();
+    // スナップショットから部屋を復元してからプリセットルームを初期化
+    void restoreRooms().then(async restoredIds => {
+      roomManager.initializePresetRooms();
+      const restoredTournaments = mttCoordinator.restoreTables(
+        restoredIds.map(id => roomManager.getRoomById(id)).filter((room): room is Room => room !== null)
+      );
+      mttCoordinator.openPresets();
+      roomSnapshotsEnabled = true;
+      setInterval(() => void persistRooms(), ROOM_SNAPSHOT_INTERVAL_MS);
+      setTimeout(() => releaseUnclaimedSeats(io), RESTORED_SEAT_GRACE_MS);
+
+      for (const roomId of restoredIds) {
+        resumeSitAndGo(roomId, io);
+      }
+      for (const tournament of restoredTournaments) {
+        resumeMultiTable(tournament, io);
+      }
+
+      // 台帳: 復元した卓以外でチップが残った卓は前回終了時の未精算分。持ち込んだユーザーへ返金する
+      // （マルチテーブルの開始前の登録は復元しないので、その参加費もここで返る）
+      const restored = new Set([...restoredIds, ...restoredTournaments.map(t => t.id)]);
+      for (const t of await findUnsettledTables()) {
+        if (!restored.has(t.roomId)) {
+          console.warn(`⚠️  Unsettled chips on table ${t.roomId}: ${t.balance} (refunding)`);
+          await settleTable(t.roomId, t.balance);
+        }
+      }
+    });
+  });
+
+  // デプロイ時の停止前に最新の状態を保存
+  process.on('SIGTERM', () => {
+    console.log('🛑 SIGTERM received, saving room snapshots...');
+    const pending = roomSnapshotsEnabled ? persistRooms() : Promise.resolve();
+    void pending.finally(() => process.exit(0));
   });
 }
@@ -0,0 +1,180 @@
+/**
+ * Room Snapshot Tests
+ * スナップショットの作成・進行中ハンドの無効化と返金・復元後の席の状態
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    ROOM_SNAPSHOT_VERSION, createRoomSnapshot, restoreRoomFromSnapshot, voidHandInProgress,
+} from './roomSnapshot.js';
+import { createTournament } from '../tournament/sitAndGo.js';
+import type { Player, Room } from '../types.js';
+
+function createPlayer(socketId: string, stack: number, totalBet = 0): Player {
+    return {
+        socketId,
+        name: socketId,
+        stack,
+        bet: totalBet,
+        totalBet,
+        status: 'ACTIVE',
+        hand: ['As', 'Kd'],
+        resumeToken: `token-${socketId}`
+    };
+}
+
+function createRoom(players: (Player | null)[]): Room {
+    return {
+        id: 'test-room',
+        config: {
+            maxPlayers: 6,
+            smallBlind: 5,
+            bigBlind: 10
+        },
+        players,
+        dealerBtnIndex: 0,
+        activePlayerIndex: -1,
+        streetStarterIndex: 0,
+        lastAggressorIndex: -1,
+        rotation: {
+            enabled: true,
+            gamesList: ['NLH', 'PLO'],
+            currentGameIndex: 1,
+            handsPerGame: 8
+        },
+        metaGame: {
+            standUp: { isActive: false, remainingPlayers: [] },
+            sevenDeuce: true
+        },
+        createdAt: Date.now(),
+        gameState: {
+            status: 'WAITING' as any,
+            street: 0,
+            gameVariant: 'PLO',
+            board: [],
+            pot: { main: 0, side: [] },
+            deckStatus: { stubCount: 0, burnCount: 0 },
+            currentBet: 0,
+            minRaise: 10,
+            handNumber: 12,
+            raisesThisRound: 0,
+            deck: ['2c', '3d']
+        }
+    };
+}
+
+describe('createRoomSnapshot', () => {
+    it('デッキと手札を除いたコピーを作る', () => {
+        const room = createRoom([createPlayer('p0', 1000), null]);
+        const snapshot = createRoomSnapshot(room);
+
+        expect(snapshot.version).toBe(ROOM_SNAPSHOT_VERSION);
+        expect(snapshot.room.gameState.deck).toEqual([]);
+        expect(snapshot.room.players[0]?.hand).toBeNull();
+        expect(snapshot.room.rotation.currentGameIndex).toBe(1);
+        expect(snapshot.room.metaGame.sevenDeuce).toBe(true);
+
+        // 元の部屋は変更しない
+        expect(room.gameState.deck).toEqual(['2c', '3d']);
+        expect(room.players[0]?.hand).toEqual(['As', 'Kd']);
+    });
+});
+
+describe('voidHandInProgress', () => {
+    it('未分配のポットへの拠出額（デッドアンティ含む）を返金する', () => {
+        const p0 = createPlayer('p0', 900, 100);
+        const p1 = { ...createPlayer('p1', 440, 50), status: 'FOLDED' as const, deadAnte: 10 };
+        const room = createRoom([p0, p1, null]);
+        room.gameState.status = 'FLOP' as any;
+        room.gameState.pot = { main: 160, side: [] };
+        room.gameState.board = ['2c', '3d', '4h'];
+        room.activePlayerIndex = 0;
+
+        expect(voidHandInProgress(room)).toBe(160);
+        expect(p0).toMatchObject({ stack: 1000, bet: 0, totalBet: 0, hand: null, status: 'ACTIVE' });
+        expect(p1).toMatchObject({ stack: 500, totalBet: 0, deadAnte: undefined, status: 'ACTIVE' });
+        expect(room.gameState).toMatchObject({ status: 'WAITING', board: [], pot: { main: 0, side: [] }, handNumber: 12 });
+        expect(room.activePlayerIndex).toBe(-1);
+    });
+
+    it('分配済み（ポット0）なら返金しない', () => {
+        const p0 = createPlayer('p0', 1100, 100);
+        const room = createRoom([p0, createPlayer('p1', 900, 100)]);
+        room.gameState.status = 'SHOWDOWN' as any;
+
+        expect(voidHandInProgress(room)).toBe(0);
+        expect(p0.stack).toBe(1100);
+        expect(room.gameState.status).toBe('WAITING');
+    });
+
+    it('ハンド間は何もしない', () => {
+        const p0 = createPlayer('p0', 1000);
+        const room = createRoom([p0]);
+        expect(voidHandInProgress(room)).toBe(0);
+        expect(p0.hand).toEqual(['As', 'Kd']);
+    });
+});
+
+describe('restoreRoomFromSnapshot', () => {
+    it('人間は切断中・SIT_OUT で席を保持し、BOTはそのまま', () => {
+        const human = { ...createPlayer('p0', 1000), pendingJoin: true };
+        const bot = createPlayer('bot-test-room-1', 400);
+        const snapshot = createRoomSnapshot(createRoom([human, bot]));
+
+        const room = restoreRoomFromSnapshot(snapshot);
+        expect(room.players[0]).toMatchObject({
+            socketId: 'p0', stack: 1000, status: 'SIT_OUT', disconnected: true, pendingJoin: false, resumeToken: 'token-p0'
+        });
+        expect(room.players[1]).toMatchObject({ status: 'ACTIVE' });
+        expect(room.players[1]?.disconnected).toBeFalsy();
+    });
+
+    it('OFCの配置途中の盤面を破棄し、累積スコアとFLは残す', () => {
+        const room = createRoom([createPlayer('p0', 400), createPlayer('bot-test-room-1', 400)]);
+        room.gameState.status = 'OFC_PINEAPPLE_PLACING' as any;
+        room.ofcState = {
+            phase: 'OFC_PINEAPPLE_PLACING',
+            round: 3,
+            players: [
+                { socketId: 'p0', name: 'p0', stack: 400, board: { top: ['Ah'], middle: [], bottom: [] }, currentCards: [], isFantasyland: true, hasPlaced: false, isBot: false, isFouled: false },
+            ],
+            deck: ['2c'],
+            handNumber: 4,
+            fantasylandQueue: [],
+            scores: { p0: 12 },
+            bigBlind: 10,
+            buttonIndex: 0,
+            currentTurnIndex: 0,
+        };
+
+        const restored = restoreRoomFromSnapshot(createRoomSnapshot(room));
+        expect(restored.gameState.status).toBe('WAITING');
+        expect(restored.ofcState).toMatchObject({
+            phase: 'OFC_DONE', players: [], deck: [], scores: { p0: 12 }, fantasylandQueue: ['p0'], handNumber: 4
+        });
+    });
+
+    it('進行中の Sit & Go は切断中も ACTIVE のまま、レベルの時計は停止中の分だけ延ばす', () => {
+        const room = createRoom([createPlayer('p0', 1200), createPlayer('p1', 1800)]);
+        room.tournament = {
+            ...createTournament({
+                buyIn: 100,
+                startingStack: 1500,
+                levels: [{ smallBlind: 10, bigBlind: 20, durationSec: 300 }, { smallBlind: 15, bigBlind: 30, durationSec: 300 }],
+                payouts: [100],
+            }),
+            status: 'RUNNING',
+        };
+        const snapshot = createRoomSnapshot(room);
+        snapshot.room.tournament!.levelEndsAt = snapshot.savedAt + 60_000;
+
+        const restored = restoreRoomFromSnapshot({ ...snapshot, savedAt: snapshot.savedAt - 3_600_000 });
+        expect(restored.players[0]).toMatchObject({ status: 'ACTIVE', disconnected: true });
+        expect(restored.tournament!.levelEndsAt).toBeGreaterThan(Date.now() + 3_600_000);
+    });
+
+    it('未対応のバージョンは拒否する', () => {
+        const snapshot = createRoomSnapshot(createRoom([]));
+        expect(() => restoreRoomFromSnapshot({ ...snapshot, version: 99 })).toThrow('Unsupported room snapshot version');
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * ルームのスナップショット
+ * 再起動時に卓（設定・席・スタック・ローテーション・metaGame・ofcState）を復元する
+ *
+ * 進行中のハンドは無効にしてポットへの拠出額を返金する。
+ * 復元したプレイヤーは切断中として席を保持し、resumeToken で同じ席に戻れる
+ */
+
+import type { Room } from '../types.js';
+import { resumeTournamentClock } from '../tournament/sitAndGo.js';
+
+export const ROOM_SNAPSHOT_VERSION = 1;
+
+export interface RoomSnapshot {
+    version: number;
+    savedAt: number;
+    room: Room;
+}
+
+/**
+ * 保存用のスナップショットを作成
+ * デッキと手札は保存しない（復元時にハンドは無効になる）
+ */
+export function createRoomSnapshot(room: Room): RoomSnapshot {
+    const copy = structuredClone(room);
+    copy.gameState.deck = [];
+    if (copy.ofcState) {
+        copy.ofcState.deck = [];
+    }
+    for (const player of copy.players) {
+        if (player) player.hand = null;
+    }
+    return { version: ROOM_SNAPSHOT_VERSION, savedAt: Date.now(), room: copy };
+}
+
+/**
+ * 進行中のハンドを無効にする
+ * ポットが未分配ならポットへの拠出額（デッドアンティ含む）を各プレイヤーに返金
+ * @returns 返金した合計額
+ */
+export function voidHandInProgress(room: Room): number {
+    if (room.gameState.status === 'WAITING') return 0;
+
+    const pot = room.gameState.pot;
+    const potOpen = pot.main + pot.side.reduce((total, s) => total + s.amount, 0) > 0;
+    let refunded = 0;
+
+    for (const player of room.players) {
+        if (!player) continue;
+        if (potOpen) {
+            const amount = player.totalBet + (player.deadAnte ?? 0);
+            player.stack += amount;
+            refunded += amount;
+        }
+        player.bet = 0;
+        player.totalBet = 0;
+        player.deadAnte = undefined;
+        player.hand = null;
+        player.lastAction = undefined;
+        player.studUpCards = undefined;
+        player.drawDiscards = undefined;
+        player.dramahaDeclaration = undefined;
+        if (player.status === 'FOLDED' || player.status === 'ALL_IN') {
+            player.status = 'ACTIVE';
+        }
+    }
+
+    room.gameState = {
+        ...room.gameState,
+        status: 'WAITING',
+        street: 0,
+        pot: { main: 0, side: [] },
+        board: [],
+        board2: undefined,
+        runBoards: undefined,
+        currentBet: 0,
+        raisesThisRound: 0,
+        deck: [],
+        isDrawPhase: undefined,
+        playersCompletedDraw: undefined,
+        isRunout: undefined,
+        runoutPhase: undefined,
+        antes: undefined,
+        straddles: undefined,
+        fairness: undefined,
+    };
+    room.activePlayerIndex = -1;
+
+    // OFC: 配置途中の盤面を破棄（累積スコアは残し、FL中のプレイヤーは次のハンドもFL）
+    const ofc = room.ofcState;
+    if (ofc && ofc.phase !== 'OFC_DONE' && ofc.phase !== 'OFC_WAITING') {
+        ofc.fantasylandQueue = ofc.players.filter(p => p.isFantasyland).map(p => p.socketId);
+        ofc.players = [];
+        ofc.phase = 'OFC_DONE';
+    }
+
+    return refunded;
+}
+
+/**
+ * スナップショットから部屋を復元
+ * 人間のプレイヤーは切断中・SIT_OUT にして、resumeToken での復帰を待つ
+ * 進行中の Sit & Go は切断中も配り続ける（ACTIVE のまま）。停止中の時間はレベルの残りに含めない
+ */
+export function restoreRoomFromSnapshot(snapshot: RoomSnapshot): Room {
+    if (snapshot.version !== ROOM_SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported room snapshot version: ${snapshot.version}`);
+    }
+    const room = structuredClone(snapshot.room);
+    voidHandInProgress(room);
+    if (room.tournament) {
+        resumeTournamentClock(room.tournament, snapshot.savedAt, Date.now());
+    }
+    const keepDealingIn = room.tournament?.status === 'RUNNING';
+
+    for (const player of room.players) {
+        if (!player || player.socketId.startsWith('bot-')) continue;
+        player.disconnected = true;
+        player.status = keepDealingIn ? 'ACTIVE' : 'SIT_OUT';
+        player.pendingJoin = false;
+        player.waitingForBB = false;
+        player.pendingSitOut = false;
+    }
+    return room;
+}
@@ -0,0 +1,43 @@
+/**
+ * ルームスナップショットストア
+ * RoomSnapshot を部屋ごとに1行で保存（最新のみ）
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { RoomSnapshot } from './roomSnapshot.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * 現在の部屋のスナップショットを保存し、無くなった部屋の行を削除
+ * 失敗してもゲーム進行は止めない（ログのみ）
+ */
+export async function saveRoomSnapshots(snapshots: RoomSnapshot[]): Promise<void> {
+  try {
+    await prisma.$transaction([
+      ...snapshots.map(snapshot => prisma.roomSnapshot.upsert({
+        where: { roomId: snapshot.room.id },
+        create: { roomId: snapshot.room.id, data: snapshot as any },
+        update: { data: snapshot as any },
+      })),
+      prisma.roomSnapshot.deleteMany({
+        where: { roomId: { notIn: snapshots.map(s => s.room.id) } },
+      }),
+    ]);
+  } catch (error) {
+    console.error('Failed to save room snapshots:', error);
+  }
+}
+
+/**
+ * 保存済みのスナップショットを読み込む（起動時）
+ */
+export async function loadRoomSnapshots(): Promise<RoomSnapshot[]> {
+  try {
+    const rows = await prisma.roomSnapshot.findMany();
+    return rows.map((row: any) => row.data as RoomSnapshot);
+  } catch (error) {
+    console.error('Failed to load room snapshots:', error);
+    return [];
+  }
+}
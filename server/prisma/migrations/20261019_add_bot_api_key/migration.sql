@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "BotApiKey" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "BotApiKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BotApiKey_keyHash_key" ON "BotApiKey"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "BotApiKey_userId_idx" ON "BotApiKey"("userId");
+
+-- AddForeignKey
+ALTER TABLE "BotApiKey" ADD CONSTRAINT "BotApiKey_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
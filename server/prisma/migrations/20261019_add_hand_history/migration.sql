@@ -0,0 +1,87 @@
+-- CreateTable
+CREATE TABLE "Hand" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "handNumber" INTEGER NOT NULL,
+    "gameVariant" TEXT NOT NULL,
+    "betStructure" TEXT,
+    "smallBlind" INTEGER NOT NULL,
+    "bigBlind" INTEGER NOT NULL,
+    "buttonSeat" INTEGER NOT NULL,
+    "board" TEXT[],
+    "board2" TEXT[],
+    "runBoards" JSONB,
+    "pots" JSONB NOT NULL,
+    "rake" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Hand_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HandParticipant" (
+    "id" TEXT NOT NULL,
+    "handId" TEXT NOT NULL,
+    "userId" TEXT,
+    "playerId" TEXT NOT NULL,
+    "playerName" TEXT NOT NULL,
+    "seatIndex" INTEGER NOT NULL,
+    "startingStack" INTEGER NOT NULL,
+    "endingStack" INTEGER NOT NULL,
+    "holeCards" TEXT[],
+    "shownCards" TEXT[],
+    "shown" BOOLEAN NOT NULL DEFAULT false,
+    "handRank" TEXT,
+    "totalBet" INTEGER NOT NULL,
+    "amountWon" INTEGER NOT NULL DEFAULT 0,
+    "rakePaid" INTEGER NOT NULL DEFAULT 0,
+    "ofcBoard" JSONB,
+    "ofcPoints" INTEGER,
+
+    CONSTRAINT "HandParticipant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "HandAction" (
+    "id" TEXT NOT NULL,
+    "handId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "street" TEXT NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "playerName" TEXT NOT NULL,
+    "seatIndex" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "amount" INTEGER,
+    "betTo" INTEGER,
+    "cards" TEXT[],
+    "received" TEXT[],
+    "placements" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HandAction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Hand_roomId_handNumber_idx" ON "Hand"("roomId", "handNumber");
+
+-- CreateIndex
+CREATE INDEX "Hand_endedAt_idx" ON "Hand"("endedAt");
+
+-- CreateIndex
+CREATE INDEX "HandParticipant_handId_idx" ON "HandParticipant"("handId");
+
+-- CreateIndex
+CREATE INDEX "HandParticipant_userId_idx" ON "HandParticipant"("userId");
+
+-- CreateIndex
+CREATE INDEX "HandAction_handId_sequence_idx" ON "HandAction"("handId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "HandParticipant" ADD CONSTRAINT "HandParticipant_handId_fkey" FOREIGN KEY ("handId") REFERENCES "Hand"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HandParticipant" ADD CONSTRAINT "HandParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HandAction" ADD CONSTRAINT "HandAction_handId_fkey" FOREIGN KEY ("handId") REFERENCES "Hand"("id") ON DELETE CASCADE ON UPDATE CASCADE;
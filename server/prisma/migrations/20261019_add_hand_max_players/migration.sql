@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Hand" ADD COLUMN     "maxPlayers" INTEGER NOT NULL DEFAULT 6;
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "RoomSnapshot" (
+    "roomId" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RoomSnapshot_pkey" PRIMARY KEY ("roomId")
+);
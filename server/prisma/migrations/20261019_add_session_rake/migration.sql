@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "PlayerSession" ADD COLUMN     "rakePaid" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "Tournament" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "gamesList" TEXT[],
+    "buyIn" INTEGER NOT NULL,
+    "startingStack" INTEGER NOT NULL,
+    "entrants" INTEGER NOT NULL,
+    "prizePool" INTEGER NOT NULL,
+    "levelsPlayed" INTEGER NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tournament_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TournamentEntry" (
+    "id" TEXT NOT NULL,
+    "tournamentId" TEXT NOT NULL,
+    "userId" TEXT,
+    "playerName" TEXT NOT NULL,
+    "place" INTEGER NOT NULL,
+    "prize" INTEGER NOT NULL DEFAULT 0,
+    "handNumber" INTEGER NOT NULL,
+    "finishedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TournamentEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Tournament_roomId_finishedAt_idx" ON "Tournament"("roomId", "finishedAt");
+
+-- CreateIndex
+CREATE INDEX "TournamentEntry_tournamentId_idx" ON "TournamentEntry"("tournamentId");
+
+-- CreateIndex
+CREATE INDEX "TournamentEntry_userId_idx" ON "TournamentEntry"("userId");
+
+-- AddForeignKey
+ALTER TABLE "TournamentEntry" ADD CONSTRAINT "TournamentEntry_tournamentId_fkey" FOREIGN KEY ("tournamentId") REFERENCES "Tournament"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TournamentEntry" ADD CONSTRAINT "TournamentEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
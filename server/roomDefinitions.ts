@@ -1,15 +1,17 @@
 /**
  * プリセットルーム定義
- * サーバー起動時に自動作成されるルーム
+ * サーバー起動時に自動作成されるルーム・登録を受け付けるマルチテーブルトーナメント
  */
 
-import type { RoomConfig } from './types.js';
+import type { BlindLevel, MultiTableTournamentConfig, RoomConfig, TournamentConfig } from './types.js';
+import { ROTATION_PRESETS } from './gameVariants.js';
 
 export interface PresetRoomConfig {
     id: string;                    // 安定したルームID (例: "nlh-1-2")
     displayName: string;           // 表示名 (例: "NLH 1/2")
-    category: 'nlh' | 'mix';      // カテゴリ
+    category: 'nlh' | 'mix' | 'sng';  // カテゴリ（マルチテーブルの卓 'mtt' は大会の開始時に作成）
     roomConfig: RoomConfig;        // ルーム設定
+    tournament?: TournamentConfig; // Sit & Go の設定（トーナメント卓のみ）
     rotationConfig?: {
         enabled: boolean;
         gamesList: string[];
@@ -17,6 +19,25 @@ export interface PresetRoomConfig {
     };
 }
 
+// Sit & Go のブラインドスケジュール（5分ごと、開始スタック1500 = 75BB）
+// アンティ・ブリングインはゲーム既定（BB/5）に従う
+const SNG_BLIND_LEVELS: BlindLevel[] = [
+    [10, 20], [15, 30], [25, 50], [50, 100], [75, 150],
+    [100, 200], [150, 300], [200, 400], [300, 600], [500, 1000],
+].map(([smallBlind, bigBlind]) => ({ smallBlind, bigBlind, durationSec: 300 }));
+
+export interface PresetTournamentConfig {
+    id: string;                    // 安定した大会の種類のID (卓は "<id>-t1", "<id>-t2" …)
+    displayName: string;
+    tournament: MultiTableTournamentConfig;
+}
+
+// マルチテーブルのブラインドスケジュール（8分ごと、開始スタック3000 = 150BB）
+const MTT_BLIND_LEVELS: BlindLevel[] = [
+    [10, 20], [15, 30], [25, 50], [50, 100], [75, 150], [100, 200], [150, 300],
+    [200, 400], [300, 600], [400, 800], [500, 1000], [750, 1500], [1000, 2000],
+].map(([smallBlind, bigBlind]) => ({ smallBlind, bigBlind, durationSec: 480 }));
+
 export const PRESET_ROOMS: PresetRoomConfig[] = [
     // ========== NLH ルーム ==========
     {
@@ -190,6 +211,26 @@ export const PRESET_ROOMS: PresetRoomConfig[] = [
             handsPerGame: 8,
         },
     },
+    // ========== 8-Max Mix ルーム ==========
+    // 8人時: トリプルドローはUTG強制シットアウト、Studは山札切れでコミュニティカード
+    {
+        id: 'mix-8max',
+        displayName: '8-Max Mix',
+        category: 'mix',
+        roomConfig: {
+            maxPlayers: 8,
+            smallBlind: 2,
+            bigBlind: 5,
+            buyInMin: 250,
+            buyInMax: 1000,
+            allowedGames: ['NLH', '2-7_TD', '7CS'],
+        },
+        rotationConfig: {
+            enabled: true,
+            gamesList: ['NLH', '2-7_TD', '7CS'],
+            handsPerGame: 8,
+        },
+    },
     // ========== 20-Game Mix ルーム ==========
     {
         id: 'mix-20game',
@@ -249,4 +290,101 @@ export const PRESET_ROOMS: PresetRoomConfig[] = [
             allowedGames: ['OFC'],
         },
     },
+
+    // ========== Sit & Go ==========
+    // 満席で開始、ローテーション卓はゲームが変わってもブラインドはレベルに従う
+    {
+        id: 'sng-nlh-6',
+        displayName: 'NLH Sit & Go',
+        category: 'sng',
+        roomConfig: {
+            maxPlayers: 6,
+            smallBlind: 10,
+            bigBlind: 20,
+            allowedGames: ['NLH'],
+        },
+        tournament: {
+            buyIn: 500,
+            startingStack: 1500,
+            levels: SNG_BLIND_LEVELS,
+            payouts: [65, 35],
+        },
+    },
+    {
+        id: 'sng-horse-6',
+        displayName: 'HORSE Sit & Go',
+        category: 'sng',
+        roomConfig: {
+            maxPlayers: 6,
+            smallBlind: 10,
+            bigBlind: 20,
+            allowedGames: ROTATION_PRESETS['HORSE'],
+        },
+        rotationConfig: {
+            enabled: true,
+            gamesList: ROTATION_PRESETS['HORSE'],
+            handsPerGame: 6,
+        },
+        tournament: {
+            buyIn: 500,
+            startingStack: 1500,
+            levels: SNG_BLIND_LEVELS,
+            payouts: [65, 35],
+        },
+    },
+    {
+        id: 'sng-8game-8',
+        displayName: '8-Game Sit & Go',
+        category: 'sng',
+        roomConfig: {
+            maxPlayers: 8,
+            smallBlind: 10,
+            bigBlind: 20,
+            allowedGames: ROTATION_PRESETS['8-Game'],
+        },
+        rotationConfig: {
+            enabled: true,
+            gamesList: ROTATION_PRESETS['8-Game'],
+            handsPerGame: 8,
+        },
+        tournament: {
+            buyIn: 1000,
+            startingStack: 1500,
+            levels: SNG_BLIND_LEVELS,
+            payouts: [50, 30, 20],
+        },
+    },
+];
+
+// ========== マルチテーブルトーナメント ==========
+// 定員に達したら開始、終了後は同じ設定で次の大会の登録を受け付ける
+export const PRESET_TOURNAMENTS: PresetTournamentConfig[] = [
+    {
+        id: 'mtt-horse-20',
+        displayName: 'HORSE 20',
+        tournament: {
+            buyIn: 500,
+            startingStack: 3000,
+            levels: MTT_BLIND_LEVELS,
+            payouts: [50, 30, 20],
+            maxEntrants: 20,
+            tableSize: 6,
+            gamesList: ROTATION_PRESETS['HORSE'],
+            handsPerGame: 6,
+        },
+    },
+    {
+        id: 'mtt-8game-40',
+        displayName: '8-Game Championship',
+        tournament: {
+            buyIn: 1000,
+            startingStack: 3000,
+            levels: MTT_BLIND_LEVELS,
+            payouts: [40, 25, 15, 12, 8],
+            maxEntrants: 40,
+            tableSize: 8,
+            gamesList: ROTATION_PRESETS['8-Game'],
+            handsPerGame: 8,
+        },
+    },
 ];
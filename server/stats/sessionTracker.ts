@@ -101,6 +101,27 @@ export async function recordHandResult(
   }
 }
 
+/**
+ * レーキ負担額を記録（ハンド完了時）
+ * contributions: socketIdごとの負担額
+ */
+export async function recordRake(
+  contributions: { playerId: string; amount: number }[]
+): Promise<void> {
+  try {
+    for (const { playerId, amount } of contributions) {
+      const sessionId = activeSessionMap.get(playerId);
+      if (!sessionId || amount <= 0) continue;
+      await prisma.playerSession.update({
+        where: { id: sessionId },
+        data: { rakePaid: { increment: amount } },
+      });
+    }
+  } catch (error) {
+    console.error('Failed to record rake:', error);
+  }
+}
+
 /**
  * socketId変更時にセッションマッピングを移行（リコネクト対応）
  */
@@ -32,6 +32,7 @@ router.get('/me', authMiddleware, async (req, res) => {
     let totalCashOut = 0;
     let totalHandsPlayed = 0;
     let totalHandsWon = 0;
+    let totalRakePaid = 0;
     let todayProfit = 0;
     let todaySessions = 0;
 
@@ -42,6 +43,7 @@ router.get('/me', authMiddleware, async (req, res) => {
       totalCashOut += cashOut;
       totalHandsPlayed += s.handsPlayed;
       totalHandsWon += s.handsWon;
+      totalRakePaid += s.rakePaid;
 
       if (s.startedAt >= todayStart) {
         todayProfit += cashOut - buyInTotal;
@@ -65,6 +67,7 @@ router.get('/me', authMiddleware, async (req, res) => {
       profit: s.cashOut !== null ? s.cashOut - (s.buyIn + s.addOns) : null,
       handsPlayed: s.handsPlayed,
       handsWon: s.handsWon,
+      rakePaid: s.rakePaid,
       startedAt: s.startedAt.toISOString(),
       endedAt: s.endedAt?.toISOString() ?? null,
     }));
@@ -76,6 +79,7 @@ router.get('/me', authMiddleware, async (req, res) => {
       totalProfit,
       totalHandsPlayed,
       totalHandsWon,
+      totalRakePaid,
       winRate,
       todayProfit,
       todaySessions,
@@ -0,0 +1,641 @@
+// ========================================
+// GameEngine Soak Simulation
+// Plays thousands of hands of any variant / rotation on an in-memory Room
+// with random or heuristic bot players, checking invariants after every action:
+//   - chip conservation (stacks + pot = chips bought in - rake)
+//   - legal hole card / board counts for the variant
+//   - no duplicate or foreign cards across hands, boards, deck and discards
+//   - no stuck states (someone can always act, draw or the hand is over)
+// A failing run is dumped to JSON with its seed so it can be replayed exactly.
+//
+// Usage:
+//   npx tsx tests/test-engine-simulation.ts --game PLO --hands 5000 --players 6
+//   npx tsx tests/test-engine-simulation.ts --rotation 8-Game --mode random --seed my-seed
+//   npx tsx tests/test-engine-simulation.ts --room mix-8game
+//   npx tsx tests/test-engine-simulation.ts --game all --hands 500
+//
+// Options:
+//   --game <id|all>     Game id (NLH, 7CS, NLH@fixed ...) or every non-OFC variant (default NLH)
+//   --rotation <name>   Rotation preset (HORSE, 8-Game ...) instead of a single game
+//   --room <id>         Preset room (its config, rotation and rake) instead of a single game
+//   --hands <n>         Hands per run (default 1000)
+//   --players <n>       Seated players, 2-8 (default 6)
+//   --mode <m>          random | bot | mixed (default mixed: heuristic bots and random players alternate)
+//   --seed <s>          Seed for decks and player decisions (default random)
+//   --out <dir>         Where failing runs are dumped (default sim-failures)
+//   --verbose           Keep the engine's console logs
+// ========================================
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { randomBytes } from 'crypto';
+import { join } from 'path';
+import { GameEngine } from '../GameEngine.js';
+import { ShowdownManager } from '../ShowdownManager.js';
+import { PotManager } from '../PotManager.js';
+import { RotationManager } from '../RotationManager.js';
+import { MAX_SEATS, RoomManager } from '../RoomManager.js';
+import { PRESET_ROOMS } from '../roomDefinitions.js';
+import { GAME_VARIANTS, ROTATION_PRESETS, applyGameId, getVariantConfig, type GameVariantConfig } from '../gameVariants.js';
+import { HmacRandom, buildUnshuffledDeck } from '../fairness/provablyFair.js';
+import { HeuristicBot } from '../bots/HeuristicBot.js';
+import type { ActionType, BotStyle, Player, Room, RoomConfig } from '../types.js';
+
+const MAX_STEPS_PER_HAND = 500;
+const BOT_STYLES: BotStyle[] = ['tight', 'loose', 'calling-station'];
+
+const log = console.log.bind(console);
+
+// ========================================
+// Options
+// ========================================
+type PlayerMode = 'random' | 'bot' | 'mixed';
+
+interface SimOptions {
+    game?: string;
+    rotation?: string;
+    room?: string;
+    hands: number;
+    players: number;
+    mode: PlayerMode;
+    seed: string;
+    out: string;
+    verbose: boolean;
+}
+
+function parseOptions(argv: string[]): SimOptions {
+    const options: SimOptions = {
+        hands: 1000,
+        players: 6,
+        mode: 'mixed',
+        seed: randomBytes(6).toString('hex'),
+        out: 'sim-failures',
+        verbose: false,
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const flag = argv[i];
+        const value = () => {
+            const next = argv[++i];
+            if (next === undefined) throw new Error(`${flag} needs a value`);
+            return next;
+        };
+        switch (flag) {
+            case '--game': options.game = value(); break;
+            case '--rotation': options.rotation = value(); break;
+            case '--room': options.room = value(); break;
+            case '--hands': options.hands = parseInt(value(), 10); break;
+            case '--players': options.players = parseInt(value(), 10); break;
+            case '--mode': options.mode = value() as PlayerMode; break;
+            case '--seed': options.seed = value(); break;
+            case '--out': options.out = value(); break;
+            case '--verbose': options.verbose = true; break;
+            default: throw new Error(`Unknown option: ${flag}`);
+        }
+    }
+
+    if ([options.game, options.rotation, options.room].filter(Boolean).length > 1) {
+        throw new Error('Use only one of --game, --rotation and --room');
+    }
+    if (!Number.isInteger(options.hands) || options.hands < 1) {
+        throw new Error('--hands must be a positive integer');
+    }
+    if (!Number.isInteger(options.players) || options.players < 2 || options.players > MAX_SEATS) {
+        throw new Error(`--players must be between 2 and ${MAX_SEATS}`);
+    }
+    if (!['random', 'bot', 'mixed'].includes(options.mode)) {
+        throw new Error('--mode must be random, bot or mixed');
+    }
+    if (options.rotation && !ROTATION_PRESETS[options.rotation]) {
+        throw new Error(`Unknown rotation preset: ${options.rotation} (${Object.keys(ROTATION_PRESETS).join(', ')})`);
+    }
+    return options;
+}
+
+// ========================================
+// Table setup
+// One run = one table; --game all runs one table per variant
+// ========================================
+interface TableSpec {
+    label: string;
+    config: RoomConfig;
+    gamesList: string[];
+    handsPerGame: number;
+}
+
+function resolveTables(options: SimOptions): TableSpec[] {
+    const defaultConfig = (): RoomConfig => ({ maxPlayers: options.players, smallBlind: 1, bigBlind: 2 });
+
+    if (options.room) {
+        const preset = PRESET_ROOMS.find(r => r.id === options.room);
+        if (!preset) throw new Error(`Unknown preset room: ${options.room}`);
+        if (preset.tournament) throw new Error('Tournament rooms are not simulated');
+        const gamesList = preset.rotationConfig?.gamesList ?? preset.roomConfig.allowedGames ?? ['NLH'];
+        return [{
+            label: preset.id,
+            config: { ...preset.roomConfig, maxPlayers: Math.min(options.players, preset.roomConfig.maxPlayers) },
+            gamesList,
+            handsPerGame: preset.rotationConfig?.handsPerGame ?? 8,
+        }];
+    }
+
+    if (options.rotation) {
+        return [{ label: options.rotation, config: defaultConfig(), gamesList: ROTATION_PRESETS[options.rotation], handsPerGame: 8 }];
+    }
+
+    const games = options.game === 'all'
+        ? Object.keys(GAME_VARIANTS).filter(id => id !== 'OFC')
+        : [options.game ?? 'NLH'];
+    return games.map(game => ({ label: game, config: defaultConfig(), gamesList: [game], handsPerGame: 8 }));
+}
+
+function createTable(spec: TableSpec): Room {
+    const room = new RoomManager().createRoom(undefined, spec.config, `sim-${spec.label}`);
+    room.rotation.enabled = spec.gamesList.length > 1;
+    room.rotation.gamesList = spec.gamesList;
+    room.rotation.handsPerGame = spec.handsPerGame;
+    applyGameId(room.gameState, spec.gamesList[0]);
+    if (getVariantConfig(room.gameState.gameVariant).id === 'OFC') {
+        throw new Error('OFC has its own simulation (tests/test-ofc-simulation.ts)');
+    }
+    return room;
+}
+
+// ========================================
+// Seeded decisions
+// Decks come from the engine's seeded DeckProvider; players draw from their own stream
+// ========================================
+class SimRandom {
+    private source: HmacRandom;
+
+    constructor(seed: string) {
+        this.source = new HmacRandom(seed, 'sim-players', 0);
+    }
+
+    int(max: number): number {
+        return this.source.nextInt(max);
+    }
+
+    between(min: number, max: number): number {
+        return min + this.int(max - min + 1);
+    }
+
+    float(): number {
+        return this.int(1_000_000) / 1_000_000;
+    }
+
+    pick<T>(items: T[]): T {
+        return items[this.int(items.length)];
+    }
+
+    /** 0..n-1 から count 個を重複なしで選ぶ（昇順） */
+    sample(n: number, count: number): number[] {
+        const indexes = Array.from({ length: n }, (_, i) => i);
+        for (let i = indexes.length - 1; i > 0; i--) {
+            const j = this.int(i + 1);
+            [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+        }
+        return indexes.slice(0, count).sort((a, b) => a - b);
+    }
+}
+
+interface SimPlayer {
+    kind: 'random' | 'bot';
+    bot?: HeuristicBot;
+}
+
+function createPlayers(room: Room, options: SimOptions, random: SimRandom): Map<string, SimPlayer> {
+    const players = new Map<string, SimPlayer>();
+    for (let i = 0; i < room.config.maxPlayers; i++) {
+        const socketId = `sim-${i}`;
+        const isBot = options.mode === 'bot' || (options.mode === 'mixed' && i % 2 === 0);
+        room.players[i] = {
+            socketId,
+            name: `Sim ${String.fromCharCode(65 + i)}`,
+            stack: buyInAmount(room, random),
+            bet: 0,
+            totalBet: 0,
+            status: 'ACTIVE',
+            hand: null,
+        };
+        players.set(socketId, isBot
+            ? { kind: 'bot', bot: new HeuristicBot(BOT_STYLES[i % BOT_STYLES.length], () => random.float()) }
+            : { kind: 'random' });
+    }
+    return players;
+}
+
+/** 10〜150BB のランダムなスタック（ショートスタックでサイドポットを作る） */
+function buyInAmount(room: Room, random: SimRandom): number {
+    return room.config.bigBlind * random.between(10, 150);
+}
+
+function chooseAction(engine: GameEngine, room: Room, player: Player, simPlayer: SimPlayer, random: SimRandom) {
+    const validActions = engine.getValidActions(room, player.socketId);
+    const bettingInfo = engine.getBettingInfo(room, player.socketId);
+
+    if (simPlayer.kind === 'bot') {
+        return simPlayer.bot!.decideAction(room, player, {
+            validActions,
+            minBetTo: bettingInfo.minBet,
+            maxBetTo: bettingInfo.maxBet,
+        });
+    }
+
+    const type: ActionType = random.pick(validActions);
+    if (type === 'BET' || type === 'RAISE') {
+        const betTo = random.between(bettingInfo.minBet, Math.max(bettingInfo.minBet, bettingInfo.maxBet));
+        return { type, amount: Math.min(betTo - player.bet, player.stack) };
+    }
+    return { type };
+}
+
+function chooseDraw(room: Room, player: Player, simPlayer: SimPlayer, random: SimRandom, variant: GameVariantConfig) {
+    const hand = player.hand ?? [];
+    if (room.gameState.status === 'VANISH') {
+        const count = variant.vanishCards ?? 0;
+        return {
+            discardIndexes: simPlayer.kind === 'bot'
+                ? simPlayer.bot!.chooseVanish(room, player, count)
+                : random.sample(hand.length, count),
+        };
+    }
+    if (simPlayer.kind === 'bot') {
+        return simPlayer.bot!.chooseDraw(room, player);
+    }
+    const maxDiscards = Math.min(variant.maxDrawCount ?? hand.length, hand.length);
+    return {
+        discardIndexes: random.sample(hand.length, random.between(0, maxDiscards)),
+        declaration: variant.dramahaPickem ? random.pick(['high', 'low'] as const) : undefined,
+    };
+}
+
+// ========================================
+// Invariants
+// ========================================
+class InvariantError extends Error {}
+
+function invariant(condition: unknown, message: string): asserts condition {
+    if (!condition) throw new InvariantError(message);
+}
+
+function totalOnTable(room: Room): number {
+    const stacks = room.players.reduce((sum, p) => sum + (p?.stack ?? 0), 0);
+    const pot = room.gameState.pot.main + room.gameState.pot.side.reduce((sum, s) => sum + s.amount, 0);
+    return stacks + pot;
+}
+
+function checkChips(room: Room, expectedTotal: number) {
+    for (const player of room.players) {
+        if (!player) continue;
+        invariant(Number.isInteger(player.stack) && player.stack >= 0, `${player.name} has an invalid stack: ${player.stack}`);
+        invariant(player.bet >= 0 && player.totalBet >= player.bet, `${player.name} has invalid bets: bet=${player.bet}, totalBet=${player.totalBet}`);
+    }
+    const total = totalOnTable(room);
+    invariant(total === expectedTotal, `Chips not conserved: ${total} on the table, expected ${expectedTotal} (diff ${total - expectedTotal})`);
+}
+
+function boardSizes(variant: GameVariantConfig): number[] {
+    if (variant.communityCardType === 'none') return [0];
+    // スタッドは山札が足りないときだけ共通カード1枚
+    if (variant.communityCardType === 'stud') return [0, 1];
+    const sizes = [0];
+    for (const count of variant.boardPattern ?? [3, 1, 1]) {
+        sizes.push(sizes[sizes.length - 1] + count);
+    }
+    return sizes;
+}
+
+function checkCards(engine: GameEngine, room: Room, variant: GameVariantConfig) {
+    const universe = new Set(buildUnshuffledDeck(variant.deckType ?? 'standard'));
+    const seen = new Map<string, string>();
+    const place = (cards: string[] | null | undefined, where: string) => {
+        for (const card of cards ?? []) {
+            invariant(universe.has(card), `Foreign card ${card} in ${where}`);
+            invariant(!seen.has(card), `Duplicate card ${card} in ${where} and ${seen.get(card)}`);
+            seen.set(card, where);
+        }
+    };
+
+    place(engine.getDeck(), 'deck');
+    place(engine.getDiscardPile(), 'discard pile');
+    place(room.gameState.board, 'board');
+    place(room.gameState.board2, 'board2');
+
+    const boards = boardSizes(variant);
+    invariant(boards.includes(room.gameState.board.length), `Board has ${room.gameState.board.length} cards (${room.gameState.board.join(' ')})`);
+    if (variant.boardCount === 2 && room.gameState.board2) {
+        invariant(room.gameState.board2.length === room.gameState.board.length, 'Double boards have different sizes');
+    }
+
+    const liveHandSizes = new Set<number>();
+    for (const player of room.players) {
+        if (!player?.hand || player.status === 'SIT_OUT') continue;
+        place(player.hand, `${player.name}'s hand`);
+
+        const size = player.hand.length;
+        if (variant.communityCardType === 'stud') {
+            invariant(size >= 1 && size <= variant.holeCardCount, `${player.name} holds ${size} stud cards`);
+            for (const card of player.studUpCards ?? []) {
+                invariant(player.hand.includes(card), `${player.name}'s up card ${card} is not in the hand`);
+            }
+            if (player.status !== 'FOLDED') liveHandSizes.add(size);
+        } else {
+            const allowed = [variant.holeCardCount];
+            if (variant.vanishCards) allowed.push(variant.holeCardCount - variant.vanishCards);
+            invariant(allowed.includes(size), `${player.name} holds ${size} cards (expected ${allowed.join(' or ')})`);
+        }
+    }
+    invariant(liveHandSizes.size <= 1, `Live stud hands have different sizes: ${[...liveHandSizes].join(', ')}`);
+}
+
+function checkProgress(engine: GameEngine, room: Room) {
+    if (room.gameState.status === 'SHOWDOWN') return;
+
+    if (room.gameState.isDrawPhase) {
+        const completed = room.gameState.playersCompletedDraw ?? [];
+        const pending = room.players.filter(p =>
+            p !== null && (p.status === 'ACTIVE' || p.status === 'ALL_IN') && !completed.includes(p.socketId)
+        );
+        invariant(pending.length > 0, `Stuck in ${room.gameState.status}: draw phase with nobody left to draw`);
+        return;
+    }
+
+    const active = room.players[room.activePlayerIndex];
+    invariant(active, `Stuck in ${room.gameState.status}: no active player (index ${room.activePlayerIndex})`);
+    invariant(active.status === 'ACTIVE', `Stuck in ${room.gameState.status}: active player ${active.name} is ${active.status}`);
+    invariant(engine.getValidActions(room, active.socketId).length > 0, `Stuck in ${room.gameState.status}: ${active.name} has no legal action`);
+}
+
+// ========================================
+// Hand driver (mirrors index.ts without sockets or timers)
+// ========================================
+interface SimStats {
+    label: string;
+    hands: number;
+    actions: number;
+    draws: number;
+    showdowns: number;
+    uncontested: number;
+    runouts: number;
+    rebuys: number;
+    rake: number;
+    games: Record<string, number>;
+    failure?: SimFailure;
+}
+
+interface SimFailure {
+    seed: string;
+    label: string;
+    hand: number;
+    step: string;
+    message: string;
+}
+
+interface TableRun {
+    engine: GameEngine;
+    room: Room;
+    players: Map<string, SimPlayer>;
+    random: SimRandom;
+    showdownManager: ShowdownManager;
+    potManager: PotManager;
+    rotationManager: RotationManager;
+    chipsIn: number;
+    stats: SimStats;
+}
+
+function afterStep(run: TableRun, step: string) {
+    const variant = getVariantConfig(run.room.gameState.gameVariant, run.room.gameState.betStructure);
+    try {
+        checkChips(run.room, run.chipsIn - run.stats.rake);
+        checkCards(run.engine, run.room, variant);
+        checkProgress(run.engine, run.room);
+    } catch (e) {
+        if (e instanceof InvariantError) e.message = `${step}: ${e.message}`;
+        throw e;
+    }
+}
+
+function rebuyBustedPlayers(run: TableRun) {
+    for (const player of run.room.players) {
+        if (!player || player.stack > 0) continue;
+        player.stack = buyInAmount(run.room, run.random);
+        run.chipsIn += player.stack;
+        run.stats.rebuys++;
+    }
+}
+
+function playDraw(run: TableRun, variant: GameVariantConfig): string {
+    const { engine, room } = run;
+    const completed = room.gameState.playersCompletedDraw ?? [];
+    const player = room.players.find(p =>
+        p !== null && (p.status === 'ACTIVE' || p.status === 'ALL_IN') && !completed.includes(p.socketId)
+    )!;
+    const { discardIndexes, declaration } = chooseDraw(room, player, run.players.get(player.socketId)!, run.random, variant);
+
+    if (room.gameState.status === 'VANISH') {
+        const vanished = discardIndexes.map(i => player.hand![i]);
+        engine.getDealer().vanishCards(player, discardIndexes);
+        engine.recordAction(room, player, 'VANISH', { cards: vanished });
+        engine.markDrawComplete(room, player.socketId);
+        engine.checkVanishPhaseComplete(room);
+        return `${player.name} vanishes ${vanished.join(' ')}`;
+    }
+
+    if (variant.dramahaPickem) {
+        player.dramahaDeclaration = declaration || 'high';
+    }
+    const handBefore = [...(player.hand ?? [])];
+    engine.getDealer().exchangeDrawCards(engine.getDeck(), player, discardIndexes, engine.getDiscardPile());
+    player.drawDiscards = discardIndexes.length;
+    engine.recordAction(room, player, 'DRAW', {
+        cards: discardIndexes.map(i => handBefore[i]),
+        received: (player.hand ?? []).slice(handBefore.length - discardIndexes.length),
+    });
+    engine.markDrawComplete(room, player.socketId);
+    engine.checkDrawPhaseComplete(room);
+    run.stats.draws++;
+    return `${player.name} draws ${discardIndexes.length}`;
+}
+
+function playAction(run: TableRun): string {
+    const { engine, room } = run;
+    const player = room.players[room.activePlayerIndex]!;
+    const decision = chooseAction(engine, room, player, run.players.get(player.socketId)!, run.random);
+    const result = engine.processAction(room, { playerId: player.socketId, ...decision, timestamp: Date.now() });
+    invariant(result.success, `Engine rejected ${player.name}'s legal ${decision.type}${decision.amount ? ` ${decision.amount}` : ''}: ${result.error}`);
+    run.stats.actions++;
+    return `${player.name} ${decision.type}${decision.amount ? ` ${decision.amount}` : ''}`;
+}
+
+function settleHand(run: TableRun) {
+    const { room } = run;
+    const contenders = room.players.filter(p => p !== null && (p.status === 'ACTIVE' || p.status === 'ALL_IN'));
+
+    let result;
+    if (contenders.length === 1) {
+        result = run.showdownManager.awardToLastPlayer(room);
+        run.stats.uncontested++;
+    } else {
+        room.gameState.pot = run.potManager.calculatePots(room.players);
+        result = run.showdownManager.executeShowdown(room);
+        run.stats.showdowns++;
+    }
+    if (room.gameState.isRunout) run.stats.runouts++;
+    run.stats.rake += result.rake ?? 0;
+
+    const pot = room.gameState.pot.main + room.gameState.pot.side.reduce((sum, s) => sum + s.amount, 0);
+    invariant(pot === 0, `Showdown left ${pot} chips in the pot`);
+
+    run.rotationManager.checkRotation(room);
+    for (const player of room.players) {
+        if (player?.status === 'ALL_IN') player.status = 'ACTIVE';
+    }
+    room.gameState.isRunout = false;
+    room.gameState.runoutPhase = undefined;
+    room.gameState.status = 'WAITING' as any;
+}
+
+function playHand(run: TableRun) {
+    const { engine, room } = run;
+    rebuyBustedPlayers(run);
+    const game = room.gameState.gameVariant;
+    run.stats.games[game] = (run.stats.games[game] ?? 0) + 1;
+
+    invariant(engine.startHand(room), `startHand refused to deal ${game}`);
+    afterStep(run, 'startHand');
+
+    for (let steps = 0; room.gameState.status !== 'SHOWDOWN'; steps++) {
+        invariant(steps < MAX_STEPS_PER_HAND, `Hand did not finish within ${MAX_STEPS_PER_HAND} steps`);
+        const variant = getVariantConfig(room.gameState.gameVariant, room.gameState.betStructure);
+        const step = room.gameState.isDrawPhase ? playDraw(run, variant) : playAction(run);
+        afterStep(run, `${room.gameState.status} after ${step}`);
+    }
+
+    settleHand(run);
+    checkChips(room, run.chipsIn - run.stats.rake);
+    run.stats.hands++;
+}
+
+function simulateTable(spec: TableSpec, options: SimOptions, seed: string): SimStats {
+    const room = createTable(spec);
+    const random = new SimRandom(seed);
+    const rotationManager = new RotationManager();
+    rotationManager.setHandsPerGame(spec.handsPerGame);
+
+    const run: TableRun = {
+        engine: new GameEngine({ deckSource: { type: 'seed', seed } }),
+        room,
+        players: createPlayers(room, options, random),
+        random,
+        showdownManager: new ShowdownManager(),
+        potManager: new PotManager(),
+        rotationManager,
+        chipsIn: 0,
+        stats: {
+            label: spec.label, hands: 0, actions: 0, draws: 0, showdowns: 0, uncontested: 0,
+            runouts: 0, rebuys: 0, rake: 0, games: {},
+        },
+    };
+    run.chipsIn = totalOnTable(room);
+
+    for (let hand = 1; hand <= options.hands; hand++) {
+        try {
+            playHand(run);
+        } catch (e: any) {
+            run.stats.failure = { seed, label: spec.label, hand, step: room.gameState.status, message: e.message };
+            dumpFailure(run, options, e);
+            break;
+        }
+        if (hand % 1000 === 0) {
+            log(`  [${spec.label}] ${hand}/${options.hands} hands`);
+        }
+    }
+    return run.stats;
+}
+
+// ========================================
+// Failure dump
+// ========================================
+function reproCommand(options: SimOptions, failure: SimFailure): string {
+    const table = options.room ? `--room ${options.room}`
+        : options.rotation ? `--rotation '${options.rotation}'`
+        : `--game ${failure.label}`;
+    return `npx tsx tests/test-engine-simulation.ts ${table} --players ${options.players} --mode ${options.mode} ` +
+        `--hands ${failure.hand} --seed ${failure.seed}`;
+}
+
+function dumpFailure(run: TableRun, options: SimOptions, error: Error) {
+    const failure = run.stats.failure!;
+    mkdirSync(options.out, { recursive: true });
+    const file = join(options.out, `${failure.label.replace(/[^\w.-]/g, '_')}-${failure.seed.replace(/[^\w.-]/g, '_')}.json`);
+    writeFileSync(file, JSON.stringify({
+        failure,
+        repro: reproCommand(options, failure),
+        options: { ...options, game: failure.label },
+        stack: error.stack,
+        handRecord: run.engine.getHandRecord(),
+        deck: run.engine.getDeck(),
+        discardPile: run.engine.getDiscardPile(),
+        room: run.room,
+    }, null, 2));
+    log(`\n  ❌ [${failure.label}] hand ${failure.hand}: ${failure.message}`);
+    log(`     Dumped to ${file}`);
+    log(`     Repro: ${reproCommand(options, failure)}`);
+}
+
+// ========================================
+// Report
+// ========================================
+function report(results: SimStats[], elapsedMs: number) {
+    log('\n' + '='.repeat(72));
+    log('  GameEngine Soak Simulation Report');
+    log('='.repeat(72));
+    log(`  ${'Table'.padEnd(20)} ${'Hands'.padStart(7)} ${'Actions'.padStart(8)} ${'Draws'.padStart(6)} ` +
+        `${'SD'.padStart(6)} ${'Folds'.padStart(6)} ${'Runout'.padStart(6)} ${'Rebuy'.padStart(6)}  Result`);
+    for (const s of results) {
+        log(`  ${s.label.padEnd(20)} ${String(s.hands).padStart(7)} ${String(s.actions).padStart(8)} ${String(s.draws).padStart(6)} ` +
+            `${String(s.showdowns).padStart(6)} ${String(s.uncontested).padStart(6)} ${String(s.runouts).padStart(6)} ` +
+            `${String(s.rebuys).padStart(6)}  ${s.failure ? `FAIL at hand ${s.failure.hand}` : 'PASS'}`);
+        if (Object.keys(s.games).length > 1) {
+            log(`    games: ${Object.entries(s.games).map(([game, count]) => `${game}=${count}`).join(', ')}`);
+        }
+    }
+
+    const hands = results.reduce((sum, s) => sum + s.hands, 0);
+    const failures = results.filter(s => s.failure);
+    log(`\n  ${hands} hands in ${(elapsedMs / 1000).toFixed(1)}s, ${failures.length} failing table(s)`);
+    log('='.repeat(72));
+}
+
+// ========================================
+// Run
+// ========================================
+function main() {
+    const options = parseOptions(process.argv.slice(2));
+    const tables = resolveTables(options);
+    log(`Starting GameEngine simulation: ${tables.length} table(s) x ${options.hands} hands, ` +
+        `${options.players} ${options.mode} players, seed ${options.seed}`);
+
+    // エンジンのログはハンドごとに大量に出るので既定では黙らせる
+    if (!options.verbose) {
+        console.log = () => {};
+        console.warn = () => {};
+    }
+
+    const startedAt = Date.now();
+    const results = tables.map(spec =>
+        simulateTable(spec, options, tables.length > 1 ? `${options.seed}:${spec.label}` : options.seed)
+    );
+    report(results, Date.now() - startedAt);
+
+    const exitCode = results.some(s => s.failure) ? 1 : 0;
+    log(`\nExiting with code ${exitCode}`);
+    setTimeout(() => process.exit(exitCode), 100);
+}
+
+try {
+    main();
+} catch (e: any) {
+    console.error('Fatal error:', e.message);
+    setTimeout(() => process.exit(1), 100);
+}
@@ -0,0 +1,284 @@
+/**
+ * MttCoordinator Tests
+ * 登録・開始時の卓割り・卓のブレイクと人数調整・ハンド・フォー・ハンド・ファイナルテーブル・復元
+ */
+
+import { describe, it, expect } from 'vitest';
+import { MttCoordinator, isMultiTableTournament } from './MttCoordinator.js';
+import { bigBlindOrder, worstEmptySeat } from './tableBalancing.js';
+import { RoomManager } from '../RoomManager.js';
+import type { PresetTournamentConfig } from '../roomDefinitions.js';
+import type { MultiTableTournamentConfig, Room } from '../types.js';
+
+const CONFIG: MultiTableTournamentConfig = {
+    buyIn: 100,
+    startingStack: 1000,
+    levels: [
+        { smallBlind: 10, bigBlind: 20, durationSec: 300 },
+        { smallBlind: 20, bigBlind: 40, durationSec: 300 },
+    ],
+    payouts: [60, 40],
+    maxEntrants: 7,
+    tableSize: 3,
+    gamesList: ['NLH', 'PLO'],
+    handsPerGame: 4,
+};
+
+function createPreset(overrides: Partial<MultiTableTournamentConfig> = {}): PresetTournamentConfig {
+    return { id: 'mtt-test', displayName: 'Test MTT', tournament: { ...CONFIG, ...overrides } };
+}
+
+/** 定員まで登録して開始した大会 */
+function startTournament(overrides: Partial<MultiTableTournamentConfig> = {}) {
+    const rooms = new RoomManager();
+    const coordinator = new MttCoordinator(rooms);
+    const tournament = coordinator.open(createPreset(overrides));
+    for (let i = 0; i < tournament.config.maxEntrants; i++) {
+        coordinator.register(tournament.id, { socketId: `p${i}`, name: `p${i}`, userId: `user-p${i}` });
+    }
+    const tables = coordinator.start(tournament.id, 0);
+    return { rooms, coordinator, tournament, tables };
+}
+
+function seatedCount(room: Room): number {
+    return room.players.filter(p => p !== null).length;
+}
+
+function occupiedSeats(room: Room): number[] {
+    return room.players.map((p, i) => p ? i : -1).filter(i => i !== -1);
+}
+
+/** 席のプレイヤーを飛ばす（ハンド開始時のスタック = totalBet） */
+function bust(room: Room, seatIndex: number, totalBet: number): void {
+    const player = room.players[seatIndex]!;
+    player.stack = 0;
+    player.totalBet = totalBet;
+}
+
+describe('tableBalancing', () => {
+    it('次のハンドから BB を払う順に並べる（ヘッズアップはボタン = SB）', () => {
+        expect(bigBlindOrder(['a', 'b', 'c', 'd', null, null], 0)).toEqual([3, 0, 1, 2]);
+        expect(bigBlindOrder(['a', null, 'b'], 0)).toEqual([0, 2]);
+        expect(bigBlindOrder([null, 'a'], 0)).toEqual([1]);
+    });
+
+    it('移動してくるプレイヤーには最も早く BB が回ってくる空席を渡す', () => {
+        expect(worstEmptySeat([null, 'a', 'b', 'c'], 1)).toBe(0);
+        expect(worstEmptySeat(['a', 'b', 'c', 'd', null, null], 0)).toBe(4);
+        expect(worstEmptySeat(['a', 'b'], 0)).toBeNull();
+    });
+});
+
+describe('registration', () => {
+    it('1卓に収まる定員や不正な卓の大きさは拒否する', () => {
+        const coordinator = new MttCoordinator(new RoomManager());
+        expect(() => coordinator.open(createPreset({ maxEntrants: 3 }))).toThrow('more entrants than one table');
+        expect(() => coordinator.open(createPreset({ tableSize: 9 }))).toThrow('Table size must be between');
+    });
+
+    it('登録と取り消しで賞金プールが増減し、定員に達したら開始できる', () => {
+        const coordinator = new MttCoordinator(new RoomManager());
+        const tournament = coordinator.open(createPreset());
+
+        const player = coordinator.register(tournament.id, { socketId: 's0', name: 'Alice', userId: 'u0' });
+        expect(player).toMatchObject({ stack: 1000, status: 'ACTIVE', userId: 'u0' });
+        expect(player.resumeToken).toBeTruthy();
+        expect(() => coordinator.register(tournament.id, { socketId: 's9', name: 'Alice', userId: 'u0' })).toThrow('Already registered');
+        expect(tournament).toMatchObject({ prizePool: 100, entrants: 1 });
+
+        expect(coordinator.unregister(tournament.id, 's-other', 'u0')).toBe(player);
+        expect(tournament).toMatchObject({ prizePool: 0, entrants: 0 });
+        expect(coordinator.unregister(tournament.id, 's0')).toBeNull();
+
+        for (let i = 0; i < 7; i++) {
+            coordinator.register(tournament.id, { socketId: `s${i}`, name: `p${i}` });
+        }
+        expect(coordinator.canStart(tournament.id)).toBe(true);
+        expect(() => coordinator.register(tournament.id, { socketId: 's7', name: 'p7' })).toThrow('Tournament is full');
+    });
+
+    it('開始後は登録できない', () => {
+        const { coordinator, tournament } = startTournament();
+        expect(() => coordinator.register(tournament.id, { socketId: 'late', name: 'late' })).toThrow('Registration is closed');
+        expect(coordinator.unregister(tournament.id, 'p0', 'user-p0')).toBeNull();
+    });
+});
+
+describe('start', () => {
+    it('登録者を卓に振り分け、全卓で大会の状態を共有する', () => {
+        const { rooms, coordinator, tournament, tables } = startTournament();
+
+        expect(tables.map(seatedCount)).toEqual([3, 2, 2]);
+        expect(tournament).toMatchObject({
+            status: 'RUNNING', entrants: 7, prizePool: 700, payouts: [420, 280],
+            levelIndex: 0, levelEndsAt: 300_000, startedAt: 0,
+            tableIds: ['mtt-test-t1', 'mtt-test-t2', 'mtt-test-t3'], finalTable: false,
+        });
+        for (const room of tables) {
+            expect(room.tournament).toBe(tournament);
+            expect(room).toMatchObject({ category: 'mtt', config: { maxPlayers: 3, smallBlind: 10, bigBlind: 20 } });
+            expect(room.rotation).toMatchObject({ enabled: true, gamesList: ['NLH', 'PLO'], handsPerGame: 4 });
+            expect(rooms.getRoomById(room.id)).toBe(room);
+        }
+        expect(tables[1].displayName).toBe('Test MTT · Table 2');
+        expect(coordinator.findByTable('mtt-test-t2')).toBe(tournament);
+        expect(isMultiTableTournament(tournament)).toBe(true);
+
+        const seated = tables.flatMap(room => room.players.filter(p => p !== null));
+        expect(new Set(seated.map(p => p!.name)).size).toBe(7);
+        const token = tables[2].players.find(p => p !== null)!.resumeToken!;
+        expect(coordinator.findTableByResumeToken(token)).toBe('mtt-test-t3');
+    });
+});
+
+describe('handFinished', () => {
+    it('残りが1卓少なくても座れるなら卓を割り、resumeToken を保ったまま他の卓へ移す', () => {
+        const { rooms, coordinator, tournament, tables } = startTournament();
+        const [, t2, t3] = tables;
+        const [bustedSeat, survivorSeat] = occupiedSeats(t2);
+        const survivor = t2.players[survivorSeat]!;
+        bust(t2, bustedSeat, 300);
+
+        const step = coordinator.handFinished(t2.id, 1_000);
+
+        expect(step.eliminations).toMatchObject([{ roomId: t2.id, placement: { place: 7, prize: 0, finishedAt: 1_000 } }]);
+        expect(step.brokenTables).toEqual([{ roomId: t2.id, displayName: 'Test MTT · Table 2' }]);
+        expect(step.moves).toMatchObject([{ player: survivor, fromRoomId: t2.id, toRoomId: t3.id }]);
+        expect(t3.players[step.moves[0].seatIndex]).toBe(survivor);
+        expect(survivor).toMatchObject({ status: 'ACTIVE', pendingJoin: false });
+        expect(rooms.getRoomById(t2.id)).toBeNull();
+        expect(tournament.tableIds).toEqual([tables[0].id, t3.id]);
+        expect(step.startTableIds).toEqual([t3.id]);
+        expect(coordinator.findTableByResumeToken(survivor.resumeToken!)).toBe(t3.id);
+    });
+
+    it('人数が2人以上多い卓から次に BB を払うプレイヤーを、BB が最も早く回ってくる席へ移す', () => {
+        const { coordinator, tables } = startTournament({ maxEntrants: 8, tableSize: 4 });
+        const [t1, t2] = tables;
+        const [first, second] = occupiedSeats(t2);
+        bust(t2, first, 200);
+        bust(t2, second, 400);
+
+        // 人数の少ない卓からは動かさない
+        const bustStep = coordinator.handFinished(t2.id, 1_000);
+        expect(bustStep.eliminations.map(e => e.placement.place)).toEqual([8, 7]);
+        expect(bustStep.moves).toEqual([]);
+
+        t2.gameState.status = 'PREFLOP' as any;
+        const expectedSeat = worstEmptySeat(t2.players, t2.dealerBtnIndex);
+        const mover = t1.players[bigBlindOrder(t1.players, t1.dealerBtnIndex)[0]];
+        const step = coordinator.handFinished(t1.id, 2_000);
+
+        expect(step.moves).toMatchObject([{ player: mover, toRoomId: t2.id, seatIndex: expectedSeat }]);
+        // 移動先はハンド中なので次のハンドから（BB待ちにはしない）
+        expect(mover).toMatchObject({ status: 'SIT_OUT', pendingJoin: true, waitingForBB: false });
+        expect(tables.map(seatedCount)).toEqual([3, 3]);
+        expect(step.startTableIds).toEqual([t1.id]);
+    });
+
+    it('バブルは全卓がハンドを終えるまで待ち、飛んだ順位は卓をまたいで開始時のスタックで決める', () => {
+        const { coordinator, tournament, tables } = startTournament({ maxEntrants: 8, payouts: [40, 30, 20, 10] });
+        const [t1, t2, t3] = tables;
+
+        // 8人 → 6人: 1卓目を割って2卓に
+        const t1Seats = occupiedSeats(t1);
+        bust(t1, t1Seats[0], 100);
+        bust(t1, t1Seats[1], 200);
+        t2.gameState.status = 'PREFLOP' as any;
+        t3.gameState.status = 'PREFLOP' as any;
+        const breakStep = coordinator.handFinished(t1.id, 1_000);
+        expect(breakStep.brokenTables.map(t => t.roomId)).toEqual([t1.id]);
+        expect(breakStep.moves[0].player.pendingJoin).toBe(true);
+        expect(breakStep.startTableIds).toEqual([]);
+
+        // 6人 → 5人（入賞まであと1人）: ハンド・フォー・ハンド
+        t2.gameState.status = 'WAITING' as any;
+        bust(t2, occupiedSeats(t2)[0], 300);
+        const bubbleStep = coordinator.handFinished(t2.id, 2_000);
+        expect(bubbleStep.handForHandStarted).toBe(true);
+        expect(tournament.handForHand).toBe(true);
+        expect(bubbleStep.startTableIds).toEqual([]);
+
+        // 最後の卓がハンドを終えたら全卓で次のハンドへ
+        t3.gameState.status = 'WAITING' as any;
+        const syncStep = coordinator.handFinished(t3.id, 3_000);
+        expect(syncStep.startTableIds).toEqual([t2.id, t3.id]);
+        // 一斉に始めた卓はそのまま開始できる（呼び出し側の scheduleNextHand から呼ばれる）
+        expect(coordinator.handFinished(t2.id, 3_000).startTableIds).toEqual([t2.id]);
+
+        // 同じハンドで両方の卓から1人ずつ飛ぶ
+        const shortStack = occupiedSeats(t3)[0];
+        const bigStack = occupiedSeats(t2)[0];
+        const shortName = t3.players[shortStack]!.name;
+        const bigName = t2.players[bigStack]!.name;
+        bust(t3, shortStack, 150);
+        bust(t2, bigStack, 900);
+
+        const waitStep = coordinator.handFinished(t2.id, 4_000);
+        expect(waitStep.eliminations).toEqual([]);
+        expect(waitStep.startTableIds).toEqual([]);
+
+        const finalStep = coordinator.handFinished(t3.id, 4_000);
+        expect(finalStep.eliminations.map(e => [e.placement.name, e.placement.place])).toEqual([
+            [shortName, 5], [bigName, 4],
+        ]);
+        expect(finalStep.eliminations[1].placement.prize).toBe(80);
+
+        // 3人 → ファイナルテーブル
+        expect(tournament).toMatchObject({ handForHand: false, finalTable: true });
+        expect(tournament.tableIds).toHaveLength(1);
+        expect(finalStep.finalTableId).toBe(tournament.tableIds[0]);
+        expect(finalStep.startTableIds).toEqual(tournament.tableIds);
+    });
+
+    it('残り1人で優勝が確定して終了する', () => {
+        const { coordinator, tournament, tables } = startTournament({ maxEntrants: 4, tableSize: 2, payouts: [100] });
+        const [t1, t2] = tables;
+
+        bust(t1, occupiedSeats(t1)[0], 1000);
+        const mergeStep = coordinator.handFinished(t1.id, 1_000);
+        expect(mergeStep.eliminations.map(e => e.placement.place)).toEqual([4]);
+        expect(mergeStep.moves).toEqual([]);
+
+        bust(t2, occupiedSeats(t2)[0], 1000);
+        const finalStep = coordinator.handFinished(t2.id, 2_000);
+        expect(finalStep.brokenTables).toHaveLength(1);
+        expect(finalStep.finalTableId).not.toBeNull();
+
+        const finalTable = tables.find(t => t.id === finalStep.finalTableId)!;
+        const loser = occupiedSeats(finalTable)[0];
+        bust(finalTable, loser, 2000);
+        const lastStep = coordinator.handFinished(finalTable.id, 3_000);
+
+        expect(lastStep.finished).toBe(true);
+        expect(lastStep.eliminations.map(e => e.placement.place)).toEqual([2, 1]);
+        expect(lastStep.eliminations[1].placement.prize).toBe(400);
+        expect(tournament).toMatchObject({ status: 'FINISHED', levelEndsAt: null, finishedAt: 3_000 });
+        expect(coordinator.handFinished(finalTable.id, 4_000).startTableIds).toEqual([]);
+    });
+});
+
+describe('restoreTables / close', () => {
+    it('復元した卓を1つの大会の状態に結び直し、復元できなかった卓は外す', () => {
+        const { tables } = startTournament();
+        const rooms = new RoomManager();
+        const coordinator = new MttCoordinator(rooms);
+        const restored = tables.slice(0, 2).map(room => structuredClone(room));
+        restored.forEach(room => rooms.restoreRoom(room));
+
+        const [tournament] = coordinator.restoreTables(restored);
+        expect(restored[0].tournament).toBe(tournament);
+        expect(restored[1].tournament).toBe(tournament);
+        expect(tournament.tableIds).toEqual(['mtt-test-t1', 'mtt-test-t2']);
+
+        // 同じプリセットの次の大会は終了するまで開かない
+        coordinator.openPresets([createPreset()]);
+        expect(coordinator.list()).toHaveLength(1);
+
+        tournament.status = 'FINISHED';
+        expect(coordinator.close(tournament.id)).toEqual(['mtt-test-t1', 'mtt-test-t2']);
+        expect(rooms.getRoomById('mtt-test-t1')).toBeNull();
+        coordinator.openPresets([createPreset()]);
+        expect(coordinator.list().map(t => t.status)).toEqual(['REGISTERING']);
+    });
+});
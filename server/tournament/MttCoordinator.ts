@@ -0,0 +1,568 @@
+/**
+ * マルチテーブルトーナメント
+ * 登録・開始時の卓割り・敗退順位・卓のブレイクと人数調整・ハンド・フォー・ハンド・ファイナルテーブル
+ *
+ * 卓は RoomManager の部屋で、各卓の room.tournament は同じ大会の状態を参照する。
+ * 卓の移動はハンド間にだけ行い、プレイヤーのオブジェクト（resumeToken を含む）をそのまま別の卓の席に移す。
+ * ソケットの付け替え・賞金の支払い・次のハンドの開始は呼び出し側（index.ts）が MttStep を見て行う
+ */
+
+import { randomUUID } from 'crypto';
+import { MAX_SEATS, roomManager, type RoomManager } from '../RoomManager.js';
+import { PRESET_TOURNAMENTS, type PresetTournamentConfig } from '../roomDefinitions.js';
+import { findRandomEmptySeat } from '../autoSeating.js';
+import {
+    calculatePayouts, createTournament, currentLevel, levelConfig, placeFor, registerEntry,
+    startingStackOf, unregisterEntry,
+} from './sitAndGo.js';
+import { bigBlindOrder, worstEmptySeat } from './tableBalancing.js';
+import type {
+    MultiTableTournamentState, Player, Room, TournamentListItem, TournamentPlacement, TournamentState,
+} from '../types.js';
+
+export interface SeatMove {
+    player: Player;
+    fromRoomId: string;
+    toRoomId: string;
+    seatIndex: number;
+}
+
+export interface MttElimination {
+    roomId: string;
+    placement: TournamentPlacement;
+}
+
+/**
+ * ハンド終了後の処理結果
+ */
+export interface MttStep {
+    tournament: MultiTableTournamentState | null;
+    eliminations: MttElimination[];   // 今回確定した順位（優勝者を含む）
+    moves: SeatMove[];                // 卓の移動（移動先の席に着席済み）
+    brokenTables: { roomId: string; displayName: string }[];  // 割った卓（部屋は削除済み）
+    startTableIds: string[];          // 次のハンドを始めてよい卓
+    handForHandStarted: boolean;
+    finalTableId: string | null;      // ファイナルテーブルになった卓（今回なった場合のみ）
+    finished: boolean;
+}
+
+export interface MttEntrant {
+    socketId: string;
+    name: string;
+    userId?: string;
+    avatarIcon?: string;
+}
+
+/** マルチテーブルの卓か（Sit & Go の卓は false） */
+export function isMultiTableTournament(tournament: TournamentState | undefined): tournament is MultiTableTournamentState {
+    return Array.isArray((tournament as MultiTableTournamentState | undefined)?.tableIds);
+}
+
+export class MttCoordinator {
+    private rooms: RoomManager;
+    private tournaments: Map<string, MultiTableTournamentState> = new Map();
+    private registrations: Map<string, Player[]> = new Map();   // 開始前の登録者
+    private waitingTables: Map<string, Set<string>> = new Map(); // ハンド・フォー・ハンドで他の卓を待っている卓
+    private releasedTables: Set<string> = new Set();             // ハンド・フォー・ハンドで一斉に始めた卓
+
+    constructor(rooms: RoomManager) {
+        this.rooms = rooms;
+    }
+
+    /**
+     * 登録受付中の大会を作成
+     */
+    open(preset: PresetTournamentConfig): MultiTableTournamentState {
+        const config = preset.tournament;
+        if (!Number.isInteger(config.tableSize) || config.tableSize < 2 || config.tableSize > MAX_SEATS) {
+            throw new Error(`Table size must be between 2 and ${MAX_SEATS}`);
+        }
+        if (!Number.isInteger(config.maxEntrants) || config.maxEntrants <= config.tableSize) {
+            throw new Error('Multi-table tournament needs more entrants than one table seats');
+        }
+        if (config.gamesList.length === 0) {
+            throw new Error('Tournament needs at least one game');
+        }
+
+        const tournament: MultiTableTournamentState = {
+            ...createTournament(config),
+            config,
+            presetId: preset.id,
+            name: preset.displayName,
+            tableIds: [],
+            handForHand: false,
+            finalTable: false,
+        };
+        this.tournaments.set(tournament.id, tournament);
+        this.registrations.set(tournament.id, []);
+        return tournament;
+    }
+
+    /**
+     * 受付中・進行中の大会がないプリセットの登録を開く（起動時・大会の終了後）
+     */
+    openPresets(presets: PresetTournamentConfig[] = PRESET_TOURNAMENTS): void {
+        for (const preset of presets) {
+            if (this.list().some(t => t.presetId === preset.id && t.status !== 'FINISHED')) continue;
+            const tournament = this.open(preset);
+            console.log(`🏆 Tournament registration opened: ${preset.id} (${tournament.id})`);
+        }
+    }
+
+    list(): MultiTableTournamentState[] {
+        return Array.from(this.tournaments.values());
+    }
+
+    getTournament(tournamentId: string): MultiTableTournamentState | null {
+        return this.tournaments.get(tournamentId) || null;
+    }
+
+    /** 卓の部屋IDから大会を取得 */
+    findByTable(roomId: string): MultiTableTournamentState | null {
+        return this.list().find(t => t.tableIds.includes(roomId)) || null;
+    }
+
+    /**
+     * resumeToken の持ち主が今座っている卓（卓を移動していても見つける）
+     */
+    findTableByResumeToken(resumeToken: string): string | null {
+        for (const tournament of this.list()) {
+            for (const roomId of tournament.tableIds) {
+                const room = this.rooms.getRoomById(roomId);
+                if (room?.players.some(p => p?.resumeToken === resumeToken)) return roomId;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 登録（参加費は賞金プールへ、台帳の移動は呼び出し側）
+     * @returns 開始時に着席するプレイヤー
+     */
+    register(tournamentId: string, entrant: MttEntrant): Player {
+        const tournament = this.requireTournament(tournamentId);
+        if (tournament.status !== 'REGISTERING') {
+            throw new Error('Registration is closed');
+        }
+        if (this.findRegistration(tournamentId, entrant.socketId, entrant.userId)) {
+            throw new Error('Already registered');
+        }
+        const entries = this.registrations.get(tournamentId)!;
+        if (entries.length >= tournament.config.maxEntrants) {
+            throw new Error('Tournament is full');
+        }
+
+        const player: Player = {
+            socketId: entrant.socketId,
+            name: entrant.name,
+            stack: tournament.config.startingStack,
+            bet: 0,
+            totalBet: 0,
+            status: 'ACTIVE',
+            hand: null,
+            resumeToken: randomUUID(),
+            userId: entrant.userId,
+            avatarIcon: entrant.avatarIcon,
+        };
+        registerEntry(tournament);
+        entries.push(player);
+        tournament.entrants = entries.length;
+        return player;
+    }
+
+    /**
+     * 開始前の登録取り消し
+     * @returns 取り消したプレイヤー（登録していなければ null）
+     */
+    unregister(tournamentId: string, socketId: string, userId?: string): Player | null {
+        const tournament = this.requireTournament(tournamentId);
+        const player = this.findRegistration(tournamentId, socketId, userId);
+        if (!player) return null;
+
+        unregisterEntry(tournament);
+        const entries = this.registrations.get(tournamentId)!;
+        entries.splice(entries.indexOf(player), 1);
+        tournament.entrants = entries.length;
+        return player;
+    }
+
+    /** 登録済みか（ログイン中は userId、ゲストは socketId で照合） */
+    findRegistration(tournamentId: string, socketId: string, userId?: string): Player | null {
+        const entries = this.registrations.get(tournamentId) ?? [];
+        return entries.find(p => userId ? p.userId === userId : p.socketId === socketId) || null;
+    }
+
+    /** 定員に達したら開始できる */
+    canStart(tournamentId: string): boolean {
+        const tournament = this.tournaments.get(tournamentId);
+        return tournament?.status === 'REGISTERING'
+            && (this.registrations.get(tournamentId)?.length ?? 0) === tournament.config.maxEntrants;
+    }
+
+    /**
+     * 大会を開始: 登録者をシャッフルして卓に振り分け、各卓の空席にランダムに座らせる
+     * 切断中の登録者も参加させる（手番はタイムアウトでフォールド）
+     * @returns 作成した卓
+     */
+    start(tournamentId: string, now: number): Room[] {
+        const tournament = this.requireTournament(tournamentId);
+        if (tournament.status !== 'REGISTERING') {
+            throw new Error('Tournament is not registering');
+        }
+        const entries = shuffle(this.registrations.get(tournamentId) ?? []);
+        if (entries.length < 2) {
+            throw new Error('Need at least 2 entrants to start');
+        }
+
+        const tableCount = Math.ceil(entries.length / tournament.config.tableSize);
+        const tables = Array.from({ length: tableCount }, (_, i) => this.createTable(tournament, i + 1));
+        entries.forEach((player, i) => {
+            const room = tables[i % tableCount];
+            room.players[findRandomEmptySeat(room.players)!] = player;
+        });
+
+        tournament.status = 'RUNNING';
+        tournament.entrants = entries.length;
+        tournament.payouts = calculatePayouts(tournament.prizePool, tournament.config.payouts, entries.length);
+        tournament.levelIndex = 0;
+        tournament.levelEndsAt = tournament.config.levels.length > 1
+            ? now + tournament.config.levels[0].durationSec * 1000
+            : null;
+        tournament.startedAt = now;
+        tournament.tableIds = tables.map(room => room.id);
+        tournament.finalTable = tableCount === 1;
+        this.registrations.delete(tournamentId);
+
+        console.log(`🏆 Tournament started: ${tournament.name} (${entries.length} players, ${tableCount} tables)`);
+        return tables;
+    }
+
+    /**
+     * 卓のハンドが終わった（ショーダウン後、次のハンドの前に呼ぶ）
+     * 敗退の確定 → 卓のブレイク・人数調整 → ハンド・フォー・ハンド / ファイナルテーブルの判定
+     *
+     * ハンド・フォー・ハンド中は全卓がハンドを終えるまで待ち、敗退は全卓分まとめて確定する
+     * （同じハンドで飛んだプレイヤーは卓が違ってもハンド開始時のスタックが多い方が上位）
+     */
+    handFinished(roomId: string, now: number): MttStep {
+        const tournament = this.findByTable(roomId);
+        const step: MttStep = {
+            tournament,
+            eliminations: [],
+            moves: [],
+            brokenTables: [],
+            startTableIds: [],
+            handForHandStarted: false,
+            finalTableId: null,
+            finished: false,
+        };
+        if (!tournament || tournament.status !== 'RUNNING') return step;
+
+        const waiting = this.waitingTablesOf(tournament.id);
+        const released = this.releasedTables.delete(roomId);
+        let processing = [roomId];
+        if (tournament.handForHand && !released) {
+            waiting.add(roomId);
+            if (!tournament.tableIds.every(id => waiting.has(id))) return step;
+            processing = [...tournament.tableIds];
+            waiting.clear();
+        }
+
+        step.eliminations = this.eliminate(tournament, processing, now);
+        // 優勝が確定したら終了
+        if (step.eliminations.some(e => e.placement.place === 1)) {
+            this.clearTableState(tournament);
+            step.finished = true;
+            return step;
+        }
+
+        const { moves, brokenTables } = this.rebalance(tournament, processing);
+        step.moves = moves;
+        step.brokenTables = brokenTables;
+
+        // バブル（入賞の1つ手前）は卓が複数ある間ハンド・フォー・ハンド
+        const handForHand = tournament.tableIds.length > 1
+            && this.playersLeft(tournament) === tournament.payouts.length + 1;
+        step.handForHandStarted = handForHand && !tournament.handForHand;
+        tournament.handForHand = handForHand;
+        if (tournament.tableIds.length === 1 && !tournament.finalTable) {
+            tournament.finalTable = true;
+            step.finalTableId = tournament.tableIds[0];
+        }
+
+        // ハンド間の卓（処理した卓と、移動先で待機中の卓）
+        const idle = [...new Set([...processing, ...moves.map(m => m.toRoomId)])]
+            .filter(id => tournament.tableIds.includes(id) && this.isWaiting(id));
+
+        if (released && tournament.handForHand) {
+            step.startTableIds = idle.filter(id => id === roomId);
+        } else if (tournament.handForHand) {
+            idle.forEach(id => waiting.add(id));
+            if (tournament.tableIds.every(id => waiting.has(id))) {
+                step.startTableIds = [...tournament.tableIds];
+                waiting.clear();
+            }
+        } else {
+            // ハンド・フォー・ハンドが終わったら待っていた卓も始める
+            step.startTableIds = [...new Set([...idle, ...waiting])]
+                .filter(id => tournament.tableIds.includes(id));
+            waiting.clear();
+        }
+        if (tournament.handForHand) {
+            step.startTableIds.filter(id => id !== roomId).forEach(id => this.releasedTables.add(id));
+        }
+        return step;
+    }
+
+    /** 残っているプレイヤー数（敗退が未確定のプレイヤーを含む） */
+    playersLeft(tournament: MultiTableTournamentState): number {
+        return tournament.entrants - tournament.placements.length;
+    }
+
+    /**
+     * スナップショットから復元した卓を大会に結び直す（同じ大会の卓は1つの状態を共有する）
+     * 復元できなかった卓は大会から外す
+     * @returns 復元した大会
+     */
+    restoreTables(rooms: Room[]): MultiTableTournamentState[] {
+        const restored: MultiTableTournamentState[] = [];
+        for (const room of rooms) {
+            const saved = room.tournament;
+            if (!isMultiTableTournament(saved)) continue;
+
+            let tournament = this.tournaments.get(saved.id);
+            if (!tournament) {
+                tournament = saved;
+                this.tournaments.set(tournament.id, tournament);
+                restored.push(tournament);
+            }
+            room.tournament = tournament;
+        }
+        for (const tournament of restored) {
+            tournament.tableIds = tournament.tableIds.filter(id => this.rooms.getRoomById(id)?.tournament === tournament);
+        }
+        return restored;
+    }
+
+    /**
+     * 終了した大会の卓を閉じる（次の大会は openPresets で開く）
+     * @returns 削除した卓
+     */
+    close(tournamentId: string): string[] {
+        const tournament = this.tournaments.get(tournamentId);
+        if (!tournament) return [];
+
+        const tableIds = [...tournament.tableIds];
+        tableIds.forEach(id => this.rooms.deleteRoom(id));
+        this.clearTableState(tournament);
+        this.tournaments.delete(tournamentId);
+        this.registrations.delete(tournamentId);
+        return tableIds;
+    }
+
+    toListItem(tournament: MultiTableTournamentState): TournamentListItem {
+        return {
+            id: tournament.id,
+            name: tournament.name,
+            status: tournament.status,
+            buyIn: tournament.config.buyIn,
+            startingStack: tournament.config.startingStack,
+            prizePool: tournament.prizePool,
+            entrants: tournament.entrants,
+            maxEntrants: tournament.config.maxEntrants,
+            playersLeft: tournament.status === 'REGISTERING' ? tournament.entrants : this.playersLeft(tournament),
+            levelIndex: tournament.levelIndex,
+            gamesList: tournament.config.gamesList,
+            tableIds: tournament.tableIds,
+            handForHand: tournament.handForHand,
+            finalTable: tournament.finalTable,
+        };
+    }
+
+    getListItems(): TournamentListItem[] {
+        return this.list().map(t => this.toListItem(t));
+    }
+
+    private requireTournament(tournamentId: string): MultiTableTournamentState {
+        const tournament = this.tournaments.get(tournamentId);
+        if (!tournament) {
+            throw new Error('Tournament not found');
+        }
+        return tournament;
+    }
+
+    private createTable(tournament: MultiTableTournamentState, tableNumber: number): Room {
+        const config = tournament.config;
+        const level = currentLevel(tournament);
+        const room = this.rooms.createRoom(undefined, {
+            maxPlayers: config.tableSize,
+            smallBlind: level.smallBlind,
+            bigBlind: level.bigBlind,
+            allowedGames: config.gamesList,
+        }, `${tournament.presetId}-t${tableNumber}`);
+
+        room.displayName = `${tournament.name} · Table ${tableNumber}`;
+        room.category = 'mtt';
+        room.rotation.enabled = config.gamesList.length > 1;
+        room.rotation.handsPerGame = config.handsPerGame;
+        room.tournament = tournament;
+        Object.assign(room.config, levelConfig(level));
+        room.gameState.minRaise = room.config.bigBlind;
+        return room;
+    }
+
+    /**
+     * 処理する卓のスタック0のプレイヤーを敗退させる。残り1人なら優勝を確定して終了
+     */
+    private eliminate(tournament: MultiTableTournamentState, roomIds: string[], now: number): MttElimination[] {
+        const busted = roomIds
+            .map(id => this.rooms.getRoomById(id))
+            .filter((room): room is Room => room !== null)
+            .flatMap(room => room.players
+                .map((player, seatIndex) => ({ room, player, seatIndex }))
+                .filter(({ player }) => player !== null && player.stack <= 0))
+            .sort((a, b) => startingStackOf(a.player!) - startingStackOf(b.player!));
+
+        const left = this.playersLeft(tournament);
+        const eliminations: MttElimination[] = busted.map(({ room, player, seatIndex }, i) => {
+            room.players[seatIndex] = null;
+            return { roomId: room.id, placement: placeFor(tournament, room, player!, left - i, now) };
+        });
+
+        if (left - busted.length <= 1) {
+            const room = this.tables(tournament).find(r => r.players.some(p => p !== null));
+            const winner = room?.players.find(p => p !== null);
+            if (winner) {
+                eliminations.push({ roomId: room.id, placement: placeFor(tournament, room, winner, 1, now) });
+            }
+            tournament.status = 'FINISHED';
+            tournament.levelEndsAt = null;
+            tournament.finishedAt = now;
+            tournament.handForHand = false;
+        }
+
+        tournament.placements.push(...eliminations.map(e => e.placement));
+        return eliminations;
+    }
+
+    /**
+     * 卓のブレイクと人数調整（動かすのはハンド間の卓のプレイヤーだけ）
+     * 1. 残りの人数が1卓少なくても座れるなら、人数の少ない卓を割って他の卓の空席にランダムに座らせる
+     * 2. 最も少ない卓と2人以上差がある卓から、次に BB を払うプレイヤーを BB が最も早く回ってくる席へ移す
+     */
+    private rebalance(
+        tournament: MultiTableTournamentState,
+        sourceIds: string[]
+    ): { moves: SeatMove[]; brokenTables: MttStep['brokenTables'] } {
+        const moves: SeatMove[] = [];
+        const brokenTables: MttStep['brokenTables'] = [];
+        const tableSize = tournament.config.tableSize;
+
+        for (;;) {
+            const tables = this.tables(tournament);
+            const total = tables.reduce((sum, room) => sum + seatedCount(room), 0);
+            if (tables.length <= Math.ceil(total / tableSize)) break;
+
+            const room = tables
+                .filter(r => sourceIds.includes(r.id))
+                .sort((a, b) => seatedCount(a) - seatedCount(b))[0];
+            if (!room) break;
+            const others = tables.filter(r => r !== room);
+            const freeSeats = others.reduce((sum, r) => sum + r.players.length - seatedCount(r), 0);
+            if (freeSeats < seatedCount(room)) break;
+
+            for (const seatIndex of bigBlindOrder(room.players, room.dealerBtnIndex)) {
+                const destination = others
+                    .filter(r => seatedCount(r) < r.players.length)
+                    .sort((a, b) => seatedCount(a) - seatedCount(b))[0];
+                moves.push(this.movePlayer(room, seatIndex, destination, findRandomEmptySeat(destination.players)!));
+            }
+            tournament.tableIds = tournament.tableIds.filter(id => id !== room.id);
+            this.rooms.deleteRoom(room.id);
+            brokenTables.push({ roomId: room.id, displayName: room.displayName ?? room.id });
+            console.log(`🏆 Table broken: ${room.id} (${tournament.tableIds.length} tables left)`);
+        }
+
+        for (;;) {
+            const tables = this.tables(tournament);
+            const from = tables
+                .filter(r => sourceIds.includes(r.id))
+                .sort((a, b) => seatedCount(b) - seatedCount(a))[0];
+            if (!from) break;
+            const to = tables
+                .filter(r => r !== from)
+                .sort((a, b) => seatedCount(a) - seatedCount(b))[0];
+            if (!to || seatedCount(from) - seatedCount(to) < 2) break;
+
+            const seatIndex = bigBlindOrder(from.players, from.dealerBtnIndex)[0];
+            moves.push(this.movePlayer(from, seatIndex, to, worstEmptySeat(to.players, to.dealerBtnIndex)!));
+        }
+
+        return { moves, brokenTables };
+    }
+
+    /**
+     * プレイヤーを別の卓の席に移す
+     * 移動先がハンド中なら次のハンドから参加（BB待ちにはしない）
+     */
+    private movePlayer(from: Room, seatIndex: number, to: Room, toSeatIndex: number): SeatMove {
+        const player = from.players[seatIndex]!;
+        from.players[seatIndex] = null;
+
+        const joinNow = to.gameState.status === 'WAITING';
+        player.bet = 0;
+        player.totalBet = 0;
+        player.deadAnte = undefined;
+        player.hand = null;
+        player.lastAction = undefined;
+        player.studUpCards = undefined;
+        player.drawDiscards = undefined;
+        player.dramahaDeclaration = undefined;
+        player.status = joinNow ? 'ACTIVE' : 'SIT_OUT';
+        player.pendingJoin = !joinNow;
+        player.waitingForBB = false;
+        to.players[toSeatIndex] = player;
+
+        return { player, fromRoomId: from.id, toRoomId: to.id, seatIndex: toSeatIndex };
+    }
+
+    private tables(tournament: MultiTableTournamentState): Room[] {
+        return tournament.tableIds
+            .map(id => this.rooms.getRoomById(id))
+            .filter((room): room is Room => room !== null);
+    }
+
+    private isWaiting(roomId: string): boolean {
+        return this.rooms.getRoomById(roomId)?.gameState.status === 'WAITING';
+    }
+
+    private waitingTablesOf(tournamentId: string): Set<string> {
+        let waiting = this.waitingTables.get(tournamentId);
+        if (!waiting) {
+            waiting = new Set();
+            this.waitingTables.set(tournamentId, waiting);
+        }
+        return waiting;
+    }
+
+    private clearTableState(tournament: MultiTableTournamentState): void {
+        this.waitingTables.delete(tournament.id);
+        tournament.tableIds.forEach(id => this.releasedTables.delete(id));
+    }
+}
+
+// シングルトンインスタンスをエクスポート
+export const mttCoordinator = new MttCoordinator(roomManager);
+
+function seatedCount(room: Room): number {
+    return room.players.filter(p => p !== null).length;
+}
+
+function shuffle<T>(items: T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
@@ -0,0 +1,227 @@
+/**
+ * Sit & Go Tests
+ * 賞金の計算・開始・レベル進行・敗退順位・次の大会への切り替え
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    advanceLevel, calculatePayouts, canStart, createTournament, eliminateBustedPlayers,
+    registerEntry, resetTournament, resumeTournamentClock, startTournament, unregisterEntry,
+} from './sitAndGo.js';
+import type { Player, Room, TournamentConfig } from '../types.js';
+
+const CONFIG: TournamentConfig = {
+    buyIn: 100,
+    startingStack: 1500,
+    levels: [
+        { smallBlind: 10, bigBlind: 20, durationSec: 300 },
+        { smallBlind: 15, bigBlind: 30, durationSec: 300 },
+        { smallBlind: 25, bigBlind: 50, ante: 10, bringIn: 15, durationSec: 300 },
+    ],
+    payouts: [65, 35],
+};
+
+function createPlayer(socketId: string, stack: number, totalBet = 0): Player {
+    return {
+        socketId,
+        name: socketId,
+        stack,
+        bet: 0,
+        totalBet,
+        status: 'ACTIVE',
+        hand: null,
+        userId: `user-${socketId}`
+    };
+}
+
+function createRoom(players: (Player | null)[]): Room {
+    return {
+        id: 'sng-test',
+        config: {
+            maxPlayers: players.length,
+            smallBlind: 10,
+            bigBlind: 20
+        },
+        players,
+        dealerBtnIndex: 0,
+        activePlayerIndex: -1,
+        streetStarterIndex: 0,
+        lastAggressorIndex: -1,
+        rotation: {
+            enabled: true,
+            gamesList: ['NLH', 'PLO8', '7CS', '7CS8', 'RAZZ'],
+            currentGameIndex: 2,
+            handsPerGame: 6
+        },
+        metaGame: {
+            standUp: { isActive: false, remainingPlayers: [] },
+            sevenDeuce: false
+        },
+        createdAt: Date.now(),
+        gameState: {
+            status: 'WAITING' as any,
+            street: 0,
+            gameVariant: '7CS',
+            board: [],
+            pot: { main: 0, side: [] },
+            deckStatus: { stubCount: 0, burnCount: 0 },
+            currentBet: 0,
+            minRaise: 20,
+            handNumber: 30,
+            raisesThisRound: 0,
+            deck: []
+        },
+        tournament: createTournament(CONFIG)
+    };
+}
+
+/** 全席を登録済みにした部屋 */
+function createRegisteredRoom(seats: number): Room {
+    const room = createRoom(Array.from({ length: seats }, (_, i) => createPlayer(`p${i}`, CONFIG.startingStack)));
+    for (let i = 0; i < seats; i++) registerEntry(room.tournament!);
+    return room;
+}
+
+describe('createTournament', () => {
+    it('配当率の合計が100でなければ拒否する', () => {
+        expect(() => createTournament({ ...CONFIG, payouts: [60, 30] })).toThrow('add up to 100');
+        expect(() => createTournament({ ...CONFIG, levels: [] })).toThrow('at least one blind level');
+        expect(() => createTournament({ ...CONFIG, buyIn: 0 })).toThrow('positive integer');
+    });
+});
+
+describe('calculatePayouts', () => {
+    it('端数は1位に加え、合計は賞金プールと一致する', () => {
+        expect(calculatePayouts(1000, [50, 30, 20], 6)).toEqual([500, 300, 200]);
+        expect(calculatePayouts(700, [65, 35], 7)).toEqual([455, 245]);
+        expect(calculatePayouts(601, [50, 30, 20], 6)).toEqual([301, 180, 120]);
+    });
+
+    it('参加人数より入賞枠が多い場合は上位だけで配分する', () => {
+        expect(calculatePayouts(200, [50, 30, 20], 2)).toEqual([125, 75]);
+    });
+});
+
+describe('registration', () => {
+    it('登録と取り消しで賞金プールが増減し、満席で開始できる', () => {
+        const room = createRoom([createPlayer('p0', 1500), null]);
+        registerEntry(room.tournament!);
+        expect(room.tournament!.prizePool).toBe(100);
+        expect(canStart(room)).toBe(false);
+
+        room.players[1] = createPlayer('p1', 1500);
+        registerEntry(room.tournament!);
+        expect(canStart(room)).toBe(true);
+
+        unregisterEntry(room.tournament!);
+        expect(room.tournament!.prizePool).toBe(100);
+    });
+
+    it('開始後は登録できない', () => {
+        const room = createRegisteredRoom(2);
+        startTournament(room, 0);
+        expect(() => registerEntry(room.tournament!)).toThrow('Registration is closed');
+        expect(() => unregisterEntry(room.tournament!)).toThrow('Registration is closed');
+    });
+});
+
+describe('startTournament', () => {
+    it('賞金を確定し、開始スタックと最初のレベルを適用する（ローテーションはそのまま）', () => {
+        const room = createRegisteredRoom(3);
+        room.players[1]!.disconnected = true;
+        room.players[1]!.status = 'SIT_OUT';
+        startTournament(room, 1_000);
+
+        expect(room.tournament).toMatchObject({
+            status: 'RUNNING', entrants: 3, prizePool: 300, payouts: [195, 105],
+            levelIndex: 0, levelEndsAt: 301_000, startedAt: 1_000,
+        });
+        expect(room.players.every(p => p?.status === 'ACTIVE' && p.stack === 1500)).toBe(true);
+        expect(room.config).toMatchObject({ smallBlind: 10, bigBlind: 20 });
+        expect(room.rotation.currentGameIndex).toBe(2);
+    });
+});
+
+describe('advanceLevel', () => {
+    it('時間でレベルが上がり、最終レベルでタイマーが止まる', () => {
+        const room = createRegisteredRoom(2);
+        startTournament(room, 0);
+
+        const level = advanceLevel(room.tournament!, 300_000);
+        expect(level.bigBlind).toBe(30);
+        expect(room.tournament!.levelEndsAt).toBe(600_000);
+
+        advanceLevel(room.tournament!, 600_000);
+        expect(room.tournament!.levelIndex).toBe(2);
+        expect(room.tournament!.levelEndsAt).toBeNull();
+
+        expect(advanceLevel(room.tournament!, 900_000)).toMatchObject({ bigBlind: 50, ante: 10, bringIn: 15 });
+    });
+
+    it('再起動で止まっていた時間はレベルの残りに含めない', () => {
+        const room = createRegisteredRoom(2);
+        startTournament(room, 0);
+        resumeTournamentClock(room.tournament!, 100_000, 500_000);
+        expect(room.tournament!.levelEndsAt).toBe(700_000);
+    });
+});
+
+describe('eliminateBustedPlayers', () => {
+    it('同じハンドで飛んだ場合は開始時のスタックが多い方が上位', () => {
+        const room = createRegisteredRoom(4);
+        startTournament(room, 0);
+        room.players[0] = { ...createPlayer('p0', 0, 300), deadAnte: 20 };
+        room.players[2] = createPlayer('p2', 0, 500);
+        room.players[3]!.stack = 4200;
+
+        const placements = eliminateBustedPlayers(room, 5_000);
+        expect(placements.map(p => [p.name, p.place])).toEqual([['p0', 4], ['p2', 3]]);
+        expect(placements[0]).toMatchObject({ userId: 'user-p0', prize: 0, handNumber: 30, finishedAt: 5_000 });
+        expect(room.players[0]).toBeNull();
+        expect(room.players[2]).toBeNull();
+        expect(room.tournament!.status).toBe('RUNNING');
+    });
+
+    it('残り1人で優勝が確定し、入賞者に賞金を割り当てる', () => {
+        const room = createRegisteredRoom(3);
+        startTournament(room, 0);
+        room.players[1]!.stack = 0;
+        eliminateBustedPlayers(room, 1_000);
+
+        room.players[0]!.stack = 0;
+        room.players[2]!.stack = 4500;
+        const placements = eliminateBustedPlayers(room, 2_000);
+
+        expect(placements).toMatchObject([
+            { name: 'p0', place: 2, prize: 105 },
+            { name: 'p2', place: 1, prize: 195 },
+        ]);
+        expect(room.tournament).toMatchObject({ status: 'FINISHED', levelEndsAt: null, finishedAt: 2_000 });
+        expect(room.tournament!.placements.map(p => p.place)).toEqual([3, 2, 1]);
+        expect(room.players[2]).not.toBeNull();
+    });
+
+    it('登録中は何もしない', () => {
+        const room = createRoom([createPlayer('p0', 0), null]);
+        expect(eliminateBustedPlayers(room, 0)).toEqual([]);
+        expect(room.players[0]).not.toBeNull();
+    });
+});
+
+describe('resetTournament', () => {
+    it('席を空けて同じ設定の新しい大会の登録受付に戻す', () => {
+        const room = createRegisteredRoom(2);
+        startTournament(room, 0);
+        advanceLevel(room.tournament!, 300_000);
+        room.config.bigBlind = 30;
+        room.players[0]!.stack = 0;
+        eliminateBustedPlayers(room, 400_000);
+        const finishedId = room.tournament!.id;
+
+        resetTournament(room);
+        expect(room.players).toEqual([null, null]);
+        expect(room.tournament!.id).not.toBe(finishedId);
+        expect(room.tournament).toMatchObject({ status: 'REGISTERING', prizePool: 0, levelIndex: 0, placements: [] });
+        expect(room.config).toMatchObject({ smallBlind: 10, bigBlind: 20 });
+    });
+});
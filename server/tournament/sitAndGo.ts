@@ -0,0 +1,227 @@
+/**
+ * Sit & Go トーナメント
+ * 登録・開始・ブラインドレベルの進行・敗退順位・賞金の計算（部屋の状態だけを扱う純粋なロジック）
+ *
+ * 卓上のチップはトーナメントチップで、台帳の table 口座には参加費（賞金プール）が入る。
+ * 賞金は順位が確定した時点で支払う
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+    BlindLevel, Room, RoomConfig, TournamentConfig, TournamentPlacement, TournamentState,
+} from '../types.js';
+
+/**
+ * 登録受付中の大会を作成
+ */
+export function createTournament(config: TournamentConfig): TournamentState {
+    if (!Number.isInteger(config.buyIn) || config.buyIn <= 0) {
+        throw new Error('Tournament buy-in must be a positive integer');
+    }
+    if (!Number.isInteger(config.startingStack) || config.startingStack <= 0) {
+        throw new Error('Starting stack must be a positive integer');
+    }
+    if (config.levels.length === 0) {
+        throw new Error('Tournament needs at least one blind level');
+    }
+    const percentTotal = config.payouts.reduce((total, p) => total + p, 0);
+    if (config.payouts.length === 0 || config.payouts.some(p => p <= 0) || percentTotal !== 100) {
+        throw new Error('Payout percentages must be positive and add up to 100');
+    }
+
+    return {
+        id: randomUUID(),
+        status: 'REGISTERING',
+        config,
+        entrants: 0,
+        prizePool: 0,
+        payouts: [],
+        levelIndex: 0,
+        levelEndsAt: null,
+        placements: [],
+    };
+}
+
+export function currentLevel(tournament: TournamentState): BlindLevel {
+    const levels = tournament.config.levels;
+    return levels[Math.min(tournament.levelIndex, levels.length - 1)];
+}
+
+/**
+ * レベルに対応する卓の設定（未指定のアンティ・ブリングインはゲーム既定に戻す）
+ */
+export function levelConfig(level: BlindLevel): Partial<RoomConfig> {
+    return {
+        smallBlind: level.smallBlind,
+        bigBlind: level.bigBlind,
+        anteAmount: level.ante,
+        studAnte: level.bringIn,
+    };
+}
+
+/**
+ * 順位別の賞金額
+ * 参加人数より入賞枠が多い場合は上位だけで配分し、端数は1位に加える
+ */
+export function calculatePayouts(prizePool: number, percents: number[], entrants: number): number[] {
+    const paid = percents.slice(0, Math.max(1, entrants));
+    const total = paid.reduce((sum, p) => sum + p, 0);
+    const amounts = paid.map(p => Math.floor(prizePool * p / total));
+    amounts[0] += prizePool - amounts.reduce((sum, a) => sum + a, 0);
+    return amounts;
+}
+
+/** 支払い済みの賞金の合計 */
+export function paidOut(tournament: TournamentState): number {
+    return tournament.placements.reduce((total, p) => total + p.prize, 0);
+}
+
+/**
+ * 参加費を賞金プールに加える（着席と同時に呼ぶ）
+ */
+export function registerEntry(tournament: TournamentState): void {
+    if (tournament.status !== 'REGISTERING') {
+        throw new Error('Registration is closed');
+    }
+    tournament.prizePool += tournament.config.buyIn;
+}
+
+/**
+ * 開始前の登録取り消し（参加費は返金する）
+ */
+export function unregisterEntry(tournament: TournamentState): void {
+    if (tournament.status !== 'REGISTERING') {
+        throw new Error('Registration is closed');
+    }
+    tournament.prizePool -= tournament.config.buyIn;
+}
+
+/** 満席になったら開始できる */
+export function canStart(room: Room): boolean {
+    return room.tournament?.status === 'REGISTERING'
+        && room.players.filter(p => p !== null).length === room.config.maxPlayers;
+}
+
+/**
+ * 大会を開始: 賞金を確定し、最初のレベルのブラインドを適用
+ * 切断中の登録者も参加させる（手番はタイムアウトでフォールド）
+ */
+export function startTournament(room: Room, now: number): void {
+    const tournament = room.tournament;
+    if (!tournament || tournament.status !== 'REGISTERING') {
+        throw new Error('Tournament is not registering');
+    }
+
+    const seated = room.players.filter(p => p !== null);
+    tournament.status = 'RUNNING';
+    tournament.entrants = seated.length;
+    tournament.payouts = calculatePayouts(tournament.prizePool, tournament.config.payouts, seated.length);
+    tournament.levelIndex = 0;
+    tournament.levelEndsAt = tournament.config.levels.length > 1
+        ? now + tournament.config.levels[0].durationSec * 1000
+        : null;
+    tournament.startedAt = now;
+
+    for (const player of seated) {
+        player.stack = tournament.config.startingStack;
+        player.status = 'ACTIVE';
+        player.pendingJoin = false;
+        player.waitingForBB = false;
+        player.pendingSitOut = false;
+    }
+
+    Object.assign(room.config, levelConfig(currentLevel(tournament)));
+    room.gameState.minRaise = room.config.bigBlind;
+}
+
+/**
+ * 次のレベルへ（最終レベルに入ったらタイマーは止まる）
+ * @returns 新しいレベル
+ */
+export function advanceLevel(tournament: TournamentState, now: number): BlindLevel {
+    const lastIndex = tournament.config.levels.length - 1;
+    tournament.levelIndex = Math.min(tournament.levelIndex + 1, lastIndex);
+    const level = currentLevel(tournament);
+    tournament.levelEndsAt = tournament.levelIndex < lastIndex ? now + level.durationSec * 1000 : null;
+    return level;
+}
+
+/**
+ * ハンド間に、スタックが0になったプレイヤーを敗退させて席を空ける
+ * 同じハンドで複数人が飛んだ場合は、ハンド開始時のスタックが多い方を上位にする
+ * （飛んだプレイヤーは全額をポットに入れているので totalBet + deadAnte が開始時のスタック）
+ * 残りが1人になったら優勝を確定して終了
+ * @returns 今回確定した順位（優勝者を含む）
+ */
+export function eliminateBustedPlayers(room: Room, now: number): TournamentPlacement[] {
+    const tournament = room.tournament;
+    if (!tournament || tournament.status !== 'RUNNING') return [];
+
+    const seated = room.players.filter(p => p !== null).length;
+    const busted = room.players
+        .map((player, seatIndex) => ({ player, seatIndex }))
+        .filter(({ player }) => player !== null && player.stack <= 0)
+        .sort((a, b) => startingStackOf(a.player!) - startingStackOf(b.player!));
+
+    const placements: TournamentPlacement[] = [];
+    busted.forEach(({ player, seatIndex }, i) => {
+        placements.push(placeFor(tournament, room, player!, seated - i, now));
+        room.players[seatIndex] = null;
+    });
+
+    const remaining = room.players.filter(p => p !== null);
+    if (remaining.length <= 1) {
+        if (remaining[0]) {
+            placements.push(placeFor(tournament, room, remaining[0], 1, now));
+        }
+        tournament.status = 'FINISHED';
+        tournament.levelEndsAt = null;
+        tournament.finishedAt = now;
+    }
+
+    tournament.placements.push(...placements);
+    return placements;
+}
+
+/** 飛んだプレイヤーのハンド開始時のスタック */
+export function startingStackOf(player: { totalBet: number; deadAnte?: number }): number {
+    return player.totalBet + (player.deadAnte ?? 0);
+}
+
+/** 順位を確定（賞金は開始時に確定した順位別の額） */
+export function placeFor(
+    tournament: TournamentState,
+    room: Room,
+    player: { name: string; userId?: string },
+    place: number,
+    now: number
+): TournamentPlacement {
+    return {
+        place,
+        name: player.name,
+        userId: player.userId,
+        prize: tournament.payouts[place - 1] ?? 0,
+        handNumber: room.gameState.handNumber,
+        finishedAt: now,
+    };
+}
+
+/**
+ * 終了した大会の卓を次の大会の登録受付に戻す（残っている優勝者は席を外す）
+ */
+export function resetTournament(room: Room): void {
+    if (!room.tournament) return;
+    room.players = room.players.map(() => null);
+    room.tournament = createTournament(room.tournament.config);
+    room.pendingConfig = undefined;
+    Object.assign(room.config, levelConfig(currentLevel(room.tournament)));
+    room.gameState.minRaise = room.config.bigBlind;
+}
+
+/**
+ * 再起動で止まっていた時間はレベルの残り時間に含めない
+ */
+export function resumeTournamentClock(tournament: TournamentState, savedAt: number, now: number): void {
+    if (tournament.status !== 'RUNNING' || tournament.levelEndsAt === null) return;
+    tournament.levelEndsAt = now + Math.max(0, tournament.levelEndsAt - savedAt);
+}
@@ -0,0 +1,43 @@
+/**
+ * マルチテーブルの卓移動で使うボタン位置の計算（席の配列だけを扱う純粋なロジック）
+ *
+ * 次のハンドでボタンは dealerBtnIndex の次の着席者に移る（Dealer.moveButton と同じ）。
+ * その次が SB、さらに次が BB（ヘッズアップはボタン = SB）
+ */
+
+/**
+ * 次のハンドから BB を払う順に並べた着席中の席番号
+ * 卓を割る・人数を揃えるときは先頭（次に BB を払う人）から動かす
+ */
+export function bigBlindOrder(seats: readonly unknown[], dealerBtnIndex: number): number[] {
+    const occupied: number[] = [];
+    for (let offset = 1; offset <= seats.length; offset++) {
+        const seatIndex = (dealerBtnIndex + offset) % seats.length;
+        if (seats[seatIndex] !== null) occupied.push(seatIndex);
+    }
+    if (occupied.length < 2) return occupied;
+
+    // occupied[0] が次のボタン
+    const bbIndex = occupied.length === 2 ? 1 : 2;
+    return [...occupied.slice(bbIndex), ...occupied.slice(0, bbIndex)];
+}
+
+/**
+ * 移動してくるプレイヤーに渡す空席
+ * 最も早く BB が回ってくる席を選ぶ（移動でブラインドを逃れられないように）
+ * @returns 空席がなければ null
+ */
+export function worstEmptySeat(seats: readonly unknown[], dealerBtnIndex: number): number | null {
+    let worst: number | null = null;
+    let worstTurn = Infinity;
+    seats.forEach((seat, seatIndex) => {
+        if (seat !== null) return;
+        const simulated = seats.map((s, i) => i === seatIndex ? true : s);
+        const turn = bigBlindOrder(simulated, dealerBtnIndex).indexOf(seatIndex);
+        if (turn < worstTurn) {
+            worst = seatIndex;
+            worstTurn = turn;
+        }
+    });
+    return worst;
+}
@@ -0,0 +1,50 @@
+/**
+ * トーナメント結果ストア
+ * 終了した Sit & Go を Tournament / TournamentEntry としてDBに保存
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { TournamentState } from '../types.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * 大会の結果（全員の順位と賞金）を保存
+ * 失敗してもゲーム進行は止めない（ログのみ）
+ */
+export async function saveTournamentResult(
+  roomId: string,
+  name: string,
+  gamesList: string[],
+  tournament: TournamentState
+): Promise<void> {
+  try {
+    await prisma.tournament.create({
+      data: {
+        id: tournament.id,
+        roomId,
+        name,
+        gamesList,
+        buyIn: tournament.config.buyIn,
+        startingStack: tournament.config.startingStack,
+        entrants: tournament.entrants,
+        prizePool: tournament.prizePool,
+        levelsPlayed: tournament.levelIndex + 1,
+        startedAt: new Date(tournament.startedAt ?? Date.now()),
+        finishedAt: new Date(tournament.finishedAt ?? Date.now()),
+        entries: {
+          create: tournament.placements.map(p => ({
+            userId: p.userId ?? null,
+            playerName: p.name,
+            place: p.place,
+            prize: p.prize,
+            handNumber: p.handNumber,
+            finishedAt: new Date(p.finishedAt),
+          })),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Failed to save tournament result:', error);
+  }
+}
@@ -3,18 +3,143 @@
  * Type definitions for the Multi-Room Poker Platform
  */
 
+import type { BetStructure, DeckType } from './gameVariants.js';
+
 // ========== Room Configuration ==========
 
 export interface RoomConfig {
-    maxPlayers: number;        // 最大プレイヤー数（現在は6固定、将来8に拡張可能）
+    maxPlayers: number;        // 最大プレイヤー数（2〜8）
     smallBlind: number;        // スモールブラインド
     bigBlind: number;          // ビッグブラインド
     buyInMin?: number;         // 最小バイイン
     buyInMax?: number;         // 最大バイイン
-    allowedGames?: string[];   // 許可されたゲーム一覧 ["NLH", "PLO", "2-7_TD", ...]
+    allowedGames?: string[];   // 許可されたゲーム一覧 ["NLH", "PLO", "2-7_TD", ...]（"NLH@fixed" でベット構造を上書き）
     timeLimit?: number;        // アクションタイムアウト（秒）
     studAnte?: number;         // Studゲームのアンティ（デフォルト: BB/5）
+    anteType?: 'blind' | 'ante' | 'bb-ante' | 'button-ante';  // フロップ/ドローゲームのアンティ方式（未指定時はゲーム設定に従う）
+    anteAmount?: number;       // アンティ額（ante: 1人あたり、bb-ante/button-ante: 支払う総額）
+    straddlePolicy?: 'none' | 'utg' | 'button' | 'mississippi';  // ストラドル方式（NL/PLのボタンゲームのみ、デフォルト: none）
+    maxStraddles?: number;     // 連続ストラドルの上限（1=シングル、2=ダブル…、各ストラドルは直前の2倍、デフォルト: 1）
     password?: string;         // プライベートルームのパスワード（任意）
+    rake?: RakePolicy;         // レーキ設定（未指定時はレーキなし）
+    spectatorHoleCardDelay?: number;  // 観戦者に手札を公開するディレイ（秒、配信用。送信時点で終わったハンドのみ）。未指定なら観戦者には手札を見せない
+    recordChat?: boolean;      // チャットをハンド履歴と一緒に保存するか
+}
+
+/**
+ * レーキ集計
+ */
+export interface RakeStats {
+    total: number;             // 累計レーキ額
+    hands: number;             // レーキを徴収したハンド数
+}
+
+/**
+ * レーキ設定
+ * ポット分配前にメイン/サイドポットから徴収する
+ */
+export interface RakePolicy {
+    percent: number;           // レーキ率（%）
+    cap?: number;              // 上限額（capsByPlayers に該当がない場合に使用、未指定は上限なし）
+    capsByPlayers?: { minPlayers: number; cap: number }[];  // 参加人数別の上限（minPlayers以上で適用、最大の該当エントリを使用）
+    noFlopNoDrop?: boolean;    // Flopゲーム: フロップが開かずに終わったハンドはレーキなし
+    noDropOnFirstStreet?: boolean;  // Stud: 3rd Street / Draw: 最初のドロー前に終わったハンドはレーキなし
+}
+
+/**
+ * トーナメントのブラインドレベル
+ * Limitゲームでは bigBlind がスモールベット
+ */
+export interface BlindLevel {
+    smallBlind: number;
+    bigBlind: number;
+    ante?: number;             // アンティ（アンティのあるゲームのみ適用、未指定はゲーム既定）
+    bringIn?: number;          // Studのブリングイン（未指定は BB/5）
+    durationSec: number;       // レベルの長さ（秒）
+}
+
+/**
+ * Sit & Go の設定（満席で開始）
+ */
+export interface TournamentConfig {
+    buyIn: number;             // 参加費（全額を賞金プールへ）
+    startingStack: number;     // 開始スタック（トーナメントチップ）
+    levels: BlindLevel[];      // ブラインドスケジュール（最終レベル以降は据え置き）
+    payouts: number[];         // 順位別の配当率（%、合計100）例: [65, 35]
+}
+
+export type TournamentStatus = 'REGISTERING' | 'RUNNING' | 'FINISHED';
+
+/**
+ * 確定した順位（敗退順に追加し、優勝者が最後）
+ */
+export interface TournamentPlacement {
+    place: number;
+    name: string;
+    userId?: string;
+    prize: number;
+    handNumber: number;        // 敗退したハンド（優勝者は最終ハンド）
+    finishedAt: number;
+}
+
+/**
+ * Sit & Go の進行状態
+ */
+export interface TournamentState {
+    id: string;                // 大会ID（DBの Tournament.id）
+    status: TournamentStatus;
+    config: TournamentConfig;
+    entrants: number;          // 開始時の参加人数
+    prizePool: number;         // 参加費の合計
+    payouts: number[];         // 順位別の賞金額（開始時に確定）
+    levelIndex: number;
+    levelEndsAt: number | null;  // 次のレベルに上がる時刻（開始前・最終レベルは null）
+    placements: TournamentPlacement[];
+    startedAt?: number;
+    finishedAt?: number;
+}
+
+/**
+ * マルチテーブルトーナメントの設定（定員に達したら開始）
+ */
+export interface MultiTableTournamentConfig extends TournamentConfig {
+    maxEntrants: number;       // 定員
+    tableSize: number;         // 1卓の席数
+    gamesList: string[];       // ローテーション（1種類ならローテーションなし）
+    handsPerGame: number;
+}
+
+/**
+ * マルチテーブルトーナメントの進行状態
+ * 各卓の room.tournament は同じオブジェクトを参照する（entrants は登録中も登録数）
+ */
+export interface MultiTableTournamentState extends TournamentState {
+    config: MultiTableTournamentConfig;
+    presetId: string;
+    name: string;
+    tableIds: string[];        // 現在の卓（最後の1卓がファイナルテーブル）
+    handForHand: boolean;      // バブル: 全卓がハンドを終えるのを待って一斉に次のハンドへ
+    finalTable: boolean;
+}
+
+/**
+ * ロビー向けのマルチテーブルトーナメント情報
+ */
+export interface TournamentListItem {
+    id: string;
+    name: string;
+    status: TournamentStatus;
+    buyIn: number;
+    startingStack: number;
+    prizePool: number;
+    entrants: number;
+    maxEntrants: number;
+    playersLeft: number;
+    levelIndex: number;
+    gamesList: string[];
+    tableIds: string[];
+    handForHand: boolean;
+    finalTable: boolean;
 }
 
 export type GameVariant =
@@ -23,6 +148,7 @@ export type GameVariant =
     | 'PLO'
     | 'PLO8'
     // Flop Games (β版追加)
+    | 'SD_NLH'             // Short Deck (6+) Hold'em
     | 'PLO5'               // 5-Card PLO
     | 'BIG_O'              // 5-Card PLO8
     | 'FLO8'               // Fixed-Limit Omaha Hi-Lo
@@ -149,6 +275,9 @@ export interface Player {
     stack: number;             // 持ちチップ量
     bet: number;               // 現在のストリートでのベット額
     totalBet: number;          // そのハンドでの総ベット額（サイドポット計算用）
+    utgSitOut?: boolean;       // 8人トリプルドローのUTG強制シットアウト中（次のハンドで自動復帰）
+    deadAnte?: number;         // BB/ボタンアンティで支払ったデッドマネー（totalBetには含めない）
+    straddleNextHand?: boolean; // ストラドル希望（トグル、ストラドル可能な席の時だけ投稿される）
     status: PlayerStatus;      // プレイヤーの状態
     hand: string[] | null;     // 手札（サーバー内部のみ保持、クライアントには伏せて送る）
     resumeToken?: string;      // 再接続用トークン
@@ -168,8 +297,15 @@ export interface Player {
     // ゲーム固有情報（オプショナル）
     drawDiscards?: number;     // ドローゲームで何枚交換したか
     studUpCards?: string[];    // スタッドの公開カード
+    dramahaDeclaration?: 'high' | 'low';  // Dramaha Pick'em: ドローハンドのハイ/ロー宣言
+    clientSeed?: string;       // Provably Fair: シャッフルに混ぜるクライアントのエントロピー
+    botStyle?: BotStyle;       // ヒューリスティックBOT（OFC以外）のプレイスタイル。人間とOFCのBOTはなし
+    apiBot?: boolean;          // 外部BOT API（APIキーで接続したプログラム）。手番は bot-decision-request で依頼する
 }
 
+// ヒューリスティックBOTのプレイスタイル
+export type BotStyle = 'tight' | 'loose' | 'calling-station';
+
 // ========== Game State ==========
 
 export type GameStatus = 'WAITING' | 'PLAYING' | 'PAUSED';
@@ -177,6 +313,7 @@ export type GameStatus = 'WAITING' | 'PLAYING' | 'PAUSED';
 export interface GameState {
     status: GameStatus | GamePhase;
     gameVariant: string;       // 現在のゲーム (例: "NLH", "PLO_OCEAN")
+    betStructure?: BetStructure; // ベット構造の上書き（"NLH@fixed" 等で指定、なしはバリアント既定）
     street: number;            // Hold'em: 0:Pre, 1:Flop, 2:Turn, 3:River, 4:Showdown
                                // Stud: 0:3rd, 1:4th, 2:5th, 3:6th, 4:7th, 5:Showdown
                                // Draw: 0:Pre, 1:1st Draw, 2:2nd Draw, 3:3rd Draw, 4:Showdown
@@ -199,15 +336,24 @@ export interface GameState {
     // All-In Runout用
     isRunout?: boolean;        // true = オールインランアウト中
     runoutPhase?: string;      // ランアウト開始時のフェーズ
+    runBoards?: string[][];    // Run it Twice/3 Times: ランごとのボード（2本以上の時のみ）
     // β版追加: ダブルボード用
     board2?: string[];         // セカンドボード (Double Board バリアント)
+    // β版追加: アンティ（ゲームログ表示用）
+    antes?: { playerId: string; playerName: string; amount: number }[];
+    // ストラドル（ライブブラインド、投稿順）
+    straddles?: { playerId: string; playerName: string; amount: number }[];
+    // Provably Fair: このハンドのサーバーシードのコミットメント（シード本体は参加者が卓を離れてからハンド履歴で公開）
+    fairness?: FairnessCommitment;
+    // Provably Fair: 次のハンドのサーバーシードのコミットメント（クライアントシードの確定前に公開）
+    nextFairnessCommitment?: string;
 }
 
 // ========== Rotation Management ==========
 
 export interface RotationState {
     enabled: boolean;          // ローテーションが有効か
-    gamesList: string[];       // ローテーション予定リスト
+    gamesList: string[];       // ローテーション予定リスト（"NLH@fixed" 等のベット構造指定可）
     currentGameIndex: number;  // リストのどこにいるか
     handsPerGame: number;      // 1ゲームあたりのハンド数（通常は8=1周）
     orbitCount?: number;       // 現在の周回数
@@ -263,6 +409,12 @@ export interface Room {
     // 保留設定（次ハンド開始時に適用）
     pendingConfig?: PendingConfigChange;
 
+    // レーキ集計（部屋単位の累計）
+    rakeStats?: RakeStats;
+
+    // チャット: ホストにミュートされたプレイヤー（userId / ゲストは resumeToken のキー、Private卓のみ。クライアントには socketId で送る）
+    chatMuted?: string[];
+
     // メタ情報
     createdAt: number;                  // 部屋作成時刻（タイムスタンプ）
 
@@ -270,7 +422,10 @@ export interface Room {
     isPreset?: boolean;                 // サーバー作成のプリセットルームか
     presetId?: string;                  // プリセットルームID (例: "nlh-1-2")
     displayName?: string;              // 表示名 (例: "NLH 1/2")
-    category?: 'nlh' | 'mix';         // ルームカテゴリ
+    category?: 'nlh' | 'mix' | 'sng' | 'mtt';  // ルームカテゴリ
+
+    // トーナメント卓のみ（Sit & Go、マルチテーブルは大会の状態を全卓で共有）
+    tournament?: TournamentState;
 
     // OFC (Open Face Chinese) 専用状態
     ofcState?: OFCGameState;
@@ -316,15 +471,24 @@ export interface RoomJoinedResponse {
 export interface RoomListItem {
     id: string;
     playerCount: number;                // 現在の着席人数
+    spectatorCount: number;             // 観戦者数
     maxPlayers: number;
     gameVariant: string;
+    betStructure: BetStructure;         // 実際のベット構造（上書き込み）
     blinds: string;                     // 例: "5/10"
     isPrivate: boolean;
     buyInMin?: number;
     buyInMax?: number;
     displayName?: string;              // プリセットルーム表示名
-    category?: 'nlh' | 'mix';         // ルームカテゴリ
+    category?: 'nlh' | 'mix' | 'sng' | 'mtt';  // ルームカテゴリ
     rotationGames?: string[];          // ローテーションゲーム一覧
+    tournament?: {                     // Sit & Go の概要
+        status: TournamentStatus;
+        buyIn: number;
+        startingStack: number;
+        prizePool: number;
+        levelIndex: number;
+    };
 }
 
 export interface ErrorResponse {
@@ -360,6 +524,7 @@ export type GamePhase =
     // β版追加: Ocean / Dramaha / Cry Me a River フェーズ
     | 'OCEAN'          // Oceanカード (6枚目のコミュニティカード)
     | 'DRAMAHA_DRAW'   // Dramahaドロー交換フェーズ (リバー後)
+    | 'VANISH'         // Cry Me a Riverカード消失フェーズ (リバー後)
     // Stud フェーズ
     | 'THIRD_STREET'   // 3rd Street (2 down + 1 up)
     | 'FOURTH_STREET'  // 4th Street (1 up)
@@ -400,12 +565,101 @@ export interface TimerConfig {
     thinkTime: number;         // 考慮時間（秒）
 }
 
-// ハンド履歴（リプレイ用）
+// ハンド履歴（リプレイ・エクスポート用、ハンド終了時にDBへ保存）
 export interface HandHistory {
+    roomId: string;
     handNumber: number;
     gameVariant: string;
-    players: { name: string; stack: number }[];
-    actions: PlayerAction[];
+    betStructure?: BetStructure;       // 実際のベット構造（OFCはなし）
+    smallBlind: number;
+    bigBlind: number;
+    maxPlayers: number;                // テーブルの最大人数（エクスポートの "6-max" 等）
+    buttonSeat: number;                // ボタンの座席（ボタンなしのゲームは-1）
+    startedAt: number;
+    endedAt: number;
+    players: HandHistoryPlayer[];
+    actions: HandActionRecord[];
     board: string[];
-    winners: { playerId: string; amount: number }[];
+    board2?: string[];                 // ダブルボード
+    runBoards?: string[][];            // Run it Twice/3 Times
+    pots: { amount: number; eligiblePlayers: string[] }[];  // レーキ徴収前のポット（先頭がメイン）
+    rake: number;
+    winners: { playerId: string; amount: number; handRank: string }[];
+    fairness?: FairnessReveal;         // Provably Fair: 公開済みのシード（検証用）
+    chat?: ChatMessage[];              // ハンド中のチャット（RoomConfig.recordChat が有効な部屋のみ）
+}
+
+// ハンド履歴の参加者
+export interface HandHistoryPlayer {
+    playerId: string;                  // ハンド時点のsocketId
+    userId?: string;
+    name: string;
+    seatIndex: number;
+    startingStack: number;
+    endingStack: number;
+    holeCards: string[];               // 最終的な手札（サーバー保存用、ドロー後・Studは配られた順）
+    shownCards: string[] | null;       // ショーダウンで公開したカード（null = 非公開/マック）
+    handRank?: string;
+    totalBet: number;                  // ポットへの総拠出額（アンティ含む）
+    amountWon: number;
+    rakePaid: number;
+    ofcBoard?: OFCRow;                 // OFC: 最終ボード
+    ofcPoints?: number;                // OFC: このハンドの獲得ポイント
 }
+
+// ハンド履歴のアクション（強制ベット・ドロー・OFC配置も含む）
+export interface HandActionRecord {
+    playerId: string;
+    playerName: string;
+    seatIndex: number;
+    street: string;                    // アクション時のフェーズ（PREFLOP, THIRD_STREET, FIRST_DRAW, OFC_R1 等）
+    type: ActionType | 'POST_SB' | 'POST_BB' | 'ANTE' | 'STRADDLE' | 'BRING_IN' | 'DRAW' | 'VANISH' | 'PLACE';
+    amount?: number;                   // このアクションでポットに入れた額
+    betTo?: number;                    // アクション後のこのストリートのベット額（BET/RAISEの「to」）
+    cards?: string[];                  // DRAW/VANISH/PLACE: 捨てたカード
+    received?: string[];               // DRAW: 引いたカード
+    placements?: OFCPlacement[];       // PLACE: 配置したカードと配置先
+    timestamp: number;
+}
+
+// 進行中のハンドの記録（GameEngine / OFCGameEngine が保持し、ハンド終了時に HandHistory へ変換）
+export interface HandRecord {
+    startedAt: number;
+    startingStacks: Record<string, number>;  // socketId → ブラインド徴収前のスタック
+    actions: HandActionRecord[];
+    fairness?: FairnessReveal;
+}
+
+// ========== Provably Fair ==========
+
+// OFCはジョーカー2枚入りの54枚デッキ
+export type FairDeckType = DeckType | 'ofc';
+
+// ハンド開始時に公開するコミットメント
+export interface FairnessCommitment {
+    commitment: string;    // SHA-256(serverSeed) の16進
+    clientSeed: string;    // 着席プレイヤーのクライアントシード（席順に '|' で連結）
+    nonce: number;         // ハンド番号
+    deckType: FairDeckType;
+}
+
+// テーブルチャットのメッセージ（ディーラー/システムメッセージも同じストリーム）
+export interface ChatMessage {
+    id: string;
+    kind: 'player' | 'dealer';
+    playerId?: string;                 // 送信者のsocketId（dealerはなし）
+    userId?: string;
+    playerName: string;
+    text: string;
+    timestamp: number;
+}
+
+// ハンド履歴に残すシード（これでデッキ順を再計算できる。参加者には卓を離れてから公開）
+export interface FairnessReveal extends FairnessCommitment {
+    serverSeed: string;
+}
+
+// 開発・テスト用のデッキ指定（ルーム単位。未指定なら Provably Fair のランダムシャッフル）
+export type DeckSource =
+    | { type: 'seed'; seed: string }           // サーバーシードを固定（同じシード + ハンド番号 → 同じデッキ）
+    | { type: 'scripted'; decks: string[][] }; // ハンドごとに配る順（先頭から配る。使い切ったら通常のシャッフル）
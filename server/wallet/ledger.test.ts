@@ -0,0 +1,190 @@
+/**
+ * Ledger Tests
+ * 振替の仕訳・口座の割り当て・卓上チップの集計
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    HOUSE_BANK, accountForPlayer, assertBalanced, chipsOnTable,
+    isBalanceChecked, settleUnsettledTable, tableAccount, tableContributions, transfer, userAccount,
+} from './ledger.js';
+import { createTournament } from '../tournament/sitAndGo.js';
+import type { Player, Room } from '../types.js';
+
+function createPlayer(socketId: string, stack: number, userId?: string): Player {
+    return {
+        socketId,
+        name: socketId,
+        stack,
+        bet: 0,
+        totalBet: 0,
+        status: 'ACTIVE',
+        hand: null,
+        userId
+    } as Player;
+}
+
+function createRoom(players: (Player | null)[]): Room {
+    return {
+        id: 'test-room',
+        config: {
+            maxPlayers: 6,
+            smallBlind: 5,
+            bigBlind: 10
+        },
+        players,
+        dealerBtnIndex: 0,
+        activePlayerIndex: -1,
+        streetStarterIndex: 0,
+        lastAggressorIndex: -1,
+        rotation: {
+            enabled: false,
+            gamesList: ['NLH'],
+            currentGameIndex: 0,
+            handsPerGame: 8
+        },
+        metaGame: {
+            standUp: { isActive: false, remainingPlayers: [] },
+            sevenDeuce: false
+        },
+        createdAt: Date.now(),
+        gameState: {
+            status: 'WAITING' as any,
+            street: 0,
+            gameVariant: 'NLH',
+            board: [],
+            pot: { main: 0, side: [] },
+            deckStatus: { stubCount: 0, burnCount: 0 },
+            currentBet: 0,
+            minRaise: 10,
+            handNumber: 0,
+            raisesThisRound: 0,
+            deck: []
+        }
+    };
+}
+
+describe('transfer', () => {
+    it('出金と入金の2仕訳で合計0', () => {
+        const tx = transfer('BUY_IN', userAccount('u1'), tableAccount('r1'), 500, 'r1');
+        expect(tx.postings).toEqual([
+            { account: 'user:u1', amount: -500 },
+            { account: 'table:r1', amount: 500 },
+        ]);
+        expect(() => assertBalanced(tx)).not.toThrow();
+    });
+
+    it('正の整数以外・同一口座への振替は拒否する', () => {
+        expect(() => transfer('BUY_IN', 'user:u1', 'table:r1', 0)).toThrow('Amount must be a positive integer');
+        expect(() => transfer('BUY_IN', 'user:u1', 'table:r1', -100)).toThrow();
+        expect(() => transfer('BUY_IN', 'user:u1', 'table:r1', 10.5)).toThrow();
+        expect(() => transfer('BUY_IN', 'user:u1', 'table:r1', NaN)).toThrow();
+        expect(() => transfer('CASH_OUT', 'table:r1', 'table:r1', 100)).toThrow('Cannot transfer to the same account');
+    });
+
+    it('合計が0でない取引は検出する', () => {
+        expect(() => assertBalanced({
+            type: 'ADJUSTMENT',
+            postings: [{ account: HOUSE_BANK, amount: -100 }, { account: 'table:r1', amount: 90 }],
+        })).toThrow('Unbalanced transaction');
+    });
+});
+
+describe('accountForPlayer', () => {
+    it('ログインユーザーはウォレット、ゲスト・BOTはハウス', () => {
+        expect(accountForPlayer(createPlayer('p0', 100, 'u1'))).toBe('user:u1');
+        expect(accountForPlayer(createPlayer('p1', 100))).toBe(HOUSE_BANK);
+        expect(accountForPlayer(createPlayer('bot-r1-0', 400))).toBe(HOUSE_BANK);
+        expect(isBalanceChecked('user:u1')).toBe(true);
+        expect(isBalanceChecked(HOUSE_BANK)).toBe(false);
+        expect(isBalanceChecked('table:r1')).toBe(false);
+    });
+});
+
+describe('chipsOnTable', () => {
+    it('ハンド間は着席者のスタック合計、ハンド中は null', () => {
+        const room = createRoom([createPlayer('p0', 1000, 'u1'), null, createPlayer('p1', 250)]);
+        expect(chipsOnTable(room)).toBe(1250);
+
+        room.gameState.status = 'PLAYING' as any;
+        expect(chipsOnTable(room)).toBeNull();
+    });
+
+    it('Sit & Go は未払いの賞金プール（ハンド中も）', () => {
+        const room = createRoom([createPlayer('p0', 2900, 'u1'), createPlayer('p1', 100)]);
+        room.gameState.status = 'PLAYING' as any;
+        room.tournament = {
+            ...createTournament({
+                buyIn: 100,
+                startingStack: 1500,
+                levels: [{ smallBlind: 10, bigBlind: 20, durationSec: 300 }],
+                payouts: [65, 35],
+            }),
+            prizePool: 300,
+            placements: [{ place: 3, name: 'p2', prize: 0, handNumber: 4, finishedAt: 0 }],
+        };
+        expect(chipsOnTable(room)).toBe(300);
+
+        room.tournament.placements.push({ place: 2, name: 'p1', prize: 105, handNumber: 9, finishedAt: 0 });
+        expect(chipsOnTable(room)).toBe(195);
+    });
+});
+
+describe('tableContributions', () => {
+    it('卓の残高が最後に0になった後の持ち込み純額を集計する', () => {
+        const postings = [
+            // 精算済みのセッション: u1 が負けて u2 が持ち出した
+            { transactionId: 't1', account: 'user:u1', amount: -500 },
+            { transactionId: 't1', account: 'table:r1', amount: 500 },
+            { transactionId: 't2', account: 'table:r1', amount: -500 },
+            { transactionId: 't2', account: 'user:u2', amount: 500 },
+            // 未精算のセッション
+            { transactionId: 't3', account: 'user:u2', amount: -1000 },
+            { transactionId: 't3', account: 'table:r1', amount: 1000 },
+            { transactionId: 't4', account: HOUSE_BANK, amount: -300 },
+            { transactionId: 't4', account: 'table:r1', amount: 300 },
+        ];
+
+        expect(tableContributions('r1', postings)).toEqual(new Map([
+            ['user:u2', 1000],
+            [HOUSE_BANK, 300],
+        ]));
+    });
+});
+
+describe('settleUnsettledTable', () => {
+    it('持ち込んだユーザーに返金し、ゲスト・BOTの分はハウスへ戻す', () => {
+        const contributions = new Map([
+            [userAccount('u1'), 1000],
+            [userAccount('u2'), -200],   // 勝って持ち出した
+            [HOUSE_BANK, 500],
+        ]);
+        const tx = settleUnsettledTable('r1', 1300, contributions);
+
+        expect(tx.type).toBe('CASH_OUT');
+        expect(tx.postings).toEqual([
+            { account: 'table:r1', amount: -1300 },
+            { account: 'user:u1', amount: 1000 },
+            { account: HOUSE_BANK, amount: 300 },
+        ]);
+    });
+
+    it('残高が足りなければ按分し、端数はハウスへ', () => {
+        const contributions = new Map([[userAccount('u1'), 1000], [userAccount('u2'), 500]]);
+        const tx = settleUnsettledTable('r1', 1000, contributions);
+
+        expect(tx.postings).toEqual([
+            { account: 'table:r1', amount: -1000 },
+            { account: 'user:u1', amount: 666 },
+            { account: 'user:u2', amount: 333 },
+            { account: HOUSE_BANK, amount: 1 },
+        ]);
+    });
+
+    it('残高が負ならハウスから補う', () => {
+        expect(settleUnsettledTable('r1', -50, new Map()).postings).toEqual([
+            { account: HOUSE_BANK, amount: -50 },
+            { account: 'table:r1', amount: 50 },
+        ]);
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * チップ台帳（複式簿記）
+ * すべてのチップ移動を「口座間の振替」として表し、1取引の仕訳合計は常に0
+ *
+ * 口座:
+ *   user:<userId>   ユーザーのウォレット（残高は0未満にならない）
+ *   table:<roomId>  卓上のチップ（着席中プレイヤーのスタック + ポット）。Sit & Go は未払いの賞金プール
+ *   house:bank      プレイマネーの発行元（ゲスト・BOTのバイインもここから）
+ *   house:rake      レーキの受け取り
+ */
+
+import type { Room } from '../types.js';
+import { paidOut } from '../tournament/sitAndGo.js';
+
+export const HOUSE_BANK = 'house:bank';
+export const HOUSE_RAKE = 'house:rake';
+
+export type LedgerEntryType =
+    | 'GRANT'        // 新規ウォレットへの初期残高
+    | 'BUY_IN'
+    | 'REBUY'
+    | 'CASH_OUT'     // 離席・切断・着席失敗時の返金
+    | 'RAKE'
+    | 'PRIZE'        // Sit & Go の賞金
+    | 'ADJUSTMENT';  // OFCで負け額がスタックを超えた分のハウス補填
+
+export interface LedgerPosting {
+    account: string;
+    amount: number;  // 正=入金 / 負=出金
+}
+
+export interface LedgerTransaction {
+    type: LedgerEntryType;
+    roomId?: string;
+    postings: LedgerPosting[];
+}
+
+export function userAccount(userId: string): string {
+    return `user:${userId}`;
+}
+
+export function tableAccount(roomId: string): string {
+    return `table:${roomId}`;
+}
+
+/** 着席者のチップの出どころ（ログインユーザーはウォレット、ゲスト・BOTはハウス） */
+export function accountForPlayer(player: { userId?: string }): string {
+    return player.userId ? userAccount(player.userId) : HOUSE_BANK;
+}
+
+/** 残高不足を拒否する口座（ユーザーのウォレットのみ） */
+export function isBalanceChecked(account: string): boolean {
+    return account.startsWith('user:');
+}
+
+/**
+ * from → to への振替
+ * 金額は正の整数のみ
+ */
+export function transfer(
+    type: LedgerEntryType,
+    from: string,
+    to: string,
+    amount: number,
+    roomId?: string
+): LedgerTransaction {
+    if (!Number.isInteger(amount) || amount <= 0) {
+        throw new Error('Amount must be a positive integer');
+    }
+    if (from === to) {
+        throw new Error('Cannot transfer to the same account');
+    }
+    return {
+        type,
+        roomId,
+        postings: [
+            { account: from, amount: -amount },
+            { account: to, amount },
+        ],
+    };
+}
+
+/** 仕訳の合計が0でなければ Error */
+export function assertBalanced(tx: LedgerTransaction): void {
+    if (tx.postings.length < 2) {
+        throw new Error('Transaction needs at least two postings');
+    }
+    const sum = tx.postings.reduce((total, p) => total + p.amount, 0);
+    if (sum !== 0) {
+        throw new Error(`Unbalanced transaction (${tx.type}): ${sum}`);
+    }
+}
+
+/**
+ * 卓への口座ごとの持ち込み純額（バイイン - キャッシュアウト等）
+ * 卓の残高が最後に0になった後の取引だけを数える（それ以前のセッションは精算済み）
+ * @param entries 卓の台帳の仕訳（記帳順）
+ */
+export function tableContributions(
+    roomId: string,
+    entries: { transactionId: string; account: string; amount: number }[]
+): Map<string, number> {
+    const account = tableAccount(roomId);
+    let contributions = new Map<string, number>();
+    let balance = 0;
+    entries.forEach((entry, i) => {
+        if (entry.account === account) {
+            balance += entry.amount;
+        } else {
+            contributions.set(entry.account, (contributions.get(entry.account) ?? 0) - entry.amount);
+        }
+        const endOfTransaction = entries[i + 1]?.transactionId !== entry.transactionId;
+        if (endOfTransaction && balance === 0) contributions = new Map();
+    });
+    return contributions;
+}
+
+/**
+ * 未精算の卓を清算する取引（再起動でスタックが失われた卓: セッションを無効にして持ち込み分を返す）
+ * 卓へ持ち込んだ純額が正のユーザーに残高から返金する。足りなければ按分し、端数とゲスト・BOTの分はハウスへ
+ * 残高が負（ハウス補填の記帳漏れ）ならハウスから補う
+ * @param contributions tableContributions の集計
+ */
+export function settleUnsettledTable(
+    roomId: string,
+    balance: number,
+    contributions: Map<string, number>
+): LedgerTransaction {
+    const account = tableAccount(roomId);
+    if (balance < 0) {
+        return transfer('ADJUSTMENT', HOUSE_BANK, account, -balance, roomId);
+    }
+
+    const owed = [...contributions].filter(([key, amount]) => isBalanceChecked(key) && amount > 0);
+    const totalOwed = owed.reduce((total, [, amount]) => total + amount, 0);
+    const refunds: LedgerPosting[] = owed
+        .map(([key, amount]) => ({
+            account: key,
+            amount: totalOwed <= balance ? amount : Math.floor(amount * balance / totalOwed),
+        }))
+        .filter(p => p.amount > 0);
+    const toHouse = balance - refunds.reduce((total, p) => total + p.amount, 0);
+
+    const tx: LedgerTransaction = {
+        type: 'CASH_OUT',
+        roomId,
+        postings: [{ account, amount: -balance }, ...refunds],
+    };
+    if (toHouse > 0) tx.postings.push({ account: HOUSE_BANK, amount: toHouse });
+    assertBalanced(tx);
+    return tx;
+}
+
+/**
+ * 卓上のチップ総量（台帳の table 口座と一致すべき値）
+ * ハンド進行中はポットの扱いが確定しないため null
+ * Sit & Go のチップはトーナメントチップなので、未払いの賞金プールを返す
+ */
+export function chipsOnTable(room: Room): number | null {
+    if (room.tournament) {
+        return room.tournament.prizePool - paidOut(room.tournament);
+    }
+    if (room.gameState.status !== 'WAITING') return null;
+    return room.players.reduce((total, p) => total + (p ? p.stack : 0), 0);
+}
@@ -0,0 +1,32 @@
+/**
+ * ウォレット REST API
+ * GET /api/wallet/me - 自分の残高と直近の台帳
+ */
+
+import { Router } from 'express';
+import { authMiddleware } from '../auth/authMiddleware.js';
+import { getUserWallet } from './walletService.js';
+
+const router = Router();
+
+/**
+ * GET /api/wallet/me
+ * 初回アクセス時はウォレットを作成して初期残高を付与
+ */
+router.get('/me', authMiddleware, async (req, res) => {
+  try {
+    const wallet = await getUserWallet(req.user!.userId);
+    res.json({
+      balance: wallet.balance,
+      entries: wallet.entries.map(e => ({
+        ...e,
+        createdAt: e.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Wallet error:', error);
+    res.status(500).json({ message: 'Failed to fetch wallet' });
+  }
+});
+
+export default router;
@@ -0,0 +1,279 @@
+/**
+ * ウォレットサービス
+ * ユーザーのプレイマネー残高と、卓とのチップ移動をDBの台帳に記帳する
+ *
+ * 卓ごとに取引を直列化し、卓上のチップ（インメモリ）と table 口座の残高を突き合わせる
+ */
+
+import { randomUUID } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+    HOUSE_BANK, HOUSE_RAKE,
+    assertBalanced, isBalanceChecked, settleUnsettledTable, tableAccount, tableContributions,
+    transfer, userAccount,
+    type LedgerEntryType, type LedgerTransaction,
+} from './ledger.js';
+
+const prisma = new PrismaClient();
+
+export const STARTING_BALANCE = 10000;  // 新規ウォレットの初期残高
+const RECENT_ENTRY_LIMIT = 20;
+
+// roomId → 直前の取引（卓ごとに記帳順を保証する）
+const tableQueues = new Map<string, Promise<void>>();
+// roomId → インメモリに反映済みで未記帳の table 口座の増減
+const pendingTableDelta = new Map<string, number>();
+
+/**
+ * 取引をDBに記帳（全仕訳を1トランザクションで）
+ * ユーザーのウォレットが不足する場合は 'Insufficient balance'
+ */
+async function post(tx: LedgerTransaction): Promise<void> {
+    assertBalanced(tx);
+    const transactionId = randomUUID();
+
+    await prisma.$transaction(async (db: Prisma.TransactionClient | PrismaClient) => {
+        for (const posting of tx.postings) {
+            const wallet = await db.wallet.upsert({
+                where: { key: posting.account },
+                create: { key: posting.account },
+                update: {},
+            });
+
+            if (posting.amount < 0 && isBalanceChecked(posting.account)) {
+                const debited = await db.wallet.updateMany({
+                    where: { id: wallet.id, balance: { gte: -posting.amount } },
+                    data: { balance: { increment: posting.amount } },
+                });
+                if (debited.count === 0) {
+                    throw new Error('Insufficient balance');
+                }
+            } else {
+                await db.wallet.update({
+                    where: { id: wallet.id },
+                    data: { balance: { increment: posting.amount } },
+                });
+            }
+
+            await db.ledgerEntry.create({
+                data: {
+                    transactionId,
+                    walletId: wallet.id,
+                    amount: posting.amount,
+                    type: tx.type,
+                    roomId: tx.roomId,
+                },
+            });
+        }
+    });
+}
+
+/**
+ * 卓ごとに処理を直列に実行する（記帳順と突き合わせのタイミングを保証）
+ */
+function runInQueue<T>(roomId: string, step: () => Promise<T>): Promise<T> {
+    const previous = tableQueues.get(roomId) ?? Promise.resolve();
+    const current = previous.then(step);
+    const settled = current.then(() => undefined, () => undefined);
+    tableQueues.set(roomId, settled);
+    void settled.then(() => {
+        if (tableQueues.get(roomId) === settled) tableQueues.delete(roomId);
+    });
+    return current;
+}
+
+function tableDelta(roomId: string, tx: LedgerTransaction): number {
+    const account = tableAccount(roomId);
+    return tx.postings
+        .filter(p => p.account === account)
+        .reduce((total, p) => total + p.amount, 0);
+}
+
+/**
+ * インメモリのスタックに反映済みの取引を記帳する
+ * 記帳完了までは突き合わせで差し引き、失敗してもゲームは止めない（不整合は reconcileTable で検出）
+ */
+function postInBackground(roomId: string, tx: LedgerTransaction): void {
+    const delta = tableDelta(roomId, tx);
+    pendingTableDelta.set(roomId, (pendingTableDelta.get(roomId) ?? 0) + delta);
+
+    runInQueue(roomId, () => post(tx))
+        .catch(error => {
+            console.error(`Failed to post ${tx.type} for table ${roomId}:`, error);
+        })
+        .finally(() => {
+            const remaining = (pendingTableDelta.get(roomId) ?? 0) - delta;
+            if (remaining === 0) pendingTableDelta.delete(roomId);
+            else pendingTableDelta.set(roomId, remaining);
+        });
+}
+
+/**
+ * ユーザーのウォレットを用意（初回は初期残高を付与）
+ */
+async function ensureUserWallet(userId: string): Promise<void> {
+    const key = userAccount(userId);
+    const existing = await prisma.wallet.findUnique({ where: { key } });
+    if (existing) return;
+    try {
+        await prisma.wallet.create({ data: { key, userId } });
+    } catch {
+        // 同時に作成された場合は付与済み
+        return;
+    }
+    await post(transfer('GRANT', HOUSE_BANK, key, STARTING_BALANCE));
+}
+
+/**
+ * バイイン / リバイ: account → 卓
+ * ユーザーのウォレット: 記帳に成功したら apply でスタックへ反映する（残高不足は Error）
+ * apply が失敗した場合（満席・離席済みなど）は同じ順番のまま返金して Error を返す
+ * ハウス資金（ゲスト）: 残高を確認しないので先に apply し、記帳は houseBuyIn と同じくバックグラウンド（DBなしでも着席できる）
+ */
+export async function buyIn(
+    account: string,
+    roomId: string,
+    amount: number,
+    type: Extract<LedgerEntryType, 'BUY_IN' | 'REBUY'>,
+    apply: () => void
+): Promise<void> {
+    const tx = transfer(type, account, tableAccount(roomId), amount, roomId);
+    if (!isBalanceChecked(account)) {
+        apply();
+        postInBackground(roomId, tx);
+        return;
+    }
+    await ensureUserWallet(account.slice('user:'.length));
+    await runInQueue(roomId, async () => {
+        await post(tx);
+        try {
+            apply();
+        } catch (error) {
+            await post(transfer('CASH_OUT', tableAccount(roomId), account, amount, roomId));
+            throw error;
+        }
+    });
+}
+
+/**
+ * スタックに反映済みのハウス資金のバイイン（BOTの着席）
+ */
+export function houseBuyIn(roomId: string, amount: number): void {
+    if (amount <= 0) return;
+    postInBackground(roomId, transfer('BUY_IN', HOUSE_BANK, tableAccount(roomId), amount, roomId));
+}
+
+/**
+ * キャッシュアウト: 卓 → account（プレイヤーを外した時点のスタック）
+ */
+export function cashOut(account: string, roomId: string, amount: number): void {
+    if (amount <= 0) return;
+    postInBackground(roomId, transfer('CASH_OUT', tableAccount(roomId), account, amount, roomId));
+}
+
+/** レーキ: 卓 → house:rake */
+export function collectRake(roomId: string, amount: number): void {
+    if (amount <= 0) return;
+    postInBackground(roomId, transfer('RAKE', tableAccount(roomId), HOUSE_RAKE, amount, roomId));
+}
+
+/** Sit & Go の賞金: 卓（賞金プール） → account */
+export function payPrize(account: string, roomId: string, amount: number): void {
+    if (amount <= 0) return;
+    postInBackground(roomId, transfer('PRIZE', tableAccount(roomId), account, amount, roomId));
+}
+
+/**
+ * ハウス補填（正: 卓へ / 負: 卓から）
+ * OFCの負け額がスタックを超えて切り捨てられた分
+ */
+export function adjustTable(roomId: string, amount: number): void {
+    if (amount > 0) {
+        postInBackground(roomId, transfer('ADJUSTMENT', HOUSE_BANK, tableAccount(roomId), amount, roomId));
+    } else if (amount < 0) {
+        postInBackground(roomId, transfer('ADJUSTMENT', tableAccount(roomId), HOUSE_BANK, -amount, roomId));
+    }
+}
+
+/**
+ * 卓上のチップと table 口座の残高を突き合わせる
+ * 先行する取引の記帳後に評価する。getChipsOnTable が null（ハンド中）ならスキップ
+ * @returns 不一致の額（卓上 - 台帳）。一致・スキップ時は 0
+ */
+export function reconcileTable(roomId: string, getChipsOnTable: () => number | null): Promise<number> {
+    return runInQueue(roomId, async () => {
+        const chips = getChipsOnTable();
+        if (chips === null) return 0;
+        const expected = chips - (pendingTableDelta.get(roomId) ?? 0);
+        try {
+            const wallet = await prisma.wallet.findUnique({ where: { key: tableAccount(roomId) } });
+            const balance = wallet?.balance ?? 0;
+            if (expected !== balance) {
+                console.error(`🚨 Ledger mismatch at table ${roomId}: chips=${expected}, ledger=${balance}`);
+            }
+            return expected - balance;
+        } catch (error) {
+            console.error('Failed to reconcile table:', error);
+            return 0;
+        }
+    });
+}
+
+/**
+ * チップが残ったままの卓（起動時に呼ぶ: 再起動前に着席していたプレイヤーの分）
+ */
+export async function findUnsettledTables(): Promise<{ roomId: string; balance: number }[]> {
+    try {
+        const wallets = await prisma.wallet.findMany({
+            where: { key: { startsWith: 'table:' }, balance: { not: 0 } },
+        });
+        return wallets.map((w: any) => ({ roomId: w.key.slice('table:'.length), balance: w.balance }));
+    } catch (error) {
+        console.error('Failed to check unsettled tables:', error);
+        return [];
+    }
+}
+
+/**
+ * 未精算の卓を清算する（起動時、復元しなかった卓に呼ぶ）
+ * 卓の台帳から口座ごとの持ち込み純額を集計し、ユーザーへ返金・残りはハウスへ戻す
+ */
+export async function settleTable(roomId: string, balance: number): Promise<void> {
+    try {
+        const entries = await prisma.ledgerEntry.findMany({
+            where: { roomId },
+            include: { wallet: { select: { key: true } } },
+            orderBy: [{ createdAt: 'asc' }, { transactionId: 'asc' }],
+        });
+        const contributions = tableContributions(roomId, entries.map((e: any) => ({
+            transactionId: e.transactionId,
+            account: e.wallet.key,
+            amount: e.amount,
+        })));
+        await runInQueue(roomId, () => post(settleUnsettledTable(roomId, balance, contributions)));
+    } catch (error) {
+        console.error(`Failed to settle table ${roomId}:`, error);
+    }
+}
+
+/**
+ * ユーザーの残高と直近の台帳
+ */
+export async function getUserWallet(userId: string) {
+    await ensureUserWallet(userId);
+    const wallet = await prisma.wallet.findUnique({
+        where: { key: userAccount(userId) },
+        include: {
+            entries: { orderBy: { createdAt: 'desc' }, take: RECENT_ENTRY_LIMIT },
+        },
+    });
+    return {
+        balance: wallet?.balance ?? 0,
+        entries: (wallet?.entries ?? []).map((e: any) => ({
+            type: e.type as LedgerEntryType,
+            amount: e.amount,
+            roomId: e.roomId,
+            createdAt: e.createdAt,
+        })),
+    };
+}